@@ -8,8 +8,10 @@ import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
 import { useDairyData } from '@/hooks/useDairyData';
 import { dairyService } from '@/services/dairyService';
+import { estimateRoadDistanceKm } from '@/lib/geo';
 import { Truck, Factory, Milk, MapPin, Calculator, TrendingUp, RefreshCw, Download, Users, Package } from 'lucide-react';
 
 interface DairyNode {
@@ -53,6 +55,7 @@ const DairyNetworkDesigner = () => {
   const [loadingOptimization, setLoadingOptimization] = useState(false);
   const [showDemoData, setShowDemoData] = useState(true);
   const { toast } = useToast();
+  const { canManageNetwork } = useAuth();
 
   // Combine demo data with custom data when showing demo data
   const allNodes = showDemoData ? [...demoNodes.map(node => ({
@@ -150,19 +153,11 @@ const DairyNetworkDesigner = () => {
     // Simple nearest neighbor optimization for custom nodes
     farms.forEach(farm => {
       if (centers.length > 0) {
-        const nearestCenter = centers.reduce((nearest, center) => {
-          const farmDistance = Math.sqrt(
-            Math.pow(farm.lat - center.lat, 2) + Math.pow(farm.lng - center.lng, 2)
-          );
-          const nearestDistance = Math.sqrt(
-            Math.pow(farm.lat - nearest.lat, 2) + Math.pow(farm.lng - nearest.lng, 2)
-          );
-          return farmDistance < nearestDistance ? center : nearest;
-        });
+        const nearestCenter = centers.reduce((nearest, center) =>
+          estimateRoadDistanceKm(farm, center) < estimateRoadDistanceKm(farm, nearest) ? center : nearest
+        );
 
-        const distance = Math.sqrt(
-          Math.pow(farm.lat - nearestCenter.lat, 2) + Math.pow(farm.lng - nearestCenter.lng, 2)
-        ) * 111; // Rough km conversion
+        const distance = estimateRoadDistanceKm(farm, nearestCenter);
 
         newRoutes.push({
           id: Math.random().toString(36).substr(2, 9),
@@ -179,19 +174,11 @@ const DairyNetworkDesigner = () => {
 
     centers.forEach(center => {
       if (plants.length > 0) {
-        const nearestPlant = plants.reduce((nearest, plant) => {
-          const centerDistance = Math.sqrt(
-            Math.pow(center.lat - plant.lat, 2) + Math.pow(center.lng - plant.lng, 2)
-          );
-          const nearestDistance = Math.sqrt(
-            Math.pow(center.lat - nearest.lat, 2) + Math.pow(center.lng - nearest.lng, 2)
-          );
-          return centerDistance < nearestDistance ? plant : nearest;
-        });
+        const nearestPlant = plants.reduce((nearest, plant) =>
+          estimateRoadDistanceKm(center, plant) < estimateRoadDistanceKm(center, nearest) ? plant : nearest
+        );
 
-        const distance = Math.sqrt(
-          Math.pow(center.lat - nearestPlant.lat, 2) + Math.pow(center.lng - nearestPlant.lng, 2)
-        ) * 111;
+        const distance = estimateRoadDistanceKm(center, nearestPlant);
 
         newRoutes.push({
           id: Math.random().toString(36).substr(2, 9),
@@ -271,7 +258,8 @@ const DairyNetworkDesigner = () => {
             </Button>
             <Button 
               onClick={generateOptimizedRoutes}
-              disabled={loadingOptimization}
+              disabled={loadingOptimization || !canManageNetwork}
+              title={canManageNetwork ? undefined : 'Only admins and planners can save routes'}
               variant="secondary"
             >
               {loadingOptimization ? (
@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useMemo, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -8,13 +8,18 @@ import { Label } from '@/components/ui/label';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { useToast } from '@/hooks/use-toast';
 import { useDairyData } from '@/hooks/useDairyData';
+import { useDistanceMatrix } from '@/hooks/useDistanceMatrix';
+import { useFleet } from '@/hooks/useFleet';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import { depotFleet } from '@/lib/fleet';
+import { optimizeNetworkFlow, buildFlowInputFromRecords, type FeasibilityReport } from '@/lib/networkFlowOptimizer';
+import { buildDistributionInput, planDistribution } from '@/lib/distributionPlanner';
 import { 
   Zap, 
   Settings, 
   TrendingUp, 
   Truck, 
   Clock, 
-  DollarSign,
   RefreshCw,
   CheckCircle,
   AlertCircle,
@@ -25,7 +30,6 @@ import {
 interface OptimizationParams {
   maxDistanceKm: number;
   maxDeliveryTimeHours: number;
-  costPerKm: number;
   temperatureThresholdC: number;
   qualityRetentionPercent: number;
 }
@@ -39,157 +43,134 @@ interface OptimizationResult {
   timeSavings: number;
   qualityScore: number;
   recommendations: string[];
+  feasibility: FeasibilityReport;
 }
 
+const today = () => new Date().toISOString().slice(0, 10);
+
 export function DairyOptimizationEngine() {
-  const { nodes, routes, isLoading } = useDairyData();
+  const {
+    nodes,
+    routes,
+    farms: farmRecords,
+    centers: centerRecords,
+    plants: plantRecords,
+    distributors: distributorRecords,
+    outlets: outletRecords,
+    isLoading
+  } = useDairyData();
+  const { products, vehicleTypes } = useProductCatalog();
+  const { vehicles: fleetVehicles, downtime: fleetDowntime } = useFleet(today(), 1);
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [optimizationResult, setOptimizationResult] = useState<OptimizationResult | null>(null);
   const [params, setParams] = useState<OptimizationParams>({
     maxDistanceKm: 50,
     maxDeliveryTimeHours: 8,
-    costPerKm: 15,
     temperatureThresholdC: 4,
     qualityRetentionPercent: 95
   });
   const { toast } = useToast();
 
-  // Calculate distance between two points (Haversine formula)
-  const calculateDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-    const R = 6371; // Earth's radius in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLng/2) * Math.sin(dLng/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  };
+  // Road distances between all network nodes (circuity estimate until a routing provider is configured)
+  const matrixPoints = useMemo(() => nodes.map(({ id, lat, lng }) => ({ id, lat, lng })), [nodes]);
+  const { matrix: distanceMatrix } = useDistanceMatrix(matrixPoints);
 
-  // Find optimal collection routes using enhanced algorithm
-  const optimizeCollectionRoutes = (farms: any[], centers: any[], plants: any[], distributors: any[]) => {
+  // Collection: capacitated min-cost flow for farm → center → plant; distribution: plant → distributor → retail
+  const optimizeCollectionRoutes = () => {
     const optimizedRoutes = [];
     let totalCost = 0;
     let totalTime = 0;
     let totalDistance = 0;
     let qualityScores = [];
 
-    // Farm to Collection Center optimization
-    farms.forEach(farm => {
-      let bestCenter = null;
-      let minCost = Infinity;
-      let bestDistance = 0;
-
-      centers.forEach(center => {
-        const distance = calculateDistance(farm.lat, farm.lng, center.lat, center.lng);
-        if (distance <= params.maxDistanceKm) {
-          const routeCost = distance * params.costPerKm;
-          const deliveryTime = distance / 40; // 40 km/h average speed
-          
-          if (routeCost < minCost && deliveryTime <= params.maxDeliveryTimeHours) {
-            minCost = routeCost;
-            bestCenter = center;
-            bestDistance = distance;
-          }
-        }
+    const flowPlan = optimizeNetworkFlow(
+      buildFlowInputFromRecords(farmRecords, centerRecords, plantRecords),
+      {
+        maxCollectionDistanceKm: Math.min(params.maxDistanceKm, params.maxDeliveryTimeHours * 40), // 40 km/h collection speed
+        maxTransferDistanceKm: params.maxDeliveryTimeHours * 45, // 45 km/h average speed
+        distanceMatrix
+      }
+    );
+    const nodeById = new Map(nodes.map(node => [node.id, node]));
+
+    flowPlan.assignments.forEach(assignment => {
+      const isCollection = assignment.fromType === 'farm';
+      const qualityScore = isCollection
+        ? Math.max(70, params.qualityRetentionPercent - (assignment.timeHours * 2))
+        : Math.max(80, params.qualityRetentionPercent - (assignment.timeHours * 1.5));
+
+      optimizedRoutes.push({
+        from: nodeById.get(assignment.fromId),
+        to: nodeById.get(assignment.toId),
+        distance: assignment.distanceKm,
+        cost: assignment.cost,
+        time: assignment.timeHours,
+        volume: assignment.volumeLiters,
+        type: isCollection ? 'farm_to_center' : 'center_to_plant',
+        qualityScore
       });
 
-      if (bestCenter) {
-        const routeTime = bestDistance / 40;
-        const qualityScore = Math.max(70, params.qualityRetentionPercent - (routeTime * 2));
-        
-        optimizedRoutes.push({
-          from: farm,
-          to: bestCenter,
-          distance: bestDistance,
-          cost: minCost,
-          time: routeTime,
-          type: 'farm_to_center',
-          qualityScore
-        });
-
-        totalCost += minCost;
-        totalTime += routeTime;
-        totalDistance += bestDistance;
-        qualityScores.push(qualityScore);
-      }
+      totalCost += assignment.cost;
+      totalTime += assignment.timeHours * assignment.trips;
+      totalDistance += assignment.distanceKm * assignment.trips;
+      qualityScores.push(qualityScore);
     });
 
-    // Collection Center to Processing Plant optimization
-    centers.forEach(center => {
-      let bestPlant = null;
-      let minCost = Infinity;
-      let bestDistance = 0;
-
-      plants.forEach(plant => {
-        const distance = calculateDistance(center.lat, center.lng, plant.lat, plant.lng);
-        const routeCost = distance * (params.costPerKm * 1.2); // Higher cost for processing transport
-        const deliveryTime = distance / 45; // 45 km/h average speed
-        
-        if (routeCost < minCost && deliveryTime <= params.maxDeliveryTimeHours) {
-          minCost = routeCost;
-          bestPlant = plant;
-          bestDistance = distance;
-        }
+    // Distribution: replenish distributors and route deliveries to retail outlets
+    const distributionPlan = planDistribution(
+      buildDistributionInput(plantRecords, distributorRecords, outletRecords, {
+        products,
+        plantVehicles: Object.fromEntries(plantRecords.map(plant => [
+          plant.id,
+          depotFleet(fleetVehicles, fleetDowntime, plant.id, today(), vehicleTypes)
+        ])),
+        deliveryVehicleType: vehicleTypes.find(v => v.id === 'small-refrigerated-van') ?? vehicleTypes[0],
+        unspecifiedProductId: 'whole-milk'
+      }),
+      { trunkVehicleTypes: vehicleTypes, distanceMatrix }
+    );
+
+    distributionPlan.trunks.forEach(trunk => {
+      const qualityScore = Math.max(85, params.qualityRetentionPercent - trunk.hours);
+      optimizedRoutes.push({
+        from: nodeById.get(trunk.plantId),
+        to: nodeById.get(trunk.distributorId),
+        distance: trunk.distanceKm,
+        cost: trunk.cost,
+        time: trunk.hours,
+        volume: trunk.liters,
+        type: 'plant_to_distributor',
+        qualityScore
       });
 
-      if (bestPlant) {
-        const routeTime = bestDistance / 45;
-        const qualityScore = Math.max(80, params.qualityRetentionPercent - (routeTime * 1.5));
-        
-        optimizedRoutes.push({
-          from: center,
-          to: bestPlant,
-          distance: bestDistance,
-          cost: minCost,
-          time: routeTime,
-          type: 'center_to_plant',
-          qualityScore
-        });
-
-        totalCost += minCost;
-        totalTime += routeTime;
-        totalDistance += bestDistance;
-        qualityScores.push(qualityScore);
-      }
+      totalCost += trunk.cost;
+      totalTime += trunk.hours * 2 * trunk.trips;
+      totalDistance += trunk.distanceKm * 2 * trunk.trips;
+      qualityScores.push(qualityScore);
     });
 
-    // Processing Plant to Distribution optimization - Handle all node types properly
-    const allNodes = [...farms, ...centers, ...plants];
-    const distributionNodes = allNodes.filter(node => 
-      node.type === 'distributor' || node.type === 'retail' || node.type === 'collection_center'
-    );
-
-    plants.forEach(plant => {
-      distributionNodes.forEach(distributor => {
-        const distance = calculateDistance(plant.lat, plant.lng, distributor.lat, distributor.lng);
-        if (distance <= params.maxDistanceKm * 1.5) { // Allow longer distances for final distribution
-          const routeCost = distance * (params.costPerKm * 0.8); // Lower cost for final distribution
-          const routeTime = distance / 50; // 50 km/h average speed
-          const qualityScore = Math.max(85, params.qualityRetentionPercent - (routeTime * 1));
-          
-          optimizedRoutes.push({
-            from: plant,
-            to: distributor,
-            distance: distance,
-            cost: routeCost,
-            time: routeTime,
-            type: 'plant_to_distributor',
-            qualityScore
-          });
-
-          totalCost += routeCost;
-          totalTime += routeTime;
-          totalDistance += distance;
-          qualityScores.push(qualityScore);
-        }
+    distributionPlan.routes.forEach(({ depot, tour, drops }) => {
+      const qualityScore = Math.max(85, params.qualityRetentionPercent - tour.durationHours);
+      optimizedRoutes.push({
+        from: nodeById.get(depot.id),
+        to: nodeById.get(drops[drops.length - 1]?.outletId),
+        distance: tour.distanceKm,
+        cost: tour.cost,
+        time: tour.durationHours,
+        volume: tour.loadLiters,
+        type: 'retail_delivery',
+        qualityScore
       });
+
+      totalCost += tour.cost;
+      totalTime += tour.durationHours;
+      totalDistance += tour.distanceKm;
+      qualityScores.push(qualityScore);
     });
 
     const averageQuality = qualityScores.length > 0 ? qualityScores.reduce((a, b) => a + b, 0) / qualityScores.length : 0;
 
-    return { optimizedRoutes, totalCost, totalTime, totalDistance, averageQuality };
+    return { optimizedRoutes, totalCost, totalTime, totalDistance, averageQuality, feasibility: flowPlan.feasibility, distributionPlan };
   };
 
   // Calculate current network performance for comparison
@@ -223,15 +204,8 @@ export function DairyOptimizationEngine() {
       // Simulate processing time
       await new Promise(resolve => setTimeout(resolve, 2000));
 
-      const farms = nodes.filter(n => n.type === 'farm');
-      const centers = nodes.filter(n => n.type === 'collection_center');
-      const plants = nodes.filter(n => n.type === 'processing_plant');
-      
-      // Use all available nodes as potential distributors if no specific distributor nodes exist
-      const distributors = nodes.filter(n => n.type === 'collection_center' || n.type === 'processing_plant');
-
       // Run optimization algorithm
-      const optimization = optimizeCollectionRoutes(farms, centers, plants, distributors);
+      const optimization = optimizeCollectionRoutes();
       const current = calculateCurrentPerformance();
 
       // Calculate savings
@@ -245,15 +219,15 @@ export function DairyOptimizationEngine() {
         recommendations.push("Consider adding more collection centers to reduce average route distances");
       }
       
-      if (farms.length > centers.length * 4) {
+      if (farmRecords.length > centerRecords.length * 4) {
         recommendations.push("Farm to collection center ratio is high - consider adding more collection centers");
       }
       
-      if (centers.length > plants.length * 2) {
+      if (centerRecords.length > plantRecords.length * 2) {
         recommendations.push("Consider adding processing capacity or optimizing plant locations");
       }
 
-      if (plants.length > distributors.length && distributors.length > 0) {
+      if (plantRecords.length > distributorRecords.length && distributorRecords.length > 0) {
         recommendations.push("Consider adding distribution hubs to improve final delivery efficiency");
       }
 
@@ -261,6 +235,16 @@ export function DairyOptimizationEngine() {
         recommendations.push("Significant cost savings possible through route optimization");
       }
 
+      if (!optimization.feasibility.feasible) {
+        recommendations.push(`${optimization.feasibility.unservedLiters.toLocaleString()} L/day cannot be routed within current center and plant capacities`);
+      }
+
+      if (optimization.distributionPlan.unmetLiters > 0.5) {
+        recommendations.push(
+          `Retail fill rate is ${Math.round(optimization.distributionPlan.fillRate * 100)}% - ${Math.round(optimization.distributionPlan.unmetLiters).toLocaleString()} L/day of outlet orders cannot be delivered`
+        );
+      }
+
       if (optimization.averageQuality < params.qualityRetentionPercent) {
         recommendations.push("Quality targets may not be met - consider temperature-controlled vehicles");
       }
@@ -273,7 +257,8 @@ export function DairyOptimizationEngine() {
         costSavings,
         timeSavings,
         qualityScore: optimization.averageQuality,
-        recommendations
+        recommendations,
+        feasibility: optimization.feasibility
       };
 
       setOptimizationResult(result);
@@ -363,22 +348,6 @@ export function DairyOptimizationEngine() {
                   <p className="text-xs text-muted-foreground mt-1">Maximum delivery time allowed</p>
                 </div>
                 
-                <div>
-                  <Label className="flex items-center gap-2">
-                    <DollarSign className="h-4 w-4" />
-                    Cost per Kilometer: ₹{params.costPerKm}
-                  </Label>
-                  <Slider
-                    value={[params.costPerKm]}
-                    onValueChange={([value]) => setParams(prev => ({ ...prev, costPerKm: value }))}
-                    min={5}
-                    max={50}
-                    step={1}
-                    className="mt-2"
-                  />
-                  <p className="text-xs text-muted-foreground mt-1">Transportation cost per kilometer</p>
-                </div>
-                
                 <div>
                   <Label className="flex items-center gap-2">
                     <Thermometer className="h-4 w-4" />
@@ -467,6 +436,40 @@ export function DairyOptimizationEngine() {
                   </div>
                 </div>
 
+                <div className="mb-6">
+                  <h4 className="font-semibold mb-3 flex items-center gap-2">
+                    Capacity Feasibility
+                    <Badge variant={optimizationResult.feasibility.feasible ? 'default' : 'destructive'}>
+                      {optimizationResult.feasibility.feasible ? 'Feasible' : 'Over Capacity'}
+                    </Badge>
+                  </h4>
+                  <p className="text-sm text-muted-foreground mb-3">
+                    {optimizationResult.feasibility.totalRoutedLiters.toLocaleString()} of {optimizationResult.feasibility.totalSupplyLiters.toLocaleString()} L/day routed
+                    {' '}(collection capacity {optimizationResult.feasibility.collectionCapacityLiters.toLocaleString()} L/day,
+                    processing capacity {optimizationResult.feasibility.processingCapacityLiters.toLocaleString()} L/day)
+                  </p>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {optimizationResult.feasibility.utilization.map(facility => (
+                      <div key={facility.id} className="flex items-center justify-between p-2 bg-muted rounded text-sm">
+                        <span>{facility.type === 'collection_center' ? '🏭' : '⚙️'} {facility.name}</span>
+                        <span className={facility.utilizationPercent >= 100 ? 'font-semibold text-red-600' : 'font-medium'}>
+                          {facility.utilizationPercent.toFixed(0)}%
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                  {optimizationResult.feasibility.messages.length > 0 && (
+                    <div className="space-y-2 mt-3">
+                      {optimizationResult.feasibility.messages.map((message, index) => (
+                        <Alert key={index} variant="destructive">
+                          <AlertCircle className="h-4 w-4" />
+                          <AlertDescription>{message}</AlertDescription>
+                        </Alert>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
                 {optimizationResult.recommendations.length > 0 && (
                   <div>
                     <h4 className="font-semibold mb-3">AI Recommendations:</h4>
@@ -491,9 +494,9 @@ export function DairyOptimizationEngine() {
             </CardHeader>
             <CardContent>
               <div className="space-y-3 text-sm">
-                <p><strong>Distance Calculation:</strong> Uses Haversine formula for accurate geographic distances</p>
-                <p><strong>Route Optimization:</strong> Multi-stage optimization considering farms → centers → plants → distributors</p>
-                <p><strong>Cost Model:</strong> ₹{params.costPerKm}/km base rate with adjustments for route type and requirements</p>
+                <p><strong>Distance Calculation:</strong> Road distances from the shared distance matrix, falling back to Haversine × circuity factor</p>
+                <p><strong>Route Optimization:</strong> Capacitated min-cost flow for farms → centers → plants, respecting center throughput and plant processing capacity</p>
+                <p><strong>Cost Model:</strong> Each vehicle type's ₹/km spread over a full load, giving a per-liter cost for every leg</p>
                 <p><strong>Speed Assumptions:</strong> 40 km/h collection, 45 km/h processing transport, 50 km/h distribution</p>
                 <p><strong>Quality Tracking:</strong> Real-time quality score based on time and temperature constraints</p>
                 <p><strong>Constraints:</strong> Configurable distance, time, cost, and quality thresholds</p>
@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
 import { dairyService } from '@/services/dairyService';
+import { parseCsv } from '@/lib/csv';
 import { 
   Download, 
   Upload, 
@@ -111,14 +112,14 @@ export function DataImportExport() {
   };
 
   const parseCSV = (csvText: string): ImportedData => {
-    const lines = csvText.split('\n').filter(line => line.trim());
+    const lines = parseCsv(csvText);
     if (lines.length < 2) throw new Error('CSV file must have at least a header and one data row');
 
-    const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
+    const headers = lines[0].map(h => h.trim());
     const data: any[] = [];
 
     for (let i = 1; i < lines.length; i++) {
-      const values = lines[i].split(',').map(v => v.trim().replace(/"/g, ''));
+      const values = lines[i].map(v => v.trim());
       if (values.length === headers.length) {
         const record: any = {};
         headers.forEach((header, index) => {
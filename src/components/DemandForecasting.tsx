@@ -0,0 +1,253 @@
+import React, { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { Constants } from '@/integrations/supabase/types';
+import { useSupplyChainData } from '@/hooks/useSupplyChainData';
+import { useDemandHistory, useStoredForecasts } from '@/hooks/useDemandForecast';
+import { useToast } from '@/hooks/use-toast';
+import { forecastService } from '@/services/forecastService';
+import {
+  backtest,
+  buildDailySeries,
+  forecastSeries,
+  forecastType,
+  FORECAST_MODELS,
+  type DemandMetric,
+  type ForecastModel
+} from '@/lib/demandForecasting';
+import { LineChart as LineChartIcon, Save, Target } from 'lucide-react';
+
+const HORIZONS = [7, 14, 30];
+const CONFIDENCE_LEVELS = [0.8, 0.9, 0.95, 0.99];
+const HISTORY_DAYS_SHOWN = 60;
+
+const formatValue = (metric: DemandMetric, value: number) =>
+  metric === 'price' ? `₹${value.toFixed(1)}` : `${Math.round(value).toLocaleString()} kg`;
+
+export function DemandForecasting() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const { markets } = useSupplyChainData();
+
+  const [marketId, setMarketId] = useState<string>();
+  const [fishType, setFishType] = useState<string>(Constants.public.Enums.fish_type[0]);
+  const [metric, setMetric] = useState<DemandMetric>('quantity');
+  const [model, setModel] = useState<ForecastModel>('holt_winters');
+  const [horizon, setHorizon] = useState(14);
+  const [confidenceLevel, setConfidenceLevel] = useState(0.95);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const selectedMarketId = marketId ?? markets[0]?.id;
+  const type = forecastType(metric);
+  const { history, isLoading } = useDemandHistory(selectedMarketId, fishType);
+  const { forecasts: stored } = useStoredForecasts(type, selectedMarketId, fishType);
+
+  const series = useMemo(() => buildDailySeries(
+    history.map(d => ({ date: d.demand_date, value: metric === 'price' ? d.price_per_kg : d.quantity_kg })),
+    metric === 'price' ? 'mean' : 'sum'
+  ), [history, metric]);
+
+  const scores = useMemo(() => FORECAST_MODELS.map(m => ({
+    ...m,
+    metrics: backtest(series, m.value, horizon)
+  })), [series, horizon]);
+
+  const bestModel = scores
+    .filter(s => s.metrics)
+    .sort((a, b) => a.metrics!.mape - b.metrics!.mape)[0]?.value;
+
+  const forecast = useMemo(
+    () => forecastSeries(series, model, horizon, confidenceLevel),
+    [series, model, horizon, confidenceLevel]
+  );
+
+  // Actuals, the new forecast with its interval, and earlier saved forecasts on one date axis
+  const chartData = useMemo(() => {
+    const rows = new Map<string, Record<string, number | string>>();
+    const row = (date: string) => {
+      if (!rows.has(date)) rows.set(date, { date });
+      return rows.get(date)!;
+    };
+    series.slice(-HISTORY_DAYS_SHOWN).forEach(p => { row(p.date).actual = p.value; });
+    const firstShown = series[Math.max(0, series.length - HISTORY_DAYS_SHOWN)]?.date ?? '';
+    stored.filter(f => f.target_date >= firstShown).forEach(f => { row(f.target_date).saved = f.predicted_value; });
+    forecast.forEach(p => {
+      Object.assign(row(p.date), { forecast: p.value, lower: p.lower, upper: p.upper });
+    });
+    return [...rows.values()].sort((a, b) => String(a.date).localeCompare(String(b.date)));
+  }, [series, stored, forecast]);
+
+  const saveForecast = async () => {
+    if (!selectedMarketId) return;
+    setIsSaving(true);
+    try {
+      await forecastService.saveForecasts({
+        forecastType: type,
+        marketId: selectedMarketId,
+        fishType,
+        model,
+        confidenceLevel,
+        points: forecast,
+        backtest: scores.find(s => s.value === model)?.metrics ?? null
+      });
+      queryClient.invalidateQueries({ queryKey: ['forecasts'] });
+      toast({ title: "Forecast saved", description: `${forecast.length} days written to forecasts` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the forecast",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <LineChartIcon className="h-5 w-5" />
+            Market Demand Forecast
+          </CardTitle>
+          <CardDescription>
+            Forecast daily demand or prices per market and fish type from market_demand history
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+            <div className="space-y-1">
+              <Label>Market</Label>
+              <Select value={selectedMarketId} onValueChange={setMarketId}>
+                <SelectTrigger><SelectValue placeholder="Select market" /></SelectTrigger>
+                <SelectContent>
+                  {markets.map(m => <SelectItem key={m.id} value={m.id}>{m.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Fish type</Label>
+              <Select value={fishType} onValueChange={setFishType}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {Constants.public.Enums.fish_type.map(f => (
+                    <SelectItem key={f} value={f} className="capitalize">{f}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Metric</Label>
+              <Select value={metric} onValueChange={(v) => setMetric(v as DemandMetric)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="quantity">Quantity (kg)</SelectItem>
+                  <SelectItem value="price">Price (₹/kg)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Model</Label>
+              <Select value={model} onValueChange={(v) => setModel(v as ForecastModel)}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {FORECAST_MODELS.map(m => <SelectItem key={m.value} value={m.value}>{m.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Horizon</Label>
+              <Select value={String(horizon)} onValueChange={(v) => setHorizon(Number(v))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {HORIZONS.map(h => <SelectItem key={h} value={String(h)}>{h} days</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Interval</Label>
+              <Select value={String(confidenceLevel)} onValueChange={(v) => setConfidenceLevel(Number(v))}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {CONFIDENCE_LEVELS.map(c => <SelectItem key={c} value={String(c)}>{c * 100}%</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading demand history...</p>
+          ) : series.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No market_demand history for this market and fish type.</p>
+          ) : (
+            <>
+              <ResponsiveContainer width="100%" height={320}>
+                <LineChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="date" />
+                  <YAxis />
+                  <Tooltip formatter={(value: number) => formatValue(metric, value)} />
+                  <Legend />
+                  <Line type="monotone" dataKey="actual" stroke="#2563EB" name="Actual" dot={false} />
+                  <Line type="monotone" dataKey="saved" stroke="#F59E0B" name="Saved forecast" dot={false} strokeDasharray="2 2" />
+                  <Line type="monotone" dataKey="forecast" stroke="#10B981" name="Forecast" dot={false} />
+                  <Line type="monotone" dataKey="lower" stroke="#10B981" name="Lower bound" dot={false} strokeDasharray="5 5" strokeOpacity={0.5} />
+                  <Line type="monotone" dataKey="upper" stroke="#10B981" name="Upper bound" dot={false} strokeDasharray="5 5" strokeOpacity={0.5} />
+                </LineChart>
+              </ResponsiveContainer>
+
+              <div className="flex justify-end">
+                <Button onClick={saveForecast} disabled={forecast.length === 0 || isSaving}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {isSaving ? 'Saving...' : 'Save Forecast'}
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="h-5 w-5" />
+            Backtest
+          </CardTitle>
+          <CardDescription>Rolling-origin accuracy over the last {horizon}-day windows</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">MAPE</TableHead>
+                <TableHead className="text-right">RMSE</TableHead>
+                <TableHead className="text-right">Windows</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {scores.map(s => (
+                <TableRow key={s.value}>
+                  <TableCell>
+                    {s.label}
+                    {s.value === bestModel && <Badge variant="secondary" className="ml-2">Best</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">{s.metrics ? `${s.metrics.mape.toFixed(1)}%` : '—'}</TableCell>
+                  <TableCell className="text-right">{s.metrics ? formatValue(metric, s.metrics.rmse) : '—'}</TableCell>
+                  <TableCell className="text-right">{s.metrics?.folds ?? 'Not enough history'}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
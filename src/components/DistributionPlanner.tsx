@@ -0,0 +1,513 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useDairyData } from '@/hooks/useDairyData';
+import { useFleet } from '@/hooks/useFleet';
+import { useNetworkEditor } from '@/hooks/useNetworkEditor';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import { useProductionLines } from '@/hooks/useProductionLines';
+import { dairyService, type RetailOutlet } from '@/services/dairyService';
+import { inventoryService } from '@/services/inventoryService';
+import { depotFleet } from '@/lib/fleet';
+import { formatClockTime } from '@/lib/vrpSolver';
+import { dailyPlantOutput, literProductsOnly } from '@/lib/productionPlanning';
+import {
+  defaultPlantOutput,
+  outletDemand,
+  DEFAULT_DISTRIBUTION_OPTIONS,
+  type DistributionPlan
+} from '@/lib/distributionPlanner';
+import { Store, Play, Save, RotateCcw, AlertTriangle, XCircle, Factory } from 'lucide-react';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const DEFAULT_DELIVERY_VEHICLE = 'small-refrigerated-van';
+const DEFAULT_UNSPECIFIED_PRODUCT = 'whole-milk';
+
+interface DemandForm {
+  outletId: string;
+  demand: Record<string, string>;
+  receivingFrom: string;
+  receivingTo: string;
+}
+
+const demandFormOf = (outlet: RetailOutlet, unspecifiedProductId: string): DemandForm => ({
+  outletId: outlet.id,
+  demand: Object.fromEntries(
+    Object.entries(outletDemand(outlet, unspecifiedProductId)).map(([productId, liters]) => [productId, String(liters)])
+  ),
+  receivingFrom: outlet.receiving_from.slice(0, 5),
+  receivingTo: outlet.receiving_to.slice(0, 5)
+});
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function DistributionPlanner() {
+  const { toast } = useToast();
+  const { canManageNetwork } = useAuth();
+  const { plants, distributors, outlets } = useDairyData();
+  const { products, vehicleTypes } = useProductCatalog();
+  const { vehicles, downtime } = useFleet(today(), 1);
+  const { lines } = useProductionLines();
+  const editor = useNetworkEditor();
+
+  const [minRemaining, setMinRemaining] = useState(String(DEFAULT_DISTRIBUTION_OPTIONS.minRemainingShelfLife * 100));
+  const [holdingHours, setHoldingHours] = useState(String(DEFAULT_DISTRIBUTION_OPTIONS.distributorHoldingHours));
+  const [deliveryVehicleId, setDeliveryVehicleId] = useState(DEFAULT_DELIVERY_VEHICLE);
+  const [unspecifiedProductId, setUnspecifiedProductId] = useState(DEFAULT_UNSPECIFIED_PRODUCT);
+  const [useStock, setUseStock] = useState(true);
+  // Liters by plant and product; null while following the capacity split
+  const [plantOutput, setPlantOutput] = useState<Record<string, Record<string, string>> | null>(null);
+  const [demandForm, setDemandForm] = useState<DemandForm | null>(null);
+  const [plan, setPlan] = useState<DistributionPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isLoadingOutput, setIsLoadingOutput] = useState(false);
+
+  const productName = (id: string) => products.find(p => p.id === id)?.name ?? id;
+  const distributorName = (id?: string | null) => distributors.find(d => d.id === id)?.name ?? 'Direct from plant';
+
+  const demandByProduct = useMemo(() => {
+    const totals: Record<string, number> = {};
+    outlets.forEach(outlet => Object.entries(outletDemand(outlet, unspecifiedProductId)).forEach(([productId, liters]) => {
+      totals[productId] = (totals[productId] ?? 0) + liters;
+    }));
+    return totals;
+  }, [outlets, unspecifiedProductId]);
+  const orderedProducts = products.filter(p => demandByProduct[p.id] > 0);
+
+  const defaultOutput = useMemo(() => defaultPlantOutput(plants, demandByProduct), [plants, demandByProduct]);
+  const outputValue = (plantId: string, productId: string) =>
+    plantOutput?.[plantId]?.[productId] ?? String(defaultOutput[plantId]?.[productId] ?? 0);
+  const setOutputValue = (plantId: string, productId: string, value: string) => {
+    const current = plantOutput ?? Object.fromEntries(plants.map(plant => [
+      plant.id,
+      Object.fromEntries(orderedProducts.map(p => [p.id, String(defaultOutput[plant.id]?.[p.id] ?? 0)]))
+    ]));
+    setPlantOutput({ ...current, [plantId]: { ...current[plantId], [productId]: value } });
+  };
+
+  const reportError = (fallback: string) => (error: unknown) => toast({
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback,
+    variant: "destructive"
+  });
+
+  const runPlan = async () => {
+    const deliveryVehicleType = vehicleTypes.find(v => v.id === deliveryVehicleId);
+    if (!deliveryVehicleType) {
+      toast({ title: "Error", description: "Choose a vehicle type for distributor deliveries", variant: "destructive" });
+      return;
+    }
+    setIsPlanning(true);
+    try {
+      const inventory = useStock ? await inventoryService.getStartingInventory() : undefined;
+      setPlan(await dairyService.planDistribution(
+        {
+          products,
+          plantStock: inventory && Object.fromEntries(Object.entries(inventory.plantStock).map(([plantId, stock]) => [
+            plantId,
+            literProductsOnly(stock, lines)
+          ])),
+          plantOutput: plantOutput
+            ? Object.fromEntries(Object.entries(plantOutput).map(([plantId, output]) => [
+              plantId,
+              Object.fromEntries(Object.entries(output).map(([productId, liters]) => [productId, Math.max(0, Number(liters) || 0)]))
+            ]))
+            : undefined,
+          plantVehicles: Object.fromEntries(plants.map(plant => [
+            plant.id,
+            depotFleet(vehicles, downtime, plant.id, today(), vehicleTypes)
+          ])),
+          deliveryVehicleType,
+          unspecifiedProductId
+        },
+        {
+          minRemainingShelfLife: Math.min(100, Math.max(0, Number(minRemaining) || 0)) / 100,
+          distributorHoldingHours: Math.max(0, Number(holdingHours) || 0),
+          trunkVehicleTypes: vehicleTypes
+        }
+      ));
+    } catch (error) {
+      reportError("Distribution planning failed")(error);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  // Daily output of the product mix that best uses today's milk against these orders,
+  // less what the plants already hold when planning from stock; liter products only
+  const loadProductionOutput = async () => {
+    setIsLoadingOutput(true);
+    try {
+      const inventory = useStock ? await inventoryService.getStartingInventory() : undefined;
+      const production = await dairyService.planProduction('day', literProductsOnly(demandByProduct, lines), undefined, inventory);
+      const output = dailyPlantOutput(production);
+      setPlantOutput(Object.fromEntries(plants.map(plant => [
+        plant.id,
+        Object.fromEntries(orderedProducts.map(p => [p.id, String(output[plant.id]?.[p.id] ?? 0)]))
+      ])));
+    } catch (error) {
+      reportError("Production planning failed")(error);
+    } finally {
+      setIsLoadingOutput(false);
+    }
+  };
+
+  const saveDemand = async () => {
+    if (!demandForm) return;
+    if (demandForm.receivingFrom >= demandForm.receivingTo) {
+      toast({ title: "Error", description: "Receiving hours must end after they start", variant: "destructive" });
+      return;
+    }
+    const productDemand = Object.fromEntries(
+      Object.entries(demandForm.demand)
+        .map(([productId, liters]) => [productId, Number(liters) || 0] as const)
+        .filter(([, liters]) => liters > 0)
+    );
+    setIsSaving(true);
+    try {
+      await editor.updateRecord('retail_outlets', demandForm.outletId, {
+        product_demand: productDemand,
+        daily_demand_liters: Object.values(productDemand).reduce((sum, liters) => sum + liters, 0),
+        receiving_from: demandForm.receivingFrom,
+        receiving_to: demandForm.receivingTo
+      });
+      toast({ title: "Demand saved", description: outlets.find(o => o.id === demandForm.outletId)?.name });
+      setDemandForm(null);
+    } catch (error) {
+      reportError("Could not save the outlet's demand")(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Store className="h-5 w-5" />
+          Distribution Planning
+        </CardTitle>
+        <CardDescription>
+          Supply retail outlets' daily product orders from plant output, through their distributors, within receiving
+          hours and shelf life.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="plan" className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="plan">Plan</TabsTrigger>
+            <TabsTrigger value="demand">Outlet Demand</TabsTrigger>
+            <TabsTrigger value="output">Plant Output</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="plan" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="min-remaining">Min. shelf life left at delivery (%)</Label>
+                <Input id="min-remaining" type="number" min={0} max={100} value={minRemaining} onChange={(e) => setMinRemaining(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="holding-hours">Holding at distributor (h)</Label>
+                <Input id="holding-hours" type="number" min={0} value={holdingHours} onChange={(e) => setHoldingHours(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Distributor delivery vehicle</Label>
+                <Select value={deliveryVehicleId} onValueChange={setDeliveryVehicleId}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {vehicleTypes.map(v => <SelectItem key={v.id} value={v.id}>{v.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Product for outlets without a breakdown</Label>
+                <Select value={unspecifiedProductId} onValueChange={setUnspecifiedProductId}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {products.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="ship-stock" checked={useStock} onCheckedChange={setUseStock} />
+              <Label htmlFor="ship-stock">Ship finished stock on hand at the plants as well as their output</Label>
+            </div>
+
+            <Button onClick={runPlan} disabled={isPlanning || outlets.length === 0 || plants.length === 0}>
+              <Play className="h-4 w-4 mr-2" />
+              {isPlanning ? 'Planning...' : 'Plan Distribution'}
+            </Button>
+
+            {plan && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <span>Fill rate: <strong>{percent(plan.fillRate)}</strong></span>
+                  <span>Delivered: <strong>{Math.round(plan.deliveredLiters).toLocaleString()} L</strong> of {Math.round(plan.demandLiters).toLocaleString()} L</span>
+                  <span>Routes: <strong>{plan.routes.length}</strong></span>
+                  <span>Distance: <strong>{Math.round(plan.totalDistanceKm).toLocaleString()} km</strong></span>
+                  <span>Cost: <strong>₹{Math.round(plan.totalCost).toLocaleString()}</strong> (trunk ₹{Math.round(plan.trunkCost).toLocaleString()}, delivery ₹{Math.round(plan.routeCost).toLocaleString()})</span>
+                </div>
+
+                {plan.messages.length > 0 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      <ul className="list-disc pl-4">
+                        {plan.messages.map(message => <li key={message}>{message}</li>)}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Outlet fill</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Outlet</TableHead>
+                        <TableHead>Supplied by</TableHead>
+                        <TableHead className="text-right">Ordered</TableHead>
+                        <TableHead className="text-right">Delivered</TableHead>
+                        <TableHead className="w-40">Fill rate</TableHead>
+                        <TableHead>Unmet</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {plan.outlets.map(outlet => (
+                        <TableRow key={outlet.outletId}>
+                          <TableCell className="font-medium">{outlet.outletName}</TableCell>
+                          <TableCell>{distributorName(outlet.distributorId)}</TableCell>
+                          <TableCell className="text-right">{Math.round(outlet.demandLiters).toLocaleString()} L</TableCell>
+                          <TableCell className="text-right">{Math.round(outlet.deliveredLiters).toLocaleString()} L</TableCell>
+                          <TableCell>
+                            <div className="flex items-center gap-2">
+                              <Progress value={outlet.fillRate * 100} className="flex-1" />
+                              <span className="text-xs w-10 text-right">{percent(outlet.fillRate)}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {outlet.lines.filter(line => line.unmetLiters > 0.5).map(line => (
+                              <div key={line.productId} className="flex items-start gap-1 text-red-600">
+                                <XCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                                <span>
+                                  {line.productName}: {Math.round(line.unmetLiters).toLocaleString()} L. {line.reasons.join('; ')}
+                                </span>
+                              </div>
+                            ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium">Delivery routes</h4>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {plan.routes.map(route => (
+                      <div key={`${route.depot.id}-${route.tour.id}-${route.group}`} className="border rounded-lg p-3 space-y-2 text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{route.depot.name}</span>
+                          <Badge variant="outline">{route.group}</Badge>
+                        </div>
+                        <div className="text-muted-foreground">
+                          {route.tour.vehicleType.name} · departs {formatClockTime(route.tour.departure)}, back {formatClockTime(route.tour.returnTime)} ·{' '}
+                          {Math.round(route.tour.loadLiters).toLocaleString()} L · {route.tour.distanceKm.toFixed(1)} km
+                        </div>
+                        {route.drops.map(drop => (
+                          <div key={drop.outletId}>
+                            <div className="flex justify-between">
+                              <span>{drop.outletName}</span>
+                              <span>{formatClockTime(drop.arrival)}</span>
+                            </div>
+                            <div className="pl-3 text-xs text-muted-foreground">
+                              {drop.items.map(item => `${productName(item.productId)} ${Math.round(item.liters).toLocaleString()} L`).join(', ')}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                  {plan.routes.length === 0 && <p className="text-sm text-muted-foreground">No deliveries could be routed.</p>}
+                </div>
+
+                {plan.trunks.length > 0 && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Distributor replenishment</h4>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>From</TableHead>
+                          <TableHead>To</TableHead>
+                          <TableHead>Products</TableHead>
+                          <TableHead>Vehicle</TableHead>
+                          <TableHead className="text-right">Liters</TableHead>
+                          <TableHead className="text-right">Trips</TableHead>
+                          <TableHead className="text-right">Cost</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {plan.trunks.map(trunk => (
+                          <TableRow key={`${trunk.plantId}-${trunk.distributorId}-${trunk.productIds.join('-')}`}>
+                            <TableCell>{trunk.plantName}</TableCell>
+                            <TableCell>{trunk.distributorName}</TableCell>
+                            <TableCell className="text-xs">{trunk.productIds.map(productName).join(', ')}</TableCell>
+                            <TableCell className="text-xs">{trunk.vehicleType.name}</TableCell>
+                            <TableCell className="text-right">{Math.round(trunk.liters).toLocaleString()}</TableCell>
+                            <TableCell className="text-right">{trunk.trips}</TableCell>
+                            <TableCell className="text-right">₹{Math.round(trunk.cost).toLocaleString()}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="demand" className="space-y-4">
+            {demandForm && (
+              <div className="border rounded-lg p-4 space-y-3">
+                <h4 className="font-medium">{outlets.find(o => o.id === demandForm.outletId)?.name}</h4>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  {products.map(product => (
+                    <div key={product.id} className="space-y-1">
+                      <Label className="text-xs">{product.name} (L/day)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        value={demandForm.demand[product.id] ?? ''}
+                        onChange={(e) => setDemandForm({ ...demandForm, demand: { ...demandForm.demand, [product.id]: e.target.value } })}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <Label htmlFor="receiving-from">Receiving from</Label>
+                    <Input id="receiving-from" type="time" value={demandForm.receivingFrom} onChange={(e) => setDemandForm({ ...demandForm, receivingFrom: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="receiving-to">Receiving to</Label>
+                    <Input id="receiving-to" type="time" value={demandForm.receivingTo} onChange={(e) => setDemandForm({ ...demandForm, receivingTo: e.target.value })} />
+                  </div>
+                  <Button onClick={saveDemand} disabled={isSaving}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                  <Button variant="outline" onClick={() => setDemandForm(null)}>Cancel</Button>
+                </div>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Outlet</TableHead>
+                  <TableHead>Distributor</TableHead>
+                  <TableHead>Receiving</TableHead>
+                  <TableHead>Daily orders</TableHead>
+                  {canManageNetwork && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outlets.map(outlet => (
+                  <TableRow key={outlet.id}>
+                    <TableCell className="font-medium">{outlet.name}</TableCell>
+                    <TableCell>{distributorName(outlet.distributor_id)}</TableCell>
+                    <TableCell>{outlet.receiving_from.slice(0, 5)}–{outlet.receiving_to.slice(0, 5)}</TableCell>
+                    <TableCell className="text-xs">
+                      {Object.entries(outletDemand(outlet, unspecifiedProductId))
+                        .map(([productId, liters]) => `${productName(productId)} ${liters.toLocaleString()} L`)
+                        .join(', ') || 'No orders'}
+                    </TableCell>
+                    {canManageNetwork && (
+                      <TableCell>
+                        <Button variant="outline" size="sm" onClick={() => setDemandForm(demandFormOf(outlet, unspecifiedProductId))}>
+                          Edit
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="output" className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-muted-foreground">
+                {plantOutput
+                  ? 'Edited output is used for planning.'
+                  : 'Each plant makes the ordered mix in proportion to its processing capacity.'}
+              </p>
+              <div className="flex gap-2">
+                <Button variant="outline" size="sm" disabled={isLoadingOutput || plants.length === 0} onClick={loadProductionOutput}>
+                  <Factory className="h-3 w-3 mr-1" />
+                  {isLoadingOutput ? 'Planning...' : 'From production plan'}
+                </Button>
+                <Button variant="outline" size="sm" disabled={!plantOutput} onClick={() => setPlantOutput(null)}>
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Reset
+                </Button>
+              </div>
+            </div>
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Plant</TableHead>
+                    {orderedProducts.map(product => (
+                      <TableHead key={product.id} className="text-xs">{product.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plants.map(plant => (
+                    <TableRow key={plant.id}>
+                      <TableCell className="font-medium">{plant.name}</TableCell>
+                      {orderedProducts.map(product => (
+                        <TableCell key={product.id}>
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-24"
+                            value={outputValue(plant.id, product.id)}
+                            onChange={(e) => setOutputValue(plant.id, product.id, e.target.value)}
+                          />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="text-muted-foreground">Ordered</TableCell>
+                    {orderedProducts.map(product => (
+                      <TableCell key={product.id} className="text-muted-foreground">
+                        {Math.round(demandByProduct[product.id]).toLocaleString()}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
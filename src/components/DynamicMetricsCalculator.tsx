@@ -1,5 +1,9 @@
 import React, { useMemo } from 'react';
 import { dairyProducts, vehicleTypes } from '@/data/dairyProducts';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import type { DairyProduct, VehicleType } from '@/types/products';
+import { createDistanceFunction, type DistanceMatrix } from '@/lib/geo';
+import { estimateTripSpoilage, constantAmbientProfile } from '@/lib/coldChain';
 
 interface NetworkNode {
   id: string;
@@ -26,7 +30,7 @@ interface WeatherData {
   humidity: number;
 }
 
-interface DynamicMetrics {
+export interface DynamicMetrics {
   totalCost: number;
   totalTime: number;
   averageQuality: number;
@@ -47,145 +51,169 @@ interface DynamicMetricsCalculatorProps {
   nodes: NetworkNode[];
   optimalRoute?: OptimalRoute | null;
   weatherData?: WeatherData;
+  distanceMatrix?: DistanceMatrix | null;
+  // Product and vehicle catalog; the built-in one when omitted
+  catalog?: { products: DairyProduct[]; vehicleTypes: VehicleType[] };
 }
 
-export function useDynamicMetrics({
+// Pure version of useDynamicMetrics, e.g. for comparing saved scenarios side by side
+export function calculateDynamicMetrics({
   selectedProducts,
   selectedVehicles,
   nodes,
   optimalRoute,
-  weatherData
+  weatherData,
+  distanceMatrix,
+  catalog = { products: dairyProducts, vehicleTypes }
 }: DynamicMetricsCalculatorProps): DynamicMetrics {
+  // Get selected product and vehicle data
+  const selectedProductData = catalog.products.filter(p => selectedProducts.includes(p.id));
+  const selectedVehicleData = catalog.vehicleTypes.find(v => selectedVehicles.includes(v.id));
   
-  return useMemo(() => {
-    // Get selected product and vehicle data
-    const selectedProductData = dairyProducts.filter(p => selectedProducts.includes(p.id));
-    const selectedVehicleData = vehicleTypes.find(v => selectedVehicles.includes(v.id));
-    
-    // Default metrics
-    let metrics: DynamicMetrics = {
-      totalCost: 0,
-      totalTime: 0,
-      averageQuality: 100,
-      spoilageRisk: 0,
-      efficiency: 100,
-      temperatureCompliance: 100,
-      networkUtilization: 0,
-      routeOptimality: 100,
-      weatherImpact: 0,
-      costPerKm: 0,
-      timePerNode: 0,
-      qualityRetention: 100
-    };
-
-    if (selectedProductData.length === 0 || !selectedVehicleData) {
-      return metrics;
-    }
+  // Default metrics
+  let metrics: DynamicMetrics = {
+    totalCost: 0,
+    totalTime: 0,
+    averageQuality: 100,
+    spoilageRisk: 0,
+    efficiency: 100,
+    temperatureCompliance: 100,
+    networkUtilization: 0,
+    routeOptimality: 100,
+    weatherImpact: 0,
+    costPerKm: 0,
+    timePerNode: 0,
+    qualityRetention: 100
+  };
+
+  if (selectedProductData.length === 0 || !selectedVehicleData) {
+    return metrics;
+  }
 
-    const primaryProduct = selectedProductData[0];
-    const currentTemp = weatherData?.temperature || 25;
-    const currentHumidity = weatherData?.humidity || 65;
+  const primaryProduct = selectedProductData[0];
+  const currentTemp = weatherData?.temperature || 25;
+  const currentHumidity = weatherData?.humidity || 65;
 
-    // Calculate network utilization
-    const visibleNodes = nodes.filter(n => n.isVisible !== false);
-    const totalCapacity = visibleNodes.reduce((sum, node) => sum + node.capacity, 0);
-    const totalProduction = visibleNodes
-      .filter(n => n.type === 'farm')
-      .reduce((sum, node) => sum + (node.production || 0), 0);
+  // Calculate network utilization
+  const visibleNodes = nodes.filter(n => n.isVisible !== false);
+  const totalCapacity = visibleNodes.reduce((sum, node) => sum + node.capacity, 0);
+  const totalProduction = visibleNodes
+    .filter(n => n.type === 'farm')
+    .reduce((sum, node) => sum + (node.production || 0), 0);
+  
+  metrics.networkUtilization = totalCapacity > 0 ? Math.min(100, (totalProduction / totalCapacity) * 100) : 0;
+
+  // If we have an optimal route, use its metrics
+  if (optimalRoute) {
+    metrics.totalCost = optimalRoute.totalCost;
+    metrics.totalTime = optimalRoute.totalTime;
+    metrics.spoilageRisk = optimalRoute.maxSpoilageRisk;
+    metrics.costPerKm = optimalRoute.totalDistance > 0 ? optimalRoute.totalCost / optimalRoute.totalDistance : 0;
+    metrics.timePerNode = optimalRoute.path.length > 0 ? optimalRoute.totalTime / optimalRoute.path.length : 0;
     
-    metrics.networkUtilization = totalCapacity > 0 ? Math.min(100, (totalProduction / totalCapacity) * 100) : 0;
-
-    // If we have an optimal route, use its metrics
-    if (optimalRoute) {
-      metrics.totalCost = optimalRoute.totalCost;
-      metrics.totalTime = optimalRoute.totalTime;
-      metrics.spoilageRisk = optimalRoute.maxSpoilageRisk;
-      metrics.costPerKm = optimalRoute.totalDistance > 0 ? optimalRoute.totalCost / optimalRoute.totalDistance : 0;
-      metrics.timePerNode = optimalRoute.path.length > 0 ? optimalRoute.totalTime / optimalRoute.path.length : 0;
-      
-      // Route optimality based on efficiency rating
-      metrics.routeOptimality = optimalRoute.efficiency === 'optimal' ? 95 : 
-                               optimalRoute.efficiency === 'good' ? 75 : 50;
-    } else {
-      // Calculate estimated metrics based on network structure
-      const avgDistance = calculateAverageNetworkDistance(visibleNodes);
-      const estimatedRoutes = Math.max(1, Math.floor(visibleNodes.length / 3));
-      
-      metrics.totalCost = avgDistance * estimatedRoutes * selectedVehicleData.costPerKm;
-      metrics.totalTime = (avgDistance / 45) * estimatedRoutes; // 45 km/h average speed
-      metrics.costPerKm = selectedVehicleData.costPerKm;
-      metrics.timePerNode = visibleNodes.length > 0 ? metrics.totalTime / visibleNodes.length : 0;
-    }
-
-    // Temperature compliance calculation
-    const isWithinRange = currentTemp >= primaryProduct.temperatureRange.min && 
-                         currentTemp <= primaryProduct.temperatureRange.max;
+    // Route optimality based on efficiency rating
+    metrics.routeOptimality = optimalRoute.efficiency === 'optimal' ? 95 : 
+                             optimalRoute.efficiency === 'good' ? 75 : 50;
+  } else {
+    // Calculate estimated metrics based on network structure
+    const avgDistance = calculateAverageNetworkDistance(visibleNodes, distanceMatrix);
+    const estimatedRoutes = Math.max(1, Math.floor(visibleNodes.length / 3));
     
-    metrics.temperatureCompliance = isWithinRange ? 100 : 
-      Math.max(0, 100 - Math.abs(currentTemp - primaryProduct.temperatureRange.optimal) * 10);
+    metrics.totalCost = avgDistance * estimatedRoutes * selectedVehicleData.costPerKm;
+    metrics.totalTime = (avgDistance / 45) * estimatedRoutes; // 45 km/h average speed
+    metrics.costPerKm = selectedVehicleData.costPerKm;
+    metrics.timePerNode = visibleNodes.length > 0 ? metrics.totalTime / visibleNodes.length : 0;
+  }
 
-    // Quality calculations based on temperature and time
-    const tempDeviation = Math.abs(currentTemp - primaryProduct.temperatureRange.optimal);
-    const timeImpact = metrics.totalTime * 2; // 2% quality loss per hour
-    const tempImpact = tempDeviation * 5; // 5% quality loss per degree deviation
-    
-    metrics.averageQuality = Math.max(0, 100 - timeImpact - tempImpact);
-    metrics.qualityRetention = metrics.averageQuality;
-
-    // Spoilage risk calculation (if not from route)
-    if (!optimalRoute) {
-      const baseSpoilageRate = isWithinRange ? 
-        primaryProduct.spoilageRate.perHourRefrigerated : 
-        primaryProduct.spoilageRate.perHourAtAmbient;
-      
-      const tempFactor = Math.exp(tempDeviation / 10);
-      metrics.spoilageRisk = Math.min(100, baseSpoilageRate * metrics.totalTime * tempFactor);
-    }
+  // Temperature compliance calculation
+  const isWithinRange = currentTemp >= primaryProduct.temperatureRange.min && 
+                       currentTemp <= primaryProduct.temperatureRange.max;
+  
+  metrics.temperatureCompliance = isWithinRange ? 100 : 
+    Math.max(0, 100 - Math.abs(currentTemp - primaryProduct.temperatureRange.optimal) * 10);
 
-    // Weather impact calculation
-    const optimalTemp = primaryProduct.temperatureRange.optimal;
-    const tempImpactPercent = Math.abs(currentTemp - optimalTemp) / optimalTemp * 100;
-    const humidityImpact = currentHumidity > 85 ? (currentHumidity - 85) * 2 : 0;
-    metrics.weatherImpact = Math.min(100, tempImpactPercent + humidityImpact);
+  // Quality calculations based on temperature and time
+  const tempDeviation = Math.abs(currentTemp - primaryProduct.temperatureRange.optimal);
+  const timeImpact = metrics.totalTime * 2; // 2% quality loss per hour
+  const tempImpact = tempDeviation * 5; // 5% quality loss per degree deviation
+  
+  metrics.averageQuality = Math.max(0, 100 - timeImpact - tempImpact);
+  metrics.qualityRetention = metrics.averageQuality;
+
+  // Spoilage risk estimate (if not from route): one trip of the estimated duration
+  if (!optimalRoute) {
+    metrics.spoilageRisk = estimateTripSpoilage(
+      primaryProduct,
+      selectedVehicleData,
+      metrics.totalTime,
+      constantAmbientProfile(currentTemp)
+    );
+  }
 
-    // Overall efficiency calculation
-    const qualityWeight = 0.3;
-    const costWeight = 0.25;
-    const timeWeight = 0.25;
-    const utilizationWeight = 0.2;
+  // Weather impact calculation
+  const optimalTemp = primaryProduct.temperatureRange.optimal;
+  const tempImpactPercent = Math.abs(currentTemp - optimalTemp) / optimalTemp * 100;
+  const humidityImpact = currentHumidity > 85 ? (currentHumidity - 85) * 2 : 0;
+  metrics.weatherImpact = Math.min(100, tempImpactPercent + humidityImpact);
 
-    const normalizedCost = Math.max(0, 100 - (metrics.costPerKm - 10) * 2);
-    const normalizedTime = Math.max(0, 100 - metrics.timePerNode * 10);
-    
-    metrics.efficiency = (
-      metrics.averageQuality * qualityWeight +
-      normalizedCost * costWeight +
-      normalizedTime * timeWeight +
-      metrics.networkUtilization * utilizationWeight
-    );
+  // Overall efficiency calculation
+  const qualityWeight = 0.3;
+  const costWeight = 0.25;
+  const timeWeight = 0.25;
+  const utilizationWeight = 0.2;
 
-    // Round all metrics to reasonable precision
-    Object.keys(metrics).forEach(key => {
-      metrics[key as keyof DynamicMetrics] = Math.round(metrics[key as keyof DynamicMetrics] * 10) / 10;
-    });
+  const normalizedCost = Math.max(0, 100 - (metrics.costPerKm - 10) * 2);
+  const normalizedTime = Math.max(0, 100 - metrics.timePerNode * 10);
+  
+  metrics.efficiency = (
+    metrics.averageQuality * qualityWeight +
+    normalizedCost * costWeight +
+    normalizedTime * timeWeight +
+    metrics.networkUtilization * utilizationWeight
+  );
+
+  // Round all metrics to reasonable precision
+  Object.keys(metrics).forEach(key => {
+    metrics[key as keyof DynamicMetrics] = Math.round(metrics[key as keyof DynamicMetrics] * 10) / 10;
+  });
+
+  return metrics;
+}
 
-    return metrics;
-  }, [selectedProducts, selectedVehicles, nodes, optimalRoute, weatherData]);
+export function useDynamicMetrics({
+  selectedProducts,
+  selectedVehicles,
+  nodes,
+  optimalRoute,
+  weatherData,
+  distanceMatrix
+}: Omit<DynamicMetricsCalculatorProps, 'catalog'>): DynamicMetrics {
+  const { products, vehicleTypes: catalogVehicleTypes } = useProductCatalog();
+  return useMemo(
+    () => calculateDynamicMetrics({
+      selectedProducts,
+      selectedVehicles,
+      nodes,
+      optimalRoute,
+      weatherData,
+      distanceMatrix,
+      catalog: { products, vehicleTypes: catalogVehicleTypes }
+    }),
+    [selectedProducts, selectedVehicles, nodes, optimalRoute, weatherData, distanceMatrix, products, catalogVehicleTypes]
+  );
 }
 
 // Helper function to calculate average distance between nodes
-function calculateAverageNetworkDistance(nodes: NetworkNode[]): number {
+function calculateAverageNetworkDistance(nodes: NetworkNode[], distanceMatrix?: DistanceMatrix | null): number {
   if (nodes.length < 2) return 0;
-  
+
+  const distanceBetween = createDistanceFunction(distanceMatrix);
   let totalDistance = 0;
   let pairCount = 0;
   
   for (let i = 0; i < nodes.length - 1; i++) {
     for (let j = i + 1; j < nodes.length; j++) {
-      const distance = calculateHaversineDistance(
-        nodes[i].lat, nodes[i].lng,
-        nodes[j].lat, nodes[j].lng
-      );
+      const distance = distanceBetween(nodes[i], nodes[j]);
       totalDistance += distance;
       pairCount++;
     }
@@ -193,18 +221,3 @@ function calculateAverageNetworkDistance(nodes: NetworkNode[]): number {
   
   return pairCount > 0 ? totalDistance / pairCount : 0;
 }
-
-// Haversine distance calculation
-function calculateHaversineDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 6371; // Earth's radius in kilometers
-  const dLat = (lat2 - lat1) * Math.PI / 180;
-  const dLng = (lng2 - lng1) * Math.PI / 180;
-  
-  const a = 
-    Math.sin(dLat/2) * Math.sin(dLat/2) +
-    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-    Math.sin(dLng/2) * Math.sin(dLng/2);
-  
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-  return R * c;
-}
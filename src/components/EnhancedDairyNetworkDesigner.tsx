@@ -12,6 +12,15 @@ import { EnhancedDataImportExport } from './EnhancedDataImportExport';
 import { RealTimeMetrics } from './RealTimeMetrics';
 import { NetworkTopologyVisualization } from './NetworkTopologyVisualization';
 import { AdvancedNetworkTopology } from './AdvancedNetworkTopology';
+import { FacilityLocationPlanner } from './FacilityLocationPlanner';
+import { MilkVolumeForecast } from './MilkVolumeForecast';
+import { MilkCollectionLog } from './MilkCollectionLog';
+import { FarmerPayments } from './FarmerPayments';
+import { FleetManagement } from './FleetManagement';
+import { ProductionPlanner } from './ProductionPlanner';
+import { DistributionPlanner } from './DistributionPlanner';
+import { InventoryTracker } from './InventoryTracker';
+import { LotTraceability } from './LotTraceability';
 import { 
   Network, 
   BarChart3, 
@@ -21,7 +30,16 @@ import {
   Info,
   CloudSun,
   GitBranch,
-  Workflow
+  Workflow,
+  Warehouse,
+  Droplets,
+  ClipboardList,
+  IndianRupee,
+  Truck,
+  Factory,
+  Store,
+  Boxes,
+  ScanSearch
 } from 'lucide-react';
 
 export function EnhancedDairyNetworkDesigner() {
@@ -55,7 +73,7 @@ export function EnhancedDairyNetworkDesigner() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
             <div className="text-center">
               <div className="text-2xl font-bold text-green-600 flex items-center justify-center gap-1">
                 🐄 {nodes.filter(n => n.type === 'farm').length}
@@ -76,15 +94,15 @@ export function EnhancedDairyNetworkDesigner() {
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-orange-600 flex items-center justify-center gap-1">
-                📦 {nodes.filter(n => n.type === 'collection_center').length}
+                📦 {nodes.filter(n => n.type === 'distributor').length}
               </div>
-              <div className="text-sm text-muted-foreground">Distribution Centers</div>
+              <div className="text-sm text-muted-foreground">Distributors</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-red-600 flex items-center justify-center gap-1">
-                🏪 {nodes.filter(n => n.type === 'processing_plant').length}
+                🏪 {nodes.filter(n => n.type === 'retail').length}
               </div>
-              <div className="text-sm text-muted-foreground">Processing Plants</div>
+              <div className="text-sm text-muted-foreground">Retail Outlets</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-indigo-600">🛣️ {routes.length}</div>
@@ -139,7 +157,7 @@ export function EnhancedDairyNetworkDesigner() {
 
       {/* Main Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-[repeat(14,minmax(0,1fr))]">
           <TabsTrigger value="network" className="flex items-center gap-2">
             <Map className="h-4 w-4" />
             Network Design
@@ -152,6 +170,42 @@ export function EnhancedDairyNetworkDesigner() {
             <Workflow className="h-4 w-4" />
             Advanced Canvas
           </TabsTrigger>
+          <TabsTrigger value="facility-location" className="flex items-center gap-2">
+            <Warehouse className="h-4 w-4" />
+            Facility Location
+          </TabsTrigger>
+          <TabsTrigger value="volume-forecast" className="flex items-center gap-2">
+            <Droplets className="h-4 w-4" />
+            Volume Forecast
+          </TabsTrigger>
+          <TabsTrigger value="collections" className="flex items-center gap-2">
+            <ClipboardList className="h-4 w-4" />
+            Collections
+          </TabsTrigger>
+          <TabsTrigger value="payments" className="flex items-center gap-2">
+            <IndianRupee className="h-4 w-4" />
+            Payments
+          </TabsTrigger>
+          <TabsTrigger value="fleet" className="flex items-center gap-2">
+            <Truck className="h-4 w-4" />
+            Fleet
+          </TabsTrigger>
+          <TabsTrigger value="production" className="flex items-center gap-2">
+            <Factory className="h-4 w-4" />
+            Production
+          </TabsTrigger>
+          <TabsTrigger value="distribution" className="flex items-center gap-2">
+            <Store className="h-4 w-4" />
+            Distribution
+          </TabsTrigger>
+          <TabsTrigger value="inventory" className="flex items-center gap-2">
+            <Boxes className="h-4 w-4" />
+            Inventory
+          </TabsTrigger>
+          <TabsTrigger value="traceability" className="flex items-center gap-2">
+            <ScanSearch className="h-4 w-4" />
+            Traceability
+          </TabsTrigger>
           <TabsTrigger value="analytics" className="flex items-center gap-2">
             <BarChart3 className="h-4 w-4" />
             Performance Analytics
@@ -185,6 +239,42 @@ export function EnhancedDairyNetworkDesigner() {
           />
         </TabsContent>
 
+        <TabsContent value="facility-location" className="space-y-4">
+          <FacilityLocationPlanner />
+        </TabsContent>
+
+        <TabsContent value="volume-forecast" className="space-y-4">
+          <MilkVolumeForecast />
+        </TabsContent>
+
+        <TabsContent value="collections" className="space-y-4">
+          <MilkCollectionLog />
+        </TabsContent>
+
+        <TabsContent value="payments" className="space-y-4">
+          <FarmerPayments />
+        </TabsContent>
+
+        <TabsContent value="fleet" className="space-y-4">
+          <FleetManagement />
+        </TabsContent>
+
+        <TabsContent value="production" className="space-y-4">
+          <ProductionPlanner />
+        </TabsContent>
+
+        <TabsContent value="distribution" className="space-y-4">
+          <DistributionPlanner />
+        </TabsContent>
+
+        <TabsContent value="inventory" className="space-y-4">
+          <InventoryTracker />
+        </TabsContent>
+
+        <TabsContent value="traceability" className="space-y-4">
+          <LotTraceability />
+        </TabsContent>
+
         <TabsContent value="analytics" className="space-y-4">
           <EssentialNetworkMetrics />
         </TabsContent>
@@ -1,4 +1,5 @@
 import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -7,7 +8,25 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useDairyData } from '@/hooks/useDairyData';
+import { CSV_TEMPLATES, type CSVTemplate } from '@/data/importTemplates';
+import { toCsv } from '@/lib/csv';
+import { downloadBlob } from '@/lib/download';
+import { readImportFile, validateImportRows, type ImportPreview, type ImportResult } from '@/lib/dataImport';
+import {
+  buildNetworkExport,
+  parseNetworkExport,
+  toNetworkJson,
+  toCsvBundle,
+  toXlsxWorkbook,
+  toGeoJson
+} from '@/lib/networkExport';
+import { importService } from '@/services/importService';
+import { dairyService } from '@/services/dairyService';
 import { 
   Upload, 
   Download, 
@@ -15,158 +34,78 @@ import {
   AlertTriangle, 
   CheckCircle,
   Copy,
-  Database
+  Database,
+  ListChecks,
+  FileJson,
+  FileSpreadsheet,
+  FileArchive,
+  Map as MapIcon,
+  RotateCcw,
+  Lock
 } from 'lucide-react';
 
-interface CSVTemplate {
-  name: string;
-  headers: string[];
-  description: string;
-  sampleData: string[][];
-  requirements: string[];
-}
-
-const CSV_TEMPLATES: CSVTemplate[] = [
-  {
-    name: 'Dairy Farms',
-    headers: [
-      'name', 'latitude', 'longitude', 'district', 'cattle_count', 
-      'daily_production_liters', 'farm_type', 'organic_certified', 
-      'contact_person', 'phone', 'established_year'
-    ],
-    description: 'Import dairy farm locations with production capacity and operational details',
-    sampleData: [
-      ['Green Valley Farm', '12.9716', '77.5946', 'Bangalore Rural', '50', '500', 'mixed', 'false', 'Ravi Kumar', '+91-9876543210', '2010'],
-      ['Sunrise Dairy', '13.0827', '77.5946', 'Bangalore Urban', '75', '750', 'dairy', 'true', 'Sunita Devi', '+91-9876543211', '2008']
-    ],
-    requirements: [
-      'latitude and longitude must be valid decimal degrees',
-      'daily_production_liters should be realistic (50-2000L typical)',
-      'farm_type: mixed, dairy, or organic',
-      'organic_certified: true or false'
-    ]
-  },
-  {
-    name: 'Collection Centers',
-    headers: [
-      'name', 'latitude', 'longitude', 'district', 'storage_capacity_liters',
-      'cooling_facility', 'collection_schedule', 'serves_villages', 
-      'contact_person', 'phone'
-    ],
-    description: 'Import milk collection centers with storage and operational details',
-    sampleData: [
-      ['Central Collection Hub', '12.9716', '77.5946', 'Bangalore Rural', '5000', 'true', 'twice_daily', 'Village1,Village2,Village3', 'Manjunath', '+91-9876543212'],
-      ['North Zone Center', '13.0827', '77.5946', 'Bangalore Urban', '3000', 'true', 'morning_evening', 'Village4,Village5', 'Lakshmi', '+91-9876543213']
-    ],
-    requirements: [
-      'storage_capacity_liters typical range: 1000-10000L',
-      'cooling_facility: true or false',
-      'collection_schedule: once_daily, twice_daily, or morning_evening',
-      'serves_villages: comma-separated list of village names'
-    ]
-  },
-  {
-    name: 'Processing Plants',
-    headers: [
-      'name', 'latitude', 'longitude', 'district', 'plant_type',
-      'processing_capacity_liters_per_day', 'products', 'certifications',
-      'contact_person', 'phone', 'established_year'
-    ],
-    description: 'Import dairy processing facilities with capacity and product details',
-    sampleData: [
-      ['Modern Dairy Plant', '12.9716', '77.5946', 'Bangalore Urban', 'integrated', '50000', 'milk,curd,butter,cheese', 'FSSAI,ISO22000,HACCP', 'Ramesh Sharma', '+91-9876543214', '2015'],
-      ['Heritage Foods Unit', '13.0827', '77.5946', 'Bangalore Rural', 'specialized', '25000', 'milk,paneer,ghee', 'FSSAI,Organic', 'Priya Patel', '+91-9876543215', '2012']
-    ],
-    requirements: [
-      'plant_type: integrated, specialized, or cooperative',
-      'processing_capacity_liters_per_day typical range: 5000-100000L',
-      'products: comma-separated list (milk,curd,butter,cheese,paneer,ghee,ice_cream)',
-      'certifications: comma-separated list of valid certifications'
-    ]
-  },
-  {
-    name: 'Distributors',
-    headers: [
-      'name', 'latitude', 'longitude', 'city', 'distributor_type',
-      'storage_capacity_liters', 'refrigerated_storage', 'delivery_vehicles',
-      'service_radius_km', 'contact_person', 'phone'
-    ],
-    description: 'Import distributor hubs for wholesale and retail distribution',
-    sampleData: [
-      ['City Distribution Hub', '12.9716', '77.5946', 'Bangalore', 'wholesale', '15000', 'true', '10', '25', 'Vikram Singh', '+91-9876543216'],
-      ['Local Distributor', '13.0827', '77.5946', 'Mysore', 'retail', '5000', 'true', '3', '15', 'Anita Reddy', '+91-9876543217']
-    ],
-    requirements: [
-      'distributor_type: wholesale, retail, or mixed',
-      'storage_capacity_liters typical range: 2000-50000L',
-      'refrigerated_storage: true or false',
-      'delivery_vehicles: number of vehicles available',
-      'service_radius_km: delivery coverage area in kilometers'
-    ]
-  },
-  {
-    name: 'Transport Routes',
-    headers: [
-      'route_name', 'from_type', 'from_id', 'to_type', 'to_id',
-      'distance_km', 'estimated_time_hours', 'vehicle_type', 'cost_per_trip',
-      'optimal_load_liters', 'frequency_per_day'
-    ],
-    description: 'Import transportation routes between network nodes',
-    sampleData: [
-      ['Farm to Center Route 1', 'farm', 'farm_001', 'collection_center', 'center_001', '15.5', '0.75', 'refrigerated_truck', '450', '2000', '2'],
-      ['Center to Plant Route 1', 'collection_center', 'center_001', 'processing_plant', 'plant_001', '45.2', '2.5', 'bulk_tanker', '1200', '5000', '1']
-    ],
-    requirements: [
-      'from_type/to_type: farm, collection_center, processing_plant, distributor',
-      'from_id/to_id: must match existing node IDs',
-      'distance_km: actual road distance',
-      'vehicle_type: refrigerated_truck, insulated_van, bulk_tanker, or regular_truck',
-      'cost_per_trip: total cost including fuel, driver, maintenance'
-    ]
-  },
-  {
-    name: 'Product Specifications',
-    headers: [
-      'product_id', 'product_name', 'category', 'min_temp_celsius', 'max_temp_celsius',
-      'shelf_life_hours_refrigerated', 'shelf_life_hours_ambient', 'spoilage_rate_per_hour_ambient',
-      'temperature_sensitivity', 'packaging_requirements', 'transport_requirements'
-    ],
-    description: 'Import custom dairy product specifications with temperature and quality requirements',
-    sampleData: [
-      ['custom_milk_a2', 'A2 Organic Milk', 'milk', '0', '4', '168', '4', '8.5', 'high', 'opaque,sealed', 'refrigerated,minimal_agitation'],
-      ['custom_greek_yogurt', 'Greek Yogurt', 'fermented', '2', '6', '336', '8', '6.0', 'high', 'sealed,moisture_proof', 'refrigerated,stable_temperature']
-    ],
-    requirements: [
-      'category: milk, fermented, cheese, butter, frozen',
-      'temperatures in Celsius',
-      'shelf_life in hours',
-      'spoilage_rate_per_hour_ambient: percentage per hour',
-      'temperature_sensitivity: low, medium, or high',
-      'requirements: comma-separated lists'
-    ]
-  }
+// Query keys whose data an import can change
+const IMPORT_QUERY_KEYS = [
+  ['dairy-farms'],
+  ['collection-centers'],
+  ['processing-plants'],
+  ['distributors'],
+  ['retail-outlets'],
+  ['transport-routes'],
+  ['network-metrics']
+];
+
+type ExportFormat = 'json' | 'csv' | 'xlsx' | 'geojson';
+
+const EXPORT_LABELS: Record<ExportFormat, string> = {
+  json: 'JSON',
+  csv: 'CSV bundle',
+  xlsx: 'Excel workbook',
+  geojson: 'GeoJSON'
+};
+
+const EXPORT_OPTIONS: { format: ExportFormat; title: string; description: string; icon: typeof FileJson }[] = [
+  { format: 'json', title: 'Network Backup', description: 'Versioned document with every record; re-importable without loss', icon: FileJson },
+  { format: 'csv', title: 'CSV Bundle', description: 'Zip with one CSV per table plus optimizer outputs', icon: FileArchive },
+  { format: 'xlsx', title: 'Excel Workbook', description: 'One sheet per table plus a summary sheet', icon: FileSpreadsheet },
+  { format: 'geojson', title: 'GeoJSON', description: 'Node points and route lines for GIS tools', icon: MapIcon }
 ];
 
 export function EnhancedDataImportExport() {
   const [selectedTemplate, setSelectedTemplate] = useState<CSVTemplate>(CSV_TEMPLATES[0]);
   const [importFile, setImportFile] = useState<File | null>(null);
-  const [importStatus, setImportStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle');
+  const [importStatus, setImportStatus] = useState<'idle' | 'validating' | 'importing' | 'success' | 'error'>('idle');
   const [importErrors, setImportErrors] = useState<string[]>([]);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [includeOptimization, setIncludeOptimization] = useState(true);
+  const [exporting, setExporting] = useState<ExportFormat | null>(null);
+  const [restoreFile, setRestoreFile] = useState<File | null>(null);
+  const [restoring, setRestoring] = useState(false);
+  const { farms, centers, plants, distributors, outlets, routes, metrics, isLoading: networkLoading } = useDairyData();
+  const { canManageNetwork } = useAuth();
   const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const resetImport = () => {
+    setImportStatus('idle');
+    setImportErrors([]);
+    setPreview(null);
+    setImportResult(null);
+  };
+
+  const selectTemplate = (template: CSVTemplate) => {
+    setSelectedTemplate(template);
+    resetImport();
+  };
 
   const downloadTemplate = (template: CSVTemplate) => {
-    const csvContent = [
-      template.headers.join(','),
-      ...template.sampleData.map(row => row.join(','))
-    ].join('\n');
-
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${template.name.toLowerCase().replace(/\s+/g, '_')}_template.csv`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+    const csvContent = toCsv([template.headers, ...template.sampleData]);
+
+    downloadBlob(
+      new Blob([csvContent], { type: 'text/csv' }),
+      `${template.name.toLowerCase().replace(/\s+/g, '_')}_template.csv`
+    );
 
     toast({
       title: "Template Downloaded",
@@ -186,88 +125,136 @@ export function EnhancedDataImportExport() {
     const file = event.target.files?.[0];
     if (file) {
       setImportFile(file);
-      setImportStatus('idle');
-      setImportErrors([]);
+      resetImport();
     }
   };
 
-  const processImport = async () => {
+  // Dry run: parse and validate every row without writing anything
+  const validateFile = async () => {
     if (!importFile) return;
 
-    setImportStatus('processing');
-    setImportErrors([]);
+    resetImport();
+    setImportStatus('validating');
 
     try {
-      const text = await importFile.text();
-      const lines = text.split('\n').filter(line => line.trim());
-      
-      if (lines.length < 2) {
-        throw new Error('File must contain headers and at least one data row');
-      }
+      const rows = await readImportFile(importFile);
+      const context = await importService.getImportContext(selectedTemplate);
+      const result = validateImportRows(selectedTemplate, rows, context);
+      setPreview(result);
+      setImportStatus('idle');
 
-      const headers = lines[0].split(',').map(h => h.trim());
-      const missingHeaders = selectedTemplate.headers.filter(h => !headers.includes(h));
-      
-      if (missingHeaders.length > 0) {
-        throw new Error(`Missing required headers: ${missingHeaders.join(', ')}`);
+      if (result.missingHeaders.length > 0) {
+        setImportErrors([`Missing required headers: ${result.missingHeaders.join(', ')}`]);
+        setImportStatus('error');
       }
+    } catch (error) {
+      setImportErrors([error instanceof Error ? error.message : 'Unknown error occurred']);
+      setImportStatus('error');
+    }
+  };
 
-      // Validate data rows
-      const errors: string[] = [];
-      for (let i = 1; i < Math.min(lines.length, 11); i++) { // Check first 10 rows
-        const values = lines[i].split(',').map(v => v.trim());
-        if (values.length !== headers.length) {
-          errors.push(`Row ${i + 1}: Column count mismatch`);
-        }
-        
-        // Additional validations based on template
-        if (selectedTemplate.name === 'Dairy Farms') {
-          const lat = parseFloat(values[headers.indexOf('latitude')]);
-          const lng = parseFloat(values[headers.indexOf('longitude')]);
-          if (isNaN(lat) || isNaN(lng)) {
-            errors.push(`Row ${i + 1}: Invalid latitude/longitude`);
-          }
-        }
-      }
+  const commitImport = async () => {
+    if (!preview) return;
 
-      if (errors.length > 0) {
-        setImportErrors(errors);
-        setImportStatus('error');
-      } else {
-        setImportStatus('success');
-        toast({
-          title: "Import Successful",
-          description: `Successfully processed ${lines.length - 1} records`,
-        });
-      }
+    setImportStatus('importing');
+    setImportErrors([]);
 
+    try {
+      const result = await importService.commitImport(preview);
+      setImportResult(result);
+      setImportStatus('success');
+      await Promise.all(IMPORT_QUERY_KEYS.map(queryKey => queryClient.invalidateQueries({ queryKey })));
+
+      toast({
+        title: "Import Successful",
+        description: `${result.inserted} inserted, ${result.updated} updated, ${result.rejected} rejected`,
+      });
     } catch (error) {
       setImportErrors([error instanceof Error ? error.message : 'Unknown error occurred']);
       setImportStatus('error');
     }
   };
 
-  const exportNetworkData = () => {
-    // This would export current network configuration
-    const exportData = {
-      timestamp: new Date().toISOString(),
-      nodes: [], // Would be populated with actual node data
-      routes: [], // Would be populated with actual route data
-      optimization_results: [] // Would be populated with optimization results
-    };
-
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `dairy_network_export_${new Date().toISOString().split('T')[0]}.json`;
-    a.click();
-    window.URL.revokeObjectURL(url);
+  const exportNetwork = async (format: ExportFormat) => {
+    setExporting(format);
 
-    toast({
-      title: "Network Exported",
-      description: "Current network configuration has been exported",
-    });
+    try {
+      // Optimizer output is recomputed so it always matches the exported network
+      const flowPlan = includeOptimization ? await dairyService.planNetworkFlow() : undefined;
+      const data = buildNetworkExport({
+        farms,
+        collectionCenters: centers,
+        processingPlants: plants,
+        distributors,
+        retailOutlets: outlets,
+        transportRoutes: routes,
+        metrics,
+        optimization: flowPlan ? { flowPlan } : undefined
+      });
+      const baseName = `dairy_network_export_${data.exportedAt.split('T')[0]}`;
+
+      switch (format) {
+        case 'json':
+          downloadBlob(new Blob([toNetworkJson(data)], { type: 'application/json' }), `${baseName}.json`);
+          break;
+        case 'csv':
+          downloadBlob(await toCsvBundle(data), `${baseName}_csv.zip`);
+          break;
+        case 'xlsx':
+          downloadBlob(
+            new Blob([toXlsxWorkbook(data)], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }),
+            `${baseName}.xlsx`
+          );
+          break;
+        case 'geojson':
+          downloadBlob(
+            new Blob([JSON.stringify(toGeoJson(data), null, 2)], { type: 'application/geo+json' }),
+            `${baseName}.geojson`
+          );
+          break;
+      }
+
+      toast({
+        title: "Network Exported",
+        description: `${farms.length + centers.length + plants.length + distributors.length + outlets.length} nodes and ${routes.length} routes exported as ${EXPORT_LABELS[format]}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Export Failed",
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const restoreNetwork = async () => {
+    if (!restoreFile) return;
+    setRestoring(true);
+
+    try {
+      const data = parseNetworkExport(await restoreFile.text());
+      const results = await importService.restoreNetworkExport(data);
+      await Promise.all(IMPORT_QUERY_KEYS.map(queryKey => queryClient.invalidateQueries({ queryKey })));
+
+      const totals = Object.values(results).reduce(
+        (sum, result) => ({ inserted: sum.inserted + result.inserted, updated: sum.updated + result.updated }),
+        { inserted: 0, updated: 0 }
+      );
+      toast({
+        title: "Network Restored",
+        description: `${totals.inserted} records inserted, ${totals.updated} updated from the ${data.exportedAt.split('T')[0]} export`,
+      });
+    } catch (error) {
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : 'Unknown error occurred',
+        variant: "destructive",
+      });
+    } finally {
+      setRestoring(false);
+    }
   };
 
   return (
@@ -279,7 +266,7 @@ export function EnhancedDataImportExport() {
             Data Import & Export Center
           </CardTitle>
           <CardDescription>
-            Import network data using standardized CSV templates with proper validation and export optimization results
+            Import network data from CSV or Excel files with row-level validation and export optimization results
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -308,7 +295,7 @@ export function EnhancedDataImportExport() {
                         ? 'ring-2 ring-primary' 
                         : 'hover:shadow-md'
                     }`}
-                    onClick={() => setSelectedTemplate(template)}
+                    onClick={() => selectTemplate(template)}
                   >
                     <CardContent className="p-4">
                       <h3 className="font-semibold mb-2">{template.name}</h3>
@@ -362,9 +349,9 @@ export function EnhancedDataImportExport() {
                     <Label className="font-semibold">Sample Data:</Label>
                     <ScrollArea className="h-32 mt-2">
                       <div className="text-xs font-mono bg-muted p-3 rounded-lg">
-                        <div className="font-bold">{selectedTemplate.headers.join(',')}</div>
+                        <div className="font-bold">{toCsv([selectedTemplate.headers])}</div>
                         {selectedTemplate.sampleData.map((row, index) => (
-                          <div key={index}>{row.join(',')}</div>
+                          <div key={index}>{toCsv([row])}</div>
                         ))}
                       </div>
                     </ScrollArea>
@@ -380,14 +367,17 @@ export function EnhancedDataImportExport() {
               {/* File Upload */}
               <Card>
                 <CardHeader>
-                  <CardTitle>Upload CSV Data</CardTitle>
+                  <CardTitle>Upload CSV or Excel Data</CardTitle>
+                  <CardDescription>
+                    Validate the file first; only rows without errors are imported, all in one transaction
+                  </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   <div>
-                    <Label>Select CSV File:</Label>
+                    <Label>Select File (.csv, .xlsx):</Label>
                     <Input
                       type="file"
-                      accept=".csv"
+                      accept=".csv,.xlsx,.xls"
                       onChange={handleFileUpload}
                       className="mt-2"
                     />
@@ -400,25 +390,123 @@ export function EnhancedDataImportExport() {
                     </div>
                   )}
 
-                  <Button 
-                    onClick={processImport} 
-                    disabled={!importFile || importStatus === 'processing'}
-                    className="w-full"
-                  >
-                    {importStatus === 'processing' ? (
-                      <div className="animate-spin h-4 w-4 border-b-2 border-white mr-2"></div>
-                    ) : (
-                      <Upload className="h-4 w-4 mr-2" />
-                    )}
-                    {importStatus === 'processing' ? 'Processing...' : 'Import Data'}
-                  </Button>
+                  {!canManageNetwork && (
+                    <Alert>
+                      <Lock className="h-4 w-4" />
+                      <AlertDescription>
+                        Files can be validated, but only admins and planners can import them into the network.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  {!selectedTemplate.table && (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertDescription>
+                        {selectedTemplate.name} files can be validated but are not stored in the database yet.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <Button 
+                      onClick={validateFile} 
+                      disabled={!importFile || importStatus === 'validating' || importStatus === 'importing'}
+                      variant="outline"
+                    >
+                      {importStatus === 'validating' ? (
+                        <div className="animate-spin h-4 w-4 border-b-2 border-primary mr-2"></div>
+                      ) : (
+                        <ListChecks className="h-4 w-4 mr-2" />
+                      )}
+                      {importStatus === 'validating' ? 'Validating...' : 'Validate (Dry Run)'}
+                    </Button>
+                    <Button 
+                      onClick={commitImport} 
+                      disabled={
+                        !canManageNetwork || !preview || !selectedTemplate.table || preview.validCount === 0 ||
+                        importStatus === 'importing' || importStatus === 'success'
+                      }
+                    >
+                      {importStatus === 'importing' ? (
+                        <div className="animate-spin h-4 w-4 border-b-2 border-white mr-2"></div>
+                      ) : (
+                        <Upload className="h-4 w-4 mr-2" />
+                      )}
+                      {importStatus === 'importing' ? 'Importing...' : `Import ${preview?.validCount ?? 0} Valid Rows`}
+                    </Button>
+                  </div>
+
+                  {/* Dry-run Preview */}
+                  {preview && (
+                    <div className="space-y-2">
+                      <div className="flex flex-wrap gap-2">
+                        <Badge variant="outline">{preview.rows.length} rows</Badge>
+                        <Badge className="bg-green-100 text-green-800">{preview.validCount} valid</Badge>
+                        {preview.rejectedCount > 0 && (
+                          <Badge variant="destructive">{preview.rejectedCount} rejected</Badge>
+                        )}
+                        {selectedTemplate.table && (
+                          <>
+                            <Badge variant="secondary">
+                              {preview.rows.filter(r => r.errors.length === 0 && r.action === 'insert').length} new
+                            </Badge>
+                            <Badge variant="secondary">
+                              {preview.rows.filter(r => r.errors.length === 0 && r.action === 'update').length} updates
+                            </Badge>
+                          </>
+                        )}
+                      </div>
+                      {preview.unknownHeaders.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Ignored columns: {preview.unknownHeaders.join(', ')}
+                        </p>
+                      )}
+                      <ScrollArea className="h-64 border rounded-lg">
+                        <Table>
+                          <TableHeader>
+                            <TableRow>
+                              <TableHead className="w-16">Row</TableHead>
+                              <TableHead>Key</TableHead>
+                              <TableHead className="w-24">Action</TableHead>
+                              <TableHead>Errors</TableHead>
+                            </TableRow>
+                          </TableHeader>
+                          <TableBody>
+                            {preview.rows.map(row => (
+                              <TableRow key={row.rowNumber}>
+                                <TableCell>{row.rowNumber}</TableCell>
+                                <TableCell className="font-medium">
+                                  {(selectedTemplate.keyColumns ?? [selectedTemplate.headers[0]])
+                                    .map(column => row.record[column])
+                                    .filter(Boolean)
+                                    .join(' · ')}
+                                </TableCell>
+                                <TableCell>
+                                  {row.errors.length > 0 ? (
+                                    <Badge variant="destructive">Reject</Badge>
+                                  ) : (
+                                    <Badge variant="outline">{row.action ?? 'Valid'}</Badge>
+                                  )}
+                                </TableCell>
+                                <TableCell className="text-xs text-red-600">
+                                  {row.errors.join('; ')}
+                                </TableCell>
+                              </TableRow>
+                            ))}
+                          </TableBody>
+                        </Table>
+                      </ScrollArea>
+                    </div>
+                  )}
 
                   {/* Import Status */}
-                  {importStatus === 'success' && (
+                  {importStatus === 'success' && importResult && (
                     <Alert>
                       <CheckCircle className="h-4 w-4" />
                       <AlertDescription>
-                        Data imported successfully! All records passed validation.
+                        Import complete: {importResult.inserted} inserted, {importResult.updated} updated,
+                        {' '}{importResult.rejected} rejected.
                       </AlertDescription>
                     </Alert>
                   )}
@@ -438,42 +526,78 @@ export function EnhancedDataImportExport() {
                   )}
                 </CardContent>
               </Card>
+
+              {/* Restore */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <RotateCcw className="h-5 w-5" />
+                    Restore JSON Export
+                  </CardTitle>
+                  <CardDescription>
+                    Writes a network backup from the Data Export tab back to the database, keeping record ids
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <Input
+                    type="file"
+                    accept=".json"
+                    onChange={(e) => setRestoreFile(e.target.files?.[0] ?? null)}
+                  />
+                  <Button onClick={restoreNetwork} disabled={!canManageNetwork || !restoreFile || restoring} className="w-full" variant="outline">
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {restoring ? 'Restoring...' : 'Restore Network'}
+                  </Button>
+                </CardContent>
+              </Card>
             </TabsContent>
 
             <TabsContent value="export" className="space-y-4">
               <Alert>
                 <Download className="h-4 w-4" />
                 <AlertDescription>
-                  Export your current network configuration, optimization results, and performance data for analysis or backup.
+                  Export the live network ({farms.length} farms, {centers.length} collection centers, {plants.length} processing
+                  plants, {routes.length} routes). The JSON export is a complete backup that can be restored from the Data Import tab.
                 </AlertDescription>
               </Alert>
 
+              <div className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <Label htmlFor="include-optimization">Include optimizer results</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Adds the capacity-aware farm → center → plant flow plan and facility utilization
+                  </p>
+                </div>
+                <Switch
+                  id="include-optimization"
+                  checked={includeOptimization}
+                  onCheckedChange={setIncludeOptimization}
+                />
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Network Configuration</CardTitle>
-                    <CardDescription>Export all nodes, routes, and settings</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <Button onClick={exportNetworkData} className="w-full">
-                      <Download className="h-4 w-4 mr-2" />
-                      Export Network (JSON)
-                    </Button>
-                  </CardContent>
-                </Card>
-
-                <Card>
-                  <CardHeader>
-                    <CardTitle>Optimization Results</CardTitle>
-                    <CardDescription>Export route optimization and performance data</CardDescription>
-                  </CardHeader>
-                  <CardContent>
-                    <Button className="w-full" variant="outline">
-                      <Download className="h-4 w-4 mr-2" />
-                      Export Results (CSV)
-                    </Button>
-                  </CardContent>
-                </Card>
+                {EXPORT_OPTIONS.map(option => (
+                  <Card key={option.format}>
+                    <CardHeader>
+                      <CardTitle className="flex items-center gap-2">
+                        <option.icon className="h-5 w-5" />
+                        {option.title}
+                      </CardTitle>
+                      <CardDescription>{option.description}</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <Button
+                        onClick={() => exportNetwork(option.format)}
+                        disabled={networkLoading || exporting !== null}
+                        className="w-full"
+                        variant={option.format === 'json' ? 'default' : 'outline'}
+                      >
+                        <Download className="h-4 w-4 mr-2" />
+                        {exporting === option.format ? 'Exporting...' : `Export ${EXPORT_LABELS[option.format]}`}
+                      </Button>
+                    </CardContent>
+                  </Card>
+                ))}
               </div>
             </TabsContent>
           </Tabs>
@@ -7,6 +7,7 @@ import { ErrorBoundary } from './ErrorBoundary';
 import { OptimalRouteVisualization } from './OptimalRouteVisualization';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
+import type { NetworkNode } from '@/types/products';
 
 // Enhanced custom icons for different node types
 const createEnhancedIcon = (type: string, isSelected: boolean = false) => {
@@ -51,11 +52,14 @@ export interface EnhancedMapNode {
   capacity?: number;
   demand?: number;
   production?: number;
+  collectionSchedule?: string; // collection centers
   details?: string;
   district?: string;
   contact?: string;
   phone?: string;
+  operatingHours?: NetworkNode['operatingHours'];
   isVisible?: boolean;
+  isCustom?: boolean; // only in this session, not stored in the network tables
 }
 
 export interface OptimalRoute {
@@ -79,10 +83,14 @@ interface EnhancedSupplyChainMapProps {
   zoom?: number;
   height?: string;
   optimalRoute?: OptimalRoute | null;
+  optimalRoutes?: OptimalRoute[]; // individual vehicle tours drawn under the summary route
   selectedNodeId?: string;
   onNodeSelect?: (nodeId: string) => void;
 }
 
+// Distinct colors so overlapping vehicle tours stay readable
+const TOUR_COLORS = ['#10B981', '#3B82F6', '#F59E0B', '#8B5CF6', '#EC4899', '#14B8A6', '#F97316', '#6366F1'];
+
 function MapClickHandler({ onMapClick }: { onMapClick?: (lat: number, lng: number) => void }) {
   useMapEvents({
     click: (e) => {
@@ -99,6 +107,7 @@ function MapContent({
   onMapClick, 
   isAddingNode, 
   optimalRoute, 
+  optimalRoutes = [],
   selectedNodeId, 
   onNodeSelect 
 }: Omit<EnhancedSupplyChainMapProps, 'center' | 'zoom' | 'height'>) {
@@ -129,8 +138,19 @@ function MapContent({
       
       <MapClickHandler onMapClick={onMapClick} />
       
-      {/* Render optimal route first (behind markers) */}
-      {optimalRoute && (
+      {/* Render optimal routes first (behind markers) */}
+      {optimalRoutes.map((route, index) => (
+        <OptimalRouteVisualization
+          key={route.id}
+          route={route.path}
+          totalDistance={route.totalDistance}
+          totalCost={route.totalCost}
+          efficiency={route.efficiency}
+          color={TOUR_COLORS[index % TOUR_COLORS.length]}
+        />
+      ))}
+
+      {optimalRoute && optimalRoutes.length === 0 && (
         <OptimalRouteVisualization
           route={optimalRoute.path}
           totalDistance={optimalRoute.totalDistance}
@@ -269,6 +289,7 @@ export function EnhancedSupplyChainMap({
   zoom = 8,
   height = "500px",
   optimalRoute = null,
+  optimalRoutes = [],
   selectedNodeId,
   onNodeSelect
 }: EnhancedSupplyChainMapProps) {
@@ -293,6 +314,7 @@ export function EnhancedSupplyChainMap({
             onMapClick={onMapClick} 
             isAddingNode={isAddingNode}
             optimalRoute={optimalRoute}
+            optimalRoutes={optimalRoutes}
             selectedNodeId={selectedNodeId}
             onNodeSelect={onNodeSelect}
           />
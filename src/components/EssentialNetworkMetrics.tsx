@@ -20,6 +20,8 @@ export function EssentialNetworkMetrics() {
     const farms = nodes.filter(n => n.type === 'farm');
     const centers = nodes.filter(n => n.type === 'collection_center');
     const plants = nodes.filter(n => n.type === 'processing_plant');
+    const distributors = nodes.filter(n => n.type === 'distributor');
+    const outlets = nodes.filter(n => n.type === 'retail');
 
     // Cost Efficiency: Based on route optimization potential
     const totalDistance = routes.reduce((sum, route) => sum + (route.distance_km || 0), 0);
@@ -35,6 +37,10 @@ export function EssentialNetworkMetrics() {
     const totalProcessingCapacity = plants.reduce((sum, plant) => sum + plant.capacity, 0);
     const capacityUtilization = Math.min(100, (totalProduction / Math.max(totalProcessingCapacity, 1)) * 100);
 
+    // Downstream: what retail sells per day and what distributors can hold
+    const retailDemand = outlets.reduce((sum, outlet) => sum + (outlet.demand ?? 0), 0);
+    const distributorStorage = distributors.reduce((sum, distributor) => sum + distributor.capacity, 0);
+
     // Network Coverage: Geographic distribution efficiency
     const avgFarmsPerCenter = farms.length / Math.max(centers.length, 1);
     const networkCoverage = Math.min(100, Math.max(0, 100 - (avgFarmsPerCenter - 5) * 10));
@@ -51,6 +57,10 @@ export function EssentialNetworkMetrics() {
       totalDistance: Math.round(totalDistance),
       totalProduction: totalProduction,
       totalProcessingCapacity: totalProcessingCapacity,
+      retailDemand,
+      distributorStorage,
+      distributorCount: distributors.length,
+      outletCount: outlets.length,
       averageDeliveryTime: Math.round(averageDeliveryTime * 10) / 10
     };
   };
@@ -184,6 +194,10 @@ export function EssentialNetworkMetrics() {
                 <span className="text-sm text-muted-foreground">Network Nodes</span>
                 <span className="font-semibold">{nodes.length}</span>
               </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-muted-foreground">Distributors / Retail Outlets</span>
+                <span className="font-semibold">{metrics.distributorCount} / {metrics.outletCount}</span>
+              </div>
             </div>
           </CardContent>
         </Card>
@@ -212,6 +226,14 @@ export function EssentialNetworkMetrics() {
                 <span className="text-sm text-muted-foreground">Utilization Rate</span>
                 <span className="font-semibold">{metrics.capacityUtilization}%</span>
               </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-muted-foreground">Daily Retail Demand</span>
+                <span className="font-semibold">{metrics.retailDemand.toLocaleString()} L</span>
+              </div>
+              <div className="flex justify-between items-center">
+                <span className="text-sm text-muted-foreground">Distributor Storage</span>
+                <span className="font-semibold">{metrics.distributorStorage.toLocaleString()} L</span>
+              </div>
             </div>
           </CardContent>
         </Card>
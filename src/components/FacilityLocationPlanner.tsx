@@ -0,0 +1,651 @@
+import React, { useMemo, useState } from 'react';
+import { MapContainer, TileLayer, CircleMarker, Polyline, Popup, useMapEvents } from 'react-leaflet';
+import 'leaflet/dist/leaflet.css';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useDairyData } from '@/hooks/useDairyData';
+import { useMilkForecast } from '@/hooks/useMilkForecast';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import { planningVolumes, PLANNING_VOLUME_BASES, type PlanningVolumeBasis } from '@/lib/milkForecasting';
+import { distanceMatrixService } from '@/services/distanceMatrixService';
+import {
+  solveFacilityLocation,
+  evaluateFacilitySet,
+  compareFacilityPlans,
+  generateGridCandidates,
+  demandsFromFarms,
+  demandsFromCollectionCenters,
+  sitesFromCollectionCenters,
+  sitesFromProcessingPlants,
+  transportCostPerLiterKm,
+  type CandidateSite,
+  type FacilityLocationPlan,
+  type FacilityPlanComparison
+} from '@/lib/facilityLocation';
+import { Warehouse, Plus, Trash2, Zap, RefreshCw, TrendingDown, Route, Droplets } from 'lucide-react';
+
+type FacilityTier = 'collection_center' | 'processing_plant';
+
+interface PlannerSettings {
+  tier: FacilityTier;
+  volumeBasis: PlanningVolumeBasis; // farm supply when siting collection centers
+  gridSpacingKm: number;
+  siteCapacityLiters: number;
+  siteFixedCostPerDay: number;
+  existingOperatingCostPerDay: number;
+  maxAssignmentDistanceKm: number;
+  fixFacilityCount: boolean;
+  facilityCount: number;
+  keepExistingOpen: boolean;
+  useGrid: boolean;
+}
+
+interface PlannerResult {
+  current: FacilityLocationPlan;
+  proposed: FacilityLocationPlan;
+  comparison: FacilityPlanComparison;
+}
+
+function CandidateClickHandler({ enabled, onAdd }: { enabled: boolean; onAdd: (lat: number, lng: number) => void }) {
+  useMapEvents({
+    click: (e) => {
+      if (enabled) onAdd(e.latlng.lat, e.latlng.lng);
+    },
+  });
+  return null;
+}
+
+// Per-tier defaults: what is being sited, what feeds it and which vehicle moves the milk
+const TIER_CONFIG: Record<FacilityTier, {
+  label: string;
+  supplyLabel: string;
+  vehicleId: string;
+  siteCapacityLiters: number;
+  maxCapacityLiters: number;
+  siteFixedCostPerDay: number;
+  existingOperatingCostPerDay: number;
+}> = {
+  collection_center: {
+    label: 'Collection Centers',
+    supplyLabel: 'Farm',
+    vehicleId: 'milk-tanker',
+    siteCapacityLiters: 20000,
+    maxCapacityLiters: 100000,
+    siteFixedCostPerDay: 4000,
+    existingOperatingCostPerDay: 2500
+  },
+  processing_plant: {
+    label: 'Processing Plants',
+    supplyLabel: 'Center',
+    vehicleId: 'large-refrigerated-truck',
+    siteCapacityLiters: 100000,
+    maxCapacityLiters: 500000,
+    siteFixedCostPerDay: 40000,
+    existingOperatingCostPerDay: 25000
+  }
+};
+
+const SITE_COLORS = {
+  supply: '#10B981',
+  existing: '#3B82F6',
+  candidate: '#9CA3AF',
+  opened: '#8B5CF6',
+  closed: '#EF4444'
+};
+
+export function FacilityLocationPlanner() {
+  const { farms, centers, plants } = useDairyData();
+  const { forecasts } = useMilkForecast();
+  const { vehicleTypes } = useProductCatalog();
+  const { toast } = useToast();
+  const [drawnSites, setDrawnSites] = useState<CandidateSite[]>([]);
+  const [isAddingSite, setIsAddingSite] = useState(false);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [showCurrentAssignments, setShowCurrentAssignments] = useState(false);
+  const [result, setResult] = useState<PlannerResult | null>(null);
+  const [settings, setSettings] = useState<PlannerSettings>({
+    tier: 'collection_center',
+    volumeBasis: 'nameplate',
+    gridSpacingKm: 15,
+    siteCapacityLiters: TIER_CONFIG.collection_center.siteCapacityLiters,
+    siteFixedCostPerDay: TIER_CONFIG.collection_center.siteFixedCostPerDay,
+    existingOperatingCostPerDay: TIER_CONFIG.collection_center.existingOperatingCostPerDay,
+    maxAssignmentDistanceKm: 60,
+    fixFacilityCount: false,
+    facilityCount: Math.max(centers.length, 1),
+    keepExistingOpen: false,
+    useGrid: true
+  });
+
+  const tierConfig = TIER_CONFIG[settings.tier];
+  const demands = useMemo(
+    () => settings.tier === 'collection_center'
+      ? demandsFromFarms(farms, planningVolumes(forecasts, settings.volumeBasis))
+      : demandsFromCollectionCenters(centers),
+    [settings.tier, settings.volumeBasis, farms, centers, forecasts]
+  );
+  const existingSites = useMemo(
+    () => settings.tier === 'collection_center'
+      ? sitesFromCollectionCenters(centers, settings.existingOperatingCostPerDay)
+      : sitesFromProcessingPlants(plants, settings.existingOperatingCostPerDay),
+    [settings.tier, centers, plants, settings.existingOperatingCostPerDay]
+  );
+  const gridSites = useMemo(
+    () => settings.useGrid
+      ? generateGridCandidates(
+          demands,
+          settings.gridSpacingKm,
+          { capacityLiters: settings.siteCapacityLiters, fixedCostPerDay: settings.siteFixedCostPerDay },
+          settings.maxAssignmentDistanceKm
+        )
+      : [],
+    [demands, settings.useGrid, settings.gridSpacingKm, settings.siteCapacityLiters, settings.siteFixedCostPerDay, settings.maxAssignmentDistanceKm]
+  );
+
+  const mapCenter = useMemo<[number, number]>(() => {
+    if (demands.length === 0) return [12.9716, 77.5946]; // Bengaluru
+    return [
+      demands.reduce((sum, d) => sum + d.lat, 0) / demands.length,
+      demands.reduce((sum, d) => sum + d.lng, 0) / demands.length
+    ];
+  }, [demands]);
+
+  const addDrawnSite = (lat: number, lng: number) => {
+    setDrawnSites(prev => [...prev, {
+      id: `drawn-${Date.now()}`,
+      name: `Candidate ${prev.length + 1}`,
+      lat,
+      lng,
+      capacityLiters: settings.siteCapacityLiters,
+      fixedCostPerDay: settings.siteFixedCostPerDay
+    }]);
+    setResult(null);
+  };
+
+  const runPlanner = async () => {
+    const candidates = [
+      ...existingSites.map(site => ({ ...site, mustOpen: settings.keepExistingOpen })),
+      ...gridSites,
+      ...drawnSites
+    ];
+
+    if (demands.length === 0 || candidates.length === 0) {
+      toast({
+        title: "Nothing to Plan",
+        description: `Need at least one ${tierConfig.supplyLabel.toLowerCase()} and one existing or candidate site`,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsPlanning(true);
+    try {
+      const distanceMatrix = await distanceMatrixService.getMatrix(
+        [...demands, ...candidates].map(({ id, lat, lng }) => ({ id, lat, lng }))
+      );
+      const options = {
+        distanceMatrix,
+        transportCostPerLiterKm: transportCostPerLiterKm(tierConfig.vehicleId, vehicleTypes),
+        maxAssignmentDistanceKm: settings.maxAssignmentDistanceKm,
+        facilityCount: settings.fixFacilityCount ? settings.facilityCount : undefined
+      };
+
+      const current = evaluateFacilitySet(demands, existingSites, options);
+      const proposed = solveFacilityLocation(demands, candidates, options);
+      const comparison = compareFacilityPlans(current, proposed);
+      setResult({ current, proposed, comparison });
+
+      toast({
+        title: "Facility Plan Ready",
+        description: `${proposed.openSites.length} sites recommended, saving ₹${Math.round(comparison.costSavings).toLocaleString()}/day`,
+      });
+    } catch (error) {
+      console.error('Error planning facility locations:', error);
+      toast({
+        title: "Planning Failed",
+        description: "Could not compute the facility location plan",
+        variant: "destructive"
+      });
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const siteById = useMemo(() => {
+    const map = new Map<string, CandidateSite>();
+    [...existingSites, ...gridSites, ...drawnSites].forEach(site => map.set(site.id, site));
+    return map;
+  }, [existingSites, gridSites, drawnSites]);
+  const demandById = useMemo(() => new Map(demands.map(d => [d.id, d])), [demands]);
+
+  const openIds = new Set(result?.proposed.openSites.map(s => s.site.id) ?? []);
+  const closedIds = new Set(result?.comparison.sitesClosed.map(s => s.id) ?? []);
+
+  const siteColor = (site: CandidateSite) => {
+    if (closedIds.has(site.id)) return SITE_COLORS.closed;
+    if (openIds.has(site.id)) return site.existing ? SITE_COLORS.existing : SITE_COLORS.opened;
+    return site.existing ? SITE_COLORS.existing : SITE_COLORS.candidate;
+  };
+
+  const updateSetting = <K extends keyof PlannerSettings>(key: K, value: PlannerSettings[K]) => {
+    setSettings(prev => ({ ...prev, [key]: value }));
+    setResult(null);
+  };
+
+  const changeTier = (tier: FacilityTier) => {
+    const config = TIER_CONFIG[tier];
+    setSettings(prev => ({
+      ...prev,
+      tier,
+      siteCapacityLiters: config.siteCapacityLiters,
+      siteFixedCostPerDay: config.siteFixedCostPerDay,
+      existingOperatingCostPerDay: config.existingOperatingCostPerDay,
+      facilityCount: Math.max(tier === 'collection_center' ? centers.length : plants.length, 1)
+    }));
+    setDrawnSites([]);
+    setResult(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Warehouse className="h-5 w-5" />
+            Facility Location Planner
+          </CardTitle>
+          <CardDescription>
+            Recommends which collection center or processing plant sites to open using a capacitated
+            facility location model (or p-median when the number of sites is fixed), compared against today's network
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label>Plan Sites For</Label>
+              <Select value={settings.tier} onValueChange={(value) => changeTier(value as FacilityTier)}>
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="collection_center">Collection Centers (farm supply)</SelectItem>
+                  <SelectItem value="processing_plant">Processing Plants (center throughput)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Farm Volumes</Label>
+              <Select
+                value={settings.volumeBasis}
+                onValueChange={(value) => updateSetting('volumeBasis', value as PlanningVolumeBasis)}
+                disabled={settings.tier !== 'collection_center'}
+              >
+                <SelectTrigger className="mt-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PLANNING_VOLUME_BASES.map(b => <SelectItem key={b.value} value={b.value}>{b.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div>
+              <Label>Candidate Grid Spacing (km)</Label>
+              <div className="flex items-center space-x-2 mt-1">
+                <Slider
+                  value={[settings.gridSpacingKm]}
+                  onValueChange={([value]) => updateSetting('gridSpacingKm', value)}
+                  max={40}
+                  min={5}
+                  step={5}
+                  className="flex-1"
+                  disabled={!settings.useGrid}
+                />
+                <span className="w-16 text-sm font-medium">{settings.gridSpacingKm}km</span>
+              </div>
+            </div>
+
+            <div>
+              <Label>New Site Capacity (L/day)</Label>
+              <div className="flex items-center space-x-2 mt-1">
+                <Slider
+                  value={[settings.siteCapacityLiters]}
+                  onValueChange={([value]) => updateSetting('siteCapacityLiters', value)}
+                  max={tierConfig.maxCapacityLiters}
+                  min={5000}
+                  step={5000}
+                  className="flex-1"
+                />
+                <span className="w-20 text-sm font-medium">{(settings.siteCapacityLiters / 1000).toFixed(0)}k L</span>
+              </div>
+            </div>
+
+            <div>
+              <Label>Max {tierConfig.supplyLabel} to Site Distance (km)</Label>
+              <div className="flex items-center space-x-2 mt-1">
+                <Slider
+                  value={[settings.maxAssignmentDistanceKm]}
+                  onValueChange={([value]) => updateSetting('maxAssignmentDistanceKm', value)}
+                  max={150}
+                  min={10}
+                  step={10}
+                  className="flex-1"
+                />
+                <span className="w-16 text-sm font-medium">{settings.maxAssignmentDistanceKm}km</span>
+              </div>
+            </div>
+
+            <div>
+              <Label>New Site Fixed Cost (₹/day)</Label>
+              <div className="flex items-center space-x-2 mt-1">
+                <Slider
+                  value={[settings.siteFixedCostPerDay]}
+                  onValueChange={([value]) => updateSetting('siteFixedCostPerDay', value)}
+                  max={tierConfig.siteFixedCostPerDay * 5}
+                  min={500}
+                  step={500}
+                  className="flex-1"
+                />
+                <span className="w-20 text-sm font-medium">₹{settings.siteFixedCostPerDay.toLocaleString()}</span>
+              </div>
+            </div>
+
+            <div>
+              <Label>Existing Site Operating Cost (₹/day)</Label>
+              <div className="flex items-center space-x-2 mt-1">
+                <Slider
+                  value={[settings.existingOperatingCostPerDay]}
+                  onValueChange={([value]) => updateSetting('existingOperatingCostPerDay', value)}
+                  max={tierConfig.existingOperatingCostPerDay * 5}
+                  min={0}
+                  step={500}
+                  className="flex-1"
+                />
+                <span className="w-20 text-sm font-medium">₹{settings.existingOperatingCostPerDay.toLocaleString()}</span>
+              </div>
+            </div>
+
+            <div>
+              <Label>Number of Sites</Label>
+              <div className="flex items-center space-x-2 mt-1">
+                <Slider
+                  value={[settings.facilityCount]}
+                  onValueChange={([value]) => updateSetting('facilityCount', value)}
+                  max={30}
+                  min={1}
+                  step={1}
+                  className="flex-1"
+                  disabled={!settings.fixFacilityCount}
+                />
+                <span className="w-16 text-sm font-medium">
+                  {settings.fixFacilityCount ? settings.facilityCount : 'auto'}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-6">
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="use-grid"
+                checked={settings.useGrid}
+                onCheckedChange={(checked) => updateSetting('useGrid', checked)}
+              />
+              <Label htmlFor="use-grid">Grid Candidates ({gridSites.length})</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="fix-count"
+                checked={settings.fixFacilityCount}
+                onCheckedChange={(checked) => updateSetting('fixFacilityCount', checked)}
+              />
+              <Label htmlFor="fix-count">Fix Number of Sites (p-median)</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="keep-existing"
+                checked={settings.keepExistingOpen}
+                onCheckedChange={(checked) => updateSetting('keepExistingOpen', checked)}
+              />
+              <Label htmlFor="keep-existing">Keep Existing {tierConfig.label} Open</Label>
+            </div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={runPlanner} disabled={isPlanning}>
+              {isPlanning ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" /> : <Zap className="h-4 w-4 mr-2" />}
+              {isPlanning ? 'Planning...' : 'Recommend Sites'}
+            </Button>
+            <Button variant={isAddingSite ? 'default' : 'outline'} onClick={() => setIsAddingSite(!isAddingSite)}>
+              <Plus className="h-4 w-4 mr-2" />
+              {isAddingSite ? 'Click Map to Add Sites' : 'Draw Candidate Sites'}
+            </Button>
+            {drawnSites.length > 0 && (
+              <Button variant="outline" onClick={() => { setDrawnSites([]); setResult(null); }}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Clear {drawnSites.length} Drawn Sites
+              </Button>
+            )}
+            {result && (
+              <div className="flex items-center space-x-2 ml-auto">
+                <Switch
+                  id="show-current"
+                  checked={showCurrentAssignments}
+                  onCheckedChange={setShowCurrentAssignments}
+                />
+                <Label htmlFor="show-current">Show Current Assignments</Label>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2">
+                <TrendingDown className="h-4 w-4 text-green-600" />
+                <div>
+                  <div className="font-medium">₹{Math.round(result.comparison.costSavings).toLocaleString()}/day</div>
+                  <div className="text-sm text-muted-foreground">
+                    Cost Savings ({result.comparison.costSavingsPercent.toFixed(1)}%)
+                  </div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2">
+                <Route className="h-4 w-4 text-blue-600" />
+                <div>
+                  <div className="font-medium">
+                    {result.current.averageDistanceKm.toFixed(1)} → {result.proposed.averageDistanceKm.toFixed(1)} km
+                  </div>
+                  <div className="text-sm text-muted-foreground">Avg {tierConfig.supplyLabel} to Site Distance</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2">
+                <Droplets className="h-4 w-4 text-purple-600" />
+                <div>
+                  <div className="font-medium">
+                    {Math.round(result.comparison.additionalLitersServed).toLocaleString()} L/day
+                  </div>
+                  <div className="text-sm text-muted-foreground">Additional Milk Handled</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="flex items-center gap-2">
+                <Warehouse className="h-4 w-4 text-orange-600" />
+                <div>
+                  <div className="font-medium">
+                    +{result.comparison.sitesOpened.length} / −{result.comparison.sitesClosed.length}
+                  </div>
+                  <div className="text-sm text-muted-foreground">Sites Opened / Closed</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          <div className="relative rounded-lg overflow-hidden" style={{ height: '500px' }}>
+            <MapContainer center={mapCenter} zoom={9} style={{ height: '100%', width: '100%' }}>
+              <TileLayer
+                attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a>'
+                url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+              />
+              <CandidateClickHandler enabled={isAddingSite} onAdd={addDrawnSite} />
+
+              {/* Current assignments, dashed */}
+              {result && showCurrentAssignments && result.current.assignments.map(a => {
+                const farm = demandById.get(a.farmId);
+                const site = siteById.get(a.siteId);
+                if (!farm || !site) return null;
+                return (
+                  <Polyline
+                    key={`current-${a.farmId}-${a.siteId}`}
+                    positions={[[farm.lat, farm.lng], [site.lat, site.lng]]}
+                    pathOptions={{ color: '#6B7280', weight: 2, dashArray: '6 6', opacity: 0.7 }}
+                  />
+                );
+              })}
+
+              {/* Recommended assignments */}
+              {result?.proposed.assignments.map(a => {
+                const farm = demandById.get(a.farmId);
+                const site = siteById.get(a.siteId);
+                if (!farm || !site) return null;
+                return (
+                  <Polyline
+                    key={`proposed-${a.farmId}-${a.siteId}`}
+                    positions={[[farm.lat, farm.lng], [site.lat, site.lng]]}
+                    pathOptions={{ color: site.existing ? SITE_COLORS.existing : SITE_COLORS.opened, weight: 3, opacity: 0.8 }}
+                  >
+                    <Popup>
+                      <strong>{a.farmName} → {a.siteName}</strong>
+                      <br />
+                      {Math.round(a.volumeLiters).toLocaleString()} L/day · {a.distanceKm.toFixed(1)} km · ₹{Math.round(a.cost).toLocaleString()}/day
+                    </Popup>
+                  </Polyline>
+                );
+              })}
+
+              {[...gridSites, ...drawnSites].filter(site => !openIds.has(site.id)).map(site => (
+                <CircleMarker
+                  key={site.id}
+                  center={[site.lat, site.lng]}
+                  radius={3}
+                  pathOptions={{ color: SITE_COLORS.candidate, fillOpacity: 0.6 }}
+                />
+              ))}
+
+              {demands.map(farm => (
+                <CircleMarker
+                  key={farm.id}
+                  center={[farm.lat, farm.lng]}
+                  radius={6}
+                  pathOptions={{ color: SITE_COLORS.supply, fillColor: SITE_COLORS.supply, fillOpacity: 0.8 }}
+                >
+                  <Popup>
+                    <strong>{farm.name}</strong>
+                    <br />
+                    {farm.demandLiters.toLocaleString()} L/day
+                  </Popup>
+                </CircleMarker>
+              ))}
+
+              {[...existingSites, ...[...gridSites, ...drawnSites].filter(site => openIds.has(site.id))].map(site => {
+                const open = result?.proposed.openSites.find(s => s.site.id === site.id);
+                return (
+                  <CircleMarker
+                    key={site.id}
+                    center={[site.lat, site.lng]}
+                    radius={10}
+                    pathOptions={{ color: siteColor(site), fillColor: siteColor(site), fillOpacity: 0.5, weight: 3 }}
+                  >
+                    <Popup>
+                      <strong>{site.name}</strong>
+                      <br />
+                      {site.existing ? 'Existing site' : 'New site'}
+                      {closedIds.has(site.id) && ' · recommended to close'}
+                      {open && ` · ${Math.round(open.assignedLiters).toLocaleString()} L/day (${open.utilizationPercent.toFixed(0)}%)`}
+                    </Popup>
+                  </CircleMarker>
+                );
+              })}
+            </MapContainer>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Recommended Sites</CardTitle>
+            <CardDescription>
+              ₹{Math.round(result.current.totalCost).toLocaleString()}/day today vs
+              ₹{Math.round(result.proposed.totalCost).toLocaleString()}/day recommended
+              (fixed ₹{Math.round(result.proposed.fixedCost).toLocaleString()},
+              transport ₹{Math.round(result.proposed.transportCost).toLocaleString()})
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="h-64">
+              <div className="space-y-2">
+                {result.proposed.openSites.map(({ site, assignedLiters, utilizationPercent }) => (
+                  <div key={site.id} className="flex items-center justify-between p-2 border rounded-lg">
+                    <div>
+                      <div className="font-medium">{site.name}</div>
+                      <div className="text-sm text-muted-foreground">
+                        {site.lat.toFixed(4)}, {site.lng.toFixed(4)} · {Math.round(assignedLiters).toLocaleString()} L/day
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">{utilizationPercent.toFixed(0)}% utilized</Badge>
+                      <Badge variant={site.existing ? 'secondary' : 'default'}>{site.existing ? 'Keep' : 'Open'}</Badge>
+                    </div>
+                  </div>
+                ))}
+                {result.comparison.sitesClosed.map(site => (
+                  <div key={site.id} className="flex items-center justify-between p-2 border border-red-200 bg-red-50 rounded-lg">
+                    <div className="font-medium">{site.name}</div>
+                    <Badge variant="destructive">Close</Badge>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && result.proposed.unservedLiters > 0 && (
+        <Alert variant="destructive">
+          <AlertDescription>
+            {Math.round(result.proposed.unservedLiters).toLocaleString()} L/day still cannot be handled within
+            {' '}{settings.maxAssignmentDistanceKm} km of an open site with spare capacity.
+          </AlertDescription>
+        </Alert>
+      )}
+    </div>
+  );
+}
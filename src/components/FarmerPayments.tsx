@@ -0,0 +1,606 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useDairyData } from '@/hooks/useDairyData';
+import { useMilkPayments } from '@/hooks/useMilkPayments';
+import { toCsv } from '@/lib/csv';
+import { downloadBlob } from '@/lib/download';
+import { paymentStatementsPdf } from '@/lib/paymentStatementPdf';
+import {
+  buildPaymentStatements,
+  buildRateChart,
+  deductionLabel,
+  paymentRegisterRows,
+  rateCardOn,
+  rateChartOf,
+  recentBillingCycles,
+  statementRows,
+  validateRateChart,
+  DEDUCTION_CATEGORIES,
+  DEFAULT_RATE_CHART_SPEC,
+  type CycleLength,
+  type MilkRateCard,
+  type PaymentStatement,
+  type RateChart,
+  type RateChartSpec
+} from '@/lib/milkPayments';
+import { IndianRupee, FileText, FileSpreadsheet, Save, Plus, Trash2, AlertTriangle, Grid3x3 } from 'lucide-react';
+
+const CYCLES_SHOWN = 12;
+
+const today = () => new Date().toISOString().slice(0, 10);
+const rupees = (value: number) =>
+  `₹${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface RateCardDraft {
+  id?: string;
+  name: string;
+  effectiveFrom: string;
+  organicBonusPerLiter: string;
+  organicBonusPercent: string;
+  isActive: boolean;
+  chart: RateChart;
+}
+
+const newDraft = (): RateCardDraft => ({
+  name: 'Standard rate card',
+  effectiveFrom: today(),
+  organicBonusPerLiter: '2',
+  organicBonusPercent: '0',
+  isActive: true,
+  chart: buildRateChart(DEFAULT_RATE_CHART_SPEC)
+});
+
+const draftOf = (card: MilkRateCard): RateCardDraft => ({
+  id: card.id,
+  name: card.name,
+  effectiveFrom: card.effective_from,
+  organicBonusPerLiter: String(card.organic_bonus_per_liter),
+  organicBonusPercent: String(card.organic_bonus_percent),
+  isActive: card.is_active,
+  chart: rateChartOf(card)
+});
+
+const SPEC_FIELDS: { key: keyof RateChartSpec; label: string; step: string }[] = [
+  { key: 'fatFrom', label: 'Fat from %', step: '0.1' },
+  { key: 'fatTo', label: 'Fat to %', step: '0.1' },
+  { key: 'fatStep', label: 'Fat step', step: '0.1' },
+  { key: 'snfFrom', label: 'SNF from %', step: '0.1' },
+  { key: 'snfTo', label: 'SNF to %', step: '0.1' },
+  { key: 'snfStep', label: 'SNF step', step: '0.05' },
+  { key: 'baseRate', label: 'Base rate ₹/L', step: '0.5' },
+  { key: 'fatPremium', label: '₹ per 0.1% fat', step: '0.05' },
+  { key: 'snfPremium', label: '₹ per 0.1% SNF', step: '0.05' }
+];
+
+export function FarmerPayments() {
+  const { toast } = useToast();
+  const { canManageNetwork } = useAuth();
+  const { farms } = useDairyData();
+
+  const [cycleLength, setCycleLength] = useState<CycleLength>(10);
+  const cycles = useMemo(() => recentBillingCycles(today(), cycleLength, CYCLES_SHOWN), [cycleLength]);
+  const [cycleStart, setCycleStart] = useState<string>();
+  const cycle = cycles.find(c => c.start === cycleStart) ?? cycles[0];
+
+  const { rateCards, collections, deductions, isLoading, saveRateCard, addDeduction, deleteDeduction, isSaving } =
+    useMilkPayments(cycle);
+
+  const [draft, setDraft] = useState<RateCardDraft | null>(null);
+  const [spec, setSpec] = useState<RateChartSpec>(DEFAULT_RATE_CHART_SPEC);
+  const [deduction, setDeduction] = useState({ farmId: '', date: today(), category: 'cattle_feed', amount: '', description: '' });
+
+  const rateCard = rateCardOn(rateCards, cycle.end);
+  const statements = useMemo(
+    () => rateCard ? buildPaymentStatements(farms, collections, deductions, rateCard, cycle) : [],
+    [farms, collections, deductions, rateCard, cycle]
+  );
+  const totals = statements.reduce((sum, s) => ({
+    liters: sum.liters + s.liters,
+    gross: sum.gross + s.grossAmount,
+    recovered: sum.recovered + s.recovered,
+    net: sum.net + s.netPayable
+  }), { liters: 0, gross: 0, recovered: 0, net: 0 });
+
+  const farmName = (id: string) => farms.find(f => f.id === id)?.name ?? 'Unknown farm';
+  const fileStem = `milk_payments_${cycle.start}_${cycle.end}`;
+
+  const exportRegister = () => {
+    downloadBlob(new Blob([toCsv(paymentRegisterRows(statements))], { type: 'text/csv' }), `${fileStem}.csv`);
+  };
+
+  const exportStatementCsv = (statement: PaymentStatement) => {
+    downloadBlob(
+      new Blob([toCsv(statementRows(statement))], { type: 'text/csv' }),
+      `${fileStem}_${statement.farmName.replace(/\W+/g, '_')}.csv`
+    );
+  };
+
+  const exportPdf = (selected: PaymentStatement[], name: string) => {
+    try {
+      downloadBlob(paymentStatementsPdf(selected), `${name}.pdf`);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to create the PDF",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const updateCell = (fatIndex: number, snfIndex: number, value: string) => {
+    if (!draft) return;
+    const rates = draft.chart.rates.map((row, i) => i === fatIndex
+      ? row.map((rate, j) => j === snfIndex ? Number(value) : rate)
+      : row);
+    setDraft({ ...draft, chart: { ...draft.chart, rates } });
+  };
+
+  const chartErrors = draft ? validateRateChart(draft.chart) : [];
+
+  const submitRateCard = async () => {
+    if (!draft || chartErrors.length > 0) return;
+    try {
+      await saveRateCard({
+        id: draft.id,
+        name: draft.name,
+        effective_from: draft.effectiveFrom,
+        fat_steps: draft.chart.fatSteps,
+        snf_steps: draft.chart.snfSteps,
+        rates: draft.chart.rates,
+        organic_bonus_per_liter: Number(draft.organicBonusPerLiter) || 0,
+        organic_bonus_percent: Number(draft.organicBonusPercent) || 0,
+        is_active: draft.isActive
+      });
+      toast({ title: "Rate card saved", description: `${draft.name} applies from ${draft.effectiveFrom}` });
+      setDraft(null);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the rate card",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const submitDeduction = async () => {
+    const amount = Number(deduction.amount);
+    if (!deduction.farmId || !(amount > 0)) {
+      toast({ title: "Error", description: "Choose a farm and enter an amount above zero", variant: "destructive" });
+      return;
+    }
+    try {
+      await addDeduction({
+        farm_id: deduction.farmId,
+        deduction_date: deduction.date,
+        category: deduction.category,
+        amount,
+        description: deduction.description || null
+      });
+      toast({ title: "Deduction recorded", description: `${rupees(amount)} for ${farmName(deduction.farmId)}` });
+      setDeduction(prev => ({ ...prev, amount: '', description: '' }));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record the deduction",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeDeduction = async (id: string) => {
+    try {
+      await deleteDeduction(id);
+      toast({ title: "Deduction deleted" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete the deduction",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <IndianRupee className="h-5 w-5" />
+              Farmer Payments
+            </CardTitle>
+            <CardDescription>
+              Fat × SNF pricing of accepted milk, organic bonuses and deductions per billing cycle
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select
+              value={String(cycleLength)}
+              onValueChange={(value) => { setCycleLength(Number(value) as CycleLength); setCycleStart(undefined); }}
+            >
+              <SelectTrigger className="w-32"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="10">10-day cycle</SelectItem>
+                <SelectItem value="15">15-day cycle</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={cycle.start} onValueChange={setCycleStart}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {cycles.map(c => <SelectItem key={c.start} value={c.start}>{c.label}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="statements" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="statements">Statements</TabsTrigger>
+            <TabsTrigger value="deductions">Deductions</TabsTrigger>
+            <TabsTrigger value="rate-cards">Rate Cards</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="statements" className="space-y-4">
+            {isLoading ? (
+              <p className="text-sm text-muted-foreground">Loading collections...</p>
+            ) : !rateCard ? (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  No active rate card is in force on {cycle.end}. Add one under Rate Cards to price this cycle.
+                </AlertDescription>
+              </Alert>
+            ) : (
+              <>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                  <div>
+                    <p className="text-sm text-muted-foreground">Rate card</p>
+                    <p className="font-semibold">{rateCard.name}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Accepted milk</p>
+                    <p className="text-xl font-bold">{Math.round(totals.liters).toLocaleString()} L</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Gross</p>
+                    <p className="text-xl font-bold">{rupees(totals.gross)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Deductions recovered</p>
+                    <p className="text-xl font-bold">{rupees(totals.recovered)}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-muted-foreground">Net payable</p>
+                    <p className="text-xl font-bold text-green-600">{rupees(totals.net)}</p>
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  <Button variant="outline" onClick={exportRegister} disabled={statements.length === 0}>
+                    <FileSpreadsheet className="h-4 w-4 mr-2" />
+                    Payment Register (CSV)
+                  </Button>
+                  <Button variant="outline" onClick={() => exportPdf(statements, fileStem)} disabled={statements.length === 0}>
+                    <FileText className="h-4 w-4 mr-2" />
+                    All Statements (PDF)
+                  </Button>
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Farm</TableHead>
+                      <TableHead className="text-right">Liters</TableHead>
+                      <TableHead className="text-right">Fat / SNF</TableHead>
+                      <TableHead className="text-right">Milk value</TableHead>
+                      <TableHead className="text-right">Organic bonus</TableHead>
+                      <TableHead className="text-right">Deductions</TableHead>
+                      <TableHead className="text-right">Net payable</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {statements.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-muted-foreground">No collections or deductions in this cycle.</TableCell>
+                      </TableRow>
+                    ) : statements.map(s => (
+                      <TableRow key={s.farmId}>
+                        <TableCell>
+                          {s.farmName}
+                          {s.organic && <Badge variant="secondary" className="ml-2">Organic</Badge>}
+                        </TableCell>
+                        <TableCell className="text-right">{s.liters.toFixed(1)}</TableCell>
+                        <TableCell className="text-right">
+                          {s.averageFatPercent?.toFixed(2) ?? '—'} / {s.averageSnfPercent?.toFixed(2) ?? '—'}
+                        </TableCell>
+                        <TableCell className="text-right">{rupees(s.baseAmount)}</TableCell>
+                        <TableCell className="text-right">{s.organicBonus > 0 ? rupees(s.organicBonus) : '—'}</TableCell>
+                        <TableCell className="text-right">
+                          {s.recovered > 0 ? rupees(s.recovered) : '—'}
+                          {s.outstanding > 0 && (
+                            <Badge variant="destructive" className="ml-2" title="Deductions the gross could not cover">
+                              {rupees(s.outstanding)} due
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold">{rupees(s.netPayable)}</TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => exportStatementCsv(s)} title="Statement CSV">
+                            <FileSpreadsheet className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => exportPdf([s], `${fileStem}_${s.farmName.replace(/\W+/g, '_')}`)}
+                            title="Statement PDF"
+                          >
+                            <FileText className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="deductions" className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-6 gap-4 items-end">
+              <div className="space-y-1 col-span-2">
+                <Label>Farm</Label>
+                <Select value={deduction.farmId} onValueChange={(value) => setDeduction(prev => ({ ...prev, farmId: value }))}>
+                  <SelectTrigger><SelectValue placeholder="Select farm" /></SelectTrigger>
+                  <SelectContent>
+                    {farms.map(f => <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="deduction-date">Date</Label>
+                <Input
+                  id="deduction-date"
+                  type="date"
+                  value={deduction.date}
+                  onChange={(e) => setDeduction(prev => ({ ...prev, date: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Category</Label>
+                <Select value={deduction.category} onValueChange={(value) => setDeduction(prev => ({ ...prev, category: value }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {DEDUCTION_CATEGORIES.map(c => <SelectItem key={c.value} value={c.value}>{c.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="deduction-amount">Amount (₹)</Label>
+                <Input
+                  id="deduction-amount"
+                  type="number"
+                  min={0}
+                  value={deduction.amount}
+                  onChange={(e) => setDeduction(prev => ({ ...prev, amount: e.target.value }))}
+                />
+              </div>
+              <Button onClick={submitDeduction} disabled={isSaving}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+              <div className="space-y-1 col-span-2 md:col-span-6">
+                <Label htmlFor="deduction-description">Description</Label>
+                <Input
+                  id="deduction-description"
+                  value={deduction.description}
+                  onChange={(e) => setDeduction(prev => ({ ...prev, description: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Farm</TableHead>
+                  <TableHead>Category</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  {canManageNetwork && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deductions.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-muted-foreground">No deductions in {cycle.label}.</TableCell>
+                  </TableRow>
+                ) : deductions.map(d => (
+                  <TableRow key={d.id}>
+                    <TableCell>{d.deduction_date}</TableCell>
+                    <TableCell>{farmName(d.farm_id)}</TableCell>
+                    <TableCell>{deductionLabel(d.category)}</TableCell>
+                    <TableCell className="text-muted-foreground">{d.description}</TableCell>
+                    <TableCell className="text-right">{rupees(Number(d.amount))}</TableCell>
+                    {canManageNetwork && (
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => removeDeduction(d.id)} disabled={isSaving}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="rate-cards" className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Effective from</TableHead>
+                  <TableHead className="text-right">Fat range</TableHead>
+                  <TableHead className="text-right">SNF range</TableHead>
+                  <TableHead className="text-right">Organic bonus</TableHead>
+                  <TableHead>Status</TableHead>
+                  {canManageNetwork && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rateCards.map(card => (
+                  <TableRow key={card.id}>
+                    <TableCell>{card.name}</TableCell>
+                    <TableCell>{card.effective_from}</TableCell>
+                    <TableCell className="text-right">{card.fat_steps[0]}–{card.fat_steps[card.fat_steps.length - 1]}%</TableCell>
+                    <TableCell className="text-right">{card.snf_steps[0]}–{card.snf_steps[card.snf_steps.length - 1]}%</TableCell>
+                    <TableCell className="text-right">
+                      ₹{card.organic_bonus_per_liter}/L{Number(card.organic_bonus_percent) > 0 && ` + ${card.organic_bonus_percent}%`}
+                    </TableCell>
+                    <TableCell>
+                      {card.id === rateCard?.id
+                        ? <Badge>In force</Badge>
+                        : <Badge variant="outline">{card.is_active ? 'Active' : 'Inactive'}</Badge>}
+                    </TableCell>
+                    {canManageNetwork && (
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => setDraft(draftOf(card))}>Edit</Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {canManageNetwork && !draft && (
+              <Button variant="outline" onClick={() => setDraft(newDraft())}>
+                <Plus className="h-4 w-4 mr-2" />
+                New Rate Card
+              </Button>
+            )}
+
+            {draft && (
+              <div className="space-y-4 border rounded-lg p-4">
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end">
+                  <div className="space-y-1 col-span-2">
+                    <Label htmlFor="card-name">Name</Label>
+                    <Input id="card-name" value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="card-effective">Effective from</Label>
+                    <Input
+                      id="card-effective"
+                      type="date"
+                      value={draft.effectiveFrom}
+                      onChange={(e) => setDraft({ ...draft, effectiveFrom: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="bonus-liter">Organic bonus ₹/L</Label>
+                    <Input
+                      id="bonus-liter"
+                      type="number"
+                      step="0.5"
+                      value={draft.organicBonusPerLiter}
+                      onChange={(e) => setDraft({ ...draft, organicBonusPerLiter: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="bonus-percent">Organic bonus %</Label>
+                    <Input
+                      id="bonus-percent"
+                      type="number"
+                      step="1"
+                      value={draft.organicBonusPercent}
+                      onChange={(e) => setDraft({ ...draft, organicBonusPercent: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch id="card-active" checked={draft.isActive} onCheckedChange={(checked) => setDraft({ ...draft, isActive: checked })} />
+                  <Label htmlFor="card-active">Active</Label>
+                </div>
+
+                <div className="grid grid-cols-3 md:grid-cols-9 gap-2 items-end">
+                  {SPEC_FIELDS.map(field => (
+                    <div key={field.key} className="space-y-1">
+                      <Label className="text-xs">{field.label}</Label>
+                      <Input
+                        type="number"
+                        step={field.step}
+                        value={spec[field.key]}
+                        onChange={(e) => setSpec({ ...spec, [field.key]: Number(e.target.value) })}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <Button variant="outline" size="sm" onClick={() => setDraft({ ...draft, chart: buildRateChart(spec) })}>
+                  <Grid3x3 className="h-4 w-4 mr-2" />
+                  Generate Chart
+                </Button>
+
+                <ScrollArea className="h-80 border rounded">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Fat % \ SNF %</TableHead>
+                        {draft.chart.snfSteps.map(snf => <TableHead key={snf} className="text-center">{snf}</TableHead>)}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {draft.chart.fatSteps.map((fat, i) => (
+                        <TableRow key={fat}>
+                          <TableCell className="font-medium">{fat}</TableCell>
+                          {draft.chart.snfSteps.map((snf, j) => (
+                            <TableCell key={snf} className="p-1">
+                              <Input
+                                type="number"
+                                step="0.05"
+                                className="h-8 w-20"
+                                value={draft.chart.rates[i][j]}
+                                onChange={(e) => updateCell(i, j, e.target.value)}
+                              />
+                            </TableCell>
+                          ))}
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+
+                {chartErrors.length > 0 && (
+                  <Alert variant="destructive">
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>{chartErrors.join('. ')}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex gap-2">
+                  <Button onClick={submitRateCard} disabled={isSaving || chartErrors.length > 0 || !draft.name}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Rate Card
+                  </Button>
+                  <Button variant="ghost" onClick={() => setDraft(null)}>Cancel</Button>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
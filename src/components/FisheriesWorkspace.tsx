@@ -0,0 +1,360 @@
+import React, { useMemo, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { LatLng } from 'leaflet';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { SupplyChainMap, type MapEdge } from './SupplyChainMap';
+import { useSupplyChainData, useMarketDemand } from '@/hooks/useSupplyChainData';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { supplyChainService, type DailyCatch } from '@/services/supplyChainService';
+import { optimizeCatchAllocation, type FisheriesPlan } from '@/lib/fisheriesOptimizer';
+import { Fish, Play, Save, Snowflake, AlertTriangle, History } from 'lucide-react';
+
+const formatCurrency = (value: number) => `₹${Math.round(value).toLocaleString()}`;
+
+export function FisheriesWorkspace() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const {
+    nodes,
+    ports,
+    coldStorages,
+    markets,
+    trucks,
+    spoilageProfiles,
+    dailyCatches,
+    optimizationResults,
+    isLoading,
+    catchesLoading
+  } = useSupplyChainData();
+
+  const latestCatchDate = (dailyCatches as DailyCatch[])[0]?.catch_date;
+  const [selectedDate, setSelectedDate] = useState<string>('');
+  const catchDate = selectedDate || latestCatchDate || new Date().toISOString().slice(0, 10);
+  const { demand, isLoading: demandLoading } = useMarketDemand(catchDate);
+
+  const [allowColdStorage, setAllowColdStorage] = useState(true);
+  const [plan, setPlan] = useState<FisheriesPlan | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const dayCatches = useMemo(
+    () => (dailyCatches as DailyCatch[]).filter(c => c.catch_date === catchDate),
+    [dailyCatches, catchDate]
+  );
+
+  const nameOf = (id?: string) =>
+    ports.find(p => p.id === id)?.name ??
+    markets.find(m => m.id === id)?.name ??
+    coldStorages.find(s => s.id === id)?.name ??
+    trucks.find(t => t.id === id)?.license_plate ??
+    '—';
+
+  const runOptimization = () => {
+    const result = optimizeCatchAllocation(
+      { catches: dayCatches, ports, markets, coldStorages, trucks, spoilageProfiles, demand },
+      { allowColdStorage }
+    );
+    setPlan(result);
+    toast({
+      title: "Allocation complete",
+      description: `${result.allocations.length} of ${dayCatches.length} catches allocated, net profit ${formatCurrency(result.totalNetProfit)}`,
+    });
+  };
+
+  const savePlan = async () => {
+    if (!plan || !user) return;
+    setIsSaving(true);
+    try {
+      await Promise.all(plan.allocations.map(allocation =>
+        supplyChainService.saveOptimizationResult({
+          user_id: user.id,
+          port_id: allocation.portId,
+          market_id: allocation.marketId,
+          cold_storage_id: allocation.coldStorageId,
+          truck_id: allocation.truckId,
+          fish_type: allocation.fishType,
+          volume_kg: allocation.volumeKg,
+          distance_km: allocation.distanceKm,
+          travel_time_hours: allocation.travelTimeHours,
+          total_cost: allocation.totalCost,
+          revenue: allocation.revenue,
+          net_profit: allocation.netProfit,
+          spoilage_percentage: allocation.spoilagePercent,
+          route_data: {
+            catch_id: allocation.catchId,
+            trips: allocation.trips,
+            delivered_kg: allocation.deliveredKg,
+            price_per_kg: allocation.pricePerKg,
+            transport_cost: allocation.transportCost,
+            storage_cost: allocation.storageCost
+          },
+          optimization_date: catchDate
+        })
+      ));
+      queryClient.invalidateQueries({ queryKey: ['optimization-results'] });
+      toast({ title: "Plan saved", description: `${plan.allocations.length} allocations stored for ${catchDate}` });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the plan",
+        variant: "destructive"
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const edges: MapEdge[] = useMemo(() => {
+    if (!plan) return [];
+    const point = (id?: string) => nodes.find(n => n.id === id);
+    return plan.allocations.flatMap(allocation => {
+      const stops = [allocation.portId, allocation.coldStorageId, allocation.marketId]
+        .map(point)
+        .filter((node): node is NonNullable<typeof node> => !!node);
+      if (stops.length < 2) return [];
+      return [{
+        id: allocation.catchId,
+        from: allocation.portId,
+        to: allocation.marketId,
+        route: stops.map(node => new LatLng(node.lat, node.lng)),
+        color: allocation.coldStorageId ? '#06B6D4' : '#2563EB',
+        weight: 3
+      }];
+    });
+  }, [plan, nodes]);
+
+  const mapCenter: [number, number] = ports.length > 0
+    ? [
+        ports.reduce((sum, p) => sum + p.location_lat, 0) / ports.length,
+        ports.reduce((sum, p) => sum + p.location_lng, 0) / ports.length
+      ]
+    : [12.9716, 77.5946];
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading fisheries network...</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Fish className="h-5 w-5" />
+            Daily Catch Allocation
+          </CardTitle>
+          <CardDescription>
+            Send each catch to a market, optionally through cold storage, maximizing net profit after spoilage
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="catch-date">Catch date</Label>
+              <Input
+                id="catch-date"
+                type="date"
+                value={catchDate}
+                onChange={(e) => {
+                  setSelectedDate(e.target.value);
+                  setPlan(null);
+                }}
+                className="w-44"
+              />
+            </div>
+            <div className="flex items-center gap-2 pb-2">
+              <Switch id="allow-cold-storage" checked={allowColdStorage} onCheckedChange={setAllowColdStorage} />
+              <Label htmlFor="allow-cold-storage" className="flex items-center gap-1">
+                <Snowflake className="h-4 w-4" />
+                Cold storage stops
+              </Label>
+            </div>
+            <Button
+              onClick={runOptimization}
+              disabled={dayCatches.length === 0 || trucks.length === 0 || demandLoading}
+            >
+              <Play className="h-4 w-4 mr-2" />
+              Optimize
+            </Button>
+            <Button variant="outline" onClick={savePlan} disabled={!plan || plan.allocations.length === 0 || isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? 'Saving...' : 'Save Plan'}
+            </Button>
+          </div>
+
+          {catchesLoading ? (
+            <p className="text-sm text-muted-foreground">Loading catches...</p>
+          ) : dayCatches.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No catches logged for {catchDate}.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Port</TableHead>
+                  <TableHead>Fish</TableHead>
+                  <TableHead className="text-right">Volume (kg)</TableHead>
+                  <TableHead className="text-right">Est. price/kg</TableHead>
+                  <TableHead>Grade</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {dayCatches.map(c => (
+                  <TableRow key={c.id}>
+                    <TableCell>{nameOf(c.port_id)}</TableCell>
+                    <TableCell className="capitalize">{c.fish_type}</TableCell>
+                    <TableCell className="text-right">{c.volume_kg.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">
+                      {c.estimated_price_per_kg ? formatCurrency(c.estimated_price_per_kg) : '—'}
+                    </TableCell>
+                    <TableCell>{c.quality_grade ?? '—'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {plan && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Net profit</p>
+                <p className="text-2xl font-bold">{formatCurrency(plan.totalNetProfit)}</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Revenue / cost</p>
+                <p className="text-2xl font-bold">{formatCurrency(plan.totalRevenue)}</p>
+                <p className="text-xs text-muted-foreground">{formatCurrency(plan.totalCost)} cost</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Volume allocated</p>
+                <p className="text-2xl font-bold">{Math.round(plan.totalVolumeKg).toLocaleString()} kg</p>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="pt-6">
+                <p className="text-sm text-muted-foreground">Avg. spoilage</p>
+                <p className="text-2xl font-bold">{plan.averageSpoilagePercent.toFixed(1)}%</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Allocation Plan</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <SupplyChainMap nodes={nodes} edges={edges} center={mapCenter} zoom={7} height="400px" />
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Catch</TableHead>
+                    <TableHead>Route</TableHead>
+                    <TableHead>Truck</TableHead>
+                    <TableHead className="text-right">Distance</TableHead>
+                    <TableHead className="text-right">Spoilage</TableHead>
+                    <TableHead className="text-right">Cost</TableHead>
+                    <TableHead className="text-right">Net profit</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.allocations.map(a => (
+                    <TableRow key={a.catchId}>
+                      <TableCell>
+                        <span className="capitalize">{a.fishType}</span>
+                        <span className="text-xs text-muted-foreground block">{a.volumeKg.toLocaleString()} kg</span>
+                      </TableCell>
+                      <TableCell>
+                        {nameOf(a.portId)} → {a.coldStorageId && <>{nameOf(a.coldStorageId)} → </>}{nameOf(a.marketId)}
+                      </TableCell>
+                      <TableCell>
+                        {nameOf(a.truckId)}
+                        {a.trips > 1 && <Badge variant="outline" className="ml-2">{a.trips} trips</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{a.distanceKm.toFixed(0)} km · {a.travelTimeHours.toFixed(1)}h</TableCell>
+                      <TableCell className="text-right">{a.spoilagePercent.toFixed(1)}%</TableCell>
+                      <TableCell className="text-right">{formatCurrency(a.totalCost)}</TableCell>
+                      <TableCell className="text-right font-medium">{formatCurrency(a.netProfit)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+
+              {plan.unallocated.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <p className="font-medium mb-1">{plan.unallocated.length} catches not allocated</p>
+                    <ul className="text-sm space-y-1">
+                      {plan.unallocated.map(u => {
+                        const fishCatch = dayCatches.find(c => c.id === u.catchId);
+                        return (
+                          <li key={u.catchId}>
+                            <span className="capitalize">{fishCatch?.fish_type}</span> at {nameOf(fishCatch?.port_id)}: {u.reason}
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Saved Plans
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {optimizationResults.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No saved allocations yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Fish</TableHead>
+                  <TableHead>Route</TableHead>
+                  <TableHead className="text-right">Volume (kg)</TableHead>
+                  <TableHead className="text-right">Net profit</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {optimizationResults.slice(0, 20).map(result => (
+                  <TableRow key={result.id}>
+                    <TableCell>{result.optimization_date}</TableCell>
+                    <TableCell className="capitalize">{result.fish_type}</TableCell>
+                    <TableCell>
+                      {result.ports?.name} → {result.cold_storage && <>{result.cold_storage.name} → </>}{result.markets?.name}
+                    </TableCell>
+                    <TableCell className="text-right">{Number(result.volume_kg).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(result.net_profit))}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
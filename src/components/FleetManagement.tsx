@@ -0,0 +1,604 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useDairyData } from '@/hooks/useDairyData';
+import { useFleet } from '@/hooks/useFleet';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import { dairyService } from '@/services/dairyService';
+import {
+  availabilityCalendar,
+  downtimeLabel,
+  fleetCoverage,
+  homeDepotId,
+  serviceDueInKm,
+  vehicleTypeOf,
+  DOWNTIME_KINDS,
+  SERVICE_WARNING_KM,
+  WEEKDAYS,
+  type DairyVehicle,
+  type DepotFleetCoverage
+} from '@/lib/fleet';
+import { Truck, Plus, Save, Trash2, Wrench, Gauge, AlertTriangle, CheckCircle, Play } from 'lucide-react';
+
+const CALENDAR_DAYS = 14;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+interface VehicleForm {
+  id?: string;
+  registration: string;
+  vehicleTypeId: string;
+  depot: string; // 'center:<id>' or 'plant:<id>'
+  workingDays: number[];
+  availableFrom: string;
+  availableTo: string;
+  odometerKm: string;
+  lastServiceKm: string;
+  serviceIntervalKm: string;
+  active: boolean;
+  notes: string;
+}
+
+const emptyVehicleForm = (): VehicleForm => ({
+  registration: '',
+  vehicleTypeId: 'milk-tanker',
+  depot: '',
+  workingDays: [0, 1, 2, 3, 4, 5, 6],
+  availableFrom: '04:00',
+  availableTo: '22:00',
+  odometerKm: '0',
+  lastServiceKm: '0',
+  serviceIntervalKm: '10000',
+  active: true,
+  notes: ''
+});
+
+const vehicleFormOf = (vehicle: DairyVehicle): VehicleForm => ({
+  id: vehicle.id,
+  registration: vehicle.registration,
+  vehicleTypeId: vehicle.vehicle_type_id,
+  depot: vehicle.home_center_id ? `center:${vehicle.home_center_id}` : `plant:${vehicle.home_plant_id}`,
+  workingDays: vehicle.working_days,
+  availableFrom: vehicle.available_from.slice(0, 5),
+  availableTo: vehicle.available_to.slice(0, 5),
+  odometerKm: String(vehicle.odometer_km),
+  lastServiceKm: String(vehicle.last_service_km),
+  serviceIntervalKm: String(vehicle.service_interval_km),
+  active: vehicle.active,
+  notes: vehicle.notes ?? ''
+});
+
+export function FleetManagement() {
+  const { toast } = useToast();
+  const { canManageNetwork } = useAuth();
+  const { centers, plants } = useDairyData();
+  const { vehicleTypes } = useProductCatalog();
+  const [startDate, setStartDate] = useState(today);
+  const { vehicles, downtime, isLoading, saveVehicle, recordOdometer, deleteVehicle, addDowntime, deleteDowntime, isSaving } =
+    useFleet(startDate, CALENDAR_DAYS);
+
+  const [form, setForm] = useState<VehicleForm | null>(null);
+  const [odometer, setOdometer] = useState<{ id: string; km: string; serviced: boolean } | null>(null);
+  const [downtimeForm, setDowntimeForm] = useState({
+    vehicleId: '', kind: 'maintenance', startsAt: `${today()}T08:00`, endsAt: `${today()}T17:00`, notes: ''
+  });
+  const [coverage, setCoverage] = useState<DepotFleetCoverage[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const depotName = (vehicle: DairyVehicle) => {
+    const id = homeDepotId(vehicle);
+    return centers.find(c => c.id === id)?.name ?? plants.find(p => p.id === id)?.name ?? 'Unknown depot';
+  };
+  const registrationOf = (id: string) => vehicles.find(v => v.id === id)?.registration ?? 'Unknown vehicle';
+
+  const calendar = useMemo(
+    () => availabilityCalendar(vehicles, downtime, startDate, CALENDAR_DAYS),
+    [vehicles, downtime, startDate]
+  );
+  const availableToday = calendar.filter(row => row.days[0]?.available).length;
+  const serviceDue = vehicles.filter(v => v.active && serviceDueInKm(v) <= SERVICE_WARNING_KM);
+
+  const reportError = (fallback: string) => (error: unknown) => toast({
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback,
+    variant: "destructive"
+  });
+
+  const submitVehicle = async () => {
+    if (!form) return;
+    if (!form.registration.trim() || !form.depot) {
+      toast({ title: "Error", description: "Registration and home depot are required", variant: "destructive" });
+      return;
+    }
+    const [depotType, depotId] = form.depot.split(':');
+    try {
+      await saveVehicle({
+        id: form.id,
+        registration: form.registration.trim().toUpperCase(),
+        vehicle_type_id: form.vehicleTypeId,
+        home_center_id: depotType === 'center' ? depotId : null,
+        home_plant_id: depotType === 'plant' ? depotId : null,
+        working_days: [...form.workingDays].sort(),
+        available_from: form.availableFrom,
+        available_to: form.availableTo,
+        odometer_km: Number(form.odometerKm) || 0,
+        last_service_km: Number(form.lastServiceKm) || 0,
+        service_interval_km: Number(form.serviceIntervalKm) || 10000,
+        active: form.active,
+        notes: form.notes || null
+      });
+      toast({ title: "Vehicle saved", description: form.registration.toUpperCase() });
+      setForm(null);
+    } catch (error) {
+      reportError("Failed to save the vehicle")(error);
+    }
+  };
+
+  const submitOdometer = async () => {
+    if (!odometer) return;
+    try {
+      await recordOdometer({ id: odometer.id, odometerKm: Number(odometer.km), serviced: odometer.serviced });
+      toast({ title: "Odometer updated", description: `${registrationOf(odometer.id)}: ${Number(odometer.km).toLocaleString()} km` });
+      setOdometer(null);
+    } catch (error) {
+      reportError("Failed to record the odometer reading")(error);
+    }
+  };
+
+  const removeVehicle = async (vehicle: DairyVehicle) => {
+    try {
+      await deleteVehicle(vehicle.id);
+      toast({ title: "Vehicle deleted", description: vehicle.registration });
+    } catch (error) {
+      reportError("Failed to delete the vehicle")(error);
+    }
+  };
+
+  const submitDowntime = async () => {
+    if (!downtimeForm.vehicleId || downtimeForm.endsAt <= downtimeForm.startsAt) {
+      toast({ title: "Error", description: "Choose a vehicle and an end after the start", variant: "destructive" });
+      return;
+    }
+    try {
+      await addDowntime({
+        vehicle_id: downtimeForm.vehicleId,
+        kind: downtimeForm.kind,
+        starts_at: new Date(downtimeForm.startsAt).toISOString(),
+        ends_at: new Date(downtimeForm.endsAt).toISOString(),
+        notes: downtimeForm.notes || null
+      });
+      toast({ title: "Downtime scheduled", description: `${registrationOf(downtimeForm.vehicleId)}: ${downtimeLabel(downtimeForm.kind)}` });
+      setDowntimeForm(prev => ({ ...prev, notes: '' }));
+    } catch (error) {
+      reportError("Failed to schedule the downtime")(error);
+    }
+  };
+
+  const removeDowntime = async (id: string) => {
+    try {
+      await deleteDowntime(id);
+      toast({ title: "Downtime removed" });
+    } catch (error) {
+      reportError("Failed to remove the downtime")(error);
+    }
+  };
+
+  const checkCoverage = async () => {
+    setIsChecking(true);
+    try {
+      const plan = await dairyService.planNetworkFlow({ vehicles: vehicleTypes });
+      setCoverage(fleetCoverage(plan, vehicles, downtime, startDate, vehicleTypes));
+    } catch (error) {
+      reportError("Fleet coverage check failed")(error);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const shortfalls = coverage?.filter(c => c.shortfall) ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Truck className="h-5 w-5" />
+              Fleet
+            </CardTitle>
+            <CardDescription>
+              {vehicles.length} vehicles, {availableToday} available on {startDate}
+              {serviceDue.length > 0 && `, ${serviceDue.length} due for service`}
+            </CardDescription>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="fleet-date">From</Label>
+            <Input id="fleet-date" type="date" value={startDate} onChange={(e) => e.target.value && setStartDate(e.target.value)} />
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="vehicles" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="vehicles">Vehicles</TabsTrigger>
+            <TabsTrigger value="calendar">Availability</TabsTrigger>
+            <TabsTrigger value="coverage">Coverage</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="vehicles" className="space-y-4">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Registration</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Home depot</TableHead>
+                  <TableHead>Duty</TableHead>
+                  <TableHead className="text-right">Odometer</TableHead>
+                  <TableHead className="text-right">Service due</TableHead>
+                  <TableHead>Today</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {isLoading ? (
+                  <TableRow><TableCell colSpan={8} className="text-muted-foreground">Loading fleet...</TableCell></TableRow>
+                ) : calendar.map(({ vehicle, days }) => {
+                  const dueIn = serviceDueInKm(vehicle);
+                  return (
+                    <TableRow key={vehicle.id} className={vehicle.active ? '' : 'opacity-60'}>
+                      <TableCell className="font-medium">{vehicle.registration}</TableCell>
+                      <TableCell>{vehicleTypeOf(vehicle, vehicleTypes)?.name ?? vehicle.vehicle_type_id}</TableCell>
+                      <TableCell>{depotName(vehicle)}</TableCell>
+                      <TableCell className="text-xs">
+                        {vehicle.working_days.length === 7 ? 'Daily' : vehicle.working_days.map(d => WEEKDAYS[d]).join(' ')}
+                        {' '}{vehicle.available_from.slice(0, 5)}–{vehicle.available_to.slice(0, 5)}
+                      </TableCell>
+                      <TableCell className="text-right">{Number(vehicle.odometer_km).toLocaleString()} km</TableCell>
+                      <TableCell className="text-right">
+                        {dueIn <= 0
+                          ? <Badge variant="destructive">{Math.round(-dueIn).toLocaleString()} km overdue</Badge>
+                          : dueIn <= SERVICE_WARNING_KM
+                            ? <Badge variant="secondary">in {Math.round(dueIn).toLocaleString()} km</Badge>
+                            : `${Math.round(dueIn).toLocaleString()} km`}
+                      </TableCell>
+                      <TableCell>
+                        {days[0]?.available
+                          ? <Badge variant="outline" className="text-green-700">Available</Badge>
+                          : <Badge variant="outline" className="text-red-700">{days[0]?.reason}</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          title="Record odometer"
+                          onClick={() => setOdometer({ id: vehicle.id, km: String(vehicle.odometer_km), serviced: false })}
+                        >
+                          <Gauge className="h-4 w-4" />
+                        </Button>
+                        {canManageNetwork && (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => setForm(vehicleFormOf(vehicle))}>Edit</Button>
+                            <Button variant="ghost" size="sm" onClick={() => removeVehicle(vehicle)} disabled={isSaving}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+
+            {odometer && (
+              <div className="flex flex-wrap items-end gap-4 border rounded-lg p-4">
+                <div className="space-y-1">
+                  <Label htmlFor="odometer-km">Odometer for {registrationOf(odometer.id)} (km)</Label>
+                  <Input
+                    id="odometer-km"
+                    type="number"
+                    min={0}
+                    value={odometer.km}
+                    onChange={(e) => setOdometer({ ...odometer, km: e.target.value })}
+                  />
+                </div>
+                <div className="flex items-center gap-2 pb-2">
+                  <Checkbox
+                    id="odometer-serviced"
+                    checked={odometer.serviced}
+                    onCheckedChange={(checked) => setOdometer({ ...odometer, serviced: checked === true })}
+                  />
+                  <Label htmlFor="odometer-serviced">Serviced at this reading</Label>
+                </div>
+                <Button onClick={submitOdometer} disabled={isSaving}>
+                  <Save className="h-4 w-4 mr-2" />
+                  Save Reading
+                </Button>
+                <Button variant="ghost" onClick={() => setOdometer(null)}>Cancel</Button>
+              </div>
+            )}
+
+            {canManageNetwork && !form && (
+              <Button variant="outline" onClick={() => setForm(emptyVehicleForm())}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Vehicle
+              </Button>
+            )}
+
+            {form && (
+              <div className="space-y-4 border rounded-lg p-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <div className="space-y-1">
+                    <Label htmlFor="vehicle-registration">Registration</Label>
+                    <Input
+                      id="vehicle-registration"
+                      value={form.registration}
+                      placeholder="KA-01-AB-1234"
+                      onChange={(e) => setForm({ ...form, registration: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Type</Label>
+                    <Select value={form.vehicleTypeId} onValueChange={(value) => setForm({ ...form, vehicleTypeId: value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {vehicleTypes.map(type => (
+                          <SelectItem key={type.id} value={type.id}>{type.name} ({type.capacity.toLocaleString()} L)</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1 col-span-2">
+                    <Label>Home depot</Label>
+                    <Select value={form.depot} onValueChange={(value) => setForm({ ...form, depot: value })}>
+                      <SelectTrigger><SelectValue placeholder="Select depot" /></SelectTrigger>
+                      <SelectContent>
+                        {centers.map(c => <SelectItem key={c.id} value={`center:${c.id}`}>{c.name} (center)</SelectItem>)}
+                        {plants.map(p => <SelectItem key={p.id} value={`plant:${p.id}`}>{p.name} (plant)</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="vehicle-from">On duty from</Label>
+                    <Input id="vehicle-from" type="time" value={form.availableFrom} onChange={(e) => setForm({ ...form, availableFrom: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="vehicle-to">On duty until</Label>
+                    <Input id="vehicle-to" type="time" value={form.availableTo} onChange={(e) => setForm({ ...form, availableTo: e.target.value })} />
+                  </div>
+                  <div className="space-y-1 col-span-2">
+                    <Label>Working days</Label>
+                    <div className="flex flex-wrap gap-3 pt-2">
+                      {WEEKDAYS.map((day, i) => (
+                        <label key={day} className="flex items-center gap-1 text-sm">
+                          <Checkbox
+                            checked={form.workingDays.includes(i)}
+                            onCheckedChange={(checked) => setForm({
+                              ...form,
+                              workingDays: checked === true ? [...form.workingDays, i] : form.workingDays.filter(d => d !== i)
+                            })}
+                          />
+                          {day}
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="vehicle-odometer">Odometer (km)</Label>
+                    <Input id="vehicle-odometer" type="number" min={0} value={form.odometerKm} onChange={(e) => setForm({ ...form, odometerKm: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="vehicle-last-service">Last service at (km)</Label>
+                    <Input id="vehicle-last-service" type="number" min={0} value={form.lastServiceKm} onChange={(e) => setForm({ ...form, lastServiceKm: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="vehicle-interval">Service every (km)</Label>
+                    <Input id="vehicle-interval" type="number" min={1} value={form.serviceIntervalKm} onChange={(e) => setForm({ ...form, serviceIntervalKm: e.target.value })} />
+                  </div>
+                  <div className="flex items-center gap-2 pt-6">
+                    <Switch id="vehicle-active" checked={form.active} onCheckedChange={(checked) => setForm({ ...form, active: checked })} />
+                    <Label htmlFor="vehicle-active">Active</Label>
+                  </div>
+                  <div className="space-y-1 col-span-2 md:col-span-4">
+                    <Label htmlFor="vehicle-notes">Notes</Label>
+                    <Input id="vehicle-notes" value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={submitVehicle} disabled={isSaving || form.workingDays.length === 0}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Vehicle
+                  </Button>
+                  <Button variant="ghost" onClick={() => setForm(null)}>Cancel</Button>
+                </div>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="calendar" className="space-y-4">
+            <ScrollArea className="w-full border rounded">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vehicle</TableHead>
+                    {calendar[0]?.days.map(day => (
+                      <TableHead key={day.date} className="text-center text-xs px-1">
+                        {WEEKDAYS[new Date(`${day.date}T00:00:00`).getDay()]}<br />{day.date.slice(8)}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {calendar.map(({ vehicle, days }) => (
+                    <TableRow key={vehicle.id}>
+                      <TableCell className="font-medium whitespace-nowrap">{vehicle.registration}</TableCell>
+                      {days.map(day => (
+                        <TableCell key={day.date} className="p-1 text-center" title={day.reason ?? 'Available'}>
+                          <div className={`h-6 rounded ${
+                            day.available ? 'bg-green-200'
+                              : day.downtime?.kind === 'maintenance' ? 'bg-amber-200'
+                              : day.downtime ? 'bg-red-200' : 'bg-muted'
+                          }`} />
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+            <div className="flex gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-green-200" /> Available</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-amber-200" /> Maintenance</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-red-200" /> Other downtime</span>
+              <span className="flex items-center gap-1"><span className="h-3 w-3 rounded bg-muted" /> Off duty / inactive</span>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 items-end border rounded-lg p-4">
+              <div className="space-y-1">
+                <Label>Vehicle</Label>
+                <Select value={downtimeForm.vehicleId} onValueChange={(value) => setDowntimeForm(prev => ({ ...prev, vehicleId: value }))}>
+                  <SelectTrigger><SelectValue placeholder="Select vehicle" /></SelectTrigger>
+                  <SelectContent>
+                    {vehicles.map(v => <SelectItem key={v.id} value={v.id}>{v.registration}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Kind</Label>
+                <Select value={downtimeForm.kind} onValueChange={(value) => setDowntimeForm(prev => ({ ...prev, kind: value }))}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {DOWNTIME_KINDS.map(k => <SelectItem key={k.value} value={k.value}>{k.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="downtime-start">Starts</Label>
+                <Input
+                  id="downtime-start"
+                  type="datetime-local"
+                  value={downtimeForm.startsAt}
+                  onChange={(e) => setDowntimeForm(prev => ({ ...prev, startsAt: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="downtime-end">Ends</Label>
+                <Input
+                  id="downtime-end"
+                  type="datetime-local"
+                  value={downtimeForm.endsAt}
+                  onChange={(e) => setDowntimeForm(prev => ({ ...prev, endsAt: e.target.value }))}
+                />
+              </div>
+              <Button onClick={submitDowntime} disabled={isSaving}>
+                <Wrench className="h-4 w-4 mr-2" />
+                Schedule
+              </Button>
+              <div className="space-y-1 col-span-2 md:col-span-5">
+                <Label htmlFor="downtime-notes">Notes</Label>
+                <Input
+                  id="downtime-notes"
+                  value={downtimeForm.notes}
+                  onChange={(e) => setDowntimeForm(prev => ({ ...prev, notes: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Vehicle</TableHead>
+                  <TableHead>Kind</TableHead>
+                  <TableHead>From</TableHead>
+                  <TableHead>Until</TableHead>
+                  <TableHead>Notes</TableHead>
+                  {canManageNetwork && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {downtime.map(d => (
+                  <TableRow key={d.id}>
+                    <TableCell>{registrationOf(d.vehicle_id)}</TableCell>
+                    <TableCell>{downtimeLabel(d.kind)}</TableCell>
+                    <TableCell>{new Date(d.starts_at).toLocaleString()}</TableCell>
+                    <TableCell>{new Date(d.ends_at).toLocaleString()}</TableCell>
+                    <TableCell className="text-muted-foreground">{d.notes}</TableCell>
+                    {canManageNetwork && (
+                      <TableCell>
+                        <Button variant="ghost" size="sm" onClick={() => removeDowntime(d.id)} disabled={isSaving}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    )}
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="coverage" className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Compares the daily volume each depot handles in the capacity plan with what its vehicles available on {startDate} can
+              carry in two runs.
+            </p>
+            <Button onClick={checkCoverage} disabled={isChecking || isLoading}>
+              <Play className="h-4 w-4 mr-2" />
+              {isChecking ? 'Checking...' : 'Check Fleet Coverage'}
+            </Button>
+
+            {coverage && (
+              <>
+                <Alert variant={shortfalls.length > 0 ? 'destructive' : 'default'}>
+                  {shortfalls.length > 0 ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                  <AlertDescription>
+                    {shortfalls.length > 0
+                      ? `${shortfalls.length} depots are short of vehicles: about ${shortfalls.reduce((sum, s) => sum + s.shortfall!.additionalVehicles, 0)} more needed.`
+                      : 'Every depot has enough available vehicles for its planned volume.'}
+                  </AlertDescription>
+                </Alert>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Depot</TableHead>
+                      <TableHead className="text-right">Planned volume</TableHead>
+                      <TableHead className="text-right">Vehicles</TableHead>
+                      <TableHead className="text-right">Fleet capacity</TableHead>
+                      <TableHead>Shortfall</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {coverage.map(c => (
+                      <TableRow key={c.depotId}>
+                        <TableCell>{c.depotName}</TableCell>
+                        <TableCell className="text-right">{Math.round(c.requiredLiters).toLocaleString()} L</TableCell>
+                        <TableCell className="text-right">{c.availableVehicles}</TableCell>
+                        <TableCell className="text-right">{Math.round(c.fleetLiters).toLocaleString()} L</TableCell>
+                        <TableCell>
+                          {c.shortfall
+                            ? <Badge variant="destructive">{Math.round(c.shortfall.uncoveredLiters).toLocaleString()} L · +{c.shortfall.additionalVehicles} vehicles</Badge>
+                            : <Badge variant="outline" className="text-green-700">Covered</Badge>}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -10,12 +10,36 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Switch } from '@/components/ui/switch';
 import { useToast } from '@/hooks/use-toast';
 import { useDairyData } from '@/hooks/useDairyData';
-import { useWeatherData } from '@/hooks/useWeatherData';
-import { dairyProducts, vehicleTypes } from '@/data/dairyProducts';
+import { useNetworkEditor } from '@/hooks/useNetworkEditor';
+import { useAuth } from '@/hooks/useAuth';
+import { useWeatherData, useWeatherForecasts } from '@/hooks/useWeatherData';
+import { useDistanceMatrix } from '@/hooks/useDistanceMatrix';
+import { useFleet } from '@/hooks/useFleet';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import { createDistanceFunction } from '@/lib/geo';
+import type { OptimizationConstraints, OptimizedRoute, NetworkScenario, ScenarioSnapshot } from '@/types/scenarios';
+import type { VehicleType } from '@/types/products';
 import { ProductManagement } from './ProductManagement';
 import { EnhancedSupplyChainMap, EnhancedMapNode } from './EnhancedSupplyChainMap';
 import { NodeManagement } from './NodeManagement';
+import { ScenarioManager } from './ScenarioManager';
 import { useDynamicMetrics } from './DynamicMetricsCalculator';
+import { optimizeNetworkFlow, buildFlowInputFromMapNodes } from '@/lib/networkFlowOptimizer';
+import {
+  solveVrp,
+  collectionStopsFromNodes,
+  depotFromNode,
+  tourPath,
+  coldChainTrip,
+  formatClockTime,
+  type VrpVehicle,
+  type VrpStop
+} from '@/lib/vrpSolver';
+import { simulateColdChain, diurnalAmbientProfile, hoursUntilSpoilageLimit } from '@/lib/coldChain';
+import { forecastToAmbientProfile } from '@/lib/weather';
+import { isNetworkNodeType, NODE_TYPE_TABLES, type NetworkRecord } from '@/lib/networkEdits';
+import { depotFleet, routingShortfall, vehicleAvailability, type FleetShortfall } from '@/lib/fleet';
+import { checkCompatibility } from '@/lib/loadPlanning';
 import { 
   MapPin, 
   Settings, 
@@ -30,31 +54,10 @@ import {
   AlertTriangle,
   Clock,
   Thermometer,
-  Activity
+  Activity,
+  Truck
 } from 'lucide-react';
 
-interface OptimizationConstraints {
-  maxDistanceKm: number;
-  maxDeliveryTimeHours: number;
-  temperatureThresholdC: number;
-  qualityRetentionPercent: number;
-  maxSpoilagePercent: number;
-  prioritizeTemperature: boolean;
-}
-
-interface OptimizedRoute {
-  id: string;
-  path: Array<{ lat: number; lng: number; name: string; type: string }>;
-  totalDistance: number;
-  totalCost: number;
-  totalTime: number;
-  maxSpoilageRisk: number;
-  vehicleType: string;
-  products: string[];
-  efficiency: 'optimal' | 'good' | 'poor';
-  weatherImpact: number;
-}
-
 interface NetworkNode {
   id: string;
   name: string;
@@ -85,32 +88,69 @@ export function InteractiveNetworkMap({
   const [nodes, setNodes] = useState<EnhancedMapNode[]>([]);
   const [selectedNodeId, setSelectedNodeId] = useState<string>('');
   const [optimizedRoute, setOptimizedRoute] = useState<OptimizedRoute | null>(null);
+  const [tourRoutes, setTourRoutes] = useState<OptimizedRoute[]>([]);
+  const [unassignedStops, setUnassignedStops] = useState<VrpStop[]>([]);
+  const [fleetShortfalls, setFleetShortfalls] = useState<FleetShortfall[]>([]);
   const [isOptimizing, setIsOptimizing] = useState(false);
   const [showOptimization, setShowOptimization] = useState(false);
+  const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
   const [constraints, setConstraints] = useState<OptimizationConstraints>({
     maxDistanceKm: 150,
     maxDeliveryTimeHours: 8,
     temperatureThresholdC: 4,
     qualityRetentionPercent: 95,
     maxSpoilagePercent: 5,
-    prioritizeTemperature: true
+    prioritizeTemperature: true,
+    vehiclesPerType: 2
   });
   
   const { nodes: dairyNodes } = useDairyData();
+  const editor = useNetworkEditor();
+  const { canManageNetwork } = useAuth();
   const { weather: weatherData } = useWeatherData();
   const { toast } = useToast();
 
+  // Registered vehicles replace the selected vehicle types once there are any
+  const [routingDate] = useState(() => new Date().toISOString().slice(0, 10));
+  const { vehicles: fleetVehicles, downtime: fleetDowntime } = useFleet(routingDate, 1);
+  const { products, vehicleTypes } = useProductCatalog();
+  const useRegisteredFleet = fleetVehicles.length > 0;
+  const availableFleetCount = fleetVehicles
+    .filter(v => vehicleAvailability(v, fleetDowntime, routingDate).available).length;
+
+  // Road distances between all nodes, cached per node set
+  const matrixPoints = useMemo(() => nodes.map(({ id, lat, lng }) => ({ id, lat, lng })), [nodes]);
+  const { matrix: distanceMatrix } = useDistanceMatrix(matrixPoints);
+
+  // Hourly forecasts at every depot a collection tour can start from
+  const depotPoints = useMemo(() => nodes
+    .filter(n => n.isVisible && (n.type === 'collection_center' || n.type === 'processing_plant'))
+    .map(({ id, lat, lng }) => ({ id, lat, lng })), [nodes]);
+  const { forecasts } = useWeatherForecasts(depotPoints);
+
   // Calculate dynamic metrics
   const dynamicMetrics = useDynamicMetrics({
     selectedProducts,
     selectedVehicles,
     nodes,
     optimalRoute: optimizedRoute,
-    weatherData
+    weatherData,
+    distanceMatrix
   });
 
-  // Initialize nodes from dairy data
+  // Capacity check for the visible farm → center → plant network
+  const flowPlan = useMemo(() => {
+    const input = buildFlowInputFromMapNodes(nodes);
+    if (input.farms.length === 0 || input.centers.length === 0 || input.plants.length === 0) {
+      return null;
+    }
+    return optimizeNetworkFlow(input, { maxCollectionDistanceKm: constraints.maxDistanceKm, distanceMatrix });
+  }, [nodes, constraints.maxDistanceKm, distanceMatrix]);
+
+  // Initialize nodes from dairy data; a loaded scenario keeps its own nodes
   useEffect(() => {
+    if (activeScenarioId) return;
+
     const networkNodes: EnhancedMapNode[] = dairyNodes.map(node => ({
       id: node.id,
       name: node.name,
@@ -119,6 +159,8 @@ export function InteractiveNetworkMap({
       lng: node.lng,
       capacity: node.capacity,
       production: node.production,
+      demand: node.demand,
+      collectionSchedule: node.collectionSchedule,
       district: node.district,
       contact: node.contact,
       phone: node.phone,
@@ -126,10 +168,71 @@ export function InteractiveNetworkMap({
       isVisible: true
     }));
 
-    setNodes(networkNodes);
-  }, [dairyNodes]);
+    // Keep visibility choices and session-only nodes across refetches
+    setNodes(prev => {
+      const visibility = new Map(prev.map(node => [node.id, node.isVisible]));
+      return [
+        ...networkNodes.map(node => ({ ...node, isVisible: visibility.get(node.id) ?? true })),
+        ...prev.filter(node => node.isCustom)
+      ];
+    });
+  }, [dairyNodes, activeScenarioId]);
+
+  const scenarioSnapshot: ScenarioSnapshot = {
+    nodes,
+    routes: tourRoutes,
+    summaryRoute: optimizedRoute,
+    selectedProducts,
+    selectedVehicles,
+    constraints
+  };
+
+  const loadScenario = (scenario: NetworkScenario) => {
+    setActiveScenarioId(scenario.id);
+    setNodes(scenario.nodes);
+    setTourRoutes(scenario.routes);
+    setOptimizedRoute(scenario.summaryRoute);
+    setShowOptimization(scenario.summaryRoute !== null);
+    setUnassignedStops([]);
+    setConstraints(prev => ({ ...prev, ...scenario.constraints }));
+    onProductsChange(scenario.selectedProducts);
+    onVehiclesChange(scenario.selectedVehicles);
+  };
+
+  // Edits go to the database unless a scenario is loaded or the node type has no table
+  const isStoredNode = (node: EnhancedMapNode) =>
+    !activeScenarioId && !node.isCustom && isNetworkNodeType(node.type);
+
+  const handleNodeAdd = async (node: EnhancedMapNode) => {
+    if (!activeScenarioId && canManageNetwork && isNetworkNodeType(node.type)) {
+      await editor.createNode(node.type, node);
+    } else {
+      setNodes(prev => [...prev, { ...node, isCustom: true }]);
+    }
+  };
+
+  const handleNodeUpdate = async (node: EnhancedMapNode) => {
+    if (isStoredNode(node) && isNetworkNodeType(node.type)) {
+      await editor.updateNode(node.type, node.id, node);
+    } else {
+      setNodes(prev => prev.map(n => n.id === node.id ? node : n));
+    }
+  };
+
+  const handleNodeDelete = async (node: EnhancedMapNode) => {
+    if (isStoredNode(node) && isNetworkNodeType(node.type)) {
+      await editor.deleteNode(node.type, node.id);
+    } else {
+      setNodes(prev => prev.filter(n => n.id !== node.id));
+    }
+  };
+
+  const handleNodeRestore = async (node: EnhancedMapNode, fields: Record<string, unknown>) => {
+    if (!isNetworkNodeType(node.type)) return;
+    await editor.updateRecord(NODE_TYPE_TABLES[node.type], node.id, fields as Partial<NetworkRecord>);
+  };
 
-  const handleMapClick = (lat: number, lng: number) => {
+  const handleMapClick = async (lat: number, lng: number) => {
     const newNode: EnhancedMapNode = {
       id: `map_click_${Date.now()}`,
       name: `Location ${lat.toFixed(4)}, ${lng.toFixed(4)}`,
@@ -141,12 +244,19 @@ export function InteractiveNetworkMap({
       isVisible: true
     };
     
-    setNodes(prev => [...prev, newNode]);
-    
-    toast({
-      title: "Node Added",
-      description: `Added location at ${lat.toFixed(4)}, ${lng.toFixed(4)} to the network`,
-    });
+    try {
+      await handleNodeAdd(newNode);
+      toast({
+        title: "Node Added",
+        description: `Added location at ${lat.toFixed(4)}, ${lng.toFixed(4)} to the network`,
+      });
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "The node could not be saved",
+        variant: "destructive"
+      });
+    }
   };
 
   const toggleNodeVisibility = (nodeId: string) => {
@@ -160,34 +270,37 @@ export function InteractiveNetworkMap({
   };
 
   /**
-   * Advanced Route Optimization Algorithm
-   * 
-   * Implementation: Modified Vehicle Routing Problem (VRP) with Time Windows
-   * Algorithm: Greedy Nearest Neighbor with Local Search Optimization
-   * 
+   * Collection Route Optimization
+   *
+   * Implementation: Capacitated Vehicle Routing Problem with Time Windows (see lib/vrpSolver)
+   * Algorithm: Sequential cheapest insertion, improved with 2-opt and or-opt
+   *
    * Key Factors:
-   * 1. Haversine Distance Calculation (Great Circle Distance)
-   * 2. Weather-based Spoilage Risk Assessment
-   * 3. Temperature-Sensitive Product Prioritization
-   * 4. Vehicle Capacity and Temperature Constraints
-   * 5. Operating Hours and Peak Time Consideration
-   * 
+   * 1. Farms are grouped under the collection center the capacity plan sends them to
+   * 2. Each farm is picked up once per peak-hour window (operatingHours.peakHours)
+   * 3. Vehicle capacity and maxTripDuration bound every tour; vehicles run several tours a day.
+   *    With a registered fleet each depot routes its own vehicles available today, within their duty hours,
+   *    and pickups they cannot cover are reported as fleet shortfalls
+   * 4. Spoilage is simulated along each tour against the day's temperature profile
+   *
    * Formulas Used:
-   * - Distance: Haversine Formula (R = 6371 km)
-   * - Spoilage Rate: Arrhenius equation approximation for temperature effects
-   * - Cost Function: Distance × Vehicle Cost + Time × Operational Cost + Spoilage Risk
-   * - Quality Retention: exp(-spoilage_rate × time × temperature_factor)
+   * - Distance: road distance matrix (lib/geo), circuity-scaled Haversine as fallback
+   * - Spoilage: Arrhenius shelf-life kinetics over the product's temperature history (lib/coldChain)
+   * - Cost Function: Distance × Vehicle Cost + Time × Operational Cost
    */
   const runOptimization = () => {
     setIsOptimizing(true);
     
     setTimeout(() => {
       const visibleNodes = nodes.filter(n => n.isVisible);
+      const farms = visibleNodes.filter(n => n.type === 'farm');
+      const depots = visibleNodes.filter(n => n.type === 'collection_center');
+      const fallbackDepots = visibleNodes.filter(n => n.type === 'processing_plant');
       
-      if (visibleNodes.length < 2) {
+      if (farms.length === 0 || depots.length + fallbackDepots.length === 0) {
         toast({
           title: "Insufficient Nodes",
-          description: "Need at least 2 visible nodes for route optimization",
+          description: "Need at least one visible farm and one collection center or plant for route optimization",
           variant: "destructive"
         });
         setIsOptimizing(false);
@@ -195,10 +308,10 @@ export function InteractiveNetworkMap({
       }
 
       // Get product and vehicle data
-      const selectedProductData = dairyProducts.filter(p => selectedProducts.includes(p.id));
-      const selectedVehicleData = vehicleTypes.find(v => selectedVehicles.includes(v.id));
+      const selectedProductData = products.filter(p => selectedProducts.includes(p.id));
+      const selectedVehicleData = vehicleTypes.filter(v => selectedVehicles.includes(v.id));
       
-      if (!selectedVehicleData || selectedProductData.length === 0) {
+      if ((selectedVehicleData.length === 0 && !useRegisteredFleet) || selectedProductData.length === 0) {
         toast({
           title: "Missing Selection",
           description: "Please select at least one product and one vehicle",
@@ -208,170 +321,180 @@ export function InteractiveNetworkMap({
         return;
       }
 
-      // Implement Greedy Nearest Neighbor Algorithm for TSP
-      const unvisited = [...visibleNodes];
-      const visited: NetworkNode[] = [];
-      let currentNode = unvisited[0];
-      unvisited.splice(0, 1);
-      visited.push(currentNode);
-
-      // Build optimal route using greedy approach
-      while (unvisited.length > 0) {
-        let nearestNode = unvisited[0];
-        let minCost = Infinity;
-
-        for (const node of unvisited) {
-          const distance = calculateHaversineDistance(
-            currentNode.lat, 
-            currentNode.lng,
-            node.lat, 
-            node.lng
-          );
-          
-          const travelTime = distance / 45; // Average speed 45 km/h considering road conditions
-          
-          // Calculate spoilage risk based on temperature and time
-          const spoilageRisk = calculateSpoilageRisk(
-            selectedProductData[0], // Use primary product for calculation
-            travelTime,
-            weatherData?.temperature || 25
-          );
-          
-          // Multi-objective cost function
-          const cost = (
-            distance * selectedVehicleData.costPerKm + // Distance cost
-            travelTime * 500 + // Time cost (₹500/hour operational cost)
-            spoilageRisk * 1000 + // Spoilage penalty
-            (constraints.prioritizeTemperature ? spoilageRisk * 2000 : 0) // Temperature priority
-          );
-          
-          if (cost < minCost) {
-            minCost = cost;
-            nearestNode = node;
-          }
-        }
+      const depotNodes = depots.length > 0 ? depots : fallbackDepots;
+      const distanceBetween = createDistanceFunction(distanceMatrix);
+
+      // Group farms under the center carrying most of their milk in the capacity plan,
+      // falling back to the nearest depot
+      const depotForFarm = (farm: EnhancedMapNode) => {
+        const planned = flowPlan?.assignments
+          .filter(a => a.fromId === farm.id && depotNodes.some(d => d.id === a.toId))
+          .sort((a, b) => b.volumeLiters - a.volumeLiters)[0];
+        if (planned) return planned.toId;
+        return depotNodes.reduce((nearest, depot) =>
+          distanceBetween(farm, depot) < distanceBetween(farm, nearest) ? depot : nearest
+        ).id;
+      };
 
-        visited.push(nearestNode);
-        currentNode = nearestNode;
-        unvisited.splice(unvisited.indexOf(nearestNode), 1);
-      }
+      const primaryProduct = selectedProductData[0]; // Use primary product for spoilage calculation
 
-      // Calculate route metrics
-      let totalDistance = 0;
-      let totalTime = 0;
-      let maxSpoilageRisk = 0;
-      
-      const routePath = visited.map(node => ({
-        lat: node.lat,
-        lng: node.lng,
-        name: node.name,
-        type: node.type
-      }));
-
-      // Calculate cumulative metrics
-      for (let i = 0; i < visited.length - 1; i++) {
-        const segmentDistance = calculateHaversineDistance(
-          visited[i].lat,
-          visited[i].lng,
-          visited[i + 1].lat,
-          visited[i + 1].lng
-        );
-        
-        totalDistance += segmentDistance;
-        
-        const segmentTime = segmentDistance / 45; // 45 km/h average including stops
-        totalTime += segmentTime;
-        
-        const segmentSpoilage = calculateSpoilageRisk(
-          selectedProductData[0],
-          segmentTime,
-          weatherData?.temperature || 25
-        );
-        
-        maxSpoilageRisk = Math.max(maxSpoilageRisk, segmentSpoilage);
+      // Only vehicles that can carry the primary product at its temperature are routed
+      const rejectedVehicles = selectedVehicleData
+        .map(vehicleType => ({ vehicleType, compatibility: checkCompatibility(primaryProduct, vehicleType) }))
+        .filter(({ compatibility }) => !compatibility.compatible);
+      const compatibleVehicleData = selectedVehicleData
+        .filter(vehicleType => !rejectedVehicles.some(r => r.vehicleType.id === vehicleType.id));
+      if (!useRegisteredFleet && rejectedVehicles.length > 0) {
+        toast({
+          title: compatibleVehicleData.length > 0 ? "Vehicles Skipped" : "No Compatible Vehicles",
+          description: rejectedVehicles.map(r => r.compatibility.reasons.join('; ')).join(' · '),
+          variant: compatibleVehicleData.length > 0 ? "default" : "destructive"
+        });
+        if (compatibleVehicleData.length === 0) {
+          setIsOptimizing(false);
+          return;
+        }
       }
-
-      const totalCost = totalDistance * selectedVehicleData.costPerKm + totalTime * 500;
-      
-      // Weather impact calculation (temperature deviation from optimal)
-      const optimalTemp = selectedProductData[0]?.temperatureRange.optimal || 4;
       const currentTemp = weatherData?.temperature || 25;
+      const optimalTemp = primaryProduct.temperatureRange.optimal || 4;
       const weatherImpact = Math.abs(currentTemp - optimalTemp) / optimalTemp * 100;
+      const now = new Date();
+      const nowHour = now.getHours() + now.getMinutes() / 60;
+      // Tour clock times refer to the next occurrence of that time of day
+      const nextOccurrence = (hour: number) => (hour < nowHour ? hour + 24 : hour);
+
+      const tours: OptimizedRoute[] = [];
+      const unassigned: VrpStop[] = [];
+      const shortfalls: FleetShortfall[] = [];
+      const registrations = new Map(fleetVehicles.map(v => [v.id, v.registration]));
+      const vehicleLabel = (tour: { vehicleId: string; vehicleType: VehicleType }) =>
+        registrations.get(tour.vehicleId) ?? `${tour.vehicleType.name} #${tour.vehicleId.split('-').pop()}`;
+
+      depotNodes.forEach(depotNode => {
+        const depotFarms = farms.filter(farm => depotForFarm(farm) === depotNode.id);
+        if (depotFarms.length === 0) return;
+
+        // Local forecast when available, otherwise today's curve through the current reading
+        const forecast = forecasts[depotNode.id];
+        const ambient = forecast ? forecastToAmbientProfile(forecast, now) : diurnalAmbientProfile(currentTemp, nowHour);
+
+        // Cap tour length by the delivery-time constraint and, when prioritizing
+        // temperature, by the time until spoilage reaches the allowed limit
+        // on a trip starting in the morning collection window
+        const withTripLimit = (vehicleType: VehicleType): VehicleType => {
+          const spoilageLimitHours = constraints.prioritizeTemperature
+            ? hoursUntilSpoilageLimit(primaryProduct, vehicleType, ambient, constraints.maxSpoilagePercent, nextOccurrence(6))
+            : Infinity;
+          return {
+            ...vehicleType,
+            maxTripDuration: Math.min(vehicleType.maxTripDuration, constraints.maxDeliveryTimeHours, spoilageLimitHours)
+          };
+        };
+
+        const fleet: VrpVehicle[] = useRegisteredFleet
+          ? depotFleet(fleetVehicles, fleetDowntime, depotNode.id, routingDate, vehicleTypes)
+            .filter(vehicle => checkCompatibility(primaryProduct, vehicle.vehicleType).compatible)
+            .map(vehicle => ({ ...vehicle, vehicleType: withTripLimit(vehicle.vehicleType) }))
+          : compatibleVehicleData.flatMap(vehicleType => Array.from({ length: constraints.vehiclesPerType }, (_, i) => ({
+            id: `${vehicleType.id}-${i + 1}`,
+            vehicleType: withTripLimit(vehicleType)
+          })));
+
+        const solution = solveVrp({
+          depot: depotFromNode(depotNode),
+          stops: collectionStopsFromNodes(depotFarms),
+          vehicles: fleet,
+          distanceMatrix
+        });
+        unassigned.push(...solution.unassigned);
+        if (useRegisteredFleet) {
+          const shortfall = routingShortfall(depotNode.id, depotNode.name, fleet, solution.unassigned, vehicleTypes);
+          if (shortfall) shortfalls.push(shortfall);
+        }
 
-      // Determine efficiency rating
-      let efficiency: 'optimal' | 'good' | 'poor' = 'optimal';
-      if (totalDistance > constraints.maxDistanceKm * 0.8 || maxSpoilageRisk > 3) {
-        efficiency = 'good';
-      }
-      if (totalDistance > constraints.maxDistanceKm || maxSpoilageRisk > constraints.maxSpoilagePercent) {
-        efficiency = 'poor';
-      }
+        solution.tours.forEach(tour => {
+          const trip = coldChainTrip(solution.depot, tour);
+          const coldChain = simulateColdChain({
+            product: primaryProduct,
+            vehicle: tour.vehicleType,
+            ambient,
+            ...trip,
+            startHour: nextOccurrence(trip.startHour)
+          });
+          const maxSpoilageRisk = coldChain.spoilagePercent;
+
+          // Determine efficiency rating
+          let efficiency: 'optimal' | 'good' | 'poor' = 'optimal';
+          if (tour.distanceKm > constraints.maxDistanceKm * 0.8 || maxSpoilageRisk > 3) {
+            efficiency = 'good';
+          }
+          if (tour.distanceKm > constraints.maxDistanceKm ||
+              tour.durationHours > constraints.maxDeliveryTimeHours ||
+              maxSpoilageRisk > constraints.maxSpoilagePercent) {
+            efficiency = 'poor';
+          }
 
-      const optimizedRoute: OptimizedRoute = {
+          tours.push({
+            id: tour.id,
+            path: tourPath(solution.depot, tour),
+            totalDistance: Math.round(tour.distanceKm * 10) / 10,
+            totalCost: Math.round(tour.cost + tour.durationHours * 500), // ₹500/hour operational cost
+            totalTime: Math.round(tour.durationHours * 10) / 10,
+            maxSpoilageRisk: Math.round(maxSpoilageRisk * 10) / 10,
+            vehicleType: `${vehicleLabel(tour)} (tour ${tour.tourNumber})`,
+            products: selectedProducts,
+            efficiency,
+            weatherImpact: Math.round(weatherImpact * 10) / 10,
+            depotName: depotNode.name,
+            departureTime: formatClockTime(tour.departure),
+            returnTime: formatClockTime(tour.returnTime),
+            loadLiters: Math.round(tour.loadLiters),
+            remainingShelfLifeHours: Math.round(coldChain.remainingShelfLifeHours)
+          });
+        });
+      });
+
+      const rating = { optimal: 0, good: 1, poor: 2 };
+      const worst = tours.reduce<'optimal' | 'good' | 'poor'>(
+        (current, tour) => (rating[tour.efficiency] > rating[current] ? tour.efficiency : current),
+        unassigned.length > 0 ? 'poor' : 'optimal'
+      );
+
+      // Network-wide summary used by the metrics panel and map overlay
+      const summary: OptimizedRoute = {
         id: `route_${Date.now()}`,
-        path: routePath,
-        totalDistance: Math.round(totalDistance * 10) / 10,
-        totalCost: Math.round(totalCost),
-        totalTime: Math.round(totalTime * 10) / 10,
-        maxSpoilageRisk: Math.round(maxSpoilageRisk * 10) / 10,
-        vehicleType: selectedVehicleData.name,
+        path: tours.flatMap(tour => tour.path),
+        totalDistance: Math.round(tours.reduce((sum, t) => sum + t.totalDistance, 0) * 10) / 10,
+        totalCost: tours.reduce((sum, t) => sum + t.totalCost, 0),
+        totalTime: Math.round(tours.reduce((sum, t) => sum + t.totalTime, 0) * 10) / 10,
+        maxSpoilageRisk: tours.reduce((max, t) => Math.max(max, t.maxSpoilageRisk), 0),
+        vehicleType: `${new Set(tours.map(t => t.vehicleType.split(' (tour')[0])).size} vehicles, ${tours.length} tours`,
         products: selectedProducts,
-        efficiency,
+        efficiency: worst,
         weatherImpact: Math.round(weatherImpact * 10) / 10
       };
       
-      setOptimizedRoute(optimizedRoute);
+      setTourRoutes(tours);
+      setUnassignedStops(unassigned);
+      setFleetShortfalls(shortfalls);
+      setOptimizedRoute(summary);
       setShowOptimization(true);
       setIsOptimizing(false);
       
       toast({
         title: "Route Optimization Complete",
-        description: `Optimized route with ${routePath.length} nodes, ${optimizedRoute.totalDistance}km total distance`,
+        description: `${tours.length} collection tours covering ${farms.length} farms, ${summary.totalDistance}km total distance` +
+          (unassigned.length > 0 ? ` — ${unassigned.length} pickups could not be scheduled` : '') +
+          (shortfalls.length > 0 ? `; ${shortfalls.length} depots are short of vehicles` : ''),
+        variant: unassigned.length > 0 ? "destructive" : "default"
       });
-    }, 2000); // Simulate processing time
-  };
-
-  /**
-   * Haversine Distance Calculation
-   * Formula: d = 2r × arcsin(√(sin²(Δφ/2) + cos φ1 × cos φ2 × sin²(Δλ/2)))
-   * Where φ = latitude, λ = longitude, R = earth radius (6371 km)
-   */
-  const calculateHaversineDistance = (lat1: number, lng1: number, lat2: number, lng2: number): number => {
-    const R = 6371; // Earth's radius in kilometers
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLng = (lng2 - lng1) * Math.PI / 180;
-    
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLng/2) * Math.sin(dLng/2);
-    
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  };
-
-  /**
-   * Spoilage Risk Calculation
-   * Based on Arrhenius equation for bacterial growth rates
-   * Formula: Risk = base_rate × exp((T - T_opt) / 10) × time_factor
-   * Where T = current temperature, T_opt = optimal temperature
-   */
-  const calculateSpoilageRisk = (product: any, timeHours: number, temperature: number): number => {
-    if (!product) return 0;
-    
-    const tempDifference = Math.max(0, temperature - product.temperatureRange.max);
-    const tempFactor = Math.exp(tempDifference / 10); // Exponential increase with temperature
-    
-    // Use ambient spoilage rate if temperature exceeds threshold
-    const spoilageRate = tempDifference > 0 
-      ? product.spoilageRate.perHourAtAmbient 
-      : product.spoilageRate.perHourRefrigerated;
-    
-    return Math.min(spoilageRate * timeHours * tempFactor, 100);
+    }, 500);
   };
 
   const resetOptimization = () => {
     setOptimizedRoute(null);
+    setTourRoutes([]);
+    setUnassignedStops([]);
     setShowOptimization(false);
     toast({
       title: "Route Reset",
@@ -519,6 +642,28 @@ export function InteractiveNetworkMap({
             </div>
           </div>
 
+          {useRegisteredFleet ? (
+            <div className="mt-4 flex items-center gap-2 text-sm">
+              <Truck className="h-4 w-4 text-muted-foreground" />
+              Routing the registered fleet: {availableFleetCount} of {fleetVehicles.length} vehicles available today
+            </div>
+          ) : (
+            <div className="mt-4 md:w-1/3">
+              <Label>Vehicles per Selected Type</Label>
+              <div className="flex items-center space-x-2 mt-1">
+                <Slider
+                  value={[constraints.vehiclesPerType]}
+                  onValueChange={([value]) => setConstraints(prev => ({ ...prev, vehiclesPerType: value }))}
+                  max={10}
+                  min={1}
+                  step={1}
+                  className="flex-1"
+                />
+                <span className="w-16 text-sm font-medium">{constraints.vehiclesPerType}</span>
+              </div>
+            </div>
+          )}
+
           <div className="flex items-center space-x-2 mt-4">
             <Switch
               id="prioritize-temp"
@@ -528,6 +673,17 @@ export function InteractiveNetworkMap({
             <Label htmlFor="prioritize-temp">Prioritize Temperature-Sensitive Routes</Label>
           </div>
 
+          {flowPlan && !flowPlan.feasibility.feasible && (
+            <Alert variant="destructive" className="mt-4">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {flowPlan.feasibility.unservedLiters.toLocaleString()} of {flowPlan.feasibility.totalSupplyLiters.toLocaleString()} L/day
+                cannot be routed within center and plant capacities.
+                {flowPlan.feasibility.messages.length > 0 && ` ${flowPlan.feasibility.messages.join('. ')}.`}
+              </AlertDescription>
+            </Alert>
+          )}
+
           {optimizedRoute && (
             <div className="mt-4 p-4 bg-green-50 border border-green-200 rounded-lg">
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -573,14 +729,65 @@ export function InteractiveNetworkMap({
               </div>
             </div>
           )}
+
+          {fleetShortfalls.length > 0 && (
+            <Alert variant="destructive" className="mt-4">
+              <Truck className="h-4 w-4" />
+              <AlertDescription>
+                Fleet shortfall:
+                {fleetShortfalls.map(shortfall => (
+                  <span key={shortfall.depotId} className="block text-xs mt-1">
+                    {shortfall.depotName}: {shortfall.availableVehicles} vehicles available,
+                    {' '}{Math.round(shortfall.uncoveredLiters).toLocaleString()} L uncovered
+                    ({shortfall.uncoveredStops.length} pickups) — about {shortfall.additionalVehicles} more needed
+                  </span>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {unassignedStops.length > 0 && fleetShortfalls.length === 0 && (
+            <Alert variant="destructive" className="mt-4">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {unassignedStops.length} pickups could not be scheduled within vehicle capacity, trip duration and
+                collection windows: {unassignedStops.map(stop => stop.name).join(', ')}. Add vehicles or relax constraints.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {tourRoutes.length > 0 && (
+            <ScrollArea className="mt-4 h-64 border rounded-lg">
+              <div className="p-3 space-y-2">
+                {tourRoutes.map(tour => (
+                  <div key={tour.id} className="flex items-center justify-between p-2 bg-muted rounded text-sm">
+                    <div>
+                      <div className="font-medium">{tour.vehicleType}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {tour.depotName} · {tour.departureTime}–{tour.returnTime} · {tour.path.length - 2} stops
+                      </div>
+                    </div>
+                    <div className="text-right text-xs">
+                      <div>{tour.totalDistance} km · {tour.loadLiters?.toLocaleString()} L</div>
+                      <div className="text-muted-foreground">
+                        ₹{tour.totalCost} · {tour.maxSpoilageRisk}% risk
+                        {tour.remainingShelfLifeHours !== undefined && ` · ${tour.remainingShelfLifeHours}h shelf life left`}
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
         </CardContent>
       </Card>
 
       <Tabs defaultValue="map" className="w-full">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="map">Network Map</TabsTrigger>
           <TabsTrigger value="nodes">Node Management</TabsTrigger>
           <TabsTrigger value="products">Product & Vehicle Management</TabsTrigger>
+          <TabsTrigger value="scenarios">Scenarios</TabsTrigger>
         </TabsList>
 
         <TabsContent value="map" className="space-y-4">
@@ -605,6 +812,7 @@ export function InteractiveNetworkMap({
                 zoom={8}
                 height="500px"
                 optimalRoute={optimizedRoute}
+                optimalRoutes={tourRoutes}
                 selectedNodeId={selectedNodeId}
                 onNodeSelect={handleNodeSelect}
               />
@@ -615,8 +823,20 @@ export function InteractiveNetworkMap({
         <TabsContent value="nodes">
           <NodeManagement
             nodes={nodes}
-            onNodesChange={setNodes}
+            onNodeAdd={handleNodeAdd}
+            onNodeUpdate={handleNodeUpdate}
+            onNodeDelete={handleNodeDelete}
             onNodeVisibilityToggle={toggleNodeVisibility}
+            onNodeRestore={activeScenarioId ? undefined : handleNodeRestore}
+            history={activeScenarioId ? undefined : {
+              canUndo: editor.canUndo,
+              canRedo: editor.canRedo,
+              undoLabel: editor.undoLabel,
+              redoLabel: editor.redoLabel,
+              isSaving: editor.isSaving,
+              onUndo: editor.undo,
+              onRedo: editor.redo
+            }}
           />
         </TabsContent>
 
@@ -628,6 +848,15 @@ export function InteractiveNetworkMap({
             onVehiclesChange={onVehiclesChange}
           />
         </TabsContent>
+
+        <TabsContent value="scenarios">
+          <ScenarioManager
+            current={scenarioSnapshot}
+            activeScenarioId={activeScenarioId}
+            onLoad={loadScenario}
+            onActiveScenarioChange={setActiveScenarioId}
+          />
+        </TabsContent>
       </Tabs>
 
       {weatherData && (
@@ -0,0 +1,508 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useDairyData } from '@/hooks/useDairyData';
+import { useInventory } from '@/hooks/useInventory';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import {
+  inventoryNodes,
+  movementKindLabel,
+  movementNodeId,
+  nodeInventory,
+  validateInventoryEntry,
+  INVENTORY_ENTRY_TYPES,
+  type InventoryEntry,
+  type InventoryNodeType,
+  type StockPoint
+} from '@/lib/inventory';
+import { Boxes, Save, Trash2, AlertTriangle, CheckCircle } from 'lucide-react';
+
+const PERIODS = [1, 3, 7, 14];
+
+interface EntryForm {
+  type: InventoryEntry['type'];
+  centerId: string;
+  plantId: string;
+  productId: string; // '' = raw milk for counts and losses
+  nodeKey: string; // `${nodeType}:${id}` for counts and losses
+  quantity: string;
+  secondQuantity: string; // received liters, or milk used by a production run
+  destination: string; // `${type}:${id}` for goods dispatches
+  occurredAt: string; // datetime-local
+  notes: string;
+}
+
+// Local time as a datetime-local input value
+const localDateTime = (date: Date = new Date()) =>
+  new Date(date.getTime() - date.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 16);
+
+const emptyForm = (type: InventoryEntry['type'] = 'milk_transfer'): EntryForm => ({
+  type,
+  centerId: '',
+  plantId: '',
+  productId: '',
+  nodeKey: '',
+  quantity: '',
+  secondQuantity: '',
+  destination: '',
+  occurredAt: localDateTime(),
+  notes: ''
+});
+
+function toEntry(form: EntryForm): InventoryEntry {
+  const quantity = Number(form.quantity);
+  const secondQuantity = form.secondQuantity.trim() === '' ? quantity : Number(form.secondQuantity);
+  const common = { occurredAt: form.occurredAt, notes: form.notes.trim() || undefined };
+  switch (form.type) {
+    case 'milk_transfer':
+      return { ...common, type: 'milk_transfer', centerId: form.centerId, plantId: form.plantId, dispatchedLiters: quantity, receivedLiters: secondQuantity };
+    case 'production':
+      return { ...common, type: 'production', plantId: form.plantId, productId: form.productId, units: quantity, milkLiters: Number(form.secondQuantity) };
+    case 'goods_dispatch': {
+      const [destinationType, destinationId = ''] = form.destination.split(':');
+      return {
+        ...common, type: 'goods_dispatch', plantId: form.plantId, productId: form.productId, units: quantity,
+        destinationType: destinationType === 'retail' ? 'retail' : 'distributor', destinationId
+      };
+    }
+    case 'count':
+    case 'loss': {
+      const [nodeType, nodeId = ''] = form.nodeKey.split(':');
+      return {
+        ...common, type: form.type, nodeType: nodeType as InventoryNodeType, nodeId,
+        productId: form.productId || null, quantity
+      };
+    }
+  }
+}
+
+const formatQuantity = (value: number, unit = '') => `${Math.round(value).toLocaleString()}${unit ? ` ${unit}` : ''}`;
+const formatTime = (value: string | number) =>
+  new Date(value).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+interface StockChartProps {
+  opening: number;
+  points: StockPoint[];
+  from: string;
+  to: string;
+  capacity: number;
+  unit: string;
+}
+
+function StockChart({ opening, points, from, to, capacity, unit }: StockChartProps) {
+  // Step line from the opening level to now
+  const data = [
+    { time: Date.parse(from), level: opening },
+    ...points.map(point => ({ time: Date.parse(point.at), level: point.level }))
+  ];
+  data.push({ time: Date.parse(to), level: data[data.length - 1].level });
+
+  return (
+    <ResponsiveContainer width="100%" height={220}>
+      <LineChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} />
+        <YAxis />
+        <Tooltip labelFormatter={formatTime} formatter={(value: number) => formatQuantity(value, unit)} />
+        {capacity > 0 && <ReferenceLine y={capacity} stroke="#DC2626" strokeDasharray="5 5" label="Capacity" />}
+        <ReferenceLine y={0} stroke="#9CA3AF" />
+        <Line type="stepAfter" dataKey="level" stroke="#2563EB" name="Level" dot={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+}
+
+export function InventoryTracker() {
+  const { toast } = useToast();
+  const { canManageNetwork } = useAuth();
+  const { centers, plants, distributors, outlets } = useDairyData();
+  const { products } = useProductCatalog();
+
+  const [days, setDays] = useState(3);
+  // Whole minutes so the period stays the same between renders
+  const { from, to } = useMemo(() => {
+    const now = Math.floor(Date.now() / 60000) * 60000;
+    return {
+      from: new Date(now - days * 24 * 60 * 60 * 1000).toISOString(),
+      to: new Date(now).toISOString()
+    };
+  }, [days]);
+  const { openingLevels, movements, isLoading, recordEntry, deleteTransaction, isSaving } = useInventory(from, to);
+
+  const [selectedNodeId, setSelectedNodeId] = useState('');
+  const [form, setForm] = useState<EntryForm>(emptyForm());
+
+  const nodes = useMemo(() => inventoryNodes(centers, plants), [centers, plants]);
+  const inventories = useMemo(
+    () => nodes.map(node => nodeInventory(node, openingLevels, movements)),
+    [nodes, openingLevels, movements]
+  );
+  const warnings = inventories.flatMap(inventory => inventory.warnings);
+  const selected = inventories.find(inventory => inventory.node.id === selectedNodeId) ?? inventories[0];
+
+  const productName = (id: string | null) => id ? products.find(p => p.id === id)?.name ?? id : 'Raw milk';
+  const nodeName = (id: string) => nodes.find(node => node.id === id)?.name ?? 'Unknown';
+  const destinationName = (type: string | null, id: string | null) => {
+    if (!type || !id) return '';
+    const list = type === 'processing_plant' ? plants : type === 'distributor' ? distributors : outlets;
+    return list.find(node => node.id === id)?.name ?? 'Unknown';
+  };
+
+  const reportError = (fallback: string) => (error: unknown) => toast({
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback,
+    variant: "destructive"
+  });
+
+  const submitEntry = async () => {
+    const entry = toEntry(form);
+    const errors = validateInventoryEntry(entry);
+    if (errors.length > 0) {
+      toast({ title: "Error", description: errors.join('. '), variant: "destructive" });
+      return;
+    }
+    try {
+      await recordEntry(entry);
+      toast({ title: "Movement recorded", description: INVENTORY_ENTRY_TYPES.find(t => t.value === entry.type)?.label });
+      setForm(emptyForm(form.type));
+    } catch (error) {
+      reportError("Could not record the movement")(error);
+    }
+  };
+
+  const removeTransaction = async (transactionId: string) => {
+    try {
+      await deleteTransaction(transactionId);
+      toast({ title: "Movement deleted" });
+    } catch (error) {
+      reportError("Could not delete the movement")(error);
+    }
+  };
+
+  const quantityLabels: Record<InventoryEntry['type'], [string, string?]> = {
+    milk_transfer: ['Dispatched (L)', 'Received at plant (L, blank = all)'],
+    production: ['Quantity produced', 'Milk used (L)'],
+    goods_dispatch: ['Quantity'],
+    count: ['Counted quantity'],
+    loss: ['Quantity lost']
+  };
+  const [quantityLabel, secondLabel] = quantityLabels[form.type];
+  const recent = [...movements].reverse();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Boxes className="h-5 w-5" />
+          Inventory
+        </CardTitle>
+        <CardDescription>
+          Milk in collection center tanks and plant silos and finished goods in plant cold stores, from collections, dispatches and production.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-4">
+          <div className="space-y-1">
+            <Label>Period</Label>
+            <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+              <SelectTrigger className="w-40"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {PERIODS.map(p => <SelectItem key={p} value={String(p)}>Last {p === 1 ? '24 hours' : `${p} days`}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          {isLoading && <span className="text-sm text-muted-foreground">Loading...</span>}
+        </div>
+
+        {warnings.length > 0 ? (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="list-disc pl-4">
+                {warnings.slice(0, 8).map((warning, i) => (
+                  <li key={i}>{warning.nodeName}, {formatTime(warning.at)}: {warning.message}</li>
+                ))}
+              </ul>
+              {warnings.length > 8 && <p>and {warnings.length - 8} more</p>}
+            </AlertDescription>
+          </Alert>
+        ) : !isLoading && (
+          <Alert>
+            <CheckCircle className="h-4 w-4" />
+            <AlertDescription>No overflow or stock-out in this period.</AlertDescription>
+          </Alert>
+        )}
+
+        <Tabs defaultValue="levels" className="w-full">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="levels">Levels</TabsTrigger>
+            <TabsTrigger value="timeline">Timeline</TabsTrigger>
+            <TabsTrigger value="movements">Movements</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="levels">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Location</TableHead>
+                  <TableHead className="w-64">Milk</TableHead>
+                  <TableHead className="w-64">Finished goods</TableHead>
+                  <TableHead className="text-right">Warnings</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {inventories.map(({ node, milk, finished, finishedTotal, warnings: nodeWarnings }) => {
+                  const finishedLevel = finishedTotal.length > 0
+                    ? finishedTotal[finishedTotal.length - 1].level
+                    : finished.reduce((sum, series) => sum + series.opening, 0);
+                  return (
+                    <TableRow key={node.id} className="cursor-pointer" onClick={() => setSelectedNodeId(node.id)}>
+                      <TableCell>
+                        <div className="font-medium">{node.name}</div>
+                        <div className="text-xs text-muted-foreground">{node.type === 'collection_center' ? 'Collection center' : 'Processing plant'}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div className="text-sm">
+                          {formatQuantity(milk.closing, 'L')}{node.milkCapacity > 0 && ` / ${formatQuantity(node.milkCapacity, 'L')}`}
+                        </div>
+                        {node.milkCapacity > 0 && <Progress value={Math.min(100, Math.max(0, milk.closing / node.milkCapacity * 100))} />}
+                      </TableCell>
+                      <TableCell>
+                        {node.type === 'processing_plant' ? (
+                          <>
+                            <div className="text-sm">
+                              {formatQuantity(finishedLevel)}{node.finishedCapacity > 0 && ` / ${formatQuantity(node.finishedCapacity)}`}
+                            </div>
+                            {node.finishedCapacity > 0 && <Progress value={Math.min(100, Math.max(0, finishedLevel / node.finishedCapacity * 100))} />}
+                          </>
+                        ) : <span className="text-muted-foreground">—</span>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {nodeWarnings.length > 0
+                          ? <Badge variant="destructive">{nodeWarnings.length}</Badge>
+                          : <Badge variant="outline">OK</Badge>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TabsContent>
+
+          <TabsContent value="timeline" className="space-y-4">
+            <div className="space-y-1">
+              <Label>Location</Label>
+              <Select value={selected?.node.id ?? ''} onValueChange={setSelectedNodeId}>
+                <SelectTrigger className="w-80"><SelectValue placeholder="Choose a location" /></SelectTrigger>
+                <SelectContent>
+                  {nodes.map(node => <SelectItem key={node.id} value={node.id}>{node.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {selected && (
+              <>
+                <div>
+                  <h4 className="text-sm font-medium mb-2">
+                    Milk {selected.node.type === 'collection_center' ? 'tank' : 'silo'}: {formatQuantity(selected.milk.opening, 'L')} → {formatQuantity(selected.milk.closing, 'L')}
+                  </h4>
+                  <StockChart opening={selected.milk.opening} points={selected.milk.points} from={from} to={to} capacity={selected.node.milkCapacity} unit="L" />
+                </div>
+
+                {selected.node.type === 'processing_plant' && (
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium">Cold store (all products)</h4>
+                    <StockChart
+                      opening={selected.finished.reduce((sum, series) => sum + series.opening, 0)}
+                      points={selected.finishedTotal} from={from} to={to} capacity={selected.node.finishedCapacity} unit="" />
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Product</TableHead>
+                          <TableHead className="text-right">Opening</TableHead>
+                          <TableHead className="text-right">Now</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {selected.finished.map(series => (
+                          <TableRow key={series.productId}>
+                            <TableCell>{productName(series.productId)}</TableCell>
+                            <TableCell className="text-right">{formatQuantity(series.opening)}</TableCell>
+                            <TableCell className={`text-right ${series.closing <= 0 ? 'text-red-600' : ''}`}>{formatQuantity(series.closing)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {selected.finished.length === 0 && <p className="text-sm text-muted-foreground">No finished goods recorded.</p>}
+                  </div>
+                )}
+
+                {selected.warnings.map((warning, i) => (
+                  <p key={i} className="text-sm text-red-600">{formatTime(warning.at)}: {warning.message}</p>
+                ))}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="movements" className="space-y-4">
+            <div className="border rounded-lg p-4 space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-1">
+                  <Label>Movement</Label>
+                  <Select value={form.type} onValueChange={(value) => setForm(emptyForm(value as InventoryEntry['type']))}>
+                    <SelectTrigger><SelectValue /></SelectTrigger>
+                    <SelectContent>
+                      {INVENTORY_ENTRY_TYPES.map(t => <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {form.type === 'milk_transfer' && (
+                  <div className="space-y-1">
+                    <Label>From collection center</Label>
+                    <Select value={form.centerId} onValueChange={(value) => setForm({ ...form, centerId: value })}>
+                      <SelectTrigger><SelectValue placeholder="Choose a center" /></SelectTrigger>
+                      <SelectContent>
+                        {centers.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {form.type !== 'count' && form.type !== 'loss' && (
+                  <div className="space-y-1">
+                    <Label>{form.type === 'milk_transfer' ? 'To plant' : 'Plant'}</Label>
+                    <Select value={form.plantId} onValueChange={(value) => setForm({ ...form, plantId: value })}>
+                      <SelectTrigger><SelectValue placeholder="Choose a plant" /></SelectTrigger>
+                      <SelectContent>
+                        {plants.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {(form.type === 'count' || form.type === 'loss') && (
+                  <div className="space-y-1">
+                    <Label>Location</Label>
+                    <Select
+                      value={form.nodeKey}
+                      onValueChange={(value) => setForm({ ...form, nodeKey: value, productId: value.startsWith('collection_center') ? '' : form.productId })}
+                    >
+                      <SelectTrigger><SelectValue placeholder="Choose a location" /></SelectTrigger>
+                      <SelectContent>
+                        {nodes.map(node => <SelectItem key={node.id} value={`${node.type}:${node.id}`}>{node.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {(form.type === 'production' || form.type === 'goods_dispatch' ||
+                  ((form.type === 'count' || form.type === 'loss') && form.nodeKey.startsWith('processing_plant'))) && (
+                  <div className="space-y-1">
+                    <Label>Product</Label>
+                    <Select value={form.productId || 'raw-milk'} onValueChange={(value) => setForm({ ...form, productId: value === 'raw-milk' ? '' : value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {(form.type === 'count' || form.type === 'loss') && <SelectItem value="raw-milk">Raw milk (silo)</SelectItem>}
+                        {products.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {form.type === 'goods_dispatch' && (
+                  <div className="space-y-1">
+                    <Label>To</Label>
+                    <Select value={form.destination} onValueChange={(value) => setForm({ ...form, destination: value })}>
+                      <SelectTrigger><SelectValue placeholder="Distributor or outlet" /></SelectTrigger>
+                      <SelectContent>
+                        {distributors.map(d => <SelectItem key={d.id} value={`distributor:${d.id}`}>{d.name} (distributor)</SelectItem>)}
+                        {outlets.map(o => <SelectItem key={o.id} value={`retail:${o.id}`}>{o.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                <div className="space-y-1">
+                  <Label htmlFor="inventory-quantity">{quantityLabel}</Label>
+                  <Input id="inventory-quantity" type="number" min={0} value={form.quantity} onChange={(e) => setForm({ ...form, quantity: e.target.value })} />
+                </div>
+                {secondLabel && (
+                  <div className="space-y-1">
+                    <Label htmlFor="inventory-second-quantity">{secondLabel}</Label>
+                    <Input id="inventory-second-quantity" type="number" min={0} value={form.secondQuantity} onChange={(e) => setForm({ ...form, secondQuantity: e.target.value })} />
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <Label htmlFor="inventory-time">When</Label>
+                  <Input id="inventory-time" type="datetime-local" value={form.occurredAt} onChange={(e) => setForm({ ...form, occurredAt: e.target.value })} />
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="inventory-notes">Notes</Label>
+                <Textarea id="inventory-notes" rows={2} value={form.notes} onChange={(e) => setForm({ ...form, notes: e.target.value })} />
+              </div>
+              <Button onClick={submitEntry} disabled={isSaving}>
+                <Save className="h-4 w-4 mr-2" />
+                Record
+              </Button>
+            </div>
+
+            <ScrollArea className="h-96">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>When</TableHead>
+                    <TableHead>Location</TableHead>
+                    <TableHead>Movement</TableHead>
+                    <TableHead>Stock</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recent.map(movement => (
+                    <TableRow key={movement.id}>
+                      <TableCell>{formatTime(movement.occurred_at)}</TableCell>
+                      <TableCell>{nodeName(movementNodeId(movement))}</TableCell>
+                      <TableCell>
+                        {movementKindLabel(movement.kind)}
+                        {movement.destination_id && (
+                          <span className="text-muted-foreground"> → {destinationName(movement.destination_type, movement.destination_id)}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{productName(movement.product_id)}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(Number(movement.quantity), movement.product_id ? '' : 'L')}</TableCell>
+                      <TableCell className="text-right">
+                        {/* Collections are edited in the collection log */}
+                        {canManageNetwork && movement.kind !== 'collection' && (
+                          <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => removeTransaction(movement.transaction_id)}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {recent.length === 0 && <p className="text-sm text-muted-foreground p-2">No movements in this period.</p>}
+            </ScrollArea>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
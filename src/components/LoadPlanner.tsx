@@ -0,0 +1,293 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import {
+  checkCompatibility,
+  formatRange,
+  planLoads,
+  sharingConflict,
+  temperatureClassOf,
+  TEMPERATURE_CLASSES,
+  type LoadPlan
+} from '@/lib/loadPlanning';
+import { Boxes, Plus, Trash2, Play, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
+
+interface LoadPlannerProps {
+  selectedProducts: string[];
+  selectedVehicles: string[];
+}
+
+const DEFAULT_LINE_LITERS = '1000';
+
+const classLabel = (range: { min: number; max: number }) =>
+  TEMPERATURE_CLASSES.find(c => c.value === temperatureClassOf(range))?.label;
+
+export function LoadPlanner({ selectedProducts, selectedVehicles }: LoadPlannerProps) {
+  const { products, vehicleTypes } = useProductCatalog();
+  const [lines, setLines] = useState(() =>
+    selectedProducts.map(productId => ({ productId, liters: DEFAULT_LINE_LITERS }))
+  );
+  // Vehicles offered per type: '' for no limit; types not in the map are not offered
+  const [fleet, setFleet] = useState<Record<string, string>>(() =>
+    Object.fromEntries(selectedVehicles.map(id => [id, '']))
+  );
+  const [plan, setPlan] = useState<LoadPlan | null>(null);
+
+  const productName = (id: string) => products.find(p => p.id === id)?.name ?? id;
+  const orderedProducts = useMemo(
+    () => products.filter(p => lines.some(line => line.productId === p.id)),
+    [products, lines]
+  );
+  const conflicts = useMemo(
+    () => orderedProducts.flatMap((a, i) => orderedProducts.slice(i + 1).map(b => sharingConflict(a, b)))
+      .filter((conflict): conflict is string => conflict !== null),
+    [orderedProducts]
+  );
+
+  const runPlan = () => {
+    setPlan(planLoads(
+      lines.map(line => ({ productId: line.productId, liters: Number(line.liters) || 0 })),
+      vehicleTypes
+        .filter(v => v.id in fleet)
+        .map(vehicleType => ({
+          vehicleType,
+          available: fleet[vehicleType.id].trim() === '' ? undefined : Math.max(0, Math.floor(Number(fleet[vehicleType.id])))
+        })),
+      products
+    ));
+  };
+
+  const toggleFleet = (id: string) => setFleet(prev => {
+    const next = { ...prev };
+    if (id in next) delete next[id];
+    else next[id] = '';
+    return next;
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Boxes className="h-5 w-5" />
+          Load Planning
+        </CardTitle>
+        <CardDescription>
+          Pack a mixed product order into vehicles by volume and temperature zone, checking which products may travel together.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="plan" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="plan">Load Plan</TabsTrigger>
+            <TabsTrigger value="compatibility">Compatibility</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="plan" className="space-y-4">
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="space-y-2">
+                <Label>Order</Label>
+                {lines.map((line, i) => (
+                  <div key={i} className="flex gap-2 items-center">
+                    <Select
+                      value={line.productId}
+                      onValueChange={(value) => setLines(lines.map((l, j) => j === i ? { ...l, productId: value } : l))}
+                    >
+                      <SelectTrigger className="flex-1"><SelectValue placeholder="Product" /></SelectTrigger>
+                      <SelectContent>
+                        {products.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-28"
+                      value={line.liters}
+                      onChange={(e) => setLines(lines.map((l, j) => j === i ? { ...l, liters: e.target.value } : l))}
+                    />
+                    <span className="text-sm text-muted-foreground">L</span>
+                    <Button variant="ghost" size="sm" onClick={() => setLines(lines.filter((_, j) => j !== i))}>
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={products.length === 0}
+                  onClick={() => setLines([...lines, { productId: products[0].id, liters: DEFAULT_LINE_LITERS }])}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add Line
+                </Button>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Vehicles offered (blank count = no limit)</Label>
+                {vehicleTypes.map(vehicle => (
+                  <div key={vehicle.id} className="flex gap-2 items-center text-sm">
+                    <Button
+                      variant={vehicle.id in fleet ? 'default' : 'outline'}
+                      size="sm"
+                      className="flex-1 justify-start"
+                      onClick={() => toggleFleet(vehicle.id)}
+                    >
+                      {vehicle.name}
+                    </Button>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-20"
+                      placeholder="∞"
+                      disabled={!(vehicle.id in fleet)}
+                      value={fleet[vehicle.id] ?? ''}
+                      onChange={(e) => setFleet({ ...fleet, [vehicle.id]: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {conflicts.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="list-disc pl-4">
+                    {conflicts.map(conflict => <li key={conflict}>{conflict}</li>)}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button onClick={runPlan} disabled={lines.length === 0 || Object.keys(fleet).length === 0}>
+              <Play className="h-4 w-4 mr-2" />
+              Plan Loads
+            </Button>
+
+            {plan && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <span>Vehicles: <strong>{plan.loads.length}</strong></span>
+                  <span>Placed: <strong>{plan.placedLiters.toLocaleString()} L</strong> of {plan.totalLiters.toLocaleString()} L</span>
+                </div>
+
+                {plan.unplaced.length > 0 && (
+                  <Alert variant="destructive">
+                    <XCircle className="h-4 w-4" />
+                    <AlertDescription>
+                      <ul className="list-disc pl-4">
+                        {plan.unplaced.map(line => (
+                          <li key={line.productId}>
+                            {line.productName}: {Math.round(line.liters).toLocaleString()} L not loaded. {line.reasons.join('; ')}
+                          </li>
+                        ))}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  {plan.loads.map(load => (
+                    <div key={load.id} className="border rounded-lg p-3 space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{load.vehicleType.name}</span>
+                        <Badge variant="outline">{Math.round(load.utilization * 100)}% full</Badge>
+                      </div>
+                      <Progress value={load.utilization * 100} />
+                      {load.compartments.map(compartment => (
+                        <div key={compartment.zone.name} className="text-sm">
+                          <div className="flex justify-between text-muted-foreground">
+                            <span>
+                              {compartment.zone.name}
+                              {compartment.setPoint
+                                ? ` · hold at ${formatRange(compartment.setPoint)}`
+                                : compartment.zone.temperatureRange ? '' : ' · no temperature control'}
+                            </span>
+                            <span>{Math.round(compartment.liters).toLocaleString()} / {compartment.zone.capacity.toLocaleString()} L</span>
+                          </div>
+                          {compartment.items.map(item => (
+                            <div key={item.product.id} className="flex justify-between pl-3">
+                              <span>{item.product.name}</span>
+                              <span>{Math.round(item.liters).toLocaleString()} L</span>
+                            </div>
+                          ))}
+                          {compartment.items.length === 0 && <div className="pl-3 text-muted-foreground">Empty</div>}
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+
+                {plan.rejections.length > 0 && (
+                  <div className="space-y-1">
+                    <h4 className="text-sm font-medium">Rejected combinations</h4>
+                    <ul className="text-sm text-muted-foreground list-disc pl-4">
+                      {plan.rejections.map(rejection => (
+                        <li key={`${rejection.productId}-${rejection.with}`}>
+                          {productName(rejection.productId)} + {rejection.with}: {rejection.reasons.join('; ')}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="compatibility">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    {vehicleTypes.map(vehicle => (
+                      <TableHead key={vehicle.id} className="text-xs">{vehicle.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {products.map(product => (
+                    <TableRow key={product.id}>
+                      <TableCell>
+                        <div className="font-medium">{product.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {classLabel(product.temperatureRange)}, {formatRange(product.temperatureRange)}
+                        </div>
+                      </TableCell>
+                      {vehicleTypes.map(vehicle => {
+                        const compatibility = checkCompatibility(product, vehicle);
+                        return (
+                          <TableCell key={vehicle.id} className="text-xs align-top">
+                            {compatibility.compatible ? (
+                              <span className="flex items-center gap-1 text-green-600">
+                                <CheckCircle className="h-3 w-3" />
+                                {vehicle.compartments?.length ? compatibility.zones.join(', ') : 'OK'}
+                              </span>
+                            ) : (
+                              <span className="flex items-start gap-1 text-red-600">
+                                <XCircle className="h-3 w-3 mt-0.5 shrink-0" />
+                                {compatibility.reasons.join('; ')}
+                              </span>
+                            )}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,381 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useDairyData } from '@/hooks/useDairyData';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import { useLotSearch, useLotTrace, type LotSearch } from '@/hooks/useTraceability';
+import { toCsv } from '@/lib/csv';
+import { downloadBlob } from '@/lib/download';
+import {
+  lotKindLabel,
+  recallReportRows,
+  simulateRecall,
+  LOT_KINDS,
+  type Lot,
+  type Traceability
+} from '@/lib/traceability';
+import { ScanSearch, Search, Download, AlertTriangle } from 'lucide-react';
+
+const isoDate = (offsetDays: number = 0) =>
+  new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const formatQuantity = (value: number, unit = '') => `${Math.round(value).toLocaleString()}${unit ? ` ${unit}` : ''}`;
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+// Graph layout, in SVG units
+const COLUMN_WIDTH = 170;
+const BOX_WIDTH = 150;
+const BOX_HEIGHT = 40;
+const ROW_HEIGHT = 52;
+const HEADER_HEIGHT = 24;
+
+interface GraphBox {
+  key: string;
+  column: number;
+  title: string;
+  subtitle: string;
+  tone: 'root' | 'source' | 'affected' | 'node';
+}
+
+const TONES: Record<GraphBox['tone'], { fill: string; stroke: string }> = {
+  root: { fill: '#FEE2E2', stroke: '#DC2626' },
+  source: { fill: '#EFF6FF', stroke: '#2563EB' },
+  affected: { fill: '#FFF7ED', stroke: '#EA580C' },
+  node: { fill: '#F3F4F6', stroke: '#6B7280' }
+};
+
+function TraceGraph({ trace, boxes, edges }: { trace: Traceability; boxes: GraphBox[]; edges: [string, string][] }) {
+  const columns = ['Farms', ...LOT_KINDS.map(k => `${k.label}s`), 'Destinations'];
+  const rows = new Map<string, number>();
+  const counts = columns.map(() => 0);
+  boxes.forEach(box => rows.set(box.key, counts[box.column]++));
+  const height = HEADER_HEIGHT + Math.max(1, ...counts) * ROW_HEIGHT;
+  const position = (key: string) => {
+    const box = boxes.find(b => b.key === key)!;
+    return { x: box.column * COLUMN_WIDTH, y: HEADER_HEIGHT + rows.get(key)! * ROW_HEIGHT };
+  };
+
+  return (
+    <ScrollArea className="w-full border rounded-lg">
+      <svg width={columns.length * COLUMN_WIDTH} height={height} className="text-xs" aria-label={`Traceability of ${trace.rootIds.length} lots`}>
+        {columns.map((label, i) => (
+          <text key={label} x={i * COLUMN_WIDTH + 4} y={14} className="fill-muted-foreground font-medium">{label}</text>
+        ))}
+        {edges.map(([from, to]) => {
+          const a = position(from);
+          const b = position(to);
+          return (
+            <line
+              key={`${from}>${to}`}
+              x1={a.x + BOX_WIDTH} y1={a.y + BOX_HEIGHT / 2}
+              x2={b.x} y2={b.y + BOX_HEIGHT / 2}
+              stroke="#9CA3AF"
+            />
+          );
+        })}
+        {boxes.map(box => {
+          const { x, y } = position(box.key);
+          return (
+            <g key={box.key}>
+              <rect x={x} y={y} width={BOX_WIDTH} height={BOX_HEIGHT} rx={4} fill={TONES[box.tone].fill} stroke={TONES[box.tone].stroke} />
+              <text x={x + 6} y={y + 16} className="font-medium">{box.title.slice(0, 24)}</text>
+              <text x={x + 6} y={y + 31} className="fill-muted-foreground">{box.subtitle.slice(0, 26)}</text>
+            </g>
+          );
+        })}
+      </svg>
+    </ScrollArea>
+  );
+}
+
+export function LotTraceability() {
+  const { farms, centers, plants, distributors, outlets } = useDairyData();
+  const { products } = useProductCatalog();
+
+  const [mode, setMode] = useState<LotSearch['by']>('lot');
+  const [code, setCode] = useState('');
+  const [farmId, setFarmId] = useState('');
+  const [fromDate, setFromDate] = useState(isoDate(-14));
+  const [toDate, setToDate] = useState(isoDate());
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [traceIds, setTraceIds] = useState<string[]>([]);
+
+  const search: LotSearch | null = mode === 'lot' ? { by: 'lot', code } : { by: 'farm', farmId, fromDate, toDate };
+  const { lots: results, isLoading: isSearching } = useLotSearch(search);
+  const { trace, isLoading: isTracing, error } = useLotTrace(traceIds);
+
+  const productName = (id: string | null) => id ? products.find(p => p.id === id)?.name ?? id : 'Raw milk';
+  const farmName = (id: string) => farms.find(f => f.id === id)?.name ?? 'Unknown farm';
+  const nodeName = (type: string, id: string) => {
+    const list = type === 'collection_center' ? centers
+      : type === 'processing_plant' ? plants
+      : type === 'distributor' ? distributors
+      : outlets;
+    return (list as { id: string; name: string }[]).find(node => node.id === id)?.name ?? 'Unknown';
+  };
+  const lotPlace = (lot: Lot) => lot.center_id ? nodeName('collection_center', lot.center_id) : nodeName('processing_plant', lot.plant_id ?? '');
+  const lotUnit = (lot: Lot) => lot.product_id ? '' : 'L';
+
+  const recall = useMemo(() => trace ? simulateRecall(trace, outlets) : null, [trace, outlets]);
+
+  const traceGraph = (trace: Traceability) => {
+    const boxes: GraphBox[] = [];
+    const edges: [string, string][] = [];
+    const traced = new Set(trace.lots.map(lot => lot.id));
+
+    trace.lots.forEach(lot => {
+      const depth = trace.depth[lot.id];
+      boxes.push({
+        key: lot.id,
+        column: LOT_KINDS.findIndex(k => k.value === lot.kind) + 1,
+        title: lot.lot_code,
+        subtitle: `${formatQuantity(Number(lot.quantity), lotUnit(lot))} · ${lot.kind === 'collection' && lot.farm_id ? farmName(lot.farm_id) : productName(lot.product_id)}`,
+        tone: depth === 0 ? 'root' : depth < 0 ? 'source' : 'affected'
+      });
+    });
+    [...new Set(trace.lots.filter(lot => lot.kind === 'collection' && lot.farm_id).map(lot => lot.farm_id!))].forEach(id => {
+      boxes.push({ key: `farm:${id}`, column: 0, title: farmName(id), subtitle: 'Farm', tone: 'node' });
+    });
+    trace.lots.filter(lot => lot.kind === 'collection' && lot.farm_id).forEach(lot => edges.push([`farm:${lot.farm_id}`, lot.id]));
+    const destinations = new Map<string, Lot>();
+    trace.lots.filter(lot => lot.kind === 'dispatch' && lot.destination_id).forEach(lot => {
+      const key = `${lot.destination_type}:${lot.destination_id}`;
+      if (!destinations.has(key)) destinations.set(key, lot);
+      edges.push([lot.id, key]);
+    });
+    destinations.forEach((lot, key) => boxes.push({
+      key,
+      column: LOT_KINDS.length + 1,
+      title: nodeName(lot.destination_type!, lot.destination_id!),
+      subtitle: lot.destination_type === 'distributor' ? 'Distributor' : 'Retail outlet',
+      tone: 'node'
+    }));
+    trace.links
+      .filter(link => traced.has(link.parent_lot_id) && traced.has(link.child_lot_id))
+      .forEach(link => edges.push([link.parent_lot_id, link.child_lot_id]));
+    return { boxes, edges };
+  };
+  const graph = trace ? traceGraph(trace) : null;
+
+  const toggleSelected = (id: string, checked: boolean) =>
+    setSelectedIds(checked ? [...selectedIds, id] : selectedIds.filter(selected => selected !== id));
+
+  const exportReport = () => {
+    if (!trace || !recall) return;
+    const rows = recallReportRows(trace, recall, { node: nodeName, farm: farmName, product: productName });
+    const stem = trace.lots.filter(lot => trace.depth[lot.id] === 0).map(lot => lot.lot_code).slice(0, 3).join('_');
+    downloadBlob(new Blob([toCsv(rows)], { type: 'text/csv' }), `recall_report_${stem || isoDate()}.csv`);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScanSearch className="h-5 w-5" />
+          Lot Traceability
+        </CardTitle>
+        <CardDescription>
+          Trace collection batches, tanker loads, production lots and dispatches back to the farms and forward to the outlets, and simulate a recall.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-1">
+            <Label>Search by</Label>
+            <Select value={mode} onValueChange={(value) => { setMode(value as LotSearch['by']); setSelectedIds([]); }}>
+              <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="lot">Lot code</SelectItem>
+                <SelectItem value="farm">Farm</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {mode === 'lot' ? (
+            <div className="space-y-1">
+              <Label htmlFor="lot-code">Lot code</Label>
+              <Input id="lot-code" className="w-64" placeholder="e.g. PRD-250817" value={code} onChange={(e) => setCode(e.target.value)} />
+            </div>
+          ) : (
+            <>
+              <div className="space-y-1">
+                <Label>Farm</Label>
+                <Select value={farmId} onValueChange={(value) => { setFarmId(value); setSelectedIds([]); }}>
+                  <SelectTrigger className="w-64"><SelectValue placeholder="Choose a farm" /></SelectTrigger>
+                  <SelectContent>
+                    {farms.map(f => <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="lot-from">From</Label>
+                <Input id="lot-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="lot-to">To</Label>
+                <Input id="lot-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+              </div>
+            </>
+          )}
+          <Button onClick={() => setTraceIds(selectedIds)} disabled={selectedIds.length === 0}>
+            <Search className="h-4 w-4 mr-2" />
+            Trace {selectedIds.length > 0 ? `${selectedIds.length} lot${selectedIds.length === 1 ? '' : 's'}` : ''}
+          </Button>
+          {mode === 'farm' && results.length > 0 && (
+            <Button variant="outline" onClick={() => setSelectedIds(results.map(lot => lot.id))}>Select all</Button>
+          )}
+        </div>
+
+        <ScrollArea className="h-48 border rounded-lg">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-10" />
+                <TableHead>Lot</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Where</TableHead>
+                <TableHead>Product</TableHead>
+                <TableHead>When</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {results.map(lot => (
+                <TableRow key={lot.id}>
+                  <TableCell>
+                    <Checkbox checked={selectedIds.includes(lot.id)} onCheckedChange={(checked) => toggleSelected(lot.id, checked === true)} />
+                  </TableCell>
+                  <TableCell className="font-mono">{lot.lot_code}</TableCell>
+                  <TableCell>{lotKindLabel(lot.kind)}</TableCell>
+                  <TableCell>{lotPlace(lot)}</TableCell>
+                  <TableCell>{productName(lot.product_id)}</TableCell>
+                  <TableCell>{formatTime(lot.produced_at)}</TableCell>
+                  <TableCell className="text-right">{formatQuantity(Number(lot.quantity), lotUnit(lot))}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {results.length === 0 && (
+            <p className="text-sm text-muted-foreground p-2">
+              {isSearching ? 'Searching...' : mode === 'lot' ? 'Enter at least two characters of a lot code.' : 'No collection batches for this farm in the period.'}
+            </p>
+          )}
+        </ScrollArea>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>{error instanceof Error ? error.message : 'Trace failed'}</AlertDescription>
+          </Alert>
+        )}
+        {isTracing && <p className="text-sm text-muted-foreground">Tracing...</p>}
+
+        {trace && recall && graph && (
+          <Tabs defaultValue="graph" className="w-full">
+            <TabsList className="grid w-full grid-cols-2">
+              <TabsTrigger value="graph">Traceability Graph</TabsTrigger>
+              <TabsTrigger value="recall">Recall Simulation</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="graph" className="space-y-2">
+              <div className="flex flex-wrap gap-2 text-xs">
+                <Badge variant="outline" className="border-red-600">Traced lot</Badge>
+                <Badge variant="outline" className="border-blue-600">Source</Badge>
+                <Badge variant="outline" className="border-orange-600">Downstream</Badge>
+              </div>
+              <TraceGraph trace={trace} boxes={graph.boxes} edges={graph.edges} />
+            </TabsContent>
+
+            <TabsContent value="recall" className="space-y-4">
+              <div className="flex flex-wrap items-center gap-4 text-sm">
+                <span>Dispatches: <strong>{recall.dispatchLots.length}</strong></span>
+                <span>Destinations: <strong>{recall.destinations.length}</strong> (+{recall.indirectOutlets.length} outlets through distributors)</span>
+                <span>Quantity to recall or hold: <strong>{formatQuantity(recall.totalQuantity)}</strong></span>
+                <span>Made from traced lots: <strong>{formatQuantity(recall.tracedQuantity)}</strong></span>
+                <Button variant="outline" size="sm" onClick={exportReport}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Recall report
+                </Button>
+              </div>
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Destination</TableHead>
+                    <TableHead>Products</TableHead>
+                    <TableHead>Lots</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">From traced lots</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recall.destinations.map(destination => (
+                    <TableRow key={`${destination.type}:${destination.id}`}>
+                      <TableCell>
+                        <div className="font-medium">{nodeName(destination.type, destination.id)}</div>
+                        <div className="text-xs text-muted-foreground">{destination.type === 'distributor' ? 'Distributor' : 'Retail outlet'}</div>
+                      </TableCell>
+                      <TableCell>{destination.productIds.map(productName).join(', ')}</TableCell>
+                      <TableCell className="font-mono text-xs">{destination.lots.map(lot => lot.lot_code).join(' ')}</TableCell>
+                      <TableCell className="text-right">{formatQuantity(destination.quantity)}</TableCell>
+                      <TableCell className="text-right">
+                        {formatQuantity(destination.tracedQuantity)} ({percent(destination.quantity > 0 ? destination.tracedQuantity / destination.quantity : 0)})
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {recall.destinations.length === 0 && <p className="text-sm text-muted-foreground">Nothing from these lots has been dispatched.</p>}
+
+              {recall.indirectOutlets.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium">Outlets served through affected distributors</h4>
+                  <p className="text-sm text-muted-foreground">
+                    {recall.indirectOutlets.map(o => `${nodeName('retail', o.outletId)} (${nodeName('distributor', o.distributorId)})`).join(', ')}
+                  </p>
+                </div>
+              )}
+
+              {recall.heldStock.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-sm font-medium">Stock to hold at plants</h4>
+                  <Table>
+                    <TableBody>
+                      {recall.heldStock.map(held => (
+                        <TableRow key={held.lot.id}>
+                          <TableCell className="font-mono">{held.lot.lot_code}</TableCell>
+                          <TableCell>{lotPlace(held.lot)}</TableCell>
+                          <TableCell>{productName(held.lot.product_id)}</TableCell>
+                          <TableCell className="text-right">{formatQuantity(held.quantity)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <h4 className="text-sm font-medium">Source farms</h4>
+                {recall.sourceFarms.length > 0 ? (
+                  <p className="text-sm">
+                    {recall.sourceFarms.map(farm => `${farmName(farm.farmId)} (${formatQuantity(farm.liters, 'L')})`).join(', ')}
+                  </p>
+                ) : <p className="text-sm text-muted-foreground">No farm batches linked to these lots.</p>}
+              </div>
+            </TabsContent>
+          </Tabs>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,507 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useDairyData } from '@/hooks/useDairyData';
+import { useMilkCollections } from '@/hooks/useMilkCollections';
+import { importService } from '@/services/importService';
+import { MILK_COLLECTION_TEMPLATE } from '@/data/importTemplates';
+import { toCsv } from '@/lib/csv';
+import { downloadBlob } from '@/lib/download';
+import { readImportFile, validateImportRows, type ImportPreview } from '@/lib/dataImport';
+import {
+  checkCollection,
+  checkCollectionImport,
+  dailyCollectionTotals,
+  summarizeCollections,
+  COLLECTION_SHIFTS,
+  REJECTION_REASONS,
+  type CollectionShift,
+  type CollectionSummary
+} from '@/lib/milkQuality';
+import { ClipboardList, Upload, Download, Save, Trash2, AlertTriangle, CheckCircle, Tractor, Building } from 'lucide-react';
+
+const PERIODS = [7, 15, 30, 90];
+
+const isoDate = (offsetDays: number = 0) =>
+  new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+interface EntryForm {
+  farmId: string;
+  centerId: string;
+  date: string;
+  shift: CollectionShift;
+  volume: string;
+  fat: string;
+  snf: string;
+  temperature: string;
+  rejected: string;
+  reason: string;
+  notes: string;
+}
+
+const emptyForm = (): EntryForm => ({
+  farmId: '',
+  centerId: '',
+  date: isoDate(),
+  shift: new Date().getHours() < 12 ? 'morning' : 'evening',
+  volume: '',
+  fat: '',
+  snf: '',
+  temperature: '',
+  rejected: '',
+  reason: '',
+  notes: ''
+});
+
+const optionalNumber = (value: string) => value.trim() === '' ? null : Number(value);
+const formatLiters = (value: number) => `${Math.round(value).toLocaleString()} L`;
+const formatPercent = (value: number | null) => value == null ? '—' : `${value.toFixed(2)}%`;
+
+function SummaryTable({ summaries, nameOf }: { summaries: CollectionSummary[]; nameOf: (id: string) => string }) {
+  if (summaries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No collections recorded in this period.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Name</TableHead>
+          <TableHead className="text-right">Days</TableHead>
+          <TableHead className="text-right">Accepted</TableHead>
+          <TableHead className="text-right">Rejected</TableHead>
+          <TableHead className="text-right">Avg fat</TableHead>
+          <TableHead className="text-right">Avg SNF</TableHead>
+          <TableHead className="text-right">Avg temp</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {summaries.map(summary => (
+          <TableRow key={summary.id}>
+            <TableCell>{nameOf(summary.id)}</TableCell>
+            <TableCell className="text-right">{summary.days}</TableCell>
+            <TableCell className="text-right">{formatLiters(summary.acceptedLiters)}</TableCell>
+            <TableCell className="text-right">
+              {summary.rejectedLiters > 0 ? (
+                <span title={Object.entries(summary.rejectionsByReason).map(([r, l]) => `${r}: ${formatLiters(l)}`).join('\n')}>
+                  {formatLiters(summary.rejectedLiters)}
+                  <Badge variant={summary.rejectionRatePercent > 5 ? 'destructive' : 'outline'} className="ml-2">
+                    {summary.rejectionRatePercent.toFixed(1)}%
+                  </Badge>
+                </span>
+              ) : '—'}
+            </TableCell>
+            <TableCell className="text-right">{formatPercent(summary.averageFatPercent)}</TableCell>
+            <TableCell className="text-right">{formatPercent(summary.averageSnfPercent)}</TableCell>
+            <TableCell className="text-right">
+              {summary.averageTemperatureC == null ? '—' : `${summary.averageTemperatureC.toFixed(1)}°C`}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+export function MilkCollectionLog() {
+  const { toast } = useToast();
+  const { canManageNetwork } = useAuth();
+  const { farms, centers } = useDairyData();
+  const [periodDays, setPeriodDays] = useState(15);
+  const { collections, isLoading, saveEntry, deleteEntry, importEntries, isSaving } =
+    useMilkCollections(isoDate(-(periodDays - 1)), isoDate());
+
+  const [form, setForm] = useState<EntryForm>(emptyForm);
+  const [importFile, setImportFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [dashboardFarmId, setDashboardFarmId] = useState<string>('all');
+  const [dashboardCenterId, setDashboardCenterId] = useState<string>('all');
+
+  const farmName = (id: string) => farms.find(f => f.id === id)?.name ?? 'Unknown farm';
+  const centerName = (id: string) => centers.find(c => c.id === id)?.name ?? 'Unknown center';
+  const selectedFarm = farms.find(f => f.id === form.farmId);
+
+  const reading = {
+    volume_liters: Number(form.volume),
+    fat_percent: optionalNumber(form.fat),
+    snf_percent: optionalNumber(form.snf),
+    temperature_celsius: optionalNumber(form.temperature),
+    rejected_liters: optionalNumber(form.rejected) ?? 0,
+    rejection_reason: form.reason || null
+  };
+  const check = checkCollection(reading, selectedFarm?.farm_type);
+
+  const updateForm = <K extends keyof EntryForm>(key: K, value: EntryForm[K]) =>
+    setForm(prev => ({ ...prev, [key]: value }));
+
+  const submitEntry = async () => {
+    if (!form.farmId || !form.centerId || form.volume.trim() === '') {
+      toast({ title: "Error", description: "Farm, center and volume are required", variant: "destructive" });
+      return;
+    }
+    if (check.errors.length > 0) {
+      toast({ title: "Error", description: check.errors[0], variant: "destructive" });
+      return;
+    }
+
+    try {
+      await saveEntry({
+        farm_id: form.farmId,
+        center_id: form.centerId,
+        collection_date: form.date,
+        shift: form.shift,
+        ...reading,
+        notes: form.notes || null
+      });
+      toast({
+        title: "Collection recorded",
+        description: `${formatLiters(reading.volume_liters)} from ${farmName(form.farmId)} (${form.shift})`
+      });
+      // Keep the center, date and shift for the next farm in the queue
+      setForm(prev => ({ ...emptyForm(), centerId: prev.centerId, date: prev.date, shift: prev.shift }));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to record the collection",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeEntry = async (id: string) => {
+    try {
+      await deleteEntry(id);
+      toast({ title: "Entry deleted" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete the entry",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const downloadTemplate = () => {
+    downloadBlob(
+      new Blob([toCsv([MILK_COLLECTION_TEMPLATE.headers, ...MILK_COLLECTION_TEMPLATE.sampleData])], { type: 'text/csv' }),
+      'milk_collections_template.csv'
+    );
+  };
+
+  const validateFile = async (file: File | null) => {
+    setImportFile(file);
+    setPreview(null);
+    if (!file) return;
+    try {
+      const rows = await readImportFile(file);
+      const context = await importService.getImportContext(MILK_COLLECTION_TEMPLATE);
+      setPreview(checkCollectionImport(validateImportRows(MILK_COLLECTION_TEMPLATE, rows, context)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Could not read the file",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const commitImport = async () => {
+    if (!preview) return;
+    try {
+      const result = await importEntries(preview);
+      toast({
+        title: "Collections imported",
+        description: `${result.inserted} added, ${result.updated} replaced, ${result.rejected} rejected`
+      });
+      setImportFile(null);
+      setPreview(null);
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to import collections",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const farmSummaries = useMemo(() => summarizeCollections(collections, 'farm_id'), [collections]);
+  const centerSummaries = useMemo(() => summarizeCollections(collections, 'center_id'), [collections]);
+  const farmDaily = useMemo(() => dailyCollectionTotals(
+    dashboardFarmId === 'all' ? collections : collections.filter(c => c.farm_id === dashboardFarmId)
+  ), [collections, dashboardFarmId]);
+  const centerDaily = useMemo(() => dailyCollectionTotals(
+    dashboardCenterId === 'all' ? collections : collections.filter(c => c.center_id === dashboardCenterId)
+  ), [collections, dashboardCenterId]);
+
+  const dailyChart = (data: ReturnType<typeof dailyCollectionTotals>) => (
+    <ResponsiveContainer width="100%" height={260}>
+      <BarChart data={data}>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="date" />
+        <YAxis />
+        <Tooltip formatter={(value: number) => formatLiters(value)} />
+        <Legend />
+        <Bar dataKey="morning" stackId="accepted" fill="#3B82F6" name="Morning" />
+        <Bar dataKey="evening" stackId="accepted" fill="#8B5CF6" name="Evening" />
+        <Bar dataKey="rejected" fill="#EF4444" name="Rejected" />
+      </BarChart>
+    </ResponsiveContainer>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ClipboardList className="h-5 w-5" />
+              Milk Collections
+            </CardTitle>
+            <CardDescription>
+              Per-farm intake at collection centers with fat, SNF and temperature at receipt
+            </CardDescription>
+          </div>
+          <Select value={String(periodDays)} onValueChange={(value) => setPeriodDays(Number(value))}>
+            <SelectTrigger className="w-36"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {PERIODS.map(days => <SelectItem key={days} value={String(days)}>Last {days} days</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="record" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="record">Record</TabsTrigger>
+            <TabsTrigger value="upload">Bulk Upload</TabsTrigger>
+            <TabsTrigger value="farms">By Farm</TabsTrigger>
+            <TabsTrigger value="centers">By Center</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="record" className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-1">
+                <Label>Collection center</Label>
+                <Select value={form.centerId} onValueChange={(value) => updateForm('centerId', value)}>
+                  <SelectTrigger><SelectValue placeholder="Select center" /></SelectTrigger>
+                  <SelectContent>
+                    {centers.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Farm</Label>
+                <Select value={form.farmId} onValueChange={(value) => updateForm('farmId', value)}>
+                  <SelectTrigger><SelectValue placeholder="Select farm" /></SelectTrigger>
+                  <SelectContent>
+                    {farms.map(f => <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="collection-date">Date</Label>
+                <Input id="collection-date" type="date" value={form.date} onChange={(e) => updateForm('date', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Shift</Label>
+                <Select value={form.shift} onValueChange={(value) => updateForm('shift', value as CollectionShift)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {COLLECTION_SHIFTS.map(s => <SelectItem key={s} value={s} className="capitalize">{s}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="volume">Volume (L)</Label>
+                <Input id="volume" type="number" min={0} value={form.volume} onChange={(e) => updateForm('volume', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="fat">Fat %</Label>
+                <Input id="fat" type="number" step="0.1" value={form.fat} onChange={(e) => updateForm('fat', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="snf">SNF %</Label>
+                <Input id="snf" type="number" step="0.1" value={form.snf} onChange={(e) => updateForm('snf', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="temperature">Temperature (°C)</Label>
+                <Input id="temperature" type="number" step="0.1" value={form.temperature} onChange={(e) => updateForm('temperature', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="rejected">Rejected (L)</Label>
+                <Input id="rejected" type="number" min={0} value={form.rejected} onChange={(e) => updateForm('rejected', e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label>Rejection reason</Label>
+                <Select value={form.reason} onValueChange={(value) => updateForm('reason', value)}>
+                  <SelectTrigger><SelectValue placeholder="None" /></SelectTrigger>
+                  <SelectContent>
+                    {REJECTION_REASONS.map(r => <SelectItem key={r.value} value={r.value}>{r.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1 col-span-2">
+                <Label htmlFor="notes">Notes</Label>
+                <Textarea id="notes" rows={1} value={form.notes} onChange={(e) => updateForm('notes', e.target.value)} />
+              </div>
+            </div>
+
+            {form.volume !== '' && check.warnings.length > 0 && (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {check.warnings.map(warning => <span key={warning} className="block">{warning}</span>)}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            <Button onClick={submitEntry} disabled={isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              Record Collection
+            </Button>
+
+            <ScrollArea className="h-72">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Farm</TableHead>
+                    <TableHead>Center</TableHead>
+                    <TableHead className="text-right">Volume</TableHead>
+                    <TableHead className="text-right">Fat / SNF</TableHead>
+                    <TableHead className="text-right">Temp</TableHead>
+                    <TableHead>Rejected</TableHead>
+                    {canManageNetwork && <TableHead />}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow><TableCell colSpan={8} className="text-muted-foreground">Loading...</TableCell></TableRow>
+                  ) : collections.slice(0, 50).map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell>{entry.collection_date} <span className="text-xs text-muted-foreground capitalize">{entry.shift}</span></TableCell>
+                      <TableCell>{farmName(entry.farm_id)}</TableCell>
+                      <TableCell>{centerName(entry.center_id)}</TableCell>
+                      <TableCell className="text-right">{formatLiters(Number(entry.volume_liters))}</TableCell>
+                      <TableCell className="text-right">
+                        {entry.fat_percent ?? '—'} / {entry.snf_percent ?? '—'}
+                      </TableCell>
+                      <TableCell className="text-right">{entry.temperature_celsius != null ? `${entry.temperature_celsius}°C` : '—'}</TableCell>
+                      <TableCell>
+                        {Number(entry.rejected_liters) > 0
+                          ? <Badge variant="destructive">{formatLiters(Number(entry.rejected_liters))} · {entry.rejection_reason}</Badge>
+                          : '—'}
+                      </TableCell>
+                      {canManageNetwork && (
+                        <TableCell>
+                          <Button variant="ghost" size="sm" onClick={() => removeEntry(entry.id)} disabled={isSaving}>
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </ScrollArea>
+          </TabsContent>
+
+          <TabsContent value="upload" className="space-y-4">
+            <div className="flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="collections-file">CSV or Excel file</Label>
+                <Input
+                  id="collections-file"
+                  type="file"
+                  accept=".csv,.txt,.xlsx,.xls"
+                  onChange={(e) => validateFile(e.target.files?.[0] ?? null)}
+                />
+              </div>
+              <Button variant="outline" onClick={downloadTemplate}>
+                <Download className="h-4 w-4 mr-2" />
+                Template
+              </Button>
+            </div>
+
+            <ul className="text-xs text-muted-foreground list-disc pl-4">
+              {MILK_COLLECTION_TEMPLATE.requirements.map(requirement => <li key={requirement}>{requirement}</li>)}
+            </ul>
+
+            {preview && (
+              <div className="space-y-3">
+                <Alert variant={preview.rejectedCount > 0 ? 'destructive' : 'default'}>
+                  {preview.rejectedCount > 0 ? <AlertTriangle className="h-4 w-4" /> : <CheckCircle className="h-4 w-4" />}
+                  <AlertDescription>
+                    {importFile?.name}: {preview.validCount} valid rows, {preview.rejectedCount} with errors
+                    {preview.missingHeaders.length > 0 && ` · missing columns: ${preview.missingHeaders.join(', ')}`}
+                  </AlertDescription>
+                </Alert>
+                {preview.rows.some(row => row.errors.length > 0) && (
+                  <ScrollArea className="h-40 border rounded p-2">
+                    {preview.rows.filter(row => row.errors.length > 0).map(row => (
+                      <p key={row.rowNumber} className="text-xs">
+                        Row {row.rowNumber}: {row.errors.join('; ')}
+                      </p>
+                    ))}
+                  </ScrollArea>
+                )}
+                <Button onClick={commitImport} disabled={preview.validCount === 0 || isSaving}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import {preview.validCount} Rows
+                </Button>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="farms" className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Tractor className="h-4 w-4 text-muted-foreground" />
+              <Select value={dashboardFarmId} onValueChange={setDashboardFarmId}>
+                <SelectTrigger className="w-64"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All farms</SelectItem>
+                  {farms.map(f => <SelectItem key={f.id} value={f.id}>{f.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            {dailyChart(farmDaily)}
+            <SummaryTable
+              summaries={dashboardFarmId === 'all' ? farmSummaries : farmSummaries.filter(s => s.id === dashboardFarmId)}
+              nameOf={farmName}
+            />
+          </TabsContent>
+
+          <TabsContent value="centers" className="space-y-4">
+            <div className="flex items-center gap-2">
+              <Building className="h-4 w-4 text-muted-foreground" />
+              <Select value={dashboardCenterId} onValueChange={setDashboardCenterId}>
+                <SelectTrigger className="w-64"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All centers</SelectItem>
+                  {centers.map(c => <SelectItem key={c.id} value={c.id}>{c.name}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            {dailyChart(centerDaily)}
+            <SummaryTable
+              summaries={dashboardCenterId === 'all' ? centerSummaries : centerSummaries.filter(s => s.id === dashboardCenterId)}
+              nameOf={centerName}
+            />
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useMilkForecast } from '@/hooks/useMilkForecast';
+import { useToast } from '@/hooks/use-toast';
+import { dairyService } from '@/services/dairyService';
+import { planningVolumes, PLANNING_VOLUME_BASES, type PlanningVolumeBasis } from '@/lib/milkForecasting';
+import type { NetworkFlowPlan } from '@/lib/networkFlowOptimizer';
+import { Droplets, TrendingUp, TrendingDown, Play, AlertTriangle, CheckCircle } from 'lucide-react';
+
+const liters = (value: number) => `${Math.round(value).toLocaleString()} L`;
+
+export function MilkVolumeForecast() {
+  const { forecasts, totals, isLoading } = useMilkForecast();
+  const { toast } = useToast();
+  const [basis, setBasis] = useState<PlanningVolumeBasis>('forecast_average');
+  const [flowPlan, setFlowPlan] = useState<NetworkFlowPlan | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const farmVolumes = useMemo(() => planningVolumes(forecasts, basis), [forecasts, basis]);
+  const nameplateTotal = forecasts.reduce((sum, f) => sum + f.nameplateLiters, 0);
+  const fromHistory = forecasts.filter(f => f.method === 'history').length;
+
+  const { data: metrics } = useQuery({
+    queryKey: ['network-metrics', basis, farmVolumes],
+    queryFn: () => dairyService.calculateNetworkMetrics(farmVolumes),
+    enabled: !isLoading,
+  });
+
+  const chartData = totals.map(day => ({ ...day, nameplate: nameplateTotal }));
+
+  const checkCapacity = async () => {
+    setIsChecking(true);
+    try {
+      const plan = await dairyService.planNetworkFlow(undefined, farmVolumes);
+      setFlowPlan(plan);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Capacity check failed",
+        variant: "destructive"
+      });
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading collection history...</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Droplets className="h-5 w-5" />
+            Milk Volume Forecast
+          </CardTitle>
+          <CardDescription>
+            Next {totals.length} days of farm collections from seasonality, herd size and trend.
+            {' '}{fromHistory} of {forecasts.length} farms have enough collection history; the rest use nameplate production.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={chartData}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="date" />
+              <YAxis />
+              <Tooltip formatter={(value: number) => liters(value)} />
+              <Legend />
+              <Line type="monotone" dataKey="liters" stroke="#2563EB" name="Forecast" dot={false} />
+              <Line type="monotone" dataKey="lower" stroke="#2563EB" name="Lower (90%)" dot={false} strokeDasharray="5 5" strokeOpacity={0.5} />
+              <Line type="monotone" dataKey="upper" stroke="#2563EB" name="Upper (90%)" dot={false} strokeDasharray="5 5" strokeOpacity={0.5} />
+              <Line type="monotone" dataKey="nameplate" stroke="#9CA3AF" name="Nameplate" dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Plan Against Forecast</CardTitle>
+          <CardDescription>Network metrics and the capacity check use the selected farm volumes</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-1">
+              <Label>Farm volumes</Label>
+              <Select value={basis} onValueChange={(value) => { setBasis(value as PlanningVolumeBasis); setFlowPlan(null); }}>
+                <SelectTrigger className="w-56"><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  {PLANNING_VOLUME_BASES.map(b => <SelectItem key={b.value} value={b.value}>{b.label}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={checkCapacity} disabled={isChecking}>
+              <Play className="h-4 w-4 mr-2" />
+              {isChecking ? 'Checking...' : 'Check Network Capacity'}
+            </Button>
+          </div>
+
+          {metrics && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Daily supply</p>
+                <p className="text-xl font-bold">{liters(metrics.totalProduction)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Processing capacity</p>
+                <p className="text-xl font-bold">{liters(metrics.totalProcessingCapacity)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Capacity utilization</p>
+                <p className="text-xl font-bold">{metrics.networkEfficiency.toFixed(1)}%</p>
+              </div>
+            </div>
+          )}
+
+          {flowPlan && (
+            <Alert variant={flowPlan.feasibility.feasible ? 'default' : 'destructive'}>
+              {flowPlan.feasibility.feasible ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+              <AlertDescription>
+                {flowPlan.feasibility.feasible
+                  ? `All ${liters(flowPlan.feasibility.totalSupplyLiters)} can be collected and processed.`
+                  : `${liters(flowPlan.feasibility.unservedLiters)} of ${liters(flowPlan.feasibility.totalSupplyLiters)} cannot be served.`}
+                {flowPlan.feasibility.messages.map((message, i) => (
+                  <span key={i} className="block text-xs mt-1">{message}</span>
+                ))}
+              </AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Per-Farm Forecast</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Farm</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead className="text-right">Nameplate</TableHead>
+                <TableHead className="text-right">Forecast avg</TableHead>
+                <TableHead className="text-right">Peak day</TableHead>
+                <TableHead className="text-right">vs nameplate</TableHead>
+                <TableHead className="text-right">Yield trend</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {forecasts.map(f => {
+                const change = f.nameplateLiters > 0 ? (f.averageLiters / f.nameplateLiters - 1) * 100 : 0;
+                return (
+                  <TableRow key={f.farmId}>
+                    <TableCell>{f.farmName}</TableCell>
+                    <TableCell>
+                      <Badge variant={f.method === 'history' ? 'secondary' : 'outline'}>
+                        {f.method === 'history' ? 'History' : 'Nameplate'}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{liters(f.nameplateLiters)}</TableCell>
+                    <TableCell className="text-right">{liters(f.averageLiters)}</TableCell>
+                    <TableCell className="text-right">{liters(f.peakLiters)}</TableCell>
+                    <TableCell className={`text-right ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {change >= 0 ? '+' : ''}{change.toFixed(0)}%
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <span className="inline-flex items-center gap-1">
+                        {f.trendPercentPerMonth >= 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+                        {f.trendPercentPerMonth.toFixed(1)}%/mo
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
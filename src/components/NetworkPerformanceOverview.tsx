@@ -62,10 +62,12 @@ export function NetworkPerformanceOverview() {
     const farms = nodes.filter(n => n.type === 'farm');
     const plants = nodes.filter(n => n.type === 'processing_plant');
     const centers = nodes.filter(n => n.type === 'collection_center');
+    const outlets = nodes.filter(n => n.type === 'retail');
     
     const totalProduction = farms.reduce((sum, farm) => sum + (farm.production || 0), 0);
     const totalCapacity = plants.reduce((sum, plant) => sum + plant.capacity, 0);
     const totalCenterCapacity = centers.reduce((sum, center) => sum + center.capacity, 0);
+    const retailDemand = outlets.reduce((sum, outlet) => sum + (outlet.demand || 0), 0);
 
     // Calculate average route distance and cost
     const avgRouteDistance = routes.length > 0 
@@ -111,6 +113,13 @@ export function NetworkPerformanceOverview() {
     if (totalProduction > totalCenterCapacity) {
       alerts.push({ type: 'error' as const, message: 'Collection center capacity insufficient for current production.', priority: 3 });
     }
+    if (retailDemand > totalProduction) {
+      alerts.push({ type: 'warning' as const, message: 'Retail demand exceeds farm production. Outlets will be short of supply.', priority: 3 });
+    }
+    const unsuppliedOutlets = outlets.filter(o => !o.details?.distributor_id).length;
+    if (unsuppliedOutlets > 0) {
+      alerts.push({ type: 'info' as const, message: `${unsuppliedOutlets} retail outlet(s) have no supplying distributor.`, priority: 1 });
+    }
 
     // Generate real recommendations
     const recommendations = [];
@@ -202,7 +211,9 @@ export function NetworkPerformanceOverview() {
   const pieData = [
     { name: 'Farms', value: nodes.filter(n => n.type === 'farm').length, color: '#10B981' },
     { name: 'Collection Centers', value: nodes.filter(n => n.type === 'collection_center').length, color: '#3B82F6' },
-    { name: 'Processing Plants', value: nodes.filter(n => n.type === 'processing_plant').length, color: '#8B5CF6' }
+    { name: 'Processing Plants', value: nodes.filter(n => n.type === 'processing_plant').length, color: '#8B5CF6' },
+    { name: 'Distributors', value: nodes.filter(n => n.type === 'distributor').length, color: '#F59E0B' },
+    { name: 'Retail Outlets', value: nodes.filter(n => n.type === 'retail').length, color: '#EF4444' }
   ];
 
   return (
@@ -0,0 +1,114 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useRecordHistory } from '@/hooks/useAuditLog';
+import { auditFieldChanges, formatAuditValue, restorableFields } from '@/lib/auditHistory';
+import type { AuditAction, AuditedTable } from '@/types/audit';
+import { History, RotateCcw, User, AlertTriangle } from 'lucide-react';
+
+interface NodeHistoryPanelProps {
+  table: AuditedTable;
+  recordId: string;
+  onRestore?: (fields: Record<string, unknown>) => Promise<void>;
+}
+
+const ACTION_LABELS: Record<AuditAction, { label: string; className: string }> = {
+  INSERT: { label: 'Created', className: 'bg-green-100 text-green-800' },
+  UPDATE: { label: 'Updated', className: 'bg-blue-100 text-blue-800' },
+  DELETE: { label: 'Deleted', className: 'bg-red-100 text-red-800' }
+};
+
+export function NodeHistoryPanel({ table, recordId, onRestore }: NodeHistoryPanelProps) {
+  const { entries, isLoading, error } = useRecordHistory(table, recordId);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+
+  const restore = async (entryId: string, fields: Record<string, unknown>) => {
+    if (!onRestore) return;
+    setRestoringId(entryId);
+    try {
+      await onRestore(fields);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+
+  if (error) {
+    return (
+      <Alert variant="destructive">
+        <AlertTriangle className="h-4 w-4" />
+        <AlertDescription>Could not load the change history.</AlertDescription>
+      </Alert>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-6">
+        <History className="h-8 w-8 mx-auto mb-2 text-muted-foreground" />
+        <p className="text-sm text-muted-foreground">No recorded changes for this record yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="h-96 pr-3">
+      <div className="space-y-3">
+        {entries.map((entry, index) => {
+          const action = ACTION_LABELS[entry.action];
+          const changes = entry.action === 'UPDATE' ? auditFieldChanges(entry) : [];
+          const fields = restorableFields(entry);
+          // entries[0] is the record's current state
+          const canRestore = onRestore && index > 0 && fields !== null;
+
+          return (
+            <div key={entry.id} className="border rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge className={action.className}>{action.label}</Badge>
+                  <span className="text-xs text-muted-foreground">
+                    {new Date(entry.changedAt).toLocaleString()}
+                  </span>
+                  {index === 0 && <Badge variant="outline" className="text-xs">Current</Badge>}
+                </div>
+                {canRestore && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => restore(entry.id, fields)}
+                    disabled={restoringId !== null}
+                  >
+                    <RotateCcw className="h-3 w-3 mr-1" />
+                    {restoringId === entry.id ? 'Restoring...' : 'Restore this version'}
+                  </Button>
+                )}
+              </div>
+
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                <User className="h-3 w-3" />
+                {entry.actorEmail ?? (entry.actorId ? entry.actorId : 'System')}
+              </div>
+
+              {changes.length > 0 && (
+                <div className="text-xs space-y-1">
+                  {changes.map(change => (
+                    <div key={change.field} className="grid grid-cols-3 gap-2">
+                      <span className="font-medium">{change.field}</span>
+                      <span className="text-red-600 line-through truncate">{formatAuditValue(change.before)}</span>
+                      <span className="text-green-700 truncate">{formatAuditValue(change.after)}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </ScrollArea>
+  );
+}
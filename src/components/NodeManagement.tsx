@@ -8,7 +8,11 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { ScrollArea } from '@/components/ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { NODE_TYPE_TABLES, isNetworkNodeType } from '@/lib/networkEdits';
+import { NodeHistoryPanel } from './NodeHistoryPanel';
 import { 
   Plus, 
   MapPin, 
@@ -16,6 +20,10 @@ import {
   Trash2, 
   Eye, 
   EyeOff,
+  Lock,
+  Undo2,
+  Redo2,
+  History,
 } from 'lucide-react';
 
 interface NetworkNode {
@@ -26,6 +34,7 @@ interface NetworkNode {
   lng: number;
   capacity: number;
   production?: number;
+  demand?: number;
   district: string;
   contact?: string;
   phone?: string;
@@ -33,10 +42,25 @@ interface NetworkNode {
   isCustom?: boolean;
 }
 
+export interface NodeEditHistory {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel?: string;
+  redoLabel?: string;
+  isSaving: boolean;
+  onUndo: () => Promise<void>;
+  onRedo: () => Promise<void>;
+}
+
 interface NodeManagementProps {
   nodes: NetworkNode[];
-  onNodesChange: (nodes: NetworkNode[]) => void;
+  // The parent decides whether a change is saved or kept in the local network
+  onNodeAdd: (node: NetworkNode) => Promise<void> | void;
+  onNodeUpdate: (node: NetworkNode) => Promise<void> | void;
+  onNodeDelete: (node: NetworkNode) => Promise<void> | void;
   onNodeVisibilityToggle: (nodeId: string) => void;
+  onNodeRestore?: (node: NetworkNode, fields: Record<string, unknown>) => Promise<void>;
+  history?: NodeEditHistory;
 }
 
 const NODE_TYPES = [
@@ -47,9 +71,21 @@ const NODE_TYPES = [
   { value: 'retail', label: 'Retail Outlet', icon: '🏪', color: 'bg-red-100 text-red-800' }
 ];
 
-export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }: NodeManagementProps) {
+// Downstream nodes are sized by what they order rather than what they produce
+const DEMAND_NODE_TYPES = ['distributor', 'retail'];
+
+export function NodeManagement({
+  nodes,
+  onNodeAdd,
+  onNodeUpdate,
+  onNodeDelete,
+  onNodeVisibilityToggle,
+  onNodeRestore,
+  history
+}: NodeManagementProps) {
   const [isAddingNode, setIsAddingNode] = useState(false);
   const [editingNode, setEditingNode] = useState<NetworkNode | null>(null);
+  const [historyNode, setHistoryNode] = useState<NetworkNode | null>(null);
   const [formData, setFormData] = useState({
     name: '',
     type: '',
@@ -57,11 +93,13 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
     lng: '',
     capacity: '',
     production: '',
+    demand: '',
     district: '',
     contact: '',
     phone: ''
   });
   const { toast } = useToast();
+  const { canManageNetwork, role } = useAuth();
 
   const resetForm = () => {
     setFormData({
@@ -71,6 +109,7 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
       lng: '',
       capacity: '',
       production: '',
+      demand: '',
       district: '',
       contact: '',
       phone: ''
@@ -106,7 +145,22 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
     return true;
   };
 
-  const handleAddNode = () => {
+  const runEdit = async (edit: () => Promise<void> | void, title: string, description: string) => {
+    try {
+      await edit();
+      toast({ title, description });
+      return true;
+    } catch (error) {
+      toast({
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "The change could not be saved",
+        variant: "destructive"
+      });
+      return false;
+    }
+  };
+
+  const handleAddNode = async () => {
     if (!validateForm()) return;
 
     const newNode: NetworkNode = {
@@ -117,6 +171,7 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
       lng: parseFloat(formData.lng),
       capacity: parseInt(formData.capacity),
       production: formData.production ? parseInt(formData.production) : undefined,
+      demand: formData.demand ? parseInt(formData.demand) : undefined,
       district: formData.district.trim() || 'Unknown',
       contact: formData.contact.trim() || undefined,
       phone: formData.phone.trim() || undefined,
@@ -124,13 +179,12 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
       isCustom: true
     };
 
-    onNodesChange([...nodes, newNode]);
-    resetForm();
-    
-    toast({
-      title: "Node Added",
-      description: `${newNode.name} has been successfully added to the network`,
-    });
+    const saved = await runEdit(
+      () => onNodeAdd(newNode),
+      "Node Added",
+      `${newNode.name} has been successfully added to the network`
+    );
+    if (saved) resetForm();
   };
 
   const handleEditNode = (node: NetworkNode) => {
@@ -142,6 +196,7 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
       lng: node.lng.toString(),
       capacity: node.capacity.toString(),
       production: node.production?.toString() || '',
+      demand: node.demand?.toString() || '',
       district: node.district,
       contact: node.contact || '',
       phone: node.phone || ''
@@ -149,7 +204,7 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
     setIsAddingNode(true);
   };
 
-  const handleUpdateNode = () => {
+  const handleUpdateNode = async () => {
     if (!validateForm() || !editingNode) return;
 
     const updatedNode: NetworkNode = {
@@ -160,42 +215,49 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
       lng: parseFloat(formData.lng),
       capacity: parseInt(formData.capacity),
       production: formData.production ? parseInt(formData.production) : undefined,
+      demand: formData.demand ? parseInt(formData.demand) : undefined,
       district: formData.district.trim() || 'Unknown',
       contact: formData.contact.trim() || undefined,
       phone: formData.phone.trim() || undefined,
     };
 
-    const updatedNodes = nodes.map(node => 
-      node.id === editingNode.id ? updatedNode : node
+    const saved = await runEdit(
+      () => onNodeUpdate(updatedNode),
+      "Node Updated",
+      `${updatedNode.name} has been successfully updated`
     );
-    
-    onNodesChange(updatedNodes);
-    resetForm();
-    
-    toast({
-      title: "Node Updated",
-      description: `${updatedNode.name} has been successfully updated`,
-    });
+    if (saved) resetForm();
   };
 
-  const handleDeleteNode = (nodeId: string) => {
-    const nodeToDelete = nodes.find(n => n.id === nodeId);
-    if (!nodeToDelete?.isCustom) {
+  const handleDeleteNode = (node: NetworkNode) => runEdit(
+    () => onNodeDelete(node),
+    "Node Deleted",
+    `${node.name} has been removed from the network${history ? ' (undo to restore it)' : ''}`
+  );
+
+  const runHistoryStep = async (step: () => Promise<void>) => {
+    try {
+      await step();
+    } catch (error) {
       toast({
-        title: "Cannot Delete",
-        description: "Only custom nodes can be deleted",
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "The change could not be saved",
         variant: "destructive"
       });
-      return;
     }
+  };
 
-    const updatedNodes = nodes.filter(node => node.id !== nodeId);
-    onNodesChange(updatedNodes);
-    
-    toast({
-      title: "Node Deleted",
-      description: `${nodeToDelete.name} has been removed from the network`,
-    });
+  // Only nodes stored in the network tables have an audit trail
+  const historyTable = (node: NetworkNode) =>
+    !node.isCustom && isNetworkNodeType(node.type) ? NODE_TYPE_TABLES[node.type] : undefined;
+
+  const handleRestore = async (fields: Record<string, unknown>) => {
+    if (!historyNode || !onNodeRestore) return;
+    await runEdit(
+      () => onNodeRestore(historyNode, fields),
+      "Version Restored",
+      `${historyNode.name} has been restored to the selected version`
+    );
   };
 
   const getNodeTypeInfo = (type: string) => {
@@ -219,7 +281,14 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {!isAddingNode ? (
+          {!canManageNetwork ? (
+            <Alert>
+              <Lock className="h-4 w-4" />
+              <AlertDescription>
+                Your {role ?? 'current'} role has read-only access to the network. Ask an admin or planner to add or change nodes.
+              </AlertDescription>
+            </Alert>
+          ) : !isAddingNode ? (
             <Button onClick={() => setIsAddingNode(true)} className="w-full">
               <Plus className="h-4 w-4 mr-2" />
               Add New Node
@@ -239,7 +308,11 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
                 
                 <div>
                   <Label htmlFor="type">Facility Type *</Label>
-                  <Select value={formData.type} onValueChange={(value) => setFormData(prev => ({ ...prev, type: value }))}>
+                  <Select
+                    value={formData.type}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, type: value }))}
+                    disabled={editingNode !== null && !editingNode.isCustom}
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder="Select facility type" />
                     </SelectTrigger>
@@ -295,16 +368,29 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
                   />
                 </div>
                 
-                <div>
-                  <Label htmlFor="production">Daily Production (Liters)</Label>
-                  <Input
-                    id="production"
-                    type="number"
-                    value={formData.production}
-                    onChange={(e) => setFormData(prev => ({ ...prev, production: e.target.value }))}
-                    placeholder="5000 (for farms)"
-                  />
-                </div>
+                {DEMAND_NODE_TYPES.includes(formData.type) ? (
+                  <div>
+                    <Label htmlFor="demand">Daily Demand (Liters)</Label>
+                    <Input
+                      id="demand"
+                      type="number"
+                      value={formData.demand}
+                      onChange={(e) => setFormData(prev => ({ ...prev, demand: e.target.value }))}
+                      placeholder="1200"
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="production">Daily Production (Liters)</Label>
+                    <Input
+                      id="production"
+                      type="number"
+                      value={formData.production}
+                      onChange={(e) => setFormData(prev => ({ ...prev, production: e.target.value }))}
+                      placeholder="5000 (for farms)"
+                    />
+                  </div>
+                )}
               </div>
 
               <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -343,6 +429,7 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
                 <Button 
                   onClick={editingNode ? handleUpdateNode : handleAddNode} 
                   className="flex-1"
+                  disabled={history?.isSaving}
                 >
                   <MapPin className="h-4 w-4 mr-2" />
                   {editingNode ? 'Update Node' : 'Add Node'}
@@ -380,7 +467,29 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
               <MapPin className="h-5 w-5" />
               Network Nodes ({nodes.length} total)
             </div>
-            <div className="flex gap-2 text-sm">
+            <div className="flex items-center gap-2 text-sm">
+              {history && canManageNetwork && (
+                <>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => runHistoryStep(history.onUndo)}
+                    disabled={!history.canUndo || history.isSaving}
+                    title={history.undoLabel ? `Undo: ${history.undoLabel}` : 'Nothing to undo'}
+                  >
+                    <Undo2 className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => runHistoryStep(history.onRedo)}
+                    disabled={!history.canRedo || history.isSaving}
+                    title={history.redoLabel ? `Redo: ${history.redoLabel}` : 'Nothing to redo'}
+                  >
+                    <Redo2 className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
               <Badge variant="default">{visibleNodes.length} visible</Badge>
               <Badge variant="secondary">{hiddenNodes.length} hidden</Badge>
             </div>
@@ -428,6 +537,11 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
                               {node.production.toLocaleString()}L/day
                             </div>
                           )}
+                          {node.demand && (
+                            <div className="text-xs text-muted-foreground">
+                              {node.demand.toLocaleString()}L/day demand
+                            </div>
+                          )}
                         </div>
                       </TableCell>
                       <TableCell>{node.district}</TableCell>
@@ -445,18 +559,31 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
                           >
                             {node.isVisible ? <Eye className="h-4 w-4" /> : <EyeOff className="h-4 w-4" />}
                           </Button>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={() => handleEditNode(node)}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          {node.isCustom && (
+                          {canManageNetwork && (
                             <Button
                               size="sm"
                               variant="ghost"
-                              onClick={() => handleDeleteNode(node.id)}
+                              onClick={() => handleEditNode(node)}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canManageNetwork && historyTable(node) && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => setHistoryNode(node)}
+                              title="Change history"
+                            >
+                              <History className="h-4 w-4" />
+                            </Button>
+                          )}
+                          {canManageNetwork && (
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDeleteNode(node)}
+                              disabled={history?.isSaving}
                             >
                               <Trash2 className="h-4 w-4" />
                             </Button>
@@ -480,12 +607,34 @@ export function NodeManagement({ nodes, onNodesChange, onNodeVisibilityToggle }:
         </CardContent>
       </Card>
 
+      <Dialog open={historyNode !== null} onOpenChange={(open) => !open && setHistoryNode(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              {historyNode?.name} History
+            </DialogTitle>
+            <DialogDescription>
+              Every change to this record with who made it and when. Restoring a version saves it as a new change.
+            </DialogDescription>
+          </DialogHeader>
+          {historyNode && historyTable(historyNode) && (
+            <NodeHistoryPanel
+              table={historyTable(historyNode)!}
+              recordId={historyNode.id}
+              onRestore={onNodeRestore ? handleRestore : undefined}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
       <Alert>
         <MapPin className="h-4 w-4" />
         <AlertDescription>
           <strong>Node Management Tips:</strong> Use coordinates for precise placement. 
-          Bangalore coordinates: Lat 12.9716, Lng 77.5946. Custom nodes can be edited and deleted, 
-          while demo nodes can only be hidden/shown. Capacity should reflect realistic values for each facility type.
+          Bangalore coordinates: Lat 12.9716, Lng 77.5946. Farms, collection centers and processing plants are saved
+          to the network database and changes can be undone; distributors and retail outlets stay in this session as
+          custom nodes. Capacity should reflect realistic values for each facility type.
         </AlertDescription>
       </Alert>
     </div>
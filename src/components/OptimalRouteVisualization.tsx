@@ -7,6 +7,7 @@ interface OptimalRouteProps {
   totalDistance: number;
   totalCost: number;
   efficiency: 'optimal' | 'good' | 'poor';
+  color?: string; // overrides the efficiency color, e.g. to tell vehicle tours apart
 }
 
 const createRouteMarker = (index: number, isStart: boolean, isEnd: boolean) => {
@@ -51,11 +52,11 @@ const createRouteMarker = (index: number, isStart: boolean, isEnd: boolean) => {
   });
 };
 
-export function OptimalRouteVisualization({ route, totalDistance, totalCost, efficiency }: OptimalRouteProps) {
+export function OptimalRouteVisualization({ route, totalDistance, totalCost, efficiency, color }: OptimalRouteProps) {
   if (route.length < 2) return null;
 
-  const routeColor = efficiency === 'optimal' ? '#10B981' : 
-                   efficiency === 'good' ? '#F59E0B' : '#EF4444';
+  const routeColor = color ?? (efficiency === 'optimal' ? '#10B981' : 
+                   efficiency === 'good' ? '#F59E0B' : '#EF4444');
 
   const routePositions = route.map(point => [point.lat, point.lng] as [number, number]);
 
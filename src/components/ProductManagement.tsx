@@ -5,17 +5,35 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Alert, AlertDescription } from '@/components/ui/alert';
-import { DAIRY_PRODUCTS, VEHICLE_TYPES } from '@/data/dairyProducts';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import { LoadPlanner } from './LoadPlanner';
+import {
+  catalogId,
+  validateProduct,
+  validateVehicleType,
+  PRODUCT_CATEGORIES,
+  TEMPERATURE_SENSITIVITIES,
+  VEHICLE_CLASSES
+} from '@/lib/productCatalog';
 import { DairyProduct, VehicleType } from '@/types/products';
-import { 
-  Thermometer, 
-  Clock, 
-  AlertTriangle, 
-  Truck, 
+import {
+  Thermometer,
+  Clock,
+  AlertTriangle,
+  Truck,
   Package,
-  Info
+  Info,
+  Plus,
+  Save,
+  Pencil,
+  Trash2
 } from 'lucide-react';
 
 interface ProductManagementProps {
@@ -25,16 +43,201 @@ interface ProductManagementProps {
   onVehiclesChange: (vehicles: string[]) => void;
 }
 
-export function ProductManagement({ 
-  selectedProducts, 
+// Editor state: numbers are kept as typed so that blank fields can be told apart from zero
+interface ProductForm {
+  isNew: boolean;
+  id: string;
+  name: string;
+  category: DairyProduct['category'];
+  tempMin: string;
+  tempMax: string;
+  tempOptimal: string;
+  shelfAmbient: string;
+  shelfRefrigerated: string;
+  shelfFrozen: string;
+  sensitivity: DairyProduct['qualityFactors']['temperatureSensitivity'];
+  lightSensitive: boolean;
+  oxygenSensitive: boolean;
+  spoilageAmbient: string;
+  spoilageRefrigerated: string;
+  fat: string;
+  protein: string;
+  lactose: string;
+  packaging: string; // comma separated
+  transport: string; // comma separated
+}
+
+interface VehicleTypeForm {
+  isNew: boolean;
+  id: string;
+  name: string;
+  type: VehicleType['type'];
+  capacity: string;
+  canMaintain: boolean;
+  rangeMin: string;
+  rangeMax: string;
+  maxTripHours: string;
+  fuelEfficiency: string;
+  costPerKm: string;
+  multiDay: boolean;
+  categories: string[];
+  compartments: { name: string; capacity: string; min: string; max: string }[];
+}
+
+const text = (value: number | undefined) => value === undefined ? '' : String(value);
+// Blank required fields become NaN, which validation reports
+const required = (value: string) => value.trim() === '' ? NaN : Number(value);
+const optional = (value: string) => value.trim() === '' ? undefined : Number(value);
+const list = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+const emptyProductForm = (): ProductForm => ({
+  isNew: true,
+  id: '',
+  name: '',
+  category: 'milk',
+  tempMin: '1',
+  tempMax: '4',
+  tempOptimal: '3',
+  shelfAmbient: '',
+  shelfRefrigerated: '',
+  shelfFrozen: '',
+  sensitivity: 'high',
+  lightSensitive: false,
+  oxygenSensitive: false,
+  spoilageAmbient: '',
+  spoilageRefrigerated: '',
+  fat: '',
+  protein: '',
+  lactose: '',
+  packaging: '',
+  transport: ''
+});
+
+const productFormOf = (product: DairyProduct): ProductForm => ({
+  isNew: false,
+  id: product.id,
+  name: product.name,
+  category: product.category,
+  tempMin: text(product.temperatureRange.min),
+  tempMax: text(product.temperatureRange.max),
+  tempOptimal: text(product.temperatureRange.optimal),
+  shelfAmbient: text(product.shelfLife.ambient),
+  shelfRefrigerated: text(product.shelfLife.refrigerated),
+  shelfFrozen: text(product.shelfLife.frozen),
+  sensitivity: product.qualityFactors.temperatureSensitivity,
+  lightSensitive: product.qualityFactors.lightSensitivity,
+  oxygenSensitive: product.qualityFactors.oxygenSensitivity,
+  spoilageAmbient: text(product.spoilageRate.perHourAtAmbient),
+  spoilageRefrigerated: text(product.spoilageRate.perHourRefrigerated),
+  fat: text(product.nutritionalInfo?.fatContent),
+  protein: text(product.nutritionalInfo?.proteinContent),
+  lactose: text(product.nutritionalInfo?.lactoseContent),
+  packaging: product.packagingRequirements.join(', '),
+  transport: product.transportRequirements.join(', ')
+});
+
+const productOf = (form: ProductForm): DairyProduct => ({
+  id: form.isNew ? catalogId(form.name) : form.id,
+  name: form.name,
+  category: form.category,
+  temperatureRange: { min: required(form.tempMin), max: required(form.tempMax), optimal: required(form.tempOptimal) },
+  shelfLife: { ambient: required(form.shelfAmbient), refrigerated: required(form.shelfRefrigerated), frozen: optional(form.shelfFrozen) },
+  qualityFactors: {
+    temperatureSensitivity: form.sensitivity,
+    lightSensitivity: form.lightSensitive,
+    oxygenSensitivity: form.oxygenSensitive
+  },
+  spoilageRate: { perHourAtAmbient: required(form.spoilageAmbient), perHourRefrigerated: required(form.spoilageRefrigerated) },
+  nutritionalInfo: { fatContent: optional(form.fat), proteinContent: optional(form.protein), lactoseContent: optional(form.lactose) },
+  packagingRequirements: list(form.packaging),
+  transportRequirements: list(form.transport)
+});
+
+const emptyVehicleTypeForm = (): VehicleTypeForm => ({
+  isNew: true,
+  id: '',
+  name: '',
+  type: 'refrigerated',
+  capacity: '',
+  canMaintain: true,
+  rangeMin: '',
+  rangeMax: '',
+  maxTripHours: '',
+  fuelEfficiency: '',
+  costPerKm: '',
+  multiDay: false,
+  categories: ['milk'],
+  compartments: []
+});
+
+const vehicleTypeFormOf = (vehicle: VehicleType): VehicleTypeForm => ({
+  isNew: false,
+  id: vehicle.id,
+  name: vehicle.name,
+  type: vehicle.type,
+  capacity: text(vehicle.capacity),
+  canMaintain: vehicle.temperatureControl.canMaintain,
+  rangeMin: text(vehicle.temperatureControl.range?.min),
+  rangeMax: text(vehicle.temperatureControl.range?.max),
+  maxTripHours: text(vehicle.maxTripDuration),
+  fuelEfficiency: text(vehicle.fuelEfficiency),
+  costPerKm: text(vehicle.costPerKm),
+  multiDay: vehicle.multiDayCapable,
+  categories: vehicle.suitableProducts,
+  compartments: (vehicle.compartments ?? []).map(c => ({
+    name: c.name,
+    capacity: text(c.capacity),
+    min: text(c.temperatureRange.min),
+    max: text(c.temperatureRange.max)
+  }))
+});
+
+const vehicleTypeOf = (form: VehicleTypeForm): VehicleType => ({
+  id: form.isNew ? catalogId(form.name) : form.id,
+  name: form.name,
+  type: form.type,
+  capacity: required(form.capacity),
+  temperatureControl: {
+    canMaintain: form.canMaintain,
+    range: form.rangeMin.trim() === '' && form.rangeMax.trim() === ''
+      ? undefined
+      : { min: required(form.rangeMin), max: required(form.rangeMax) }
+  },
+  maxTripDuration: required(form.maxTripHours),
+  fuelEfficiency: required(form.fuelEfficiency),
+  costPerKm: required(form.costPerKm),
+  multiDayCapable: form.multiDay,
+  suitableProducts: form.categories,
+  compartments: form.compartments.length > 0
+    ? form.compartments.map(c => ({
+      name: c.name,
+      capacity: required(c.capacity),
+      temperatureRange: { min: required(c.min), max: required(c.max) }
+    }))
+    : undefined
+});
+
+export function ProductManagement({
+  selectedProducts,
   onProductsChange,
   selectedVehicles,
-  onVehiclesChange 
+  onVehiclesChange
 }: ProductManagementProps) {
-  const [customProducts, setCustomProducts] = useState<DairyProduct[]>([]);
-  const [editingProduct, setEditingProduct] = useState<DairyProduct | null>(null);
+  const { toast } = useToast();
+  const { canManageNetwork } = useAuth();
+  const {
+    products,
+    vehicleTypes,
+    saveProduct,
+    deleteProduct,
+    saveVehicleType,
+    deleteVehicleType,
+    isSaving
+  } = useProductCatalog();
 
-  const allProducts = [...DAIRY_PRODUCTS, ...customProducts];
+  const [productForm, setProductForm] = useState<ProductForm | null>(null);
+  const [vehicleForm, setVehicleForm] = useState<VehicleTypeForm | null>(null);
+  const [formErrors, setFormErrors] = useState<string[]>([]);
 
   const toggleProduct = (productId: string) => {
     if (selectedProducts.includes(productId)) {
@@ -65,6 +268,92 @@ export function ProductManagement({
     return 'text-red-600';
   };
 
+  const reportError = (fallback: string) => (error: unknown) => toast({
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback,
+    variant: "destructive"
+  });
+
+  const openProductForm = (form: ProductForm) => {
+    setFormErrors([]);
+    setProductForm(form);
+  };
+
+  const openVehicleForm = (form: VehicleTypeForm) => {
+    setFormErrors([]);
+    setVehicleForm(form);
+  };
+
+  const submitProduct = async () => {
+    if (!productForm) return;
+    const product = productOf(productForm);
+    const errors = validateProduct(product);
+    if (productForm.isNew && products.some(p => p.id === product.id)) errors.push(`A product with id "${product.id}" already exists`);
+    setFormErrors(errors);
+    if (errors.length > 0) return;
+    try {
+      await saveProduct({ product, isNew: productForm.isNew });
+      toast({ title: "Product saved", description: product.name });
+      setProductForm(null);
+    } catch (error) {
+      reportError("Failed to save the product")(error);
+    }
+  };
+
+  const submitVehicleType = async () => {
+    if (!vehicleForm) return;
+    const vehicleType = vehicleTypeOf(vehicleForm);
+    const errors = validateVehicleType(vehicleType);
+    if (vehicleForm.isNew && vehicleTypes.some(v => v.id === vehicleType.id)) errors.push(`A vehicle type with id "${vehicleType.id}" already exists`);
+    setFormErrors(errors);
+    if (errors.length > 0) return;
+    try {
+      await saveVehicleType({ vehicleType, isNew: vehicleForm.isNew });
+      toast({ title: "Vehicle type saved", description: vehicleType.name });
+      setVehicleForm(null);
+    } catch (error) {
+      reportError("Failed to save the vehicle type")(error);
+    }
+  };
+
+  const removeProduct = async (product: DairyProduct) => {
+    try {
+      await deleteProduct(product.id);
+      onProductsChange(selectedProducts.filter(id => id !== product.id));
+      toast({ title: "Product deleted", description: product.name });
+    } catch (error) {
+      reportError("Failed to delete the product")(error);
+    }
+  };
+
+  const removeVehicleType = async (vehicle: VehicleType) => {
+    try {
+      await deleteVehicleType(vehicle.id);
+      onVehiclesChange(selectedVehicles.filter(id => id !== vehicle.id));
+      toast({ title: "Vehicle type deleted", description: vehicle.name });
+    } catch (error) {
+      reportError("Failed to delete the vehicle type (is it still used by registered vehicles?)")(error);
+    }
+  };
+
+  const errorList = formErrors.length > 0 && (
+    <Alert variant="destructive">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertDescription>
+        <ul className="list-disc pl-4">
+          {formErrors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      </AlertDescription>
+    </Alert>
+  );
+
+  const numberField = (id: string, label: string, value: string, onChange: (value: string) => void) => (
+    <div className="space-y-1">
+      <Label htmlFor={id}>{label}</Label>
+      <Input id={id} type="number" step="any" value={value} onChange={(e) => onChange(e.target.value)} />
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       <Card>
@@ -76,9 +365,10 @@ export function ProductManagement({
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="products" className="w-full">
-            <TabsList className="grid w-full grid-cols-2">
+            <TabsList className="grid w-full grid-cols-3">
               <TabsTrigger value="products">Dairy Products</TabsTrigger>
               <TabsTrigger value="vehicles">Vehicle Types</TabsTrigger>
+              <TabsTrigger value="loads">Load Planning</TabsTrigger>
             </TabsList>
 
             <TabsContent value="products" className="space-y-4">
@@ -90,13 +380,109 @@ export function ProductManagement({
                 </AlertDescription>
               </Alert>
 
+              {canManageNetwork && !productForm && (
+                <Button variant="outline" onClick={() => openProductForm(emptyProductForm())}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Product
+                </Button>
+              )}
+
+              {productForm && (
+                <div className="space-y-4 border rounded-lg p-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="space-y-1 col-span-2">
+                      <Label htmlFor="product-name">Name</Label>
+                      <Input
+                        id="product-name"
+                        value={productForm.name}
+                        placeholder="Khoa (Danedar)"
+                        onChange={(e) => setProductForm({ ...productForm, name: e.target.value })}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Id: {productForm.isNew ? catalogId(productForm.name) || '—' : productForm.id}
+                      </p>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Category</Label>
+                      <Select
+                        value={productForm.category}
+                        onValueChange={(value) => setProductForm({ ...productForm, category: value as DairyProduct['category'] })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {PRODUCT_CATEGORIES.map(category => <SelectItem key={category} value={category}>{category}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Temperature sensitivity</Label>
+                      <Select
+                        value={productForm.sensitivity}
+                        onValueChange={(value) => setProductForm({ ...productForm, sensitivity: value as ProductForm['sensitivity'] })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {TEMPERATURE_SENSITIVITIES.map(level => <SelectItem key={level} value={level}>{level}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {numberField('product-temp-min', 'Min temperature (°C)', productForm.tempMin, value => setProductForm({ ...productForm, tempMin: value }))}
+                    {numberField('product-temp-optimal', 'Optimal temperature (°C)', productForm.tempOptimal, value => setProductForm({ ...productForm, tempOptimal: value }))}
+                    {numberField('product-temp-max', 'Max temperature (°C)', productForm.tempMax, value => setProductForm({ ...productForm, tempMax: value }))}
+                    <div />
+                    {numberField('product-shelf-ambient', 'Shelf life ambient (h)', productForm.shelfAmbient, value => setProductForm({ ...productForm, shelfAmbient: value }))}
+                    {numberField('product-shelf-refrigerated', 'Shelf life refrigerated (h)', productForm.shelfRefrigerated, value => setProductForm({ ...productForm, shelfRefrigerated: value }))}
+                    {numberField('product-shelf-frozen', 'Shelf life frozen (h, optional)', productForm.shelfFrozen, value => setProductForm({ ...productForm, shelfFrozen: value }))}
+                    <div />
+                    {numberField('product-spoilage-ambient', 'Spoilage ambient (%/h)', productForm.spoilageAmbient, value => setProductForm({ ...productForm, spoilageAmbient: value }))}
+                    {numberField('product-spoilage-refrigerated', 'Spoilage refrigerated (%/h)', productForm.spoilageRefrigerated, value => setProductForm({ ...productForm, spoilageRefrigerated: value }))}
+                    <div className="flex items-center gap-2 pt-6">
+                      <Switch
+                        id="product-light"
+                        checked={productForm.lightSensitive}
+                        onCheckedChange={(checked) => setProductForm({ ...productForm, lightSensitive: checked })}
+                      />
+                      <Label htmlFor="product-light">Light sensitive</Label>
+                    </div>
+                    <div className="flex items-center gap-2 pt-6">
+                      <Switch
+                        id="product-oxygen"
+                        checked={productForm.oxygenSensitive}
+                        onCheckedChange={(checked) => setProductForm({ ...productForm, oxygenSensitive: checked })}
+                      />
+                      <Label htmlFor="product-oxygen">Oxygen sensitive</Label>
+                    </div>
+                    {numberField('product-fat', 'Fat %', productForm.fat, value => setProductForm({ ...productForm, fat: value }))}
+                    {numberField('product-protein', 'Protein %', productForm.protein, value => setProductForm({ ...productForm, protein: value }))}
+                    {numberField('product-lactose', 'Lactose %', productForm.lactose, value => setProductForm({ ...productForm, lactose: value }))}
+                    <div />
+                    <div className="space-y-1 col-span-2">
+                      <Label htmlFor="product-packaging">Packaging (comma separated)</Label>
+                      <Input id="product-packaging" value={productForm.packaging} onChange={(e) => setProductForm({ ...productForm, packaging: e.target.value })} />
+                    </div>
+                    <div className="space-y-1 col-span-2">
+                      <Label htmlFor="product-transport">Transport requirements (comma separated)</Label>
+                      <Input id="product-transport" value={productForm.transport} onChange={(e) => setProductForm({ ...productForm, transport: e.target.value })} />
+                    </div>
+                  </div>
+                  {errorList}
+                  <div className="flex gap-2">
+                    <Button onClick={submitProduct} disabled={isSaving}>
+                      <Save className="h-4 w-4 mr-2" />
+                      Save Product
+                    </Button>
+                    <Button variant="ghost" onClick={() => setProductForm(null)}>Cancel</Button>
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-                {allProducts.map((product) => (
-                  <Card 
-                    key={product.id} 
+                {products.map((product) => (
+                  <Card
+                    key={product.id}
                     className={`cursor-pointer transition-all ${
-                      selectedProducts.includes(product.id) 
-                        ? 'ring-2 ring-primary' 
+                      selectedProducts.includes(product.id)
+                        ? 'ring-2 ring-primary'
                         : 'hover:shadow-md'
                     }`}
                     onClick={() => toggleProduct(product.id)}
@@ -129,10 +515,10 @@ export function ProductManagement({
                           </span>
                         </div>
 
-                        {product.nutritionalInfo && (
+                        {product.nutritionalInfo?.fatContent !== undefined && (
                           <div className="text-xs text-muted-foreground">
-                            Fat: {product.nutritionalInfo.fatContent}%, 
-                            Protein: {product.nutritionalInfo.proteinContent}%
+                            Fat: {product.nutritionalInfo.fatContent}%,
+                            Protein: {product.nutritionalInfo.proteinContent ?? '—'}%
                           </div>
                         )}
 
@@ -144,6 +530,17 @@ export function ProductManagement({
                             <Badge variant="secondary" className="text-xs">Light Sensitive</Badge>
                           )}
                         </div>
+
+                        {canManageNetwork && (
+                          <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+                            <Button variant="ghost" size="sm" onClick={() => openProductForm(productFormOf(product))}>
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                            <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => removeProduct(product)}>
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
@@ -159,13 +556,138 @@ export function ProductManagement({
                 </AlertDescription>
               </Alert>
 
+              {canManageNetwork && !vehicleForm && (
+                <Button variant="outline" onClick={() => openVehicleForm(emptyVehicleTypeForm())}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Vehicle Type
+                </Button>
+              )}
+
+              {vehicleForm && (
+                <div className="space-y-4 border rounded-lg p-4">
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    <div className="space-y-1 col-span-2">
+                      <Label htmlFor="vehicle-type-name">Name</Label>
+                      <Input
+                        id="vehicle-type-name"
+                        value={vehicleForm.name}
+                        placeholder="Bulk Milk Cooler Van"
+                        onChange={(e) => setVehicleForm({ ...vehicleForm, name: e.target.value })}
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Id: {vehicleForm.isNew ? catalogId(vehicleForm.name) || '—' : vehicleForm.id}
+                      </p>
+                    </div>
+                    <div className="space-y-1">
+                      <Label>Class</Label>
+                      <Select
+                        value={vehicleForm.type}
+                        onValueChange={(value) => setVehicleForm({ ...vehicleForm, type: value as VehicleType['type'] })}
+                      >
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          {VEHICLE_CLASSES.map(type => <SelectItem key={type} value={type}>{type}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {numberField('vehicle-type-capacity', 'Capacity (L)', vehicleForm.capacity, value => setVehicleForm({ ...vehicleForm, capacity: value }))}
+                    <div className="flex items-center gap-2 pt-6">
+                      <Switch
+                        id="vehicle-type-control"
+                        checked={vehicleForm.canMaintain}
+                        onCheckedChange={(checked) => setVehicleForm({ ...vehicleForm, canMaintain: checked })}
+                      />
+                      <Label htmlFor="vehicle-type-control">Temperature controlled</Label>
+                    </div>
+                    {numberField('vehicle-type-min', 'Range min (°C)', vehicleForm.rangeMin, value => setVehicleForm({ ...vehicleForm, rangeMin: value }))}
+                    {numberField('vehicle-type-max', 'Range max (°C)', vehicleForm.rangeMax, value => setVehicleForm({ ...vehicleForm, rangeMax: value }))}
+                    <div className="flex items-center gap-2 pt-6">
+                      <Switch
+                        id="vehicle-type-multi-day"
+                        checked={vehicleForm.multiDay}
+                        onCheckedChange={(checked) => setVehicleForm({ ...vehicleForm, multiDay: checked })}
+                      />
+                      <Label htmlFor="vehicle-type-multi-day">Multi-day capable</Label>
+                    </div>
+                    {numberField('vehicle-type-trip', 'Max trip (h)', vehicleForm.maxTripHours, value => setVehicleForm({ ...vehicleForm, maxTripHours: value }))}
+                    {numberField('vehicle-type-efficiency', 'Fuel efficiency (km/L)', vehicleForm.fuelEfficiency, value => setVehicleForm({ ...vehicleForm, fuelEfficiency: value }))}
+                    {numberField('vehicle-type-cost', 'Cost (₹/km)', vehicleForm.costPerKm, value => setVehicleForm({ ...vehicleForm, costPerKm: value }))}
+                    <div className="space-y-1 col-span-2 md:col-span-4">
+                      <Label>Suitable for</Label>
+                      <div className="flex flex-wrap gap-3 pt-2">
+                        {PRODUCT_CATEGORIES.map(category => (
+                          <label key={category} className="flex items-center gap-1 text-sm">
+                            <Checkbox
+                              checked={vehicleForm.categories.includes(category)}
+                              onCheckedChange={(checked) => setVehicleForm({
+                                ...vehicleForm,
+                                categories: checked === true
+                                  ? [...vehicleForm.categories, category]
+                                  : vehicleForm.categories.filter(c => c !== category)
+                              })}
+                            />
+                            {category}
+                          </label>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="space-y-2 col-span-2 md:col-span-4">
+                      <Label>Compartments (separately controlled temperature zones)</Label>
+                      {vehicleForm.compartments.map((compartment, i) => {
+                        const setCompartment = (change: Partial<VehicleTypeForm['compartments'][number]>) => setVehicleForm({
+                          ...vehicleForm,
+                          compartments: vehicleForm.compartments.map((c, j) => j === i ? { ...c, ...change } : c)
+                        });
+                        return (
+                          <div key={i} className="grid grid-cols-5 gap-2 items-center">
+                            <Input placeholder="Name" value={compartment.name} onChange={(e) => setCompartment({ name: e.target.value })} />
+                            <Input type="number" step="any" placeholder="Capacity (L)" value={compartment.capacity} onChange={(e) => setCompartment({ capacity: e.target.value })} />
+                            <Input type="number" step="any" placeholder="Min °C" value={compartment.min} onChange={(e) => setCompartment({ min: e.target.value })} />
+                            <Input type="number" step="any" placeholder="Max °C" value={compartment.max} onChange={(e) => setCompartment({ max: e.target.value })} />
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setVehicleForm({ ...vehicleForm, compartments: vehicleForm.compartments.filter((_, j) => j !== i) })}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        );
+                      })}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => setVehicleForm({
+                          ...vehicleForm,
+                          compartments: [...vehicleForm.compartments, { name: '', capacity: '', min: '', max: '' }]
+                        })}
+                      >
+                        <Plus className="h-3 w-3 mr-1" />
+                        Add Compartment
+                      </Button>
+                      <p className="text-xs text-muted-foreground">
+                        Leave empty for a single cargo space at the vehicle's temperature range.
+                      </p>
+                    </div>
+                  </div>
+                  {errorList}
+                  <div className="flex gap-2">
+                    <Button onClick={submitVehicleType} disabled={isSaving}>
+                      <Save className="h-4 w-4 mr-2" />
+                      Save Vehicle Type
+                    </Button>
+                    <Button variant="ghost" onClick={() => setVehicleForm(null)}>Cancel</Button>
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                {VEHICLE_TYPES.map((vehicle) => (
-                  <Card 
-                    key={vehicle.id} 
+                {vehicleTypes.map((vehicle) => (
+                  <Card
+                    key={vehicle.id}
                     className={`cursor-pointer transition-all ${
-                      selectedVehicles.includes(vehicle.id) 
-                        ? 'ring-2 ring-primary' 
+                      selectedVehicles.includes(vehicle.id)
+                        ? 'ring-2 ring-primary'
                         : 'hover:shadow-md'
                     }`}
                     onClick={() => toggleVehicle(vehicle.id)}
@@ -183,7 +705,7 @@ export function ProductManagement({
                           <span>Capacity: {vehicle.capacity}L</span>
                           <span>Max Trip: {vehicle.maxTripDuration}h</span>
                         </div>
-                        
+
                         <div className="grid grid-cols-2 gap-2">
                           <span>Efficiency: {vehicle.fuelEfficiency} km/L</span>
                           <span>Cost: ₹{vehicle.costPerKm}/km</span>
@@ -201,15 +723,40 @@ export function ProductManagement({
                           </Badge>
                         </div>
 
+                        {vehicle.compartments && (
+                          <div className="flex flex-wrap gap-1">
+                            {vehicle.compartments.map(c => (
+                              <Badge key={c.name} variant="outline" className="text-xs">
+                                {c.name}: {c.capacity}L, {c.temperatureRange.min} to {c.temperatureRange.max}°C
+                              </Badge>
+                            ))}
+                          </div>
+                        )}
+
                         <div className="text-xs text-muted-foreground">
                           Suitable for: {vehicle.suitableProducts.join(', ')}
                         </div>
+
+                        {canManageNetwork && (
+                          <div className="flex justify-end gap-1" onClick={(e) => e.stopPropagation()}>
+                            <Button variant="ghost" size="sm" onClick={() => openVehicleForm(vehicleTypeFormOf(vehicle))}>
+                              <Pencil className="h-3 w-3" />
+                            </Button>
+                            <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => removeVehicleType(vehicle)}>
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </CardContent>
                   </Card>
                 ))}
               </div>
             </TabsContent>
+
+            <TabsContent value="loads">
+              <LoadPlanner selectedProducts={selectedProducts} selectedVehicles={selectedVehicles} />
+            </TabsContent>
           </Tabs>
         </CardContent>
       </Card>
@@ -0,0 +1,481 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Progress } from '@/components/ui/progress';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useDairyData } from '@/hooks/useDairyData';
+import { useMilkForecast } from '@/hooks/useMilkForecast';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import { useProductionLines } from '@/hooks/useProductionLines';
+import { dairyService } from '@/services/dairyService';
+import { inventoryService } from '@/services/inventoryService';
+import { outletDemand } from '@/lib/distributionPlanner';
+import { planningVolumes, PLANNING_VOLUME_BASES, type PlanningVolumeBasis } from '@/lib/milkForecasting';
+import {
+  lineFromRow,
+  literProductsOnly,
+  validateProductionLine,
+  PRODUCTION_HORIZONS,
+  PRODUCTION_UNITS,
+  type ProductionHorizon,
+  type ProductionLineRow,
+  type ProductionPlan
+} from '@/lib/productionPlanning';
+import { Factory, Play, Plus, Save, Trash2, AlertTriangle, RotateCcw } from 'lucide-react';
+
+// Outlets that order without a product breakdown are counted as this product
+const UNSPECIFIED_PRODUCT = 'whole-milk';
+
+interface LineForm {
+  id?: string;
+  plantId: string;
+  productId: string;
+  unit: string;
+  milkPerUnit: string;
+  capacityPerDay: string;
+  marginPerUnit: string;
+  minPerDay: string;
+  active: boolean;
+}
+
+const emptyLineForm = (plantId: string, productId: string): LineForm => ({
+  plantId,
+  productId,
+  unit: 'L',
+  milkPerUnit: '1',
+  capacityPerDay: '10000',
+  marginPerUnit: '0',
+  minPerDay: '0',
+  active: true
+});
+
+const lineFormOf = (line: ProductionLineRow): LineForm => ({
+  id: line.id,
+  plantId: line.plant_id,
+  productId: line.product_id,
+  unit: line.unit,
+  milkPerUnit: String(line.milk_liters_per_unit),
+  capacityPerDay: String(line.line_capacity_per_day),
+  marginPerUnit: String(line.margin_per_unit),
+  minPerDay: String(line.min_units_per_day),
+  active: line.active
+});
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export function ProductionPlanner() {
+  const { toast } = useToast();
+  const { canManageNetwork } = useAuth();
+  const { plants, outlets } = useDairyData();
+  const { products } = useProductCatalog();
+  const { forecasts } = useMilkForecast();
+  const { lines, saveLine, deleteLine, isSaving } = useProductionLines();
+
+  const [horizon, setHorizon] = useState<ProductionHorizon>('day');
+  const [basis, setBasis] = useState<PlanningVolumeBasis>('nameplate');
+  const [useStock, setUseStock] = useState(true);
+  // Demand cap per product and day; blank for no cap, null while following outlet orders
+  const [demand, setDemand] = useState<Record<string, string> | null>(null);
+  const [plan, setPlan] = useState<ProductionPlan | null>(null);
+  const [isPlanning, setIsPlanning] = useState(false);
+  const [form, setForm] = useState<LineForm | null>(null);
+
+  const productName = (id: string) => products.find(p => p.id === id)?.name ?? id;
+  const plantName = (id: string) => plants.find(p => p.id === id)?.name ?? 'Unknown plant';
+
+  // Outlet orders are in liters, so they only fill in the demand of liter products
+  const orders = useMemo(() => {
+    const totals: Record<string, number> = {};
+    outlets.forEach(outlet => Object.entries(outletDemand(outlet, UNSPECIFIED_PRODUCT)).forEach(([productId, liters]) => {
+      totals[productId] = (totals[productId] ?? 0) + liters;
+    }));
+    return literProductsOnly(totals, lines);
+  }, [outlets, lines]);
+  const plannedProducts = products.filter(p => orders[p.id] > 0 || lines.some(line => line.product_id === p.id));
+  const demandValue = (productId: string) => demand?.[productId] ?? (orders[productId] ? String(orders[productId]) : '');
+
+  const reportError = (fallback: string) => (error: unknown) => toast({
+    title: "Error",
+    description: error instanceof Error ? error.message : fallback,
+    variant: "destructive"
+  });
+
+  const runPlan = async () => {
+    const demandPerDay: Record<string, number> = {};
+    plannedProducts.forEach(product => {
+      const value = demandValue(product.id).trim();
+      if (value !== '') demandPerDay[product.id] = Math.max(0, Number(value) || 0);
+    });
+    setIsPlanning(true);
+    try {
+      const inventory = useStock ? await inventoryService.getStartingInventory() : undefined;
+      setPlan(await dairyService.planProduction(horizon, demandPerDay, planningVolumes(forecasts, basis), inventory));
+    } catch (error) {
+      reportError("Production planning failed")(error);
+    } finally {
+      setIsPlanning(false);
+    }
+  };
+
+  const submitLine = async () => {
+    if (!form) return;
+    const line = {
+      productId: form.productId,
+      unit: form.unit,
+      milkPerUnit: Number(form.milkPerUnit),
+      capacityPerDay: Number(form.capacityPerDay),
+      marginPerUnit: Number(form.marginPerUnit),
+      minPerDay: Number(form.minPerDay)
+    };
+    const errors = [
+      ...(form.plantId ? [] : ['Choose a plant']),
+      ...validateProductionLine(line),
+      ...(lines.some(l => l.id !== form.id && l.plant_id === form.plantId && l.product_id === form.productId)
+        ? ['The plant already has a line for this product']
+        : [])
+    ];
+    if (errors.length > 0) {
+      toast({ title: "Error", description: errors.join('. '), variant: "destructive" });
+      return;
+    }
+    try {
+      await saveLine({
+        id: form.id,
+        plant_id: form.plantId,
+        product_id: line.productId,
+        unit: line.unit,
+        milk_liters_per_unit: line.milkPerUnit,
+        line_capacity_per_day: line.capacityPerDay,
+        margin_per_unit: line.marginPerUnit,
+        min_units_per_day: line.minPerDay,
+        active: form.active
+      });
+      toast({ title: "Production line saved", description: `${plantName(form.plantId)}: ${productName(form.productId)}` });
+      setForm(null);
+    } catch (error) {
+      reportError("Could not save the production line")(error);
+    }
+  };
+
+  const removeLine = async (line: ProductionLineRow) => {
+    try {
+      await deleteLine(line.id);
+      toast({ title: "Production line deleted", description: `${plantName(line.plant_id)}: ${productName(line.product_id)}` });
+    } catch (error) {
+      reportError("Could not delete the production line")(error);
+    }
+  };
+
+  const unitOf = (productId: string) => lines.find(line => line.product_id === productId)?.unit ?? 'L';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Factory className="h-5 w-5" />
+          Production Planning
+        </CardTitle>
+        <CardDescription>
+          Decide each plant's product mix from its forecast milk intake, yields, line capacities, margins and downstream demand.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="plan" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="plan">Product Mix</TabsTrigger>
+            <TabsTrigger value="lines">Production Lines</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="plan" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-1">
+                <Label>Horizon</Label>
+                <Select value={horizon} onValueChange={(value) => setHorizon(value as ProductionHorizon)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {PRODUCTION_HORIZONS.map(h => <SelectItem key={h.value} value={h.value}>{h.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>Milk intake</Label>
+                <Select value={basis} onValueChange={(value) => setBasis(value as PlanningVolumeBasis)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {PLANNING_VOLUME_BASES.map(b => <SelectItem key={b.value} value={b.value}>{b.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch id="use-stock" checked={useStock} onCheckedChange={setUseStock} />
+              <Label htmlFor="use-stock">Start from stock on hand (silo milk and finished goods)</Label>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Downstream demand per day (blank = no limit)</Label>
+                <Button variant="ghost" size="sm" disabled={!demand} onClick={() => setDemand(null)}>
+                  <RotateCcw className="h-3 w-3 mr-1" />
+                  Outlet orders
+                </Button>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {plannedProducts.map(product => (
+                  <div key={product.id} className="space-y-1">
+                    <Label className="text-xs">{product.name} ({unitOf(product.id)})</Label>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="No limit"
+                      value={demandValue(product.id)}
+                      onChange={(e) => setDemand({
+                        ...Object.fromEntries(plannedProducts.map(p => [p.id, demandValue(p.id)])),
+                        [product.id]: e.target.value
+                      })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <Button onClick={runPlan} disabled={isPlanning || plants.length === 0}>
+              <Play className="h-4 w-4 mr-2" />
+              {isPlanning ? 'Planning...' : 'Plan Product Mix'}
+            </Button>
+
+            {plan && (
+              <div className="space-y-4">
+                <div className="flex flex-wrap gap-4 text-sm">
+                  <span>Margin: <strong>₹{Math.round(plan.totalMargin).toLocaleString()}</strong> per {plan.days === 1 ? 'day' : `${plan.days} days`}</span>
+                  <span>Milk used: <strong>{Math.round(plan.milkUsedLiters).toLocaleString()} L</strong> of {Math.round(plan.intakeLiters).toLocaleString()} L intake
+                    {plan.openingMilkLiters > 0 && ` + ${Math.round(plan.openingMilkLiters).toLocaleString()} L in silos`}</span>
+                </div>
+
+                {plan.messages.length > 0 && (
+                  <Alert>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      <ul className="list-disc pl-4">
+                        {plan.messages.map(message => <li key={message}>{message}</li>)}
+                      </ul>
+                    </AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                  {plan.plants.map(plant => (
+                    <div key={plant.plantId} className="border rounded-lg p-3 space-y-2 text-sm">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">{plant.plantName}</span>
+                        {plant.limitedBy && (
+                          <Badge variant="outline">{plant.limitedBy === 'milk' ? 'Limited by milk intake' : 'At processing capacity'}</Badge>
+                        )}
+                      </div>
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>Capacity used</span>
+                        <span>{Math.round(plant.milkUsedLiters).toLocaleString()} / {Math.round(plant.capacityLiters).toLocaleString()} L</span>
+                      </div>
+                      <Progress value={plant.utilization * 100} />
+                      <div className="flex justify-between text-muted-foreground">
+                        <span>
+                          Intake {Math.round(plant.intakeLiters).toLocaleString()} L
+                          {plant.openingMilkLiters > 0 && ` + ${Math.round(plant.openingMilkLiters).toLocaleString()} L in silo`}
+                        </span>
+                        <span>Unused {Math.round(plant.unusedMilkLiters).toLocaleString()} L</span>
+                      </div>
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Product</TableHead>
+                            <TableHead className="text-right">Output</TableHead>
+                            <TableHead className="text-right">Milk</TableHead>
+                            <TableHead className="w-28">Line</TableHead>
+                            <TableHead className="text-right">Margin</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {plant.lines.map(line => (
+                            <TableRow key={line.productId}>
+                              <TableCell>{productName(line.productId)}</TableCell>
+                              <TableCell className="text-right">{Math.round(line.units).toLocaleString()} {line.unit}</TableCell>
+                              <TableCell className="text-right">{Math.round(line.milkLiters).toLocaleString()} L</TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-1">
+                                  <Progress value={line.utilization * 100} className="flex-1" />
+                                  <span className="text-xs w-9 text-right">{percent(line.utilization)}</span>
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-right">₹{Math.round(line.margin).toLocaleString()}</TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                      {plant.lines.length === 0 && <p className="text-muted-foreground">No production lines.</p>}
+                    </div>
+                  ))}
+                </div>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Planned</TableHead>
+                      <TableHead className="text-right">In stock</TableHead>
+                      <TableHead className="text-right">Demand</TableHead>
+                      <TableHead className="text-right">Unmet</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {plan.products.map(product => (
+                      <TableRow key={product.productId}>
+                        <TableCell>{productName(product.productId)}</TableCell>
+                        <TableCell className="text-right">{Math.round(product.units).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">{Math.round(product.stockUnits).toLocaleString()}</TableCell>
+                        <TableCell className="text-right">
+                          {product.demandUnits === undefined ? 'No limit' : Math.round(product.demandUnits).toLocaleString()}
+                        </TableCell>
+                        <TableCell className={`text-right ${product.unmetUnits > 0.5 ? 'text-red-600' : ''}`}>
+                          {Math.round(product.unmetUnits).toLocaleString()}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="lines" className="space-y-4">
+            {canManageNetwork && !form && (
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={plants.length === 0 || products.length === 0}
+                onClick={() => setForm(emptyLineForm(plants[0].id, products[0].id))}
+              >
+                <Plus className="h-3 w-3 mr-1" />
+                Add Line
+              </Button>
+            )}
+
+            {form && (
+              <div className="border rounded-lg p-4 space-y-3">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <div className="space-y-1">
+                    <Label>Plant</Label>
+                    <Select value={form.plantId} onValueChange={(value) => setForm({ ...form, plantId: value })}>
+                      <SelectTrigger><SelectValue placeholder="Plant" /></SelectTrigger>
+                      <SelectContent>
+                        {plants.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Product</Label>
+                    <Select value={form.productId} onValueChange={(value) => setForm({ ...form, productId: value })}>
+                      <SelectTrigger><SelectValue placeholder="Product" /></SelectTrigger>
+                      <SelectContent>
+                        {products.map(p => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label>Unit</Label>
+                    <Select value={form.unit} onValueChange={(value) => setForm({ ...form, unit: value })}>
+                      <SelectTrigger><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {PRODUCTION_UNITS.map(unit => <SelectItem key={unit} value={unit}>{unit}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="milk-per-unit">Milk per {form.unit} (L)</Label>
+                    <Input id="milk-per-unit" type="number" min={0} step="0.1" value={form.milkPerUnit} onChange={(e) => setForm({ ...form, milkPerUnit: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="line-capacity">Line capacity ({form.unit}/day)</Label>
+                    <Input id="line-capacity" type="number" min={0} value={form.capacityPerDay} onChange={(e) => setForm({ ...form, capacityPerDay: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="line-margin">Margin (₹/{form.unit})</Label>
+                    <Input id="line-margin" type="number" value={form.marginPerUnit} onChange={(e) => setForm({ ...form, marginPerUnit: e.target.value })} />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor="line-minimum">Minimum ({form.unit}/day)</Label>
+                    <Input id="line-minimum" type="number" min={0} value={form.minPerDay} onChange={(e) => setForm({ ...form, minPerDay: e.target.value })} />
+                  </div>
+                  <div className="flex items-center gap-2 pt-6">
+                    <Switch id="line-active" checked={form.active} onCheckedChange={(checked) => setForm({ ...form, active: checked })} />
+                    <Label htmlFor="line-active">Active</Label>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={submitLine} disabled={isSaving}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                  <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+                </div>
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Plant</TableHead>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Milk per unit</TableHead>
+                  <TableHead className="text-right">Capacity/day</TableHead>
+                  <TableHead className="text-right">Minimum/day</TableHead>
+                  <TableHead className="text-right">Margin</TableHead>
+                  <TableHead className="text-right">Margin per L milk</TableHead>
+                  {canManageNetwork && <TableHead />}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map(row => {
+                  const line = lineFromRow(row);
+                  return (
+                    <TableRow key={row.id} className={row.active ? '' : 'text-muted-foreground'}>
+                      <TableCell>{plantName(row.plant_id)}</TableCell>
+                      <TableCell>
+                        {productName(row.product_id)}
+                        {!row.active && <Badge variant="outline" className="ml-2">Inactive</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{line.milkPerUnit} L/{line.unit}</TableCell>
+                      <TableCell className="text-right">{line.capacityPerDay.toLocaleString()} {line.unit}</TableCell>
+                      <TableCell className="text-right">{line.minPerDay.toLocaleString()} {line.unit}</TableCell>
+                      <TableCell className="text-right">₹{line.marginPerUnit}/{line.unit}</TableCell>
+                      <TableCell className="text-right">₹{(line.marginPerUnit / line.milkPerUnit).toFixed(2)}</TableCell>
+                      {canManageNetwork && (
+                        <TableCell>
+                          <div className="flex gap-1">
+                            <Button variant="outline" size="sm" onClick={() => setForm(lineFormOf(row))}>Edit</Button>
+                            <Button variant="ghost" size="sm" disabled={isSaving} onClick={() => removeLine(row)}>
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {lines.length === 0 && <p className="text-sm text-muted-foreground">No production lines yet.</p>}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
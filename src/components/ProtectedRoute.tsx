@@ -0,0 +1,44 @@
+import { ReactNode } from 'react';
+import { Navigate } from 'react-router-dom';
+import { useAuth, type AppRole } from '@/hooks/useAuth';
+import { Loader2, ShieldAlert } from 'lucide-react';
+
+interface ProtectedRouteProps {
+  children: ReactNode;
+  roles?: AppRole[]; // omitted: any signed-in user
+}
+
+export function ProtectedRoute({ children, roles }: ProtectedRouteProps) {
+  const { user, loading, hasRole } = useAuth();
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mx-auto mb-4" />
+          <p className="text-muted-foreground">Authenticating...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/auth" replace />;
+  }
+
+  if (roles && !hasRole(...roles)) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-center">
+          <ShieldAlert className="h-8 w-8 text-destructive mx-auto mb-4" />
+          <h1 className="text-xl font-semibold mb-2">Access denied</h1>
+          <p className="text-muted-foreground">
+            This page requires the {roles.join(' or ')} role.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useDynamicMetrics } from './DynamicMetricsCalculator';
-import { dairyProducts } from '@/data/dairyProducts';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -41,6 +41,7 @@ export function RealTimeMetrics({
 }: RealTimeMetricsProps) {
   const [previousMetrics, setPreviousMetrics] = useState<any>(null);
   const [animationTrigger, setAnimationTrigger] = useState(0);
+  const { products } = useProductCatalog();
 
   // Use dynamic metrics calculator
   const currentMetrics = useDynamicMetrics({
@@ -220,7 +221,7 @@ export function RealTimeMetrics({
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {selectedProducts.map(productId => {
-              const product = dairyProducts.find(p => p.id === productId);
+              const product = products.find(p => p.id === productId);
               if (!product) return null;
               
               const currentTemp = weatherData?.temperature || 25;
@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useWeatherData } from '@/hooks/useWeatherData';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
+import { calculateDynamicMetrics, type DynamicMetrics } from './DynamicMetricsCalculator';
+import type { NetworkScenario, ScenarioSnapshot } from '@/types/scenarios';
+import { GitCompare, ArrowDown, ArrowUp, Minus } from 'lucide-react';
+
+const CURRENT_ID = '__current__';
+
+interface ScenarioComparisonProps {
+  scenarios: NetworkScenario[];
+  current: ScenarioSnapshot;
+}
+
+interface ComparedMetrics extends DynamicMetrics {
+  totalDistance: number;
+  nodeCount: number;
+  tourCount: number;
+}
+
+interface MetricRow {
+  key: keyof ComparedMetrics;
+  label: string;
+  unit: string;
+  lowerIsBetter: boolean;
+}
+
+const METRIC_ROWS: MetricRow[] = [
+  { key: 'totalCost', label: 'Total Cost', unit: '₹', lowerIsBetter: true },
+  { key: 'totalDistance', label: 'Total Distance', unit: 'km', lowerIsBetter: true },
+  { key: 'totalTime', label: 'Total Time', unit: 'h', lowerIsBetter: true },
+  { key: 'spoilageRisk', label: 'Spoilage Risk', unit: '%', lowerIsBetter: true },
+  { key: 'networkUtilization', label: 'Network Utilization', unit: '%', lowerIsBetter: false },
+  { key: 'efficiency', label: 'Efficiency', unit: '%', lowerIsBetter: false },
+  { key: 'temperatureCompliance', label: 'Temp Compliance', unit: '%', lowerIsBetter: false },
+  { key: 'qualityRetention', label: 'Quality Retention', unit: '%', lowerIsBetter: false },
+  { key: 'costPerKm', label: 'Cost per km', unit: '₹', lowerIsBetter: true },
+  { key: 'nodeCount', label: 'Visible Nodes', unit: '', lowerIsBetter: false },
+  { key: 'tourCount', label: 'Collection Tours', unit: '', lowerIsBetter: true }
+];
+
+function formatValue(value: number, unit: string): string {
+  if (unit === '₹') return `₹${Math.round(value).toLocaleString()}`;
+  return `${Math.round(value * 10) / 10}${unit ? ` ${unit}` : ''}`;
+}
+
+export function ScenarioComparison({ scenarios, current }: ScenarioComparisonProps) {
+  const { weather: weatherData } = useWeatherData();
+  const { products, vehicleTypes } = useProductCatalog();
+  const [baselineId, setBaselineId] = useState<string>(scenarios[0]?.id ?? CURRENT_ID);
+  const [comparisonId, setComparisonId] = useState<string>(CURRENT_ID);
+
+  const snapshotFor = (id: string): ScenarioSnapshot | undefined =>
+    id === CURRENT_ID ? current : scenarios.find(s => s.id === id);
+  const nameFor = (id: string) =>
+    id === CURRENT_ID ? 'Current map' : scenarios.find(s => s.id === id)?.name ?? 'Unknown';
+
+  // Same metrics the live dashboard shows, evaluated against today's weather for both sides
+  const metricsFor = (snapshot: ScenarioSnapshot | undefined): ComparedMetrics | null => {
+    if (!snapshot) return null;
+    const visibleNodes = snapshot.nodes.filter(n => n.isVisible !== false);
+    return {
+      ...calculateDynamicMetrics({
+        selectedProducts: snapshot.selectedProducts,
+        selectedVehicles: snapshot.selectedVehicles,
+        nodes: snapshot.nodes.map(n => ({ ...n, capacity: n.capacity ?? 0 })),
+        optimalRoute: snapshot.summaryRoute,
+        weatherData,
+        catalog: { products, vehicleTypes }
+      }),
+      totalDistance: snapshot.summaryRoute?.totalDistance ?? 0,
+      nodeCount: visibleNodes.length,
+      tourCount: snapshot.routes.length
+    };
+  };
+
+  const baseline = metricsFor(snapshotFor(baselineId));
+  const comparison = metricsFor(snapshotFor(comparisonId));
+
+  const renderDelta = (row: MetricRow) => {
+    if (!baseline || !comparison) return null;
+    const delta = comparison[row.key] - baseline[row.key];
+    if (Math.abs(delta) < 0.05) {
+      return (
+        <span className="flex items-center justify-end gap-1 text-muted-foreground">
+          <Minus className="h-3 w-3" /> no change
+        </span>
+      );
+    }
+
+    const improved = row.lowerIsBetter ? delta < 0 : delta > 0;
+    const percent = baseline[row.key] !== 0 ? (delta / Math.abs(baseline[row.key])) * 100 : null;
+    return (
+      <span className={`flex items-center justify-end gap-1 font-medium ${improved ? 'text-green-600' : 'text-red-600'}`}>
+        {delta > 0 ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />}
+        {delta > 0 ? '+' : '−'}{formatValue(Math.abs(delta), row.unit)}
+        {percent !== null && <span className="text-xs">({percent > 0 ? '+' : ''}{percent.toFixed(1)}%)</span>}
+      </span>
+    );
+  };
+
+  const options = [
+    { id: CURRENT_ID, name: 'Current map (unsaved)' },
+    ...scenarios.map(s => ({ id: s.id, name: s.name }))
+  ];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <GitCompare className="h-5 w-5" />
+          Scenario Comparison
+        </CardTitle>
+        <CardDescription>
+          Deltas are comparison minus baseline; green marks an improvement
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <Label>Baseline</Label>
+            <Select value={baselineId} onValueChange={setBaselineId}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Compare With</Label>
+            <Select value={comparisonId} onValueChange={setComparisonId}>
+              <SelectTrigger className="mt-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {options.map(option => (
+                  <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {baseline && comparison && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Metric</TableHead>
+                <TableHead className="text-right">{nameFor(baselineId)}</TableHead>
+                <TableHead className="text-right">{nameFor(comparisonId)}</TableHead>
+                <TableHead className="text-right">Delta</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {METRIC_ROWS.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell className="font-medium">{row.label}</TableCell>
+                  <TableCell className="text-right">{formatValue(baseline[row.key], row.unit)}</TableCell>
+                  <TableCell className="text-right">{formatValue(comparison[row.key], row.unit)}</TableCell>
+                  <TableCell className="text-right">{renderDelta(row)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,213 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { useScenarios } from '@/hooks/useScenarios';
+import { ScenarioComparison } from './ScenarioComparison';
+import type { NetworkScenario, ScenarioSnapshot } from '@/types/scenarios';
+import { Save, FolderOpen, Copy, Edit, Trash2, Check, X, Layers } from 'lucide-react';
+
+interface ScenarioManagerProps {
+  current: ScenarioSnapshot;
+  activeScenarioId: string | null;
+  onLoad: (scenario: NetworkScenario) => void;
+  onActiveScenarioChange: (scenarioId: string | null) => void;
+}
+
+export function ScenarioManager({ current, activeScenarioId, onLoad, onActiveScenarioChange }: ScenarioManagerProps) {
+  const { scenarios, isLoading, createScenario, updateScenario, renameScenario, cloneScenario, deleteScenario } = useScenarios();
+  const { canManageNetwork } = useAuth();
+  const { toast } = useToast();
+  const [newName, setNewName] = useState('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const activeScenario = scenarios.find(s => s.id === activeScenarioId);
+  const nameById = new Map(scenarios.map(s => [s.id, s.name]));
+
+  const reportError = (title: string) => (error: Error) => {
+    console.error(`${title}:`, error);
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveAsNew = () => {
+    const name = newName.trim() || `Scenario ${scenarios.length + 1}`;
+    createScenario.mutate({ name, snapshot: current }, {
+      onSuccess: (scenario) => {
+        setNewName('');
+        onActiveScenarioChange(scenario.id);
+        toast({ title: "Scenario Saved", description: `"${scenario.name}" saved with ${scenario.nodes.length} nodes` });
+      },
+      onError: reportError('Failed to save scenario')
+    });
+  };
+
+  const saveActive = () => {
+    if (!activeScenario) return;
+    updateScenario.mutate({ id: activeScenario.id, snapshot: current }, {
+      onSuccess: (scenario) => toast({ title: "Scenario Updated", description: `"${scenario.name}" now matches the map` }),
+      onError: reportError('Failed to update scenario')
+    });
+  };
+
+  const startRename = (scenario: NetworkScenario) => {
+    setRenamingId(scenario.id);
+    setRenameValue(scenario.name);
+  };
+
+  const confirmRename = () => {
+    if (!renamingId || !renameValue.trim()) return;
+    renameScenario.mutate({ id: renamingId, name: renameValue.trim() }, {
+      onSuccess: () => setRenamingId(null),
+      onError: reportError('Failed to rename scenario')
+    });
+  };
+
+  const clone = (scenario: NetworkScenario) => {
+    cloneScenario.mutate({ id: scenario.id }, {
+      onSuccess: (copy) => toast({ title: "Scenario Cloned", description: `Created "${copy.name}"` }),
+      onError: reportError('Failed to clone scenario')
+    });
+  };
+
+  const remove = (scenario: NetworkScenario) => {
+    deleteScenario.mutate(scenario.id, {
+      onSuccess: () => {
+        if (scenario.id === activeScenarioId) onActiveScenarioChange(null);
+        toast({ title: "Scenario Deleted", description: `"${scenario.name}" removed` });
+      },
+      onError: reportError('Failed to delete scenario')
+    });
+  };
+
+  const load = (scenario: NetworkScenario) => {
+    onLoad(scenario);
+    toast({ title: "Scenario Loaded", description: `Map restored to "${scenario.name}"` });
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="h-5 w-5" />
+            What-if Scenarios
+          </CardTitle>
+          <CardDescription>
+            Save the map's nodes, optimized routes, product and vehicle selection and constraints, then clone and compare
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2">
+            <Input
+              placeholder="Scenario name, e.g. Add plant at Hoskote"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="flex-1"
+            />
+            <Button
+              onClick={saveAsNew}
+              disabled={createScenario.isPending || !canManageNetwork}
+              title={canManageNetwork ? undefined : 'Only admins and planners can save scenarios'}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save as New
+            </Button>
+            {activeScenario && (
+              <Button variant="outline" onClick={saveActive} disabled={updateScenario.isPending || !canManageNetwork}>
+                <Save className="h-4 w-4 mr-2" />
+                Update "{activeScenario.name}"
+              </Button>
+            )}
+          </div>
+
+          {activeScenario && (
+            <Alert>
+              <FolderOpen className="h-4 w-4" />
+              <AlertDescription>
+                Working on "{activeScenario.name}". Changes on the map stay local until you update the scenario.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {isLoading ? (
+            <div className="text-sm text-muted-foreground">Loading scenarios...</div>
+          ) : scenarios.length === 0 ? (
+            <div className="text-sm text-muted-foreground">No saved scenarios yet</div>
+          ) : (
+            <ScrollArea className="h-72">
+              <div className="space-y-2">
+                {scenarios.map(scenario => (
+                  <div
+                    key={scenario.id}
+                    className={`flex items-center justify-between p-3 border rounded-lg ${scenario.id === activeScenarioId ? 'border-primary bg-primary/5' : ''}`}
+                  >
+                    <div className="flex-1 min-w-0">
+                      {renamingId === scenario.id ? (
+                        <div className="flex gap-2">
+                          <Input
+                            value={renameValue}
+                            onChange={(e) => setRenameValue(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && confirmRename()}
+                            className="h-8"
+                            autoFocus
+                          />
+                          <Button size="sm" variant="ghost" onClick={confirmRename}>
+                            <Check className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => setRenamingId(null)}>
+                            <X className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium truncate">{scenario.name}</span>
+                          {scenario.id === activeScenarioId && <Badge>Active</Badge>}
+                          {scenario.parentId && (
+                            <Badge variant="outline">
+                              Cloned from {nameById.get(scenario.parentId) ?? 'deleted scenario'}
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {scenario.nodes.length} nodes · {scenario.routes.length} tours ·
+                        {' '}{scenario.constraints.maxDistanceKm ?? '—'} km max ·
+                        {' '}updated {scenario.updatedAt ? new Date(scenario.updatedAt).toLocaleString() : '—'}
+                      </div>
+                    </div>
+                    <div className="flex gap-1 ml-2">
+                      <Button size="sm" variant="ghost" onClick={() => load(scenario)} title="Load">
+                        <FolderOpen className="h-4 w-4" />
+                      </Button>
+                      {canManageNetwork && (
+                        <>
+                          <Button size="sm" variant="ghost" onClick={() => startRename(scenario)} title="Rename">
+                            <Edit className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => clone(scenario)} title="Clone">
+                            <Copy className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" onClick={() => remove(scenario)} title="Delete">
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+
+      <ScenarioComparison scenarios={scenarios} current={current} />
+    </div>
+  );
+}
@@ -1,14 +1,24 @@
 
 import React from 'react';
 import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { EnhancedDairyNetworkDesigner } from './EnhancedDairyNetworkDesigner';
+import { FisheriesWorkspace } from './FisheriesWorkspace';
+import { DemandForecasting } from './DemandForecasting';
+import { useAuth } from '@/hooks/useAuth';
 import { 
   Truck, 
   TrendingUp,
-  MapPin
+  MapPin,
+  ShieldCheck,
+  Milk,
+  Fish,
+  LineChart
 } from 'lucide-react';
 
 export function SupplyChainApp() {
+  const { role, region } = useAuth();
+
   return (
     <div className="min-h-screen bg-background">
       <div className="container mx-auto px-4 py-6">
@@ -35,11 +45,44 @@ export function SupplyChainApp() {
               <MapPin className="h-3 w-3 mr-1" />
               Network Analysis
             </Badge>
+            {role && (
+              <Badge variant="outline" className="capitalize">
+                <ShieldCheck className="h-3 w-3 mr-1" />
+                {role}{region ? ` · ${region.replace(/_/g, ' ')}` : ''}
+              </Badge>
+            )}
           </div>
         </div>
 
         {/* Main Content */}
-        <EnhancedDairyNetworkDesigner />
+        <Tabs defaultValue="dairy" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="dairy" className="flex items-center gap-2">
+              <Milk className="h-4 w-4" />
+              Dairy Network
+            </TabsTrigger>
+            <TabsTrigger value="fisheries" className="flex items-center gap-2">
+              <Fish className="h-4 w-4" />
+              Fisheries
+            </TabsTrigger>
+            <TabsTrigger value="forecasting" className="flex items-center gap-2">
+              <LineChart className="h-4 w-4" />
+              Demand Forecast
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="dairy">
+            <EnhancedDairyNetworkDesigner />
+          </TabsContent>
+
+          <TabsContent value="fisheries">
+            <FisheriesWorkspace />
+          </TabsContent>
+
+          <TabsContent value="forecasting">
+            <DemandForecasting />
+          </TabsContent>
+        </Tabs>
       </div>
     </div>
   );
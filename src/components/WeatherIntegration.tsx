@@ -5,8 +5,10 @@ import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
-import { useWeatherData, calculateWeatherSpoilage } from '@/hooks/useWeatherData';
-import { DAIRY_PRODUCTS } from '@/data/dairyProducts';
+import { useWeatherData } from '@/hooks/useWeatherData';
+import { estimateTripSpoilage } from '@/lib/coldChain';
+import { forecastToAmbientProfile } from '@/lib/weather';
+import { useProductCatalog } from '@/hooks/useProductCatalog';
 import { 
   Cloud, 
   Thermometer, 
@@ -30,11 +32,14 @@ export function WeatherIntegration({
 }: WeatherIntegrationProps) {
   const [manualCoords, setManualCoords] = useState({ lat: '', lng: '' });
   const [weatherLocation, setWeatherLocation] = useState(selectedLocation);
+  const { products } = useProductCatalog();
   
-  const { weather, isLoading, error } = useWeatherData(
-    weatherLocation?.lat || 0, 
-    weatherLocation?.lng || 0
+  const { weather, forecast, isLoading, error } = useWeatherData(
+    weatherLocation?.lat, 
+    weatherLocation?.lng
   );
+  const ambient = forecast ? forecastToAmbientProfile(forecast) : null;
+  const next24Hours = forecast?.hourly.slice(0, 24) ?? [];
 
   const handleManualWeatherCheck = () => {
     const lat = parseFloat(manualCoords.lat);
@@ -63,7 +68,7 @@ export function WeatherIntegration({
     return { level: 'low', color: 'default', message: 'Optimal weather conditions' };
   };
 
-  const selectedProductDetails = DAIRY_PRODUCTS.filter(p => 
+  const selectedProductDetails = products.filter(p => 
     selectedProducts.includes(p.id)
   );
 
@@ -103,7 +108,7 @@ export function WeatherIntegration({
             <Alert variant="destructive">
               <AlertTriangle className="h-4 w-4" />
               <AlertDescription>
-                {error}. Please provide OpenWeatherMap API key in environment variables.
+                {error}. Check the weather provider settings (VITE_OPENWEATHER_API_KEY, VITE_OPEN_METEO_URL or VITE_WEATHER_PROVIDER=fixture).
               </AlertDescription>
             </Alert>
           )}
@@ -138,11 +143,28 @@ export function WeatherIntegration({
           )}
 
           {/* Weather Impact Assessment */}
-          {weather && selectedProductDetails.length > 0 && (
+          {next24Hours.length > 0 && (
+            <div className="text-sm text-muted-foreground">
+              Next 24h: {Math.min(...next24Hours.map(h => h.temperature)).toFixed(1)}–
+              {Math.max(...next24Hours.map(h => h.temperature)).toFixed(1)}°C, warmest around{' '}
+              {new Date(next24Hours.reduce((a, b) => (b.temperature > a.temperature ? b : a)).time)
+                .toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </div>
+          )}
+
+          {weather && ambient && selectedProductDetails.length > 0 && (
             <div className="space-y-3">
               <h4 className="font-semibold">Product Spoilage Risk Analysis</h4>
               {selectedProductDetails.map(product => {
-                const spoilage = calculateWeatherSpoilage(product, weather, estimatedTripTime);
+                // Unprotected exposure starting now, following the hourly forecast
+                const now = new Date();
+                const spoilage = estimateTripSpoilage(
+                  product,
+                  undefined,
+                  estimatedTripTime,
+                  ambient,
+                  now.getHours() + now.getMinutes() / 60
+                );
                 const impact = getWeatherImpact(weather.temperature);
                 
                 return (
@@ -172,7 +194,7 @@ export function WeatherIntegration({
           <Alert>
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
-              Weather data from OpenWeatherMap. Spoilage calculations based on industry standards and current conditions.
+              Weather data from {forecast?.provider ?? 'the configured provider'}. Spoilage follows the hourly forecast over the trip.
               Peak collection times (6-9 AM, 5-8 PM) have lower ambient temperatures reducing spoilage risk.
             </AlertDescription>
           </Alert>
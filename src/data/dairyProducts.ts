@@ -30,6 +30,8 @@ export interface DairyProduct {
   transportRequirements: string[];
 }
 
+// Built-in catalog: seeds the dairy_products and vehicle_types tables and is the
+// fallback until they load (see useProductCatalog)
 export const dairyProducts: DairyProduct[] = [
   {
     id: 'whole-milk',
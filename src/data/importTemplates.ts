@@ -0,0 +1,341 @@
+import { vehicleTypes } from '@/data/dairyProducts';
+import { COLLECTION_SHIFTS, REJECTION_REASONS } from '@/lib/milkQuality';
+
+export type ImportTable =
+  | 'dairy_farms'
+  | 'collection_centers'
+  | 'processing_plants'
+  | 'distributors'
+  | 'retail_outlets'
+  | 'transport_routes';
+
+export type ImportFieldType = 'string' | 'number' | 'integer' | 'boolean' | 'enum' | 'list' | 'date';
+
+export interface ImportField {
+  header: string;
+  column?: string; // database column when it differs from the header
+  type: ImportFieldType;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  values?: string[]; // allowed values for enum fields
+  nodeType?: string; // id or exact name of an existing node of this type, stored as its id
+}
+
+export interface CSVTemplate {
+  name: string;
+  headers: string[];
+  description: string;
+  sampleData: string[][];
+  requirements: string[];
+  fields: ImportField[];
+  table?: ImportTable; // templates without a table can be validated but not imported yet
+  keyColumns?: string[]; // natural key used to decide between insert and update
+}
+
+// Mainland India plus island territories
+export const COORDINATE_BOUNDS = {
+  lat: { min: 6, max: 37.5 },
+  lng: { min: 68, max: 97.5 }
+};
+
+const latitude: ImportField = {
+  header: 'latitude', column: 'location_lat', type: 'number', required: true,
+  min: COORDINATE_BOUNDS.lat.min, max: COORDINATE_BOUNDS.lat.max
+};
+const longitude: ImportField = {
+  header: 'longitude', column: 'location_lng', type: 'number', required: true,
+  min: COORDINATE_BOUNDS.lng.min, max: COORDINATE_BOUNDS.lng.max
+};
+const contactPerson: ImportField = { header: 'contact_person', type: 'string' };
+const phone: ImportField = { header: 'phone', type: 'string' };
+const region: ImportField = { header: 'region', type: 'string' }; // blank: the table default
+const establishedYear: ImportField = {
+  header: 'established_year', type: 'integer', min: 1900, max: new Date().getFullYear()
+};
+
+const NODE_TYPES = ['farm', 'collection_center', 'processing_plant', 'distributor', 'retail'];
+
+type TemplateDefinition = Omit<CSVTemplate, 'headers'>;
+
+const TEMPLATE_DEFINITIONS: TemplateDefinition[] = [
+  {
+    name: 'Dairy Farms',
+    table: 'dairy_farms',
+    keyColumns: ['name', 'district'],
+    fields: [
+      { header: 'name', type: 'string', required: true },
+      latitude,
+      longitude,
+      { header: 'district', type: 'string', required: true },
+      { header: 'cattle_count', type: 'integer', required: true, min: 0, max: 10000 },
+      { header: 'daily_production_liters', type: 'integer', required: true, min: 1, max: 200000 },
+      { header: 'farm_type', type: 'enum', required: true, values: ['mixed', 'dairy', 'organic', 'cow', 'buffalo'] },
+      { header: 'organic_certified', type: 'boolean' },
+      contactPerson,
+      phone,
+      establishedYear,
+      region
+    ],
+    description: 'Import dairy farm locations with production capacity and operational details',
+    sampleData: [
+      ['Green Valley Farm', '12.9716', '77.5946', 'Bangalore Rural', '50', '500', 'mixed', 'false', 'Ravi Kumar', '+91-9876543210', '2010', 'karnataka'],
+      ['Sunrise Dairy', '13.0827', '77.5946', 'Bangalore Urban', '75', '750', 'dairy', 'true', 'Sunita Devi', '+91-9876543211', '2008', 'karnataka']
+    ],
+    requirements: [
+      'latitude and longitude must be valid decimal degrees within India',
+      'daily_production_liters should be realistic (50-2000L typical)',
+      'farm_type: mixed, dairy, organic, cow or buffalo',
+      'organic_certified: true or false',
+      'rows matching an existing farm by name and district update it',
+      'region: operators only see records of their own region (defaults to karnataka)'
+    ]
+  },
+  {
+    name: 'Collection Centers',
+    table: 'collection_centers',
+    keyColumns: ['name', 'district'],
+    fields: [
+      { header: 'name', type: 'string', required: true },
+      latitude,
+      longitude,
+      { header: 'district', type: 'string', required: true },
+      { header: 'storage_capacity_liters', type: 'integer', required: true, min: 100, max: 100000 },
+      { header: 'cooling_facility', type: 'boolean' },
+      {
+        header: 'collection_schedule', type: 'enum', required: true,
+        values: ['once_daily', 'twice_daily', 'morning_evening', 'morning', 'evening']
+      },
+      { header: 'serves_villages', type: 'list', required: true },
+      contactPerson,
+      phone,
+      region
+    ],
+    description: 'Import milk collection centers with storage and operational details',
+    sampleData: [
+      ['Central Collection Hub', '12.9716', '77.5946', 'Bangalore Rural', '5000', 'true', 'twice_daily', 'Village1,Village2,Village3', 'Manjunath', '+91-9876543212', 'karnataka'],
+      ['North Zone Center', '13.0827', '77.5946', 'Bangalore Urban', '3000', 'true', 'morning_evening', 'Village4,Village5', 'Lakshmi', '+91-9876543213', 'karnataka']
+    ],
+    requirements: [
+      'storage_capacity_liters typical range: 1000-10000L',
+      'cooling_facility: true or false',
+      'collection_schedule: once_daily, twice_daily, morning_evening, morning or evening',
+      'serves_villages: comma-separated list of village names (quote the cell)'
+    ]
+  },
+  {
+    name: 'Processing Plants',
+    table: 'processing_plants',
+    keyColumns: ['name', 'district'],
+    fields: [
+      { header: 'name', type: 'string', required: true },
+      latitude,
+      longitude,
+      { header: 'district', type: 'string', required: true },
+      {
+        header: 'plant_type', type: 'enum', required: true,
+        values: ['integrated', 'specialized', 'cooperative', 'pasteurization', 'uht', 'powder', 'cheese', 'yogurt']
+      },
+      { header: 'processing_capacity_liters_per_day', type: 'integer', required: true, min: 1000, max: 2000000 },
+      { header: 'silo_capacity_liters', type: 'integer', min: 0, max: 5000000 },
+      { header: 'finished_goods_capacity', type: 'integer', min: 0, max: 2000000 },
+      { header: 'products', type: 'list', required: true },
+      { header: 'certifications', type: 'list' },
+      contactPerson,
+      phone,
+      establishedYear,
+      region
+    ],
+    description: 'Import dairy processing facilities with capacity and product details',
+    sampleData: [
+      ['Modern Dairy Plant', '12.9716', '77.5946', 'Bangalore Urban', 'integrated', '50000', '30000', '7500', 'milk,curd,butter,cheese', 'FSSAI,ISO22000,HACCP', 'Ramesh Sharma', '+91-9876543214', '2015', 'karnataka'],
+      ['Heritage Foods Unit', '13.0827', '77.5946', 'Bangalore Rural', 'specialized', '25000', '15000', '4000', 'milk,paneer,ghee', 'FSSAI,Organic', 'Priya Patel', '+91-9876543215', '2012', 'karnataka']
+    ],
+    requirements: [
+      'plant_type: integrated, specialized, cooperative, pasteurization, uht, powder, cheese or yogurt',
+      'processing_capacity_liters_per_day typical range: 5000-100000L',
+      'silo_capacity_liters (raw milk) and finished_goods_capacity (cold store, L or kg) are optional; 0 means unknown',
+      'products: comma-separated list (milk,curd,butter,cheese,paneer,ghee,ice_cream)',
+      'certifications: comma-separated list of valid certifications'
+    ]
+  },
+  {
+    name: 'Distributors',
+    table: 'distributors',
+    keyColumns: ['name', 'district'],
+    fields: [
+      { header: 'name', type: 'string', required: true },
+      latitude,
+      longitude,
+      { header: 'district', type: 'string', required: true },
+      { header: 'distributor_type', type: 'enum', required: true, values: ['wholesale', 'retail', 'mixed'] },
+      { header: 'daily_demand_liters', type: 'integer', min: 0, max: 1000000 },
+      { header: 'storage_capacity_liters', type: 'integer', required: true, min: 0, max: 1000000 },
+      { header: 'refrigerated_storage', type: 'boolean' },
+      { header: 'frozen_storage', type: 'boolean' },
+      { header: 'delivery_vehicles', type: 'integer', min: 0, max: 1000 },
+      { header: 'service_radius_km', type: 'number', min: 1, max: 500 },
+      { header: 'plant', column: 'plant_id', type: 'string', nodeType: 'processing_plant' },
+      contactPerson,
+      phone,
+      region
+    ],
+    description: 'Import distributor hubs for wholesale and retail distribution',
+    sampleData: [
+      ['City Distribution Hub', '12.9716', '77.5946', 'Bangalore Urban', 'wholesale', '12000', '15000', 'true', 'true', '10', '25', 'Nandini Dairy Processing Plant', 'Vikram Singh', '+91-9876543216', 'karnataka'],
+      ['Local Distributor', '12.2958', '76.6394', 'Mysore', 'retail', '4000', '5000', 'true', 'false', '3', '15', '', 'Anita Reddy', '+91-9876543217', 'karnataka']
+    ],
+    requirements: [
+      'distributor_type: wholesale, retail, or mixed',
+      'daily_demand_liters: product ordered per day',
+      'storage_capacity_liters typical range: 2000-50000L',
+      'refrigerated_storage, frozen_storage: true or false',
+      'delivery_vehicles: number of vehicles available',
+      'service_radius_km: delivery coverage area in kilometers',
+      'plant: id or exact name of the usual supplying processing plant (optional)'
+    ]
+  },
+  {
+    name: 'Retail Outlets',
+    table: 'retail_outlets',
+    keyColumns: ['name', 'district'],
+    fields: [
+      { header: 'name', type: 'string', required: true },
+      latitude,
+      longitude,
+      { header: 'district', type: 'string', required: true },
+      {
+        header: 'outlet_type', type: 'enum', required: true,
+        values: ['kirana', 'supermarket', 'dairy_parlour', 'hotel_restaurant', 'institution', 'other']
+      },
+      { header: 'daily_demand_liters', type: 'integer', required: true, min: 0, max: 100000 },
+      { header: 'storage_capacity_liters', type: 'integer', min: 0, max: 100000 },
+      { header: 'refrigerated_storage', type: 'boolean' },
+      { header: 'frozen_storage', type: 'boolean' },
+      { header: 'distributor', column: 'distributor_id', type: 'string', nodeType: 'distributor' },
+      { header: 'receiving_from', type: 'string' },
+      { header: 'receiving_to', type: 'string' },
+      contactPerson,
+      phone,
+      region
+    ],
+    description: 'Import retail points of sale with their daily demand and cold storage',
+    sampleData: [
+      ['Malleshwaram Milk Parlour', '13.0035', '77.5700', 'Bangalore Urban', 'dairy_parlour', '1200', '1500', 'true', 'true', 'Yeshwanthpur Wholesale Depot', '05:30', '08:00', 'Shankar Bhat', '+91-9876543250', 'karnataka'],
+      ['Corner Provision Store', '12.9915', '77.5550', 'Bangalore Urban', 'kirana', '300', '300', 'true', 'false', '', '', '', 'Ramesh Jain', '+91-9876543251', 'karnataka']
+    ],
+    requirements: [
+      'outlet_type: kirana, supermarket, dairy_parlour, hotel_restaurant, institution or other',
+      'daily_demand_liters: product sold per day',
+      'refrigerated_storage, frozen_storage: true or false',
+      'distributor: id or exact name of the usual supplying distributor (optional)',
+      'receiving_from/receiving_to: HH:MM delivery window (defaults to 06:00-10:00)',
+      'rows matching an existing outlet by name and district update it'
+    ]
+  },
+  {
+    name: 'Transport Routes',
+    table: 'transport_routes',
+    keyColumns: ['route_name'],
+    fields: [
+      { header: 'route_name', type: 'string', required: true },
+      { header: 'from_type', type: 'enum', required: true, values: NODE_TYPES },
+      { header: 'from_id', type: 'string', required: true },
+      { header: 'to_type', type: 'enum', required: true, values: NODE_TYPES },
+      { header: 'to_id', type: 'string', required: true },
+      { header: 'distance_km', type: 'number', required: true, min: 0.1, max: 2000 },
+      { header: 'estimated_time_hours', type: 'number', required: true, min: 0.01, max: 72 },
+      {
+        header: 'vehicle_type', type: 'enum', required: true,
+        values: ['refrigerated_truck', 'insulated_van', 'bulk_tanker', 'regular_truck', ...vehicleTypes.map(v => v.id)]
+      },
+      { header: 'cost_per_trip', type: 'number', required: true, min: 0, max: 1000000 },
+      { header: 'optimal_load_liters', type: 'integer', required: true, min: 1, max: 100000 },
+      { header: 'frequency_per_day', type: 'integer', min: 1, max: 24 },
+      region
+    ],
+    description: 'Import transportation routes between network nodes',
+    sampleData: [
+      ['Farm to Center Route 1', 'farm', 'Hoskote Integrated Dairy Farm', 'collection_center', 'Hoskote Collection Hub', '15.5', '0.75', 'refrigerated_truck', '450', '2000', '2', 'karnataka'],
+      ['Center to Plant Route 1', 'collection_center', 'Hoskote Collection Hub', 'processing_plant', 'Nandini Dairy Processing Plant', '45.2', '2.5', 'bulk_tanker', '1200', '5000', '1', 'karnataka']
+    ],
+    requirements: [
+      'from_type/to_type: farm, collection_center, processing_plant, distributor, retail',
+      'from_id/to_id: id or exact name of an existing node of that type',
+      'distance_km: actual road distance',
+      'vehicle_type: refrigerated_truck, insulated_van, bulk_tanker, regular_truck or a fleet vehicle id',
+      'cost_per_trip: total cost including fuel, driver, maintenance'
+    ]
+  },
+  {
+    name: 'Product Specifications',
+    fields: [
+      { header: 'product_id', type: 'string', required: true },
+      { header: 'product_name', type: 'string', required: true },
+      { header: 'category', type: 'enum', required: true, values: ['milk', 'fermented', 'cheese', 'butter', 'frozen'] },
+      { header: 'min_temp_celsius', type: 'number', required: true, min: -40, max: 40 },
+      { header: 'max_temp_celsius', type: 'number', required: true, min: -40, max: 40 },
+      { header: 'shelf_life_hours_refrigerated', type: 'number', required: true, min: 0, max: 100000 },
+      { header: 'shelf_life_hours_ambient', type: 'number', required: true, min: 0, max: 100000 },
+      { header: 'spoilage_rate_per_hour_ambient', type: 'number', required: true, min: 0, max: 100 },
+      { header: 'temperature_sensitivity', type: 'enum', required: true, values: ['low', 'medium', 'high'] },
+      { header: 'packaging_requirements', type: 'list' },
+      { header: 'transport_requirements', type: 'list' }
+    ],
+    description: 'Import custom dairy product specifications with temperature and quality requirements',
+    sampleData: [
+      ['custom_milk_a2', 'A2 Organic Milk', 'milk', '0', '4', '168', '4', '8.5', 'high', 'opaque,sealed', 'refrigerated,minimal_agitation'],
+      ['custom_greek_yogurt', 'Greek Yogurt', 'fermented', '2', '6', '336', '8', '6.0', 'high', 'sealed,moisture_proof', 'refrigerated,stable_temperature']
+    ],
+    requirements: [
+      'category: milk, fermented, cheese, butter, frozen',
+      'temperatures in Celsius',
+      'shelf_life in hours',
+      'spoilage_rate_per_hour_ambient: percentage per hour',
+      'temperature_sensitivity: low, medium, or high',
+      'requirements: comma-separated lists'
+    ]
+  }
+];
+
+export const CSV_TEMPLATES: CSVTemplate[] = TEMPLATE_DEFINITIONS.map(template => ({
+  ...template,
+  headers: template.fields.map(field => field.header)
+}));
+
+// Milk received at collection centers; imported through milkCollectionService, not the network import
+const MILK_COLLECTION_DEFINITION: TemplateDefinition = {
+  name: 'Milk Collections',
+  keyColumns: ['farm_id', 'center_id', 'collection_date', 'shift'],
+  fields: [
+    { header: 'collection_date', type: 'date', required: true },
+    { header: 'shift', type: 'enum', required: true, values: COLLECTION_SHIFTS },
+    { header: 'farm', column: 'farm_id', type: 'string', required: true, nodeType: 'farm' },
+    { header: 'center', column: 'center_id', type: 'string', required: true, nodeType: 'collection_center' },
+    { header: 'volume_liters', type: 'number', required: true, min: 0, max: 100000 },
+    { header: 'fat_percent', type: 'number', min: 0, max: 15 },
+    { header: 'snf_percent', type: 'number', min: 0, max: 15 },
+    { header: 'temperature_celsius', type: 'number', min: -5, max: 50 },
+    { header: 'rejected_liters', type: 'number', min: 0, max: 100000 },
+    { header: 'rejection_reason', type: 'enum', values: REJECTION_REASONS.map(r => r.value) },
+    { header: 'notes', type: 'string' }
+  ],
+  description: 'Bulk upload of per-farm milk intake recorded at collection centers',
+  sampleData: [
+    ['2025-08-01', 'morning', 'Hoskote Integrated Dairy Farm', 'Hoskote Collection Hub', '420', '4.6', '8.7', '6.5', '0', '', ''],
+    ['2025-08-01', 'evening', 'Hoskote Integrated Dairy Farm', 'Hoskote Collection Hub', '380', '4.4', '8.6', '11.2', '40', 'high_temperature', 'late delivery']
+  ],
+  requirements: [
+    'collection_date: YYYY-MM-DD',
+    'shift: morning or evening',
+    'farm/center: id or exact name of an existing farm and collection center',
+    'fat_percent, snf_percent: as measured at receipt',
+    `rejection_reason: required when rejected_liters > 0 (${REJECTION_REASONS.map(r => r.value).join(', ')})`,
+    'a row for the same farm, center, date and shift replaces the earlier entry'
+  ]
+};
+
+export const MILK_COLLECTION_TEMPLATE: CSVTemplate = {
+  ...MILK_COLLECTION_DEFINITION,
+  headers: MILK_COLLECTION_DEFINITION.fields.map(field => field.header)
+};
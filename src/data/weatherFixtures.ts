@@ -0,0 +1,50 @@
+import type { HourlyWeatherValues } from '@/lib/weather';
+
+export interface WeatherFixture {
+  name: string;
+  description: string;
+  hourly: HourlyWeatherValues[]; // hourly[0] is 00:00 local time; replayed day after day
+}
+
+const day = (
+  temperatures: number[],
+  humidity: number[],
+  precipitation: number[] = [],
+  windSpeed: number = 10
+): HourlyWeatherValues[] =>
+  temperatures.map((temperature, hour) => ({
+    temperature,
+    humidity: humidity[hour],
+    precipitation: precipitation[hour] ?? 0,
+    windSpeed,
+    uvIndex: hour >= 7 && hour <= 17 ? Math.round(10 * Math.sin(((hour - 6) / 12) * Math.PI)) : 0
+  }));
+
+export const WEATHER_FIXTURES: WeatherFixture[] = [
+  {
+    name: 'bangalore-summer',
+    description: 'Clear April day in Bangalore, 21–34°C',
+    hourly: day(
+      [23, 22.5, 22, 21.6, 21.3, 21, 21.4, 22.8, 24.9, 27, 29, 30.7, 32, 33.1, 33.8, 34, 33.5, 32.4, 30.6, 28.5, 26.8, 25.5, 24.5, 23.7],
+      [62, 65, 68, 70, 72, 74, 72, 66, 58, 50, 43, 37, 33, 30, 28, 27, 28, 31, 36, 42, 48, 53, 57, 60]
+    )
+  },
+  {
+    name: 'bangalore-monsoon',
+    description: 'Overcast July day with afternoon showers, 20–27°C',
+    hourly: day(
+      [21.5, 21.2, 21, 20.8, 20.6, 20.5, 20.7, 21.3, 22.4, 23.6, 24.8, 25.7, 26.4, 26.8, 26.5, 25.2, 23.8, 23, 22.6, 22.3, 22.1, 21.9, 21.8, 21.6],
+      [88, 89, 90, 91, 92, 92, 91, 88, 84, 80, 76, 73, 71, 70, 74, 84, 90, 91, 90, 89, 89, 88, 88, 88],
+      [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0.4, 2.1, 5.3, 3.8, 1.2, 0.3, 0, 0, 0, 0, 0],
+      18
+    )
+  },
+  {
+    name: 'heatwave',
+    description: 'North Karnataka heatwave, 29–43°C, for stress-testing the cold chain',
+    hourly: day(
+      [32, 31.2, 30.5, 30, 29.5, 29.2, 29.8, 31.5, 34, 36.5, 38.6, 40.2, 41.5, 42.4, 42.9, 43, 42.4, 41, 38.9, 36.8, 35.2, 34.1, 33.3, 32.6],
+      [35, 37, 39, 41, 42, 43, 41, 36, 30, 25, 21, 18, 16, 14, 13, 13, 14, 16, 19, 23, 27, 30, 32, 34]
+    )
+  }
+];
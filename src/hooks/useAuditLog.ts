@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { auditService } from '@/services/auditService';
+import type { AuditedTable } from '@/types/audit';
+
+export const useRecordHistory = (table: AuditedTable | undefined, recordId: string | undefined) => {
+  const { data: entries = [], isLoading, error } = useQuery({
+    queryKey: ['audit-log', table, recordId],
+    queryFn: () => auditService.getRecordHistory(table!, recordId!),
+    enabled: !!table && !!recordId,
+  });
+
+  return { entries, isLoading, error };
+};
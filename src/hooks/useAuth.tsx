@@ -1,11 +1,20 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Tables } from '@/integrations/supabase/types';
+
+export type AppRole = Enums<'app_role'>;
+export type Profile = Tables<'profiles'>;
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
+  profile: Profile | null;
+  role: AppRole | null;
+  region: string | null;
   loading: boolean;
+  hasRole: (...roles: AppRole[]) => boolean;
+  canManageNetwork: boolean;
   signOut: () => Promise<void>;
 }
 
@@ -26,7 +35,9 @@ interface AuthProviderProps {
 export const AuthProvider = ({ children }: AuthProviderProps) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [profile, setProfile] = useState<Profile | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+  const [profileLoading, setProfileLoading] = useState(false);
 
   useEffect(() => {
     // Set up auth state listener FIRST
@@ -34,7 +45,7 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
       (event, session) => {
         setSession(session);
         setUser(session?.user ?? null);
-        setLoading(false);
+        setSessionLoading(false);
       }
     );
 
@@ -42,22 +53,61 @@ export const AuthProvider = ({ children }: AuthProviderProps) => {
     supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
+      setSessionLoading(false);
     });
 
     return () => subscription.unsubscribe();
   }, []);
 
+  const userId = user?.id;
+
+  // Role and region come from the profile created on sign-up
+  useEffect(() => {
+    if (!userId) {
+      setProfile(null);
+      return;
+    }
+
+    let cancelled = false;
+    setProfileLoading(true);
+    supabase
+      .from('profiles')
+      .select('*')
+      .eq('id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error) {
+          console.error('Error fetching profile:', error);
+        }
+        setProfile(data ?? null);
+        setProfileLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId]);
+
   const signOut = async () => {
     await supabase.auth.signOut();
   };
 
+  const role = profile?.role ?? null;
+  const hasRole = (...roles: AppRole[]) => role !== null && roles.includes(role);
+
   const value = {
     user,
     session,
-    loading,
+    profile,
+    role,
+    region: profile?.region ?? null,
+    loading: sessionLoading || profileLoading,
+    hasRole,
+    // Mirrors public.can_manage_network, which the RLS policies enforce
+    canManageNetwork: hasRole('admin', 'planner'),
     signOut,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
-};
\ No newline at end of file
+};
@@ -1,14 +1,17 @@
+import { useMemo } from 'react';
 import { useQuery } from '@tanstack/react-query';
 import { dairyService, type DairyFarm, type ProcessingPlant, type CollectionCenter, type TransportRoute, type DairyNetworkMetrics } from '@/services/dairyService';
 
 export interface DairyMapNode {
   id: string;
   name: string;
-  type: 'farm' | 'collection_center' | 'processing_plant';
+  type: 'farm' | 'collection_center' | 'processing_plant' | 'distributor' | 'retail';
   lat: number;
   lng: number;
   capacity: number;
   production?: number;
+  demand?: number; // liters/day ordered by distributors and retail outlets
+  collectionSchedule?: string; // collection centers
   contact?: string;
   phone?: string;
   district: string;
@@ -31,6 +34,16 @@ export const useDairyData = () => {
     queryFn: () => dairyService.getCollectionCenters(),
   });
 
+  const { data: distributors = [], isLoading: distributorsLoading } = useQuery({
+    queryKey: ['distributors'],
+    queryFn: () => dairyService.getDistributors(),
+  });
+
+  const { data: outlets = [], isLoading: outletsLoading } = useQuery({
+    queryKey: ['retail-outlets'],
+    queryFn: () => dairyService.getRetailOutlets(),
+  });
+
   const { data: routes = [], isLoading: routesLoading } = useQuery({
     queryKey: ['transport-routes'],
     queryFn: () => dairyService.getTransportRoutes(),
@@ -41,8 +54,8 @@ export const useDairyData = () => {
     queryFn: () => dairyService.calculateNetworkMetrics(),
   });
 
-  // Transform data into map nodes
-  const nodes: DairyMapNode[] = [
+  // Transform data into map nodes; memoized so consumers can key effects on it
+  const nodes: DairyMapNode[] = useMemo(() => [
     ...farms.map(farm => ({
       id: farm.id,
       name: farm.name,
@@ -75,20 +88,50 @@ export const useDairyData = () => {
       lat: center.location_lat,
       lng: center.location_lng,
       capacity: center.storage_capacity_liters,
+      collectionSchedule: center.collection_schedule,
       contact: center.contact_person,
       phone: center.phone,
       district: center.district,
       details: center
+    })),
+    ...distributors.map(distributor => ({
+      id: distributor.id,
+      name: distributor.name,
+      type: 'distributor' as const,
+      lat: distributor.location_lat,
+      lng: distributor.location_lng,
+      capacity: distributor.storage_capacity_liters,
+      demand: distributor.daily_demand_liters,
+      contact: distributor.contact_person,
+      phone: distributor.phone,
+      district: distributor.district,
+      details: distributor
+    })),
+    ...outlets.map(outlet => ({
+      id: outlet.id,
+      name: outlet.name,
+      type: 'retail' as const,
+      lat: outlet.location_lat,
+      lng: outlet.location_lng,
+      capacity: outlet.storage_capacity_liters,
+      demand: outlet.daily_demand_liters,
+      contact: outlet.contact_person,
+      phone: outlet.phone,
+      district: outlet.district,
+      details: outlet
     }))
-  ];
+  ], [farms, plants, centers, distributors, outlets]);
 
-  const isLoading = farmsLoading || plantsLoading || centersLoading || routesLoading || metricsLoading;
+  const isLoading = farmsLoading || plantsLoading || centersLoading || distributorsLoading || outletsLoading ||
+    routesLoading || metricsLoading;
 
   return {
     nodes,
     farms,
     plants,
     centers,
+    distributors,
+    outlets,
     routes,
     metrics,
     isLoading,
@@ -96,6 +139,8 @@ export const useDairyData = () => {
     farmsLoading,
     plantsLoading,
     centersLoading,
+    distributorsLoading,
+    outletsLoading,
     routesLoading,
     metricsLoading
   };
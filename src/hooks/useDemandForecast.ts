@@ -0,0 +1,22 @@
+import { useQuery } from '@tanstack/react-query';
+import { forecastService } from '@/services/forecastService';
+
+export const useDemandHistory = (marketId: string | undefined, fishType: string | undefined) => {
+  const { data: history = [], isLoading, error } = useQuery({
+    queryKey: ['market-demand-history', marketId, fishType],
+    queryFn: () => forecastService.getDemandHistory(marketId!, fishType!),
+    enabled: !!marketId && !!fishType,
+  });
+
+  return { history, isLoading, error };
+};
+
+export const useStoredForecasts = (forecastType: string, marketId: string | undefined, fishType: string | undefined) => {
+  const { data: forecasts = [], isLoading } = useQuery({
+    queryKey: ['forecasts', forecastType, marketId, fishType],
+    queryFn: () => forecastService.getForecasts(forecastType, marketId!, fishType!),
+    enabled: !!marketId && !!fishType,
+  });
+
+  return { forecasts, isLoading };
+};
@@ -0,0 +1,19 @@
+import { useQuery } from '@tanstack/react-query';
+import { distanceMatrixService } from '@/services/distanceMatrixService';
+import { nodeSetKey, defaultMatrixProvider, type DistanceMatrixProvider, type GeoPoint } from '@/lib/geo';
+
+export function useDistanceMatrix(
+  points: Required<GeoPoint>[],
+  provider: DistanceMatrixProvider = defaultMatrixProvider
+) {
+  const key = nodeSetKey(points);
+
+  const { data: matrix = null, isLoading, error } = useQuery({
+    queryKey: ['distance-matrix', provider.name, key],
+    queryFn: () => distanceMatrixService.getMatrix(points, provider),
+    enabled: points.length > 1,
+    staleTime: Infinity,
+  });
+
+  return { matrix, isLoading, error };
+}
@@ -0,0 +1,62 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { fleetService, type DairyVehicleInput, type VehicleDowntimeInput } from '@/services/fleetService';
+import { addDays } from '@/lib/fleet';
+
+// Vehicles and their downtime for `days` days from startDate (YYYY-MM-DD)
+export const useFleet = (startDate: string, days: number = 14) => {
+  const queryClient = useQueryClient();
+  const from = new Date(`${startDate}T00:00:00`).toISOString();
+  const to = new Date(`${addDays(startDate, days)}T00:00:00`).toISOString();
+
+  const { data: vehicles = [], isLoading: isLoadingVehicles } = useQuery({
+    queryKey: ['dairy-vehicles'],
+    queryFn: () => fleetService.getVehicles(),
+  });
+
+  const { data: downtime = [], isLoading: isLoadingDowntime } = useQuery({
+    queryKey: ['vehicle-downtime', from, to],
+    queryFn: () => fleetService.getDowntime(from, to),
+  });
+
+  const invalidateVehicles = () => queryClient.invalidateQueries({ queryKey: ['dairy-vehicles'] });
+  const invalidateDowntime = () => queryClient.invalidateQueries({ queryKey: ['vehicle-downtime'] });
+
+  const saveVehicle = useMutation({
+    mutationFn: (vehicle: DairyVehicleInput) => fleetService.saveVehicle(vehicle),
+    onSuccess: invalidateVehicles,
+  });
+
+  const recordOdometer = useMutation({
+    mutationFn: ({ id, odometerKm, serviced }: { id: string; odometerKm: number; serviced?: boolean }) =>
+      fleetService.recordOdometer(id, odometerKm, serviced),
+    onSuccess: invalidateVehicles,
+  });
+
+  const deleteVehicle = useMutation({
+    mutationFn: (id: string) => fleetService.deleteVehicle(id),
+    onSuccess: invalidateVehicles,
+  });
+
+  const addDowntime = useMutation({
+    mutationFn: (entry: VehicleDowntimeInput) => fleetService.addDowntime(entry),
+    onSuccess: invalidateDowntime,
+  });
+
+  const deleteDowntime = useMutation({
+    mutationFn: (id: string) => fleetService.deleteDowntime(id),
+    onSuccess: invalidateDowntime,
+  });
+
+  return {
+    vehicles,
+    downtime,
+    isLoading: isLoadingVehicles || isLoadingDowntime,
+    saveVehicle: saveVehicle.mutateAsync,
+    recordOdometer: recordOdometer.mutateAsync,
+    deleteVehicle: deleteVehicle.mutateAsync,
+    addDowntime: addDowntime.mutateAsync,
+    deleteDowntime: deleteDowntime.mutateAsync,
+    isSaving: saveVehicle.isPending || recordOdometer.isPending || deleteVehicle.isPending ||
+      addDowntime.isPending || deleteDowntime.isPending
+  };
+};
@@ -0,0 +1,45 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { inventoryService } from '@/services/inventoryService';
+import type { InventoryEntry } from '@/lib/inventory';
+
+// Opening levels at `from` and the movements up to `to`; both ISO timestamps
+export const useInventory = (from: string, to: string) => {
+  const queryClient = useQueryClient();
+
+  const { data: openingLevels = [], isLoading: levelsLoading } = useQuery({
+    queryKey: ['inventory-levels', from],
+    queryFn: () => inventoryService.getLevels(from),
+  });
+
+  const { data: movements = [], isLoading: movementsLoading } = useQuery({
+    queryKey: ['inventory-movements', from, to],
+    queryFn: () => inventoryService.getMovements(from, to),
+  });
+
+  // Movements create the lots that traceability follows
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['inventory-levels'] });
+    queryClient.invalidateQueries({ queryKey: ['inventory-movements'] });
+    queryClient.invalidateQueries({ queryKey: ['lot-search'] });
+    queryClient.invalidateQueries({ queryKey: ['lot-trace'] });
+  };
+
+  const recordEntry = useMutation({
+    mutationFn: (entry: InventoryEntry) => inventoryService.recordEntry(entry),
+    onSuccess: invalidate,
+  });
+
+  const deleteTransaction = useMutation({
+    mutationFn: (transactionId: string) => inventoryService.deleteTransaction(transactionId),
+    onSuccess: invalidate,
+  });
+
+  return {
+    openingLevels,
+    movements,
+    isLoading: levelsLoading || movementsLoading,
+    recordEntry: recordEntry.mutateAsync,
+    deleteTransaction: deleteTransaction.mutateAsync,
+    isSaving: recordEntry.isPending || deleteTransaction.isPending
+  };
+};
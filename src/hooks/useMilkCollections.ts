@@ -0,0 +1,45 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { milkCollectionService, type MilkCollectionInput } from '@/services/milkCollectionService';
+import type { ImportPreview } from '@/lib/dataImport';
+
+export const useMilkCollections = (fromDate: string, toDate: string) => {
+  const queryClient = useQueryClient();
+
+  const { data: collections = [], isLoading } = useQuery({
+    queryKey: ['milk-collections', fromDate, toDate],
+    queryFn: () => milkCollectionService.getCollections(fromDate, toDate),
+  });
+
+  // Entries roll up into the daily history the volume forecasts read, and post center tank stock and lots
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['milk-collections'] });
+    queryClient.invalidateQueries({ queryKey: ['farm-collection-history'] });
+    queryClient.invalidateQueries({ queryKey: ['inventory-levels'] });
+    queryClient.invalidateQueries({ queryKey: ['inventory-movements'] });
+    queryClient.invalidateQueries({ queryKey: ['lot-search'] });
+  };
+
+  const saveEntry = useMutation({
+    mutationFn: (entry: MilkCollectionInput) => milkCollectionService.saveCollection(entry),
+    onSuccess: invalidate,
+  });
+
+  const deleteEntry = useMutation({
+    mutationFn: (id: string) => milkCollectionService.deleteCollection(id),
+    onSuccess: invalidate,
+  });
+
+  const importEntries = useMutation({
+    mutationFn: (preview: ImportPreview) => milkCollectionService.importCollections(preview),
+    onSuccess: invalidate,
+  });
+
+  return {
+    collections,
+    isLoading,
+    saveEntry: saveEntry.mutateAsync,
+    deleteEntry: deleteEntry.mutateAsync,
+    importEntries: importEntries.mutateAsync,
+    isSaving: saveEntry.isPending || deleteEntry.isPending || importEntries.isPending
+  };
+};
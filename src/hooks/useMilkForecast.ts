@@ -0,0 +1,53 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { collectionHistoryService } from '@/services/collectionHistoryService';
+import { useDairyData } from '@/hooks/useDairyData';
+import {
+  forecastFarmVolumes,
+  totalDailyForecast,
+  DEFAULT_FORECAST_DAYS,
+  type CollectionObservation
+} from '@/lib/milkForecasting';
+
+// A little over a year, so every month of the seasonal index has data
+const HISTORY_DAYS = 400;
+
+const isoDate = (offsetDays: number) =>
+  new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+export const useMilkForecast = (days: number = DEFAULT_FORECAST_DAYS) => {
+  const { farms, farmsLoading } = useDairyData();
+  const today = isoDate(0);
+  const since = isoDate(-HISTORY_DAYS);
+
+  const { data: history = [], isLoading: historyLoading } = useQuery({
+    queryKey: ['farm-collection-history', since],
+    queryFn: () => collectionHistoryService.getFarmHistory(since),
+  });
+
+  const historyByFarm = useMemo(() => {
+    const byFarm: Record<string, CollectionObservation[]> = {};
+    history.forEach(record => {
+      if (!byFarm[record.farm_id]) byFarm[record.farm_id] = [];
+      byFarm[record.farm_id].push({
+        date: record.collection_date,
+        liters: Number(record.volume_liters),
+        cattleCount: record.cattle_count
+      });
+    });
+    return byFarm;
+  }, [history]);
+
+  const forecasts = useMemo(
+    () => forecastFarmVolumes(farms, historyByFarm, today, days),
+    [farms, historyByFarm, today, days]
+  );
+  const totals = useMemo(() => totalDailyForecast(forecasts), [forecasts]);
+
+  return {
+    forecasts,
+    totals,
+    historyByFarm,
+    isLoading: farmsLoading || historyLoading
+  };
+};
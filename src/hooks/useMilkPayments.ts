@@ -0,0 +1,50 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { paymentService, type DeductionInput, type RateCardInput } from '@/services/paymentService';
+import { milkCollectionService } from '@/services/milkCollectionService';
+import type { BillingCycle } from '@/lib/milkPayments';
+
+// Rate cards, and the collections and deductions of one billing cycle
+export const useMilkPayments = (cycle: BillingCycle) => {
+  const queryClient = useQueryClient();
+
+  const { data: rateCards = [], isLoading: isLoadingRateCards } = useQuery({
+    queryKey: ['milk-rate-cards'],
+    queryFn: () => paymentService.getRateCards(),
+  });
+
+  const { data: collections = [], isLoading: isLoadingCollections } = useQuery({
+    queryKey: ['milk-collections', cycle.start, cycle.end],
+    queryFn: () => milkCollectionService.getCollections(cycle.start, cycle.end),
+  });
+
+  const { data: deductions = [], isLoading: isLoadingDeductions } = useQuery({
+    queryKey: ['payment-deductions', cycle.start, cycle.end],
+    queryFn: () => paymentService.getDeductions(cycle.start, cycle.end),
+  });
+
+  const saveRateCard = useMutation({
+    mutationFn: (card: RateCardInput) => paymentService.saveRateCard(card),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['milk-rate-cards'] }),
+  });
+
+  const addDeduction = useMutation({
+    mutationFn: (deduction: DeductionInput) => paymentService.addDeduction(deduction),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['payment-deductions'] }),
+  });
+
+  const deleteDeduction = useMutation({
+    mutationFn: (id: string) => paymentService.deleteDeduction(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['payment-deductions'] }),
+  });
+
+  return {
+    rateCards,
+    collections,
+    deductions,
+    isLoading: isLoadingRateCards || isLoadingCollections || isLoadingDeductions,
+    saveRateCard: saveRateCard.mutateAsync,
+    addDeduction: addDeduction.mutateAsync,
+    deleteDeduction: deleteDeduction.mutateAsync,
+    isSaving: saveRateCard.isPending || addDeduction.isPending || deleteDeduction.isPending
+  };
+};
@@ -0,0 +1,167 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { dairyService } from '@/services/dairyService';
+import {
+  applyEditToRecords,
+  changedFields,
+  invertEdit,
+  recordEdit,
+  newNodeRecord,
+  nodeRecordFields,
+  NODE_TYPE_TABLES,
+  EMPTY_HISTORY,
+  type EditHistory,
+  type NetworkEdit,
+  type NetworkNodeType,
+  type NetworkRecord,
+  type NetworkRecords,
+  type NetworkTable,
+  type NodeFields
+} from '@/lib/networkEdits';
+
+// useDairyData query key for each table
+const TABLE_QUERY_KEYS: Record<NetworkTable, string[]> = {
+  dairy_farms: ['dairy-farms'],
+  collection_centers: ['collection-centers'],
+  processing_plants: ['processing-plants'],
+  distributors: ['distributors'],
+  retail_outlets: ['retail-outlets'],
+  transport_routes: ['transport-routes']
+};
+
+interface RecordWriter<R extends NetworkRecord> {
+  create: (record: R) => Promise<unknown>;
+  update: (id: string, updates: Partial<R>) => Promise<unknown>;
+  remove: (id: string) => Promise<void>;
+}
+
+const RECORD_WRITERS: { [T in NetworkTable]: RecordWriter<NetworkRecords[T]> } = {
+  dairy_farms: {
+    create: record => dairyService.addDairyFarm(record),
+    update: (id, updates) => dairyService.updateDairyFarm(id, updates),
+    remove: id => dairyService.deleteDairyFarm(id)
+  },
+  collection_centers: {
+    create: record => dairyService.addCollectionCenter(record),
+    update: (id, updates) => dairyService.updateCollectionCenter(id, updates),
+    remove: id => dairyService.deleteCollectionCenter(id)
+  },
+  processing_plants: {
+    create: record => dairyService.addProcessingPlant(record),
+    update: (id, updates) => dairyService.updateProcessingPlant(id, updates),
+    remove: id => dairyService.deleteProcessingPlant(id)
+  },
+  distributors: {
+    create: record => dairyService.addDistributor(record),
+    update: (id, updates) => dairyService.updateDistributor(id, updates),
+    remove: id => dairyService.deleteDistributor(id)
+  },
+  retail_outlets: {
+    create: record => dairyService.addRetailOutlet(record),
+    update: (id, updates) => dairyService.updateRetailOutlet(id, updates),
+    remove: id => dairyService.deleteRetailOutlet(id)
+  },
+  transport_routes: {
+    create: record => dairyService.addTransportRoute(record),
+    update: (id, updates) => dairyService.updateTransportRoute(id, updates),
+    remove: id => dairyService.deleteTransportRoute(id)
+  }
+};
+
+function persistEdit<T extends NetworkTable>(edit: NetworkEdit<T>): Promise<unknown> {
+  const writer: RecordWriter<NetworkRecords[T]> = RECORD_WRITERS[edit.table];
+  if (!edit.after) return writer.remove(edit.before!.id);
+  if (!edit.before) return writer.create(edit.after);
+  return writer.update(edit.after.id, changedFields(edit.before, edit.after));
+}
+
+function recordName(record: NetworkRecord): string {
+  return 'route_name' in record ? record.route_name : record.name;
+}
+
+/**
+ * Writes network records through the dairy service with optimistic updates
+ * of the useDairyData queries, and keeps an undo/redo stack of the edits
+ * made through it.
+ */
+export const useNetworkEditor = () => {
+  const queryClient = useQueryClient();
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY);
+
+  const applyEdit = useMutation({
+    mutationFn: (edit: NetworkEdit) => persistEdit(edit),
+    onMutate: async (edit: NetworkEdit) => {
+      const queryKey = TABLE_QUERY_KEYS[edit.table];
+      await queryClient.cancelQueries({ queryKey });
+      const previous = queryClient.getQueryData<NetworkRecord[]>(queryKey);
+      queryClient.setQueryData<NetworkRecord[]>(queryKey, records => applyEditToRecords(records ?? [], edit));
+      return { previous };
+    },
+    onError: (_error, edit, context) => {
+      queryClient.setQueryData(TABLE_QUERY_KEYS[edit.table], context?.previous);
+    },
+    onSettled: (_data, _error, edit) => {
+      queryClient.invalidateQueries({ queryKey: TABLE_QUERY_KEYS[edit.table] });
+      queryClient.invalidateQueries({ queryKey: ['network-metrics'] });
+      queryClient.invalidateQueries({ queryKey: ['audit-log'] });
+    },
+  });
+
+  const findRecord = (table: NetworkTable, id: string): NetworkRecord => {
+    const record = queryClient.getQueryData<NetworkRecord[]>(TABLE_QUERY_KEYS[table])?.find(r => r.id === id);
+    if (!record) throw new Error(`Record ${id} is not loaded`);
+    return record;
+  };
+
+  const commit = async (edit: NetworkEdit) => {
+    await applyEdit.mutateAsync(edit);
+    setHistory(current => recordEdit(current, edit));
+  };
+
+  const createRecord = (table: NetworkTable, record: NetworkRecord) =>
+    commit({ table, label: `Add ${recordName(record)}`, before: null, after: record });
+
+  const updateRecord = (table: NetworkTable, id: string, updates: Partial<NetworkRecord>) => {
+    const before = findRecord(table, id);
+    const after = { ...before, ...updates } as NetworkRecord;
+    return commit({ table, label: `Edit ${recordName(before)}`, before, after });
+  };
+
+  const deleteRecord = (table: NetworkTable, id: string) => {
+    const before = findRecord(table, id);
+    return commit({ table, label: `Delete ${recordName(before)}`, before, after: null });
+  };
+
+  const undo = async () => {
+    const edit = history.past[history.past.length - 1];
+    if (!edit) return;
+    await applyEdit.mutateAsync(invertEdit(edit));
+    setHistory(current => ({ past: current.past.slice(0, -1), future: [edit, ...current.future] }));
+  };
+
+  const redo = async () => {
+    const edit = history.future[0];
+    if (!edit) return;
+    await applyEdit.mutateAsync(edit);
+    setHistory(current => ({ past: [...current.past, edit], future: current.future.slice(1) }));
+  };
+
+  return {
+    createRecord,
+    updateRecord,
+    deleteRecord,
+    // Map node shortcuts; the record id is chosen here so undo and redo can refer to it
+    createNode: (type: NetworkNodeType, fields: NodeFields) =>
+      createRecord(NODE_TYPE_TABLES[type], newNodeRecord(type, fields, crypto.randomUUID())),
+    updateNode: (type: NetworkNodeType, id: string, fields: NodeFields) =>
+      updateRecord(NODE_TYPE_TABLES[type], id, nodeRecordFields(type, fields)),
+    deleteNode: (type: NetworkNodeType, id: string) => deleteRecord(NODE_TYPE_TABLES[type], id),
+    undo,
+    redo,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    undoLabel: history.past[history.past.length - 1]?.label,
+    redoLabel: history.future[0]?.label,
+    isSaving: applyEdit.isPending
+  };
+};
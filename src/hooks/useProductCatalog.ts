@@ -0,0 +1,65 @@
+import { useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { catalogService } from '@/services/catalogService';
+import { dairyProducts, vehicleTypes as defaultVehicleTypes } from '@/data/dairyProducts';
+import { productFromRow, productToRow, vehicleTypeFromRow, vehicleTypeToRow } from '@/lib/productCatalog';
+import type { DairyProduct, VehicleType } from '@/types/products';
+
+// The product and vehicle catalog. Until the tables have loaded (or when
+// they cannot be read) the built-in catalog is used, so planners always
+// have products and vehicles to work with.
+export const useProductCatalog = () => {
+  const queryClient = useQueryClient();
+
+  const { data: productRows, isLoading: isLoadingProducts } = useQuery({
+    queryKey: ['dairy-products'],
+    queryFn: () => catalogService.getProducts(),
+  });
+
+  const { data: vehicleTypeRows, isLoading: isLoadingVehicleTypes } = useQuery({
+    queryKey: ['vehicle-types'],
+    queryFn: () => catalogService.getVehicleTypes(),
+  });
+
+  const products = useMemo<DairyProduct[]>(
+    () => productRows ? productRows.map(productFromRow) : dairyProducts,
+    [productRows]
+  );
+  const vehicleTypes = useMemo<VehicleType[]>(
+    () => vehicleTypeRows ? vehicleTypeRows.map(vehicleTypeFromRow) : defaultVehicleTypes,
+    [vehicleTypeRows]
+  );
+
+  const saveProduct = useMutation({
+    mutationFn: ({ product, isNew }: { product: DairyProduct; isNew: boolean }) =>
+      catalogService.saveProduct(productToRow(product), isNew),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['dairy-products'] }),
+  });
+
+  const deleteProduct = useMutation({
+    mutationFn: (id: string) => catalogService.deleteProduct(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['dairy-products'] }),
+  });
+
+  const saveVehicleType = useMutation({
+    mutationFn: ({ vehicleType, isNew }: { vehicleType: VehicleType; isNew: boolean }) =>
+      catalogService.saveVehicleType(vehicleTypeToRow(vehicleType), isNew),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['vehicle-types'] }),
+  });
+
+  const deleteVehicleType = useMutation({
+    mutationFn: (id: string) => catalogService.deleteVehicleType(id),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['vehicle-types'] }),
+  });
+
+  return {
+    products,
+    vehicleTypes,
+    isLoading: isLoadingProducts || isLoadingVehicleTypes,
+    saveProduct: saveProduct.mutateAsync,
+    deleteProduct: deleteProduct.mutateAsync,
+    saveVehicleType: saveVehicleType.mutateAsync,
+    deleteVehicleType: deleteVehicleType.mutateAsync,
+    isSaving: saveProduct.isPending || deleteProduct.isPending || saveVehicleType.isPending || deleteVehicleType.isPending
+  };
+};
@@ -0,0 +1,32 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { productionService, type ProductionLineInput } from '@/services/productionService';
+
+// Production lines of every plant the user can see
+export const useProductionLines = () => {
+  const queryClient = useQueryClient();
+
+  const { data: lines = [], isLoading } = useQuery({
+    queryKey: ['plant-production-lines'],
+    queryFn: () => productionService.getLines(),
+  });
+
+  const invalidateLines = () => queryClient.invalidateQueries({ queryKey: ['plant-production-lines'] });
+
+  const saveLine = useMutation({
+    mutationFn: (line: ProductionLineInput) => productionService.saveLine(line),
+    onSuccess: invalidateLines,
+  });
+
+  const deleteLine = useMutation({
+    mutationFn: (id: string) => productionService.deleteLine(id),
+    onSuccess: invalidateLines,
+  });
+
+  return {
+    lines,
+    isLoading,
+    saveLine: saveLine.mutateAsync,
+    deleteLine: deleteLine.mutateAsync,
+    isSaving: saveLine.isPending || deleteLine.isPending
+  };
+};
@@ -0,0 +1,52 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { scenarioService } from '@/services/scenarioService';
+import type { ScenarioSnapshot } from '@/types/scenarios';
+
+export const useScenarios = () => {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ['scenarios'] });
+
+  const { data: scenarios = [], isLoading, error } = useQuery({
+    queryKey: ['scenarios'],
+    queryFn: () => scenarioService.getScenarios(),
+  });
+
+  const createScenario = useMutation({
+    mutationFn: ({ name, snapshot, description }: { name: string; snapshot: ScenarioSnapshot; description?: string }) =>
+      scenarioService.createScenario(name, snapshot, description),
+    onSuccess: invalidate,
+  });
+
+  const updateScenario = useMutation({
+    mutationFn: ({ id, snapshot }: { id: string; snapshot: Partial<ScenarioSnapshot> }) =>
+      scenarioService.updateScenario(id, snapshot),
+    onSuccess: invalidate,
+  });
+
+  const renameScenario = useMutation({
+    mutationFn: ({ id, name, description }: { id: string; name: string; description?: string }) =>
+      scenarioService.renameScenario(id, name, description),
+    onSuccess: invalidate,
+  });
+
+  const cloneScenario = useMutation({
+    mutationFn: ({ id, name }: { id: string; name?: string }) => scenarioService.cloneScenario(id, name),
+    onSuccess: invalidate,
+  });
+
+  const deleteScenario = useMutation({
+    mutationFn: (id: string) => scenarioService.deleteScenario(id),
+    onSuccess: invalidate,
+  });
+
+  return {
+    scenarios,
+    isLoading,
+    error,
+    createScenario,
+    updateScenario,
+    renameScenario,
+    cloneScenario,
+    deleteScenario
+  };
+};
@@ -29,6 +29,11 @@ export function useSupplyChainData() {
     queryFn: supplyChainService.getTrucks,
   });
 
+  const { data: spoilageProfiles, isLoading: spoilageProfilesLoading } = useQuery({
+    queryKey: ['spoilage-profiles'],
+    queryFn: supplyChainService.getSpoilageProfiles,
+  });
+
   const { data: dailyCatches, isLoading: catchesLoading } = useQuery({
     queryKey: ['daily-catches', user?.id],
     queryFn: () => supplyChainService.getDailyCatches(user?.id),
@@ -91,7 +96,7 @@ export function useSupplyChainData() {
     setNodes(allNodes);
   }, [ports, coldStorages, markets]);
 
-  const isLoading = portsLoading || coldStoragesLoading || marketsLoading || trucksLoading;
+  const isLoading = portsLoading || coldStoragesLoading || marketsLoading || trucksLoading || spoilageProfilesLoading;
 
   return {
     nodes,
@@ -99,6 +104,7 @@ export function useSupplyChainData() {
     coldStorages: coldStorages || [],
     markets: markets || [],
     trucks: trucks || [],
+    spoilageProfiles: spoilageProfiles || [],
     dailyCatches: dailyCatches || [],
     optimizationResults: optimizationResults || [],
     isLoading,
@@ -106,3 +112,14 @@ export function useSupplyChainData() {
     resultsLoading,
   };
 }
+
+// Market prices and quantities in effect on a date
+export function useMarketDemand(date: string) {
+  const { data, isLoading } = useQuery({
+    queryKey: ['market-demand', date],
+    queryFn: () => supplyChainService.getMarketDemand(date),
+    enabled: !!date,
+  });
+
+  return { demand: data || [], isLoading };
+}
@@ -0,0 +1,29 @@
+import { useQuery } from '@tanstack/react-query';
+import { traceabilityService } from '@/services/traceabilityService';
+
+export type LotSearch =
+  | { by: 'lot'; code: string }
+  | { by: 'farm'; farmId: string; fromDate: string; toDate: string };
+
+export const useLotSearch = (search: LotSearch | null) => {
+  const { data: lots = [], isLoading } = useQuery({
+    queryKey: ['lot-search', search],
+    queryFn: () => search!.by === 'lot'
+      ? traceabilityService.searchLots(search!.code)
+      : traceabilityService.getFarmLots(search!.farmId, search!.fromDate, search!.toDate),
+    enabled: !!search && (search.by === 'lot' ? search.code.trim().length >= 2 : !!search.farmId),
+  });
+
+  return { lots, isLoading };
+};
+
+// Sources and destinations of the given lots; nothing until some are chosen
+export const useLotTrace = (lotIds: string[]) => {
+  const { data: trace, isLoading, error } = useQuery({
+    queryKey: ['lot-trace', [...lotIds].sort()],
+    queryFn: () => traceabilityService.trace(lotIds),
+    enabled: lotIds.length > 0,
+  });
+
+  return { trace, isLoading, error };
+};
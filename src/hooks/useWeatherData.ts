@@ -1,91 +1,43 @@
-
-import { useState, useEffect } from 'react';
-import { WeatherConditions } from '@/types/products';
-
-// Using OpenWeatherMap API for real-time weather data
-const WEATHER_API_KEY = ''; // TODO: Add your OpenWeatherMap API key here for real weather data
-const WEATHER_API_URL = 'https://api.openweathermap.org/data/2.5/weather';
-
-export function useWeatherData(lat: number = 12.9716, lng: number = 77.5946) {
-  const [weather, setWeather] = useState<WeatherConditions | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-
-  useEffect(() => {
-    // Mock weather data when API key is not available
-    if (!WEATHER_API_KEY) {
-      setWeather({
-        temperature: 25,
-        humidity: 65,
-        precipitation: 0,
-        windSpeed: 10,
-        uvIndex: 5,
-        timestamp: new Date(),
-        location: { lat, lng }
-      });
-      return;
-    }
-
-    setIsLoading(true);
-    setError(null);
-
-    fetch(`${WEATHER_API_URL}?lat=${lat}&lon=${lng}&appid=${WEATHER_API_KEY}&units=metric`)
-      .then(response => response.json())
-      .then(data => {
-        if (data.cod === 200) {
-          const weatherData: WeatherConditions = {
-            temperature: data.main.temp,
-            humidity: data.main.humidity,
-            precipitation: data.rain?.['1h'] || 0,
-            windSpeed: data.wind.speed * 3.6, // convert m/s to km/h
-            uvIndex: 0, // Would need separate UV API call
-            timestamp: new Date(),
-            location: { lat, lng }
-          };
-          setWeather(weatherData);
-        } else {
-          setError(data.message || 'Weather data unavailable');
-        }
-      })
-      .catch(err => {
-        setError('Failed to fetch weather data');
-        console.error('Weather API error:', err);
-      })
-      .finally(() => {
-        setIsLoading(false);
-      });
-  }, [lat, lng]);
+import { useQuery } from '@tanstack/react-query';
+import { weatherService } from '@/services/weatherService';
+import { defaultWeatherProvider, currentConditions, weatherCellKey, type WeatherProvider } from '@/lib/weather';
+import type { GeoPoint } from '@/lib/geo';
+
+export function useWeatherData(
+  lat: number = 12.9716,
+  lng: number = 77.5946,
+  provider: WeatherProvider = defaultWeatherProvider
+) {
+  const { data: forecast = null, isLoading, error } = useQuery({
+    queryKey: ['weather-forecast', provider.name, weatherCellKey({ lat, lng })],
+    queryFn: () => weatherService.getForecast({ lat, lng }, provider),
+    staleTime: 15 * 60 * 1000,
+  });
+
+  const weather = forecast ? currentConditions(forecast) : null;
 
   return { 
     weather, 
     weatherData: weather, // Add alias for backward compatibility
+    forecast,
     isLoading, 
-    error 
+    error: error ? (error as Error).message : null
   };
 }
 
-// Calculate spoilage based on weather conditions
-export function calculateWeatherSpoilage(
-  product: any,
-  weather: WeatherConditions,
-  transportTimeHours: number
-): number {
-  if (!weather) return 0;
-
-  let spoilageRate = product.spoilageRate.perHourRefrigerated;
-  
-  // Adjust for ambient temperature if no refrigeration
-  if (weather.temperature > product.temperatureRange.max) {
-    const tempExcess = weather.temperature - product.temperatureRange.max;
-    spoilageRate = product.spoilageRate.perHourAtAmbient * (1 + tempExcess * 0.1);
-  }
-
-  // Adjust for humidity (affects certain products)
-  if (weather.humidity > 85 && product.qualityFactors.oxygenSensitivity) {
-    spoilageRate *= 1.3;
-  }
-
-  // Calculate total spoilage
-  const totalSpoilage = spoilageRate * transportTimeHours;
-  return Math.min(totalSpoilage, 100); // Cap at 100%
+// Hourly forecasts for several network nodes, keyed by node id
+export function useWeatherForecasts(
+  points: Required<GeoPoint>[],
+  provider: WeatherProvider = defaultWeatherProvider
+) {
+  const cells = [...new Set(points.map(weatherCellKey))].sort();
+
+  const { data: forecasts = {}, isLoading, error } = useQuery({
+    queryKey: ['weather-forecasts', provider.name, points.map(p => p.id).sort().join(','), cells.join('|')],
+    queryFn: () => weatherService.getForecasts(points, provider),
+    enabled: points.length > 0,
+    staleTime: 15 * 60 * 1000,
+  });
+
+  return { forecasts, isLoading, error };
 }
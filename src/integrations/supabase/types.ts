@@ -14,6 +14,80 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_email: string | null
+          actor_id: string | null
+          changed_at: string
+          changed_fields: string[] | null
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_at?: string
+          changed_fields?: string[] | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id: string
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_email?: string | null
+          actor_id?: string | null
+          changed_at?: string
+          changed_fields?: string[] | null
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string
+          table_name?: string
+        }
+        Relationships: []
+      }
+      center_collection_history: {
+        Row: {
+          center_id: string
+          collection_date: string
+          created_at: string
+          farms_reporting: number | null
+          id: string
+          volume_liters: number
+        }
+        Insert: {
+          center_id: string
+          collection_date: string
+          created_at?: string
+          farms_reporting?: number | null
+          id?: string
+          volume_liters: number
+        }
+        Update: {
+          center_id?: string
+          collection_date?: string
+          created_at?: string
+          farms_reporting?: number | null
+          id?: string
+          volume_liters?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "center_collection_history_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "collection_centers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       cold_storage: {
         Row: {
           active: boolean | null
@@ -78,6 +152,7 @@ export type Database = {
           location_lng: number
           name: string
           phone: string | null
+          region: string
           serves_villages: string[]
           storage_capacity_liters: number
         }
@@ -93,6 +168,7 @@ export type Database = {
           location_lng: number
           name: string
           phone?: string | null
+          region?: string
           serves_villages: string[]
           storage_capacity_liters: number
         }
@@ -108,6 +184,7 @@ export type Database = {
           location_lng?: number
           name?: string
           phone?: string | null
+          region?: string
           serves_villages?: string[]
           storage_capacity_liters?: number
         }
@@ -176,6 +253,7 @@ export type Database = {
           name: string
           organic_certified: boolean | null
           phone: string | null
+          region: string
         }
         Insert: {
           active?: boolean | null
@@ -192,6 +270,7 @@ export type Database = {
           name: string
           organic_certified?: boolean | null
           phone?: string | null
+          region?: string
         }
         Update: {
           active?: boolean | null
@@ -208,9 +287,335 @@ export type Database = {
           name?: string
           organic_certified?: boolean | null
           phone?: string | null
+          region?: string
+        }
+        Relationships: []
+      }
+      dairy_products: {
+        Row: {
+          category: string
+          created_at: string | null
+          fat_percent: number | null
+          id: string
+          lactose_percent: number | null
+          light_sensitive: boolean
+          name: string
+          oxygen_sensitive: boolean
+          packaging_requirements: string[]
+          protein_percent: number | null
+          shelf_life_ambient_hours: number
+          shelf_life_frozen_hours: number | null
+          shelf_life_refrigerated_hours: number
+          spoilage_per_hour_ambient: number
+          spoilage_per_hour_refrigerated: number
+          temp_max_c: number
+          temp_min_c: number
+          temp_optimal_c: number
+          temperature_sensitivity: string
+          transport_requirements: string[]
+          updated_at: string | null
+        }
+        Insert: {
+          category: string
+          created_at?: string | null
+          fat_percent?: number | null
+          id: string
+          lactose_percent?: number | null
+          light_sensitive?: boolean
+          name: string
+          oxygen_sensitive?: boolean
+          packaging_requirements?: string[]
+          protein_percent?: number | null
+          shelf_life_ambient_hours: number
+          shelf_life_frozen_hours?: number | null
+          shelf_life_refrigerated_hours: number
+          spoilage_per_hour_ambient: number
+          spoilage_per_hour_refrigerated: number
+          temp_max_c: number
+          temp_min_c: number
+          temp_optimal_c: number
+          temperature_sensitivity?: string
+          transport_requirements?: string[]
+          updated_at?: string | null
+        }
+        Update: {
+          category?: string
+          created_at?: string | null
+          fat_percent?: number | null
+          id?: string
+          lactose_percent?: number | null
+          light_sensitive?: boolean
+          name?: string
+          oxygen_sensitive?: boolean
+          packaging_requirements?: string[]
+          protein_percent?: number | null
+          shelf_life_ambient_hours?: number
+          shelf_life_frozen_hours?: number | null
+          shelf_life_refrigerated_hours?: number
+          spoilage_per_hour_ambient?: number
+          spoilage_per_hour_refrigerated?: number
+          temp_max_c?: number
+          temp_min_c?: number
+          temp_optimal_c?: number
+          temperature_sensitivity?: string
+          transport_requirements?: string[]
+          updated_at?: string | null
         }
         Relationships: []
       }
+      dairy_vehicles: {
+        Row: {
+          active: boolean
+          available_from: string
+          available_to: string
+          created_at: string | null
+          home_center_id: string | null
+          home_plant_id: string | null
+          id: string
+          last_service_km: number
+          notes: string | null
+          odometer_km: number
+          registration: string
+          service_interval_km: number
+          updated_at: string | null
+          vehicle_type_id: string
+          working_days: number[]
+        }
+        Insert: {
+          active?: boolean
+          available_from?: string
+          available_to?: string
+          created_at?: string | null
+          home_center_id?: string | null
+          home_plant_id?: string | null
+          id?: string
+          last_service_km?: number
+          notes?: string | null
+          odometer_km?: number
+          registration: string
+          service_interval_km?: number
+          updated_at?: string | null
+          vehicle_type_id: string
+          working_days?: number[]
+        }
+        Update: {
+          active?: boolean
+          available_from?: string
+          available_to?: string
+          created_at?: string | null
+          home_center_id?: string | null
+          home_plant_id?: string | null
+          id?: string
+          last_service_km?: number
+          notes?: string | null
+          odometer_km?: number
+          registration?: string
+          service_interval_km?: number
+          updated_at?: string | null
+          vehicle_type_id?: string
+          working_days?: number[]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dairy_vehicles_home_center_id_fkey"
+            columns: ["home_center_id"]
+            isOneToOne: false
+            referencedRelation: "collection_centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dairy_vehicles_home_plant_id_fkey"
+            columns: ["home_plant_id"]
+            isOneToOne: false
+            referencedRelation: "processing_plants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dairy_vehicles_vehicle_type_id_fkey"
+            columns: ["vehicle_type_id"]
+            isOneToOne: false
+            referencedRelation: "vehicle_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      distance_matrices: {
+        Row: {
+          created_at: string | null
+          distances_km: Json
+          durations_hours: Json | null
+          id: string
+          node_ids: string[]
+          node_set_key: string
+          provider: string
+        }
+        Insert: {
+          created_at?: string | null
+          distances_km: Json
+          durations_hours?: Json | null
+          id?: string
+          node_ids: string[]
+          node_set_key: string
+          provider: string
+        }
+        Update: {
+          created_at?: string | null
+          distances_km?: Json
+          durations_hours?: Json | null
+          id?: string
+          node_ids?: string[]
+          node_set_key?: string
+          provider?: string
+        }
+        Relationships: []
+      }
+      distributors: {
+        Row: {
+          active: boolean | null
+          contact_person: string | null
+          created_at: string | null
+          daily_demand_liters: number
+          delivery_vehicles: number
+          distributor_type: string
+          district: string
+          frozen_storage: boolean
+          id: string
+          location_lat: number
+          location_lng: number
+          name: string
+          phone: string | null
+          plant_id: string | null
+          refrigerated_storage: boolean
+          region: string
+          service_radius_km: number | null
+          storage_capacity_liters: number
+        }
+        Insert: {
+          active?: boolean | null
+          contact_person?: string | null
+          created_at?: string | null
+          daily_demand_liters?: number
+          delivery_vehicles?: number
+          distributor_type?: string
+          district: string
+          frozen_storage?: boolean
+          id?: string
+          location_lat: number
+          location_lng: number
+          name: string
+          phone?: string | null
+          plant_id?: string | null
+          refrigerated_storage?: boolean
+          region?: string
+          service_radius_km?: number | null
+          storage_capacity_liters: number
+        }
+        Update: {
+          active?: boolean | null
+          contact_person?: string | null
+          created_at?: string | null
+          daily_demand_liters?: number
+          delivery_vehicles?: number
+          distributor_type?: string
+          district?: string
+          frozen_storage?: boolean
+          id?: string
+          location_lat?: number
+          location_lng?: number
+          name?: string
+          phone?: string | null
+          plant_id?: string | null
+          refrigerated_storage?: boolean
+          region?: string
+          service_radius_km?: number | null
+          storage_capacity_liters?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "distributors_plant_id_fkey"
+            columns: ["plant_id"]
+            isOneToOne: false
+            referencedRelation: "processing_plants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      farm_collection_history: {
+        Row: {
+          cattle_count: number | null
+          collection_date: string
+          created_at: string
+          farm_id: string
+          id: string
+          volume_liters: number
+        }
+        Insert: {
+          cattle_count?: number | null
+          collection_date: string
+          created_at?: string
+          farm_id: string
+          id?: string
+          volume_liters: number
+        }
+        Update: {
+          cattle_count?: number | null
+          collection_date?: string
+          created_at?: string
+          farm_id?: string
+          id?: string
+          volume_liters?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "farm_collection_history_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "dairy_farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      farm_payment_deductions: {
+        Row: {
+          amount: number
+          category: string
+          created_at: string | null
+          deduction_date: string
+          description: string | null
+          farm_id: string
+          id: string
+          recorded_by: string | null
+        }
+        Insert: {
+          amount: number
+          category: string
+          created_at?: string | null
+          deduction_date: string
+          description?: string | null
+          farm_id: string
+          id?: string
+          recorded_by?: string | null
+        }
+        Update: {
+          amount?: number
+          category?: string
+          created_at?: string | null
+          deduction_date?: string
+          description?: string | null
+          farm_id?: string
+          id?: string
+          recorded_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "farm_payment_deductions_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "dairy_farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       forecasts: {
         Row: {
           confidence_level: number | null
@@ -255,6 +660,206 @@ export type Database = {
           },
         ]
       }
+      inventory_movements: {
+        Row: {
+          center_id: string | null
+          collection_id: string | null
+          created_at: string | null
+          destination_id: string | null
+          destination_type: string | null
+          id: string
+          kind: string
+          notes: string | null
+          occurred_at: string
+          plant_id: string | null
+          product_id: string | null
+          quantity: number
+          recorded_by: string | null
+          transaction_id: string
+        }
+        Insert: {
+          center_id?: string | null
+          collection_id?: string | null
+          created_at?: string | null
+          destination_id?: string | null
+          destination_type?: string | null
+          id?: string
+          kind: string
+          notes?: string | null
+          occurred_at?: string
+          plant_id?: string | null
+          product_id?: string | null
+          quantity: number
+          recorded_by?: string | null
+          transaction_id?: string
+        }
+        Update: {
+          center_id?: string | null
+          collection_id?: string | null
+          created_at?: string | null
+          destination_id?: string | null
+          destination_type?: string | null
+          id?: string
+          kind?: string
+          notes?: string | null
+          occurred_at?: string
+          plant_id?: string | null
+          product_id?: string | null
+          quantity?: number
+          recorded_by?: string | null
+          transaction_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "inventory_movements_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "collection_centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_collection_id_fkey"
+            columns: ["collection_id"]
+            isOneToOne: false
+            referencedRelation: "milk_collections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_plant_id_fkey"
+            columns: ["plant_id"]
+            isOneToOne: false
+            referencedRelation: "processing_plants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "inventory_movements_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "dairy_products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lot_links: {
+        Row: {
+          child_lot_id: string
+          created_at: string | null
+          parent_lot_id: string
+          quantity: number
+        }
+        Insert: {
+          child_lot_id: string
+          created_at?: string | null
+          parent_lot_id: string
+          quantity: number
+        }
+        Update: {
+          child_lot_id?: string
+          created_at?: string | null
+          parent_lot_id?: string
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lot_links_child_lot_id_fkey"
+            columns: ["child_lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lot_links_parent_lot_id_fkey"
+            columns: ["parent_lot_id"]
+            isOneToOne: false
+            referencedRelation: "lots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lots: {
+        Row: {
+          center_id: string | null
+          created_at: string | null
+          destination_id: string | null
+          destination_type: string | null
+          farm_id: string | null
+          id: string
+          kind: string
+          lot_code: string
+          movement_id: string
+          plant_id: string | null
+          produced_at: string
+          product_id: string | null
+          quantity: number
+        }
+        Insert: {
+          center_id?: string | null
+          created_at?: string | null
+          destination_id?: string | null
+          destination_type?: string | null
+          farm_id?: string | null
+          id?: string
+          kind: string
+          lot_code: string
+          movement_id: string
+          plant_id?: string | null
+          produced_at: string
+          product_id?: string | null
+          quantity: number
+        }
+        Update: {
+          center_id?: string | null
+          created_at?: string | null
+          destination_id?: string | null
+          destination_type?: string | null
+          farm_id?: string | null
+          id?: string
+          kind?: string
+          lot_code?: string
+          movement_id?: string
+          plant_id?: string | null
+          produced_at?: string
+          product_id?: string | null
+          quantity?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lots_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "collection_centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lots_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "dairy_farms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lots_movement_id_fkey"
+            columns: ["movement_id"]
+            isOneToOne: false
+            referencedRelation: "inventory_movements"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lots_plant_id_fkey"
+            columns: ["plant_id"]
+            isOneToOne: false
+            referencedRelation: "processing_plants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lots_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "dairy_products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       market_demand: {
         Row: {
           created_at: string | null
@@ -335,6 +940,120 @@ export type Database = {
         }
         Relationships: []
       }
+      milk_collections: {
+        Row: {
+          center_id: string
+          collection_date: string
+          created_at: string | null
+          farm_id: string
+          fat_percent: number | null
+          id: string
+          notes: string | null
+          recorded_by: string | null
+          rejected_liters: number
+          rejection_reason: string | null
+          shift: string
+          snf_percent: number | null
+          temperature_celsius: number | null
+          updated_at: string | null
+          volume_liters: number
+        }
+        Insert: {
+          center_id: string
+          collection_date: string
+          created_at?: string | null
+          farm_id: string
+          fat_percent?: number | null
+          id?: string
+          notes?: string | null
+          recorded_by?: string | null
+          rejected_liters?: number
+          rejection_reason?: string | null
+          shift: string
+          snf_percent?: number | null
+          temperature_celsius?: number | null
+          updated_at?: string | null
+          volume_liters: number
+        }
+        Update: {
+          center_id?: string
+          collection_date?: string
+          created_at?: string | null
+          farm_id?: string
+          fat_percent?: number | null
+          id?: string
+          notes?: string | null
+          recorded_by?: string | null
+          rejected_liters?: number
+          rejection_reason?: string | null
+          shift?: string
+          snf_percent?: number | null
+          temperature_celsius?: number | null
+          updated_at?: string | null
+          volume_liters?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "milk_collections_center_id_fkey"
+            columns: ["center_id"]
+            isOneToOne: false
+            referencedRelation: "collection_centers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "milk_collections_farm_id_fkey"
+            columns: ["farm_id"]
+            isOneToOne: false
+            referencedRelation: "dairy_farms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      milk_rate_cards: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          effective_from: string
+          fat_steps: number[]
+          id: string
+          is_active: boolean
+          name: string
+          organic_bonus_per_liter: number
+          organic_bonus_percent: number
+          rates: Json
+          snf_steps: number[]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          effective_from: string
+          fat_steps: number[]
+          id?: string
+          is_active?: boolean
+          name: string
+          organic_bonus_per_liter?: number
+          organic_bonus_percent?: number
+          rates: Json
+          snf_steps: number[]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          effective_from?: string
+          fat_steps?: number[]
+          id?: string
+          is_active?: boolean
+          name?: string
+          organic_bonus_per_liter?: number
+          organic_bonus_percent?: number
+          rates?: Json
+          snf_steps?: number[]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
       optimization_results: {
         Row: {
           cold_storage_id: string | null
@@ -424,6 +1143,63 @@ export type Database = {
           },
         ]
       }
+      plant_production_lines: {
+        Row: {
+          active: boolean
+          created_at: string | null
+          id: string
+          line_capacity_per_day: number
+          margin_per_unit: number
+          milk_liters_per_unit: number
+          min_units_per_day: number
+          plant_id: string
+          product_id: string
+          unit: string
+          updated_at: string | null
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string | null
+          id?: string
+          line_capacity_per_day: number
+          margin_per_unit?: number
+          milk_liters_per_unit: number
+          min_units_per_day?: number
+          plant_id: string
+          product_id: string
+          unit?: string
+          updated_at?: string | null
+        }
+        Update: {
+          active?: boolean
+          created_at?: string | null
+          id?: string
+          line_capacity_per_day?: number
+          margin_per_unit?: number
+          milk_liters_per_unit?: number
+          min_units_per_day?: number
+          plant_id?: string
+          product_id?: string
+          unit?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "plant_production_lines_plant_id_fkey"
+            columns: ["plant_id"]
+            isOneToOne: false
+            referencedRelation: "processing_plants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "plant_production_lines_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "dairy_products"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       ports: {
         Row: {
           active: boolean | null
@@ -474,6 +1250,7 @@ export type Database = {
           created_at: string | null
           district: string
           established_year: number | null
+          finished_goods_capacity: number
           id: string
           location_lat: number
           location_lng: number
@@ -482,6 +1259,8 @@ export type Database = {
           plant_type: string
           processing_capacity_liters_per_day: number
           products: string[]
+          region: string
+          silo_capacity_liters: number
         }
         Insert: {
           active?: boolean | null
@@ -490,6 +1269,7 @@ export type Database = {
           created_at?: string | null
           district: string
           established_year?: number | null
+          finished_goods_capacity?: number
           id?: string
           location_lat: number
           location_lng: number
@@ -498,6 +1278,8 @@ export type Database = {
           plant_type: string
           processing_capacity_liters_per_day: number
           products: string[]
+          region?: string
+          silo_capacity_liters?: number
         }
         Update: {
           active?: boolean | null
@@ -506,6 +1288,7 @@ export type Database = {
           created_at?: string | null
           district?: string
           established_year?: number | null
+          finished_goods_capacity?: number
           id?: string
           location_lat?: number
           location_lng?: number
@@ -514,6 +1297,8 @@ export type Database = {
           plant_type?: string
           processing_capacity_liters_per_day?: number
           products?: string[]
+          region?: string
+          silo_capacity_liters?: number
         }
         Relationships: []
       }
@@ -550,6 +1335,136 @@ export type Database = {
         }
         Relationships: []
       }
+      retail_outlets: {
+        Row: {
+          active: boolean | null
+          contact_person: string | null
+          created_at: string | null
+          daily_demand_liters: number
+          distributor_id: string | null
+          district: string
+          frozen_storage: boolean
+          id: string
+          location_lat: number
+          location_lng: number
+          name: string
+          outlet_type: string
+          phone: string | null
+          product_demand: Json
+          receiving_from: string
+          receiving_to: string
+          refrigerated_storage: boolean
+          region: string
+          storage_capacity_liters: number
+        }
+        Insert: {
+          active?: boolean | null
+          contact_person?: string | null
+          created_at?: string | null
+          daily_demand_liters: number
+          distributor_id?: string | null
+          district: string
+          frozen_storage?: boolean
+          id?: string
+          location_lat: number
+          location_lng: number
+          name: string
+          outlet_type?: string
+          phone?: string | null
+          product_demand?: Json
+          receiving_from?: string
+          receiving_to?: string
+          refrigerated_storage?: boolean
+          region?: string
+          storage_capacity_liters?: number
+        }
+        Update: {
+          active?: boolean | null
+          contact_person?: string | null
+          created_at?: string | null
+          daily_demand_liters?: number
+          distributor_id?: string | null
+          district?: string
+          frozen_storage?: boolean
+          id?: string
+          location_lat?: number
+          location_lng?: number
+          name?: string
+          outlet_type?: string
+          phone?: string | null
+          product_demand?: Json
+          receiving_from?: string
+          receiving_to?: string
+          refrigerated_storage?: boolean
+          region?: string
+          storage_capacity_liters?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "retail_outlets_distributor_id_fkey"
+            columns: ["distributor_id"]
+            isOneToOne: false
+            referencedRelation: "distributors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scenarios: {
+        Row: {
+          constraints: Json
+          created_at: string | null
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          nodes: Json
+          parent_id: string | null
+          routes: Json
+          selected_products: string[]
+          selected_vehicles: string[]
+          summary_route: Json | null
+          updated_at: string | null
+        }
+        Insert: {
+          constraints?: Json
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          nodes?: Json
+          parent_id?: string | null
+          routes?: Json
+          selected_products?: string[]
+          selected_vehicles?: string[]
+          summary_route?: Json | null
+          updated_at?: string | null
+        }
+        Update: {
+          constraints?: Json
+          created_at?: string | null
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          nodes?: Json
+          parent_id?: string | null
+          routes?: Json
+          selected_products?: string[]
+          selected_vehicles?: string[]
+          summary_route?: Json | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scenarios_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "scenarios"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       spoilage_profiles: {
         Row: {
           created_at: string | null
@@ -592,6 +1507,7 @@ export type Database = {
           from_type: string
           id: string
           optimal_load_liters: number
+          region: string
           route_name: string
           to_id: string
           to_type: string
@@ -608,6 +1524,7 @@ export type Database = {
           from_type: string
           id?: string
           optimal_load_liters: number
+          region?: string
           route_name: string
           to_id: string
           to_type: string
@@ -624,6 +1541,7 @@ export type Database = {
           from_type?: string
           id?: string
           optimal_load_liters?: number
+          region?: string
           route_name?: string
           to_id?: string
           to_type?: string
@@ -684,11 +1602,166 @@ export type Database = {
           },
         ]
       }
+      vehicle_downtime: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          ends_at: string
+          id: string
+          kind: string
+          notes: string | null
+          starts_at: string
+          vehicle_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          ends_at: string
+          id?: string
+          kind: string
+          notes?: string | null
+          starts_at: string
+          vehicle_id: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          ends_at?: string
+          id?: string
+          kind?: string
+          notes?: string | null
+          starts_at?: string
+          vehicle_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "vehicle_downtime_vehicle_id_fkey"
+            columns: ["vehicle_id"]
+            isOneToOne: false
+            referencedRelation: "dairy_vehicles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      vehicle_types: {
+        Row: {
+          can_maintain_temperature: boolean
+          capacity_liters: number
+          compartments: Json
+          cost_per_km: number
+          created_at: string | null
+          fuel_efficiency_kmpl: number
+          id: string
+          max_trip_hours: number
+          multi_day_capable: boolean
+          name: string
+          suitable_categories: string[]
+          temp_range_max_c: number | null
+          temp_range_min_c: number | null
+          type: string
+          updated_at: string | null
+        }
+        Insert: {
+          can_maintain_temperature?: boolean
+          capacity_liters: number
+          compartments?: Json
+          cost_per_km: number
+          created_at?: string | null
+          fuel_efficiency_kmpl: number
+          id: string
+          max_trip_hours: number
+          multi_day_capable?: boolean
+          name: string
+          suitable_categories?: string[]
+          temp_range_max_c?: number | null
+          temp_range_min_c?: number | null
+          type: string
+          updated_at?: string | null
+        }
+        Update: {
+          can_maintain_temperature?: boolean
+          capacity_liters?: number
+          compartments?: Json
+          cost_per_km?: number
+          created_at?: string | null
+          fuel_efficiency_kmpl?: number
+          id?: string
+          max_trip_hours?: number
+          multi_day_capable?: boolean
+          name?: string
+          suitable_categories?: string[]
+          temp_range_max_c?: number | null
+          temp_range_min_c?: number | null
+          type?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      weather_forecasts: {
+        Row: {
+          cell_key: string
+          created_at: string | null
+          fetched_at: string
+          hourly: Json
+          id: string
+          lat: number
+          lng: number
+          provider: string
+        }
+        Insert: {
+          cell_key: string
+          created_at?: string | null
+          fetched_at?: string
+          hourly: Json
+          id?: string
+          lat: number
+          lng: number
+          provider: string
+        }
+        Update: {
+          cell_key?: string
+          created_at?: string | null
+          fetched_at?: string
+          hourly?: Json
+          id?: string
+          lat?: number
+          lng?: number
+          provider?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
+      allocate_lot_parents: {
+        Args: {
+          _child: string
+          _parents: string[]
+          _quantity: number
+        }
+        Returns: undefined
+      }
+      can_manage_network: {
+        Args: {
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      collection_time: {
+        Args: {
+          _date: string
+          _shift: string
+        }
+        Returns: string
+      }
+      create_movement_lot: {
+        Args: {
+          _movement: Database["public"]["Tables"]["inventory_movements"]["Row"]
+        }
+        Returns: undefined
+      }
       has_role: {
         Args: {
           _user_id: string
@@ -696,6 +1769,68 @@ export type Database = {
         }
         Returns: boolean
       }
+      import_network_records: {
+        Args: {
+          _records: Json
+          _table: string
+        }
+        Returns: Json
+      }
+      import_network_snapshot: {
+        Args: {
+          _tables: Json
+        }
+        Returns: Json
+      }
+      inventory_levels: {
+        Args: {
+          _at?: string
+        }
+        Returns: {
+          center_id: string
+          counted_at: string
+          plant_id: string
+          product_id: string
+          quantity: number
+        }[]
+      }
+      link_movement_lot: {
+        Args: {
+          _movement: Database["public"]["Tables"]["inventory_movements"]["Row"]
+        }
+        Returns: undefined
+      }
+      lot_code: {
+        Args: {
+          _kind: string
+          _at: string
+          _movement_id: string
+        }
+        Returns: string
+      }
+      refresh_collection_history: {
+        Args: {
+          _farm_id: string
+          _center_id: string
+          _date: string
+        }
+        Returns: undefined
+      }
+      trace_lots: {
+        Args: {
+          _lot_ids: string[]
+        }
+        Returns: {
+          depth: number
+          lot_id: string
+        }[]
+      }
+      user_region: {
+        Args: {
+          _user_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
       app_role: "admin" | "operator" | "planner"
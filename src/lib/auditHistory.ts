@@ -0,0 +1,29 @@
+import type { AuditEntry, AuditFieldChange } from '@/types/audit';
+
+// Bookkeeping columns that are not part of a record's content
+const UNRESTORABLE_COLUMNS = ['id', 'created_at', 'updated_at'];
+
+// Before/after values of the columns an entry changed
+export function auditFieldChanges(entry: AuditEntry): AuditFieldChange[] {
+  return entry.changedFields
+    .filter(field => !UNRESTORABLE_COLUMNS.includes(field))
+    .map(field => ({ field, before: entry.oldData?.[field] ?? null, after: entry.newData?.[field] ?? null }));
+}
+
+/**
+ * Column values that return a record to its state right after an entry.
+ * Deletes have no such state.
+ */
+export function restorableFields(entry: AuditEntry): Record<string, unknown> | null {
+  if (!entry.newData) return null;
+  return Object.fromEntries(
+    Object.entries(entry.newData).filter(([column]) => !UNRESTORABLE_COLUMNS.includes(column))
+  );
+}
+
+export function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
@@ -0,0 +1,288 @@
+import type { DairyProduct, VehicleType } from '@/types/products';
+
+/**
+ * Cold-chain spoilage simulation
+ *
+ * Quality loss is tracked as the fraction of shelf life consumed. Shelf life
+ * at a product temperature T follows the Arrhenius equation
+ *
+ *   SL(T) = SL_ref × exp(Ea/R × (1/T − 1/T_ref))      (T in kelvin)
+ *
+ * with the reference point at the top of the product's storage range. Ea/R
+ * is calibrated so SL(25 °C) equals the product's ambient shelf life; when
+ * that is not possible a Q10 default from the product's temperature
+ * sensitivity is used instead. The product temperature itself relaxes
+ * towards the vehicle set point or the ambient air with a first-order lag,
+ * and doors open during loading and unloading expose the load to ambient.
+ */
+
+const KELVIN = 273.15;
+export const AMBIENT_REFERENCE_TEMPERATURE = 25; // °C the ambient shelf lives are quoted at
+
+export const DEFAULT_Q10: Record<DairyProduct['qualityFactors']['temperatureSensitivity'], number> = {
+  low: 2,
+  medium: 3,
+  high: 4
+};
+
+// Hours for the product temperature to close ~63% of the gap to its target
+export const THERMAL_TIME_CONSTANT_HOURS: Record<VehicleType['type'] | 'none', number> = {
+  refrigerated: 1, // set point pull-down
+  insulated: 6,
+  ambient: 1,
+  none: 0.75
+};
+export const DOOR_OPEN_TIME_CONSTANT_HOURS = 2; // packed load warms slower than the air around it
+
+export interface AmbientTemperatureProfile {
+  startHour: number; // clock hour of hourly[0]; may run past 24 for multi-day profiles
+  hourly: number[]; // °C
+}
+
+export interface ColdChainLeg {
+  name: string; // stop reached at the end of the leg
+  travelHours: number; // doors closed, including waiting at the stop
+  dwellHours: number; // doors open for loading/unloading at the stop
+}
+
+export interface ColdChainSimulationInput {
+  product: DairyProduct;
+  vehicle?: VehicleType; // omitted: product carried without any protection
+  ambient: AmbientTemperatureProfile;
+  startHour: number; // clock hour loading begins
+  originName?: string;
+  loadingHours?: number; // doors open at the origin before departure
+  legs: ColdChainLeg[];
+  initialTemperature?: number; // defaults to the product's optimal temperature
+  initialQualityLossPercent?: number; // shelf life already used up before loading
+  stepHours?: number;
+}
+
+export interface ColdChainStopState {
+  name: string;
+  arrivalHour: number;
+  departureHour: number;
+  ambientTemperature: number;
+  productTemperature: number; // at departure
+  qualityLossPercent: number; // share of shelf life consumed so far
+  remainingShelfLifeHours: number; // if stored at the reference temperature from here on
+}
+
+export interface ColdChainSimulationResult {
+  stops: ColdChainStopState[]; // origin first, then one entry per leg
+  totalHours: number;
+  spoilagePercent: number;
+  remainingShelfLifeHours: number;
+  maxProductTemperature: number;
+  hoursAboveMaxTemperature: number;
+}
+
+export interface ShelfLifeModel {
+  referenceTemperature: number; // °C
+  referenceShelfLifeHours: number;
+  activationEnergyOverR: number; // kelvin
+  q10: number; // equivalent Q10 around the reference temperature
+}
+
+const toKelvin = (celsius: number) => celsius + KELVIN;
+
+export function q10ToActivationEnergyOverR(q10: number, referenceTemperature: number): number {
+  const t = toKelvin(referenceTemperature);
+  return Math.log(q10) * t * (t + 10) / 10;
+}
+
+export function shelfLifeModel(product: DairyProduct): ShelfLifeModel {
+  const frozen = product.category === 'frozen' && product.shelfLife.frozen !== undefined;
+  const referenceTemperature = product.temperatureRange.max;
+  const referenceShelfLifeHours = frozen ? product.shelfLife.frozen! : product.shelfLife.refrigerated;
+
+  // Two-point calibration between storage and ambient shelf life
+  let activationEnergyOverR: number;
+  const ambientShelfLife = product.shelfLife.ambient;
+  if (ambientShelfLife > 0 && ambientShelfLife < referenceShelfLifeHours &&
+      referenceTemperature < AMBIENT_REFERENCE_TEMPERATURE) {
+    activationEnergyOverR = Math.log(referenceShelfLifeHours / ambientShelfLife) /
+      (1 / toKelvin(referenceTemperature) - 1 / toKelvin(AMBIENT_REFERENCE_TEMPERATURE));
+  } else {
+    activationEnergyOverR = q10ToActivationEnergyOverR(
+      DEFAULT_Q10[product.qualityFactors.temperatureSensitivity], referenceTemperature
+    );
+  }
+
+  const t = toKelvin(referenceTemperature);
+  return {
+    referenceTemperature,
+    referenceShelfLifeHours,
+    activationEnergyOverR,
+    q10: Math.exp(activationEnergyOverR * 10 / (t * (t + 10)))
+  };
+}
+
+export function shelfLifeAt(model: ShelfLifeModel, temperature: number): number {
+  return model.referenceShelfLifeHours *
+    Math.exp(model.activationEnergyOverR * (1 / toKelvin(temperature) - 1 / toKelvin(model.referenceTemperature)));
+}
+
+// Percentage of shelf life lost per hour while held at a constant temperature
+export function qualityLossRatePerHour(product: DairyProduct, temperature: number): number {
+  return 100 / shelfLifeAt(shelfLifeModel(product), temperature);
+}
+
+export function ambientTemperatureAt(profile: AmbientTemperatureProfile, hour: number): number {
+  const { hourly } = profile;
+  if (hourly.length === 0) return AMBIENT_REFERENCE_TEMPERATURE;
+  const position = Math.min(Math.max(hour - profile.startHour, 0), hourly.length - 1);
+  const index = Math.floor(position);
+  const next = hourly[Math.min(index + 1, hourly.length - 1)];
+  return hourly[index] + (next - hourly[index]) * (position - index);
+}
+
+export function constantAmbientProfile(temperature: number, startHour: number = 0, hours: number = 48): AmbientTemperatureProfile {
+  return { startHour, hourly: Array.from({ length: hours + 1 }, () => temperature) };
+}
+
+/**
+ * Hourly profile from midnight through a reading taken at currentHour,
+ * following the usual daily cycle (coolest around 05:00, warmest around
+ * 15:00). Used when only current conditions are known.
+ */
+export function diurnalAmbientProfile(
+  currentTemperature: number,
+  currentHour: number,
+  amplitude: number = 4,
+  hours: number = 48
+): AmbientTemperatureProfile {
+  const shape = (hour: number) => {
+    const h = ((hour % 24) + 24) % 24;
+    // Warm up over 10 hours from 05:00, cool down over the remaining 14
+    const phase = h >= 5 && h < 15 ? (h - 5) / 10 : h >= 15 ? 1 + (h - 15) / 14 : 1 + (h + 9) / 14;
+    return -amplitude * Math.cos(phase * Math.PI);
+  };
+  const offset = currentTemperature - shape(currentHour);
+  return {
+    startHour: 0,
+    hourly: Array.from({ length: hours + 1 }, (_, hour) => Math.round((offset + shape(hour)) * 10) / 10)
+  };
+}
+
+// Temperature the product drifts towards with the doors closed
+function targetTemperature(product: DairyProduct, vehicle: VehicleType | undefined, ambient: number): number {
+  if (!vehicle?.temperatureControl.canMaintain) return ambient;
+  const range = vehicle.temperatureControl.range;
+  const setPoint = product.temperatureRange.optimal;
+  return range ? Math.min(Math.max(setPoint, range.min), range.max) : setPoint;
+}
+
+export function simulateColdChain(input: ColdChainSimulationInput): ColdChainSimulationResult {
+  const { product, vehicle, ambient, legs } = input;
+  const model = shelfLifeModel(product);
+  const stepHours = input.stepHours ?? 0.1;
+  const closedTimeConstant = THERMAL_TIME_CONSTANT_HOURS[vehicle?.type ?? 'none'];
+
+  let hour = input.startHour;
+  let temperature = input.initialTemperature ?? product.temperatureRange.optimal;
+  let consumed = (input.initialQualityLossPercent ?? 0) / 100;
+  let maxProductTemperature = temperature;
+  let hoursAboveMaxTemperature = 0;
+
+  const advance = (hours: number, doorsOpen: boolean) => {
+    let remaining = hours;
+    while (remaining > 1e-9) {
+      const dt = Math.min(stepHours, remaining);
+      const air = ambientTemperatureAt(ambient, hour + dt / 2);
+      const target = doorsOpen ? air : targetTemperature(product, vehicle, air);
+      const timeConstant = doorsOpen ? DOOR_OPEN_TIME_CONSTANT_HOURS : closedTimeConstant;
+      const start = temperature;
+      temperature = target + (temperature - target) * Math.exp(-dt / timeConstant);
+
+      // Midpoint rule on the shelf life consumed during the step
+      consumed += dt / shelfLifeAt(model, (start + temperature) / 2);
+      maxProductTemperature = Math.max(maxProductTemperature, temperature);
+      if ((start + temperature) / 2 > product.temperatureRange.max) hoursAboveMaxTemperature += dt;
+
+      hour += dt;
+      remaining -= dt;
+    }
+  };
+
+  const snapshot = (name: string, arrivalHour: number): ColdChainStopState => ({
+    name,
+    arrivalHour,
+    departureHour: hour,
+    ambientTemperature: ambientTemperatureAt(ambient, hour),
+    productTemperature: Math.round(temperature * 10) / 10,
+    qualityLossPercent: Math.min(100, consumed * 100),
+    remainingShelfLifeHours: Math.max(0, (1 - consumed) * model.referenceShelfLifeHours)
+  });
+
+  advance(input.loadingHours ?? 0, true);
+  const stops: ColdChainStopState[] = [snapshot(input.originName ?? 'Origin', input.startHour)];
+
+  legs.forEach(leg => {
+    advance(leg.travelHours, false);
+    const arrivalHour = hour;
+    advance(leg.dwellHours, true);
+    stops.push(snapshot(leg.name, arrivalHour));
+  });
+
+  const last = stops[stops.length - 1];
+  return {
+    stops,
+    totalHours: hour - input.startHour,
+    spoilagePercent: last.qualityLossPercent,
+    remainingShelfLifeHours: last.remainingShelfLifeHours,
+    maxProductTemperature: Math.round(maxProductTemperature * 10) / 10,
+    hoursAboveMaxTemperature: Math.round(hoursAboveMaxTemperature * 10) / 10
+  };
+}
+
+/**
+ * Spoilage of a single continuous trip, for callers that only know its
+ * duration. Loading and unloading each take dwellHours with doors open.
+ */
+export function estimateTripSpoilage(
+  product: DairyProduct,
+  vehicle: VehicleType | undefined,
+  tripHours: number,
+  ambient: AmbientTemperatureProfile,
+  startHour: number = ambient.startHour,
+  dwellHours: number = 0
+): number {
+  return simulateColdChain({
+    product,
+    vehicle,
+    ambient,
+    startHour,
+    loadingHours: dwellHours,
+    legs: [{ name: 'Destination', travelHours: tripHours, dwellHours }]
+  }).spoilagePercent;
+}
+
+/**
+ * Longest trip (up to horizonHours) that keeps spoilage within
+ * limitPercent, or Infinity when the limit is not reached in the horizon.
+ */
+export function hoursUntilSpoilageLimit(
+  product: DairyProduct,
+  vehicle: VehicleType | undefined,
+  ambient: AmbientTemperatureProfile,
+  limitPercent: number,
+  startHour: number = ambient.startHour,
+  horizonHours: number = 48
+): number {
+  const step = 0.25;
+  const trip = simulateColdChain({
+    product,
+    vehicle,
+    ambient,
+    startHour,
+    legs: Array.from({ length: Math.ceil(horizonHours / step) }, (_, i) => ({
+      name: `${(i + 1) * step}h`,
+      travelHours: step,
+      dwellHours: 0
+    }))
+  });
+  // stops[i] is the state after i steps
+  const reached = trip.stops.findIndex(stop => stop.qualityLossPercent > limitPercent);
+  return reached < 0 ? Infinity : Math.max(0, (reached - 1) * step);
+}
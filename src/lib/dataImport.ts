@@ -0,0 +1,213 @@
+import * as XLSX from 'xlsx';
+import { parseCsv } from '@/lib/csv';
+import type { CSVTemplate, ImportField } from '@/data/importTemplates';
+
+/**
+ * Import validation
+ *
+ * Turns raw rows from a CSV or Excel sheet into database records for a
+ * template, collecting every problem per row instead of stopping at the
+ * first. Validation is pure; anything that needs the database (existing
+ * records, node references) comes in through ImportContext.
+ */
+
+export type ImportRecord = Record<string, string | number | boolean | string[] | null>;
+
+export interface ImportRowResult {
+  rowNumber: number; // 1-based line in the file, header is row 1
+  record: ImportRecord;
+  errors: string[];
+  action?: 'insert' | 'update';
+}
+
+export interface ImportPreview {
+  template: CSVTemplate;
+  rows: ImportRowResult[];
+  missingHeaders: string[];
+  unknownHeaders: string[];
+  validCount: number;
+  rejectedCount: number;
+}
+
+export interface ImportContext {
+  // Natural key (see recordKey) → id of the existing record
+  existingKeys?: Map<string, string>;
+  // Resolves a node reference (id or name) of the given node type to an id:
+  // route from_id/to_id cells and fields with a nodeType
+  resolveNode?: (nodeType: string, reference: string) => string | undefined;
+}
+
+export interface ImportResult {
+  inserted: number;
+  updated: number;
+  rejected: number;
+}
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1'];
+const FALSE_VALUES = ['false', 'no', 'n', '0'];
+
+export async function readImportFile(file: File): Promise<string[][]> {
+  const extension = file.name.split('.').pop()?.toLowerCase();
+
+  if (extension === 'xlsx' || extension === 'xls') {
+    const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error('Workbook has no sheets');
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+    return rows
+      .map(row => row.map(cell => String(cell ?? '')))
+      .filter(row => row.some(cell => cell.trim() !== ''));
+  }
+
+  if (extension === 'csv' || extension === 'txt') {
+    return parseCsv(await file.text());
+  }
+
+  throw new Error('Unsupported file format. Please use CSV or Excel (.xlsx) files.');
+}
+
+export function recordKey(template: CSVTemplate, record: ImportRecord): string {
+  return (template.keyColumns ?? [])
+    .map(column => String(record[column] ?? '').trim().toLowerCase())
+    .join('|');
+}
+
+function parseField(field: ImportField, raw: string): { value: ImportRecord[string]; error?: string } {
+  const text = raw.trim();
+
+  if (text === '') {
+    return field.required
+      ? { value: null, error: `${field.header} is required` }
+      : { value: null };
+  }
+
+  const checkRange = (value: number) => {
+    if (field.min !== undefined && value < field.min) return `${field.header} must be at least ${field.min} (got ${value})`;
+    if (field.max !== undefined && value > field.max) return `${field.header} must be at most ${field.max} (got ${value})`;
+    return undefined;
+  };
+
+  switch (field.type) {
+    case 'number':
+    case 'integer': {
+      const value = Number(text);
+      if (!Number.isFinite(value)) return { value: null, error: `${field.header} must be a number (got "${text}")` };
+      if (field.type === 'integer' && !Number.isInteger(value)) {
+        return { value: null, error: `${field.header} must be a whole number (got ${text})` };
+      }
+      return { value, error: checkRange(value) };
+    }
+    case 'boolean': {
+      const lower = text.toLowerCase();
+      if (TRUE_VALUES.includes(lower)) return { value: true };
+      if (FALSE_VALUES.includes(lower)) return { value: false };
+      return { value: null, error: `${field.header} must be true or false (got "${text}")` };
+    }
+    case 'enum': {
+      const match = field.values?.find(v => v.toLowerCase() === text.toLowerCase());
+      return match
+        ? { value: match }
+        : { value: null, error: `${field.header} must be one of ${field.values?.join(', ')} (got "${text}")` };
+    }
+    case 'date': {
+      const valid = /^\d{4}-\d{2}-\d{2}$/.test(text) && !Number.isNaN(new Date(`${text}T00:00:00Z`).getTime());
+      return valid
+        ? { value: text }
+        : { value: null, error: `${field.header} must be a date as YYYY-MM-DD (got "${text}")` };
+    }
+    case 'list': {
+      const items = text.split(/[,;]/).map(item => item.trim()).filter(Boolean);
+      if (items.length > 0) return { value: items };
+      // Like a blank cell: keeps the current list on update
+      return field.required
+        ? { value: null, error: `${field.header} needs at least one entry` }
+        : { value: null };
+    }
+    default:
+      return { value: text };
+  }
+}
+
+export function validateImportRows(
+  template: CSVTemplate,
+  rows: string[][],
+  context: ImportContext = {}
+): ImportPreview {
+  if (rows.length < 2) {
+    throw new Error('File must contain headers and at least one data row');
+  }
+
+  const headers = rows[0].map(h => h.trim().toLowerCase());
+  const missingHeaders = template.fields
+    .filter(field => field.required && !headers.includes(field.header))
+    .map(field => field.header);
+  const unknownHeaders = headers.filter(h => h && !template.headers.includes(h));
+
+  const seenKeys = new Map<string, number>();
+  const results: ImportRowResult[] = rows.slice(1).map((values, index) => {
+    const rowNumber = index + 2;
+    const record: ImportRecord = {};
+    const errors: string[] = [];
+
+    if (values.length > headers.length) {
+      errors.push(`Row has ${values.length} columns but the header has ${headers.length}`);
+    }
+
+    template.fields.forEach(field => {
+      const column = headers.indexOf(field.header);
+      if (column < 0) return; // reported once as a missing header
+      const { value, error } = parseField(field, values[column] ?? '');
+      if (error) errors.push(error);
+      record[field.column ?? field.header] = value;
+
+      if (field.nodeType && typeof value === 'string' && context.resolveNode) {
+        const id = context.resolveNode(field.nodeType, value);
+        if (id) {
+          record[field.column ?? field.header] = id;
+        } else {
+          errors.push(`${field.header} "${value}" does not match any ${field.nodeType.replace(/_/g, ' ')}`);
+        }
+      }
+    });
+
+    // Route endpoints must point at nodes that exist
+    if (template.table === 'transport_routes' && context.resolveNode) {
+      (['from', 'to'] as const).forEach(end => {
+        const reference = record[`${end}_id`];
+        const nodeType = record[`${end}_type`];
+        if (typeof reference !== 'string' || typeof nodeType !== 'string') return;
+        const id = context.resolveNode!(nodeType, reference);
+        if (id) {
+          record[`${end}_id`] = id;
+        } else {
+          errors.push(`${end}_id "${reference}" does not match any ${nodeType.replace(/_/g, ' ')}`);
+        }
+      });
+    }
+
+    let action: ImportRowResult['action'];
+    if (template.keyColumns) {
+      const key = recordKey(template, record);
+      const firstRow = seenKeys.get(key);
+      if (firstRow !== undefined) {
+        errors.push(`Duplicate of row ${firstRow} (${template.keyColumns.join(' + ')})`);
+      } else {
+        seenKeys.set(key, rowNumber);
+      }
+      action = context.existingKeys?.has(key) ? 'update' : 'insert';
+    }
+
+    return { rowNumber, record, errors, action };
+  });
+
+  const validCount = missingHeaders.length > 0 ? 0 : results.filter(r => r.errors.length === 0).length;
+
+  return {
+    template,
+    rows: results,
+    missingHeaders,
+    unknownHeaders,
+    validCount,
+    rejectedCount: results.length - validCount
+  };
+}
@@ -0,0 +1,222 @@
+/**
+ * Market demand forecasting
+ *
+ * Daily series of market_demand quantities or prices for one market and fish
+ * type, forecast with three simple models:
+ * - seasonal naive: the value one season (a week) earlier
+ * - moving average: the mean of the last `window` days, flat
+ * - Holt-Winters: additive level, trend and weekly seasonality
+ *
+ * Prediction intervals assume normal one-step errors taken from the model's
+ * in-sample residuals, widening with the square root of the horizon.
+ * Backtesting uses a rolling origin: the model is refit on the history up to
+ * each origin and scored on the days that follow.
+ */
+
+export type ForecastModel = 'seasonal_naive' | 'moving_average' | 'holt_winters';
+export type DemandMetric = 'quantity' | 'price';
+
+export const FORECAST_MODELS: { value: ForecastModel; label: string }[] = [
+  { value: 'seasonal_naive', label: 'Seasonal naive' },
+  { value: 'moving_average', label: 'Moving average' },
+  { value: 'holt_winters', label: 'Holt-Winters' }
+];
+
+export const SEASON_LENGTH_DAYS = 7;
+export const DEFAULT_MOVING_AVERAGE_WINDOW = 7;
+export const DEFAULT_CONFIDENCE_LEVEL = 0.95;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Two-sided normal quantiles for the confidence levels offered in the UI
+const Z_SCORES: Record<string, number> = { '0.8': 1.2816, '0.9': 1.6449, '0.95': 1.96, '0.99': 2.5758 };
+
+export interface SeriesPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface ForecastPoint {
+  date: string;
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface BacktestMetrics {
+  mape: number; // percent, over non-zero actuals
+  rmse: number;
+  folds: number;
+}
+
+export interface HoltWintersParams {
+  alpha: number;
+  beta: number;
+  gamma: number;
+}
+
+export const DEFAULT_HOLT_WINTERS: HoltWintersParams = { alpha: 0.3, beta: 0.05, gamma: 0.2 };
+
+export interface ModelOptions {
+  season?: number;
+  window?: number;
+  holtWinters?: HoltWintersParams;
+}
+
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Daily series from dated observations. Several entries on one day are
+ * summed (quantities) or averaged (prices); missing days carry the previous
+ * value forward.
+ */
+export function buildDailySeries(
+  observations: { date: string; value: number }[],
+  aggregate: 'sum' | 'mean' = 'sum'
+): SeriesPoint[] {
+  if (observations.length === 0) return [];
+  const byDate = new Map<string, number[]>();
+  observations.forEach(({ date, value }) => {
+    byDate.set(date, [...(byDate.get(date) ?? []), value]);
+  });
+
+  const dates = [...byDate.keys()].sort();
+  const series: SeriesPoint[] = [];
+  let previous = 0;
+  for (let date = dates[0]; date <= dates[dates.length - 1]; date = addDays(date, 1)) {
+    const values = byDate.get(date);
+    if (values) {
+      const total = values.reduce((sum, v) => sum + v, 0);
+      previous = aggregate === 'sum' ? total : total / values.length;
+    }
+    series.push({ date, value: previous });
+  }
+  return series;
+}
+
+interface Fit {
+  forecast: number[];
+  residuals: number[]; // in-sample one-step errors
+}
+
+function seasonalNaive(values: number[], horizon: number, season: number): Fit {
+  const lag = values.length >= season ? season : 1;
+  const residuals = values.slice(lag).map((v, i) => v - values[i]);
+  const lastSeason = values.slice(-lag);
+  const forecast = Array.from({ length: horizon }, (_, h) => lastSeason[h % lag]);
+  return { forecast, residuals };
+}
+
+function movingAverage(values: number[], horizon: number, window: number): Fit {
+  const w = Math.max(1, Math.min(window, values.length));
+  const mean = (from: number, to: number) => {
+    const slice = values.slice(from, to);
+    return slice.reduce((sum, v) => sum + v, 0) / slice.length;
+  };
+  const residuals = values.slice(w).map((v, i) => v - mean(i, i + w));
+  const level = mean(values.length - w, values.length);
+  return { forecast: Array(horizon).fill(level), residuals };
+}
+
+function holtWinters(values: number[], horizon: number, season: number, params: HoltWintersParams): Fit {
+  // Needs two full seasons to initialise trend and seasonal indices
+  if (values.length < 2 * season) return movingAverage(values, horizon, season);
+  const { alpha, beta, gamma } = params;
+
+  const firstMean = values.slice(0, season).reduce((sum, v) => sum + v, 0) / season;
+  const secondMean = values.slice(season, 2 * season).reduce((sum, v) => sum + v, 0) / season;
+  let level = firstMean;
+  let trend = (secondMean - firstMean) / season;
+  const seasonal = values.slice(0, season).map(v => v - firstMean);
+
+  const residuals: number[] = [];
+  for (let t = season; t < values.length; t++) {
+    const s = seasonal[t % season];
+    residuals.push(values[t] - (level + trend + s));
+    const previousLevel = level;
+    level = alpha * (values[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * trend;
+    seasonal[t % season] = gamma * (values[t] - level) + (1 - gamma) * s;
+  }
+
+  const forecast = Array.from({ length: horizon }, (_, i) =>
+    level + (i + 1) * trend + seasonal[(values.length + i) % season]
+  );
+  return { forecast, residuals };
+}
+
+function fitModel(model: ForecastModel, values: number[], horizon: number, options: ModelOptions): Fit {
+  const season = options.season ?? SEASON_LENGTH_DAYS;
+  switch (model) {
+    case 'seasonal_naive':
+      return seasonalNaive(values, horizon, season);
+    case 'moving_average':
+      return movingAverage(values, horizon, options.window ?? DEFAULT_MOVING_AVERAGE_WINDOW);
+    case 'holt_winters':
+      return holtWinters(values, horizon, season, options.holtWinters ?? DEFAULT_HOLT_WINTERS);
+  }
+}
+
+export function forecastSeries(
+  series: SeriesPoint[],
+  model: ForecastModel,
+  horizon: number,
+  confidenceLevel: number = DEFAULT_CONFIDENCE_LEVEL,
+  options: ModelOptions = {}
+): ForecastPoint[] {
+  if (series.length === 0 || horizon <= 0) return [];
+  const values = series.map(p => p.value);
+  const { forecast, residuals } = fitModel(model, values, horizon, options);
+
+  const sigma = residuals.length > 1
+    ? Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / (residuals.length - 1))
+    : 0;
+  const z = Z_SCORES[String(confidenceLevel)] ?? Z_SCORES['0.95'];
+  const lastDate = series[series.length - 1].date;
+
+  return forecast.map((value, i) => {
+    const margin = z * sigma * Math.sqrt(i + 1);
+    // Demand and prices cannot go negative
+    return {
+      date: addDays(lastDate, i + 1),
+      value: Math.max(0, value),
+      lower: Math.max(0, value - margin),
+      upper: Math.max(0, value + margin)
+    };
+  });
+}
+
+/**
+ * Rolling-origin backtest: the last `folds` × `horizon` days are forecast
+ * `horizon` days at a time from the history before them.
+ */
+export function backtest(
+  series: SeriesPoint[],
+  model: ForecastModel,
+  horizon: number,
+  folds: number = 3,
+  options: ModelOptions = {}
+): BacktestMetrics | null {
+  const values = series.map(p => p.value);
+  const usableFolds = Math.min(folds, Math.floor((values.length - 2) / horizon));
+  if (usableFolds < 1) return null;
+
+  const errors: { actual: number; predicted: number }[] = [];
+  for (let fold = usableFolds; fold >= 1; fold--) {
+    const origin = values.length - fold * horizon;
+    const { forecast } = fitModel(model, values.slice(0, origin), horizon, options);
+    forecast.forEach((predicted, i) => {
+      errors.push({ actual: values[origin + i], predicted: Math.max(0, predicted) });
+    });
+  }
+
+  const nonZero = errors.filter(e => e.actual !== 0);
+  const mape = nonZero.length > 0
+    ? nonZero.reduce((sum, e) => sum + Math.abs((e.actual - e.predicted) / e.actual), 0) / nonZero.length * 100
+    : 0;
+  const rmse = Math.sqrt(errors.reduce((sum, e) => sum + (e.actual - e.predicted) ** 2, 0) / errors.length);
+  return { mape, rmse, folds: usableFolds };
+}
+
+// forecasts.forecast_type for a metric, e.g. "market_demand_quantity"
+export const forecastType = (metric: DemandMetric) => `market_demand_${metric}`;
@@ -0,0 +1,697 @@
+import { vehicleTypes as defaultVehicleTypes } from '@/data/dairyProducts';
+import type { Json } from '@/integrations/supabase/types';
+import { createDistanceFunction, createDurationFunction, DEFAULT_ROAD_SPEED_KMH, type DistanceMatrix, type GeoPoint } from '@/lib/geo';
+import { timeToMinutes } from '@/lib/fleet';
+import {
+  checkCompatibility,
+  formatRange,
+  overlap,
+  temperatureClassOf,
+  TEMPERATURE_CLASSES,
+  vehicleZones,
+  zoneRejections
+} from '@/lib/loadPlanning';
+import { formatClockTime, solveVrp, type TimeWindow, type VrpDepot, type VrpStop, type VrpTour, type VrpVehicle } from '@/lib/vrpSolver';
+import type { Distributor, ProcessingPlant, RetailOutlet } from '@/services/dairyService';
+import type { DairyProduct, VehicleType } from '@/types/products';
+
+/**
+ * Downstream distribution planning: processing plant → distributor → retail
+ *
+ * 1. Sourcing. Each product's plant output is shared out in proportion to
+ *    what outlets order when output falls short. Outlets with a distributor
+ *    are supplied through it, the others straight from a plant. A demand
+ *    point takes product from its distributor's usual plant first, then from
+ *    the nearest plants that still have output and can get it there with
+ *    enough shelf life left.
+ * 2. Trunk deliveries. Distributors are replenished in full loads of the
+ *    largest vehicle type that can carry the products.
+ * 3. Delivery routes. Products that can share a temperature setting form a
+ *    group; each depot's drops of a group are routed as a CVRPTW
+ *    (lib/vrpSolver) within the outlets' receiving hours, on the depot
+ *    vehicles that can carry the group. Tours are capped to the shelf-life
+ *    time left after trunk transport and holding at the distributor, so every
+ *    drop arrives with at least `minRemainingShelfLife` of the product's
+ *    refrigerated shelf life. A vehicle used for one group is free for the
+ *    next once it is back at the depot.
+ *
+ * Whatever cannot be sourced or routed is reported per outlet and product
+ * with the reason, together with the outlet's fill rate.
+ */
+
+export interface DistributionPlant {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  output: Record<string, number>; // liters/day by product id
+  vehicles: VrpVehicle[]; // for direct deliveries to outlets
+}
+
+export interface DistributionHub {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  plantId?: string; // usual supplying plant
+  vehicles: VrpVehicle[];
+}
+
+export interface DistributionOutlet {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  distributorId?: string;
+  demand: Record<string, number>; // liters/day by product id
+  receivingWindow: TimeWindow;
+}
+
+export interface DistributionInput {
+  plants: DistributionPlant[];
+  distributors: DistributionHub[];
+  outlets: DistributionOutlet[];
+  products: DairyProduct[];
+}
+
+export interface DistributionOptions {
+  minRemainingShelfLife: number; // 0–1 of refrigerated shelf life left at delivery
+  distributorHoldingHours: number; // between trunk arrival and dispatch to outlets
+  dispatchWindow: TimeWindow; // depot hours for delivery tours
+  speedKmh: number;
+  serviceMinutes: number; // unloading at an outlet
+  trunkVehicleTypes: VehicleType[]; // plant → distributor loads
+  distanceMatrix?: DistanceMatrix | null;
+}
+
+export const DEFAULT_DISTRIBUTION_OPTIONS: DistributionOptions = {
+  minRemainingShelfLife: 0.5,
+  distributorHoldingHours: 6,
+  dispatchWindow: { start: 3 * 60, end: 22 * 60 },
+  speedKmh: DEFAULT_ROAD_SPEED_KMH,
+  serviceMinutes: 20,
+  trunkVehicleTypes: defaultVehicleTypes
+};
+
+export interface TemperatureGroup {
+  label: string;
+  range: { min: number; max: number }; // held for every product of the group
+  productIds: string[];
+}
+
+export interface SupplyAssignment {
+  productId: string;
+  plantId: string;
+  plantName: string;
+  toId: string;
+  toName: string;
+  toType: 'distributor' | 'retail';
+  liters: number;
+}
+
+export interface TrunkDelivery {
+  plantId: string;
+  plantName: string;
+  distributorId: string;
+  distributorName: string;
+  group: string;
+  productIds: string[];
+  liters: number;
+  vehicleType: VehicleType;
+  trips: number;
+  distanceKm: number; // one way
+  hours: number; // one way
+  cost: number; // round trips
+}
+
+export interface DeliveryDrop {
+  outletId: string;
+  outletName: string;
+  arrival: number; // minutes from midnight
+  items: { productId: string; liters: number }[];
+}
+
+export interface DistributionRoute {
+  depot: VrpDepot;
+  depotType: 'processing_plant' | 'distributor';
+  group: string;
+  tour: VrpTour;
+  drops: DeliveryDrop[];
+}
+
+export interface OutletLine {
+  productId: string;
+  productName: string;
+  demandLiters: number;
+  deliveredLiters: number;
+  unmetLiters: number;
+  reasons: string[];
+}
+
+export interface OutletFill {
+  outletId: string;
+  outletName: string;
+  distributorId?: string;
+  demandLiters: number;
+  deliveredLiters: number;
+  unmetLiters: number;
+  fillRate: number; // 0–1
+  lines: OutletLine[];
+}
+
+export interface DistributionPlan {
+  groups: TemperatureGroup[];
+  assignments: SupplyAssignment[];
+  trunks: TrunkDelivery[];
+  routes: DistributionRoute[];
+  outlets: OutletFill[];
+  demandLiters: number;
+  deliveredLiters: number;
+  unmetLiters: number;
+  fillRate: number;
+  trunkCost: number;
+  routeCost: number;
+  totalCost: number;
+  totalDistanceKm: number;
+  messages: string[];
+}
+
+const EPSILON = 1e-6;
+const TURNAROUND_MINUTES = 30; // unloading returns before a vehicle's next tour
+
+const formatWindow = (window: TimeWindow) => `${formatClockTime(window.start)}–${formatClockTime(window.end)}`;
+
+const classRank = (range: { min: number; max: number }) =>
+  TEMPERATURE_CLASSES.findIndex(c => c.value === temperatureClassOf(range));
+
+/**
+ * Products that can travel at one temperature setting, coldest first. A
+ * product joins the first group whose common range it overlaps.
+ */
+export function temperatureGroups(products: DairyProduct[]): TemperatureGroup[] {
+  const groups: { range: { min: number; max: number }; productIds: string[] }[] = [];
+  [...products]
+    .sort((a, b) => classRank(a.temperatureRange) - classRank(b.temperatureRange) || a.temperatureRange.max - b.temperatureRange.max)
+    .forEach(product => {
+      const group = groups.find(g => overlap(g.range, product.temperatureRange));
+      if (group) {
+        group.range = overlap(group.range, product.temperatureRange)!;
+        group.productIds.push(product.id);
+      } else {
+        groups.push({ range: { min: product.temperatureRange.min, max: product.temperatureRange.max }, productIds: [product.id] });
+      }
+    });
+
+  return groups.map(group => ({
+    ...group,
+    label: `${TEMPERATURE_CLASSES.find(c => c.value === temperatureClassOf(group.range))?.label} ${formatRange(group.range)}`
+  }));
+}
+
+// Hours a product may spend between the plant and the outlet
+export const shelfLifeBudgetHours = (product: DairyProduct, minRemainingShelfLife: number) =>
+  product.shelfLife.refrigerated * (1 - minRemainingShelfLife);
+
+// Liters of a vehicle's zones that can hold all of the products at the group's setting
+function groupCapacity(vehicle: VehicleType, products: DairyProduct[], range: { min: number; max: number }): number {
+  return vehicleZones(vehicle)
+    .filter(zone => products.every(product => zoneRejections(product, vehicle, zone).length === 0))
+    .filter(zone => !zone.temperatureRange || overlap(zone.temperatureRange, range))
+    .reduce((sum, zone) => sum + zone.capacity, 0);
+}
+
+// Catalog product ids → liters/day from retail_outlets.product_demand; other entries are ignored
+export function parseProductDemand(value: Json): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const demand: Record<string, number> = {};
+  Object.entries(value).forEach(([productId, liters]) => {
+    const amount = Number(liters);
+    if (Number.isFinite(amount) && amount > 0) demand[productId] = amount;
+  });
+  return demand;
+}
+
+// An outlet without a product breakdown orders its total demand as one product
+export function outletDemand(outlet: RetailOutlet, unspecifiedProductId: string): Record<string, number> {
+  const demand = parseProductDemand(outlet.product_demand);
+  if (Object.keys(demand).length === 0 && outlet.daily_demand_liters > 0) {
+    return { [unspecifiedProductId]: outlet.daily_demand_liters };
+  }
+  return demand;
+}
+
+/**
+ * Output per plant when production has not been planned: each plant makes
+ * the ordered mix in proportion to its processing capacity, scaled down when
+ * orders exceed the capacity of all plants together.
+ */
+export function defaultPlantOutput(
+  plants: Pick<ProcessingPlant, 'id' | 'processing_capacity_liters_per_day'>[],
+  demandByProduct: Record<string, number>
+): Record<string, Record<string, number>> {
+  const totalCapacity = plants.reduce((sum, plant) => sum + plant.processing_capacity_liters_per_day, 0);
+  const totalDemand = Object.values(demandByProduct).reduce((sum, liters) => sum + liters, 0);
+  const scale = totalDemand > 0 ? Math.min(1, totalCapacity / totalDemand) : 0;
+
+  return Object.fromEntries(plants.map(plant => {
+    const share = totalCapacity > 0 ? plant.processing_capacity_liters_per_day / totalCapacity : 0;
+    return [plant.id, Object.fromEntries(
+      Object.entries(demandByProduct).map(([productId, liters]) => [productId, Math.round(liters * scale * share)])
+    )];
+  }));
+}
+
+export interface DistributionRecordOptions {
+  products: DairyProduct[];
+  plantOutput?: Record<string, Record<string, number>>; // by plant id; defaultPlantOutput when absent
+  plantStock?: Record<string, Record<string, number>>; // finished stock on hand by plant id, shipped with the output
+  plantVehicles?: Record<string, VrpVehicle[]>; // by plant id
+  deliveryVehicleType: VehicleType; // distributors' delivery vehicles
+  unspecifiedProductId: string;
+}
+
+export function buildDistributionInput(
+  plants: ProcessingPlant[],
+  distributors: Distributor[],
+  outlets: RetailOutlet[],
+  options: DistributionRecordOptions
+): DistributionInput {
+  const demands = new Map(outlets.map(outlet => [outlet.id, outletDemand(outlet, options.unspecifiedProductId)]));
+  const demandByProduct: Record<string, number> = {};
+  demands.forEach(demand => Object.entries(demand).forEach(([productId, liters]) => {
+    demandByProduct[productId] = (demandByProduct[productId] ?? 0) + liters;
+  }));
+  const output = options.plantOutput ?? defaultPlantOutput(plants, demandByProduct);
+  const available = (plantId: string) => {
+    const total = { ...output[plantId] };
+    Object.entries(options.plantStock?.[plantId] ?? {}).forEach(([productId, liters]) => {
+      total[productId] = (total[productId] ?? 0) + liters;
+    });
+    return total;
+  };
+
+  return {
+    plants: plants.map(plant => ({
+      id: plant.id,
+      name: plant.name,
+      lat: Number(plant.location_lat),
+      lng: Number(plant.location_lng),
+      output: available(plant.id),
+      vehicles: options.plantVehicles?.[plant.id] ?? []
+    })),
+    distributors: distributors.map(distributor => ({
+      id: distributor.id,
+      name: distributor.name,
+      lat: Number(distributor.location_lat),
+      lng: Number(distributor.location_lng),
+      plantId: distributor.plant_id ?? undefined,
+      vehicles: Array.from({ length: distributor.delivery_vehicles }, (_, i) => ({
+        id: `${distributor.id}-delivery-${i + 1}`,
+        vehicleType: options.deliveryVehicleType
+      }))
+    })),
+    outlets: outlets.map(outlet => ({
+      id: outlet.id,
+      name: outlet.name,
+      lat: Number(outlet.location_lat),
+      lng: Number(outlet.location_lng),
+      distributorId: outlet.distributor_id ?? undefined,
+      demand: demands.get(outlet.id) ?? {},
+      receivingWindow: { start: timeToMinutes(outlet.receiving_from), end: timeToMinutes(outlet.receiving_to) }
+    })),
+    products: options.products
+  };
+}
+
+interface LineState {
+  outlet: DistributionOutlet;
+  productId: string;
+  demand: number;
+  allocated: number; // sourced for this line
+  notRouted: number;
+  reasons: string[];
+}
+
+export function planDistribution(
+  input: DistributionInput,
+  options: Partial<DistributionOptions> = {}
+): DistributionPlan {
+  const opts: DistributionOptions = { ...DEFAULT_DISTRIBUTION_OPTIONS, ...options };
+  const distance = createDistanceFunction(opts.distanceMatrix);
+  const duration = createDurationFunction(opts.distanceMatrix, opts.speedKmh);
+  const point = (node: GeoPoint & { id: string }): GeoPoint => ({ id: node.id, lat: node.lat, lng: node.lng });
+
+  const productById = new Map(input.products.map(product => [product.id, product]));
+  const distributorById = new Map(input.distributors.map(distributor => [distributor.id, distributor]));
+  const budget = (product: DairyProduct) => shelfLifeBudgetHours(product, opts.minRemainingShelfLife);
+  const productName = (id: string) => productById.get(id)?.name ?? id;
+
+  const lines: LineState[] = input.outlets.flatMap(outlet =>
+    Object.entries(outlet.demand)
+      .filter(([, liters]) => liters > 0)
+      .map(([productId, liters]) => ({ outlet, productId, demand: liters, allocated: 0, notRouted: 0, reasons: [] }))
+  );
+  lines.filter(line => !productById.has(line.productId)).forEach(line => line.reasons.push('Not in the product catalog'));
+  const plannable = lines.filter(line => productById.has(line.productId));
+
+  // 1. Sourcing: ration short products, then draw on plants in order of preference
+  const messages: string[] = [];
+  const ratio = new Map<string, number>();
+  new Set(plannable.map(line => line.productId)).forEach(productId => {
+    const ordered = plannable.filter(line => line.productId === productId).reduce((sum, line) => sum + line.demand, 0);
+    const made = input.plants.reduce((sum, plant) => sum + (plant.output[productId] ?? 0), 0);
+    ratio.set(productId, ordered > 0 ? Math.min(1, made / ordered) : 0);
+    if (made < ordered - EPSILON) {
+      messages.push(`${productName(productId)}: plants make ${Math.round(made).toLocaleString()} L for ${Math.round(ordered).toLocaleString()} L ordered`);
+    }
+  });
+
+  const outputLeft = new Map(input.plants.map(plant => [plant.id, { ...plant.output }]));
+  const assignments: SupplyAssignment[] = [];
+  const viaDistributor = (line: LineState) =>
+    line.outlet.distributorId !== undefined && distributorById.has(line.outlet.distributorId);
+
+  // Demand points: a distributor for its outlets' lines of a product, or the outlet itself
+  const points = new Map<string, { lines: LineState[]; distributor?: DistributionHub }>();
+  plannable.forEach(line => {
+    const distributor = viaDistributor(line) ? distributorById.get(line.outlet.distributorId!) : undefined;
+    const key = `${distributor?.id ?? line.outlet.id}|${line.productId}`;
+    const entry = points.get(key) ?? { lines: [], distributor };
+    entry.lines.push(line);
+    points.set(key, entry);
+  });
+
+  const canCarry = (vehicleTypes: VehicleType[], product: DairyProduct) =>
+    vehicleTypes.some(vehicle => checkCompatibility(product, vehicle).compatible);
+
+  points.forEach(({ lines: pointLines, distributor }) => {
+    const product = productById.get(pointLines[0].productId)!;
+    const shortage = 1 - (ratio.get(product.id) ?? 0);
+    if (shortage > EPSILON) pointLines.forEach(line => line.reasons.push('Plant output is short of orders'));
+    const request = pointLines.reduce((sum, line) => sum + line.demand, 0) * (1 - shortage);
+    if (request <= EPSILON) return;
+
+    const destination = distributor ?? pointLines[0].outlet;
+    // Longest leg from the distributor to one of its outlets, for the shelf-life check
+    const lastMile = distributor
+      ? Math.max(...pointLines.map(line => duration(point(distributor), point(line.outlet))))
+      : 0;
+    const hoursFrom = (plant: DistributionPlant) => distributor
+      ? duration(point(plant), point(distributor)) + opts.distributorHoldingHours + lastMile
+      : duration(point(plant), point(destination));
+
+    const stocked = input.plants.filter(plant => (outputLeft.get(plant.id)![product.id] ?? 0) > EPSILON);
+    const candidates = stocked
+      .filter(plant => distributor || canCarry(plant.vehicles.map(v => v.vehicleType), product))
+      .sort((a, b) =>
+        Number(b.id === distributor?.plantId) - Number(a.id === distributor?.plantId) ||
+        distance(point(a), point(destination)) - distance(point(b), point(destination))
+      );
+    const reachable = candidates.filter(plant => hoursFrom(plant) <= budget(product) + EPSILON);
+
+    let remaining = request;
+    if (distributor && !canCarry(opts.trunkVehicleTypes, product)) {
+      pointLines.forEach(line => line.reasons.push(`No vehicle type can carry ${product.name} to ${distributor.name}`));
+    } else if (distributor && !canCarry(distributor.vehicles.map(v => v.vehicleType), product)) {
+      pointLines.forEach(line => line.reasons.push(`${distributor.name} has no vehicle that can carry ${product.name}`));
+    } else {
+      for (const plant of reachable) {
+        if (remaining <= EPSILON) break;
+        const stock = outputLeft.get(plant.id)!;
+        const liters = Math.min(remaining, stock[product.id]);
+        stock[product.id] -= liters;
+        remaining -= liters;
+        assignments.push({
+          productId: product.id,
+          plantId: plant.id,
+          plantName: plant.name,
+          toId: destination.id,
+          toName: destination.name,
+          toType: distributor ? 'distributor' : 'retail',
+          liters
+        });
+      }
+      // Output used up by earlier demand points is already explained by the shortage
+      const reason = candidates.length > reachable.length
+        ? `No plant with ${product.name} left can deliver within its ${Math.round(budget(product))} h shelf-life allowance`
+        : stocked.length > candidates.length
+          ? `No plant with ${product.name} left has a vehicle that can carry it`
+          : shortage > EPSILON ? null : `Plant output of ${product.name} is used up`;
+      if (remaining > EPSILON && reason) pointLines.forEach(line => line.reasons.push(reason));
+    }
+
+    // Share what was sourced across the point's outlets in proportion to their orders
+    const sourced = request - Math.max(0, remaining);
+    const ordered = pointLines.reduce((sum, line) => sum + line.demand, 0);
+    pointLines.forEach(line => { line.allocated = sourced * line.demand / ordered; });
+  });
+
+  // 2. Trunk deliveries to distributors
+  const groups = temperatureGroups(
+    [...new Set(plannable.map(line => line.productId))].map(id => productById.get(id)!)
+  );
+  const groupOf = (productId: string) => groups.find(group => group.productIds.includes(productId))!;
+
+  const trunks: TrunkDelivery[] = [];
+  const trunkHours = new Map<string, number>(); // distributor|product → slowest trunk leg
+  const trunkLoads = new Map<string, { plant: DistributionPlant; distributor: DistributionHub; group: TemperatureGroup; liters: Map<string, number> }>();
+  assignments.filter(a => a.toType === 'distributor').forEach(assignment => {
+    const plant = input.plants.find(p => p.id === assignment.plantId)!;
+    const distributor = distributorById.get(assignment.toId)!;
+    const group = groupOf(assignment.productId);
+    const key = `${plant.id}|${distributor.id}|${group.label}`;
+    const load = trunkLoads.get(key) ?? { plant, distributor, group, liters: new Map<string, number>() };
+    load.liters.set(assignment.productId, (load.liters.get(assignment.productId) ?? 0) + assignment.liters);
+    trunkLoads.set(key, load);
+
+    const hoursKey = `${distributor.id}|${assignment.productId}`;
+    trunkHours.set(hoursKey, Math.max(trunkHours.get(hoursKey) ?? 0, duration(point(plant), point(distributor))));
+  });
+
+  trunkLoads.forEach(({ plant, distributor, group, liters }) => {
+    const distanceKm = distance(point(plant), point(distributor));
+    const hours = duration(point(plant), point(distributor));
+    const addTrunk = (productIds: string[]) => {
+      const products = productIds.map(id => productById.get(id)!);
+      const best = opts.trunkVehicleTypes
+        .map(vehicleType => ({ vehicleType, capacity: groupCapacity(vehicleType, products, group.range) }))
+        .filter(option => option.capacity > 0)
+        .sort((a, b) => b.capacity - a.capacity || a.vehicleType.costPerKm - b.vehicleType.costPerKm)[0];
+      if (!best) return false;
+      const total = productIds.reduce((sum, id) => sum + liters.get(id)!, 0);
+      const trips = Math.ceil(total / best.capacity - EPSILON);
+      trunks.push({
+        plantId: plant.id,
+        plantName: plant.name,
+        distributorId: distributor.id,
+        distributorName: distributor.name,
+        group: group.label,
+        productIds,
+        liters: total,
+        vehicleType: best.vehicleType,
+        trips,
+        distanceKm,
+        hours,
+        cost: trips * 2 * distanceKm * best.vehicleType.costPerKm
+      });
+      return true;
+    };
+    // One load for the group when a vehicle type takes all of it, else one per product
+    const productIds = [...liters.keys()];
+    if (!addTrunk(productIds)) productIds.forEach(id => addTrunk([id]));
+  });
+
+  // 3. Delivery routes per depot and temperature group
+  const routes: DistributionRoute[] = [];
+  const busyUntil = new Map<string, number>(); // vehicle id → minute it is back and unloaded
+  const depots: { depot: DistributionPlant | DistributionHub; type: DistributionRoute['depotType'] }[] = [
+    ...input.plants.map(plant => ({ depot: plant as DistributionPlant | DistributionHub, type: 'processing_plant' as const })),
+    ...input.distributors.map(distributor => ({ depot: distributor as DistributionPlant | DistributionHub, type: 'distributor' as const }))
+  ];
+  // Direct lines are delivered by the plant that supplies most of them
+  const directDepot = new Map<LineState, string>();
+  plannable.filter(line => !viaDistributor(line) && line.allocated > EPSILON).forEach(line => {
+    const supply = assignments
+      .filter(a => a.toType === 'retail' && a.toId === line.outlet.id && a.productId === line.productId)
+      .sort((a, b) => b.liters - a.liters)[0];
+    if (supply) directDepot.set(line, supply.plantId);
+  });
+  const depotIdOf = (line: LineState) => viaDistributor(line) ? line.outlet.distributorId! : directDepot.get(line);
+
+  const loseLines = (groupLines: LineState[], liters: number, reason: string) => {
+    const total = groupLines.reduce((sum, line) => sum + line.allocated - line.notRouted, 0);
+    if (total <= EPSILON) return;
+    groupLines.forEach(line => {
+      line.notRouted += liters * (line.allocated - line.notRouted) / total;
+      if (!line.reasons.includes(reason)) line.reasons.push(reason);
+    });
+  };
+
+  depots.forEach(({ depot, type }) => {
+    groups.forEach(group => {
+      const depotLines = plannable.filter(line =>
+        line.allocated > EPSILON && depotIdOf(line) === depot.id && group.productIds.includes(line.productId)
+      );
+      if (depotLines.length === 0) return;
+
+      const products = [...new Set(depotLines.map(line => line.productId))].map(id => productById.get(id)!);
+      const routeBudget = Math.min(...products.map(product =>
+        budget(product) - (type === 'distributor'
+          ? (trunkHours.get(`${depot.id}|${product.id}`) ?? 0) + opts.distributorHoldingHours
+          : 0)
+      ));
+      const byOutlet = new Map<string, LineState[]>();
+      depotLines.forEach(line => byOutlet.set(line.outlet.id, [...(byOutlet.get(line.outlet.id) ?? []), line]));
+
+      if (routeBudget <= EPSILON) {
+        byOutlet.forEach(outletLines => loseLines(
+          outletLines,
+          outletLines.reduce((sum, line) => sum + line.allocated, 0),
+          `No shelf life left for delivery from ${depot.name}`
+        ));
+        return;
+      }
+
+      const vehicles: VrpVehicle[] = depot.vehicles.flatMap(vehicle => {
+        const capacity = groupCapacity(vehicle.vehicleType, products, group.range);
+        if (capacity <= 0) return [];
+        const dutyStart = Math.max(vehicle.dutyWindow?.start ?? 0, busyUntil.get(vehicle.id) ?? 0);
+        return [{
+          ...vehicle,
+          vehicleType: {
+            ...vehicle.vehicleType,
+            capacity,
+            maxTripDuration: Math.min(vehicle.vehicleType.maxTripDuration, routeBudget)
+          },
+          dutyWindow: { start: dutyStart, end: vehicle.dutyWindow?.end ?? 24 * 60 }
+        }];
+      });
+      if (vehicles.length === 0) {
+        byOutlet.forEach(outletLines => loseLines(
+          outletLines,
+          outletLines.reduce((sum, line) => sum + line.allocated, 0),
+          `${depot.name} has no vehicle that can carry ${group.label} products`
+        ));
+        return;
+      }
+
+      const depotNode: VrpDepot = {
+        id: depot.id,
+        name: depot.name,
+        type,
+        lat: depot.lat,
+        lng: depot.lng,
+        timeWindow: opts.dispatchWindow
+      };
+      const stops: VrpStop[] = [...byOutlet.values()].map(outletLines => {
+        const outlet = outletLines[0].outlet;
+        return {
+          id: `${outlet.id}|${group.label}`,
+          nodeId: outlet.id,
+          name: outlet.name,
+          type: 'retail',
+          lat: outlet.lat,
+          lng: outlet.lng,
+          demandLiters: outletLines.reduce((sum, line) => sum + line.allocated, 0),
+          timeWindows: [outlet.receivingWindow],
+          serviceMinutes: opts.serviceMinutes
+        };
+      });
+
+      const solution = solveVrp({
+        depot: depotNode,
+        stops,
+        vehicles,
+        speedKmh: opts.speedKmh,
+        serviceMinutes: opts.serviceMinutes,
+        turnaroundMinutes: TURNAROUND_MINUTES,
+        distanceMatrix: opts.distanceMatrix
+      });
+
+      const outletIdOf = (stop: VrpStop) => stop.nodeId ?? stop.id;
+      solution.tours.forEach(tour => {
+        busyUntil.set(tour.vehicleId, Math.max(busyUntil.get(tour.vehicleId) ?? 0, tour.returnTime + TURNAROUND_MINUTES));
+        routes.push({
+          depot: depotNode,
+          depotType: type,
+          group: group.label,
+          tour,
+          drops: tour.visits.map(visit => {
+            const outletLines = byOutlet.get(outletIdOf(visit.stop))!;
+            const stopTotal = outletLines.reduce((sum, line) => sum + line.allocated, 0);
+            return {
+              outletId: outletIdOf(visit.stop),
+              outletName: visit.stop.name,
+              arrival: visit.serviceStart,
+              items: outletLines.map(line => ({
+                productId: line.productId,
+                liters: line.allocated * visit.stop.demandLiters / stopTotal
+              }))
+            };
+          })
+        });
+      });
+      solution.unassigned.forEach(stop => {
+        const outletLines = byOutlet.get(outletIdOf(stop))!;
+        const window = outletLines[0].outlet.receivingWindow;
+        loseLines(
+          outletLines,
+          stop.demandLiters,
+          `Not routed from ${depot.name}: receiving hours ${formatWindow(window)}, vehicle capacity or shelf life`
+        );
+      });
+    });
+  });
+
+  // Outlet fill rates
+  const outlets: OutletFill[] = input.outlets.map(outlet => {
+    const outletLines = lines.filter(line => line.outlet.id === outlet.id).map(line => {
+      const delivered = Math.max(0, line.allocated - line.notRouted);
+      return {
+        productId: line.productId,
+        productName: productName(line.productId),
+        demandLiters: line.demand,
+        deliveredLiters: delivered,
+        unmetLiters: line.demand - delivered,
+        reasons: line.demand - delivered > 0.5 ? line.reasons : []
+      };
+    });
+    const demandLiters = outletLines.reduce((sum, line) => sum + line.demandLiters, 0);
+    const deliveredLiters = outletLines.reduce((sum, line) => sum + line.deliveredLiters, 0);
+    return {
+      outletId: outlet.id,
+      outletName: outlet.name,
+      distributorId: outlet.distributorId,
+      demandLiters,
+      deliveredLiters,
+      unmetLiters: demandLiters - deliveredLiters,
+      fillRate: demandLiters > 0 ? deliveredLiters / demandLiters : 1,
+      lines: outletLines
+    };
+  });
+
+  const demandLiters = outlets.reduce((sum, outlet) => sum + outlet.demandLiters, 0);
+  const deliveredLiters = outlets.reduce((sum, outlet) => sum + outlet.deliveredLiters, 0);
+  const trunkCost = trunks.reduce((sum, trunk) => sum + trunk.cost, 0);
+  const routeCost = routes.reduce((sum, route) => sum + route.tour.cost, 0);
+  const unfilled = outlets.filter(outlet => outlet.fillRate < 0.995).length;
+  if (unfilled > 0) messages.push(`${unfilled} of ${outlets.length} outlets are not fully supplied`);
+
+  return {
+    groups,
+    assignments,
+    trunks,
+    routes,
+    outlets,
+    demandLiters,
+    deliveredLiters,
+    unmetLiters: demandLiters - deliveredLiters,
+    fillRate: demandLiters > 0 ? deliveredLiters / demandLiters : 1,
+    trunkCost,
+    routeCost,
+    totalCost: trunkCost + routeCost,
+    totalDistanceKm: trunks.reduce((sum, trunk) => sum + trunk.trips * 2 * trunk.distanceKm, 0) +
+      routes.reduce((sum, route) => sum + route.tour.distanceKm, 0),
+    messages
+  };
+}
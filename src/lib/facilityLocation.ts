@@ -0,0 +1,438 @@
+import { vehicleTypes } from '@/data/dairyProducts';
+import { createDistanceFunction, estimateRoadDistanceKm, type DistanceMatrix } from '@/lib/geo';
+import { collectionsPerDay } from '@/lib/networkFlowOptimizer';
+import type { DairyFarm, CollectionCenter, ProcessingPlant } from '@/services/dairyService';
+import type { VehicleType } from '@/types/products';
+
+/**
+ * Capacitated facility location / p-median planner
+ *
+ * Works for either tier of the network: collection centers sited against
+ * farm production, or processing plants sited against center throughput.
+ * Chooses which candidate sites to open so that the daily cost
+ *   Σ fixed cost of open sites + Σ liters × km × transport ₹/L·km + unserved penalty
+ * is minimal. Farms may be split across sites; a site never takes more than
+ * its daily capacity.
+ *
+ * Solved heuristically: greedy ADD from an empty (or pinned) set, then
+ * drop / add / swap local search (Teitz-Bart interchange). With a fixed
+ * facility count the search only swaps, which makes it a capacitated p-median.
+ * Assignment for a given open set is greedy by per-liter cost over all
+ * farm-site pairs, sorted once up front.
+ */
+
+export interface FacilityDemand {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  demandLiters: number;
+}
+
+export interface CandidateSite {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  capacityLiters: number; // daily throughput
+  fixedCostPerDay: number; // ₹, amortized opening cost plus operations
+  existing?: boolean; // an operating center or plant
+  mustOpen?: boolean;
+}
+
+export interface FacilityLocationOptions {
+  facilityCount?: number; // fixed p; leave unset to let fixed costs decide
+  maxAssignmentDistanceKm?: number;
+  transportCostPerLiterKm: number;
+  unservedPenaltyPerLiter: number;
+  maxPasses: number;
+  distanceMatrix?: DistanceMatrix | null;
+}
+
+export interface FacilityAssignment {
+  farmId: string;
+  farmName: string;
+  siteId: string;
+  siteName: string;
+  volumeLiters: number;
+  distanceKm: number;
+  cost: number;
+}
+
+export interface OpenSite {
+  site: CandidateSite;
+  assignedLiters: number;
+  utilizationPercent: number;
+}
+
+export interface FacilityLocationPlan {
+  openSites: OpenSite[];
+  assignments: FacilityAssignment[];
+  fixedCost: number;
+  transportCost: number;
+  unservedLiters: number;
+  unservedCost: number;
+  totalCost: number;
+  averageDistanceKm: number; // volume weighted
+}
+
+export interface FacilityPlanComparison {
+  costSavings: number;
+  costSavingsPercent: number;
+  averageDistanceSavingsKm: number;
+  additionalLitersServed: number;
+  sitesOpened: CandidateSite[];
+  sitesClosed: CandidateSite[];
+  farmDistanceChanges: Array<{ farmId: string; farmName: string; currentKm: number; proposedKm: number }>;
+}
+
+// Cost per liter-km is the vehicle's cost per km spread over a full load
+export function transportCostPerLiterKm(vehicleId: string, catalog: VehicleType[] = vehicleTypes): number {
+  const vehicle = catalog.find(v => v.id === vehicleId);
+  return vehicle && vehicle.capacity > 0 ? vehicle.costPerKm / vehicle.capacity : 0;
+}
+
+export const DEFAULT_FACILITY_LOCATION_OPTIONS: FacilityLocationOptions = {
+  transportCostPerLiterKm: transportCostPerLiterKm('milk-tanker'),
+  unservedPenaltyPerLiter: 10,
+  maxPasses: 20
+};
+
+const EPSILON = 1e-6;
+
+export function demandsFromFarms(farms: DairyFarm[], farmVolumes?: Record<string, number>): FacilityDemand[] {
+  return farms
+    .filter(farm => farm.active !== false)
+    .map(farm => ({
+      id: farm.id,
+      name: farm.name,
+      lat: Number(farm.location_lat),
+      lng: Number(farm.location_lng),
+      demandLiters: farmVolumes?.[farm.id] ?? farm.daily_production_liters
+    }));
+}
+
+export function sitesFromCollectionCenters(
+  centers: CollectionCenter[],
+  operatingCostPerDay: number
+): CandidateSite[] {
+  return centers
+    .filter(center => center.active !== false)
+    .map(center => ({
+      id: center.id,
+      name: center.name,
+      lat: Number(center.location_lat),
+      lng: Number(center.location_lng),
+      capacityLiters: center.storage_capacity_liters * collectionsPerDay(center.collection_schedule),
+      fixedCostPerDay: operatingCostPerDay,
+      existing: true
+    }));
+}
+
+// Plant siting treats each center's daily throughput as the volume to be processed
+export function demandsFromCollectionCenters(centers: CollectionCenter[]): FacilityDemand[] {
+  return centers
+    .filter(center => center.active !== false)
+    .map(center => ({
+      id: center.id,
+      name: center.name,
+      lat: Number(center.location_lat),
+      lng: Number(center.location_lng),
+      demandLiters: center.storage_capacity_liters * collectionsPerDay(center.collection_schedule)
+    }));
+}
+
+export function sitesFromProcessingPlants(
+  plants: ProcessingPlant[],
+  operatingCostPerDay: number
+): CandidateSite[] {
+  return plants
+    .filter(plant => plant.active !== false)
+    .map(plant => ({
+      id: plant.id,
+      name: plant.name,
+      lat: Number(plant.location_lat),
+      lng: Number(plant.location_lng),
+      capacityLiters: plant.processing_capacity_liters_per_day,
+      fixedCostPerDay: operatingCostPerDay,
+      existing: true
+    }));
+}
+
+/**
+ * Candidate sites on a regular grid over the farms' bounding box, padded by
+ * half a cell. Cells with no farm within maxFarmDistanceKm are dropped.
+ */
+export function generateGridCandidates(
+  demands: FacilityDemand[],
+  spacingKm: number,
+  template: Pick<CandidateSite, 'capacityLiters' | 'fixedCostPerDay'>,
+  maxFarmDistanceKm: number = spacingKm * 2
+): CandidateSite[] {
+  if (demands.length === 0 || spacingKm <= 0) return [];
+
+  const lats = demands.map(d => d.lat);
+  const lngs = demands.map(d => d.lng);
+  const midLat = (Math.min(...lats) + Math.max(...lats)) / 2;
+  const latStep = spacingKm / 111.32;
+  const lngStep = spacingKm / (111.32 * Math.cos(midLat * Math.PI / 180));
+
+  const sites: CandidateSite[] = [];
+  for (let lat = Math.min(...lats) - latStep / 2; lat <= Math.max(...lats) + latStep / 2; lat += latStep) {
+    for (let lng = Math.min(...lngs) - lngStep / 2; lng <= Math.max(...lngs) + lngStep / 2; lng += lngStep) {
+      const point = { lat, lng };
+      if (!demands.some(d => estimateRoadDistanceKm(d, point) <= maxFarmDistanceKm)) continue;
+      sites.push({
+        id: `grid-${sites.length + 1}`,
+        name: `Grid site ${lat.toFixed(3)}, ${lng.toFixed(3)}`,
+        lat,
+        lng,
+        ...template
+      });
+    }
+  }
+  return sites;
+}
+
+interface Pair {
+  farm: number;
+  site: number;
+  distanceKm: number;
+  costPerLiter: number;
+}
+
+interface LocationContext {
+  demands: FacilityDemand[];
+  sites: CandidateSite[];
+  pairs: Pair[]; // sorted by cost per liter
+  options: FacilityLocationOptions;
+}
+
+interface Evaluation {
+  cost: number;
+  flows: Map<number, number>[]; // per site: farm index → liters
+  unserved: number[];
+}
+
+function buildContext(
+  demands: FacilityDemand[],
+  sites: CandidateSite[],
+  options: FacilityLocationOptions
+): LocationContext {
+  const distanceBetween = createDistanceFunction(options.distanceMatrix);
+  const pairs: Pair[] = [];
+  demands.forEach((demand, farm) => {
+    sites.forEach((site, siteIndex) => {
+      const distanceKm = distanceBetween(demand, site);
+      if (options.maxAssignmentDistanceKm !== undefined && distanceKm > options.maxAssignmentDistanceKm) return;
+      pairs.push({ farm, site: siteIndex, distanceKm, costPerLiter: distanceKm * options.transportCostPerLiterKm });
+    });
+  });
+  pairs.sort((a, b) => a.costPerLiter - b.costPerLiter);
+  return { demands, sites, pairs, options };
+}
+
+function evaluate(ctx: LocationContext, open: Set<number>): Evaluation {
+  const remainingSupply = ctx.demands.map(d => d.demandLiters);
+  const remainingCapacity = ctx.sites.map(s => s.capacityLiters);
+  const flows = ctx.sites.map(() => new Map<number, number>());
+  let cost = 0;
+
+  open.forEach(site => { cost += ctx.sites[site].fixedCostPerDay; });
+
+  for (const pair of ctx.pairs) {
+    if (!open.has(pair.site)) continue;
+    const volume = Math.min(remainingSupply[pair.farm], remainingCapacity[pair.site]);
+    if (volume <= EPSILON) continue;
+    remainingSupply[pair.farm] -= volume;
+    remainingCapacity[pair.site] -= volume;
+    flows[pair.site].set(pair.farm, (flows[pair.site].get(pair.farm) ?? 0) + volume);
+    cost += volume * pair.costPerLiter;
+  }
+
+  remainingSupply.forEach(liters => { cost += liters * ctx.options.unservedPenaltyPerLiter; });
+  return { cost, flows, unserved: remainingSupply };
+}
+
+function improve(ctx: LocationContext, open: Set<number>, fixedCount: boolean): Set<number> {
+  let best = evaluate(ctx, open).cost;
+  const candidates = ctx.sites.map((_, i) => i);
+  const movable = (i: number) => !ctx.sites[i].mustOpen;
+
+  for (let pass = 0; pass < ctx.options.maxPasses; pass++) {
+    let improved = false;
+
+    if (!fixedCount) {
+      for (const add of candidates.filter(i => !open.has(i))) {
+        const trial = new Set(open).add(add);
+        const cost = evaluate(ctx, trial).cost;
+        if (cost < best - EPSILON) { open = trial; best = cost; improved = true; }
+      }
+      for (const drop of [...open].filter(movable)) {
+        const trial = new Set(open);
+        trial.delete(drop);
+        const cost = evaluate(ctx, trial).cost;
+        if (cost < best - EPSILON) { open = trial; best = cost; improved = true; }
+      }
+    }
+
+    for (const out of [...open].filter(movable)) {
+      for (const into of candidates.filter(i => !open.has(i))) {
+        const trial = new Set(open);
+        trial.delete(out);
+        trial.add(into);
+        const cost = evaluate(ctx, trial).cost;
+        if (cost < best - EPSILON) { open = trial; best = cost; improved = true; break; }
+      }
+    }
+
+    if (!improved) break;
+  }
+
+  return open;
+}
+
+function toPlan(ctx: LocationContext, open: Set<number>): FacilityLocationPlan {
+  const evaluation = evaluate(ctx, open);
+  const distanceByPair = new Map(ctx.pairs.map(p => [`${p.farm}:${p.site}`, p.distanceKm]));
+  const assignments: FacilityAssignment[] = [];
+  const openSites: OpenSite[] = [];
+  let fixedCost = 0;
+  let transportCost = 0;
+  let literKm = 0;
+
+  [...open].sort((a, b) => a - b).forEach(siteIndex => {
+    const site = ctx.sites[siteIndex];
+    let assignedLiters = 0;
+    evaluation.flows[siteIndex].forEach((volume, farmIndex) => {
+      const farm = ctx.demands[farmIndex];
+      const distanceKm = distanceByPair.get(`${farmIndex}:${siteIndex}`) ?? 0;
+      const cost = volume * distanceKm * ctx.options.transportCostPerLiterKm;
+      assignments.push({
+        farmId: farm.id,
+        farmName: farm.name,
+        siteId: site.id,
+        siteName: site.name,
+        volumeLiters: volume,
+        distanceKm,
+        cost
+      });
+      assignedLiters += volume;
+      transportCost += cost;
+      literKm += volume * distanceKm;
+    });
+    fixedCost += site.fixedCostPerDay;
+    openSites.push({
+      site,
+      assignedLiters,
+      utilizationPercent: site.capacityLiters > 0 ? (assignedLiters / site.capacityLiters) * 100 : 0
+    });
+  });
+
+  const unservedLiters = evaluation.unserved.reduce((sum, liters) => sum + liters, 0);
+  const servedLiters = assignments.reduce((sum, a) => sum + a.volumeLiters, 0);
+  const unservedCost = unservedLiters * ctx.options.unservedPenaltyPerLiter;
+
+  return {
+    openSites,
+    assignments,
+    fixedCost,
+    transportCost,
+    unservedLiters,
+    unservedCost,
+    totalCost: fixedCost + transportCost + unservedCost,
+    averageDistanceKm: servedLiters > 0 ? literKm / servedLiters : 0
+  };
+}
+
+/**
+ * Cost of serving the farms from a given set of sites, e.g. today's
+ * collection centers. Used as the baseline for comparisons.
+ */
+export function evaluateFacilitySet(
+  demands: FacilityDemand[],
+  sites: CandidateSite[],
+  overrides: Partial<FacilityLocationOptions> = {}
+): FacilityLocationPlan {
+  const options = { ...DEFAULT_FACILITY_LOCATION_OPTIONS, ...overrides };
+  const ctx = buildContext(demands, sites, options);
+  return toPlan(ctx, new Set(sites.map((_, i) => i)));
+}
+
+export function solveFacilityLocation(
+  demands: FacilityDemand[],
+  sites: CandidateSite[],
+  overrides: Partial<FacilityLocationOptions> = {}
+): FacilityLocationPlan {
+  const options = { ...DEFAULT_FACILITY_LOCATION_OPTIONS, ...overrides };
+  const ctx = buildContext(demands, sites, options);
+  const pinned = sites.flatMap((site, i) => (site.mustOpen ? [i] : []));
+  const target = options.facilityCount !== undefined
+    ? Math.min(Math.max(options.facilityCount, pinned.length), sites.length)
+    : undefined;
+
+  // Greedy ADD: open whichever site lowers cost most until nothing helps (or p is reached)
+  let open = new Set(pinned);
+  let current = evaluate(ctx, open).cost;
+  while (target === undefined || open.size < target) {
+    let bestSite = -1;
+    let bestCost = target === undefined ? current - EPSILON : Infinity;
+    sites.forEach((_, i) => {
+      if (open.has(i)) return;
+      const cost = evaluate(ctx, new Set(open).add(i)).cost;
+      if (cost < bestCost) { bestCost = cost; bestSite = i; }
+    });
+    if (bestSite < 0) break;
+    open.add(bestSite);
+    current = bestCost;
+  }
+
+  open = improve(ctx, open, target !== undefined);
+  return toPlan(ctx, open);
+}
+
+export function compareFacilityPlans(
+  current: FacilityLocationPlan,
+  proposed: FacilityLocationPlan
+): FacilityPlanComparison {
+  const currentIds = new Set(current.openSites.map(s => s.site.id));
+  const proposedIds = new Set(proposed.openSites.map(s => s.site.id));
+
+  // Volume-weighted distance per farm under each plan
+  const farmDistances = (plan: FacilityLocationPlan) => {
+    const totals = new Map<string, { name: string; literKm: number; liters: number }>();
+    plan.assignments.forEach(a => {
+      const entry = totals.get(a.farmId) ?? { name: a.farmName, literKm: 0, liters: 0 };
+      entry.literKm += a.volumeLiters * a.distanceKm;
+      entry.liters += a.volumeLiters;
+      totals.set(a.farmId, entry);
+    });
+    return totals;
+  };
+  const before = farmDistances(current);
+  const after = farmDistances(proposed);
+
+  const farmDistanceChanges = [...after.entries()]
+    .filter(([farmId]) => before.has(farmId))
+    .map(([farmId, entry]) => {
+      const previous = before.get(farmId)!;
+      return {
+        farmId,
+        farmName: entry.name,
+        currentKm: previous.literKm / previous.liters,
+        proposedKm: entry.literKm / entry.liters
+      };
+    });
+
+  const costSavings = current.totalCost - proposed.totalCost;
+
+  return {
+    costSavings,
+    costSavingsPercent: current.totalCost > 0 ? (costSavings / current.totalCost) * 100 : 0,
+    averageDistanceSavingsKm: current.averageDistanceKm - proposed.averageDistanceKm,
+    additionalLitersServed: current.unservedLiters - proposed.unservedLiters,
+    sitesOpened: proposed.openSites.filter(s => !currentIds.has(s.site.id)).map(s => s.site),
+    sitesClosed: current.openSites.filter(s => !proposedIds.has(s.site.id)).map(s => s.site),
+    farmDistanceChanges
+  };
+}
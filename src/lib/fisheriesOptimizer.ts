@@ -0,0 +1,298 @@
+import { estimateRoadDistanceKm, DEFAULT_ROAD_SPEED_KMH, type DistanceFunction } from '@/lib/geo';
+import type {
+  ColdStorage,
+  DailyCatch,
+  Market,
+  MarketDemand,
+  Port,
+  SpoilageProfile,
+  Truck
+} from '@/services/supplyChainService';
+
+/**
+ * Fisheries catch allocation
+ *
+ * Each catch landed at a port is sent to one market on one truck, optionally
+ * through a cold storage. Spoilage follows the fish type's spoilage profile:
+ * fish stays fresh for unrefrigerated_hours on ice (refrigerated_hours in a
+ * refrigerated truck) and then loses spoilage_rate_per_hour percent an hour,
+ * slowed by the ratio of the two windows when refrigerated. A cold storage
+ * stop re-ices the load, so the fresh window restarts for the onward leg.
+ *
+ * Net profit = price × kg delivered unspoiled − transport − storage. Choosing
+ * options under truck, market demand and storage limits is a generalized
+ * assignment problem; it is solved greedily by profit and then improved by
+ * re-assigning one catch at a time while that helps.
+ */
+
+export const COLD_STORAGE_DWELL_HOURS = 1; // unloading, re-icing and reloading
+const MAX_IMPROVEMENT_PASSES = 20;
+
+export interface FisheriesInput {
+  catches: DailyCatch[];
+  ports: Port[];
+  markets: Market[];
+  coldStorages: ColdStorage[];
+  trucks: Truck[];
+  spoilageProfiles: SpoilageProfile[];
+  demand: MarketDemand[]; // prices and quantities; the latest entry on or before the catch date applies
+}
+
+export interface FisheriesOptions {
+  distance?: DistanceFunction;
+  speedKmh?: number;
+  allowColdStorage?: boolean;
+}
+
+export interface CatchAllocation {
+  catchId: string;
+  portId: string;
+  marketId: string;
+  coldStorageId?: string;
+  truckId: string;
+  fishType: string;
+  volumeKg: number;
+  trips: number;
+  distanceKm: number; // loaded distance of one trip
+  travelTimeHours: number; // one trip, including the storage stop
+  pricePerKg: number;
+  spoilagePercent: number;
+  deliveredKg: number;
+  transportCost: number;
+  storageCost: number;
+  totalCost: number;
+  revenue: number;
+  netProfit: number;
+}
+
+export interface UnallocatedCatch {
+  catchId: string;
+  reason: string;
+}
+
+export interface FisheriesPlan {
+  allocations: CatchAllocation[];
+  unallocated: UnallocatedCatch[];
+  totalVolumeKg: number;
+  totalRevenue: number;
+  totalCost: number;
+  totalNetProfit: number;
+  averageSpoilagePercent: number; // volume-weighted
+}
+
+/**
+ * Percentage of a load lost over consecutive legs. Each leg starts with a
+ * fresh window; legs after a cold storage stop are separate legs.
+ */
+export function spoilageAlongLegs(profile: SpoilageProfile | undefined, legHours: number[], refrigerated: boolean): number {
+  if (!profile) return 0;
+  const rate = profile.spoilage_rate_per_hour;
+
+  if (refrigerated) {
+    // The refrigerated clock keeps running through storage stops
+    const hours = legHours.reduce((sum, h) => sum + h, 0);
+    const chilledRate = rate * profile.unrefrigerated_hours / Math.max(profile.refrigerated_hours, 1e-6);
+    return Math.min(100, chilledRate * Math.max(0, hours - profile.refrigerated_hours));
+  }
+
+  const loss = legHours.reduce((sum, h) => sum + rate * Math.max(0, h - profile.unrefrigerated_hours), 0);
+  return Math.min(100, loss);
+}
+
+export function marketPrice(
+  demand: MarketDemand[],
+  marketId: string,
+  fishType: string,
+  date: string
+): MarketDemand | undefined {
+  return demand
+    .filter(d => d.market_id === marketId && d.fish_type === fishType && d.demand_date <= date)
+    .sort((a, b) => b.demand_date.localeCompare(a.demand_date))[0];
+}
+
+const demandKey = (marketId: string, fishType: string) => `${marketId}|${fishType}`;
+
+interface Option extends CatchAllocation {
+  demandLimitKg?: number;
+}
+
+function catchOptions(
+  fishCatch: DailyCatch,
+  input: FisheriesInput,
+  distance: DistanceFunction,
+  speedKmh: number,
+  allowColdStorage: boolean
+): Option[] {
+  const port = input.ports.find(p => p.id === fishCatch.port_id);
+  if (!port) return [];
+  const profile = input.spoilageProfiles.find(p => p.fish_type === fishCatch.fish_type);
+  const origin = { id: port.id, lat: port.location_lat, lng: port.location_lng };
+
+  const options: Option[] = [];
+  input.markets.forEach(market => {
+    const quote = marketPrice(input.demand, market.id, fishCatch.fish_type, fishCatch.catch_date);
+    const pricePerKg = quote?.price_per_kg ?? fishCatch.estimated_price_per_kg;
+    if (!pricePerKg) return;
+    const destination = { id: market.id, lat: market.location_lat, lng: market.location_lng };
+
+    const routes: { storage?: ColdStorage; legsKm: number[] }[] = [{ legsKm: [distance(origin, destination)] }];
+    if (allowColdStorage) {
+      input.coldStorages
+        .filter(storage => storage.capacity_kg >= fishCatch.volume_kg)
+        .forEach(storage => {
+          const stop = { id: storage.id, lat: storage.location_lat, lng: storage.location_lng };
+          routes.push({ storage, legsKm: [distance(origin, stop), distance(stop, destination)] });
+        });
+    }
+
+    routes.forEach(({ storage, legsKm }) => {
+      const distanceKm = legsKm.reduce((sum, km) => sum + km, 0);
+      const legHours = legsKm.map(km => km / speedKmh);
+      const travelTimeHours = legHours.reduce((sum, h) => sum + h, 0) + (storage ? COLD_STORAGE_DWELL_HOURS : 0);
+
+      input.trucks.forEach(truck => {
+        const trips = Math.ceil(fishCatch.volume_kg / truck.capacity_kg);
+        // Trucks return empty between trips; the daily range caps the total
+        const drivenKm = distanceKm * (2 * trips - 1);
+        if (drivenKm > truck.max_distance_km) return;
+
+        const refrigerated = truck.truck_type === 'refrigerated';
+        const spoilagePercent = spoilageAlongLegs(profile, legHours, refrigerated);
+        const deliveredKg = fishCatch.volume_kg * (1 - spoilagePercent / 100);
+        const transportCost = drivenKm * truck.cost_per_km;
+        const storageCost = storage ? storage.cost_per_hour * COLD_STORAGE_DWELL_HOURS * trips : 0;
+        const revenue = deliveredKg * pricePerKg;
+        const totalCost = transportCost + storageCost;
+
+        options.push({
+          catchId: fishCatch.id,
+          portId: port.id,
+          marketId: market.id,
+          coldStorageId: storage?.id,
+          truckId: truck.id,
+          fishType: fishCatch.fish_type,
+          volumeKg: fishCatch.volume_kg,
+          trips,
+          distanceKm,
+          travelTimeHours,
+          pricePerKg,
+          spoilagePercent,
+          deliveredKg,
+          transportCost,
+          storageCost,
+          totalCost,
+          revenue,
+          netProfit: revenue - totalCost,
+          demandLimitKg: quote?.quantity_kg
+        });
+      });
+    });
+  });
+
+  return options.sort((a, b) => b.netProfit - a.netProfit);
+}
+
+export function optimizeCatchAllocation(input: FisheriesInput, options: FisheriesOptions = {}): FisheriesPlan {
+  const distance = options.distance ?? ((from, to) => estimateRoadDistanceKm(from, to));
+  const speedKmh = options.speedKmh ?? DEFAULT_ROAD_SPEED_KMH;
+  const allowColdStorage = options.allowColdStorage ?? true;
+
+  const optionsByCatch = new Map(input.catches.map(c => [
+    c.id,
+    catchOptions(c, input, distance, speedKmh, allowColdStorage).filter(o => o.netProfit > 0)
+  ]));
+
+  const assignment = new Map<string, Option>();
+  const trucksInUse = new Map<string, string>(); // truck → catch
+  const marketLoad = new Map<string, number>();
+  const storageLoad = new Map<string, number>();
+
+  const fits = (option: Option) => {
+    if (trucksInUse.has(option.truckId)) return false;
+    if (option.demandLimitKg !== undefined &&
+        (marketLoad.get(demandKey(option.marketId, option.fishType)) ?? 0) + option.deliveredKg > option.demandLimitKg) {
+      return false;
+    }
+    if (option.coldStorageId) {
+      const storage = input.coldStorages.find(s => s.id === option.coldStorageId)!;
+      if ((storageLoad.get(storage.id) ?? 0) + option.volumeKg > storage.capacity_kg) return false;
+    }
+    return true;
+  };
+
+  const assign = (option: Option) => {
+    assignment.set(option.catchId, option);
+    trucksInUse.set(option.truckId, option.catchId);
+    const key = demandKey(option.marketId, option.fishType);
+    marketLoad.set(key, (marketLoad.get(key) ?? 0) + option.deliveredKg);
+    if (option.coldStorageId) {
+      storageLoad.set(option.coldStorageId, (storageLoad.get(option.coldStorageId) ?? 0) + option.volumeKg);
+    }
+  };
+
+  const unassign = (option: Option) => {
+    assignment.delete(option.catchId);
+    trucksInUse.delete(option.truckId);
+    const key = demandKey(option.marketId, option.fishType);
+    marketLoad.set(key, (marketLoad.get(key) ?? 0) - option.deliveredKg);
+    if (option.coldStorageId) {
+      storageLoad.set(option.coldStorageId, (storageLoad.get(option.coldStorageId) ?? 0) - option.volumeKg);
+    }
+  };
+
+  // Greedy: most profitable option first across all catches
+  [...optionsByCatch.values()].flat()
+    .sort((a, b) => b.netProfit - a.netProfit)
+    .forEach(option => {
+      if (!assignment.has(option.catchId) && fits(option)) assign(option);
+    });
+
+  // Improvement: move one catch at a time to its best option given the others
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES; pass++) {
+    let improved = false;
+    input.catches.forEach(fishCatch => {
+      const current = assignment.get(fishCatch.id);
+      if (current) unassign(current);
+      const best = optionsByCatch.get(fishCatch.id)!.find(fits);
+      if (best && (!current || best.netProfit > current.netProfit + 1e-6)) {
+        assign(best);
+        improved = true;
+      } else if (current) {
+        assign(current);
+      }
+    });
+    if (!improved) break;
+  }
+
+  const allocations: CatchAllocation[] = input.catches
+    .filter(c => assignment.has(c.id))
+    .map(c => {
+      const { demandLimitKg: _limit, ...allocation } = assignment.get(c.id)!;
+      return allocation;
+    });
+
+  const unallocated: UnallocatedCatch[] = input.catches
+    .filter(c => !assignment.has(c.id))
+    .map(c => {
+      const all = catchOptions(c, input, distance, speedKmh, allowColdStorage);
+      const reason = all.length === 0
+        ? 'No priced market within range of an available truck'
+        : optionsByCatch.get(c.id)!.length === 0
+          ? 'No route covers its transport cost'
+          : 'Trucks, market demand or storage already taken by more profitable catches';
+      return { catchId: c.id, reason };
+    });
+
+  const totalVolumeKg = allocations.reduce((sum, a) => sum + a.volumeKg, 0);
+  return {
+    allocations,
+    unallocated,
+    totalVolumeKg,
+    totalRevenue: allocations.reduce((sum, a) => sum + a.revenue, 0),
+    totalCost: allocations.reduce((sum, a) => sum + a.totalCost, 0),
+    totalNetProfit: allocations.reduce((sum, a) => sum + a.netProfit, 0),
+    averageSpoilagePercent: totalVolumeKg > 0
+      ? allocations.reduce((sum, a) => sum + a.spoilagePercent * a.volumeKg, 0) / totalVolumeKg
+      : 0
+  };
+}
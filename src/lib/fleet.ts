@@ -0,0 +1,216 @@
+import { vehicleTypes } from '@/data/dairyProducts';
+import type { Tables } from '@/integrations/supabase/types';
+import type { VehicleType } from '@/types/products';
+import type { NetworkFlowPlan } from '@/lib/networkFlowOptimizer';
+import type { VrpStop, VrpVehicle } from '@/lib/vrpSolver';
+
+/**
+ * Dairy fleet availability
+ *
+ * A vehicle is available on a date when it is active, the date is one of its
+ * working days and no downtime overlaps its duty hours that day. Partial-day
+ * downtime takes the vehicle out for the whole day: routing does not split a
+ * duty period around a workshop visit.
+ *
+ * Vehicle types are looked up in the given catalog, by default the built-in
+ * one; pass the loaded catalog so custom types resolve.
+ */
+
+export type DairyVehicle = Tables<'dairy_vehicles'>;
+export type VehicleDowntime = Tables<'vehicle_downtime'>;
+
+export const DOWNTIME_KINDS = [
+  { value: 'maintenance', label: 'Scheduled maintenance' },
+  { value: 'repair', label: 'Breakdown / repair' },
+  { value: 'no_driver', label: 'No driver' },
+  { value: 'other', label: 'Other' }
+] as const;
+
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Servicing is flagged this many km before it falls due
+export const SERVICE_WARNING_KM = 500;
+// Collection runs a vehicle can make a day: the morning and evening milk
+export const TOURS_PER_VEHICLE_DAY = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const vehicleTypeOf = (
+  vehicle: Pick<DairyVehicle, 'vehicle_type_id'>,
+  catalog: VehicleType[] = vehicleTypes
+): VehicleType | undefined => catalog.find(type => type.id === vehicle.vehicle_type_id);
+
+export const homeDepotId = (vehicle: Pick<DairyVehicle, 'home_center_id' | 'home_plant_id'>) =>
+  vehicle.home_center_id ?? vehicle.home_plant_id ?? '';
+
+export const downtimeLabel = (kind: string) => DOWNTIME_KINDS.find(k => k.value === kind)?.label ?? kind;
+
+// 'HH:MM' or 'HH:MM:SS' → minutes from midnight
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+// The vehicle's duty period on a date (YYYY-MM-DD), in local time
+function dutyPeriod(vehicle: DairyVehicle, date: string): { start: number; end: number } {
+  const midnight = new Date(`${date}T00:00:00`).getTime();
+  return {
+    start: midnight + timeToMinutes(vehicle.available_from) * 60 * 1000,
+    end: midnight + timeToMinutes(vehicle.available_to) * 60 * 1000
+  };
+}
+
+export interface VehicleAvailability {
+  available: boolean;
+  reason?: string;
+  downtime?: VehicleDowntime;
+}
+
+export function vehicleAvailability(vehicle: DairyVehicle, downtime: VehicleDowntime[], date: string): VehicleAvailability {
+  if (!vehicle.active) return { available: false, reason: 'Inactive' };
+
+  const weekday = new Date(`${date}T00:00:00`).getDay();
+  if (!vehicle.working_days.includes(weekday)) return { available: false, reason: 'Not a working day' };
+
+  const duty = dutyPeriod(vehicle, date);
+  const blocking = downtime.find(d =>
+    d.vehicle_id === vehicle.id &&
+    new Date(d.starts_at).getTime() < duty.end &&
+    new Date(d.ends_at).getTime() > duty.start
+  );
+  if (blocking) return { available: false, reason: downtimeLabel(blocking.kind), downtime: blocking };
+
+  return { available: true };
+}
+
+// Km left until the next service; negative when overdue
+export const serviceDueInKm = (vehicle: DairyVehicle) =>
+  Number(vehicle.last_service_km) + Number(vehicle.service_interval_km) - Number(vehicle.odometer_km);
+
+export const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+// Availability of each vehicle for `days` days from startDate
+export function availabilityCalendar(
+  vehicles: DairyVehicle[],
+  downtime: VehicleDowntime[],
+  startDate: string,
+  days: number
+): { vehicle: DairyVehicle; days: (VehicleAvailability & { date: string })[] }[] {
+  const dates = Array.from({ length: days }, (_, i) => addDays(startDate, i));
+  return vehicles.map(vehicle => ({
+    vehicle,
+    days: dates.map(date => ({ date, ...vehicleAvailability(vehicle, downtime, date) }))
+  }));
+}
+
+/**
+ * Routing vehicles for a depot on a date: its available vehicles with a
+ * known type, each limited to its duty hours.
+ */
+export function depotFleet(
+  vehicles: DairyVehicle[],
+  downtime: VehicleDowntime[],
+  depotId: string,
+  date: string,
+  catalog: VehicleType[] = vehicleTypes
+): VrpVehicle[] {
+  return vehicles
+    .filter(vehicle => homeDepotId(vehicle) === depotId && vehicleAvailability(vehicle, downtime, date).available)
+    .flatMap(vehicle => {
+      const vehicleType = vehicleTypeOf(vehicle, catalog);
+      if (!vehicleType) return [];
+      return [{
+        id: vehicle.id,
+        vehicleType,
+        dutyWindow: { start: timeToMinutes(vehicle.available_from), end: timeToMinutes(vehicle.available_to) }
+      }];
+    });
+}
+
+export interface FleetShortfall {
+  depotId: string;
+  depotName: string;
+  availableVehicles: number;
+  uncoveredLiters: number;
+  uncoveredStops: string[];
+  additionalVehicles: number; // of the depot's largest vehicle type, or a milk tanker when it has none
+}
+
+function largestType(fleet: Pick<VrpVehicle, 'vehicleType'>[], catalog: VehicleType[]): VehicleType {
+  return fleet.reduce<VehicleType | undefined>(
+    (largest, v) => !largest || v.vehicleType.capacity > largest.capacity ? v.vehicleType : largest,
+    undefined
+  ) ?? catalog.find(type => type.id === 'milk-tanker') ?? catalog[0] ?? vehicleTypes[0];
+}
+
+// Shortfall of a routed depot: pickups its fleet could not schedule
+export function routingShortfall(
+  depotId: string,
+  depotName: string,
+  fleet: VrpVehicle[],
+  unassigned: VrpStop[],
+  catalog: VehicleType[] = vehicleTypes
+): FleetShortfall | null {
+  if (unassigned.length === 0) return null;
+  const uncoveredLiters = unassigned.reduce((sum, stop) => sum + stop.demandLiters, 0);
+  return {
+    depotId,
+    depotName,
+    availableVehicles: fleet.length,
+    uncoveredLiters,
+    uncoveredStops: unassigned.map(stop => stop.name),
+    additionalVehicles: Math.ceil(uncoveredLiters / (largestType(fleet, catalog).capacity * TOURS_PER_VEHICLE_DAY))
+  };
+}
+
+export interface DepotFleetCoverage {
+  depotId: string;
+  depotName: string;
+  requiredLiters: number; // daily volume arriving at the depot in the flow plan
+  fleetLiters: number; // daily capacity of its available vehicles
+  availableVehicles: number;
+  shortfall: FleetShortfall | null;
+}
+
+/**
+ * Compares the daily volume each depot must collect in a network flow plan
+ * (farm → center for centers, center → plant for plants) with what its
+ * available vehicles can carry in TOURS_PER_VEHICLE_DAY runs.
+ */
+export function fleetCoverage(
+  plan: NetworkFlowPlan,
+  vehicles: DairyVehicle[],
+  downtime: VehicleDowntime[],
+  date: string,
+  catalog: VehicleType[] = vehicleTypes
+): DepotFleetCoverage[] {
+  const depots = new Map<string, { name: string; liters: number; sources: string[] }>();
+  plan.assignments.forEach(assignment => {
+    const depot = depots.get(assignment.toId) ?? { name: assignment.toName, liters: 0, sources: [] };
+    depot.liters += assignment.volumeLiters;
+    depot.sources.push(assignment.fromName);
+    depots.set(assignment.toId, depot);
+  });
+
+  return [...depots.entries()].map(([depotId, depot]) => {
+    const fleet = depotFleet(vehicles, downtime, depotId, date, catalog);
+    const fleetLiters = fleet.reduce((sum, v) => sum + v.vehicleType.capacity * TOURS_PER_VEHICLE_DAY, 0);
+    const uncoveredLiters = Math.max(0, depot.liters - fleetLiters);
+    return {
+      depotId,
+      depotName: depot.name,
+      requiredLiters: depot.liters,
+      fleetLiters,
+      availableVehicles: fleet.length,
+      shortfall: uncoveredLiters > 0 ? {
+        depotId,
+        depotName: depot.name,
+        availableVehicles: fleet.length,
+        uncoveredLiters,
+        uncoveredStops: depot.sources,
+        additionalVehicles: Math.ceil(uncoveredLiters / (largestType(fleet, catalog).capacity * TOURS_PER_VEHICLE_DAY))
+      } : null
+    };
+  }).sort((a, b) => a.depotName.localeCompare(b.depotName));
+}
@@ -0,0 +1,199 @@
+/**
+ * Shared geographic helpers
+ *
+ * Every optimizer and metric measures distance through this module so the
+ * numbers agree across the app. Distances are road estimates: great-circle
+ * distance scaled by a circuity factor, unless a routing matrix (OSRM or a
+ * precomputed table) supplies real road distances for the node pair.
+ */
+
+export interface GeoPoint {
+  id?: string;
+  lat: number;
+  lng: number;
+}
+
+export interface DistanceMatrix {
+  provider: string;
+  nodeIds: string[];
+  distancesKm: number[][];
+  durationsHours?: number[][];
+}
+
+export interface DistanceMatrixProvider {
+  name: string;
+  getMatrix(points: Required<GeoPoint>[]): Promise<DistanceMatrix>;
+}
+
+export type DistanceFunction = (from: GeoPoint, to: GeoPoint) => number;
+
+export const EARTH_RADIUS_KM = 6371;
+
+// Ratio of road to straight-line distance for rural Karnataka road networks
+export const DEFAULT_CIRCUITY_FACTOR = 1.3;
+
+export const DEFAULT_ROAD_SPEED_KMH = 45;
+
+/**
+ * Haversine Distance Calculation
+ * Formula: d = 2r × arcsin(√(sin²(Δφ/2) + cos φ1 × cos φ2 × sin²(Δλ/2)))
+ * Where φ = latitude, λ = longitude, R = earth radius (6371 km)
+ */
+export function haversineDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const dLat = (lat2 - lat1) * Math.PI / 180;
+  const dLng = (lng2 - lng1) * Math.PI / 180;
+
+  const a =
+    Math.sin(dLat/2) * Math.sin(dLat/2) +
+    Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) *
+    Math.sin(dLng/2) * Math.sin(dLng/2);
+
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
+  return EARTH_RADIUS_KM * c;
+}
+
+export function estimateRoadDistanceKm(
+  from: GeoPoint,
+  to: GeoPoint,
+  circuityFactor: number = DEFAULT_CIRCUITY_FACTOR
+): number {
+  return haversineDistance(from.lat, from.lng, to.lat, to.lng) * circuityFactor;
+}
+
+/**
+ * Distance lookup backed by a matrix when both points are in it, falling
+ * back to the circuity estimate for anything else (e.g. unsaved map clicks).
+ */
+export function createDistanceFunction(matrix?: DistanceMatrix | null): DistanceFunction {
+  if (!matrix) return (from, to) => estimateRoadDistanceKm(from, to);
+
+  const index = new Map(matrix.nodeIds.map((id, i) => [id, i]));
+  return (from, to) => {
+    const i = from.id !== undefined ? index.get(from.id) : undefined;
+    const j = to.id !== undefined ? index.get(to.id) : undefined;
+    if (i !== undefined && j !== undefined) return matrix.distancesKm[i][j];
+    return estimateRoadDistanceKm(from, to);
+  };
+}
+
+// Travel time in hours; uses matrix durations when present, otherwise distance / speed
+export function createDurationFunction(
+  matrix?: DistanceMatrix | null,
+  speedKmh: number = DEFAULT_ROAD_SPEED_KMH
+): DistanceFunction {
+  const distance = createDistanceFunction(matrix);
+  if (!matrix?.durationsHours) return (from, to) => distance(from, to) / speedKmh;
+
+  const index = new Map(matrix.nodeIds.map((id, i) => [id, i]));
+  return (from, to) => {
+    const i = from.id !== undefined ? index.get(from.id) : undefined;
+    const j = to.id !== undefined ? index.get(to.id) : undefined;
+    if (i !== undefined && j !== undefined) return matrix.durationsHours![i][j];
+    return distance(from, to) / speedKmh;
+  };
+}
+
+/**
+ * Stable cache key for a node set. Includes coordinates so moving a node
+ * invalidates the cached matrix.
+ */
+export function nodeSetKey(points: Required<GeoPoint>[]): string {
+  const canonical = [...points]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(p => `${p.id}:${p.lat.toFixed(5)},${p.lng.toFixed(5)}`)
+    .join('|');
+
+  // FNV-1a 32-bit
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < canonical.length; i++) {
+    hash ^= canonical.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${points.length}-${(hash >>> 0).toString(16).padStart(8, '0')}`;
+}
+
+// Local estimate: haversine × circuity, durations at a fixed average speed
+export class CircuityMatrixProvider implements DistanceMatrixProvider {
+  readonly name: string;
+
+  constructor(
+    private circuityFactor: number = DEFAULT_CIRCUITY_FACTOR,
+    private speedKmh: number = DEFAULT_ROAD_SPEED_KMH
+  ) {
+    this.name = `circuity-${circuityFactor}`;
+  }
+
+  async getMatrix(points: Required<GeoPoint>[]): Promise<DistanceMatrix> {
+    const distancesKm = points.map(a => points.map(b => estimateRoadDistanceKm(a, b, this.circuityFactor)));
+    return {
+      provider: this.name,
+      nodeIds: points.map(p => p.id),
+      distancesKm,
+      durationsHours: distancesKm.map(row => row.map(d => d / this.speedKmh))
+    };
+  }
+}
+
+/**
+ * OSRM table service (or any server speaking the same API, e.g. a local
+ * stand-in). Missing cells fall back to the circuity estimate.
+ */
+export class OsrmMatrixProvider implements DistanceMatrixProvider {
+  readonly name: string;
+
+  constructor(private baseUrl: string, private profile: string = 'driving') {
+    this.name = `osrm:${baseUrl}`;
+  }
+
+  async getMatrix(points: Required<GeoPoint>[]): Promise<DistanceMatrix> {
+    const coordinates = points.map(p => `${p.lng},${p.lat}`).join(';');
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/$/, '')}/table/v1/${this.profile}/${coordinates}?annotations=distance,duration`
+    );
+    if (!response.ok) {
+      throw new Error(`OSRM table request failed: ${response.status}`);
+    }
+
+    const data: { code: string; distances?: (number | null)[][]; durations?: (number | null)[][] } = await response.json();
+    if (data.code !== 'Ok' || !data.distances) {
+      throw new Error(`OSRM table request failed: ${data.code}`);
+    }
+
+    const distancesKm = points.map((a, i) => points.map((b, j) => {
+      const meters = data.distances![i][j];
+      return meters === null ? estimateRoadDistanceKm(a, b) : meters / 1000;
+    }));
+    const durationsHours = points.map((_, i) => points.map((_, j) => {
+      const seconds = data.durations?.[i]?.[j];
+      return seconds === null || seconds === undefined ? distancesKm[i][j] / DEFAULT_ROAD_SPEED_KMH : seconds / 3600;
+    }));
+
+    return { provider: this.name, nodeIds: points.map(p => p.id), distancesKm, durationsHours };
+  }
+}
+
+// Precomputed table keyed by node id, e.g. exported from a GIS tool
+export class PrecomputedMatrixProvider implements DistanceMatrixProvider {
+  readonly name: string;
+
+  constructor(
+    private table: Record<string, Record<string, number>>,
+    name: string = 'precomputed'
+  ) {
+    this.name = name;
+  }
+
+  async getMatrix(points: Required<GeoPoint>[]): Promise<DistanceMatrix> {
+    const distancesKm = points.map(a => points.map(b =>
+      a.id === b.id ? 0 : this.table[a.id]?.[b.id] ?? this.table[b.id]?.[a.id] ?? estimateRoadDistanceKm(a, b)
+    ));
+    return {
+      provider: this.name,
+      nodeIds: points.map(p => p.id),
+      distancesKm,
+      durationsHours: distancesKm.map(row => row.map(d => d / DEFAULT_ROAD_SPEED_KMH))
+    };
+  }
+}
+
+export const defaultMatrixProvider: DistanceMatrixProvider = new CircuityMatrixProvider();
@@ -0,0 +1,328 @@
+import type { Database, Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { CollectionCenter, ProcessingPlant } from '@/services/dairyService';
+
+/**
+ * Inventory at collection center tanks, plant milk silos and plant cold stores
+ *
+ * Stock is kept as a ledger of movements (inventory_movements). A stock is a
+ * node and a product: raw milk when the product is null, otherwise a
+ * finished product at a plant. Quantities are positive and the kind sets the
+ * direction; a count sets the level outright. Levels at any moment come from
+ * the inventory_levels function, and timelines replay the movements after
+ * such an opening level.
+ *
+ * Warnings:
+ *   overflow  - milk above the tank or silo capacity, or finished goods in
+ *               total above the plant's cold store capacity
+ *   stock-out - finished goods drawn to zero or below, or milk drawn below
+ *               zero (more dispatched or consumed than was recorded in)
+ */
+
+export type InventoryMovement = Tables<'inventory_movements'>;
+export type InventoryMovementInput = TablesInsert<'inventory_movements'>;
+export type InventoryLevel = Database['public']['Functions']['inventory_levels']['Returns'][number];
+
+export type MovementKind = 'collection' | 'receipt' | 'production' | 'dispatch' | 'consumption' | 'loss' | 'count';
+
+export const MOVEMENT_KINDS: { value: MovementKind; label: string; direction: 1 | -1 | 0 }[] = [
+  { value: 'collection', label: 'Collection', direction: 1 },
+  { value: 'receipt', label: 'Receipt', direction: 1 },
+  { value: 'production', label: 'Production', direction: 1 },
+  { value: 'dispatch', label: 'Dispatch', direction: -1 },
+  { value: 'consumption', label: 'Used in production', direction: -1 },
+  { value: 'loss', label: 'Loss', direction: -1 },
+  { value: 'count', label: 'Stock count', direction: 0 }
+];
+
+export type InventoryNodeType = 'collection_center' | 'processing_plant';
+
+export interface InventoryNode {
+  id: string;
+  name: string;
+  type: InventoryNodeType;
+  milkCapacity: number; // tank or silo liters; 0 when unknown
+  finishedCapacity: number; // cold store L or kg; 0 for centers and when unknown
+}
+
+export interface StockPoint {
+  at: string;
+  level: number;
+  movement?: InventoryMovement; // absent on the opening point
+}
+
+export interface StockSeries {
+  productId: string | null; // null = raw milk
+  opening: number;
+  closing: number;
+  points: StockPoint[];
+}
+
+export interface InventoryWarning {
+  kind: 'overflow' | 'stock_out';
+  nodeId: string;
+  nodeName: string;
+  productId: string | null;
+  at: string;
+  level: number;
+  capacity?: number;
+  message: string;
+}
+
+export interface NodeInventory {
+  node: InventoryNode;
+  milk: StockSeries;
+  finished: StockSeries[];
+  finishedTotal: StockPoint[]; // all products together, against the cold store
+  warnings: InventoryWarning[];
+}
+
+// Stock held when an optimization run starts, for seeding its inputs
+export interface StartingInventory {
+  at: string;
+  centerMilk: Record<string, number>; // liters by center id
+  plantMilk: Record<string, number>; // silo liters by plant id
+  plantStock: Record<string, Record<string, number>>; // finished units by plant, then product id
+}
+
+const EPSILON = 1e-6;
+
+const directionOf = (kind: string) => MOVEMENT_KINDS.find(k => k.value === kind)?.direction ?? 0;
+
+export const movementKindLabel = (kind: string) => MOVEMENT_KINDS.find(k => k.value === kind)?.label ?? kind;
+
+export const movementNodeId = (movement: Pick<InventoryMovement, 'center_id' | 'plant_id'>) =>
+  movement.center_id ?? movement.plant_id ?? '';
+
+const byTime = (a: InventoryMovement, b: InventoryMovement) =>
+  a.occurred_at.localeCompare(b.occurred_at) || (a.created_at ?? '').localeCompare(b.created_at ?? '');
+
+export const inventoryNodes = (centers: CollectionCenter[], plants: ProcessingPlant[]): InventoryNode[] => [
+  ...centers.map(center => ({
+    id: center.id,
+    name: center.name,
+    type: 'collection_center' as const,
+    milkCapacity: Number(center.storage_capacity_liters) || 0,
+    finishedCapacity: 0
+  })),
+  ...plants.map(plant => ({
+    id: plant.id,
+    name: plant.name,
+    type: 'processing_plant' as const,
+    milkCapacity: Number(plant.silo_capacity_liters) || 0,
+    finishedCapacity: Number(plant.finished_goods_capacity) || 0
+  }))
+];
+
+// Level after each movement, in time order, from an opening level
+export function stockSeries(productId: string | null, opening: number, movements: InventoryMovement[]): StockSeries {
+  let level = opening;
+  const points: StockPoint[] = [...movements].sort(byTime).map(movement => {
+    level = movement.kind === 'count'
+      ? Number(movement.quantity)
+      : level + directionOf(movement.kind) * Number(movement.quantity);
+    return { at: movement.occurred_at, level, movement };
+  });
+  return { productId, opening, closing: level, points };
+}
+
+// Sum of several series over time, stepping at every movement of any of them
+function combinedLevels(series: StockSeries[]): StockPoint[] {
+  const levels = new Map(series.map(s => [s.productId, s.opening]));
+  const total = () => [...levels.values()].reduce((sum, level) => sum + level, 0);
+  return series
+    .flatMap(s => s.points.map(point => ({ productId: s.productId, point })))
+    .sort((a, b) => byTime(a.point.movement!, b.point.movement!))
+    .map(({ productId, point }) => {
+      levels.set(productId, point.level);
+      return { at: point.at, level: total(), movement: point.movement };
+    });
+}
+
+/**
+ * Timelines of one node's stocks over a period: opening levels at its start
+ * (from inventory_levels) and the movements recorded after it.
+ */
+export function nodeInventory(
+  node: InventoryNode,
+  openingLevels: InventoryLevel[],
+  movements: InventoryMovement[]
+): NodeInventory {
+  const atNode = (row: { center_id: string | null; plant_id: string | null }) => (row.center_id ?? row.plant_id) === node.id;
+  const nodeLevels = openingLevels.filter(atNode);
+  const nodeMovements = movements.filter(atNode);
+  const opening = (productId: string | null) =>
+    Number(nodeLevels.find(level => (level.product_id ?? null) === productId)?.quantity ?? 0);
+
+  const milk = stockSeries(null, opening(null), nodeMovements.filter(m => m.product_id === null));
+  const productIds = [...new Set([
+    ...nodeLevels.map(level => level.product_id),
+    ...nodeMovements.map(movement => movement.product_id)
+  ].filter((id): id is string => !!id))].sort();
+  const finished = productIds.map(productId =>
+    stockSeries(productId, opening(productId), nodeMovements.filter(m => m.product_id === productId))
+  );
+  const finishedTotal = combinedLevels(finished);
+
+  const warnings: InventoryWarning[] = [];
+  const warn = (
+    kind: InventoryWarning['kind'],
+    productId: string | null,
+    points: StockPoint[],
+    breached: (level: number) => boolean,
+    message: (level: number) => string,
+    capacity?: number
+  ) => {
+    // One warning per episode: when the level first crosses the limit
+    let inBreach = false;
+    points.forEach(point => {
+      const now = breached(point.level);
+      if (now && !inBreach) {
+        warnings.push({
+          kind, nodeId: node.id, nodeName: node.name, productId, at: point.at, level: point.level, capacity,
+          message: message(point.level)
+        });
+      }
+      inBreach = now;
+    });
+  };
+
+  const milkStore = node.type === 'collection_center' ? 'tank' : 'silo';
+  if (node.milkCapacity > 0) {
+    warn('overflow', null, milk.points, level => level > node.milkCapacity + EPSILON,
+      level => `Milk ${milkStore} at ${Math.round(level).toLocaleString()} L, over its ${node.milkCapacity.toLocaleString()} L capacity`,
+      node.milkCapacity);
+  }
+  warn('stock_out', null, milk.points, level => level < -EPSILON,
+    level => `Milk ${milkStore} short by ${Math.round(-level).toLocaleString()} L: more drawn than recorded in`);
+  if (node.finishedCapacity > 0) {
+    warn('overflow', null, finishedTotal, level => level > node.finishedCapacity + EPSILON,
+      level => `Cold store at ${Math.round(level).toLocaleString()}, over its ${node.finishedCapacity.toLocaleString()} capacity`,
+      node.finishedCapacity);
+  }
+  finished.forEach(series => {
+    warn('stock_out', series.productId, series.points.filter(point => directionOf(point.movement!.kind) < 0),
+      level => level <= EPSILON,
+      level => level < -EPSILON
+        ? `${series.productId} short by ${Math.round(-level).toLocaleString()}: more dispatched than in stock`
+        : `${series.productId} out of stock`);
+  });
+
+  warnings.sort((a, b) => a.at.localeCompare(b.at));
+  return { node, milk, finished, finishedTotal, warnings };
+}
+
+// Current stocks for optimizers; levels below zero (unrecorded intake) count as empty
+export function startingInventory(levels: InventoryLevel[], at: string): StartingInventory {
+  const result: StartingInventory = { at, centerMilk: {}, plantMilk: {}, plantStock: {} };
+  levels.forEach(level => {
+    const quantity = Math.max(0, Number(level.quantity));
+    if (level.center_id) {
+      result.centerMilk[level.center_id] = quantity;
+    } else if (level.plant_id && !level.product_id) {
+      result.plantMilk[level.plant_id] = quantity;
+    } else if (level.plant_id && level.product_id) {
+      result.plantStock[level.plant_id] = { ...result.plantStock[level.plant_id], [level.product_id]: quantity };
+    }
+  });
+  return result;
+}
+
+/**
+ * Stock operations recorded from the tracker. Each becomes one or two
+ * movements sharing a transaction:
+ *   milk_transfer - dispatch from a center tank, receipt at a plant silo
+ *                   (received may be less than dispatched)
+ *   production    - milk used from the silo, product into the cold store
+ *   goods_dispatch - product out of the cold store to a distributor or outlet
+ *   count, loss   - a single stock at a node
+ */
+export type InventoryEntry =
+  | { type: 'milk_transfer'; centerId: string; plantId: string; dispatchedLiters: number; receivedLiters: number; occurredAt: string; notes?: string }
+  | { type: 'production'; plantId: string; productId: string; units: number; milkLiters: number; occurredAt: string; notes?: string }
+  | {
+    type: 'goods_dispatch'; plantId: string; productId: string; units: number;
+    destinationType: 'distributor' | 'retail'; destinationId: string; occurredAt: string; notes?: string;
+  }
+  | { type: 'count' | 'loss'; nodeType: InventoryNodeType; nodeId: string; productId: string | null; quantity: number; occurredAt: string; notes?: string };
+
+export const INVENTORY_ENTRY_TYPES: { value: InventoryEntry['type']; label: string }[] = [
+  { value: 'milk_transfer', label: 'Milk to plant' },
+  { value: 'production', label: 'Production run' },
+  { value: 'goods_dispatch', label: 'Goods dispatch' },
+  { value: 'count', label: 'Stock count' },
+  { value: 'loss', label: 'Loss / spoilage' }
+];
+
+// Problems with an entry; empty when it can be recorded
+export function validateInventoryEntry(entry: InventoryEntry): string[] {
+  const errors: string[] = [];
+  const positive = (value: number, label: string) => {
+    if (!Number.isFinite(value) || value <= 0) errors.push(`${label} must be positive`);
+  };
+  if (!entry.occurredAt || Number.isNaN(Date.parse(entry.occurredAt))) errors.push('Enter when it happened');
+
+  switch (entry.type) {
+    case 'milk_transfer':
+      if (!entry.centerId) errors.push('Choose a collection center');
+      if (!entry.plantId) errors.push('Choose a plant');
+      positive(entry.dispatchedLiters, 'Dispatched liters');
+      if (!Number.isFinite(entry.receivedLiters) || entry.receivedLiters < 0) errors.push('Received liters cannot be negative');
+      else if (entry.receivedLiters > entry.dispatchedLiters) errors.push('Received liters are more than were dispatched');
+      break;
+    case 'production':
+      if (!entry.plantId) errors.push('Choose a plant');
+      if (!entry.productId) errors.push('Choose a product');
+      positive(entry.units, 'Quantity produced');
+      positive(entry.milkLiters, 'Milk used');
+      break;
+    case 'goods_dispatch':
+      if (!entry.plantId) errors.push('Choose a plant');
+      if (!entry.productId) errors.push('Choose a product');
+      if (!entry.destinationId) errors.push('Choose where it goes');
+      positive(entry.units, 'Quantity');
+      break;
+    case 'count':
+    case 'loss':
+      if (!entry.nodeId) errors.push('Choose a location');
+      if (entry.nodeType === 'collection_center' && entry.productId) errors.push('Collection centers hold raw milk only');
+      if (entry.type === 'loss') positive(entry.quantity, 'Quantity lost');
+      else if (!Number.isFinite(entry.quantity) || entry.quantity < 0) errors.push('Counted quantity cannot be negative');
+      break;
+  }
+  return errors;
+}
+
+export function entryMovements(entry: InventoryEntry, transactionId: string): InventoryMovementInput[] {
+  const occurred_at = new Date(entry.occurredAt).toISOString();
+  const common = { transaction_id: transactionId, occurred_at, notes: entry.notes || null };
+
+  switch (entry.type) {
+    case 'milk_transfer':
+      return [
+        {
+          ...common, center_id: entry.centerId, kind: 'dispatch', quantity: entry.dispatchedLiters,
+          destination_type: 'processing_plant', destination_id: entry.plantId
+        },
+        { ...common, plant_id: entry.plantId, kind: 'receipt', quantity: entry.receivedLiters }
+      ];
+    case 'production':
+      return [
+        { ...common, plant_id: entry.plantId, kind: 'consumption', quantity: entry.milkLiters },
+        { ...common, plant_id: entry.plantId, product_id: entry.productId, kind: 'production', quantity: entry.units }
+      ];
+    case 'goods_dispatch':
+      return [{
+        ...common, plant_id: entry.plantId, product_id: entry.productId, kind: 'dispatch', quantity: entry.units,
+        destination_type: entry.destinationType, destination_id: entry.destinationId
+      }];
+    case 'count':
+    case 'loss':
+      return [{
+        ...common,
+        [entry.nodeType === 'collection_center' ? 'center_id' : 'plant_id']: entry.nodeId,
+        product_id: entry.productId,
+        kind: entry.type,
+        quantity: entry.quantity
+      }];
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Linear programming
+ *
+ * Dense two-phase simplex for the small planning models in this app (tens
+ * of variables and constraints). Variables are named and non-negative;
+ * constraints are ≤, ≥ or = rows over any subset of them. Phase 1 finds a
+ * feasible basis by minimizing artificial variables, phase 2 optimizes the
+ * objective from there. Bland's rule picks the pivots, so the method cannot
+ * cycle on degenerate problems.
+ */
+
+export interface LinearConstraint {
+  label?: string;
+  terms: Record<string, number>; // variable → coefficient
+  sense: '<=' | '>=' | '=';
+  rhs: number;
+}
+
+export interface LinearProgram {
+  direction: 'max' | 'min';
+  objective: Record<string, number>;
+  constraints: LinearConstraint[];
+}
+
+export interface LinearSolution {
+  status: 'optimal' | 'infeasible' | 'unbounded';
+  objective: number;
+  values: Record<string, number>;
+}
+
+const EPSILON = 1e-9;
+const MAX_PIVOTS = 50000;
+
+export function solveLinearProgram(problem: LinearProgram): LinearSolution {
+  const variables = [...new Set([
+    ...Object.keys(problem.objective),
+    ...problem.constraints.flatMap(c => Object.keys(c.terms))
+  ])];
+  const n = variables.length;
+  const index = new Map(variables.map((name, i) => [name, i]));
+
+  // Flip rows so every right-hand side is non-negative
+  const rows = problem.constraints.map(constraint => {
+    const flip = constraint.rhs < 0;
+    const sense = !flip ? constraint.sense : constraint.sense === '<=' ? '>=' : constraint.sense === '>=' ? '<=' : '=';
+    const coefficients = new Array<number>(n).fill(0);
+    Object.entries(constraint.terms).forEach(([name, value]) => {
+      coefficients[index.get(name)!] += flip ? -value : value;
+    });
+    return { coefficients, sense, rhs: Math.abs(constraint.rhs) };
+  });
+
+  // Columns: variables, then a slack or surplus per inequality, then an artificial per ≥ or = row
+  const slackCount = rows.filter(row => row.sense !== '=').length;
+  const artificialCount = rows.filter(row => row.sense !== '<=').length;
+  const columns = n + slackCount + artificialCount;
+  const firstArtificial = n + slackCount;
+  const m = rows.length;
+
+  const tableau: number[][] = [];
+  const basis: number[] = [];
+  let slack = n;
+  let artificial = firstArtificial;
+  rows.forEach(row => {
+    const line = new Array<number>(columns + 1).fill(0);
+    row.coefficients.forEach((value, j) => { line[j] = value; });
+    line[columns] = row.rhs;
+    if (row.sense === '<=') {
+      line[slack] = 1;
+      basis.push(slack++);
+    } else {
+      if (row.sense === '>=') line[slack++] = -1;
+      line[artificial] = 1;
+      basis.push(artificial++);
+    }
+    tableau.push(line);
+  });
+
+  const pivot = (objective: number[], row: number, column: number) => {
+    const pivotRow = tableau[row];
+    const value = pivotRow[column];
+    for (let j = 0; j <= columns; j++) pivotRow[j] /= value;
+    [...tableau, objective].forEach(line => {
+      if (line === pivotRow) return;
+      const factor = line[column];
+      if (Math.abs(factor) <= EPSILON) return;
+      for (let j = 0; j <= columns; j++) line[j] -= factor * pivotRow[j];
+    });
+    basis[row] = column;
+  };
+
+  // Maximizes the objective row (reduced costs, value in the last entry); false when unbounded
+  const optimize = (objective: number[], allowed: number): boolean => {
+    for (let pivots = 0; pivots < MAX_PIVOTS; pivots++) {
+      let entering = -1;
+      for (let j = 0; j < allowed; j++) {
+        if (objective[j] < -EPSILON) { entering = j; break; }
+      }
+      if (entering < 0) return true;
+
+      let leaving = -1;
+      let best = Infinity;
+      for (let i = 0; i < m; i++) {
+        const a = tableau[i][entering];
+        if (a <= EPSILON) continue;
+        const ratio = tableau[i][columns] / a;
+        if (ratio < best - EPSILON || (Math.abs(ratio - best) <= EPSILON && basis[i] < basis[leaving])) {
+          best = ratio;
+          leaving = i;
+        }
+      }
+      if (leaving < 0) return false;
+      pivot(objective, leaving, entering);
+    }
+    throw new Error('Linear program did not converge');
+  };
+
+  const objectiveRow = (costs: (j: number) => number) => {
+    const row = new Array<number>(columns + 1).fill(0);
+    for (let j = 0; j < columns; j++) row[j] = -costs(j);
+    basis.forEach((column, i) => {
+      const factor = row[column];
+      if (factor === 0) return;
+      for (let j = 0; j <= columns; j++) row[j] -= factor * tableau[i][j];
+    });
+    return row;
+  };
+
+  // Phase 1: maximize −Σ artificials
+  if (artificialCount > 0) {
+    const phase1 = objectiveRow(j => (j >= firstArtificial ? -1 : 0));
+    optimize(phase1, columns);
+    if (phase1[columns] < -1e-7 * Math.max(1, ...rows.map(row => row.rhs))) {
+      return { status: 'infeasible', objective: 0, values: {} };
+    }
+    // Drive artificials still in the basis (at zero) out where another column can replace them
+    basis.forEach((column, i) => {
+      if (column < firstArtificial) return;
+      const replacement = tableau[i].findIndex((value, j) => j < firstArtificial && Math.abs(value) > EPSILON);
+      if (replacement >= 0) pivot(phase1, i, replacement);
+    });
+  }
+
+  // Phase 2 on the original objective, artificials barred from entering
+  const sign = problem.direction === 'max' ? 1 : -1;
+  const costs = new Array<number>(columns).fill(0);
+  Object.entries(problem.objective).forEach(([name, value]) => { costs[index.get(name)!] = sign * value; });
+  const phase2 = objectiveRow(j => costs[j]);
+  if (!optimize(phase2, firstArtificial)) {
+    return { status: 'unbounded', objective: sign * Infinity, values: {} };
+  }
+
+  const values: Record<string, number> = Object.fromEntries(variables.map(name => [name, 0]));
+  basis.forEach((column, i) => {
+    if (column < n) values[variables[column]] = Math.max(0, tableau[i][columns]);
+  });
+  return { status: 'optimal', objective: sign * phase2[columns], values };
+}
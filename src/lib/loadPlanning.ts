@@ -0,0 +1,292 @@
+import type { DairyProduct, VehicleType } from '@/types/products';
+
+/**
+ * Product–vehicle compatibility and load planning
+ *
+ * A vehicle's cargo space is one or more temperature zones: its compartments
+ * when it has any, otherwise the whole body at the vehicle's temperature
+ * range (or uncontrolled for insulated and ambient vehicles). A product can
+ * go in a zone when the vehicle is suitable for its category and the zone
+ * can be held somewhere inside the product's storage range. Products can
+ * share a zone only when their storage ranges overlap, since a zone holds a
+ * single set point.
+ *
+ * Orders are packed first-fit decreasing: the most temperature-constrained
+ * and largest lines first, into open zones that can take them, opening a new
+ * vehicle when none can. Lines may be split across zones and vehicles.
+ */
+
+interface TemperatureRange {
+  min: number;
+  max: number;
+}
+
+export type TemperatureClass = 'frozen' | 'chilled' | 'cool' | 'ambient';
+
+// Classes by the warmest temperature a product tolerates, in packing order
+export const TEMPERATURE_CLASSES: { value: TemperatureClass; label: string; maxC: number }[] = [
+  { value: 'frozen', label: 'Frozen', maxC: -10 },
+  { value: 'chilled', label: 'Chilled', maxC: 8 },
+  { value: 'cool', label: 'Cool', maxC: 15 },
+  { value: 'ambient', label: 'Ambient', maxC: Infinity }
+];
+
+export const temperatureClassOf = (range: TemperatureRange): TemperatureClass =>
+  TEMPERATURE_CLASSES.find(c => range.max <= c.maxC)?.value ?? 'ambient';
+
+const classRank = (product: DairyProduct) =>
+  TEMPERATURE_CLASSES.findIndex(c => c.value === temperatureClassOf(product.temperatureRange));
+
+// Temperatures both ranges allow, or null when they are disjoint
+export const overlap = (a: TemperatureRange, b: TemperatureRange): TemperatureRange | null => {
+  const min = Math.max(a.min, b.min);
+  const max = Math.min(a.max, b.max);
+  return min <= max ? { min, max } : null;
+};
+
+export const formatRange = (range: TemperatureRange) => `${range.min} to ${range.max}°C`;
+
+export interface LoadZone {
+  name: string;
+  capacity: number; // liters
+  temperatureRange?: TemperatureRange; // undefined when the zone is not temperature controlled
+}
+
+export function vehicleZones(vehicle: VehicleType): LoadZone[] {
+  if (vehicle.compartments && vehicle.compartments.length > 0) {
+    return vehicle.compartments.map(c => ({ name: c.name, capacity: c.capacity, temperatureRange: c.temperatureRange }));
+  }
+  return [{
+    name: 'Cargo',
+    capacity: vehicle.capacity,
+    temperatureRange: vehicle.temperatureControl.canMaintain ? vehicle.temperatureControl.range : undefined
+  }];
+}
+
+// Why a product cannot go in a zone of a vehicle; empty when it can
+export function zoneRejections(product: DairyProduct, vehicle: VehicleType, zone: LoadZone): string[] {
+  const reasons: string[] = [];
+  if (!vehicle.suitableProducts.includes(product.category)) {
+    reasons.push(`${vehicle.name} is not suitable for ${product.category} products`);
+  }
+  const zoneLabel = vehicle.compartments?.length ? `its ${zone.name} compartment` : 'it';
+  if (zone.temperatureRange) {
+    if (!overlap(product.temperatureRange, zone.temperatureRange)) {
+      reasons.push(
+        `${product.name} needs ${formatRange(product.temperatureRange)} but ${zoneLabel} holds ${formatRange(zone.temperatureRange)}`
+      );
+    }
+  } else if (temperatureClassOf(product.temperatureRange) === 'frozen') {
+    reasons.push(`${product.name} must stay frozen but ${vehicle.name} has no temperature control`);
+  }
+  return reasons;
+}
+
+export interface Compatibility {
+  compatible: boolean;
+  zones: string[]; // zones that can take the product
+  reasons: string[]; // why no zone can, when incompatible
+}
+
+export function checkCompatibility(product: DairyProduct, vehicle: VehicleType): Compatibility {
+  const results = vehicleZones(vehicle).map(zone => ({ zone, reasons: zoneRejections(product, vehicle, zone) }));
+  const accepting = results.filter(r => r.reasons.length === 0);
+  return {
+    compatible: accepting.length > 0,
+    zones: accepting.map(r => r.zone.name),
+    reasons: accepting.length > 0 ? [] : [...new Set(results.flatMap(r => r.reasons))]
+  };
+}
+
+// Why two products cannot share a zone, or null when they can
+export function sharingConflict(a: DairyProduct, b: DairyProduct): string | null {
+  if (overlap(a.temperatureRange, b.temperatureRange)) return null;
+  return `${a.name} (${formatRange(a.temperatureRange)}) and ${b.name} (${formatRange(b.temperatureRange)}) ` +
+    'have no common temperature and need separate compartments or vehicles';
+}
+
+export interface OrderLine {
+  productId: string;
+  liters: number;
+}
+
+export interface FleetOption {
+  vehicleType: VehicleType;
+  available?: number; // vehicles of this type that can be loaded; unlimited when omitted
+}
+
+export interface LoadItem {
+  product: DairyProduct;
+  liters: number;
+}
+
+export interface CompartmentLoad {
+  zone: LoadZone;
+  items: LoadItem[];
+  liters: number;
+  setPoint?: TemperatureRange; // range satisfying every product in the zone
+}
+
+export interface VehicleLoad {
+  id: string;
+  vehicleType: VehicleType;
+  compartments: CompartmentLoad[];
+  liters: number;
+  utilization: number; // 0–1 of the vehicle's capacity
+}
+
+export interface UnplacedLine {
+  productId: string;
+  productName: string;
+  liters: number;
+  reasons: string[];
+}
+
+export interface RejectedCombination {
+  productId: string;
+  with: string; // the vehicle type or other product
+  reasons: string[];
+}
+
+export interface LoadPlan {
+  loads: VehicleLoad[];
+  unplaced: UnplacedLine[];
+  rejections: RejectedCombination[]; // incompatible pairs among the ordered products and offered vehicles
+  totalLiters: number;
+  placedLiters: number;
+}
+
+const EPSILON = 1e-6;
+
+const freeLiters = (compartment: CompartmentLoad) => compartment.zone.capacity - compartment.liters;
+
+// Whether a product can join a compartment with what is already in it
+function accepts(compartment: CompartmentLoad, product: DairyProduct, vehicle: VehicleType): boolean {
+  if (freeLiters(compartment) <= EPSILON) return false;
+  if (zoneRejections(product, vehicle, compartment.zone).length > 0) return false;
+  if (!compartment.zone.temperatureRange) return true;
+  return overlap(compartment.setPoint ?? compartment.zone.temperatureRange, product.temperatureRange) !== null;
+}
+
+function place(compartment: CompartmentLoad, product: DairyProduct, liters: number) {
+  const existing = compartment.items.find(item => item.product.id === product.id);
+  if (existing) existing.liters += liters;
+  else compartment.items.push({ product, liters });
+  compartment.liters += liters;
+  if (compartment.zone.temperatureRange) {
+    compartment.setPoint = overlap(compartment.setPoint ?? compartment.zone.temperatureRange, product.temperatureRange) ?? undefined;
+  }
+}
+
+// Liters of a product an empty vehicle of this type could take
+const capacityFor = (product: DairyProduct, vehicle: VehicleType) =>
+  vehicleZones(vehicle)
+    .filter(zone => zoneRejections(product, vehicle, zone).length === 0)
+    .reduce((sum, zone) => sum + zone.capacity, 0);
+
+export function planLoads(lines: OrderLine[], fleet: FleetOption[], products: DairyProduct[]): LoadPlan {
+  const unplaced: UnplacedLine[] = [];
+  const quantities = new Map<string, number>();
+  lines.filter(line => line.liters > 0).forEach(line => {
+    quantities.set(line.productId, (quantities.get(line.productId) ?? 0) + line.liters);
+  });
+
+  const items: LoadItem[] = [];
+  quantities.forEach((liters, productId) => {
+    const product = products.find(p => p.id === productId);
+    if (product) items.push({ product, liters });
+    else unplaced.push({ productId, productName: productId, liters, reasons: ['Not in the product catalog'] });
+  });
+  items.sort((a, b) => classRank(a.product) - classRank(b.product) || b.liters - a.liters);
+
+  const rejections: RejectedCombination[] = [];
+  items.forEach(({ product }) => {
+    fleet.forEach(({ vehicleType }) => {
+      const compatibility = checkCompatibility(product, vehicleType);
+      if (!compatibility.compatible) rejections.push({ productId: product.id, with: vehicleType.name, reasons: compatibility.reasons });
+    });
+  });
+  items.forEach(({ product: a }, i) => items.slice(i + 1).forEach(({ product: b }) => {
+    const conflict = sharingConflict(a, b);
+    if (conflict) rejections.push({ productId: a.id, with: b.name, reasons: [conflict] });
+  }));
+
+  const loads: VehicleLoad[] = [];
+  const used = new Map<string, number>();
+  const openVehicle = (vehicleType: VehicleType): VehicleLoad => {
+    const count = (used.get(vehicleType.id) ?? 0) + 1;
+    used.set(vehicleType.id, count);
+    const load: VehicleLoad = {
+      id: `${vehicleType.id}-${count}`,
+      vehicleType,
+      compartments: vehicleZones(vehicleType).map(zone => ({ zone, items: [], liters: 0 })),
+      liters: 0,
+      utilization: 0
+    };
+    loads.push(load);
+    return load;
+  };
+
+  const fillInto = (load: VehicleLoad, product: DairyProduct, liters: number): number => {
+    let remaining = liters;
+    load.compartments.forEach(compartment => {
+      if (remaining <= EPSILON || !accepts(compartment, product, load.vehicleType)) return;
+      const amount = Math.min(remaining, freeLiters(compartment));
+      place(compartment, product, amount);
+      load.liters += amount;
+      remaining -= amount;
+    });
+    return remaining;
+  };
+
+  items.forEach(({ product, liters }) => {
+    let remaining = liters;
+    for (const load of loads) {
+      if (remaining <= EPSILON) break;
+      remaining = fillInto(load, product, remaining);
+    }
+
+    while (remaining > EPSILON) {
+      const candidates = fleet
+        .filter(option => (option.available ?? Infinity) > (used.get(option.vehicleType.id) ?? 0))
+        .map(option => ({ vehicleType: option.vehicleType, capacity: capacityFor(product, option.vehicleType) }))
+        .filter(candidate => candidate.capacity > 0);
+      if (candidates.length === 0) {
+        const compatibleTypes = fleet.filter(option => checkCompatibility(product, option.vehicleType).compatible);
+        unplaced.push({
+          productId: product.id,
+          productName: product.name,
+          liters: remaining,
+          reasons: compatibleTypes.length > 0
+            ? [`All available ${compatibleTypes.map(o => o.vehicleType.name).join(', ')} vehicles are full`]
+            : fleet.length > 0
+              ? [...new Set(fleet.flatMap(option => checkCompatibility(product, option.vehicleType).reasons))]
+              : ['No vehicles offered']
+        });
+        break;
+      }
+
+      // The smallest vehicle that takes the rest, else the one taking the most; cheaper per km on ties
+      const fitting = candidates.filter(c => c.capacity >= remaining - EPSILON);
+      const pool = fitting.length > 0 ? fitting : candidates;
+      const chosen = pool.reduce((best, c) => {
+        const better = fitting.length > 0 ? c.capacity < best.capacity : c.capacity > best.capacity;
+        const tie = c.capacity === best.capacity && c.vehicleType.costPerKm < best.vehicleType.costPerKm;
+        return better || tie ? c : best;
+      });
+      remaining = fillInto(openVehicle(chosen.vehicleType), product, remaining);
+    }
+  });
+
+  loads.forEach(load => {
+    load.utilization = load.vehicleType.capacity > 0 ? load.liters / load.vehicleType.capacity : 0;
+  });
+  const totalLiters = [...quantities.values()].reduce((sum, liters) => sum + liters, 0);
+  return {
+    loads,
+    unplaced,
+    rejections,
+    totalLiters,
+    placedLiters: loads.reduce((sum, load) => sum + load.liters, 0)
+  };
+}
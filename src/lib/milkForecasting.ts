@@ -0,0 +1,214 @@
+import type { DairyFarm } from '@/services/dairyService';
+
+/**
+ * Milk volume forecasting
+ *
+ * A farm's daily collection is modelled as
+ *   liters = yield per animal × cattle_count × seasonal index of the month
+ * The seasonal index carries the flush (winter) and lean (summer) seasons:
+ * it starts from a South Indian prior and is re-estimated from the
+ * collection history of all farms, shrunk towards the prior where a month
+ * has few observations. Yield per animal gets a linear trend fitted to the
+ * farm's recent deseasonalized history.
+ *
+ * Farms without enough history fall back to daily_production_liters,
+ * treated as the farm's annual average and scaled by the seasonal index.
+ */
+
+export interface CollectionObservation {
+  date: string; // YYYY-MM-DD
+  liters: number;
+  cattleCount?: number | null;
+}
+
+export interface DailyVolumeForecast {
+  date: string;
+  liters: number;
+  lower: number;
+  upper: number;
+}
+
+export interface FarmVolumeForecast {
+  farmId: string;
+  farmName: string;
+  method: 'history' | 'nameplate';
+  nameplateLiters: number;
+  days: DailyVolumeForecast[];
+  averageLiters: number;
+  peakLiters: number;
+  trendPercentPerMonth: number; // yield trend; 0 for nameplate forecasts
+}
+
+export type PlanningVolumeBasis = 'nameplate' | 'forecast_average' | 'forecast_peak';
+
+export const PLANNING_VOLUME_BASES: { value: PlanningVolumeBasis; label: string }[] = [
+  { value: 'nameplate', label: 'Nameplate production' },
+  { value: 'forecast_average', label: 'Forecast average' },
+  { value: 'forecast_peak', label: 'Forecast peak day' }
+];
+
+export const DEFAULT_FORECAST_DAYS = 14;
+export const MIN_HISTORY_DAYS = 14; // fewer observations fall back to nameplate
+const TREND_WINDOW_DAYS = 90;
+const SEASONAL_PRIOR_WEIGHT = 60; // farm-days a month needs before history outweighs the prior
+const INTERVAL_Z = 1.645; // 90% interval
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Flush season Nov–Feb, lean season Apr–Jun, recovery through the monsoon
+const PRIOR_MONTHLY_INDEX = [1.15, 1.12, 1.05, 0.9, 0.8, 0.75, 0.85, 0.92, 0.98, 1.05, 1.12, 1.15];
+
+const monthOf = (date: string) => Number(date.slice(5, 7)) - 1;
+const dayNumber = (date: string) => Math.floor(new Date(`${date}T00:00:00Z`).getTime() / DAY_MS);
+const addDays = (date: string, days: number) =>
+  new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+
+function normalize(index: number[]): number[] {
+  const mean = index.reduce((sum, v) => sum + v, 0) / index.length;
+  return index.map(v => v / mean);
+}
+
+/**
+ * Monthly seasonal index (mean 1) from the history of many farms. Each
+ * farm's volumes are divided by its own mean first so large farms do not
+ * dominate.
+ */
+export function estimateSeasonalIndex(historyByFarm: Record<string, CollectionObservation[]>): number[] {
+  const prior = normalize(PRIOR_MONTHLY_INDEX);
+  const sums = Array(12).fill(0);
+  const counts = Array(12).fill(0);
+
+  Object.values(historyByFarm).forEach(history => {
+    if (history.length === 0) return;
+    // Remove the prior first so a farm observed only in some months is not read as seasonal
+    const deseasonalized = history.map(o => o.liters / prior[monthOf(o.date)]);
+    const mean = deseasonalized.reduce((sum, v) => sum + v, 0) / deseasonalized.length;
+    if (mean <= 0) return;
+    history.forEach(o => {
+      const month = monthOf(o.date);
+      sums[month] += o.liters / mean;
+      counts[month] += 1;
+    });
+  });
+
+  return normalize(prior.map((p, month) =>
+    (sums[month] + SEASONAL_PRIOR_WEIGHT * p) / (counts[month] + SEASONAL_PRIOR_WEIGHT)
+  ));
+}
+
+function nameplateForecast(farm: DairyFarm, startDate: string, days: number, seasonalIndex: number[]): FarmVolumeForecast {
+  const forecastDays = Array.from({ length: days }, (_, i) => {
+    const date = addDays(startDate, i);
+    const liters = farm.daily_production_liters * seasonalIndex[monthOf(date)];
+    return { date, liters, lower: liters, upper: liters };
+  });
+  return summarize(farm, 'nameplate', forecastDays, 0);
+}
+
+function summarize(
+  farm: DairyFarm,
+  method: FarmVolumeForecast['method'],
+  days: DailyVolumeForecast[],
+  trendPercentPerMonth: number
+): FarmVolumeForecast {
+  return {
+    farmId: farm.id,
+    farmName: farm.name,
+    method,
+    nameplateLiters: farm.daily_production_liters,
+    days,
+    averageLiters: days.reduce((sum, d) => sum + d.liters, 0) / Math.max(days.length, 1),
+    peakLiters: days.reduce((max, d) => Math.max(max, d.liters), 0),
+    trendPercentPerMonth
+  };
+}
+
+/**
+ * Daily forecast for one farm starting at startDate. History may be in any
+ * order and have gaps.
+ */
+export function forecastFarmVolume(
+  farm: DairyFarm,
+  history: CollectionObservation[],
+  seasonalIndex: number[],
+  startDate: string,
+  days: number = DEFAULT_FORECAST_DAYS
+): FarmVolumeForecast {
+  const recent = [...history]
+    .filter(o => o.date < startDate)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .filter((o, _, all) => dayNumber(o.date) > dayNumber(all[all.length - 1].date) - TREND_WINDOW_DAYS);
+
+  if (recent.length < MIN_HISTORY_DAYS) {
+    return nameplateForecast(farm, startDate, days, seasonalIndex);
+  }
+
+  // Yield per animal per day, seasonality removed; herds of unknown size count as one
+  const herdOf = (o: CollectionObservation) => Math.max(o.cattleCount ?? farm.cattle_count ?? 0, 0) || 1;
+  const points = recent.map(o => ({
+    x: dayNumber(o.date),
+    y: o.liters / herdOf(o) / seasonalIndex[monthOf(o.date)]
+  }));
+
+  // Least-squares line through the recent yields
+  const n = points.length;
+  const meanX = points.reduce((sum, p) => sum + p.x, 0) / n;
+  const meanY = points.reduce((sum, p) => sum + p.y, 0) / n;
+  const sxx = points.reduce((sum, p) => sum + (p.x - meanX) ** 2, 0);
+  const slope = sxx > 0 ? points.reduce((sum, p) => sum + (p.x - meanX) * (p.y - meanY), 0) / sxx : 0;
+  const intercept = meanY - slope * meanX;
+  const residualSd = Math.sqrt(
+    points.reduce((sum, p) => sum + (p.y - (intercept + slope * p.x)) ** 2, 0) / Math.max(n - 2, 1)
+  );
+
+  const herd = Math.max(farm.cattle_count ?? 0, 0) || herdOf(recent[recent.length - 1]);
+  const forecastDays = Array.from({ length: days }, (_, i) => {
+    const date = addDays(startDate, i);
+    const scale = herd * seasonalIndex[monthOf(date)];
+    const yieldPerAnimal = Math.max(0, intercept + slope * dayNumber(date));
+    const margin = INTERVAL_Z * residualSd * scale;
+    const liters = yieldPerAnimal * scale;
+    return { date, liters, lower: Math.max(0, liters - margin), upper: liters + margin };
+  });
+
+  return summarize(farm, 'history', forecastDays, meanY > 0 ? slope * 30 / meanY * 100 : 0);
+}
+
+export function forecastFarmVolumes(
+  farms: DairyFarm[],
+  historyByFarm: Record<string, CollectionObservation[]>,
+  startDate: string,
+  days: number = DEFAULT_FORECAST_DAYS
+): FarmVolumeForecast[] {
+  const seasonalIndex = estimateSeasonalIndex(historyByFarm);
+  return farms.map(farm => forecastFarmVolume(farm, historyByFarm[farm.id] ?? [], seasonalIndex, startDate, days));
+}
+
+// Network total per day, summed over farms (intervals are added, i.e. treated as fully correlated)
+export function totalDailyForecast(forecasts: FarmVolumeForecast[]): DailyVolumeForecast[] {
+  const byDate = new Map<string, DailyVolumeForecast>();
+  forecasts.forEach(forecast => forecast.days.forEach(day => {
+    const total = byDate.get(day.date) ?? { date: day.date, liters: 0, lower: 0, upper: 0 };
+    byDate.set(day.date, {
+      date: day.date,
+      liters: total.liters + day.liters,
+      lower: total.lower + day.lower,
+      upper: total.upper + day.upper
+    });
+  }));
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Farm supply the optimizers should plan against, keyed by farm id.
+ * Nameplate returns nothing so callers keep daily_production_liters.
+ */
+export function planningVolumes(
+  forecasts: FarmVolumeForecast[],
+  basis: PlanningVolumeBasis
+): Record<string, number> | undefined {
+  if (basis === 'nameplate') return undefined;
+  return Object.fromEntries(forecasts.map(f => [
+    f.farmId,
+    Math.round(basis === 'forecast_peak' ? f.peakLiters : f.averageLiters)
+  ]));
+}
@@ -0,0 +1,318 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { DairyFarm } from '@/services/dairyService';
+import { acceptedLiters, COLLECTION_SHIFTS, type CollectionShift, type MilkCollection } from '@/lib/milkQuality';
+
+/**
+ * Farmer payments
+ *
+ * Each accepted liter is paid at the rate card cell for its fat and SNF
+ * (readings outside the chart are clamped to its edge, missing readings get
+ * the lowest cell). Organic certified farms earn the card's bonus on top, per
+ * liter and/or as a percentage of the base amount. Deductions dated within
+ * the billing cycle are recovered from the gross; whatever the gross cannot
+ * cover is reported as outstanding, to be recorded again against a later
+ * cycle, rather than paid as a negative amount.
+ *
+ * Billing cycles follow the calendar month: 1–10, 11–20, 21–end for 10-day
+ * cycles and 1–15, 16–end for 15-day cycles.
+ */
+
+export type MilkRateCard = Tables<'milk_rate_cards'>;
+export type PaymentDeduction = Tables<'farm_payment_deductions'>;
+export type CycleLength = 10 | 15;
+
+export const DEDUCTION_CATEGORIES = [
+  { value: 'cattle_feed', label: 'Cattle feed' },
+  { value: 'veterinary', label: 'Veterinary services' },
+  { value: 'advance', label: 'Cash advance' },
+  { value: 'loan', label: 'Loan instalment' },
+  { value: 'share_capital', label: 'Share capital' },
+  { value: 'other', label: 'Other' }
+] as const;
+
+export interface RateChart {
+  fatSteps: number[];
+  snfSteps: number[];
+  rates: number[][]; // [fat step][snf step], ₹ per liter
+}
+
+export interface RateChartSpec {
+  fatFrom: number;
+  fatTo: number;
+  fatStep: number;
+  snfFrom: number;
+  snfTo: number;
+  snfStep: number;
+  baseRate: number; // at fatFrom / snfFrom
+  fatPremium: number; // per 0.1% fat above fatFrom
+  snfPremium: number; // per 0.1% SNF above snfFrom
+}
+
+// A typical cooperative chart for mixed milk
+export const DEFAULT_RATE_CHART_SPEC: RateChartSpec = {
+  fatFrom: 3.0,
+  fatTo: 7.0,
+  fatStep: 0.5,
+  snfFrom: 8.0,
+  snfTo: 9.0,
+  snfStep: 0.25,
+  baseRate: 28,
+  fatPremium: 0.4,
+  snfPremium: 0.3
+};
+
+const round = (value: number, decimals: number = 2) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+function steps(from: number, to: number, step: number): number[] {
+  const count = Math.floor(round((to - from) / step, 6)) + 1;
+  return Array.from({ length: Math.max(count, 1) }, (_, i) => round(from + i * step));
+}
+
+// Fills a chart linearly from a base rate and per-0.1% premiums; cells can be edited afterwards
+export function buildRateChart(spec: RateChartSpec): RateChart {
+  const fatSteps = steps(spec.fatFrom, spec.fatTo, spec.fatStep);
+  const snfSteps = steps(spec.snfFrom, spec.snfTo, spec.snfStep);
+  return {
+    fatSteps,
+    snfSteps,
+    rates: fatSteps.map(fat => snfSteps.map(snf => round(
+      spec.baseRate + (fat - spec.fatFrom) * 10 * spec.fatPremium + (snf - spec.snfFrom) * 10 * spec.snfPremium
+    )))
+  };
+}
+
+export function rateChartOf(card: Pick<MilkRateCard, 'fat_steps' | 'snf_steps' | 'rates'>): RateChart {
+  return {
+    fatSteps: card.fat_steps.map(Number),
+    snfSteps: card.snf_steps.map(Number),
+    rates: (card.rates as number[][]).map(row => row.map(Number))
+  };
+}
+
+// Problems that would make the chart unusable; an empty list means it can be saved
+export function validateRateChart(chart: RateChart): string[] {
+  const errors: string[] = [];
+  const ascending = (values: number[]) => values.every((v, i) => i === 0 || v > values[i - 1]);
+
+  if (chart.fatSteps.length === 0 || chart.snfSteps.length === 0) errors.push('The chart needs at least one fat and one SNF step');
+  if (!ascending(chart.fatSteps)) errors.push('Fat steps must increase');
+  if (!ascending(chart.snfSteps)) errors.push('SNF steps must increase');
+  if (chart.rates.length !== chart.fatSteps.length || chart.rates.some(row => row.length !== chart.snfSteps.length)) {
+    errors.push('The rate grid must have one row per fat step and one column per SNF step');
+  }
+  if (chart.rates.some(row => row.some(rate => !(rate >= 0)))) errors.push('Rates must be zero or more');
+  return errors;
+}
+
+// Index of the last step at or below the value, clamped to the chart
+function stepIndex(stepsAxis: number[], value: number | null | undefined): { index: number; clamped: boolean } {
+  if (value == null) return { index: 0, clamped: true };
+  let index = 0;
+  stepsAxis.forEach((step, i) => { if (value >= step) index = i; });
+  return { index, clamped: value < stepsAxis[0] };
+}
+
+export function rateFor(chart: RateChart, fatPercent?: number | null, snfPercent?: number | null) {
+  const fat = stepIndex(chart.fatSteps, fatPercent);
+  const snf = stepIndex(chart.snfSteps, snfPercent);
+  return { rate: chart.rates[fat.index][snf.index], belowChart: fat.clamped || snf.clamped };
+}
+
+// The active card in force on a date
+export function rateCardOn(cards: MilkRateCard[], date: string): MilkRateCard | undefined {
+  return cards
+    .filter(card => card.is_active && card.effective_from <= date)
+    .sort((a, b) => b.effective_from.localeCompare(a.effective_from))[0];
+}
+
+export interface BillingCycle {
+  start: string; // YYYY-MM-DD, inclusive
+  end: string;
+  label: string;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+// The cycle containing the date
+export function billingCycle(date: string, cycleLength: CycleLength): BillingCycle {
+  const [year, month, day] = date.split('-').map(Number);
+  const daysInMonth = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  // The last cycle of the month absorbs the 29th–31st
+  const lastIndex = 30 / cycleLength - 1;
+  const index = Math.min(Math.floor((day - 1) / cycleLength), lastIndex);
+  const startDay = index * cycleLength + 1;
+  const endDay = index === lastIndex ? daysInMonth : startDay + cycleLength - 1;
+  const prefix = date.slice(0, 8);
+  const pad = (d: number) => String(d).padStart(2, '0');
+  return {
+    start: prefix + pad(startDay),
+    end: prefix + pad(endDay),
+    label: `${startDay}–${endDay} ${MONTHS[month - 1]} ${year}`
+  };
+}
+
+// The latest cycles up to and including the one containing the date, newest first
+export function recentBillingCycles(date: string, cycleLength: CycleLength, count: number): BillingCycle[] {
+  const cycles: BillingCycle[] = [];
+  let cycle = billingCycle(date, cycleLength);
+  while (cycles.length < count) {
+    cycles.push(cycle);
+    const previousDay = new Date(new Date(`${cycle.start}T00:00:00Z`).getTime() - 24 * 60 * 60 * 1000);
+    cycle = billingCycle(previousDay.toISOString().slice(0, 10), cycleLength);
+  }
+  return cycles;
+}
+
+export interface StatementLine {
+  date: string;
+  shift: string;
+  liters: number; // accepted
+  fatPercent: number | null;
+  snfPercent: number | null;
+  rate: number;
+  amount: number;
+  belowChart: boolean;
+}
+
+export interface PaymentStatement {
+  farmId: string;
+  farmName: string;
+  contactPerson: string | null;
+  organic: boolean;
+  cycle: BillingCycle;
+  rateCardName: string;
+  lines: StatementLine[];
+  liters: number;
+  averageFatPercent: number | null;
+  averageSnfPercent: number | null;
+  baseAmount: number;
+  organicBonus: number;
+  grossAmount: number;
+  deductions: PaymentDeduction[];
+  deductionTotal: number;
+  recovered: number; // deductions taken from this cycle's gross
+  outstanding: number; // deductions the gross could not cover
+  netPayable: number;
+}
+
+const shiftOrder = (shift: string) => COLLECTION_SHIFTS.indexOf(shift as CollectionShift);
+
+function weighted(lines: StatementLine[], value: (line: StatementLine) => number | null): number | null {
+  const measured = lines.filter(line => value(line) != null && line.liters > 0);
+  const liters = measured.reduce((sum, line) => sum + line.liters, 0);
+  return liters > 0 ? measured.reduce((sum, line) => sum + value(line)! * line.liters, 0) / liters : null;
+}
+
+export function buildPaymentStatement(
+  farm: DairyFarm,
+  collections: MilkCollection[],
+  deductions: PaymentDeduction[],
+  card: MilkRateCard,
+  cycle: BillingCycle
+): PaymentStatement {
+  const chart = rateChartOf(card);
+  const inCycle = (date: string) => date >= cycle.start && date <= cycle.end;
+
+  const lines = collections
+    .filter(entry => entry.farm_id === farm.id && inCycle(entry.collection_date))
+    .sort((a, b) => a.collection_date.localeCompare(b.collection_date) || shiftOrder(a.shift) - shiftOrder(b.shift))
+    .map(entry => {
+      const liters = acceptedLiters(entry);
+      const fat = entry.fat_percent != null ? Number(entry.fat_percent) : null;
+      const snf = entry.snf_percent != null ? Number(entry.snf_percent) : null;
+      const { rate, belowChart } = rateFor(chart, fat, snf);
+      return {
+        date: entry.collection_date,
+        shift: entry.shift,
+        liters,
+        fatPercent: fat,
+        snfPercent: snf,
+        rate,
+        amount: round(liters * rate),
+        belowChart
+      };
+    });
+
+  const liters = lines.reduce((sum, line) => sum + line.liters, 0);
+  const baseAmount = round(lines.reduce((sum, line) => sum + line.amount, 0));
+  const organic = !!farm.organic_certified;
+  const organicBonus = organic
+    ? round(liters * Number(card.organic_bonus_per_liter) + baseAmount * Number(card.organic_bonus_percent) / 100)
+    : 0;
+  const grossAmount = round(baseAmount + organicBonus);
+
+  const farmDeductions = deductions
+    .filter(deduction => deduction.farm_id === farm.id && inCycle(deduction.deduction_date))
+    .sort((a, b) => a.deduction_date.localeCompare(b.deduction_date));
+  const deductionTotal = round(farmDeductions.reduce((sum, deduction) => sum + Number(deduction.amount), 0));
+  const recovered = Math.min(deductionTotal, grossAmount);
+
+  return {
+    farmId: farm.id,
+    farmName: farm.name,
+    contactPerson: farm.contact_person,
+    organic,
+    cycle,
+    rateCardName: card.name,
+    lines,
+    liters,
+    averageFatPercent: weighted(lines, line => line.fatPercent),
+    averageSnfPercent: weighted(lines, line => line.snfPercent),
+    baseAmount,
+    organicBonus,
+    grossAmount,
+    deductions: farmDeductions,
+    deductionTotal,
+    recovered,
+    outstanding: round(deductionTotal - recovered),
+    netPayable: round(grossAmount - recovered)
+  };
+}
+
+// One statement per farm that supplied milk or owes deductions in the cycle
+export function buildPaymentStatements(
+  farms: DairyFarm[],
+  collections: MilkCollection[],
+  deductions: PaymentDeduction[],
+  card: MilkRateCard,
+  cycle: BillingCycle
+): PaymentStatement[] {
+  return farms
+    .map(farm => buildPaymentStatement(farm, collections, deductions, card, cycle))
+    .filter(statement => statement.lines.length > 0 || statement.deductions.length > 0)
+    .sort((a, b) => a.farmName.localeCompare(b.farmName));
+}
+
+export const deductionLabel = (category: string) =>
+  DEDUCTION_CATEGORIES.find(c => c.value === category)?.label ?? category;
+
+// Payment register: one row per farm, for the bank transfer sheet
+export function paymentRegisterRows(statements: PaymentStatement[]): (string | number)[][] {
+  return [
+    ['farm_id', 'farm_name', 'contact_person', 'cycle_start', 'cycle_end', 'liters', 'avg_fat_percent', 'avg_snf_percent',
+      'base_amount', 'organic_bonus', 'gross_amount', 'deductions', 'outstanding', 'net_payable'],
+    ...statements.map(s => [
+      s.farmId, s.farmName, s.contactPerson ?? '', s.cycle.start, s.cycle.end, round(s.liters, 1),
+      s.averageFatPercent != null ? round(s.averageFatPercent) : '',
+      s.averageSnfPercent != null ? round(s.averageSnfPercent) : '',
+      s.baseAmount, s.organicBonus, s.grossAmount, s.recovered, s.outstanding, s.netPayable
+    ])
+  ];
+}
+
+// A single farm's statement: collection lines, then deductions and totals
+export function statementRows(statement: PaymentStatement): (string | number)[][] {
+  return [
+    ['date', 'shift', 'liters', 'fat_percent', 'snf_percent', 'rate', 'amount'],
+    ...statement.lines.map(line => [
+      line.date, line.shift, round(line.liters, 1), line.fatPercent ?? '', line.snfPercent ?? '', line.rate, line.amount
+    ]),
+    [],
+    ...statement.deductions.map(d => [d.deduction_date, deductionLabel(d.category), '', '', '', '', -Number(d.amount)]),
+    ['', 'Base amount', '', '', '', '', statement.baseAmount],
+    ['', 'Organic bonus', '', '', '', '', statement.organicBonus],
+    ['', 'Deductions recovered', '', '', '', '', -statement.recovered],
+    ['', 'Outstanding deductions', '', '', '', '', statement.outstanding],
+    ['', 'Net payable', '', '', '', '', statement.netPayable]
+  ];
+}
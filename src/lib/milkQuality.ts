@@ -0,0 +1,168 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { ImportPreview } from '@/lib/dataImport';
+
+/**
+ * Milk collection quality
+ *
+ * Checks an entry against the FSSAI minimums for the farm's milk (cow,
+ * buffalo or mixed) and the receipt temperature limit, and rolls entries up
+ * into per-farm and per-center summaries. Fat and SNF averages are weighted
+ * by accepted volume, as they would be for payment.
+ */
+
+export type MilkCollection = Tables<'milk_collections'>;
+export type CollectionShift = 'morning' | 'evening';
+
+export const COLLECTION_SHIFTS: CollectionShift[] = ['morning', 'evening'];
+
+export const REJECTION_REASONS = [
+  { value: 'sour', label: 'Sour / failed clot-on-boiling' },
+  { value: 'high_temperature', label: 'Received too warm' },
+  { value: 'low_fat_snf', label: 'Fat or SNF below standard' },
+  { value: 'adulteration', label: 'Adulteration detected' },
+  { value: 'contamination', label: 'Contamination / foreign matter' },
+  { value: 'other', label: 'Other' }
+] as const;
+
+export type RejectionReason = typeof REJECTION_REASONS[number]['value'];
+
+interface MilkStandard {
+  minFatPercent: number;
+  minSnfPercent: number;
+}
+
+// FSSAI minimums; dairy, organic and unknown farm types are treated as mixed milk
+const MILK_STANDARDS: Record<string, MilkStandard> = {
+  cow: { minFatPercent: 3.2, minSnfPercent: 8.3 },
+  buffalo: { minFatPercent: 5.0, minSnfPercent: 9.0 },
+  mixed: { minFatPercent: 4.5, minSnfPercent: 8.5 }
+};
+
+// Raw milk should reach the center within a few hours and below this
+export const MAX_RECEIPT_TEMPERATURE_C = 10;
+
+export function milkStandard(farmType?: string): MilkStandard {
+  return MILK_STANDARDS[farmType ?? ''] ?? MILK_STANDARDS.mixed;
+}
+
+export interface QualityReading {
+  volume_liters: number;
+  fat_percent?: number | null;
+  snf_percent?: number | null;
+  temperature_celsius?: number | null;
+  rejected_liters?: number | null;
+  rejection_reason?: string | null;
+}
+
+// Problems with an entry; warnings describe milk that may need rejecting, errors block saving
+export function checkCollection(entry: QualityReading, farmType?: string): { errors: string[]; warnings: string[] } {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const standard = milkStandard(farmType);
+  const rejected = entry.rejected_liters ?? 0;
+
+  if (!(entry.volume_liters >= 0)) errors.push('Volume must be zero or more');
+  if (rejected < 0 || rejected > entry.volume_liters) errors.push('Rejected liters must be between 0 and the volume received');
+  if (rejected > 0 && !entry.rejection_reason) errors.push('Give a reason for the rejected milk');
+
+  if (entry.fat_percent != null && entry.fat_percent < standard.minFatPercent) {
+    warnings.push(`Fat ${entry.fat_percent}% is below the ${standard.minFatPercent}% minimum`);
+  }
+  if (entry.snf_percent != null && entry.snf_percent < standard.minSnfPercent) {
+    warnings.push(`SNF ${entry.snf_percent}% is below the ${standard.minSnfPercent}% minimum`);
+  }
+  if (entry.temperature_celsius != null && entry.temperature_celsius > MAX_RECEIPT_TEMPERATURE_C) {
+    warnings.push(`Received at ${entry.temperature_celsius}°C, above ${MAX_RECEIPT_TEMPERATURE_C}°C`);
+  }
+
+  return { errors, warnings };
+}
+
+export const acceptedLiters = (entry: Pick<MilkCollection, 'volume_liters' | 'rejected_liters'>) =>
+  Number(entry.volume_liters) - Number(entry.rejected_liters ?? 0);
+
+export interface CollectionSummary {
+  id: string; // farm or center id
+  entries: number;
+  days: number;
+  receivedLiters: number;
+  acceptedLiters: number;
+  rejectedLiters: number;
+  rejectionRatePercent: number;
+  averageFatPercent: number | null;
+  averageSnfPercent: number | null;
+  averageTemperatureC: number | null;
+  rejectionsByReason: Record<string, number>; // liters
+}
+
+function weightedAverage(entries: MilkCollection[], value: (e: MilkCollection) => number | null): number | null {
+  let weight = 0;
+  let total = 0;
+  entries.forEach(entry => {
+    const v = value(entry);
+    const liters = acceptedLiters(entry);
+    if (v == null || liters <= 0) return;
+    weight += liters;
+    total += v * liters;
+  });
+  return weight > 0 ? total / weight : null;
+}
+
+export function summarizeCollections(entries: MilkCollection[], groupBy: 'farm_id' | 'center_id'): CollectionSummary[] {
+  const groups = new Map<string, MilkCollection[]>();
+  entries.forEach(entry => {
+    const key = entry[groupBy];
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(entry);
+  });
+
+  return [...groups.entries()].map(([id, group]) => {
+    const receivedLiters = group.reduce((sum, e) => sum + Number(e.volume_liters), 0);
+    const rejectedLiters = group.reduce((sum, e) => sum + Number(e.rejected_liters ?? 0), 0);
+    const temperatures = group.map(e => e.temperature_celsius).filter((t): t is number => t != null).map(Number);
+    const rejectionsByReason: Record<string, number> = {};
+    group.filter(e => Number(e.rejected_liters) > 0).forEach(e => {
+      const reason = e.rejection_reason ?? 'other';
+      rejectionsByReason[reason] = (rejectionsByReason[reason] ?? 0) + Number(e.rejected_liters);
+    });
+
+    return {
+      id,
+      entries: group.length,
+      days: new Set(group.map(e => e.collection_date)).size,
+      receivedLiters,
+      acceptedLiters: receivedLiters - rejectedLiters,
+      rejectedLiters,
+      rejectionRatePercent: receivedLiters > 0 ? rejectedLiters / receivedLiters * 100 : 0,
+      averageFatPercent: weightedAverage(group, e => e.fat_percent),
+      averageSnfPercent: weightedAverage(group, e => e.snf_percent),
+      averageTemperatureC: temperatures.length > 0
+        ? temperatures.reduce((sum, t) => sum + t, 0) / temperatures.length
+        : null,
+      rejectionsByReason
+    };
+  }).sort((a, b) => b.acceptedLiters - a.acceptedLiters);
+}
+
+// Accepted and rejected liters per day and shift, oldest first
+export function dailyCollectionTotals(entries: MilkCollection[]) {
+  const byDate = new Map<string, { date: string; morning: number; evening: number; rejected: number }>();
+  entries.forEach(entry => {
+    const day = byDate.get(entry.collection_date) ?? { date: entry.collection_date, morning: 0, evening: 0, rejected: 0 };
+    if (entry.shift === 'evening') day.evening += acceptedLiters(entry);
+    else day.morning += acceptedLiters(entry);
+    day.rejected += Number(entry.rejected_liters ?? 0);
+    byDate.set(entry.collection_date, day);
+  });
+  return [...byDate.values()].sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// Adds the cross-field checks the generic import validation cannot express
+export function checkCollectionImport(preview: ImportPreview): ImportPreview {
+  const rows = preview.rows.map(row => {
+    const { errors } = checkCollection(row.record as unknown as QualityReading);
+    return errors.length > 0 ? { ...row, errors: [...row.errors, ...errors] } : row;
+  });
+  const validCount = preview.missingHeaders.length > 0 ? 0 : rows.filter(r => r.errors.length === 0).length;
+  return { ...preview, rows, validCount, rejectedCount: rows.length - validCount };
+}
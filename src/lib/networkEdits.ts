@@ -0,0 +1,152 @@
+import type { DairyFarm, CollectionCenter, ProcessingPlant, Distributor, RetailOutlet, TransportRoute } from '@/services/dairyService';
+
+/**
+ * Network edits
+ *
+ * A change to network master data is kept as the record before and after
+ * it: a create has no before, a delete no after. Swapping the two gives the
+ * edit that reverts it, which is all the undo/redo stack in
+ * hooks/useNetworkEditor needs. Deletes keep the whole record so an undo
+ * re-creates it under the same id and routes still point at it.
+ */
+
+export type NetworkTable =
+  | 'dairy_farms'
+  | 'collection_centers'
+  | 'processing_plants'
+  | 'distributors'
+  | 'retail_outlets'
+  | 'transport_routes';
+
+export interface NetworkRecords {
+  dairy_farms: DairyFarm;
+  collection_centers: CollectionCenter;
+  processing_plants: ProcessingPlant;
+  distributors: Distributor;
+  retail_outlets: RetailOutlet;
+  transport_routes: TransportRoute;
+}
+
+export type NetworkRecord = NetworkRecords[NetworkTable];
+
+export interface NetworkEdit<T extends NetworkTable = NetworkTable> {
+  table: T;
+  label: string; // shown on the undo/redo buttons, e.g. "Delete Kolar Dairy Cooperative"
+  before: NetworkRecords[T] | null;
+  after: NetworkRecords[T] | null;
+}
+
+export interface EditHistory {
+  past: NetworkEdit[]; // most recent last
+  future: NetworkEdit[]; // next redo first
+}
+
+export const EMPTY_HISTORY: EditHistory = { past: [], future: [] };
+export const MAX_HISTORY = 50;
+
+export function invertEdit<T extends NetworkTable>(edit: NetworkEdit<T>): NetworkEdit<T> {
+  return { ...edit, before: edit.after, after: edit.before };
+}
+
+// A new edit starts a new branch, so anything that could be redone is dropped
+export function recordEdit(history: EditHistory, edit: NetworkEdit): EditHistory {
+  return { past: [...history.past, edit].slice(-MAX_HISTORY), future: [] };
+}
+
+export function applyEditToRecords(records: NetworkRecord[], edit: NetworkEdit): NetworkRecord[] {
+  const { before, after } = edit;
+  if (!after) return records.filter(record => record.id !== before?.id);
+  if (!records.some(record => record.id === after.id)) return [...records, after];
+  return records.map(record => record.id === after.id ? after : record);
+}
+
+// Columns an update has to write
+export function changedFields<R extends object>(before: R, after: R): Partial<R> {
+  const changes: Partial<R> = {};
+  (Object.keys(after) as (keyof R)[]).forEach(key => {
+    if (key !== 'id' && JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changes[key] = after[key];
+    }
+  });
+  return changes;
+}
+
+// Map and node editor nodes that are stored in a table
+export type NetworkNodeType = 'farm' | 'collection_center' | 'processing_plant' | 'distributor' | 'retail';
+
+export const NODE_TYPE_TABLES: Record<NetworkNodeType, NetworkTable> = {
+  farm: 'dairy_farms',
+  collection_center: 'collection_centers',
+  processing_plant: 'processing_plants',
+  distributor: 'distributors',
+  retail: 'retail_outlets'
+};
+
+export function isNetworkNodeType(type: string): type is NetworkNodeType {
+  return type in NODE_TYPE_TABLES;
+}
+
+// Fields the node editor and map clicks can set
+export interface NodeFields {
+  name: string;
+  lat: number;
+  lng: number;
+  capacity?: number;
+  production?: number;
+  demand?: number;
+  district?: string;
+  contact?: string;
+  phone?: string;
+}
+
+export function nodeRecordFields(type: NetworkNodeType, fields: NodeFields): Partial<NetworkRecord> {
+  const capacity = fields.capacity ?? 0;
+  const common = {
+    name: fields.name,
+    location_lat: fields.lat,
+    location_lng: fields.lng,
+    district: fields.district || 'Unknown',
+    contact_person: fields.contact || null,
+    phone: fields.phone || null
+  };
+
+  switch (type) {
+    case 'farm':
+      return { ...common, daily_production_liters: fields.production ?? capacity };
+    case 'collection_center':
+      return { ...common, storage_capacity_liters: capacity };
+    case 'processing_plant':
+      return { ...common, processing_capacity_liters_per_day: capacity };
+    case 'distributor':
+    case 'retail':
+      return { ...common, storage_capacity_liters: capacity, daily_demand_liters: fields.demand ?? 0 };
+  }
+}
+
+/**
+ * Complete record for a node created from the editor. Columns the editor
+ * does not ask for get neutral defaults that can be refined later.
+ */
+export function newNodeRecord(type: NetworkNodeType, fields: NodeFields, id: string): NetworkRecord {
+  const base = { id, active: true, ...nodeRecordFields(type, fields) };
+
+  switch (type) {
+    case 'farm':
+      return { ...base, cattle_count: 0, farm_type: 'mixed', organic_certified: false } as DairyFarm;
+    case 'collection_center':
+      return { ...base, cooling_facility: true, collection_schedule: 'twice_daily', serves_villages: [] } as CollectionCenter;
+    case 'processing_plant':
+      return {
+        ...base, plant_type: 'pasteurization', products: [], silo_capacity_liters: 0, finished_goods_capacity: 0
+      } as ProcessingPlant;
+    case 'distributor':
+      return {
+        ...base, distributor_type: 'mixed', refrigerated_storage: true, frozen_storage: false, delivery_vehicles: 0
+      } as Distributor;
+    case 'retail':
+      return {
+        ...base, outlet_type: 'kirana', refrigerated_storage: true, frozen_storage: false,
+        product_demand: {}, receiving_from: '06:00', receiving_to: '10:00'
+      } as RetailOutlet;
+  }
+}
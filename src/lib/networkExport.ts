@@ -0,0 +1,218 @@
+import JSZip from 'jszip';
+import * as XLSX from 'xlsx';
+import { toCsv } from '@/lib/csv';
+import type { NetworkFlowPlan } from '@/lib/networkFlowOptimizer';
+import type {
+  DairyFarm,
+  CollectionCenter,
+  ProcessingPlant,
+  Distributor,
+  RetailOutlet,
+  TransportRoute,
+  DairyNetworkMetrics
+} from '@/services/dairyService';
+
+/**
+ * Network export formats
+ *
+ * The JSON document is the canonical format: it carries every column of
+ * every record, including ids, so importing it back restores the network
+ * exactly. CSV, XLSX and GeoJSON are derived views for spreadsheets and GIS
+ * tools and are not meant to be re-imported.
+ */
+
+export const NETWORK_EXPORT_FORMAT = 'dairy-network-export';
+// Version 2 added distributors and retail outlets
+export const NETWORK_EXPORT_VERSION = 2;
+
+export interface NetworkExport {
+  format: typeof NETWORK_EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  farms: DairyFarm[];
+  collectionCenters: CollectionCenter[];
+  processingPlants: ProcessingPlant[];
+  distributors: Distributor[];
+  retailOutlets: RetailOutlet[];
+  transportRoutes: TransportRoute[];
+  metrics?: DairyNetworkMetrics;
+  optimization?: {
+    flowPlan?: NetworkFlowPlan;
+  };
+}
+
+// Sheet / file name → records, in the order they must be restored
+type RecordSets = [string, Record<string, unknown>[]][];
+
+export function buildNetworkExport(data: Omit<NetworkExport, 'format' | 'version' | 'exportedAt'>): NetworkExport {
+  return {
+    format: NETWORK_EXPORT_FORMAT,
+    version: NETWORK_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...data
+  };
+}
+
+export function parseNetworkExport(text: string): NetworkExport {
+  let document: Partial<NetworkExport>;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  if (document?.format !== NETWORK_EXPORT_FORMAT) {
+    throw new Error('File is not a dairy network export');
+  }
+  if (typeof document.version !== 'number' || document.version > NETWORK_EXPORT_VERSION) {
+    throw new Error(`Unsupported export version ${document.version}; this app reads up to version ${NETWORK_EXPORT_VERSION}`);
+  }
+
+  // Version 1 exports predate the downstream tiers
+  if (document.version < 2) {
+    document.distributors = document.distributors ?? [];
+    document.retailOutlets = document.retailOutlets ?? [];
+  }
+
+  const sets = ['farms', 'collectionCenters', 'processingPlants', 'distributors', 'retailOutlets', 'transportRoutes'] as const;
+  sets.forEach(key => {
+    if (!Array.isArray(document[key])) throw new Error(`Export is missing the ${key} list`);
+  });
+
+  return document as NetworkExport;
+}
+
+function recordSets(data: NetworkExport): RecordSets {
+  const sets: RecordSets = [
+    ['farms', data.farms as unknown as Record<string, unknown>[]],
+    ['collection_centers', data.collectionCenters as unknown as Record<string, unknown>[]],
+    ['processing_plants', data.processingPlants as unknown as Record<string, unknown>[]],
+    ['distributors', data.distributors as unknown as Record<string, unknown>[]],
+    ['retail_outlets', data.retailOutlets as unknown as Record<string, unknown>[]],
+    ['transport_routes', data.transportRoutes as unknown as Record<string, unknown>[]]
+  ];
+
+  const plan = data.optimization?.flowPlan;
+  if (plan) {
+    sets.push(['flow_assignments', plan.assignments as unknown as Record<string, unknown>[]]);
+    sets.push(['facility_utilization', plan.feasibility.utilization as unknown as Record<string, unknown>[]]);
+    sets.push(['unserved_farms', plan.feasibility.unservedFarms as unknown as Record<string, unknown>[]]);
+  }
+
+  return sets;
+}
+
+// Union of keys in first-seen order, so sparse optional columns still get a header
+function toRows(records: Record<string, unknown>[]): unknown[][] {
+  const headers: string[] = [];
+  records.forEach(record => Object.keys(record).forEach(key => {
+    if (!headers.includes(key)) headers.push(key);
+  }));
+  return [headers, ...records.map(record => headers.map(header => record[header]))];
+}
+
+function summaryRows(data: NetworkExport): unknown[][] {
+  const rows: unknown[][] = [
+    ['format', data.format],
+    ['version', data.version],
+    ['exported_at', data.exportedAt],
+    ['farms', data.farms.length],
+    ['collection_centers', data.collectionCenters.length],
+    ['processing_plants', data.processingPlants.length],
+    ['distributors', data.distributors.length],
+    ['retail_outlets', data.retailOutlets.length],
+    ['transport_routes', data.transportRoutes.length]
+  ];
+  if (data.metrics) {
+    Object.entries(data.metrics).forEach(([key, value]) => rows.push([key, value]));
+  }
+  const plan = data.optimization?.flowPlan;
+  if (plan) {
+    rows.push(
+      ['plan_total_cost', plan.totalCost],
+      ['plan_total_distance_km', plan.totalDistance],
+      ['plan_routed_liters', plan.feasibility.totalRoutedLiters],
+      ['plan_unserved_liters', plan.feasibility.unservedLiters],
+      ['plan_feasible', plan.feasibility.feasible]
+    );
+  }
+  return [['key', 'value'], ...rows];
+}
+
+export function toNetworkJson(data: NetworkExport): string {
+  return JSON.stringify(data, null, 2);
+}
+
+export async function toCsvBundle(data: NetworkExport): Promise<Blob> {
+  const zip = new JSZip();
+  zip.file('summary.csv', toCsv(summaryRows(data)));
+  recordSets(data).forEach(([name, records]) => zip.file(`${name}.csv`, toCsv(toRows(records))));
+  return zip.generateAsync({ type: 'blob' });
+}
+
+export function toXlsxWorkbook(data: NetworkExport): ArrayBuffer {
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(summaryRows(data)), 'summary');
+
+  recordSets(data).forEach(([name, records]) => {
+    // Cells hold scalars only; lists are written the way the CSV templates expect them
+    const rows = toRows(records).map(row => row.map(value => Array.isArray(value) ? value.join(',') : value));
+    XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name.slice(0, 31));
+  });
+
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+}
+
+interface GeoJsonFeature {
+  type: 'Feature';
+  geometry:
+    | { type: 'Point'; coordinates: [number, number] }
+    | { type: 'LineString'; coordinates: [number, number][] };
+  properties: Record<string, unknown>;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  features: GeoJsonFeature[];
+}
+
+export function toGeoJson(data: NetworkExport): GeoJsonFeatureCollection {
+  const features: GeoJsonFeature[] = [];
+  const positions = new Map<string, [number, number]>(); // GeoJSON order: [lng, lat]
+
+  const addNodes = (nodeType: string, records: { id: string; location_lat: number; location_lng: number }[]) => {
+    records.forEach(record => {
+      const coordinates: [number, number] = [record.location_lng, record.location_lat];
+      positions.set(record.id, coordinates);
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates },
+        properties: { ...record, node_type: nodeType }
+      });
+    });
+  };
+
+  addNodes('farm', data.farms);
+  addNodes('collection_center', data.collectionCenters);
+  addNodes('processing_plant', data.processingPlants);
+  addNodes('distributor', data.distributors);
+  addNodes('retail', data.retailOutlets);
+
+  const addLine = (fromId: string, toId: string, properties: Record<string, unknown>) => {
+    const from = positions.get(fromId);
+    const to = positions.get(toId);
+    if (!from || !to) return; // endpoint not part of this export
+    features.push({
+      type: 'Feature',
+      geometry: { type: 'LineString', coordinates: [from, to] },
+      properties
+    });
+  };
+
+  data.transportRoutes.forEach(route => addLine(route.from_id, route.to_id, { ...route, feature_type: 'transport_route' }));
+  data.optimization?.flowPlan?.assignments.forEach(assignment =>
+    addLine(assignment.fromId, assignment.toId, { ...assignment, feature_type: 'planned_flow' })
+  );
+
+  return { type: 'FeatureCollection', features };
+}
@@ -0,0 +1,461 @@
+import { vehicleTypes } from '@/data/dairyProducts';
+import { createDistanceFunction, type DistanceMatrix } from '@/lib/geo';
+import type { VehicleType } from '@/types/products';
+import type { DairyFarm, CollectionCenter, ProcessingPlant, TransportRoute } from '@/services/dairyService';
+
+/**
+ * Capacitated multi-echelon network flow optimizer
+ *
+ * Models milk movement farm → collection center → processing plant as a
+ * min-cost flow problem and solves it with successive shortest paths
+ * (Bellman-Ford / SPFA on the residual graph).
+ *
+ * Graph:
+ *   source → farm            cap = daily production
+ *   farm → center_in         cap = ∞, cost = collection ₹/L for the leg
+ *   center_in → center_out   cap = daily throughput (storage × collections per day)
+ *   center_out → plant       cap = ∞, cost = transfer ₹/L for the leg
+ *   plant → sink             cap = processing capacity per day
+ *   farm → sink              cap = daily production, cost = unserved penalty
+ *
+ * The penalty arc keeps the problem feasible when supply exceeds capacity;
+ * whatever flows through it is reported as unserved milk.
+ */
+
+export interface FlowSupplyNode {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  supplyLiters: number;
+}
+
+export interface FlowFacilityNode {
+  id: string;
+  name: string;
+  lat: number;
+  lng: number;
+  capacityLiters: number; // daily throughput
+}
+
+export interface NetworkFlowInput {
+  farms: FlowSupplyNode[];
+  centers: FlowFacilityNode[];
+  plants: FlowFacilityNode[];
+}
+
+export interface NetworkFlowOptions {
+  collectionVehicleId: string;
+  transferVehicleId: string;
+  maxCollectionDistanceKm?: number;
+  maxTransferDistanceKm?: number;
+  collectionSpeedKmh: number;
+  transferSpeedKmh: number;
+  unservedPenaltyPerLiter: number; // ₹/L
+  vehicles: VehicleType[];
+  distanceMatrix?: DistanceMatrix | null; // road distances; circuity estimate when absent
+}
+
+export interface FlowAssignment {
+  fromId: string;
+  fromName: string;
+  fromType: 'farm' | 'collection_center';
+  toId: string;
+  toName: string;
+  toType: 'collection_center' | 'processing_plant';
+  volumeLiters: number;
+  distanceKm: number;
+  timeHours: number;
+  trips: number;
+  cost: number;
+  vehicleTypeId: string;
+}
+
+export interface FacilityUtilization {
+  id: string;
+  name: string;
+  type: 'collection_center' | 'processing_plant';
+  capacityLiters: number;
+  assignedLiters: number;
+  utilizationPercent: number;
+}
+
+export interface UnservedFarm {
+  farmId: string;
+  farmName: string;
+  unservedLiters: number;
+  reason: 'capacity' | 'out_of_range';
+}
+
+export interface FeasibilityReport {
+  feasible: boolean;
+  totalSupplyLiters: number;
+  totalRoutedLiters: number;
+  unservedLiters: number;
+  collectionCapacityLiters: number;
+  processingCapacityLiters: number;
+  unservedFarms: UnservedFarm[];
+  utilization: FacilityUtilization[];
+  messages: string[];
+}
+
+export interface NetworkFlowPlan {
+  assignments: FlowAssignment[];
+  totalCost: number;
+  totalDistance: number;
+  feasibility: FeasibilityReport;
+}
+
+export const DEFAULT_NETWORK_FLOW_OPTIONS: NetworkFlowOptions = {
+  collectionVehicleId: 'milk-tanker',
+  transferVehicleId: 'large-refrigerated-truck',
+  collectionSpeedKmh: 40,
+  transferSpeedKmh: 45,
+  unservedPenaltyPerLiter: 1000,
+  vehicles: vehicleTypes
+};
+
+const EPSILON = 1e-9;
+
+/**
+ * Daily throughput of a collection center. Storage is emptied once per
+ * collection run, so a twice-daily center can take twice its tank volume.
+ */
+export function collectionsPerDay(schedule?: string): number {
+  return schedule === 'twice_daily' || schedule === 'morning_evening' ? 2 : 1;
+}
+
+// farmVolumes (liters/day by farm id, e.g. from lib/milkForecasting) replaces nameplate production
+export function buildFlowInputFromRecords(
+  farms: DairyFarm[],
+  centers: CollectionCenter[],
+  plants: ProcessingPlant[],
+  farmVolumes?: Record<string, number>
+): NetworkFlowInput {
+  return {
+    farms: farms.map(farm => ({
+      id: farm.id,
+      name: farm.name,
+      lat: Number(farm.location_lat),
+      lng: Number(farm.location_lng),
+      supplyLiters: farmVolumes?.[farm.id] ?? farm.daily_production_liters
+    })),
+    centers: centers.map(center => ({
+      id: center.id,
+      name: center.name,
+      lat: Number(center.location_lat),
+      lng: Number(center.location_lng),
+      capacityLiters: center.storage_capacity_liters * collectionsPerDay(center.collection_schedule)
+    })),
+    plants: plants.map(plant => ({
+      id: plant.id,
+      name: plant.name,
+      lat: Number(plant.location_lat),
+      lng: Number(plant.location_lng),
+      capacityLiters: plant.processing_capacity_liters_per_day
+    }))
+  };
+}
+
+interface FlowMapNode {
+  id: string;
+  name: string;
+  type: string;
+  lat: number;
+  lng: number;
+  capacity?: number;
+  production?: number;
+  collectionSchedule?: string;
+  isVisible?: boolean;
+}
+
+/**
+ * Builds solver input from map nodes (DairyMapNode / EnhancedMapNode).
+ * Map nodes carry a single capacity figure: a center's storage, turned into
+ * daily throughput as for records, and a plant's daily processing capacity.
+ */
+export function buildFlowInputFromMapNodes(nodes: FlowMapNode[]): NetworkFlowInput {
+  const visible = nodes.filter(n => n.isVisible !== false);
+  const toFacility = (n: FlowMapNode): FlowFacilityNode => ({
+    id: n.id,
+    name: n.name,
+    lat: n.lat,
+    lng: n.lng,
+    capacityLiters: n.type === 'collection_center'
+      ? (n.capacity || 0) * collectionsPerDay(n.collectionSchedule)
+      : n.capacity || 0
+  });
+
+  return {
+    farms: visible
+      .filter(n => n.type === 'farm')
+      .map(n => ({
+        id: n.id,
+        name: n.name,
+        lat: n.lat,
+        lng: n.lng,
+        supplyLiters: n.production ?? n.capacity ?? 0
+      })),
+    centers: visible.filter(n => n.type === 'collection_center').map(toFacility),
+    plants: visible.filter(n => n.type === 'processing_plant').map(toFacility)
+  };
+}
+
+interface Arc {
+  to: number;
+  rev: number;
+  cap: number;
+  cost: number;
+  flow: number;
+}
+
+function addArc(graph: Arc[][], from: number, to: number, cap: number, cost: number): Arc {
+  const forward: Arc = { to, rev: graph[to].length, cap, cost, flow: 0 };
+  const backward: Arc = { to: from, rev: graph[from].length, cap: 0, cost: -cost, flow: 0 };
+  graph[from].push(forward);
+  graph[to].push(backward);
+  return forward;
+}
+
+// Successive shortest path min-cost flow. Pushes as much flow as the graph allows.
+function solveMinCostFlow(graph: Arc[][], source: number, sink: number): void {
+  const n = graph.length;
+
+  for (;;) {
+    const dist = new Array<number>(n).fill(Infinity);
+    const inQueue = new Array<boolean>(n).fill(false);
+    const prevNode = new Array<number>(n).fill(-1);
+    const prevArc = new Array<number>(n).fill(-1);
+    const queue: number[] = [source];
+    dist[source] = 0;
+    inQueue[source] = true;
+
+    while (queue.length > 0) {
+      const u = queue.shift()!;
+      inQueue[u] = false;
+      graph[u].forEach((arc, index) => {
+        if (arc.cap - arc.flow > EPSILON && dist[u] + arc.cost < dist[arc.to] - EPSILON) {
+          dist[arc.to] = dist[u] + arc.cost;
+          prevNode[arc.to] = u;
+          prevArc[arc.to] = index;
+          if (!inQueue[arc.to]) {
+            inQueue[arc.to] = true;
+            queue.push(arc.to);
+          }
+        }
+      });
+    }
+
+    if (dist[sink] === Infinity) break;
+
+    let bottleneck = Infinity;
+    for (let v = sink; v !== source; v = prevNode[v]) {
+      const arc = graph[prevNode[v]][prevArc[v]];
+      bottleneck = Math.min(bottleneck, arc.cap - arc.flow);
+    }
+
+    for (let v = sink; v !== source; v = prevNode[v]) {
+      const arc = graph[prevNode[v]][prevArc[v]];
+      arc.flow += bottleneck;
+      graph[v][arc.rev].flow -= bottleneck;
+    }
+  }
+}
+
+function findVehicle(vehicles: VehicleType[], id: string): VehicleType {
+  const vehicle = vehicles.find(v => v.id === id);
+  if (!vehicle) {
+    throw new Error(`Unknown vehicle type: ${id}`);
+  }
+  return vehicle;
+}
+
+/**
+ * Solves the farm → center → plant assignment with capacities.
+ * Per-liter leg cost is the vehicle's ₹/km spread over a full load, so
+ * legs served by larger vehicles are cheaper per liter.
+ */
+export function optimizeNetworkFlow(
+  input: NetworkFlowInput,
+  overrides: Partial<NetworkFlowOptions> = {}
+): NetworkFlowPlan {
+  const options = { ...DEFAULT_NETWORK_FLOW_OPTIONS, ...overrides };
+  const collectionVehicle = findVehicle(options.vehicles, options.collectionVehicleId);
+  const transferVehicle = findVehicle(options.vehicles, options.transferVehicleId);
+  const { farms, centers, plants } = input;
+  const distanceBetween = createDistanceFunction(options.distanceMatrix);
+
+  // Node indices: source, sink, farms, center in/out pairs, plants
+  const SOURCE = 0;
+  const SINK = 1;
+  const farmIndex = (i: number) => 2 + i;
+  const centerIn = (i: number) => 2 + farms.length + i * 2;
+  const centerOut = (i: number) => centerIn(i) + 1;
+  const plantIndex = (i: number) => 2 + farms.length + centers.length * 2 + i;
+  const nodeCount = 2 + farms.length + centers.length * 2 + plants.length;
+  const graph: Arc[][] = Array.from({ length: nodeCount }, () => []);
+
+  const collectionArcs: Array<{ arc: Arc; farm: number; center: number; distance: number }> = [];
+  const transferArcs: Array<{ arc: Arc; center: number; plant: number; distance: number }> = [];
+  const centerArcs: Arc[] = [];
+  const plantArcs: Arc[] = [];
+  const penaltyArcs: Arc[] = [];
+  const reachable = new Array<boolean>(farms.length).fill(false);
+
+  farms.forEach((farm, f) => {
+    addArc(graph, SOURCE, farmIndex(f), farm.supplyLiters, 0);
+    centers.forEach((center, c) => {
+      const distance = distanceBetween(farm, center);
+      if (options.maxCollectionDistanceKm !== undefined && distance > options.maxCollectionDistanceKm) return;
+      const costPerLiter = distance * collectionVehicle.costPerKm / collectionVehicle.capacity;
+      collectionArcs.push({ arc: addArc(graph, farmIndex(f), centerIn(c), Infinity, costPerLiter), farm: f, center: c, distance });
+      reachable[f] = true;
+    });
+    penaltyArcs.push(addArc(graph, farmIndex(f), SINK, farm.supplyLiters, options.unservedPenaltyPerLiter));
+  });
+
+  centers.forEach((center, c) => {
+    centerArcs.push(addArc(graph, centerIn(c), centerOut(c), center.capacityLiters, 0));
+    plants.forEach((plant, p) => {
+      const distance = distanceBetween(center, plant);
+      if (options.maxTransferDistanceKm !== undefined && distance > options.maxTransferDistanceKm) return;
+      const costPerLiter = distance * transferVehicle.costPerKm / transferVehicle.capacity;
+      transferArcs.push({ arc: addArc(graph, centerOut(c), plantIndex(p), Infinity, costPerLiter), center: c, plant: p, distance });
+    });
+  });
+
+  plants.forEach((plant, p) => {
+    plantArcs.push(addArc(graph, plantIndex(p), SINK, plant.capacityLiters, 0));
+  });
+
+  solveMinCostFlow(graph, SOURCE, SINK);
+
+  const assignments: FlowAssignment[] = [];
+
+  collectionArcs.forEach(({ arc, farm, center, distance }) => {
+    if (arc.flow <= EPSILON) return;
+    const trips = Math.ceil(arc.flow / collectionVehicle.capacity);
+    assignments.push({
+      fromId: farms[farm].id,
+      fromName: farms[farm].name,
+      fromType: 'farm',
+      toId: centers[center].id,
+      toName: centers[center].name,
+      toType: 'collection_center',
+      volumeLiters: Math.round(arc.flow),
+      distanceKm: distance,
+      timeHours: distance / options.collectionSpeedKmh,
+      trips,
+      cost: trips * distance * collectionVehicle.costPerKm,
+      vehicleTypeId: collectionVehicle.id
+    });
+  });
+
+  transferArcs.forEach(({ arc, center, plant, distance }) => {
+    if (arc.flow <= EPSILON) return;
+    const trips = Math.ceil(arc.flow / transferVehicle.capacity);
+    assignments.push({
+      fromId: centers[center].id,
+      fromName: centers[center].name,
+      fromType: 'collection_center',
+      toId: plants[plant].id,
+      toName: plants[plant].name,
+      toType: 'processing_plant',
+      volumeLiters: Math.round(arc.flow),
+      distanceKm: distance,
+      timeHours: distance / options.transferSpeedKmh,
+      trips,
+      cost: trips * distance * transferVehicle.costPerKm,
+      vehicleTypeId: transferVehicle.id
+    });
+  });
+
+  // Feasibility report
+  const totalSupplyLiters = farms.reduce((sum, farm) => sum + farm.supplyLiters, 0);
+  const collectionCapacityLiters = centers.reduce((sum, center) => sum + center.capacityLiters, 0);
+  const processingCapacityLiters = plants.reduce((sum, plant) => sum + plant.capacityLiters, 0);
+
+  const unservedFarms: UnservedFarm[] = [];
+  penaltyArcs.forEach((arc, f) => {
+    if (arc.flow <= EPSILON) return;
+    unservedFarms.push({
+      farmId: farms[f].id,
+      farmName: farms[f].name,
+      unservedLiters: Math.round(arc.flow),
+      reason: reachable[f] ? 'capacity' : 'out_of_range'
+    });
+  });
+  const unservedLiters = unservedFarms.reduce((sum, farm) => sum + farm.unservedLiters, 0);
+
+  const utilization: FacilityUtilization[] = [
+    ...centers.map((center, c) => ({
+      id: center.id,
+      name: center.name,
+      type: 'collection_center' as const,
+      capacityLiters: center.capacityLiters,
+      assignedLiters: Math.round(centerArcs[c].flow),
+      utilizationPercent: center.capacityLiters > 0 ? (centerArcs[c].flow / center.capacityLiters) * 100 : 0
+    })),
+    ...plants.map((plant, p) => ({
+      id: plant.id,
+      name: plant.name,
+      type: 'processing_plant' as const,
+      capacityLiters: plant.capacityLiters,
+      assignedLiters: Math.round(plantArcs[p].flow),
+      utilizationPercent: plant.capacityLiters > 0 ? (plantArcs[p].flow / plant.capacityLiters) * 100 : 0
+    }))
+  ];
+
+  const messages: string[] = [];
+  if (totalSupplyLiters > collectionCapacityLiters) {
+    messages.push(
+      `Farm supply of ${totalSupplyLiters.toLocaleString()} L/day exceeds collection capacity of ${collectionCapacityLiters.toLocaleString()} L/day`
+    );
+  }
+  if (totalSupplyLiters > processingCapacityLiters) {
+    messages.push(
+      `Farm supply of ${totalSupplyLiters.toLocaleString()} L/day exceeds processing capacity of ${processingCapacityLiters.toLocaleString()} L/day`
+    );
+  }
+  unservedFarms
+    .filter(farm => farm.reason === 'out_of_range')
+    .forEach(farm => messages.push(`${farm.farmName} has no collection center within range`));
+  utilization
+    .filter(facility => facility.capacityLiters > 0 && facility.utilizationPercent >= 100 - EPSILON)
+    .forEach(facility => messages.push(`${facility.name} is running at full capacity`));
+
+  return {
+    assignments,
+    totalCost: assignments.reduce((sum, a) => sum + a.cost, 0),
+    totalDistance: assignments.reduce((sum, a) => sum + a.distanceKm * a.trips, 0),
+    feasibility: {
+      feasible: unservedLiters === 0,
+      totalSupplyLiters,
+      totalRoutedLiters: totalSupplyLiters - unservedLiters,
+      unservedLiters,
+      collectionCapacityLiters,
+      processingCapacityLiters,
+      unservedFarms,
+      utilization,
+      messages
+    }
+  };
+}
+
+// Convert a flow plan into transport_routes rows
+export function toTransportRoutes(plan: NetworkFlowPlan): Omit<TransportRoute, 'id'>[] {
+  return plan.assignments.map(assignment => ({
+    route_name: `${assignment.fromName} → ${assignment.toName}`,
+    from_type: assignment.fromType,
+    from_id: assignment.fromId,
+    to_type: assignment.toType,
+    to_id: assignment.toId,
+    distance_km: Math.round(assignment.distanceKm * 10) / 10,
+    estimated_time_hours: Math.round(assignment.timeHours * 100) / 100,
+    vehicle_type: assignment.vehicleTypeId,
+    cost_per_trip: Math.round(assignment.cost / assignment.trips),
+    frequency_per_day: assignment.trips,
+    optimal_load_liters: Math.round(assignment.volumeLiters / assignment.trips),
+    active: true
+  }));
+}
@@ -0,0 +1,117 @@
+import { jsPDF } from 'jspdf';
+import { deductionLabel, type PaymentStatement } from '@/lib/milkPayments';
+
+/**
+ * Farmer payment statements as PDF, one farm per page (longer statements
+ * continue onto further pages). The built-in PDF fonts have no rupee sign,
+ * so amounts are printed as "Rs.".
+ */
+
+const PAGE_HEIGHT = 297; // A4, mm
+const MARGIN = 15;
+const LINE_HEIGHT = 5;
+const RIGHT_EDGE = 195;
+// Date and shift are left-aligned at these x positions, the numeric columns right-aligned at theirs
+const TEXT_COLUMNS = [MARGIN, 40];
+const NUMBER_COLUMNS = [85, 105, 125, 150, RIGHT_EDGE];
+const TOTALS_LABEL = 110;
+
+const money = (value: number) =>
+  `Rs. ${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+const percent = (value: number | null) => value == null ? '-' : value.toFixed(2);
+
+function writeStatement(doc: jsPDF, statement: PaymentStatement, organization: string) {
+  let y = MARGIN;
+  const newLineOrPage = (height: number = LINE_HEIGHT) => {
+    y += height;
+    if (y > PAGE_HEIGHT - MARGIN) {
+      doc.addPage();
+      y = MARGIN + LINE_HEIGHT;
+    }
+  };
+  const row = (cells: string[], bold: boolean = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    cells.forEach((cell, i) => {
+      if (i < TEXT_COLUMNS.length) doc.text(cell, TEXT_COLUMNS[i], y);
+      else doc.text(cell, NUMBER_COLUMNS[i - TEXT_COLUMNS.length], y, { align: 'right' });
+    });
+    newLineOrPage();
+  };
+  const total = (label: string, value: string, bold: boolean = false) => {
+    doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    doc.text(label, TOTALS_LABEL, y);
+    doc.text(value, RIGHT_EDGE, y, { align: 'right' });
+    newLineOrPage();
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(14);
+  doc.text(organization, MARGIN, y);
+  newLineOrPage(7);
+  doc.setFontSize(11);
+  doc.text(`Milk Payment Statement: ${statement.cycle.label}`, MARGIN, y);
+  newLineOrPage(8);
+
+  doc.setFontSize(9);
+  doc.setFont('helvetica', 'normal');
+  doc.text(`Farm: ${statement.farmName}${statement.organic ? ' (organic certified)' : ''}`, MARGIN, y);
+  newLineOrPage();
+  if (statement.contactPerson) {
+    doc.text(`Contact: ${statement.contactPerson}`, MARGIN, y);
+    newLineOrPage();
+  }
+  doc.text(`Rate card: ${statement.rateCardName}`, MARGIN, y);
+  newLineOrPage(8);
+
+  row(['Date', 'Shift', 'Liters', 'Fat %', 'SNF %', 'Rate', 'Amount'], true);
+  doc.line(MARGIN, y - LINE_HEIGHT + 1.5, RIGHT_EDGE, y - LINE_HEIGHT + 1.5);
+  statement.lines.forEach(line => row([
+    line.date,
+    line.shift,
+    line.liters.toFixed(1),
+    percent(line.fatPercent),
+    percent(line.snfPercent),
+    line.rate.toFixed(2) + (line.belowChart ? '*' : ''),
+    line.amount.toFixed(2)
+  ]));
+  if (statement.lines.length === 0) row(['No milk supplied in this cycle']);
+  doc.line(MARGIN, y - LINE_HEIGHT + 1.5, RIGHT_EDGE, y - LINE_HEIGHT + 1.5);
+  row(['Total', '', statement.liters.toFixed(1), percent(statement.averageFatPercent), percent(statement.averageSnfPercent), '', ''], true);
+  newLineOrPage();
+
+  if (statement.deductions.length > 0) {
+    doc.setFont('helvetica', 'bold');
+    doc.text('Deductions', MARGIN, y);
+    newLineOrPage();
+    statement.deductions.forEach(deduction => row([
+      deduction.deduction_date,
+      `${deductionLabel(deduction.category)}${deduction.description ? `: ${deduction.description}` : ''}`,
+      '', '', '', '',
+      Number(deduction.amount).toFixed(2)
+    ]));
+    newLineOrPage();
+  }
+
+  total('Milk value', money(statement.baseAmount));
+  if (statement.organic) total('Organic bonus', money(statement.organicBonus));
+  total('Gross amount', money(statement.grossAmount));
+  total('Deductions recovered', `- ${money(statement.recovered)}`);
+  if (statement.outstanding > 0) total('Outstanding deductions', money(statement.outstanding));
+  total('Net payable', money(statement.netPayable), true);
+
+  if (statement.lines.some(line => line.belowChart)) {
+    newLineOrPage();
+    doc.setFont('helvetica', 'italic');
+    doc.setFontSize(8);
+    doc.text('* Fat or SNF below the rate card, or not measured: paid at the lowest rate.', MARGIN, y);
+  }
+}
+
+export function paymentStatementsPdf(statements: PaymentStatement[], organization: string = 'Dairy Cooperative'): Blob {
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  statements.forEach((statement, i) => {
+    if (i > 0) doc.addPage();
+    writeStatement(doc, statement, organization);
+  });
+  return doc.output('blob');
+}
@@ -0,0 +1,231 @@
+import type { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import type { DairyProduct, VehicleCompartment, VehicleType } from '@/types/products';
+
+/**
+ * Product and vehicle catalog
+ *
+ * Maps the dairy_products and vehicle_types rows to the DairyProduct and
+ * VehicleType models the planners use, and validates catalog entries before
+ * they are saved. The checks mirror the table constraints so mistakes are
+ * reported field by field instead of as a database error.
+ */
+
+export type DairyProductRow = Tables<'dairy_products'>;
+export type VehicleTypeRow = Tables<'vehicle_types'>;
+
+export const PRODUCT_CATEGORIES: DairyProduct['category'][] = ['milk', 'fermented', 'cheese', 'butter', 'frozen'];
+export const TEMPERATURE_SENSITIVITIES: DairyProduct['qualityFactors']['temperatureSensitivity'][] = ['low', 'medium', 'high'];
+export const VEHICLE_CLASSES: VehicleType['type'][] = ['refrigerated', 'insulated', 'ambient'];
+
+// Catalog ids are lowercase slugs of the name: 'Khoa (Danedar)' → 'khoa-danedar'
+export const catalogId = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const optionalNumber = (value: number | null) => value == null ? undefined : Number(value);
+
+export function productFromRow(row: DairyProductRow): DairyProduct {
+  return {
+    id: row.id,
+    name: row.name,
+    category: row.category as DairyProduct['category'],
+    temperatureRange: {
+      min: Number(row.temp_min_c),
+      max: Number(row.temp_max_c),
+      optimal: Number(row.temp_optimal_c)
+    },
+    shelfLife: {
+      ambient: Number(row.shelf_life_ambient_hours),
+      refrigerated: Number(row.shelf_life_refrigerated_hours),
+      frozen: optionalNumber(row.shelf_life_frozen_hours)
+    },
+    qualityFactors: {
+      temperatureSensitivity: row.temperature_sensitivity as DairyProduct['qualityFactors']['temperatureSensitivity'],
+      lightSensitivity: row.light_sensitive,
+      oxygenSensitivity: row.oxygen_sensitive
+    },
+    spoilageRate: {
+      perHourAtAmbient: Number(row.spoilage_per_hour_ambient),
+      perHourRefrigerated: Number(row.spoilage_per_hour_refrigerated)
+    },
+    nutritionalInfo: {
+      fatContent: optionalNumber(row.fat_percent),
+      proteinContent: optionalNumber(row.protein_percent),
+      lactoseContent: optionalNumber(row.lactose_percent)
+    },
+    packagingRequirements: row.packaging_requirements,
+    transportRequirements: row.transport_requirements
+  };
+}
+
+export function productToRow(product: DairyProduct): TablesInsert<'dairy_products'> {
+  return {
+    id: product.id,
+    name: product.name.trim(),
+    category: product.category,
+    temp_min_c: product.temperatureRange.min,
+    temp_max_c: product.temperatureRange.max,
+    temp_optimal_c: product.temperatureRange.optimal,
+    shelf_life_ambient_hours: product.shelfLife.ambient,
+    shelf_life_refrigerated_hours: product.shelfLife.refrigerated,
+    shelf_life_frozen_hours: product.shelfLife.frozen ?? null,
+    temperature_sensitivity: product.qualityFactors.temperatureSensitivity,
+    light_sensitive: product.qualityFactors.lightSensitivity,
+    oxygen_sensitive: product.qualityFactors.oxygenSensitivity,
+    spoilage_per_hour_ambient: product.spoilageRate.perHourAtAmbient,
+    spoilage_per_hour_refrigerated: product.spoilageRate.perHourRefrigerated,
+    fat_percent: product.nutritionalInfo?.fatContent ?? null,
+    protein_percent: product.nutritionalInfo?.proteinContent ?? null,
+    lactose_percent: product.nutritionalInfo?.lactoseContent ?? null,
+    packaging_requirements: product.packagingRequirements,
+    transport_requirements: product.transportRequirements
+  };
+}
+
+// vehicle_types.compartments element
+interface CompartmentJson {
+  name: string;
+  capacity_liters: number;
+  temp_min_c: number;
+  temp_max_c: number;
+}
+
+const compartmentsFromJson = (value: Json): VehicleCompartment[] =>
+  Array.isArray(value)
+    ? (value as unknown as CompartmentJson[]).map(c => ({
+      name: c.name,
+      capacity: Number(c.capacity_liters),
+      temperatureRange: { min: Number(c.temp_min_c), max: Number(c.temp_max_c) }
+    }))
+    : [];
+
+export function vehicleTypeFromRow(row: VehicleTypeRow): VehicleType {
+  const compartments = compartmentsFromJson(row.compartments);
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type as VehicleType['type'],
+    capacity: Number(row.capacity_liters),
+    temperatureControl: {
+      canMaintain: row.can_maintain_temperature,
+      range: row.temp_range_min_c == null || row.temp_range_max_c == null
+        ? undefined
+        : { min: Number(row.temp_range_min_c), max: Number(row.temp_range_max_c) }
+    },
+    maxTripDuration: Number(row.max_trip_hours),
+    fuelEfficiency: Number(row.fuel_efficiency_kmpl),
+    costPerKm: Number(row.cost_per_km),
+    multiDayCapable: row.multi_day_capable,
+    suitableProducts: row.suitable_categories,
+    compartments: compartments.length > 0 ? compartments : undefined
+  };
+}
+
+export function vehicleTypeToRow(vehicleType: VehicleType): TablesInsert<'vehicle_types'> {
+  return {
+    id: vehicleType.id,
+    name: vehicleType.name.trim(),
+    type: vehicleType.type,
+    capacity_liters: vehicleType.capacity,
+    can_maintain_temperature: vehicleType.temperatureControl.canMaintain,
+    temp_range_min_c: vehicleType.temperatureControl.range?.min ?? null,
+    temp_range_max_c: vehicleType.temperatureControl.range?.max ?? null,
+    max_trip_hours: vehicleType.maxTripDuration,
+    fuel_efficiency_kmpl: vehicleType.fuelEfficiency,
+    cost_per_km: vehicleType.costPerKm,
+    multi_day_capable: vehicleType.multiDayCapable,
+    suitable_categories: vehicleType.suitableProducts,
+    compartments: (vehicleType.compartments ?? []).map((c): CompartmentJson => ({
+      name: c.name.trim(),
+      capacity_liters: c.capacity,
+      temp_min_c: c.temperatureRange.min,
+      temp_max_c: c.temperatureRange.max
+    })) as unknown as Json
+  };
+}
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+const isPercent = (value: number | undefined) => value === undefined || (isNumber(value) && value >= 0 && value <= 100);
+
+// Problems with a product entry; empty when it can be saved
+export function validateProduct(product: DairyProduct): string[] {
+  const errors: string[] = [];
+  const { temperatureRange: range, shelfLife, spoilageRate } = product;
+
+  if (!product.name.trim()) errors.push('Name is required');
+  if (!catalogId(product.id) || catalogId(product.id) !== product.id) {
+    errors.push('Id must be lowercase letters, digits and hyphens');
+  }
+  if (!PRODUCT_CATEGORIES.includes(product.category)) errors.push('Unknown category');
+
+  if (![range.min, range.max, range.optimal].every(isNumber)) {
+    errors.push('Temperature range needs a minimum, maximum and optimal temperature');
+  } else {
+    if (range.min > range.max) errors.push('Minimum temperature is above the maximum');
+    if (range.optimal < range.min || range.optimal > range.max) errors.push('Optimal temperature must lie within the range');
+    if (range.min < -40 || range.max > 40) errors.push('Temperatures must be between -40°C and 40°C');
+  }
+
+  if (!isNumber(shelfLife.ambient) || shelfLife.ambient <= 0) errors.push('Ambient shelf life must be positive');
+  if (!isNumber(shelfLife.refrigerated) || shelfLife.refrigerated <= 0) errors.push('Refrigerated shelf life must be positive');
+  else if (shelfLife.refrigerated < shelfLife.ambient) errors.push('Refrigerated shelf life cannot be shorter than at ambient');
+  if (shelfLife.frozen !== undefined && (!isNumber(shelfLife.frozen) || shelfLife.frozen <= 0)) {
+    errors.push('Frozen shelf life must be positive when given');
+  }
+
+  const { perHourAtAmbient: ambient, perHourRefrigerated: refrigerated } = spoilageRate;
+  if (!isNumber(ambient) || ambient < 0 || ambient > 100) errors.push('Ambient spoilage rate must be 0–100 % per hour');
+  if (!isNumber(refrigerated) || refrigerated < 0 || refrigerated > 100) errors.push('Refrigerated spoilage rate must be 0–100 % per hour');
+  else if (isNumber(ambient) && refrigerated > ambient) errors.push('Spoilage cannot be faster refrigerated than at ambient');
+
+  const nutrition = product.nutritionalInfo;
+  if (nutrition && ![nutrition.fatContent, nutrition.proteinContent, nutrition.lactoseContent].every(isPercent)) {
+    errors.push('Nutritional contents must be percentages');
+  }
+  return errors;
+}
+
+// Problems with a vehicle type entry; empty when it can be saved
+export function validateVehicleType(vehicleType: VehicleType): string[] {
+  const errors: string[] = [];
+  const range = vehicleType.temperatureControl.range;
+
+  if (!vehicleType.name.trim()) errors.push('Name is required');
+  if (!catalogId(vehicleType.id) || catalogId(vehicleType.id) !== vehicleType.id) {
+    errors.push('Id must be lowercase letters, digits and hyphens');
+  }
+  if (!VEHICLE_CLASSES.includes(vehicleType.type)) errors.push('Unknown vehicle class');
+  if (!isNumber(vehicleType.capacity) || vehicleType.capacity <= 0) errors.push('Capacity must be positive');
+  if (!isNumber(vehicleType.maxTripDuration) || vehicleType.maxTripDuration <= 0) errors.push('Maximum trip duration must be positive');
+  if (!isNumber(vehicleType.fuelEfficiency) || vehicleType.fuelEfficiency <= 0) errors.push('Fuel efficiency must be positive');
+  if (!isNumber(vehicleType.costPerKm) || vehicleType.costPerKm < 0) errors.push('Cost per km cannot be negative');
+
+  if (range) {
+    if (!isNumber(range.min) || !isNumber(range.max)) errors.push('Temperature range needs a minimum and maximum');
+    else if (range.min >= range.max) errors.push('Minimum temperature must be below the maximum');
+  }
+  if (vehicleType.temperatureControl.canMaintain && !range) errors.push('Temperature-controlled vehicles need a range');
+  if (vehicleType.suitableProducts.length === 0) errors.push('Select at least one product category');
+  if (vehicleType.suitableProducts.some(category => !PRODUCT_CATEGORIES.includes(category as DairyProduct['category']))) {
+    errors.push('Unknown product category');
+  }
+
+  const compartments = vehicleType.compartments ?? [];
+  if (compartments.length > 0 && !vehicleType.temperatureControl.canMaintain) {
+    errors.push('Only temperature-controlled vehicles can have compartments');
+  }
+  compartments.forEach((compartment, i) => {
+    const label = compartment.name.trim() || `Compartment ${i + 1}`;
+    const { min, max } = compartment.temperatureRange;
+    if (!compartment.name.trim()) errors.push(`${label} needs a name`);
+    if (!isNumber(compartment.capacity) || compartment.capacity <= 0) errors.push(`${label}: capacity must be positive`);
+    if (!isNumber(min) || !isNumber(max)) errors.push(`${label}: temperature range needs a minimum and maximum`);
+    else if (min >= max) errors.push(`${label}: minimum temperature must be below the maximum`);
+    else if (range && (min < range.min || max > range.max)) errors.push(`${label}: ${min} to ${max}°C is outside the vehicle's range`);
+  });
+  if (new Set(compartments.map(c => c.name.trim())).size < compartments.length) errors.push('Compartment names must be unique');
+  const compartmentLiters = compartments.reduce((sum, c) => sum + (isNumber(c.capacity) ? c.capacity : 0), 0);
+  if (compartmentLiters > vehicleType.capacity) {
+    errors.push(`Compartments hold ${compartmentLiters} L, more than the vehicle's ${vehicleType.capacity} L`);
+  }
+  return errors;
+}
@@ -0,0 +1,301 @@
+import type { Tables } from '@/integrations/supabase/types';
+import type { StartingInventory } from '@/lib/inventory';
+import { solveLinearProgram, type LinearConstraint } from '@/lib/linearProgram';
+import type { NetworkFlowPlan } from '@/lib/networkFlowOptimizer';
+import type { ProcessingPlant } from '@/services/dairyService';
+
+/**
+ * Plant production planning: product mix from incoming milk
+ *
+ * Chooses how much of each product every plant makes over a horizon of one
+ * day or a week, as a linear program:
+ *
+ *   maximize   Σ margin × units
+ *   subject to Σ milk per unit × units ≤ milk intake + silo stock (per plant)
+ *              Σ milk per unit × units ≤ processing capacity      (per plant)
+ *              units ≤ line capacity, units ≥ line minimum         (per line)
+ *              Σ units over plants ≤ demand − stock on hand        (per product)
+ *
+ * Capacities, minimums, intake and demand are per day and scaled by the
+ * horizon; stocks are what the plants hold when the horizon starts.
+ * Products without a demand figure are taken as sold without limit (e.g.
+ * ghee or powder for the trade). When line minimums cannot all be met from
+ * the milk available the plan is solved again without them.
+ *
+ * Demand and stock are in each product's line unit. Outlet orders and the
+ * distribution planner work in liters, and products made by the kg have no
+ * conversion to them, so only liter products are exchanged with those.
+ */
+
+export type ProductionLineRow = Tables<'plant_production_lines'>;
+
+export const PRODUCTION_UNITS = ['L', 'kg'] as const;
+
+export type ProductionHorizon = 'day' | 'week';
+
+export const PRODUCTION_HORIZONS: { value: ProductionHorizon; label: string; days: number }[] = [
+  { value: 'day', label: 'Daily', days: 1 },
+  { value: 'week', label: 'Weekly', days: 7 }
+];
+
+export interface ProductionLine {
+  productId: string;
+  unit: string;
+  milkPerUnit: number; // liters of raw milk per unit of product
+  capacityPerDay: number; // units
+  marginPerUnit: number; // ₹
+  minPerDay: number; // units
+}
+
+export interface ProductionPlant {
+  id: string;
+  name: string;
+  intakeLitersPerDay: number; // forecast milk arriving at the plant
+  openingMilkLiters: number; // in the silo at the start
+  capacityLitersPerDay: number; // milk the plant can process
+  lines: ProductionLine[];
+}
+
+export interface ProductionInput {
+  plants: ProductionPlant[];
+  demandPerDay: Record<string, number>; // units by product id; absent products are not capped
+  stockOnHand: Record<string, number>; // finished units by product id across plants
+  horizon: ProductionHorizon;
+}
+
+export interface PlannedLine extends ProductionLine {
+  units: number; // over the horizon
+  milkLiters: number;
+  margin: number;
+  utilization: number; // 0–1 of line capacity
+}
+
+export interface PlantProduction {
+  plantId: string;
+  plantName: string;
+  intakeLiters: number;
+  openingMilkLiters: number;
+  capacityLiters: number;
+  milkUsedLiters: number;
+  unusedMilkLiters: number;
+  utilization: number; // 0–1 of processing capacity
+  margin: number;
+  limitedBy: 'milk' | 'processing' | null; // which plant-wide limit binds
+  lines: PlannedLine[];
+}
+
+export interface ProductOutcome {
+  productId: string;
+  units: number;
+  stockUnits: number;
+  demandUnits?: number;
+  unmetUnits: number;
+}
+
+export interface ProductionPlan {
+  status: 'optimal' | 'infeasible';
+  horizon: ProductionHorizon;
+  days: number;
+  plants: PlantProduction[];
+  products: ProductOutcome[];
+  totalMargin: number;
+  milkUsedLiters: number;
+  intakeLiters: number;
+  openingMilkLiters: number;
+  messages: string[];
+}
+
+const BINDING = 0.995;
+
+export const lineFromRow = (row: ProductionLineRow): ProductionLine => ({
+  productId: row.product_id,
+  unit: row.unit,
+  milkPerUnit: Number(row.milk_liters_per_unit),
+  capacityPerDay: Number(row.line_capacity_per_day),
+  marginPerUnit: Number(row.margin_per_unit),
+  minPerDay: Number(row.min_units_per_day)
+});
+
+// Problems with a production line entry; empty when it can be saved
+export function validateProductionLine(line: ProductionLine): string[] {
+  const errors: string[] = [];
+  const isNumber = (value: number) => Number.isFinite(value);
+  if (!line.productId) errors.push('Choose a product');
+  if (!PRODUCTION_UNITS.includes(line.unit as typeof PRODUCTION_UNITS[number])) errors.push('Unit must be L or kg');
+  if (!isNumber(line.milkPerUnit) || line.milkPerUnit <= 0) errors.push('Milk per unit must be positive');
+  if (!isNumber(line.capacityPerDay) || line.capacityPerDay <= 0) errors.push('Line capacity must be positive');
+  if (!isNumber(line.marginPerUnit)) errors.push('Margin must be a number');
+  if (!isNumber(line.minPerDay) || line.minPerDay < 0) errors.push('Minimum output cannot be negative');
+  else if (line.minPerDay > line.capacityPerDay) errors.push('Minimum output is above the line capacity');
+  return errors;
+}
+
+/**
+ * Plants with their active lines. Intake is the milk the network flow plan
+ * routes to each plant, so it follows the farm volumes the flow was run on.
+ * Without an inventory the plants start with empty silos and cold stores.
+ */
+export function buildProductionInput(
+  plants: ProcessingPlant[],
+  lines: ProductionLineRow[],
+  flow: NetworkFlowPlan,
+  demandPerDay: Record<string, number>,
+  horizon: ProductionHorizon,
+  inventory?: StartingInventory
+): ProductionInput {
+  const stockOnHand: Record<string, number> = {};
+  plants.forEach(plant => Object.entries(inventory?.plantStock[plant.id] ?? {}).forEach(([productId, units]) => {
+    stockOnHand[productId] = (stockOnHand[productId] ?? 0) + units;
+  }));
+
+  const intake = new Map(flow.feasibility.utilization
+    .filter(facility => facility.type === 'processing_plant')
+    .map(facility => [facility.id, facility.assignedLiters]));
+
+  return {
+    plants: plants.map(plant => ({
+      id: plant.id,
+      name: plant.name,
+      intakeLitersPerDay: intake.get(plant.id) ?? 0,
+      openingMilkLiters: inventory?.plantMilk[plant.id] ?? 0,
+      capacityLitersPerDay: Number(plant.processing_capacity_liters_per_day),
+      lines: lines.filter(line => line.plant_id === plant.id && line.active).map(lineFromRow)
+    })),
+    demandPerDay,
+    stockOnHand,
+    horizon
+  };
+}
+
+const variable = (plantId: string, productId: string) => `${plantId}|${productId}`;
+
+export function planProduction(input: ProductionInput): ProductionPlan {
+  const days = PRODUCTION_HORIZONS.find(h => h.value === input.horizon)?.days ?? 1;
+  const messages: string[] = [];
+  const stockOf = (productId: string) => input.stockOnHand[productId] ?? 0;
+
+  const solve = (withMinimums: boolean) => {
+    const constraints: LinearConstraint[] = [];
+    const objective: Record<string, number> = {};
+    input.plants.forEach(plant => {
+      const milk = Object.fromEntries(plant.lines.map(line => [variable(plant.id, line.productId), line.milkPerUnit]));
+      constraints.push({ label: `${plant.name} intake`, terms: milk, sense: '<=', rhs: plant.intakeLitersPerDay * days + plant.openingMilkLiters });
+      constraints.push({ label: `${plant.name} capacity`, terms: milk, sense: '<=', rhs: plant.capacityLitersPerDay * days });
+      plant.lines.forEach(line => {
+        const name = variable(plant.id, line.productId);
+        objective[name] = line.marginPerUnit;
+        constraints.push({ terms: { [name]: 1 }, sense: '<=', rhs: line.capacityPerDay * days });
+        if (withMinimums && line.minPerDay > 0) {
+          constraints.push({ terms: { [name]: 1 }, sense: '>=', rhs: line.minPerDay * days });
+        }
+      });
+    });
+    Object.entries(input.demandPerDay).forEach(([productId, demand]) => {
+      const terms = Object.fromEntries(input.plants
+        .filter(plant => plant.lines.some(line => line.productId === productId))
+        .map(plant => [variable(plant.id, productId), 1]));
+      if (Object.keys(terms).length > 0) {
+        constraints.push({ terms, sense: '<=', rhs: Math.max(0, demand * days - stockOf(productId)) });
+      }
+    });
+    return solveLinearProgram({ direction: 'max', objective, constraints });
+  };
+
+  let solution = solve(true);
+  if (solution.status === 'infeasible') {
+    messages.push('Line minimums cannot all be met from the milk and capacity available; planned without them');
+    solution = solve(false);
+  }
+
+  const plants: PlantProduction[] = input.plants.map(plant => {
+    const intakeLiters = plant.intakeLitersPerDay * days;
+    const capacityLiters = plant.capacityLitersPerDay * days;
+    const lines: PlannedLine[] = plant.lines.map(line => {
+      const units = solution.values[variable(plant.id, line.productId)] ?? 0;
+      return {
+        ...line,
+        units,
+        milkLiters: units * line.milkPerUnit,
+        margin: units * line.marginPerUnit,
+        utilization: units / (line.capacityPerDay * days)
+      };
+    });
+    const milkUsedLiters = lines.reduce((sum, line) => sum + line.milkLiters, 0);
+    const availableLiters = intakeLiters + plant.openingMilkLiters;
+    const limit = Math.min(availableLiters, capacityLiters);
+    return {
+      plantId: plant.id,
+      plantName: plant.name,
+      intakeLiters,
+      openingMilkLiters: plant.openingMilkLiters,
+      capacityLiters,
+      milkUsedLiters,
+      unusedMilkLiters: Math.max(0, availableLiters - milkUsedLiters),
+      utilization: capacityLiters > 0 ? milkUsedLiters / capacityLiters : 0,
+      margin: lines.reduce((sum, line) => sum + line.margin, 0),
+      limitedBy: limit > 0 && milkUsedLiters >= limit * BINDING
+        ? (availableLiters <= capacityLiters ? 'milk' : 'processing')
+        : null,
+      lines
+    };
+  });
+
+  const productIds = [...new Set([
+    ...input.plants.flatMap(plant => plant.lines.map(line => line.productId)),
+    ...Object.keys(input.demandPerDay),
+    ...Object.keys(input.stockOnHand)
+  ])];
+  const products: ProductOutcome[] = productIds.map(productId => {
+    const units = plants.reduce(
+      (sum, plant) => sum + plant.lines.filter(line => line.productId === productId).reduce((s, line) => s + line.units, 0),
+      0
+    );
+    const demand = input.demandPerDay[productId];
+    const stockUnits = stockOf(productId);
+    return {
+      productId,
+      units,
+      stockUnits,
+      demandUnits: demand === undefined ? undefined : demand * days,
+      unmetUnits: demand === undefined ? 0 : Math.max(0, demand * days - stockUnits - units)
+    };
+  });
+
+  const withoutLine = products.filter(product =>
+    (product.demandUnits ?? 0) > product.stockUnits && !input.plants.some(plant => plant.lines.some(line => line.productId === product.productId))
+  );
+  if (withoutLine.length > 0) messages.push(`No plant has a line for ${withoutLine.map(p => p.productId).join(', ')}`);
+  const unusedMilk = plants.reduce((sum, plant) => sum + plant.unusedMilkLiters, 0);
+  if (unusedMilk > 0.5) {
+    messages.push(`${Math.round(unusedMilk).toLocaleString()} L of milk available is not used by the planned mix`);
+  }
+
+  return {
+    status: solution.status === 'optimal' ? 'optimal' : 'infeasible',
+    horizon: input.horizon,
+    days,
+    plants,
+    products,
+    totalMargin: plants.reduce((sum, plant) => sum + plant.margin, 0),
+    milkUsedLiters: plants.reduce((sum, plant) => sum + plant.milkUsedLiters, 0),
+    intakeLiters: plants.reduce((sum, plant) => sum + plant.intakeLiters, 0),
+    openingMilkLiters: plants.reduce((sum, plant) => sum + plant.openingMilkLiters, 0),
+    messages
+  };
+}
+
+// Keeps the products no active line makes in a unit other than liters
+export function literProductsOnly<V>(values: Record<string, V>, lines: ProductionLineRow[]): Record<string, V> {
+  const otherUnits = new Set(lines.filter(line => line.active && line.unit !== 'L').map(line => line.product_id));
+  return Object.fromEntries(Object.entries(values).filter(([productId]) => !otherUnits.has(productId)));
+}
+
+// Average daily liters by plant and product from liter lines, the form the distribution planner takes
+export function dailyPlantOutput(plan: ProductionPlan): Record<string, Record<string, number>> {
+  return Object.fromEntries(plan.plants.map(plant => [
+    plant.plantId,
+    Object.fromEntries(plant.lines
+      .filter(line => line.unit === 'L')
+      .map(line => [line.productId, Math.round(line.units / plan.days)]))
+  ]));
+}
@@ -0,0 +1,225 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+/**
+ * Lot traceability and recall simulation
+ *
+ * Lots are created by the database as stock moves (see inventory_movements):
+ * collection batches at centers, tanker loads to plants, production lots and
+ * dispatches to distributors and outlets, linked parent → child with the
+ * quantity of the parent used. A trace from one or more lots follows the
+ * links back to the farms and forward to the destinations.
+ *
+ * A recall takes everything downstream of the traced lots. Each downstream
+ * lot gets an exposure: the share of its inputs that came from the recalled
+ * lots,
+ *
+ *   exposure(root)  = 1
+ *   exposure(child) = Σ link quantity × exposure(parent) / Σ link quantity
+ *
+ * over all of the child's parents, so a production lot that took a fifth of
+ * its milk from a recalled tanker is 20% exposed. Any exposure recalls the
+ * whole dispatch; the traced quantity shows how much of it came from the
+ * recalled lots.
+ */
+
+export type Lot = Tables<'lots'>;
+export type LotLink = Tables<'lot_links'>;
+
+export type LotKind = 'collection' | 'tanker' | 'production' | 'dispatch';
+
+// In the order milk moves through them
+export const LOT_KINDS: { value: LotKind; label: string }[] = [
+  { value: 'collection', label: 'Collection batch' },
+  { value: 'tanker', label: 'Tanker load' },
+  { value: 'production', label: 'Production lot' },
+  { value: 'dispatch', label: 'Dispatch' }
+];
+
+export interface Traceability {
+  rootIds: string[];
+  lots: Lot[]; // traced lots in stage order, oldest first within a stage
+  links: LotLink[]; // every parent link of the traced lots
+  depth: Record<string, number>; // by lot id: < 0 sources, 0 the roots, > 0 destinations
+  exposure: Record<string, number>; // by lot id, 0–1; downstream lots and the roots only
+}
+
+export interface SourceFarm {
+  farmId: string;
+  liters: number;
+  lots: Lot[];
+}
+
+export interface RecallDestination {
+  type: 'distributor' | 'retail';
+  id: string;
+  lots: Lot[];
+  quantity: number; // dispatched in the affected lots
+  tracedQuantity: number; // of that, made from the recalled lots
+  productIds: string[];
+}
+
+export interface HeldStock {
+  lot: Lot;
+  quantity: number; // not yet dispatched
+  tracedQuantity: number;
+}
+
+export interface RecallSimulation {
+  dispatchLots: Lot[];
+  destinations: RecallDestination[];
+  heldStock: HeldStock[]; // affected production lots still at the plants
+  indirectOutlets: { outletId: string; distributorId: string }[]; // served by an affected distributor
+  sourceFarms: SourceFarm[];
+  totalQuantity: number;
+  tracedQuantity: number;
+}
+
+export const lotKindLabel = (kind: string) => LOT_KINDS.find(k => k.value === kind)?.label ?? kind;
+
+const stage = (kind: string) => LOT_KINDS.findIndex(k => k.value === kind);
+
+export const byStage = (a: Lot, b: Lot) =>
+  stage(a.kind) - stage(b.kind) || a.produced_at.localeCompare(b.produced_at) || a.lot_code.localeCompare(b.lot_code);
+
+/**
+ * Assembles a trace from trace_lots rows, the lots they name and the parent
+ * links of those lots, and works out how exposed each downstream lot is.
+ */
+export function buildTraceability(
+  rootIds: string[],
+  traced: { lot_id: string; depth: number }[],
+  lots: Lot[],
+  links: LotLink[]
+): Traceability {
+  const depth: Record<string, number> = {};
+  traced.forEach(row => {
+    // A lot upstream of one root and downstream of another counts as downstream
+    depth[row.lot_id] = Math.max(depth[row.lot_id] ?? row.depth, row.depth);
+  });
+  rootIds.forEach(id => { depth[id] = 0; });
+
+  const ordered = lots.filter(lot => depth[lot.id] !== undefined).sort(byStage);
+  const exposure: Record<string, number> = Object.fromEntries(rootIds.map(id => [id, 1]));
+  ordered.forEach(lot => {
+    if (depth[lot.id] <= 0) return;
+    const inputs = links.filter(link => link.child_lot_id === lot.id);
+    const total = inputs.reduce((sum, link) => sum + Number(link.quantity), 0);
+    const exposed = inputs.reduce((sum, link) => sum + Number(link.quantity) * (exposure[link.parent_lot_id] ?? 0), 0);
+    exposure[lot.id] = total > 0 ? Math.min(1, exposed / total) : 0;
+  });
+
+  return { rootIds, lots: ordered, links, depth, exposure };
+}
+
+// Farms whose milk went into the traced lots
+export function sourceFarms(trace: Traceability): SourceFarm[] {
+  const farms = new Map<string, SourceFarm>();
+  trace.lots
+    .filter(lot => lot.kind === 'collection' && lot.farm_id && trace.depth[lot.id] <= 0)
+    .forEach(lot => {
+      const farm = farms.get(lot.farm_id!) ?? { farmId: lot.farm_id!, liters: 0, lots: [] };
+      farm.liters += Number(lot.quantity);
+      farm.lots.push(lot);
+      farms.set(lot.farm_id!, farm);
+    });
+  return [...farms.values()].sort((a, b) => b.liters - a.liters);
+}
+
+export function simulateRecall(
+  trace: Traceability,
+  outlets: { id: string; distributor_id?: string | null }[]
+): RecallSimulation {
+  const affected = trace.lots.filter(lot => trace.depth[lot.id] >= 0 && (trace.exposure[lot.id] ?? 0) > 0);
+  const dispatchLots = affected.filter(lot => lot.kind === 'dispatch');
+  const traced = (lot: Lot) => Number(lot.quantity) * (trace.exposure[lot.id] ?? 0);
+
+  const destinations = new Map<string, RecallDestination>();
+  dispatchLots.forEach(lot => {
+    if (!lot.destination_id || (lot.destination_type !== 'distributor' && lot.destination_type !== 'retail')) return;
+    const key = `${lot.destination_type}:${lot.destination_id}`;
+    const destination = destinations.get(key) ?? {
+      type: lot.destination_type, id: lot.destination_id, lots: [], quantity: 0, tracedQuantity: 0, productIds: []
+    };
+    destination.lots.push(lot);
+    destination.quantity += Number(lot.quantity);
+    destination.tracedQuantity += traced(lot);
+    if (lot.product_id && !destination.productIds.includes(lot.product_id)) destination.productIds.push(lot.product_id);
+    destinations.set(key, destination);
+  });
+
+  const dispatched = (lot: Lot) => trace.links
+    .filter(link => link.parent_lot_id === lot.id)
+    .reduce((sum, link) => sum + Number(link.quantity), 0);
+  const heldStock = affected
+    .filter(lot => lot.kind === 'production')
+    .map(lot => {
+      const quantity = Math.max(0, Number(lot.quantity) - dispatched(lot));
+      return { lot, quantity, tracedQuantity: quantity * (trace.exposure[lot.id] ?? 0) };
+    })
+    .filter(held => held.quantity > 0);
+
+  const distributorIds = new Set([...destinations.values()].filter(d => d.type === 'distributor').map(d => d.id));
+  const directOutletIds = new Set([...destinations.values()].filter(d => d.type === 'retail').map(d => d.id));
+  const indirectOutlets = outlets
+    .filter(outlet => outlet.distributor_id && distributorIds.has(outlet.distributor_id) && !directOutletIds.has(outlet.id))
+    .map(outlet => ({ outletId: outlet.id, distributorId: outlet.distributor_id! }));
+
+  const sortedDestinations = [...destinations.values()].sort((a, b) => b.quantity - a.quantity);
+  return {
+    dispatchLots,
+    destinations: sortedDestinations,
+    heldStock,
+    indirectOutlets,
+    sourceFarms: sourceFarms(trace),
+    totalQuantity: sortedDestinations.reduce((sum, d) => sum + d.quantity, 0) + heldStock.reduce((sum, h) => sum + h.quantity, 0),
+    tracedQuantity: sortedDestinations.reduce((sum, d) => sum + d.tracedQuantity, 0) + heldStock.reduce((sum, h) => sum + h.tracedQuantity, 0)
+  };
+}
+
+const round = (value: number, digits: number = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Recall report as CSV rows: the recalled lots, then dispatches to call
+ * back, stock to hold at the plants, outlets reached through distributors
+ * and the farms that supplied the milk.
+ */
+export function recallReportRows(
+  trace: Traceability,
+  recall: RecallSimulation,
+  names: {
+    node: (type: string, id: string) => string;
+    farm: (id: string) => string;
+    product: (id: string | null) => string;
+  }
+): (string | number)[][] {
+  const roots = trace.lots.filter(lot => trace.depth[lot.id] === 0);
+  return [
+    ['Recall report', new Date().toISOString()],
+    ['Recalled lots', roots.map(lot => lot.lot_code).join(' ')],
+    ['Total quantity', round(recall.totalQuantity), 'Traced to recalled lots', round(recall.tracedQuantity)],
+    [],
+    ['Dispatches to recall'],
+    ['lot_code', 'dispatched_at', 'from_plant', 'product', 'destination_type', 'destination', 'quantity', 'traced_quantity'],
+    ...recall.dispatchLots.map(lot => [
+      lot.lot_code, lot.produced_at, lot.plant_id ? names.node('processing_plant', lot.plant_id) : '',
+      names.product(lot.product_id), lot.destination_type ?? '',
+      lot.destination_type && lot.destination_id ? names.node(lot.destination_type, lot.destination_id) : '',
+      round(Number(lot.quantity)), round(Number(lot.quantity) * (trace.exposure[lot.id] ?? 0))
+    ]),
+    [],
+    ['Stock to hold at plants'],
+    ['lot_code', 'produced_at', 'plant', 'product', 'quantity', 'traced_quantity'],
+    ...recall.heldStock.map(held => [
+      held.lot.lot_code, held.lot.produced_at, held.lot.plant_id ? names.node('processing_plant', held.lot.plant_id) : '',
+      names.product(held.lot.product_id), round(held.quantity), round(held.tracedQuantity)
+    ]),
+    [],
+    ['Outlets served through affected distributors'],
+    ['outlet', 'distributor'],
+    ...recall.indirectOutlets.map(o => [names.node('retail', o.outletId), names.node('distributor', o.distributorId)]),
+    [],
+    ['Source farms'],
+    ['farm', 'collection_lots', 'liters'],
+    ...recall.sourceFarms.map(farm => [names.farm(farm.farmId), farm.lots.map(lot => lot.lot_code).join(' '), round(farm.liters)])
+  ];
+}
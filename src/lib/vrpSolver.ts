@@ -0,0 +1,517 @@
+import type { NetworkNode, VehicleType } from '@/types/products';
+import { createDistanceFunction, createDurationFunction, type DistanceMatrix, type GeoPoint } from '@/lib/geo';
+import type { ColdChainLeg } from '@/lib/coldChain';
+
+/**
+ * Capacitated vehicle routing with time windows (CVRPTW)
+ *
+ * Construction: sequential cheapest-insertion (Solomon I1 style). Tours are
+ * opened one at a time on the vehicle that becomes free first, seeded with
+ * the stop whose time window closes earliest, and grown by inserting the
+ * stop with the smallest added distance that keeps the tour feasible.
+ * A vehicle can run several tours a day; each tour must respect the
+ * vehicle capacity and `maxTripDuration`.
+ *
+ * Improvement: 2-opt within each tour, then or-opt (relocating segments of
+ * 1-3 stops within or between tours) until no move shortens the plan.
+ */
+
+export interface TimeWindow {
+  start: number; // minutes from midnight
+  end: number;
+}
+
+export interface VrpStop {
+  id: string;
+  name: string;
+  type: string;
+  lat: number;
+  lng: number;
+  demandLiters: number;
+  timeWindows: TimeWindow[];
+  serviceMinutes?: number;
+  nodeId?: string; // network node the stop sits at, when the stop id is derived
+}
+
+export interface VrpDepot {
+  id: string;
+  name: string;
+  type: string;
+  lat: number;
+  lng: number;
+  timeWindow: TimeWindow;
+}
+
+export interface VrpVehicle {
+  id: string;
+  vehicleType: VehicleType;
+  dutyWindow?: TimeWindow; // hours the vehicle is available, within the depot's
+}
+
+export interface VrpProblem {
+  depot: VrpDepot;
+  stops: VrpStop[];
+  vehicles: VrpVehicle[];
+  speedKmh?: number;
+  serviceMinutes?: number; // default per-stop loading time
+  turnaroundMinutes?: number; // unloading at the depot between tours
+  maxWaitMinutes?: number; // longest a loaded vehicle may idle before a window opens
+  distanceMatrix?: DistanceMatrix | null;
+}
+
+export interface VrpVisit {
+  stop: VrpStop;
+  arrival: number;
+  serviceStart: number;
+  departure: number;
+  loadAfter: number;
+}
+
+export interface VrpTour {
+  id: string;
+  vehicleId: string;
+  vehicleType: VehicleType;
+  tourNumber: number;
+  departure: number;
+  returnTime: number;
+  visits: VrpVisit[];
+  distanceKm: number;
+  durationHours: number;
+  loadLiters: number;
+  cost: number;
+}
+
+export interface VrpSolution {
+  depot: VrpDepot;
+  tours: VrpTour[];
+  unassigned: VrpStop[];
+  totalDistanceKm: number;
+  totalCost: number;
+  vehiclesUsed: number;
+}
+
+export const DEFAULT_FARM_OPERATING_HOURS: NetworkNode['operatingHours'] = {
+  open: '05:00',
+  close: '21:00',
+  peakHours: ['06:00-09:00', '17:00-20:00']
+};
+
+const DEFAULT_SPEED_KMH = 45; // average speed including rural roads
+const DEFAULT_SERVICE_MINUTES = 15;
+const DEFAULT_TURNAROUND_MINUTES = 30;
+const DEFAULT_MAX_WAIT_MINUTES = 60;
+const MAX_IMPROVEMENT_PASSES = 50;
+const EPSILON = 1e-6;
+
+export function parseClockTime(value: string): number {
+  const [hours, minutes] = value.split(':').map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+}
+
+export function formatClockTime(minutes: number): string {
+  const total = Math.round(minutes);
+  const hours = Math.floor(total / 60) % 24;
+  const mins = total % 60;
+  return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Collection windows for a node. Peak hours are when milk is ready for
+ * pickup, so they take precedence over the general opening hours.
+ */
+export function timeWindowsFromOperatingHours(hours: NetworkNode['operatingHours']): TimeWindow[] {
+  if (hours.peakHours && hours.peakHours.length > 0) {
+    return hours.peakHours
+      .map(range => {
+        const [start, end] = range.split('-');
+        return { start: parseClockTime(start), end: parseClockTime(end) };
+      })
+      .sort((a, b) => a.start - b.start);
+  }
+  return [{ start: parseClockTime(hours.open), end: parseClockTime(hours.close) }];
+}
+
+interface SolverContext {
+  problem: VrpProblem;
+  stops: VrpStop[];
+  distance: number[][]; // index 0 = depot, i + 1 = stops[i]
+  travel: number[][]; // minutes, same indexing
+  serviceMinutes: number;
+  turnaroundMinutes: number;
+  maxWaitMinutes: number;
+}
+
+interface ScheduledTour {
+  feasible: boolean;
+  departure: number;
+  returnTime: number;
+  distanceKm: number;
+  visits: VrpVisit[];
+}
+
+const travelMinutes = (ctx: SolverContext, from: number, to: number) => ctx.travel[from][to];
+
+function scheduleTour(ctx: SolverContext, sequence: number[], vehicle: VrpVehicle, availableAt: number): ScheduledTour {
+  const infeasible: ScheduledTour = { feasible: false, departure: 0, returnTime: 0, distanceKm: 0, visits: [] };
+  const { depot } = ctx.problem;
+  const capacity = vehicle.vehicleType.capacity;
+
+  const totalLoad = sequence.reduce((sum, s) => sum + ctx.stops[s].demandLiters, 0);
+  if (totalLoad > capacity + EPSILON) return infeasible;
+
+  const dutyStart = Math.max(depot.timeWindow.start, vehicle.dutyWindow?.start ?? 0);
+  const dutyEnd = Math.min(depot.timeWindow.end, vehicle.dutyWindow?.end ?? Infinity);
+
+  let departure = Math.max(availableAt, dutyStart);
+  if (sequence.length > 0) {
+    // Leave late enough not to wait at the first stop
+    const firstTravel = travelMinutes(ctx, 0, sequence[0] + 1);
+    const firstWindow = ctx.stops[sequence[0]].timeWindows.find(w => w.end >= departure + firstTravel);
+    if (!firstWindow) return infeasible;
+    departure = Math.max(departure, firstWindow.start - firstTravel);
+  }
+
+  const visits: VrpVisit[] = [];
+  let time = departure;
+  let previous = 0;
+  let load = 0;
+  let distanceKm = 0;
+
+  for (const s of sequence) {
+    const stop = ctx.stops[s];
+    const arrival = time + travelMinutes(ctx, previous, s + 1);
+    const window = stop.timeWindows.find(w => w.end >= arrival);
+    if (!window) return infeasible;
+    const serviceStart = Math.max(arrival, window.start);
+    if (serviceStart - arrival > ctx.maxWaitMinutes + EPSILON) return infeasible;
+    time = serviceStart + (stop.serviceMinutes ?? ctx.serviceMinutes);
+    load += stop.demandLiters;
+    distanceKm += ctx.distance[previous][s + 1];
+    visits.push({ stop, arrival, serviceStart, departure: time, loadAfter: load });
+    previous = s + 1;
+  }
+
+  distanceKm += ctx.distance[previous][0];
+  const returnTime = time + travelMinutes(ctx, previous, 0);
+  if (returnTime > dutyEnd + EPSILON) return infeasible;
+  if (returnTime - departure > vehicle.vehicleType.maxTripDuration * 60 + EPSILON) return infeasible;
+
+  return { feasible: true, departure, returnTime, distanceKm, visits };
+}
+
+// Reschedules every tour of a vehicle back to back; null when any tour breaks
+function scheduleVehicle(ctx: SolverContext, vehicle: VrpVehicle, tours: number[][]): ScheduledTour[] | null {
+  const scheduled: ScheduledTour[] = [];
+  let availableAt = ctx.problem.depot.timeWindow.start;
+  for (const sequence of tours) {
+    const tour = scheduleTour(ctx, sequence, vehicle, availableAt);
+    if (!tour.feasible) return null;
+    scheduled.push(tour);
+    availableAt = tour.returnTime + ctx.turnaroundMinutes;
+  }
+  return scheduled;
+}
+
+const vehicleDistance = (scheduled: ScheduledTour[]) => scheduled.reduce((sum, t) => sum + t.distanceKm, 0);
+
+function construct(ctx: SolverContext): { plan: number[][][]; unassigned: number[] } {
+  const { vehicles, depot } = ctx.problem;
+  const plan: number[][][] = vehicles.map(() => []);
+  const availableAt = vehicles.map(() => depot.timeWindow.start);
+  const exhausted = vehicles.map(() => false);
+  const unrouted = new Set(ctx.stops.map((_, i) => i));
+
+  const deadline = (s: number) => Math.max(...ctx.stops[s].timeWindows.map(w => w.end));
+
+  while (unrouted.size > 0) {
+    let v = -1;
+    vehicles.forEach((_, i) => {
+      if (!exhausted[i] && (v === -1 || availableAt[i] < availableAt[v])) v = i;
+    });
+    if (v === -1) break;
+    const vehicle = vehicles[v];
+
+    // Seed: earliest deadline first, farthest from depot on ties
+    const candidates = [...unrouted].sort((a, b) =>
+      deadline(a) - deadline(b) || ctx.distance[0][b + 1] - ctx.distance[0][a + 1]
+    );
+    const seed = candidates.find(s => scheduleTour(ctx, [s], vehicle, availableAt[v]).feasible);
+    if (seed === undefined) {
+      exhausted[v] = true;
+      continue;
+    }
+
+    const tour = [seed];
+    unrouted.delete(seed);
+
+    for (;;) {
+      let best: { stop: number; position: number; added: number } | null = null;
+      for (const s of unrouted) {
+        for (let position = 0; position <= tour.length; position++) {
+          const before = position === 0 ? 0 : tour[position - 1] + 1;
+          const after = position === tour.length ? 0 : tour[position] + 1;
+          const added = ctx.distance[before][s + 1] + ctx.distance[s + 1][after] - ctx.distance[before][after];
+          if (best && added >= best.added) continue;
+          const candidate = [...tour.slice(0, position), s, ...tour.slice(position)];
+          if (scheduleTour(ctx, candidate, vehicle, availableAt[v]).feasible) {
+            best = { stop: s, position, added };
+          }
+        }
+      }
+      if (!best) break;
+      tour.splice(best.position, 0, best.stop);
+      unrouted.delete(best.stop);
+    }
+
+    const scheduled = scheduleTour(ctx, tour, vehicle, availableAt[v]);
+    plan[v].push(tour);
+    availableAt[v] = scheduled.returnTime + ctx.turnaroundMinutes;
+  }
+
+  return { plan, unassigned: [...unrouted] };
+}
+
+function twoOpt(ctx: SolverContext, plan: number[][][]): void {
+  ctx.problem.vehicles.forEach((vehicle, v) => {
+    let current = scheduleVehicle(ctx, vehicle, plan[v]);
+    if (!current) return;
+
+    plan[v].forEach((tour, t) => {
+      let improved = true;
+      while (improved) {
+        improved = false;
+        for (let i = 0; i < tour.length - 1 && !improved; i++) {
+          for (let j = i + 1; j < tour.length && !improved; j++) {
+            const reversed = [...tour.slice(0, i), ...tour.slice(i, j + 1).reverse(), ...tour.slice(j + 1)];
+            const tours = plan[v].map((existing, k) => (k === t ? reversed : existing));
+            const candidate = scheduleVehicle(ctx, vehicle, tours);
+            if (candidate && vehicleDistance(candidate) < vehicleDistance(current) - EPSILON) {
+              tour.splice(0, tour.length, ...reversed);
+              current = candidate;
+              improved = true;
+            }
+          }
+        }
+      }
+    });
+  });
+}
+
+function orOpt(ctx: SolverContext, plan: number[][][]): void {
+  const { vehicles } = ctx.problem;
+
+  const tryMove = (): boolean => {
+    const baseline = vehicles.map((vehicle, v) => vehicleDistance(scheduleVehicle(ctx, vehicle, plan[v]) || []));
+
+    for (let va = 0; va < vehicles.length; va++) {
+      for (let ta = 0; ta < plan[va].length; ta++) {
+        const source = plan[va][ta];
+        for (let length = 1; length <= 3; length++) {
+          for (let i = 0; i + length <= source.length; i++) {
+            const segment = source.slice(i, i + length);
+            const remaining = [...source.slice(0, i), ...source.slice(i + length)];
+
+            for (let vb = 0; vb < vehicles.length; vb++) {
+              const before = baseline[va] + (va === vb ? 0 : baseline[vb]);
+              for (let tb = 0; tb < plan[vb].length; tb++) {
+                const sameTour = va === vb && ta === tb;
+                const target = sameTour ? remaining : plan[vb][tb];
+                for (let position = 0; position <= target.length; position++) {
+                  if (sameTour && position === i) continue;
+                  const inserted = [...target.slice(0, position), ...segment, ...target.slice(position)];
+
+                  const toursA = plan[va].map((tour, k) => (k === ta ? remaining : tour));
+                  if (va === vb) toursA[tb] = inserted;
+                  const toursB = va === vb ? toursA : plan[vb].map((tour, k) => (k === tb ? inserted : tour));
+                  const cleanA = toursA.filter(tour => tour.length > 0);
+                  const cleanB = toursB.filter(tour => tour.length > 0);
+
+                  const afterA = scheduleVehicle(ctx, vehicles[va], cleanA);
+                  if (!afterA) continue;
+                  const afterB = va === vb ? [] : scheduleVehicle(ctx, vehicles[vb], cleanB);
+                  if (!afterB) continue;
+
+                  if (vehicleDistance(afterA) + vehicleDistance(afterB) < before - EPSILON) {
+                    plan[va] = cleanA;
+                    if (va !== vb) plan[vb] = cleanB;
+                    return true;
+                  }
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+    return false;
+  };
+
+  for (let pass = 0; pass < MAX_IMPROVEMENT_PASSES && tryMove(); pass++) {
+    // keep relocating until no improving move remains
+  }
+}
+
+/**
+ * Splits stops whose demand exceeds the largest vehicle into full-load
+ * pickups so every piece can be served by some tour.
+ */
+function splitOversizedStops(stops: VrpStop[], vehicles: VrpVehicle[]): VrpStop[] {
+  const maxCapacity = Math.max(...vehicles.map(v => v.vehicleType.capacity));
+  return stops.flatMap(stop => {
+    if (stop.demandLiters <= maxCapacity) return [stop];
+    const pieces = Math.ceil(stop.demandLiters / maxCapacity);
+    return Array.from({ length: pieces }, (_, index) => ({
+      ...stop,
+      id: `${stop.id}#${index + 1}`,
+      nodeId: stop.nodeId ?? stop.id,
+      demandLiters: index < pieces - 1 ? maxCapacity : stop.demandLiters - maxCapacity * (pieces - 1)
+    }));
+  });
+}
+
+export function solveVrp(problem: VrpProblem): VrpSolution {
+  const { depot, vehicles } = problem;
+  if (vehicles.length === 0) {
+    return { depot, tours: [], unassigned: problem.stops, totalDistanceKm: 0, totalCost: 0, vehiclesUsed: 0 };
+  }
+
+  const stops = splitOversizedStops(problem.stops, vehicles);
+  const points: GeoPoint[] = [depot, ...stops.map(stop => ({ id: stop.nodeId ?? stop.id, lat: stop.lat, lng: stop.lng }))];
+  const distanceBetween = createDistanceFunction(problem.distanceMatrix);
+  const durationBetween = createDurationFunction(problem.distanceMatrix, problem.speedKmh ?? DEFAULT_SPEED_KMH);
+  const ctx: SolverContext = {
+    problem,
+    stops,
+    distance: points.map(a => points.map(b => distanceBetween(a, b))),
+    travel: points.map(a => points.map(b => durationBetween(a, b) * 60)),
+    serviceMinutes: problem.serviceMinutes ?? DEFAULT_SERVICE_MINUTES,
+    turnaroundMinutes: problem.turnaroundMinutes ?? DEFAULT_TURNAROUND_MINUTES,
+    maxWaitMinutes: problem.maxWaitMinutes ?? DEFAULT_MAX_WAIT_MINUTES
+  };
+
+  const { plan, unassigned } = construct(ctx);
+  twoOpt(ctx, plan);
+  orOpt(ctx, plan);
+
+  const tours: VrpTour[] = [];
+  vehicles.forEach((vehicle, v) => {
+    const scheduled = scheduleVehicle(ctx, vehicle, plan[v]) || [];
+    scheduled.forEach((tour, t) => {
+      tours.push({
+        id: `${depot.id}_${vehicle.id}_${t + 1}`,
+        vehicleId: vehicle.id,
+        vehicleType: vehicle.vehicleType,
+        tourNumber: t + 1,
+        departure: tour.departure,
+        returnTime: tour.returnTime,
+        visits: tour.visits,
+        distanceKm: tour.distanceKm,
+        durationHours: (tour.returnTime - tour.departure) / 60,
+        loadLiters: tour.visits.length > 0 ? tour.visits[tour.visits.length - 1].loadAfter : 0,
+        cost: tour.distanceKm * vehicle.vehicleType.costPerKm
+      });
+    });
+  });
+
+  return {
+    depot,
+    tours,
+    unassigned: unassigned.map(s => stops[s]),
+    totalDistanceKm: tours.reduce((sum, t) => sum + t.distanceKm, 0),
+    totalCost: tours.reduce((sum, t) => sum + t.cost, 0),
+    vehiclesUsed: new Set(tours.map(t => t.vehicleId)).size
+  };
+}
+
+// Stop sequence of a tour as a closed path depot → stops → depot
+export function tourPath(depot: VrpDepot, tour: VrpTour): Array<{ lat: number; lng: number; name: string; type: string }> {
+  const depotPoint = { lat: depot.lat, lng: depot.lng, name: depot.name, type: depot.type };
+  return [
+    depotPoint,
+    ...tour.visits.map(visit => ({ lat: visit.stop.lat, lng: visit.stop.lng, name: visit.stop.name, type: visit.stop.type })),
+    depotPoint
+  ];
+}
+
+/**
+ * Cold-chain legs of a collection tour, for lib/coldChain. The simulation
+ * follows the milk picked up first, so it starts with loading at the first
+ * stop; waiting for a time window counts as travel with the doors shut and
+ * the depot leg ends with unloading.
+ */
+export function coldChainTrip(depot: VrpDepot, tour: VrpTour, unloadingMinutes: number = DEFAULT_TURNAROUND_MINUTES): {
+  startHour: number;
+  originName: string;
+  loadingHours: number;
+  legs: ColdChainLeg[];
+} {
+  const [first, ...rest] = tour.visits;
+  if (!first) {
+    return { startHour: tour.departure / 60, originName: depot.name, loadingHours: 0, legs: [] };
+  }
+
+  let previousDeparture = first.departure;
+  const legs: ColdChainLeg[] = rest.map(visit => {
+    const leg = {
+      name: visit.stop.name,
+      travelHours: (visit.serviceStart - previousDeparture) / 60,
+      dwellHours: (visit.departure - visit.serviceStart) / 60
+    };
+    previousDeparture = visit.departure;
+    return leg;
+  });
+  legs.push({ name: depot.name, travelHours: (tour.returnTime - previousDeparture) / 60, dwellHours: unloadingMinutes / 60 });
+
+  return {
+    startHour: first.serviceStart / 60,
+    originName: first.stop.name,
+    loadingHours: (first.departure - first.serviceStart) / 60,
+    legs
+  };
+}
+
+interface CollectionMapNode {
+  id: string;
+  name: string;
+  type: string;
+  lat: number;
+  lng: number;
+  capacity?: number;
+  production?: number;
+  operatingHours?: NetworkNode['operatingHours'];
+}
+
+const DEFAULT_DEPOT_HOURS: NetworkNode['operatingHours'] = { open: '05:00', close: '22:00' };
+
+/**
+ * One pickup per collection window: a farm with morning and evening peak
+ * hours yields two stops, each carrying half of its daily production.
+ */
+export function collectionStopsFromNodes(nodes: CollectionMapNode[]): VrpStop[] {
+  return nodes.flatMap(node => {
+    const windows = timeWindowsFromOperatingHours(node.operatingHours ?? DEFAULT_FARM_OPERATING_HOURS);
+    const volume = node.production ?? node.capacity ?? 0;
+    return windows.map((window, index) => ({
+      id: windows.length > 1 ? `${node.id}@${index + 1}` : node.id,
+      nodeId: node.id,
+      name: windows.length > 1 ? `${node.name} (${formatClockTime(window.start)})` : node.name,
+      type: node.type,
+      lat: node.lat,
+      lng: node.lng,
+      demandLiters: volume / windows.length,
+      timeWindows: [window]
+    }));
+  });
+}
+
+export function depotFromNode(node: CollectionMapNode): VrpDepot {
+  const hours = node.operatingHours ?? DEFAULT_DEPOT_HOURS;
+  return {
+    id: node.id,
+    name: node.name,
+    type: node.type,
+    lat: node.lat,
+    lng: node.lng,
+    timeWindow: { start: parseClockTime(hours.open), end: parseClockTime(hours.close) }
+  };
+}
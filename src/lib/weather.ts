@@ -0,0 +1,226 @@
+import { WEATHER_FIXTURES, type WeatherFixture } from '@/data/weatherFixtures';
+import type { AmbientTemperatureProfile } from '@/lib/coldChain';
+import type { GeoPoint } from '@/lib/geo';
+import type { WeatherConditions } from '@/types/products';
+
+/**
+ * Weather forecasts
+ *
+ * Providers return hourly forecasts for a point; the app only ever asks
+ * for whole forecasts so that spoilage can follow the temperature at each
+ * departure time instead of a single reading. Forecasts are cached per
+ * ~10 km grid cell (see services/weatherService), which is finer than any
+ * of the backends resolve.
+ */
+
+export interface HourlyWeatherValues {
+  temperature: number; // °C
+  humidity: number; // percentage
+  precipitation: number; // mm/hour
+  windSpeed: number; // km/h
+  uvIndex: number;
+}
+
+export interface HourlyWeather extends HourlyWeatherValues {
+  time: string; // ISO timestamp of the start of the hour
+}
+
+export interface WeatherForecast {
+  provider: string;
+  lat: number;
+  lng: number;
+  fetchedAt: string;
+  hourly: HourlyWeather[];
+}
+
+export interface WeatherProvider {
+  name: string;
+  getForecast(point: GeoPoint, hours: number): Promise<WeatherForecast>;
+}
+
+export const DEFAULT_FORECAST_HOURS = 72;
+export const HOUR_MS = 60 * 60 * 1000;
+
+// Grid cell shared by nearby points, ~11 km north-south
+export function weatherCellKey(point: GeoPoint): string {
+  return `${point.lat.toFixed(1)},${point.lng.toFixed(1)}`;
+}
+
+function startOfHour(date: Date): Date {
+  const hour = new Date(date);
+  hour.setMinutes(0, 0, 0);
+  return hour;
+}
+
+function localMidnight(date: Date): Date {
+  const midnight = new Date(date);
+  midnight.setHours(0, 0, 0, 0);
+  return midnight;
+}
+
+/**
+ * OpenWeatherMap One Call API 3.0. The hourly forecast covers 48 hours, so
+ * longer requests are truncated.
+ */
+export class OpenWeatherMapProvider implements WeatherProvider {
+  readonly name = 'openweathermap';
+
+  constructor(private apiKey: string, private baseUrl: string = 'https://api.openweathermap.org/data/3.0') {}
+
+  async getForecast(point: GeoPoint, hours: number): Promise<WeatherForecast> {
+    const response = await fetch(
+      `${this.baseUrl}/onecall?lat=${point.lat}&lon=${point.lng}&exclude=minutely,daily,alerts&units=metric&appid=${this.apiKey}`
+    );
+    const data = await response.json();
+    if (!response.ok || !Array.isArray(data.hourly)) {
+      throw new Error(`OpenWeatherMap forecast failed: ${data.message ?? response.status}`);
+    }
+
+    return {
+      provider: this.name,
+      lat: point.lat,
+      lng: point.lng,
+      fetchedAt: new Date().toISOString(),
+      hourly: data.hourly.slice(0, hours).map((hour: {
+        dt: number;
+        temp: number;
+        humidity: number;
+        wind_speed: number;
+        uvi?: number;
+        rain?: { '1h'?: number };
+      }) => ({
+        time: new Date(hour.dt * 1000).toISOString(),
+        temperature: hour.temp,
+        humidity: hour.humidity,
+        precipitation: hour.rain?.['1h'] ?? 0,
+        windSpeed: hour.wind_speed * 3.6, // m/s → km/h
+        uvIndex: hour.uvi ?? 0
+      }))
+    };
+  }
+}
+
+/**
+ * Open-Meteo forecast API, or any server speaking the same API (e.g. a
+ * self-hosted instance). Needs no API key.
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly name: string;
+
+  constructor(private baseUrl: string = 'https://api.open-meteo.com') {
+    this.name = `open-meteo:${baseUrl}`;
+  }
+
+  async getForecast(point: GeoPoint, hours: number): Promise<WeatherForecast> {
+    const params = new URLSearchParams({
+      latitude: String(point.lat),
+      longitude: String(point.lng),
+      hourly: 'temperature_2m,relative_humidity_2m,precipitation,wind_speed_10m,uv_index',
+      forecast_hours: String(hours),
+      timeformat: 'unixtime'
+    });
+    const response = await fetch(`${this.baseUrl.replace(/\/$/, '')}/v1/forecast?${params}`);
+    const data = await response.json();
+    if (!response.ok || !data.hourly?.time) {
+      throw new Error(`Open-Meteo forecast failed: ${data.reason ?? response.status}`);
+    }
+
+    const { hourly } = data;
+    return {
+      provider: this.name,
+      lat: point.lat,
+      lng: point.lng,
+      fetchedAt: new Date().toISOString(),
+      hourly: (hourly.time as number[]).map((time, i) => ({
+        time: new Date(time * 1000).toISOString(),
+        temperature: hourly.temperature_2m[i],
+        humidity: hourly.relative_humidity_2m[i],
+        precipitation: hourly.precipitation[i] ?? 0,
+        windSpeed: hourly.wind_speed_10m[i],
+        uvIndex: hourly.uv_index?.[i] ?? 0
+      }))
+    };
+  }
+}
+
+/**
+ * Replays a recorded day (see data/weatherFixtures) from the current hour,
+ * or from a fixed start time so results are reproducible. Works offline.
+ */
+export class FixtureWeatherProvider implements WeatherProvider {
+  readonly name: string;
+
+  constructor(private fixture: WeatherFixture = WEATHER_FIXTURES[0], private startTime?: Date) {
+    this.name = `fixture:${fixture.name}`;
+  }
+
+  async getForecast(point: GeoPoint, hours: number): Promise<WeatherForecast> {
+    const start = startOfHour(this.startTime ?? new Date());
+    const { hourly } = this.fixture;
+
+    return {
+      provider: this.name,
+      lat: point.lat,
+      lng: point.lng,
+      fetchedAt: start.toISOString(),
+      hourly: Array.from({ length: hours }, (_, i) => {
+        const time = new Date(start.getTime() + i * HOUR_MS);
+        return { time: time.toISOString(), ...hourly[time.getHours() % hourly.length] };
+      })
+    };
+  }
+}
+
+/**
+ * Backend from the environment: OpenWeatherMap when VITE_OPENWEATHER_API_KEY
+ * is set, the fixture when VITE_WEATHER_PROVIDER=fixture, otherwise
+ * Open-Meteo (VITE_OPEN_METEO_URL overrides the endpoint).
+ */
+export function createWeatherProvider(env: Record<string, string | undefined> = import.meta.env): WeatherProvider {
+  if (env.VITE_WEATHER_PROVIDER === 'fixture') {
+    const fixture = WEATHER_FIXTURES.find(f => f.name === env.VITE_WEATHER_FIXTURE) ?? WEATHER_FIXTURES[0];
+    return new FixtureWeatherProvider(fixture);
+  }
+  if (env.VITE_OPENWEATHER_API_KEY) {
+    return new OpenWeatherMapProvider(env.VITE_OPENWEATHER_API_KEY);
+  }
+  return new OpenMeteoProvider(env.VITE_OPEN_METEO_URL || undefined);
+}
+
+export const defaultWeatherProvider: WeatherProvider = createWeatherProvider();
+
+// Hour of the forecast covering `at`, falling back to the nearest end
+export function weatherAt(forecast: WeatherForecast, at: Date = new Date()): HourlyWeather | undefined {
+  const { hourly } = forecast;
+  if (hourly.length === 0) return undefined;
+  const target = at.getTime();
+  const index = hourly.findIndex(hour => new Date(hour.time).getTime() + HOUR_MS > target);
+  return hourly[index < 0 ? hourly.length - 1 : index];
+}
+
+export function currentConditions(forecast: WeatherForecast, at: Date = new Date()): WeatherConditions | null {
+  const hour = weatherAt(forecast, at);
+  if (!hour) return null;
+  return {
+    temperature: hour.temperature,
+    humidity: hour.humidity,
+    precipitation: hour.precipitation,
+    windSpeed: hour.windSpeed,
+    uvIndex: hour.uvIndex,
+    timestamp: new Date(hour.time),
+    location: { lat: forecast.lat, lng: forecast.lng }
+  };
+}
+
+/**
+ * Temperature series for lib/coldChain on the clock used by the route
+ * optimizers: hours since local midnight of the reference day.
+ */
+export function forecastToAmbientProfile(forecast: WeatherForecast, referenceDay: Date = new Date()): AmbientTemperatureProfile {
+  const midnight = localMidnight(referenceDay).getTime();
+  const first = forecast.hourly[0];
+  return {
+    startHour: first ? (new Date(first.time).getTime() - midnight) / HOUR_MS : 0,
+    hourly: forecast.hourly.map(hour => hour.temperature)
+  };
+}
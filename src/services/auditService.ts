@@ -0,0 +1,51 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { AuditAction, AuditEntry, AuditedTable } from '@/types/audit';
+
+type AuditRow = Database['public']['Tables']['audit_log']['Row'];
+
+function fromRow(row: AuditRow): AuditEntry {
+  return {
+    id: row.id,
+    table: row.table_name as AuditedTable,
+    recordId: row.record_id,
+    action: row.action as AuditAction,
+    actorId: row.actor_id ?? undefined,
+    actorEmail: row.actor_email ?? undefined,
+    changedAt: row.changed_at,
+    oldData: row.old_data as Record<string, unknown> | null,
+    newData: row.new_data as Record<string, unknown> | null,
+    changedFields: row.changed_fields ?? []
+  };
+}
+
+class AuditService {
+  // Newest first
+  async getRecordHistory(table: AuditedTable, recordId: string, limit: number = 50): Promise<AuditEntry[]> {
+    const { data, error } = await supabase
+      .from('audit_log')
+      .select('*')
+      .eq('table_name', table)
+      .eq('record_id', recordId)
+      .order('changed_at', { ascending: false })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(fromRow);
+  }
+
+  async getRecentChanges(limit: number = 100, table?: AuditedTable): Promise<AuditEntry[]> {
+    let query = supabase
+      .from('audit_log')
+      .select('*')
+      .order('changed_at', { ascending: false })
+      .limit(limit);
+    if (table) query = query.eq('table_name', table);
+
+    const { data, error } = await query;
+    if (error) throw error;
+    return (data || []).map(fromRow);
+  }
+}
+
+export const auditService = new AuditService();
@@ -0,0 +1,87 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { DairyProductRow, VehicleTypeRow } from '@/lib/productCatalog';
+
+export type DairyProductInput = TablesInsert<'dairy_products'>;
+export type VehicleTypeInput = TablesInsert<'vehicle_types'>;
+
+// Catalog ids are chosen slugs, not generated, so new entries are inserted
+// (a duplicate id is an error) and existing ones updated in place
+class CatalogService {
+  async getProducts(): Promise<DairyProductRow[]> {
+    const { data, error } = await supabase
+      .from('dairy_products')
+      .select('*')
+      .order('name', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async saveProduct(product: DairyProductInput, isNew: boolean): Promise<DairyProductRow> {
+    const { data, error } = isNew
+      ? await supabase
+        .from('dairy_products')
+        .insert(product)
+        .select()
+        .single()
+      : await supabase
+        .from('dairy_products')
+        .update({ ...product, updated_at: new Date().toISOString() })
+        .eq('id', product.id)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteProduct(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('dairy_products')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async getVehicleTypes(): Promise<VehicleTypeRow[]> {
+    const { data, error } = await supabase
+      .from('vehicle_types')
+      .select('*')
+      .order('capacity_liters', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async saveVehicleType(vehicleType: VehicleTypeInput, isNew: boolean): Promise<VehicleTypeRow> {
+    const { data, error } = isNew
+      ? await supabase
+        .from('vehicle_types')
+        .insert(vehicleType)
+        .select()
+        .single()
+      : await supabase
+        .from('vehicle_types')
+        .update({ ...vehicleType, updated_at: new Date().toISOString() })
+        .eq('id', vehicleType.id)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  // Fails while registered vehicles are of this type
+  async deleteVehicleType(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('vehicle_types')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+export const catalogService = new CatalogService();
@@ -0,0 +1,31 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type FarmCollectionRecord = Tables<'farm_collection_history'>;
+export type CenterCollectionRecord = Tables<'center_collection_history'>;
+
+class CollectionHistoryService {
+  async getFarmHistory(sinceDate: string): Promise<FarmCollectionRecord[]> {
+    const { data, error } = await supabase
+      .from('farm_collection_history')
+      .select('*')
+      .gte('collection_date', sinceDate)
+      .order('collection_date', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getCenterHistory(sinceDate: string): Promise<CenterCollectionRecord[]> {
+    const { data, error } = await supabase
+      .from('center_collection_history')
+      .select('*')
+      .gte('collection_date', sinceDate)
+      .order('collection_date', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+}
+
+export const collectionHistoryService = new CollectionHistoryService();
@@ -1,4 +1,28 @@
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  optimizeNetworkFlow,
+  buildFlowInputFromRecords,
+  toTransportRoutes,
+  type NetworkFlowOptions,
+  type NetworkFlowPlan
+} from '@/lib/networkFlowOptimizer';
+import {
+  buildDistributionInput,
+  planDistribution,
+  type DistributionOptions,
+  type DistributionPlan,
+  type DistributionRecordOptions
+} from '@/lib/distributionPlanner';
+import {
+  buildProductionInput,
+  planProduction,
+  type ProductionHorizon,
+  type ProductionPlan
+} from '@/lib/productionPlanning';
+import type { StartingInventory } from '@/lib/inventory';
+import { distanceMatrixService } from '@/services/distanceMatrixService';
+import { productionService } from '@/services/productionService';
 
 export interface DairyFarm {
   id: string;
@@ -11,6 +35,7 @@ export interface DairyFarm {
   contact_person?: string;
   phone?: string;
   district: string;
+  region?: string;
   established_year?: number;
   organic_certified: boolean;
   active: boolean;
@@ -22,11 +47,14 @@ export interface ProcessingPlant {
   location_lat: number;
   location_lng: number;
   processing_capacity_liters_per_day: number;
+  silo_capacity_liters?: number; // raw milk storage, 0 when unknown
+  finished_goods_capacity?: number; // cold store, L or kg; 0 when unknown
   plant_type: string;
   products: string[];
   contact_person?: string;
   phone?: string;
   district: string;
+  region?: string;
   established_year?: number;
   certifications?: string[];
   active: boolean;
@@ -44,6 +72,48 @@ export interface CollectionCenter {
   contact_person?: string;
   phone?: string;
   district: string;
+  region?: string;
+  active: boolean;
+}
+
+export interface Distributor {
+  id: string;
+  name: string;
+  location_lat: number;
+  location_lng: number;
+  district: string;
+  distributor_type: string;
+  daily_demand_liters: number;
+  storage_capacity_liters: number;
+  refrigerated_storage: boolean;
+  frozen_storage: boolean;
+  delivery_vehicles: number;
+  service_radius_km?: number;
+  plant_id?: string; // usual supplying plant
+  contact_person?: string;
+  phone?: string;
+  region?: string;
+  active: boolean;
+}
+
+export interface RetailOutlet {
+  id: string;
+  name: string;
+  location_lat: number;
+  location_lng: number;
+  district: string;
+  outlet_type: string;
+  daily_demand_liters: number;
+  storage_capacity_liters: number;
+  refrigerated_storage: boolean;
+  frozen_storage: boolean;
+  distributor_id?: string; // usual supplying distributor
+  product_demand: Json; // liters/day by catalog product id; see lib/distributionPlanner
+  receiving_from: string; // HH:MM:SS
+  receiving_to: string;
+  contact_person?: string;
+  phone?: string;
+  region?: string;
   active: boolean;
 }
 
@@ -60,6 +130,7 @@ export interface TransportRoute {
   cost_per_trip: number;
   frequency_per_day: number;
   optimal_load_liters: number;
+  region?: string;
   active: boolean;
 }
 
@@ -68,6 +139,9 @@ export interface DairyNetworkMetrics {
   totalProduction: number;
   totalProcessingCapacity: number;
   totalCollectionCenters: number;
+  totalDistributors: number;
+  totalRetailOutlets: number;
+  totalRetailDemand: number; // liters/day ordered by retail outlets
   averageTransportCost: number;
   networkEfficiency: number;
   totalCapacity?: number;
@@ -108,6 +182,28 @@ class DairyService {
     return data || [];
   }
 
+  async getDistributors(): Promise<Distributor[]> {
+    const { data, error } = await supabase
+      .from('distributors')
+      .select('*')
+      .eq('active', true)
+      .order('daily_demand_liters', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async getRetailOutlets(): Promise<RetailOutlet[]> {
+    const { data, error } = await supabase
+      .from('retail_outlets')
+      .select('*')
+      .eq('active', true)
+      .order('daily_demand_liters', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
   async getTransportRoutes(): Promise<TransportRoute[]> {
     const { data, error } = await supabase
       .from('transport_routes')
@@ -119,15 +215,18 @@ class DairyService {
     return data || [];
   }
 
-  async calculateNetworkMetrics(): Promise<DairyNetworkMetrics> {
-    const [farms, plants, centers, routes] = await Promise.all([
+  // farmVolumes (liters/day by farm id) replaces nameplate production, e.g. with forecast volumes
+  async calculateNetworkMetrics(farmVolumes?: Record<string, number>): Promise<DairyNetworkMetrics> {
+    const [farms, plants, centers, distributors, outlets, routes] = await Promise.all([
       this.getDairyFarms(),
       this.getProcessingPlants(),
       this.getCollectionCenters(),
+      this.getDistributors(),
+      this.getRetailOutlets(),
       this.getTransportRoutes()
     ]);
 
-    const totalProduction = farms.reduce((sum, farm) => sum + farm.daily_production_liters, 0);
+    const totalProduction = farms.reduce((sum, farm) => sum + (farmVolumes?.[farm.id] ?? farm.daily_production_liters), 0);
     const totalProcessingCapacity = plants.reduce((sum, plant) => sum + plant.processing_capacity_liters_per_day, 0);
     const averageTransportCost = routes.reduce((sum, route) => sum + route.cost_per_trip, 0) / routes.length;
     const networkEfficiency = Math.min((totalProduction / totalProcessingCapacity) * 100, 100);
@@ -137,12 +236,16 @@ class DairyService {
       totalProduction,
       totalProcessingCapacity,
       totalCollectionCenters: centers.length,
+      totalDistributors: distributors.length,
+      totalRetailOutlets: outlets.length,
+      totalRetailDemand: outlets.reduce((sum, outlet) => sum + outlet.daily_demand_liters, 0),
       averageTransportCost: averageTransportCost || 0,
       networkEfficiency: networkEfficiency || 0
     };
   }
 
-  async addDairyFarm(farm: Omit<DairyFarm, 'id'>): Promise<DairyFarm> {
+  // An id may be given to re-create a deleted record under its old id
+  async addDairyFarm(farm: Omit<DairyFarm, 'id'> & { id?: string }): Promise<DairyFarm> {
     const { data, error } = await supabase
       .from('dairy_farms')
       .insert([farm])
@@ -153,7 +256,28 @@ class DairyService {
     return data;
   }
 
-  async addProcessingPlant(plant: Omit<ProcessingPlant, 'id'>): Promise<ProcessingPlant> {
+  async updateDairyFarm(id: string, updates: Partial<Omit<DairyFarm, 'id'>>): Promise<DairyFarm> {
+    const { data, error } = await supabase
+      .from('dairy_farms')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteDairyFarm(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('dairy_farms')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async addProcessingPlant(plant: Omit<ProcessingPlant, 'id'> & { id?: string }): Promise<ProcessingPlant> {
     const { data, error } = await supabase
       .from('processing_plants')
       .insert([plant])
@@ -164,7 +288,28 @@ class DairyService {
     return data;
   }
 
-  async addCollectionCenter(center: Omit<CollectionCenter, 'id'>): Promise<CollectionCenter> {
+  async updateProcessingPlant(id: string, updates: Partial<Omit<ProcessingPlant, 'id'>>): Promise<ProcessingPlant> {
+    const { data, error } = await supabase
+      .from('processing_plants')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteProcessingPlant(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('processing_plants')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async addCollectionCenter(center: Omit<CollectionCenter, 'id'> & { id?: string }): Promise<CollectionCenter> {
     const { data, error } = await supabase
       .from('collection_centers')
       .insert([center])
@@ -175,7 +320,92 @@ class DairyService {
     return data;
   }
 
-  async addTransportRoute(route: Omit<TransportRoute, 'id'>): Promise<TransportRoute> {
+  async updateCollectionCenter(id: string, updates: Partial<Omit<CollectionCenter, 'id'>>): Promise<CollectionCenter> {
+    const { data, error } = await supabase
+      .from('collection_centers')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteCollectionCenter(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('collection_centers')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async addDistributor(distributor: Omit<Distributor, 'id'> & { id?: string }): Promise<Distributor> {
+    const { data, error } = await supabase
+      .from('distributors')
+      .insert([distributor])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateDistributor(id: string, updates: Partial<Omit<Distributor, 'id'>>): Promise<Distributor> {
+    const { data, error } = await supabase
+      .from('distributors')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteDistributor(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('distributors')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async addRetailOutlet(outlet: Omit<RetailOutlet, 'id'> & { id?: string }): Promise<RetailOutlet> {
+    const { data, error } = await supabase
+      .from('retail_outlets')
+      .insert([outlet])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async updateRetailOutlet(id: string, updates: Partial<Omit<RetailOutlet, 'id'>>): Promise<RetailOutlet> {
+    const { data, error } = await supabase
+      .from('retail_outlets')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteRetailOutlet(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('retail_outlets')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async addTransportRoute(route: Omit<TransportRoute, 'id'> & { id?: string }): Promise<TransportRoute> {
     const { data, error } = await supabase
       .from('transport_routes')
       .insert([route])
@@ -186,85 +416,78 @@ class DairyService {
     return data;
   }
 
-  // Demo scenarios
-  async generateOptimizedRoutes(): Promise<TransportRoute[]> {
+  async updateTransportRoute(id: string, updates: Partial<Omit<TransportRoute, 'id'>>): Promise<TransportRoute> {
+    const { data, error } = await supabase
+      .from('transport_routes')
+      .update(updates)
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteTransportRoute(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('transport_routes')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Capacity-aware farm → center → plant plan (see lib/networkFlowOptimizer)
+  async planNetworkFlow(options?: Partial<NetworkFlowOptions>, farmVolumes?: Record<string, number>): Promise<NetworkFlowPlan> {
     const [farms, centers, plants] = await Promise.all([
       this.getDairyFarms(),
       this.getCollectionCenters(),
       this.getProcessingPlants()
     ]);
 
-    const optimizedRoutes: Omit<TransportRoute, 'id'>[] = [];
-
-    // Generate farm to collection center routes
-    farms.forEach(farm => {
-      const nearestCenter = centers.reduce((nearest, center) => {
-        const farmDistance = Math.sqrt(
-          Math.pow(farm.location_lat - center.location_lat, 2) + 
-          Math.pow(farm.location_lng - center.location_lng, 2)
-        );
-        const nearestDistance = Math.sqrt(
-          Math.pow(farm.location_lat - nearest.location_lat, 2) + 
-          Math.pow(farm.location_lng - nearest.location_lng, 2)
-        );
-        return farmDistance < nearestDistance ? center : nearest;
-      });
-
-      const distance = Math.sqrt(
-        Math.pow(farm.location_lat - nearestCenter.location_lat, 2) + 
-        Math.pow(farm.location_lng - nearestCenter.location_lng, 2)
-      ) * 111; // Convert to approximate km
-
-      optimizedRoutes.push({
-        route_name: `${farm.name} → ${nearestCenter.name}`,
-        from_type: 'farm',
-        from_id: farm.id,
-        to_type: 'collection_center',
-        to_id: nearestCenter.id,
-        distance_km: distance,
-        estimated_time_hours: distance / 40, // Assuming 40 km/h average speed
-        vehicle_type: 'milk_tanker',
-        cost_per_trip: distance * 8, // ₹8 per km
-        frequency_per_day: 2,
-        optimal_load_liters: Math.min(farm.daily_production_liters / 2, 2000),
-        active: true
-      });
-    });
-
-    // Generate collection center to processing plant routes
-    centers.forEach(center => {
-      const nearestPlant = plants.reduce((nearest, plant) => {
-        const centerDistance = Math.sqrt(
-          Math.pow(center.location_lat - plant.location_lat, 2) + 
-          Math.pow(center.location_lng - plant.location_lng, 2)
-        );
-        const nearestDistance = Math.sqrt(
-          Math.pow(center.location_lat - nearest.location_lat, 2) + 
-          Math.pow(center.location_lng - nearest.location_lng, 2)
-        );
-        return centerDistance < nearestDistance ? plant : nearest;
-      });
-
-      const distance = Math.sqrt(
-        Math.pow(center.location_lat - nearestPlant.location_lat, 2) + 
-        Math.pow(center.location_lng - nearestPlant.location_lng, 2)
-      ) * 111;
-
-      optimizedRoutes.push({
-        route_name: `${center.name} → ${nearestPlant.name}`,
-        from_type: 'collection_center',
-        from_id: center.id,
-        to_type: 'processing_plant',
-        to_id: nearestPlant.id,
-        distance_km: distance,
-        estimated_time_hours: distance / 45, // Faster on highways
-        vehicle_type: 'refrigerated_truck',
-        cost_per_trip: distance * 12, // ₹12 per km for refrigerated transport
-        frequency_per_day: 1,
-        optimal_load_liters: center.storage_capacity_liters,
-        active: true
-      });
-    });
+    const input = buildFlowInputFromRecords(farms, centers, plants, farmVolumes);
+    const distanceMatrix = options?.distanceMatrix ?? await distanceMatrixService.getMatrix(
+      [...input.farms, ...input.centers, ...input.plants].map(({ id, lat, lng }) => ({ id, lat, lng }))
+    );
+
+    return optimizeNetworkFlow(input, { ...options, distanceMatrix });
+  }
+
+  async planDistribution(records: DistributionRecordOptions, options?: Partial<DistributionOptions>): Promise<DistributionPlan> {
+    const [plants, distributors, outlets] = await Promise.all([
+      this.getProcessingPlants(),
+      this.getDistributors(),
+      this.getRetailOutlets()
+    ]);
+
+    const input = buildDistributionInput(plants, distributors, outlets, records);
+    const distanceMatrix = options?.distanceMatrix ?? await distanceMatrixService.getMatrix(
+      [...input.plants, ...input.distributors, ...input.outlets].map(({ id, lat, lng }) => ({ id, lat, lng }))
+    );
+
+    return planDistribution(input, { ...options, distanceMatrix });
+  }
+
+  // demandPerDay caps each product's output (units/day); farmVolumes as for planNetworkFlow;
+  // inventory (inventoryService.getStartingInventory) adds silo milk and nets finished stock off demand
+  async planProduction(
+    horizon: ProductionHorizon,
+    demandPerDay: Record<string, number>,
+    farmVolumes?: Record<string, number>,
+    inventory?: StartingInventory
+  ): Promise<ProductionPlan> {
+    const [plants, lines, flow] = await Promise.all([
+      this.getProcessingPlants(),
+      productionService.getLines(),
+      this.planNetworkFlow(undefined, farmVolumes)
+    ]);
+
+    return planProduction(buildProductionInput(plants, lines, flow, demandPerDay, horizon, inventory));
+  }
+
+  async generateOptimizedRoutes(options?: Partial<NetworkFlowOptions>, farmVolumes?: Record<string, number>): Promise<TransportRoute[]> {
+    const plan = await this.planNetworkFlow(options, farmVolumes);
+    const optimizedRoutes = toTransportRoutes(plan);
 
     // Insert optimized routes
     const { data, error } = await supabase
@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  defaultMatrixProvider,
+  nodeSetKey,
+  type DistanceMatrix,
+  type DistanceMatrixProvider,
+  type GeoPoint
+} from '@/lib/geo';
+
+class DistanceMatrixService {
+  /**
+   * Returns the matrix for a node set, computing it with the provider and
+   * caching it in distance_matrices on a miss. Rows follow node id order.
+   */
+  async getMatrix(
+    points: Required<GeoPoint>[],
+    provider: DistanceMatrixProvider = defaultMatrixProvider
+  ): Promise<DistanceMatrix> {
+    const sorted = [...points].sort((a, b) => a.id.localeCompare(b.id));
+    const key = nodeSetKey(sorted);
+
+    const { data: cached, error } = await supabase
+      .from('distance_matrices')
+      .select('*')
+      .eq('node_set_key', key)
+      .eq('provider', provider.name)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching cached distance matrix:', error);
+    }
+    if (cached) {
+      return {
+        provider: cached.provider,
+        nodeIds: cached.node_ids,
+        distancesKm: cached.distances_km as number[][],
+        durationsHours: (cached.durations_hours as number[][] | null) ?? undefined
+      };
+    }
+
+    const matrix = await provider.getMatrix(sorted);
+
+    // The cache is best effort; a failed write only costs a recomputation
+    const { error: saveError } = await supabase
+      .from('distance_matrices')
+      .upsert({
+        node_set_key: key,
+        provider: provider.name,
+        node_ids: matrix.nodeIds,
+        distances_km: matrix.distancesKm,
+        durations_hours: matrix.durationsHours ?? null
+      }, { onConflict: 'node_set_key,provider' });
+
+    if (saveError) {
+      console.error('Error caching distance matrix:', saveError);
+    }
+    return matrix;
+  }
+}
+
+export const distanceMatrixService = new DistanceMatrixService();
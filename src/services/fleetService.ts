@@ -0,0 +1,97 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { DairyVehicle, VehicleDowntime } from '@/lib/fleet';
+
+export type DairyVehicleInput = TablesInsert<'dairy_vehicles'>;
+export type VehicleDowntimeInput = TablesInsert<'vehicle_downtime'>;
+
+class FleetService {
+  async getVehicles(): Promise<DairyVehicle[]> {
+    const { data, error } = await supabase
+      .from('dairy_vehicles')
+      .select('*')
+      .order('registration');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Inserts a new vehicle, or updates the given one
+  async saveVehicle(vehicle: DairyVehicleInput): Promise<DairyVehicle> {
+    const { data, error } = vehicle.id
+      ? await supabase
+        .from('dairy_vehicles')
+        .update({ ...vehicle, updated_at: new Date().toISOString() })
+        .eq('id', vehicle.id)
+        .select()
+        .single()
+      : await supabase
+        .from('dairy_vehicles')
+        .insert(vehicle)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async recordOdometer(id: string, odometerKm: number, serviced: boolean = false): Promise<DairyVehicle> {
+    const { data, error } = await supabase
+      .from('dairy_vehicles')
+      .update({
+        odometer_km: odometerKm,
+        ...(serviced ? { last_service_km: odometerKm } : {}),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteVehicle(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('dairy_vehicles')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  // Downtime overlapping [from, to)
+  async getDowntime(from: string, to: string): Promise<VehicleDowntime[]> {
+    const { data, error } = await supabase
+      .from('vehicle_downtime')
+      .select('*')
+      .lt('starts_at', to)
+      .gt('ends_at', from)
+      .order('starts_at');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async addDowntime(downtime: VehicleDowntimeInput): Promise<VehicleDowntime> {
+    const { data, error } = await supabase
+      .from('vehicle_downtime')
+      .insert(downtime)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteDowntime(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('vehicle_downtime')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+export const fleetService = new FleetService();
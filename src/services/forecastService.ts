@@ -0,0 +1,114 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Enums, Json } from '@/integrations/supabase/types';
+import type { MarketDemand } from '@/services/supplyChainService';
+import type { BacktestMetrics, ForecastModel, ForecastPoint } from '@/lib/demandForecasting';
+
+type FishType = Enums<'fish_type'>;
+
+export interface StoredForecast {
+  id: string;
+  forecast_type: string;
+  market_id: string | null;
+  fish_type: string | null;
+  target_date: string;
+  predicted_value: number;
+  confidence_level: number | null;
+  factors: Json | null;
+  created_at: string | null;
+}
+
+export interface SaveForecastParams {
+  forecastType: string;
+  marketId: string;
+  fishType: string;
+  model: ForecastModel;
+  confidenceLevel: number;
+  points: ForecastPoint[];
+  backtest: BacktestMetrics | null;
+}
+
+class ForecastService {
+  async getDemandHistory(marketId: string, fishType: string) {
+    const { data, error } = await supabase
+      .from('market_demand')
+      .select('*')
+      .eq('market_id', marketId)
+      .eq('fish_type', fishType as FishType)
+      .order('demand_date');
+
+    if (error) {
+      console.error('Error fetching demand history:', error);
+      throw error;
+    }
+    return data as MarketDemand[];
+  }
+
+  async getForecasts(forecastType: string, marketId: string, fishType: string) {
+    const { data, error } = await supabase
+      .from('forecasts')
+      .select('*')
+      .eq('forecast_type', forecastType)
+      .eq('market_id', marketId)
+      .eq('fish_type', fishType as FishType)
+      .order('target_date');
+
+    if (error) {
+      console.error('Error fetching forecasts:', error);
+      throw error;
+    }
+    return data as StoredForecast[];
+  }
+
+  /**
+   * Stores a forecast run, replacing earlier forecasts for the same market,
+   * fish type and dates. Interval bounds and backtest scores go in factors.
+   */
+  async saveForecasts(params: SaveForecastParams) {
+    const { forecastType, marketId, fishType, model, confidenceLevel, points, backtest } = params;
+    if (points.length === 0) return [];
+
+    const { error: deleteError } = await supabase
+      .from('forecasts')
+      .delete()
+      .eq('forecast_type', forecastType)
+      .eq('market_id', marketId)
+      .eq('fish_type', fishType as FishType)
+      .gte('target_date', points[0].date)
+      .lte('target_date', points[points.length - 1].date);
+
+    if (deleteError) {
+      console.error('Error replacing forecasts:', deleteError);
+      throw deleteError;
+    }
+
+    const generatedAt = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('forecasts')
+      .insert(points.map((point, i) => ({
+        forecast_type: forecastType,
+        market_id: marketId,
+        fish_type: fishType as FishType,
+        target_date: point.date,
+        predicted_value: point.value,
+        confidence_level: confidenceLevel,
+        factors: {
+          model,
+          lower: point.lower,
+          upper: point.upper,
+          horizon_day: i + 1,
+          backtest_mape: backtest?.mape ?? null,
+          backtest_rmse: backtest?.rmse ?? null,
+          generated_at: generatedAt
+        }
+      })))
+      .select();
+
+    if (error) {
+      console.error('Error saving forecasts:', error);
+      throw error;
+    }
+    return data as StoredForecast[];
+  }
+}
+
+export const forecastService = new ForecastService();
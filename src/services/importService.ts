@@ -0,0 +1,107 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { CSVTemplate, ImportTable } from '@/data/importTemplates';
+import { recordKey, type ImportContext, type ImportPreview, type ImportResult } from '@/lib/dataImport';
+import type { NetworkExport } from '@/lib/networkExport';
+
+// Route endpoint types that map to a table
+const NODE_TABLES: Record<string, ImportTable> = {
+  farm: 'dairy_farms',
+  collection_center: 'collection_centers',
+  processing_plant: 'processing_plants',
+  distributor: 'distributors',
+  retail: 'retail_outlets'
+};
+
+class ImportService {
+  private async getKeyRows(table: ImportTable): Promise<Record<string, unknown>[]> {
+    const { data, error } = table === 'transport_routes'
+      ? await supabase.from(table).select('id, route_name')
+      : await supabase.from(table).select('id, name, district');
+
+    if (error) throw error;
+    return (data || []) as Record<string, unknown>[];
+  }
+
+  async getImportContext(template: CSVTemplate): Promise<ImportContext> {
+    const context: ImportContext = {};
+
+    if (template.table) {
+      const existing = await this.getKeyRows(template.table);
+      context.existingKeys = new Map(
+        existing.map(row => [recordKey(template, row as Record<string, string>), row.id as string])
+      );
+    }
+
+    if (template.table === 'transport_routes' || template.fields.some(field => field.nodeType)) {
+      context.resolveNode = await this.getNodeResolver();
+    }
+    return context;
+  }
+
+  // Nodes are referenced by id or by exact (case-insensitive) name
+  private async getNodeResolver(): Promise<NonNullable<ImportContext['resolveNode']>> {
+    const nodeTypes = Object.keys(NODE_TABLES);
+    const nodeRows = await Promise.all(nodeTypes.map(type => this.getKeyRows(NODE_TABLES[type])));
+    const nodesByType = new Map(nodeTypes.map((type, i) => [type, nodeRows[i]]));
+
+    const resolveNode = (nodeType: string, reference: string) => {
+      const lower = reference.trim().toLowerCase();
+      const match = nodesByType.get(nodeType)?.find(row =>
+        row.id === reference.trim() || String(row.name).trim().toLowerCase() === lower
+      );
+      return match?.id as string | undefined;
+    };
+
+    return resolveNode;
+  }
+
+  async commitImport(preview: ImportPreview): Promise<ImportResult> {
+    const { template } = preview;
+    if (!template.table) {
+      throw new Error(`${template.name} can be validated but not imported yet`);
+    }
+    if (preview.missingHeaders.length > 0) {
+      throw new Error(`Missing required columns: ${preview.missingHeaders.join(', ')}`);
+    }
+
+    const records = preview.rows.filter(row => row.errors.length === 0).map(row => row.record);
+    const rejected = preview.rows.length - records.length;
+    if (records.length === 0) return { inserted: 0, updated: 0, rejected };
+
+    // One RPC call so the whole file is written in a single transaction
+    const { data, error } = await supabase.rpc('import_network_records', {
+      _table: template.table,
+      _records: records as unknown as Json
+    });
+
+    if (error) throw error;
+    const counts = data as { inserted: number; updated: number };
+    return { inserted: counts.inserted, updated: counts.updated, rejected };
+  }
+
+  // Writes a JSON network export back, keeping record ids, in one transaction
+  async restoreNetworkExport(data: NetworkExport): Promise<Partial<Record<ImportTable, ImportResult>>> {
+    const tables: Record<ImportTable, unknown[]> = {
+      dairy_farms: data.farms,
+      collection_centers: data.collectionCenters,
+      processing_plants: data.processingPlants,
+      distributors: data.distributors,
+      retail_outlets: data.retailOutlets,
+      transport_routes: data.transportRoutes
+    };
+
+    const { data: counts, error } = await supabase.rpc('import_network_snapshot', {
+      _tables: tables as unknown as Json
+    });
+
+    if (error) throw error;
+    const results: Partial<Record<ImportTable, ImportResult>> = {};
+    Object.entries(counts as Record<ImportTable, { inserted: number; updated: number }>).forEach(([table, count]) => {
+      results[table as ImportTable] = { inserted: count.inserted, updated: count.updated, rejected: 0 };
+    });
+    return results;
+  }
+}
+
+export const importService = new ImportService();
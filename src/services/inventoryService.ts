@@ -0,0 +1,61 @@
+import { supabase } from '@/integrations/supabase/client';
+import {
+  entryMovements,
+  startingInventory,
+  type InventoryEntry,
+  type InventoryLevel,
+  type InventoryMovement,
+  type StartingInventory
+} from '@/lib/inventory';
+
+class InventoryService {
+  // Every stock's level at a moment (now by default)
+  async getLevels(at?: string): Promise<InventoryLevel[]> {
+    const { data, error } = await supabase.rpc('inventory_levels', at ? { _at: at } : {});
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Movements after `from` up to and including `to`, oldest first
+  async getMovements(from: string, to: string): Promise<InventoryMovement[]> {
+    const { data, error } = await supabase
+      .from('inventory_movements')
+      .select('*')
+      .gt('occurred_at', from)
+      .lte('occurred_at', to)
+      .order('occurred_at')
+      .order('created_at');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async recordEntry(entry: InventoryEntry): Promise<InventoryMovement[]> {
+    const { data, error } = await supabase
+      .from('inventory_movements')
+      .insert(entryMovements(entry, crypto.randomUUID()))
+      .select();
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Removes a movement with the others recorded alongside it
+  async deleteTransaction(transactionId: string): Promise<void> {
+    const { error } = await supabase
+      .from('inventory_movements')
+      .delete()
+      .eq('transaction_id', transactionId);
+
+    if (error) throw error;
+  }
+
+  // Stock to start an optimization run from
+  async getStartingInventory(at?: string): Promise<StartingInventory> {
+    const levels = await this.getLevels(at);
+    return startingInventory(levels, at ?? new Date().toISOString());
+  }
+}
+
+export const inventoryService = new InventoryService();
@@ -0,0 +1,86 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { ImportPreview, ImportResult } from '@/lib/dataImport';
+import type { MilkCollection } from '@/lib/milkQuality';
+
+export type MilkCollectionInput = TablesInsert<'milk_collections'>;
+
+// Natural key: one entry per farm, center, day and shift
+const COLLECTION_KEY = 'farm_id,center_id,collection_date,shift';
+
+const collectionKey = (entry: Pick<MilkCollectionInput, 'farm_id' | 'center_id' | 'collection_date' | 'shift'>) =>
+  [entry.farm_id, entry.center_id, entry.collection_date, entry.shift].join('|');
+
+class MilkCollectionService {
+  async getCollections(fromDate: string, toDate: string): Promise<MilkCollection[]> {
+    const { data, error } = await supabase
+      .from('milk_collections')
+      .select('*')
+      .gte('collection_date', fromDate)
+      .lte('collection_date', toDate)
+      .order('collection_date', { ascending: false })
+      .order('shift', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Recording the same farm, center, day and shift again replaces the entry
+  async saveCollection(entry: MilkCollectionInput): Promise<MilkCollection> {
+    const { data, error } = await supabase
+      .from('milk_collections')
+      .upsert({ ...entry, updated_at: new Date().toISOString() }, { onConflict: COLLECTION_KEY })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteCollection(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('milk_collections')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+
+  async importCollections(preview: ImportPreview): Promise<ImportResult> {
+    if (preview.missingHeaders.length > 0) {
+      throw new Error(`Missing required columns: ${preview.missingHeaders.join(', ')}`);
+    }
+
+    const valid = preview.rows.filter(row => row.errors.length === 0);
+    const rejected = preview.rows.length - valid.length;
+    if (valid.length === 0) return { inserted: 0, updated: 0, rejected };
+
+    const records = valid.map(row => row.record as unknown as MilkCollectionInput);
+    const existing = await this.existingKeys(records);
+
+    const updatedAt = new Date().toISOString();
+    const { error } = await supabase
+      .from('milk_collections')
+      .upsert(records.map(record => ({ ...record, updated_at: updatedAt })), { onConflict: COLLECTION_KEY });
+
+    if (error) throw error;
+    const updated = records.filter(record => existing.has(collectionKey(record))).length;
+    return { inserted: records.length - updated, updated, rejected };
+  }
+
+  // Keys of stored entries that a batch would replace
+  private async existingKeys(records: MilkCollectionInput[]): Promise<Set<string>> {
+    const dates = records.map(record => record.collection_date).sort();
+    const { data, error } = await supabase
+      .from('milk_collections')
+      .select('farm_id, center_id, collection_date, shift')
+      .in('farm_id', [...new Set(records.map(record => record.farm_id))])
+      .gte('collection_date', dates[0])
+      .lte('collection_date', dates[dates.length - 1]);
+
+    if (error) throw error;
+    return new Set((data || []).map(collectionKey));
+  }
+}
+
+export const milkCollectionService = new MilkCollectionService();
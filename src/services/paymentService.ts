@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { MilkRateCard, PaymentDeduction } from '@/lib/milkPayments';
+
+export type RateCardInput = TablesInsert<'milk_rate_cards'>;
+export type DeductionInput = TablesInsert<'farm_payment_deductions'>;
+
+class PaymentService {
+  async getRateCards(): Promise<MilkRateCard[]> {
+    const { data, error } = await supabase
+      .from('milk_rate_cards')
+      .select('*')
+      .order('effective_from', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Inserts a new card, or updates the given one
+  async saveRateCard(card: RateCardInput): Promise<MilkRateCard> {
+    const { data, error } = card.id
+      ? await supabase
+        .from('milk_rate_cards')
+        .update({ ...card, updated_at: new Date().toISOString() })
+        .eq('id', card.id)
+        .select()
+        .single()
+      : await supabase
+        .from('milk_rate_cards')
+        .insert(card)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async getDeductions(fromDate: string, toDate: string): Promise<PaymentDeduction[]> {
+    const { data, error } = await supabase
+      .from('farm_payment_deductions')
+      .select('*')
+      .gte('deduction_date', fromDate)
+      .lte('deduction_date', toDate)
+      .order('deduction_date', { ascending: true });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  async addDeduction(deduction: DeductionInput): Promise<PaymentDeduction> {
+    const { data, error } = await supabase
+      .from('farm_payment_deductions')
+      .insert(deduction)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteDeduction(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('farm_payment_deductions')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+export const paymentService = new PaymentService();
@@ -0,0 +1,48 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesInsert } from '@/integrations/supabase/types';
+import type { ProductionLineRow } from '@/lib/productionPlanning';
+
+export type ProductionLineInput = TablesInsert<'plant_production_lines'>;
+
+class ProductionService {
+  async getLines(): Promise<ProductionLineRow[]> {
+    const { data, error } = await supabase
+      .from('plant_production_lines')
+      .select('*')
+      .order('plant_id')
+      .order('product_id');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Inserts a new line, or updates the given one
+  async saveLine(line: ProductionLineInput): Promise<ProductionLineRow> {
+    const { data, error } = line.id
+      ? await supabase
+        .from('plant_production_lines')
+        .update({ ...line, updated_at: new Date().toISOString() })
+        .eq('id', line.id)
+        .select()
+        .single()
+      : await supabase
+        .from('plant_production_lines')
+        .insert(line)
+        .select()
+        .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  async deleteLine(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('plant_production_lines')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+export const productionService = new ProductionService();
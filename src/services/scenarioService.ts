@@ -0,0 +1,132 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Json } from '@/integrations/supabase/types';
+import type { NetworkScenario, ScenarioSnapshot, OptimizationConstraints, OptimizedRoute } from '@/types/scenarios';
+import type { EnhancedMapNode } from '@/components/EnhancedSupplyChainMap';
+
+type ScenarioRow = Database['public']['Tables']['scenarios']['Row'];
+type ScenarioUpdate = Database['public']['Tables']['scenarios']['Update'];
+
+function fromRow(row: ScenarioRow): NetworkScenario {
+  return {
+    id: row.id,
+    name: row.name,
+    description: row.description ?? undefined,
+    parentId: row.parent_id ?? undefined,
+    nodes: row.nodes as unknown as EnhancedMapNode[],
+    routes: row.routes as unknown as OptimizedRoute[],
+    summaryRoute: (row.summary_route as unknown as OptimizedRoute | null) ?? null,
+    selectedProducts: row.selected_products,
+    selectedVehicles: row.selected_vehicles,
+    constraints: row.constraints as unknown as OptimizationConstraints,
+    createdAt: row.created_at ?? '',
+    updatedAt: row.updated_at ?? ''
+  };
+}
+
+function toColumns(snapshot: Partial<ScenarioSnapshot>): ScenarioUpdate {
+  const columns: ScenarioUpdate = {};
+  if (snapshot.nodes !== undefined) columns.nodes = snapshot.nodes as unknown as Json;
+  if (snapshot.routes !== undefined) columns.routes = snapshot.routes as unknown as Json;
+  if (snapshot.summaryRoute !== undefined) columns.summary_route = snapshot.summaryRoute as unknown as Json;
+  if (snapshot.selectedProducts !== undefined) columns.selected_products = snapshot.selectedProducts;
+  if (snapshot.selectedVehicles !== undefined) columns.selected_vehicles = snapshot.selectedVehicles;
+  if (snapshot.constraints !== undefined) columns.constraints = snapshot.constraints as unknown as Json;
+  return columns;
+}
+
+class ScenarioService {
+  async getScenarios(): Promise<NetworkScenario[]> {
+    const { data, error } = await supabase
+      .from('scenarios')
+      .select('*')
+      .order('updated_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(fromRow);
+  }
+
+  async getScenario(id: string): Promise<NetworkScenario> {
+    const { data, error } = await supabase
+      .from('scenarios')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) throw error;
+    return fromRow(data);
+  }
+
+  async createScenario(name: string, snapshot: ScenarioSnapshot, description?: string): Promise<NetworkScenario> {
+    const { data, error } = await supabase
+      .from('scenarios')
+      .insert({
+        name,
+        description,
+        nodes: snapshot.nodes as unknown as Json,
+        routes: snapshot.routes as unknown as Json,
+        summary_route: snapshot.summaryRoute as unknown as Json,
+        selected_products: snapshot.selectedProducts,
+        selected_vehicles: snapshot.selectedVehicles,
+        constraints: snapshot.constraints as unknown as Json
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return fromRow(data);
+  }
+
+  // Overwrites the stored snapshot, e.g. after editing a loaded scenario
+  async updateScenario(id: string, snapshot: Partial<ScenarioSnapshot>): Promise<NetworkScenario> {
+    const { data, error } = await supabase
+      .from('scenarios')
+      .update({ ...toColumns(snapshot), updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return fromRow(data);
+  }
+
+  async renameScenario(id: string, name: string, description?: string): Promise<NetworkScenario> {
+    const { data, error } = await supabase
+      .from('scenarios')
+      .update({ name, description, updated_at: new Date().toISOString() })
+      .eq('id', id)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return fromRow(data);
+  }
+
+  async cloneScenario(id: string, name?: string): Promise<NetworkScenario> {
+    const source = await this.getScenario(id);
+
+    const { data, error } = await supabase
+      .from('scenarios')
+      .insert({
+        name: name ?? `${source.name} (copy)`,
+        description: source.description,
+        parent_id: source.id,
+        ...toColumns(source)
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return fromRow(data);
+  }
+
+  async deleteScenario(id: string): Promise<void> {
+    const { error } = await supabase
+      .from('scenarios')
+      .delete()
+      .eq('id', id);
+
+    if (error) throw error;
+  }
+}
+
+export const scenarioService = new ScenarioService();
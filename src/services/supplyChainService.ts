@@ -68,6 +68,25 @@ export interface DailyCatch {
   weather_conditions?: string;
 }
 
+export interface SpoilageProfile {
+  id: string;
+  fish_type: string;
+  refrigerated_hours: number;
+  unrefrigerated_hours: number;
+  spoilage_rate_per_hour: number;
+  temperature_threshold_celsius?: number;
+}
+
+export interface MarketDemand {
+  id: string;
+  market_id: string;
+  fish_type: string;
+  demand_date: string;
+  price_per_kg: number;
+  quantity_kg: number;
+  seasonal_factor?: number;
+}
+
 export interface OptimizationResult {
   id: string;
   user_id: string;
@@ -144,6 +163,34 @@ class SupplyChainService {
     return data as Truck[];
   }
 
+  async getSpoilageProfiles() {
+    const { data, error } = await supabase
+      .from('spoilage_profiles')
+      .select('*')
+      .order('fish_type');
+    
+    if (error) {
+      console.error('Error fetching spoilage profiles:', error);
+      throw error;
+    }
+    return data as SpoilageProfile[];
+  }
+
+  // Demand entries up to a date; callers pick the latest one per market and fish type
+  async getMarketDemand(upToDate: string) {
+    const { data, error } = await supabase
+      .from('market_demand')
+      .select('*')
+      .lte('demand_date', upToDate)
+      .order('demand_date', { ascending: false });
+    
+    if (error) {
+      console.error('Error fetching market demand:', error);
+      throw error;
+    }
+    return data as MarketDemand[];
+  }
+
   async getDailyCatches(userId?: string) {
     let query = supabase
       .from('daily_catches')
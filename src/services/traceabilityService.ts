@@ -0,0 +1,68 @@
+import { supabase } from '@/integrations/supabase/client';
+import { buildTraceability, type Lot, type LotLink, type Traceability } from '@/lib/traceability';
+
+const SEARCH_LIMIT = 25;
+
+class TraceabilityService {
+  // Lots whose code contains the text, newest first
+  async searchLots(code: string): Promise<Lot[]> {
+    const { data, error } = await supabase
+      .from('lots')
+      .select('*')
+      .ilike('lot_code', `%${code.trim()}%`)
+      .order('produced_at', { ascending: false })
+      .limit(SEARCH_LIMIT);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // A farm's collection batches between two dates (YYYY-MM-DD, inclusive)
+  async getFarmLots(farmId: string, fromDate: string, toDate: string): Promise<Lot[]> {
+    const { data, error } = await supabase
+      .from('lots')
+      .select('*')
+      .eq('farm_id', farmId)
+      .gte('produced_at', `${fromDate}T00:00:00+05:30`)
+      .lte('produced_at', `${toDate}T23:59:59+05:30`)
+      .order('produced_at', { ascending: false });
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // Everything upstream and downstream of the given lots
+  async trace(lotIds: string[]): Promise<Traceability> {
+    const { data: traced, error } = await supabase.rpc('trace_lots', { _lot_ids: lotIds });
+    if (error) throw error;
+
+    const ids = [...new Set((traced || []).map(row => row.lot_id))];
+    if (ids.length === 0) return buildTraceability(lotIds, [], [], []);
+
+    const [lots, links] = await Promise.all([this.getLots(ids), this.getParentLinks(ids)]);
+    return buildTraceability(lotIds, traced || [], lots, links);
+  }
+
+  private async getLots(ids: string[]): Promise<Lot[]> {
+    const { data, error } = await supabase
+      .from('lots')
+      .select('*')
+      .in('id', ids);
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  // All inputs of the lots, including parents outside the trace, so exposure shares are complete
+  private async getParentLinks(ids: string[]): Promise<LotLink[]> {
+    const { data, error } = await supabase
+      .from('lot_links')
+      .select('*')
+      .in('child_lot_id', ids);
+
+    if (error) throw error;
+    return data || [];
+  }
+}
+
+export const traceabilityService = new TraceabilityService();
@@ -0,0 +1,90 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  defaultWeatherProvider,
+  weatherCellKey,
+  DEFAULT_FORECAST_HOURS,
+  HOUR_MS,
+  type HourlyWeather,
+  type WeatherForecast,
+  type WeatherProvider
+} from '@/lib/weather';
+import type { GeoPoint } from '@/lib/geo';
+
+// Forecasts older than this are fetched again
+const MAX_FORECAST_AGE_MINUTES = 60;
+
+class WeatherService {
+  /**
+   * Hourly forecast for the grid cell around a point, served from
+   * weather_forecasts while fresh and covering the requested horizon.
+   */
+  async getForecast(
+    point: GeoPoint,
+    provider: WeatherProvider = defaultWeatherProvider,
+    hours: number = DEFAULT_FORECAST_HOURS
+  ): Promise<WeatherForecast> {
+    const cellKey = weatherCellKey(point);
+
+    const { data: cached, error } = await supabase
+      .from('weather_forecasts')
+      .select('*')
+      .eq('provider', provider.name)
+      .eq('cell_key', cellKey)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching cached weather forecast:', error);
+    }
+    if (cached) {
+      const hourly = cached.hourly as unknown as HourlyWeather[];
+      const fresh = Date.now() - new Date(cached.fetched_at).getTime() < MAX_FORECAST_AGE_MINUTES * 60 * 1000;
+      const lastHour = hourly.length > 0 ? new Date(hourly[hourly.length - 1].time).getTime() : 0;
+      // Backends may cap the horizon (OpenWeatherMap: 48h); allow a couple of hours of slack
+      const coversHorizon = lastHour >= Date.now() + Math.min(hours, 48) * HOUR_MS - 2 * HOUR_MS;
+      if (fresh && coversHorizon) {
+        return { provider: cached.provider, lat: cached.lat, lng: cached.lng, fetchedAt: cached.fetched_at, hourly };
+      }
+    }
+
+    const forecast = await provider.getForecast(point, hours);
+
+    // The cache is best effort; a failed write only costs another request
+    const { error: saveError } = await supabase
+      .from('weather_forecasts')
+      .upsert({
+        provider: provider.name,
+        cell_key: cellKey,
+        lat: forecast.lat,
+        lng: forecast.lng,
+        hourly: forecast.hourly as unknown as Json,
+        fetched_at: forecast.fetchedAt
+      }, { onConflict: 'provider,cell_key' });
+
+    if (saveError) {
+      console.error('Error caching weather forecast:', saveError);
+    }
+    return forecast;
+  }
+
+  // Forecasts keyed by point id; points in the same grid cell share one request
+  async getForecasts(
+    points: Required<GeoPoint>[],
+    provider: WeatherProvider = defaultWeatherProvider,
+    hours: number = DEFAULT_FORECAST_HOURS
+  ): Promise<Record<string, WeatherForecast>> {
+    const byCell = new Map<string, Required<GeoPoint>>();
+    points.forEach(point => {
+      const cellKey = weatherCellKey(point);
+      if (!byCell.has(cellKey)) byCell.set(cellKey, point);
+    });
+
+    const cells = [...byCell.entries()];
+    const forecasts = await Promise.all(cells.map(([, point]) => this.getForecast(point, provider, hours)));
+    const forecastByCell = new Map(cells.map(([cellKey], i) => [cellKey, forecasts[i]]));
+
+    return Object.fromEntries(points.map(point => [point.id, forecastByCell.get(weatherCellKey(point))!]));
+  }
+}
+
+export const weatherService = new WeatherService();
@@ -0,0 +1,24 @@
+import type { NetworkTable } from '@/lib/networkEdits';
+
+export type AuditedTable = NetworkTable | 'trucks' | 'markets';
+
+export type AuditAction = 'INSERT' | 'UPDATE' | 'DELETE';
+
+export interface AuditEntry {
+  id: string;
+  table: AuditedTable;
+  recordId: string;
+  action: AuditAction;
+  actorId?: string;
+  actorEmail?: string;
+  changedAt: string;
+  oldData: Record<string, unknown> | null; // record before the change
+  newData: Record<string, unknown> | null; // record after the change
+  changedFields: string[];
+}
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
@@ -58,6 +58,13 @@ export interface VehicleType {
   costPerKm: number;
   multiDayCapable: boolean;
   suitableProducts: string[]; // product categories
+  compartments?: VehicleCompartment[]; // separately controlled zones; none = one cargo space
+}
+
+export interface VehicleCompartment {
+  name: string;
+  capacity: number; // liters
+  temperatureRange: { min: number; max: number }; // °C
 }
 
 export interface NetworkNode {
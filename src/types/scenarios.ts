@@ -0,0 +1,48 @@
+import type { EnhancedMapNode } from '@/components/EnhancedSupplyChainMap';
+
+export interface OptimizationConstraints {
+  maxDistanceKm: number;
+  maxDeliveryTimeHours: number;
+  temperatureThresholdC: number;
+  qualityRetentionPercent: number;
+  maxSpoilagePercent: number;
+  prioritizeTemperature: boolean;
+  vehiclesPerType: number;
+}
+
+export interface OptimizedRoute {
+  id: string;
+  path: Array<{ lat: number; lng: number; name: string; type: string }>;
+  totalDistance: number;
+  totalCost: number;
+  totalTime: number;
+  maxSpoilageRisk: number;
+  vehicleType: string;
+  products: string[];
+  efficiency: 'optimal' | 'good' | 'poor';
+  weatherImpact: number;
+  depotName?: string;
+  departureTime?: string;
+  returnTime?: string;
+  loadLiters?: number;
+  remainingShelfLifeHours?: number; // at the depot, for milk loaded at the first stop
+}
+
+// Everything the interactive map needs to restore a what-if network
+export interface ScenarioSnapshot {
+  nodes: EnhancedMapNode[];
+  routes: OptimizedRoute[];
+  summaryRoute: OptimizedRoute | null;
+  selectedProducts: string[];
+  selectedVehicles: string[];
+  constraints: OptimizationConstraints;
+}
+
+export interface NetworkScenario extends ScenarioSnapshot {
+  id: string;
+  name: string;
+  description?: string;
+  parentId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,19 @@
+-- Cached distance matrices shared by optimizers and metrics
+
+CREATE TABLE public.distance_matrices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  node_set_key TEXT NOT NULL, -- hash of node ids and coordinates
+  provider TEXT NOT NULL, -- 'circuity-1.3', 'osrm:<url>', 'precomputed'
+  node_ids TEXT[] NOT NULL, -- row/column order of the matrices
+  distances_km JSONB NOT NULL,
+  durations_hours JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (node_set_key, provider)
+);
+
+ALTER TABLE public.distance_matrices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to distance matrices" ON public.distance_matrices FOR SELECT USING (true);
+CREATE POLICY "Authenticated users can insert distance matrices" ON public.distance_matrices FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Authenticated users can update distance matrices" ON public.distance_matrices FOR UPDATE TO authenticated USING (true);
+CREATE POLICY "Authenticated users can delete distance matrices" ON public.distance_matrices FOR DELETE TO authenticated USING (true);
@@ -0,0 +1,26 @@
+-- What-if network scenarios: snapshots of the interactive map state
+
+CREATE TABLE public.scenarios (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  description TEXT,
+  parent_id UUID REFERENCES public.scenarios(id) ON DELETE SET NULL, -- scenario this one was cloned from
+  nodes JSONB NOT NULL DEFAULT '[]', -- map nodes including custom and hidden ones
+  routes JSONB NOT NULL DEFAULT '[]', -- optimized collection tours
+  summary_route JSONB, -- network-wide route summary used by the metrics
+  selected_products TEXT[] NOT NULL DEFAULT '{}',
+  selected_vehicles TEXT[] NOT NULL DEFAULT '{}',
+  constraints JSONB NOT NULL DEFAULT '{}', -- optimizer constraints
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_scenarios_parent_id ON public.scenarios(parent_id);
+
+ALTER TABLE public.scenarios ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to scenarios" ON public.scenarios FOR SELECT USING (true);
+CREATE POLICY "Authenticated users can insert scenarios" ON public.scenarios FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Authenticated users can update scenarios" ON public.scenarios FOR UPDATE TO authenticated USING (true);
+CREATE POLICY "Authenticated users can delete scenarios" ON public.scenarios FOR DELETE TO authenticated USING (true);
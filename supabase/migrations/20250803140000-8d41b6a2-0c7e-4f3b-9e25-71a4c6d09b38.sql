@@ -0,0 +1,69 @@
+-- Bulk import of network records from CSV/Excel files.
+-- Runs as the caller so the table policies still apply, and inside a single
+-- statement so a failing record rolls back the whole file.
+
+CREATE OR REPLACE FUNCTION public.import_network_records(_table TEXT, _records JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+DECLARE
+  _record JSONB;
+  _columns TEXT;
+  _existing UUID;
+  _inserted INTEGER := 0;
+  _updated INTEGER := 0;
+BEGIN
+  IF _table NOT IN ('dairy_farms', 'collection_centers', 'processing_plants', 'transport_routes') THEN
+    RAISE EXCEPTION 'Import into % is not supported', _table;
+  END IF;
+
+  FOR _record IN SELECT jsonb_strip_nulls(value) FROM jsonb_array_elements(_records) LOOP
+    -- Only columns present in the record are written; blank cells keep the
+    -- column default on insert and the current value on update
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+      INTO _columns
+      FROM information_schema.columns c
+     WHERE c.table_schema = 'public'
+       AND c.table_name = _table
+       AND c.column_name NOT IN ('id', 'created_at')
+       AND _record ? c.column_name;
+
+    IF _columns IS NULL THEN
+      RAISE EXCEPTION 'Record has no columns of %: %', _table, _record;
+    END IF;
+
+    -- Natural keys match the ones used by the import preview
+    IF _table = 'transport_routes' THEN
+      SELECT id INTO _existing FROM public.transport_routes
+       WHERE lower(trim(route_name)) = lower(trim(_record ->> 'route_name'))
+       LIMIT 1;
+    ELSE
+      EXECUTE format(
+        'SELECT id FROM public.%I WHERE lower(trim(name)) = lower(trim($1)) AND lower(trim(district)) = lower(trim($2)) LIMIT 1',
+        _table
+      ) INTO _existing USING _record ->> 'name', _record ->> 'district';
+    END IF;
+
+    IF _existing IS NULL THEN
+      EXECUTE format(
+        'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)',
+        _table, _columns, _columns, _table
+      ) USING _record;
+      _inserted := _inserted + 1;
+    ELSE
+      EXECUTE format(
+        'UPDATE public.%I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)) WHERE id = $2',
+        _table, _columns, _columns, _table
+      ) USING _record, _existing;
+      _updated := _updated + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('inserted', _inserted, 'updated', _updated);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.import_network_records(TEXT, JSONB) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.import_network_records(TEXT, JSONB) TO authenticated;
@@ -0,0 +1,102 @@
+-- Restoring JSON network exports: imported records may carry their original
+-- id, and a whole export is written in one transaction.
+
+CREATE OR REPLACE FUNCTION public.import_network_records(_table TEXT, _records JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+DECLARE
+  _record JSONB;
+  _columns TEXT;
+  _existing UUID;
+  _inserted INTEGER := 0;
+  _updated INTEGER := 0;
+BEGIN
+  IF _table NOT IN ('dairy_farms', 'collection_centers', 'processing_plants', 'transport_routes') THEN
+    RAISE EXCEPTION 'Import into % is not supported', _table;
+  END IF;
+
+  FOR _record IN SELECT value FROM jsonb_array_elements(_records) LOOP
+    -- Only columns present in the record are written. For file imports blank
+    -- cells keep the column default on insert and the current value on
+    -- update; exported records (with an id) restore their nulls as well.
+    IF NOT _record ? 'id' THEN
+      _record := jsonb_strip_nulls(_record);
+    END IF;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+      INTO _columns
+      FROM information_schema.columns c
+     WHERE c.table_schema = 'public'
+       AND c.table_name = _table
+       AND c.column_name <> 'id'
+       AND _record ? c.column_name;
+
+    IF _columns IS NULL THEN
+      RAISE EXCEPTION 'Record has no columns of %: %', _table, _record;
+    END IF;
+
+    -- Records from a JSON export carry their id, which wins over the natural
+    -- key so that routes keep pointing at the right nodes after a restore
+    IF _record ? 'id' THEN
+      EXECUTE format('SELECT id FROM public.%I WHERE id = $1', _table)
+        INTO _existing USING (_record ->> 'id')::UUID;
+      IF _existing IS NULL THEN
+        _columns := 'id, ' || _columns;
+      END IF;
+    -- Natural keys match the ones used by the import preview
+    ELSIF _table = 'transport_routes' THEN
+      SELECT id INTO _existing FROM public.transport_routes
+       WHERE lower(trim(route_name)) = lower(trim(_record ->> 'route_name'))
+       LIMIT 1;
+    ELSE
+      EXECUTE format(
+        'SELECT id FROM public.%I WHERE lower(trim(name)) = lower(trim($1)) AND lower(trim(district)) = lower(trim($2)) LIMIT 1',
+        _table
+      ) INTO _existing USING _record ->> 'name', _record ->> 'district';
+    END IF;
+
+    IF _existing IS NULL THEN
+      EXECUTE format(
+        'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)',
+        _table, _columns, _columns, _table
+      ) USING _record;
+      _inserted := _inserted + 1;
+    ELSE
+      EXECUTE format(
+        'UPDATE public.%I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)) WHERE id = $2',
+        _table, _columns, _columns, _table
+      ) USING _record, _existing;
+      _updated := _updated + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('inserted', _inserted, 'updated', _updated);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.import_network_snapshot(_tables JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+DECLARE
+  _table TEXT;
+  _result JSONB := '{}';
+BEGIN
+  -- Nodes before routes so route endpoints exist when they are written
+  FOREACH _table IN ARRAY ARRAY['dairy_farms', 'collection_centers', 'processing_plants', 'transport_routes'] LOOP
+    IF _tables ? _table THEN
+      _result := _result || jsonb_build_object(_table, public.import_network_records(_table, _tables -> _table));
+    END IF;
+  END LOOP;
+
+  RETURN _result;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.import_network_snapshot(JSONB) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.import_network_snapshot(JSONB) TO authenticated;
@@ -0,0 +1,20 @@
+-- Cached hourly weather forecasts, one row per provider and ~10 km grid cell
+
+CREATE TABLE public.weather_forecasts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL, -- 'openweathermap', 'open-meteo:<url>', 'fixture:<name>'
+  cell_key TEXT NOT NULL, -- latitude/longitude rounded to 0.1°
+  lat DECIMAL(10, 8) NOT NULL,
+  lng DECIMAL(11, 8) NOT NULL,
+  hourly JSONB NOT NULL, -- [{ time, temperature, humidity, precipitation, windSpeed, uvIndex }]
+  fetched_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (provider, cell_key)
+);
+
+ALTER TABLE public.weather_forecasts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to weather forecasts" ON public.weather_forecasts FOR SELECT USING (true);
+CREATE POLICY "Authenticated users can insert weather forecasts" ON public.weather_forecasts FOR INSERT TO authenticated WITH CHECK (true);
+CREATE POLICY "Authenticated users can update weather forecasts" ON public.weather_forecasts FOR UPDATE TO authenticated USING (true);
+CREATE POLICY "Authenticated users can delete weather forecasts" ON public.weather_forecasts FOR DELETE TO authenticated USING (true);
@@ -0,0 +1,262 @@
+-- Role-based access to the dairy network: admins and planners maintain the
+-- network, operators read the records of their own region.
+
+-- Network records belong to a region; the seeded network is in Karnataka
+ALTER TABLE public.dairy_farms ADD COLUMN region TEXT NOT NULL DEFAULT 'karnataka';
+ALTER TABLE public.processing_plants ADD COLUMN region TEXT NOT NULL DEFAULT 'karnataka';
+ALTER TABLE public.collection_centers ADD COLUMN region TEXT NOT NULL DEFAULT 'karnataka';
+ALTER TABLE public.transport_routes ADD COLUMN region TEXT NOT NULL DEFAULT 'karnataka';
+
+CREATE INDEX idx_dairy_farms_region ON public.dairy_farms (region);
+CREATE INDEX idx_processing_plants_region ON public.processing_plants (region);
+CREATE INDEX idx_collection_centers_region ON public.collection_centers (region);
+CREATE INDEX idx_transport_routes_region ON public.transport_routes (region);
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO ''
+AS $function$
+BEGIN
+  -- Auto-assign roles based on email for demo purposes
+  IF NEW.email = 'admin@demo.com' THEN
+    INSERT INTO public.profiles (id, full_name, role, region)
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.raw_user_meta_data ->> 'full_name', 'Demo Admin'),
+      'admin',
+      'karnataka'
+    );
+  ELSIF NEW.email = 'planner@demo.com' THEN
+    INSERT INTO public.profiles (id, full_name, role, region)
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.raw_user_meta_data ->> 'full_name', 'Demo Planner'),
+      'planner',
+      'karnataka'
+    );
+  ELSIF NEW.email = 'operator@demo.com' THEN
+    INSERT INTO public.profiles (id, full_name, role, region)
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.raw_user_meta_data ->> 'full_name', 'Demo Operator'),
+      'operator',
+      'karnataka'
+    );
+  ELSE
+    -- Default role for other users
+    INSERT INTO public.profiles (id, full_name, role, region)
+    VALUES (
+      NEW.id,
+      COALESCE(NEW.raw_user_meta_data ->> 'full_name', NEW.email),
+      'operator',
+      'karnataka'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- Helpers for policies; SECURITY DEFINER so they can read profiles under RLS
+CREATE OR REPLACE FUNCTION public.can_manage_network(_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $function$
+  SELECT public.has_role(_user_id, 'admin') OR public.has_role(_user_id, 'planner')
+$function$;
+
+CREATE OR REPLACE FUNCTION public.user_region(_user_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path TO public
+AS $function$
+  SELECT region FROM public.profiles WHERE id = _user_id
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.can_manage_network(UUID) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.can_manage_network(UUID) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.user_region(UUID) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.user_region(UUID) TO authenticated;
+
+-- Only admins may change roles or regions, including their own profile's
+CREATE OR REPLACE FUNCTION public.protect_profile_access()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+BEGIN
+  IF (NEW.role IS DISTINCT FROM OLD.role OR NEW.region IS DISTINCT FROM OLD.region)
+     AND auth.uid() IS NOT NULL
+     AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can change roles and regions' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_profile_access
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_profile_access();
+
+-- Dairy farms
+DROP POLICY "Allow public read access to dairy farms" ON public.dairy_farms;
+DROP POLICY "Authenticated users can insert dairy farms" ON public.dairy_farms;
+DROP POLICY "Authenticated users can update dairy farms" ON public.dairy_farms;
+DROP POLICY "Authenticated users can delete dairy farms" ON public.dairy_farms;
+
+CREATE POLICY "Users can read dairy farms in their region" ON public.dairy_farms FOR SELECT TO authenticated
+  USING (public.can_manage_network(auth.uid()) OR region = public.user_region(auth.uid()));
+CREATE POLICY "Admins and planners can insert dairy farms" ON public.dairy_farms FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can update dairy farms" ON public.dairy_farms FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid())) WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can delete dairy farms" ON public.dairy_farms FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+-- Processing plants
+DROP POLICY "Allow public read access to processing plants" ON public.processing_plants;
+DROP POLICY "Authenticated users can insert processing plants" ON public.processing_plants;
+DROP POLICY "Authenticated users can update processing plants" ON public.processing_plants;
+DROP POLICY "Authenticated users can delete processing plants" ON public.processing_plants;
+
+CREATE POLICY "Users can read processing plants in their region" ON public.processing_plants FOR SELECT TO authenticated
+  USING (public.can_manage_network(auth.uid()) OR region = public.user_region(auth.uid()));
+CREATE POLICY "Admins and planners can insert processing plants" ON public.processing_plants FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can update processing plants" ON public.processing_plants FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid())) WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can delete processing plants" ON public.processing_plants FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+-- Collection centers
+DROP POLICY "Allow public read access to collection centers" ON public.collection_centers;
+DROP POLICY "Authenticated users can insert collection centers" ON public.collection_centers;
+DROP POLICY "Authenticated users can update collection centers" ON public.collection_centers;
+DROP POLICY "Authenticated users can delete collection centers" ON public.collection_centers;
+
+CREATE POLICY "Users can read collection centers in their region" ON public.collection_centers FOR SELECT TO authenticated
+  USING (public.can_manage_network(auth.uid()) OR region = public.user_region(auth.uid()));
+CREATE POLICY "Admins and planners can insert collection centers" ON public.collection_centers FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can update collection centers" ON public.collection_centers FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid())) WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can delete collection centers" ON public.collection_centers FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+-- Transport routes
+DROP POLICY "Allow public read access to transport routes" ON public.transport_routes;
+DROP POLICY "Authenticated users can insert transport routes" ON public.transport_routes;
+DROP POLICY "Authenticated users can update transport routes" ON public.transport_routes;
+DROP POLICY "Authenticated users can delete transport routes" ON public.transport_routes;
+
+CREATE POLICY "Users can read transport routes in their region" ON public.transport_routes FOR SELECT TO authenticated
+  USING (public.can_manage_network(auth.uid()) OR region = public.user_region(auth.uid()));
+CREATE POLICY "Admins and planners can insert transport routes" ON public.transport_routes FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can update transport routes" ON public.transport_routes FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid())) WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can delete transport routes" ON public.transport_routes FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+-- Scenarios are shared by everyone who can read the network; only admins
+-- and planners save, edit or delete them
+DROP POLICY "Authenticated users can insert scenarios" ON public.scenarios;
+DROP POLICY "Authenticated users can update scenarios" ON public.scenarios;
+DROP POLICY "Authenticated users can delete scenarios" ON public.scenarios;
+
+CREATE POLICY "Admins and planners can insert scenarios" ON public.scenarios FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can update scenarios" ON public.scenarios FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid())) WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can delete scenarios" ON public.scenarios FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+-- Imports run as the caller, but updates hidden by RLS would silently match
+-- no rows and still be counted; refuse the whole import up front instead
+CREATE OR REPLACE FUNCTION public.import_network_records(_table TEXT, _records JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+DECLARE
+  _record JSONB;
+  _columns TEXT;
+  _existing UUID;
+  _inserted INTEGER := 0;
+  _updated INTEGER := 0;
+BEGIN
+  IF NOT public.can_manage_network(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and planners can import network data' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _table NOT IN ('dairy_farms', 'collection_centers', 'processing_plants', 'transport_routes') THEN
+    RAISE EXCEPTION 'Import into % is not supported', _table;
+  END IF;
+
+  FOR _record IN SELECT value FROM jsonb_array_elements(_records) LOOP
+    -- Only columns present in the record are written. For file imports blank
+    -- cells keep the column default on insert and the current value on
+    -- update; exported records (with an id) restore their nulls as well.
+    IF NOT _record ? 'id' THEN
+      _record := jsonb_strip_nulls(_record);
+    END IF;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+      INTO _columns
+      FROM information_schema.columns c
+     WHERE c.table_schema = 'public'
+       AND c.table_name = _table
+       AND c.column_name <> 'id'
+       AND _record ? c.column_name;
+
+    IF _columns IS NULL THEN
+      RAISE EXCEPTION 'Record has no columns of %: %', _table, _record;
+    END IF;
+
+    -- Records from a JSON export carry their id, which wins over the natural
+    -- key so that routes keep pointing at the right nodes after a restore
+    IF _record ? 'id' THEN
+      EXECUTE format('SELECT id FROM public.%I WHERE id = $1', _table)
+        INTO _existing USING (_record ->> 'id')::UUID;
+      IF _existing IS NULL THEN
+        _columns := 'id, ' || _columns;
+      END IF;
+    -- Natural keys match the ones used by the import preview
+    ELSIF _table = 'transport_routes' THEN
+      SELECT id INTO _existing FROM public.transport_routes
+       WHERE lower(trim(route_name)) = lower(trim(_record ->> 'route_name'))
+       LIMIT 1;
+    ELSE
+      EXECUTE format(
+        'SELECT id FROM public.%I WHERE lower(trim(name)) = lower(trim($1)) AND lower(trim(district)) = lower(trim($2)) LIMIT 1',
+        _table
+      ) INTO _existing USING _record ->> 'name', _record ->> 'district';
+    END IF;
+
+    IF _existing IS NULL THEN
+      EXECUTE format(
+        'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)',
+        _table, _columns, _columns, _table
+      ) USING _record;
+      _inserted := _inserted + 1;
+    ELSE
+      EXECUTE format(
+        'UPDATE public.%I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)) WHERE id = $2',
+        _table, _columns, _columns, _table
+      ) USING _record, _existing;
+      _updated := _updated + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('inserted', _inserted, 'updated', _updated);
+END;
+$function$;
@@ -0,0 +1,92 @@
+-- Audit trail for network master data: who changed which record, when, and
+-- how. Rows are written only by the trigger below, so the log is append-only.
+
+CREATE TABLE public.audit_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  table_name TEXT NOT NULL,
+  record_id UUID NOT NULL,
+  action TEXT NOT NULL CHECK (action IN ('INSERT', 'UPDATE', 'DELETE')),
+  actor_id UUID, -- null for changes made outside the app (migrations, service role)
+  actor_email TEXT,
+  changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  old_data JSONB, -- full record before the change; null for inserts
+  new_data JSONB, -- full record after the change; null for deletes
+  changed_fields TEXT[] -- columns whose value differs between old_data and new_data
+);
+
+CREATE INDEX idx_audit_log_record ON public.audit_log (table_name, record_id, changed_at DESC);
+CREATE INDEX idx_audit_log_changed_at ON public.audit_log (changed_at DESC);
+
+ALTER TABLE public.audit_log ENABLE ROW LEVEL SECURITY;
+
+-- The log shows every region's records, so it is limited to network editors
+CREATE POLICY "Admins and planners can read audit log" ON public.audit_log FOR SELECT TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.log_audit_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO public
+AS $function$
+DECLARE
+  _old JSONB;
+  _new JSONB;
+  _changed TEXT[];
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    _old := to_jsonb(OLD);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    _new := to_jsonb(NEW);
+  END IF;
+
+  SELECT array_agg(key ORDER BY key)
+    INTO _changed
+    FROM jsonb_object_keys(COALESCE(_new, '{}') || COALESCE(_old, '{}')) AS key
+   WHERE _new -> key IS DISTINCT FROM _old -> key;
+
+  -- Updates that write the same values are not worth a history entry
+  IF TG_OP = 'UPDATE' AND _changed IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.audit_log (table_name, record_id, action, actor_id, actor_email, old_data, new_data, changed_fields)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(_new ->> 'id', _old ->> 'id')::UUID,
+    TG_OP,
+    auth.uid(),
+    auth.jwt() ->> 'email',
+    _old,
+    _new,
+    _changed
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$function$;
+
+CREATE TRIGGER audit_dairy_farms
+  AFTER INSERT OR UPDATE OR DELETE ON public.dairy_farms
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_processing_plants
+  AFTER INSERT OR UPDATE OR DELETE ON public.processing_plants
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_collection_centers
+  AFTER INSERT OR UPDATE OR DELETE ON public.collection_centers
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_transport_routes
+  AFTER INSERT OR UPDATE OR DELETE ON public.transport_routes
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_trucks
+  AFTER INSERT OR UPDATE OR DELETE ON public.trucks
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_markets
+  AFTER INSERT OR UPDATE OR DELETE ON public.markets
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
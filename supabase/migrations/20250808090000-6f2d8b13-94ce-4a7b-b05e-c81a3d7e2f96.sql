@@ -0,0 +1,51 @@
+-- Daily collection volumes per farm and per collection center. Monsoon and
+-- flush seasons move collections well away from the nameplate
+-- daily_production_liters, so forecasts are fitted on this history.
+
+CREATE TABLE public.farm_collection_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  farm_id UUID NOT NULL REFERENCES public.dairy_farms(id) ON DELETE RESTRICT,
+  collection_date DATE NOT NULL,
+  volume_liters NUMERIC NOT NULL CHECK (volume_liters >= 0),
+  cattle_count INTEGER, -- herd size on the day when known; the farm's current count otherwise
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (farm_id, collection_date)
+);
+
+CREATE TABLE public.center_collection_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  center_id UUID NOT NULL REFERENCES public.collection_centers(id) ON DELETE RESTRICT,
+  collection_date DATE NOT NULL,
+  volume_liters NUMERIC NOT NULL CHECK (volume_liters >= 0),
+  farms_reporting INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (center_id, collection_date)
+);
+
+CREATE INDEX idx_farm_collection_history_date ON public.farm_collection_history (collection_date);
+CREATE INDEX idx_center_collection_history_date ON public.center_collection_history (collection_date);
+
+ALTER TABLE public.farm_collection_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.center_collection_history ENABLE ROW LEVEL SECURITY;
+
+-- History follows its farm or center: the subqueries run under their region policies.
+-- Operators record collections; only admins and planners remove history.
+CREATE POLICY "Users can read farm collection history in their region" ON public.farm_collection_history FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.dairy_farms f WHERE f.id = farm_id));
+CREATE POLICY "Users can insert farm collection history in their region" ON public.farm_collection_history FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM public.dairy_farms f WHERE f.id = farm_id));
+CREATE POLICY "Users can update farm collection history in their region" ON public.farm_collection_history FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.dairy_farms f WHERE f.id = farm_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.dairy_farms f WHERE f.id = farm_id));
+CREATE POLICY "Admins and planners can delete farm collection history" ON public.farm_collection_history FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+CREATE POLICY "Users can read center collection history in their region" ON public.center_collection_history FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id));
+CREATE POLICY "Users can insert center collection history in their region" ON public.center_collection_history FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id));
+CREATE POLICY "Users can update center collection history in their region" ON public.center_collection_history FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id))
+  WITH CHECK (EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id));
+CREATE POLICY "Admins and planners can delete center collection history" ON public.center_collection_history FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
@@ -0,0 +1,102 @@
+-- Milk received at collection centers, one entry per farm, center, day and
+-- shift, with the quality readings taken at receipt. Accepted volumes roll
+-- up into farm_collection_history and center_collection_history, which the
+-- volume forecasts are fitted on.
+
+CREATE TABLE public.milk_collections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  farm_id UUID NOT NULL REFERENCES public.dairy_farms(id) ON DELETE RESTRICT,
+  center_id UUID NOT NULL REFERENCES public.collection_centers(id) ON DELETE RESTRICT,
+  collection_date DATE NOT NULL,
+  shift TEXT NOT NULL CHECK (shift IN ('morning', 'evening')),
+  volume_liters NUMERIC NOT NULL CHECK (volume_liters >= 0),
+  fat_percent NUMERIC CHECK (fat_percent BETWEEN 0 AND 15),
+  snf_percent NUMERIC CHECK (snf_percent BETWEEN 0 AND 15),
+  temperature_celsius NUMERIC CHECK (temperature_celsius BETWEEN -5 AND 50),
+  rejected_liters NUMERIC NOT NULL DEFAULT 0,
+  rejection_reason TEXT CHECK (rejection_reason IN (
+    'sour', 'high_temperature', 'low_fat_snf', 'adulteration', 'contamination', 'other'
+  )),
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (farm_id, center_id, collection_date, shift),
+  CHECK (rejected_liters BETWEEN 0 AND volume_liters),
+  CHECK (rejected_liters = 0 OR rejection_reason IS NOT NULL)
+);
+
+CREATE INDEX idx_milk_collections_date ON public.milk_collections (collection_date);
+CREATE INDEX idx_milk_collections_center ON public.milk_collections (center_id, collection_date);
+
+ALTER TABLE public.milk_collections ENABLE ROW LEVEL SECURITY;
+
+-- Entries follow their farm and center: the subqueries run under their region policies
+CREATE POLICY "Users can read milk collections in their region" ON public.milk_collections FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.dairy_farms f WHERE f.id = farm_id));
+CREATE POLICY "Users can insert milk collections in their region" ON public.milk_collections FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.dairy_farms f WHERE f.id = farm_id)
+    AND EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id)
+  );
+CREATE POLICY "Users can update milk collections in their region" ON public.milk_collections FOR UPDATE TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.dairy_farms f WHERE f.id = farm_id))
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.dairy_farms f WHERE f.id = farm_id)
+    AND EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id)
+  );
+CREATE POLICY "Admins and planners can delete milk collections" ON public.milk_collections FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+-- Recomputes the daily totals a changed entry contributes to. A day whose
+-- entries were all removed keeps a zero row rather than being deleted, since
+-- only admins and planners may delete history.
+CREATE OR REPLACE FUNCTION public.refresh_collection_history(_farm_id UUID, _center_id UUID, _date DATE)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+BEGIN
+  INSERT INTO public.farm_collection_history (farm_id, collection_date, volume_liters, cattle_count)
+  SELECT _farm_id, _date,
+    COALESCE((SELECT SUM(volume_liters - rejected_liters) FROM public.milk_collections
+              WHERE farm_id = _farm_id AND collection_date = _date), 0),
+    (SELECT cattle_count FROM public.dairy_farms WHERE id = _farm_id)
+  ON CONFLICT (farm_id, collection_date) DO UPDATE
+    SET volume_liters = EXCLUDED.volume_liters, cattle_count = EXCLUDED.cattle_count;
+
+  INSERT INTO public.center_collection_history (center_id, collection_date, volume_liters, farms_reporting)
+  SELECT _center_id, _date,
+    COALESCE(SUM(volume_liters - rejected_liters), 0),
+    COUNT(DISTINCT farm_id)
+  FROM public.milk_collections
+  WHERE center_id = _center_id AND collection_date = _date
+  ON CONFLICT (center_id, collection_date) DO UPDATE
+    SET volume_liters = EXCLUDED.volume_liters, farms_reporting = EXCLUDED.farms_reporting;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.roll_up_milk_collection()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+BEGIN
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_collection_history(OLD.farm_id, OLD.center_id, OLD.collection_date);
+  END IF;
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM public.refresh_collection_history(NEW.farm_id, NEW.center_id, NEW.collection_date);
+  END IF;
+  RETURN NULL;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_collection_history(UUID, UUID, DATE) FROM anon, public;
+GRANT EXECUTE ON FUNCTION public.refresh_collection_history(UUID, UUID, DATE) TO authenticated;
+
+CREATE TRIGGER roll_up_milk_collection
+  AFTER INSERT OR UPDATE OR DELETE ON public.milk_collections
+  FOR EACH ROW EXECUTE FUNCTION public.roll_up_milk_collection();
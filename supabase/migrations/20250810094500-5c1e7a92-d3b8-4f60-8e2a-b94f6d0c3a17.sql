@@ -0,0 +1,62 @@
+-- Farmer payments. A rate card is a fat × SNF price chart in rupees per
+-- liter: rates[i][j] is paid for milk with fat_steps[i] <= fat < fat_steps[i + 1]
+-- and snf_steps[j] <= snf < snf_steps[j + 1]. The card in force on a date is
+-- the active one with the latest effective_from on or before it. Deductions
+-- (feed, advances, loan instalments, ...) are recovered from the farm's
+-- payment for the billing cycle their date falls in.
+
+CREATE TABLE public.milk_rate_cards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  effective_from DATE NOT NULL,
+  fat_steps NUMERIC[] NOT NULL,
+  snf_steps NUMERIC[] NOT NULL,
+  rates JSONB NOT NULL,
+  organic_bonus_per_liter NUMERIC NOT NULL DEFAULT 0 CHECK (organic_bonus_per_liter >= 0),
+  organic_bonus_percent NUMERIC NOT NULL DEFAULT 0 CHECK (organic_bonus_percent BETWEEN 0 AND 100),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (cardinality(fat_steps) > 0 AND cardinality(snf_steps) > 0),
+  CHECK (jsonb_typeof(rates) = 'array' AND jsonb_array_length(rates) = cardinality(fat_steps))
+);
+
+CREATE INDEX idx_milk_rate_cards_effective ON public.milk_rate_cards (effective_from DESC);
+
+CREATE TABLE public.farm_payment_deductions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  farm_id UUID NOT NULL REFERENCES public.dairy_farms(id) ON DELETE RESTRICT,
+  deduction_date DATE NOT NULL,
+  category TEXT NOT NULL CHECK (category IN (
+    'cattle_feed', 'veterinary', 'advance', 'loan', 'share_capital', 'other'
+  )),
+  amount NUMERIC NOT NULL CHECK (amount > 0),
+  description TEXT,
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_farm_payment_deductions_date ON public.farm_payment_deductions (deduction_date);
+
+ALTER TABLE public.milk_rate_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.farm_payment_deductions ENABLE ROW LEVEL SECURITY;
+
+-- Rate cards apply across regions; only admins and planners set prices
+CREATE POLICY "Authenticated users can read rate cards" ON public.milk_rate_cards FOR SELECT TO authenticated
+  USING (true);
+CREATE POLICY "Admins and planners can insert rate cards" ON public.milk_rate_cards FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can update rate cards" ON public.milk_rate_cards FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid()))
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can delete rate cards" ON public.milk_rate_cards FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+-- Deductions follow their farm: the subquery runs under its region policies
+CREATE POLICY "Users can read deductions in their region" ON public.farm_payment_deductions FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.dairy_farms f WHERE f.id = farm_id));
+CREATE POLICY "Users can insert deductions in their region" ON public.farm_payment_deductions FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM public.dairy_farms f WHERE f.id = farm_id));
+CREATE POLICY "Admins and planners can delete deductions" ON public.farm_payment_deductions FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
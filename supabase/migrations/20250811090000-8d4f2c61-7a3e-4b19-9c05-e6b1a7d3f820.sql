@@ -0,0 +1,103 @@
+-- Dairy fleet. Each vehicle is one of the catalog vehicle types and is based
+-- at a depot: a collection center or a processing plant. It is on duty on
+-- its working days between available_from and available_to, except during
+-- downtime (maintenance windows, repairs, no driver). Servicing falls due
+-- every service_interval_km of odometer reading.
+
+CREATE TABLE public.dairy_vehicles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  registration TEXT NOT NULL UNIQUE,
+  vehicle_type_id TEXT NOT NULL,
+  home_center_id UUID REFERENCES public.collection_centers(id) ON DELETE RESTRICT,
+  home_plant_id UUID REFERENCES public.processing_plants(id) ON DELETE RESTRICT,
+  working_days SMALLINT[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}', -- 0 = Sunday
+  available_from TIME NOT NULL DEFAULT '04:00',
+  available_to TIME NOT NULL DEFAULT '22:00',
+  odometer_km NUMERIC NOT NULL DEFAULT 0 CHECK (odometer_km >= 0),
+  last_service_km NUMERIC NOT NULL DEFAULT 0 CHECK (last_service_km >= 0),
+  service_interval_km NUMERIC NOT NULL DEFAULT 10000 CHECK (service_interval_km > 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (num_nonnulls(home_center_id, home_plant_id) = 1),
+  CHECK (available_to > available_from),
+  CHECK (working_days <@ '{0,1,2,3,4,5,6}'::SMALLINT[])
+);
+
+CREATE INDEX idx_dairy_vehicles_center ON public.dairy_vehicles (home_center_id);
+CREATE INDEX idx_dairy_vehicles_plant ON public.dairy_vehicles (home_plant_id);
+
+CREATE TABLE public.vehicle_downtime (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  vehicle_id UUID NOT NULL REFERENCES public.dairy_vehicles(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('maintenance', 'repair', 'no_driver', 'other')),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX idx_vehicle_downtime_vehicle ON public.vehicle_downtime (vehicle_id, starts_at);
+
+ALTER TABLE public.dairy_vehicles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vehicle_downtime ENABLE ROW LEVEL SECURITY;
+
+-- Vehicles follow their depot: the subqueries run under its region policies
+CREATE POLICY "Users can read vehicles in their region" ON public.dairy_vehicles FOR SELECT TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = home_center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = home_plant_id)
+  );
+CREATE POLICY "Admins and planners can insert vehicles" ON public.dairy_vehicles FOR INSERT TO authenticated
+  WITH CHECK (
+    public.can_manage_network(auth.uid())
+    AND (
+      EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = home_center_id)
+      OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = home_plant_id)
+    )
+  );
+-- Odometer readings are entered by depot staff as well as planners; the
+-- protect_vehicle_details trigger keeps the rest of the row to planners
+CREATE POLICY "Users can update vehicles in their region" ON public.dairy_vehicles FOR UPDATE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = home_center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = home_plant_id)
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = home_center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = home_plant_id)
+  );
+CREATE POLICY "Admins and planners can delete vehicles" ON public.dairy_vehicles FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.protect_vehicle_details()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+BEGIN
+  IF to_jsonb(NEW) - ARRAY['odometer_km', 'last_service_km', 'updated_at']
+       IS DISTINCT FROM to_jsonb(OLD) - ARRAY['odometer_km', 'last_service_km', 'updated_at']
+     AND auth.uid() IS NOT NULL
+     AND NOT public.can_manage_network(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and planners can change vehicle details other than odometer readings'
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER protect_vehicle_details
+  BEFORE UPDATE ON public.dairy_vehicles
+  FOR EACH ROW EXECUTE FUNCTION public.protect_vehicle_details();
+
+CREATE POLICY "Users can read downtime in their region" ON public.vehicle_downtime FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.dairy_vehicles v WHERE v.id = vehicle_id));
+CREATE POLICY "Users can insert downtime in their region" ON public.vehicle_downtime FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM public.dairy_vehicles v WHERE v.id = vehicle_id));
+CREATE POLICY "Admins and planners can delete downtime" ON public.vehicle_downtime FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
@@ -0,0 +1,108 @@
+-- Product and vehicle catalog. Both were hard-coded in the app; they are now
+-- rows that planners can add to and edit. Ids are readable slugs
+-- ('whole-milk', 'milk-tanker') so existing references such as
+-- dairy_vehicles.vehicle_type_id and the routing product keys keep working.
+-- Temperatures are °C, shelf life hours, spoilage % of value per hour.
+
+CREATE TABLE public.dairy_products (
+  id TEXT NOT NULL PRIMARY KEY CHECK (id ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL,
+  category TEXT NOT NULL CHECK (category IN ('milk', 'fermented', 'cheese', 'butter', 'frozen')),
+  temp_min_c NUMERIC NOT NULL,
+  temp_max_c NUMERIC NOT NULL,
+  temp_optimal_c NUMERIC NOT NULL,
+  shelf_life_ambient_hours NUMERIC NOT NULL CHECK (shelf_life_ambient_hours > 0),
+  shelf_life_refrigerated_hours NUMERIC NOT NULL CHECK (shelf_life_refrigerated_hours > 0),
+  shelf_life_frozen_hours NUMERIC CHECK (shelf_life_frozen_hours > 0),
+  temperature_sensitivity TEXT NOT NULL DEFAULT 'medium' CHECK (temperature_sensitivity IN ('low', 'medium', 'high')),
+  light_sensitive BOOLEAN NOT NULL DEFAULT false,
+  oxygen_sensitive BOOLEAN NOT NULL DEFAULT false,
+  spoilage_per_hour_ambient NUMERIC NOT NULL CHECK (spoilage_per_hour_ambient BETWEEN 0 AND 100),
+  spoilage_per_hour_refrigerated NUMERIC NOT NULL CHECK (spoilage_per_hour_refrigerated BETWEEN 0 AND 100),
+  fat_percent NUMERIC CHECK (fat_percent BETWEEN 0 AND 100),
+  protein_percent NUMERIC CHECK (protein_percent BETWEEN 0 AND 100),
+  lactose_percent NUMERIC CHECK (lactose_percent BETWEEN 0 AND 100),
+  packaging_requirements TEXT[] NOT NULL DEFAULT '{}',
+  transport_requirements TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (temp_min_c <= temp_optimal_c AND temp_optimal_c <= temp_max_c),
+  CHECK (shelf_life_refrigerated_hours >= shelf_life_ambient_hours),
+  CHECK (spoilage_per_hour_refrigerated <= spoilage_per_hour_ambient)
+);
+
+CREATE TABLE public.vehicle_types (
+  id TEXT NOT NULL PRIMARY KEY CHECK (id ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+  name TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('refrigerated', 'insulated', 'ambient')),
+  capacity_liters NUMERIC NOT NULL CHECK (capacity_liters > 0),
+  can_maintain_temperature BOOLEAN NOT NULL DEFAULT false,
+  temp_range_min_c NUMERIC,
+  temp_range_max_c NUMERIC,
+  max_trip_hours NUMERIC NOT NULL CHECK (max_trip_hours > 0),
+  fuel_efficiency_kmpl NUMERIC NOT NULL CHECK (fuel_efficiency_kmpl > 0),
+  cost_per_km NUMERIC NOT NULL CHECK (cost_per_km >= 0),
+  multi_day_capable BOOLEAN NOT NULL DEFAULT false,
+  suitable_categories TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (num_nonnulls(temp_range_min_c, temp_range_max_c) IN (0, 2)),
+  CHECK (temp_range_min_c IS NULL OR temp_range_min_c < temp_range_max_c),
+  CHECK (suitable_categories <@ '{milk,fermented,cheese,butter,frozen}'::TEXT[])
+);
+
+ALTER TABLE public.dairy_products ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.vehicle_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can read products" ON public.dairy_products FOR SELECT TO authenticated
+  USING (true);
+CREATE POLICY "Admins and planners can insert products" ON public.dairy_products FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can update products" ON public.dairy_products FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid()))
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can delete products" ON public.dairy_products FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+CREATE POLICY "Authenticated users can read vehicle types" ON public.vehicle_types FOR SELECT TO authenticated
+  USING (true);
+CREATE POLICY "Admins and planners can insert vehicle types" ON public.vehicle_types FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can update vehicle types" ON public.vehicle_types FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid()))
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can delete vehicle types" ON public.vehicle_types FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+-- Seed with the catalog the app shipped with
+INSERT INTO public.dairy_products (
+  id, name, category, temp_min_c, temp_max_c, temp_optimal_c,
+  shelf_life_ambient_hours, shelf_life_refrigerated_hours, shelf_life_frozen_hours,
+  temperature_sensitivity, light_sensitive, oxygen_sensitive,
+  spoilage_per_hour_ambient, spoilage_per_hour_refrigerated,
+  fat_percent, protein_percent, lactose_percent,
+  packaging_requirements, transport_requirements
+) VALUES
+  ('whole-milk', 'Whole Milk (3.5% Fat)', 'milk', 1, 4, 3, 4, 120, 8760, 'high', true, false, 8.33, 0.21, 3.5, 3.2, 4.8, ARRAY['HDPE/LDPE pouches', 'Tetra Pak', 'Glass bottles']::TEXT[], ARRAY['Cold chain 1-4°C', 'Minimal agitation', 'UV protection']::TEXT[]),
+  ('skim-milk', 'Skim Milk (0.1% Fat)', 'milk', 1, 4, 3, 4, 144, 8760, 'high', true, false, 7.5, 0.18, 0.1, 3.4, 4.9, ARRAY['HDPE/LDPE pouches', 'Tetra Pak']::TEXT[], ARRAY['Cold chain 1-4°C', 'Minimal agitation']::TEXT[]),
+  ('greek-yogurt', 'Greek Yogurt', 'fermented', 1, 4, 2, 6, 504, 2160, 'medium', false, true, 4.17, 0.08, 0.4, 10, 4, ARRAY['Polystyrene cups', 'HDPE containers', 'Oxygen barrier']::TEXT[], ARRAY['Cold chain 1-4°C', 'Gentle handling', 'Avoid freezing']::TEXT[]),
+  ('cheddar-cheese', 'Cheddar Cheese (Aged 6 months)', 'cheese', 2, 8, 4, 8, 1440, 4380, 'low', false, true, 2.08, 0.035, 33, 25, 0.1, ARRAY['Wax coating', 'Vacuum packaging', 'Breathable film']::TEXT[], ARRAY['Cool storage 4-8°C', 'Humidity control 80-85%']::TEXT[]),
+  ('paneer', 'Fresh Paneer', 'cheese', 1, 4, 2, 3, 96, 720, 'high', false, true, 12.5, 0.52, 20, 18, 2.6, ARRAY['Modified atmosphere packaging', 'Vacuum sealed']::TEXT[], ARRAY['Strict cold chain 1-4°C', 'Minimal handling']::TEXT[]),
+  ('salted-butter', 'Salted Butter (White Butter)', 'butter', 1, 6, 4, 12, 2160, 8760, 'medium', true, true, 1.67, 0.023, 80, 0.9, 0.06, ARRAY['Aluminum foil', 'Parchment paper', 'Light-proof']::TEXT[], ARRAY['Cool storage 4-6°C', 'Protection from light and air']::TEXT[]),
+  ('ice-cream', 'Premium Ice Cream', 'frozen', -18, -15, -18, 0.5, 24, 4380, 'high', false, true, 100, 25, 14, 4, 5.9, ARRAY['Insulated containers', 'Dry ice packaging']::TEXT[], ARRAY['Frozen chain -18°C', 'No temperature fluctuation']::TEXT[]);
+
+INSERT INTO public.vehicle_types (
+  id, name, type, capacity_liters, can_maintain_temperature, temp_range_min_c, temp_range_max_c,
+  max_trip_hours, fuel_efficiency_kmpl, cost_per_km, multi_day_capable, suitable_categories
+) VALUES
+  ('small-refrigerated-van', 'Refrigerated Van (Tata Ace Cold)', 'refrigerated', 750, true, -5, 8, 12, 14, 18, false, ARRAY['milk', 'fermented', 'cheese', 'butter']::TEXT[]),
+  ('medium-refrigerated-truck', 'Refrigerated Truck (Eicher Pro 3015)', 'refrigerated', 3500, true, -20, 10, 18, 9, 32, true, ARRAY['milk', 'fermented', 'cheese', 'butter', 'frozen']::TEXT[]),
+  ('large-refrigerated-truck', 'Large Reefer Truck (Ashok Leyland 2820)', 'refrigerated', 8000, true, -25, 12, 36, 6.5, 45, true, ARRAY['milk', 'fermented', 'cheese', 'butter', 'frozen']::TEXT[]),
+  ('insulated-truck', 'Insulated Truck (Mahindra Bolero Pickup)', 'insulated', 1200, false, NULL, NULL, 6, 16, 12, false, ARRAY['cheese', 'butter']::TEXT[]),
+  ('standard-truck', 'Standard Truck (Tata 407)', 'ambient', 2500, false, NULL, NULL, 4, 12, 8, false, ARRAY['cheese']::TEXT[]),
+  ('milk-tanker', 'Insulated Milk Tanker (Stainless Steel)', 'insulated', 5000, false, NULL, NULL, 8, 7, 28, false, ARRAY['milk']::TEXT[]);
+
+-- Registered vehicles must be of a catalog type; a type in use cannot be deleted
+ALTER TABLE public.dairy_vehicles
+  ADD CONSTRAINT dairy_vehicles_vehicle_type_id_fkey
+  FOREIGN KEY (vehicle_type_id) REFERENCES public.vehicle_types(id) ON DELETE RESTRICT;
@@ -0,0 +1,8 @@
+-- Multi-compartment vehicles. A reefer can be partitioned into zones held at
+-- different temperatures, e.g. a frozen front section and a chilled rear.
+-- Each element is {"name", "capacity_liters", "temp_min_c", "temp_max_c"};
+-- an empty array means one cargo space at the vehicle's temperature range.
+
+ALTER TABLE public.vehicle_types
+  ADD COLUMN compartments JSONB NOT NULL DEFAULT '[]'::JSONB
+  CHECK (jsonb_typeof(compartments) = 'array');
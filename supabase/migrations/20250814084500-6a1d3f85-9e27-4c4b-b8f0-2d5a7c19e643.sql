@@ -0,0 +1,225 @@
+-- Downstream tiers: distributors take finished product from processing plants
+-- and supply retail outlets. Both are network nodes like farms and centers:
+-- region-scoped, audited, importable and valid route endpoints
+-- ('distributor' and 'retail' in transport_routes.from_type/to_type).
+-- Demand and storage are liters per day and liters.
+
+CREATE TABLE public.distributors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  location_lat NUMERIC NOT NULL,
+  location_lng NUMERIC NOT NULL,
+  district TEXT NOT NULL,
+  distributor_type TEXT NOT NULL DEFAULT 'mixed' CHECK (distributor_type IN ('wholesale', 'retail', 'mixed')),
+  daily_demand_liters INTEGER NOT NULL DEFAULT 0 CHECK (daily_demand_liters >= 0),
+  storage_capacity_liters INTEGER NOT NULL CHECK (storage_capacity_liters >= 0),
+  refrigerated_storage BOOLEAN NOT NULL DEFAULT true,
+  frozen_storage BOOLEAN NOT NULL DEFAULT false,
+  delivery_vehicles INTEGER NOT NULL DEFAULT 0 CHECK (delivery_vehicles >= 0),
+  service_radius_km NUMERIC CHECK (service_radius_km > 0),
+  plant_id UUID REFERENCES public.processing_plants (id) ON DELETE RESTRICT, -- usual supplying plant
+  contact_person TEXT,
+  phone TEXT,
+  region TEXT NOT NULL DEFAULT 'karnataka',
+  active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE TABLE public.retail_outlets (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  location_lat NUMERIC NOT NULL,
+  location_lng NUMERIC NOT NULL,
+  district TEXT NOT NULL,
+  outlet_type TEXT NOT NULL DEFAULT 'kirana'
+    CHECK (outlet_type IN ('kirana', 'supermarket', 'dairy_parlour', 'hotel_restaurant', 'institution', 'other')),
+  daily_demand_liters INTEGER NOT NULL CHECK (daily_demand_liters >= 0),
+  storage_capacity_liters INTEGER NOT NULL DEFAULT 0 CHECK (storage_capacity_liters >= 0),
+  refrigerated_storage BOOLEAN NOT NULL DEFAULT true,
+  frozen_storage BOOLEAN NOT NULL DEFAULT false,
+  distributor_id UUID REFERENCES public.distributors (id) ON DELETE RESTRICT, -- usual supplying distributor
+  contact_person TEXT,
+  phone TEXT,
+  region TEXT NOT NULL DEFAULT 'karnataka',
+  active BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now()
+);
+
+CREATE INDEX idx_distributors_region ON public.distributors (region);
+CREATE INDEX idx_distributors_plant ON public.distributors (plant_id);
+CREATE INDEX idx_retail_outlets_region ON public.retail_outlets (region);
+CREATE INDEX idx_retail_outlets_distributor ON public.retail_outlets (distributor_id);
+
+ALTER TABLE public.distributors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.retail_outlets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read distributors in their region" ON public.distributors FOR SELECT TO authenticated
+  USING (public.can_manage_network(auth.uid()) OR region = public.user_region(auth.uid()));
+CREATE POLICY "Admins and planners can insert distributors" ON public.distributors FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can update distributors" ON public.distributors FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid())) WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can delete distributors" ON public.distributors FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+CREATE POLICY "Users can read retail outlets in their region" ON public.retail_outlets FOR SELECT TO authenticated
+  USING (public.can_manage_network(auth.uid()) OR region = public.user_region(auth.uid()));
+CREATE POLICY "Admins and planners can insert retail outlets" ON public.retail_outlets FOR INSERT TO authenticated
+  WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can update retail outlets" ON public.retail_outlets FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid())) WITH CHECK (public.can_manage_network(auth.uid()));
+CREATE POLICY "Admins and planners can delete retail outlets" ON public.retail_outlets FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+CREATE TRIGGER audit_distributors
+  AFTER INSERT OR UPDATE OR DELETE ON public.distributors
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+CREATE TRIGGER audit_retail_outlets
+  AFTER INSERT OR UPDATE OR DELETE ON public.retail_outlets
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Seed a downstream network for the Bangalore plants
+INSERT INTO public.distributors (name, location_lat, location_lng, district, distributor_type, daily_demand_liters, storage_capacity_liters, refrigerated_storage, frozen_storage, delivery_vehicles, service_radius_km, plant_id, contact_person, phone)
+SELECT d.name, d.lat, d.lng, d.district, d.distributor_type, d.demand, d.storage, d.refrigerated, d.frozen, d.vehicles, d.radius, p.id, d.contact, d.phone
+  FROM (VALUES
+    ('Yeshwanthpur Wholesale Depot', 13.0280, 77.5400, 'Bangalore Urban', 'wholesale', 45000, 60000, true, true, 12, 25, 'Nandini Dairy Processing Plant', 'Harish Shetty', '+91-9876543240'),
+    ('Whitefield Distribution Hub', 12.9698, 77.7499, 'Bangalore Urban', 'mixed', 30000, 40000, true, true, 8, 20, 'Heritage Fresh Processing Hub', 'Deepa Nair', '+91-9876543241'),
+    ('Jayanagar City Distributor', 12.9250, 77.5938, 'Bangalore Urban', 'retail', 18000, 20000, true, false, 5, 10, 'Mother Dairy Plant', 'Arun Prakash', '+91-9876543242'),
+    ('Hebbal North Depot', 13.0358, 77.5970, 'Bangalore Urban', 'wholesale', 35000, 50000, true, false, 10, 30, 'Dodla Dairy Yelahanka', 'Farida Begum', '+91-9876543243')
+  ) AS d (name, lat, lng, district, distributor_type, demand, storage, refrigerated, frozen, vehicles, radius, plant_name, contact, phone)
+  LEFT JOIN public.processing_plants p ON p.name = d.plant_name;
+
+INSERT INTO public.retail_outlets (name, location_lat, location_lng, district, outlet_type, daily_demand_liters, storage_capacity_liters, refrigerated_storage, frozen_storage, distributor_id, contact_person, phone)
+SELECT r.name, r.lat, r.lng, r.district, r.outlet_type, r.demand, r.storage, r.refrigerated, r.frozen, d.id, r.contact, r.phone
+  FROM (VALUES
+    ('Malleshwaram Milk Parlour', 13.0035, 77.5700, 'Bangalore Urban', 'dairy_parlour', 1200, 1500, true, true, 'Yeshwanthpur Wholesale Depot', 'Shankar Bhat', '+91-9876543250'),
+    ('Rajajinagar Provision Store', 12.9915, 77.5550, 'Bangalore Urban', 'kirana', 300, 300, true, false, 'Yeshwanthpur Wholesale Depot', 'Ramesh Jain', '+91-9876543251'),
+    ('Whitefield Fresh Mart', 12.9780, 77.7400, 'Bangalore Urban', 'supermarket', 2500, 4000, true, true, 'Whitefield Distribution Hub', 'Kavya Menon', '+91-9876543252'),
+    ('ITPL Food Court', 12.9860, 77.7310, 'Bangalore Urban', 'hotel_restaurant', 800, 1000, true, true, 'Whitefield Distribution Hub', 'Joseph Mathew', '+91-9876543253'),
+    ('Jayanagar 4th Block Dairy', 12.9300, 77.5830, 'Bangalore Urban', 'dairy_parlour', 900, 1200, true, true, 'Jayanagar City Distributor', 'Vani Rao', '+91-9876543254'),
+    ('BTM Layout Kirana', 12.9166, 77.6101, 'Bangalore Urban', 'kirana', 250, 250, false, false, 'Jayanagar City Distributor', 'Abdul Rahim', '+91-9876543255'),
+    ('Hebbal Campus Canteen', 13.0450, 77.5920, 'Bangalore Urban', 'institution', 1500, 1500, true, false, 'Hebbal North Depot', 'Meena Kumari', '+91-9876543256'),
+    ('Yelahanka Super Bazaar', 13.1007, 77.5963, 'Bangalore Urban', 'supermarket', 2000, 3000, true, true, 'Hebbal North Depot', 'Girish Hegde', '+91-9876543257')
+  ) AS r (name, lat, lng, district, outlet_type, demand, storage, refrigerated, frozen, distributor_name, contact, phone)
+  LEFT JOIN public.distributors d ON d.name = r.distributor_name;
+
+-- Routes for the seeded supply links so map and topology views show the whole chain
+INSERT INTO public.transport_routes (route_name, from_type, from_id, to_type, to_id, distance_km, estimated_time_hours, vehicle_type, cost_per_trip, frequency_per_day, optimal_load_liters)
+SELECT p.name || ' → ' || d.name, 'processing_plant', p.id, 'distributor', d.id,
+       round((111 * sqrt(power(d.location_lat - p.location_lat, 2) + power((d.location_lng - p.location_lng) * cos(radians(p.location_lat)), 2)) * 1.3 + 1)::NUMERIC, 1),
+       0.5 + round((111 * sqrt(power(d.location_lat - p.location_lat, 2) + power((d.location_lng - p.location_lng) * cos(radians(p.location_lat)), 2)) * 1.3 / 25)::NUMERIC, 2),
+       'refrigerated_truck', 1500, 2, 8000
+  FROM public.distributors d
+  JOIN public.processing_plants p ON p.id = d.plant_id;
+
+INSERT INTO public.transport_routes (route_name, from_type, from_id, to_type, to_id, distance_km, estimated_time_hours, vehicle_type, cost_per_trip, frequency_per_day, optimal_load_liters)
+SELECT d.name || ' → ' || r.name, 'distributor', d.id, 'retail', r.id,
+       round((111 * sqrt(power(r.location_lat - d.location_lat, 2) + power((r.location_lng - d.location_lng) * cos(radians(d.location_lat)), 2)) * 1.3 + 1)::NUMERIC, 1),
+       0.25 + round((111 * sqrt(power(r.location_lat - d.location_lat, 2) + power((r.location_lng - d.location_lng) * cos(radians(d.location_lat)), 2)) * 1.3 / 20)::NUMERIC, 2),
+       'insulated_van', 350, 1, r.daily_demand_liters
+  FROM public.retail_outlets r
+  JOIN public.distributors d ON d.id = r.distributor_id;
+
+-- Imports accept the new tables; nodes keep (name, district) as natural key
+CREATE OR REPLACE FUNCTION public.import_network_records(_table TEXT, _records JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+DECLARE
+  _record JSONB;
+  _columns TEXT;
+  _existing UUID;
+  _inserted INTEGER := 0;
+  _updated INTEGER := 0;
+BEGIN
+  IF NOT public.can_manage_network(auth.uid()) THEN
+    RAISE EXCEPTION 'Only admins and planners can import network data' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF _table NOT IN ('dairy_farms', 'collection_centers', 'processing_plants', 'distributors', 'retail_outlets', 'transport_routes') THEN
+    RAISE EXCEPTION 'Import into % is not supported', _table;
+  END IF;
+
+  FOR _record IN SELECT value FROM jsonb_array_elements(_records) LOOP
+    -- Only columns present in the record are written. For file imports blank
+    -- cells keep the column default on insert and the current value on
+    -- update; exported records (with an id) restore their nulls as well.
+    IF NOT _record ? 'id' THEN
+      _record := jsonb_strip_nulls(_record);
+    END IF;
+
+    SELECT string_agg(quote_ident(c.column_name), ', ')
+      INTO _columns
+      FROM information_schema.columns c
+     WHERE c.table_schema = 'public'
+       AND c.table_name = _table
+       AND c.column_name <> 'id'
+       AND _record ? c.column_name;
+
+    IF _columns IS NULL THEN
+      RAISE EXCEPTION 'Record has no columns of %: %', _table, _record;
+    END IF;
+
+    -- Records from a JSON export carry their id, which wins over the natural
+    -- key so that routes keep pointing at the right nodes after a restore
+    IF _record ? 'id' THEN
+      EXECUTE format('SELECT id FROM public.%I WHERE id = $1', _table)
+        INTO _existing USING (_record ->> 'id')::UUID;
+      IF _existing IS NULL THEN
+        _columns := 'id, ' || _columns;
+      END IF;
+    -- Natural keys match the ones used by the import preview
+    ELSIF _table = 'transport_routes' THEN
+      SELECT id INTO _existing FROM public.transport_routes
+       WHERE lower(trim(route_name)) = lower(trim(_record ->> 'route_name'))
+       LIMIT 1;
+    ELSE
+      EXECUTE format(
+        'SELECT id FROM public.%I WHERE lower(trim(name)) = lower(trim($1)) AND lower(trim(district)) = lower(trim($2)) LIMIT 1',
+        _table
+      ) INTO _existing USING _record ->> 'name', _record ->> 'district';
+    END IF;
+
+    IF _existing IS NULL THEN
+      EXECUTE format(
+        'INSERT INTO public.%I (%s) SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)',
+        _table, _columns, _columns, _table
+      ) USING _record;
+      _inserted := _inserted + 1;
+    ELSE
+      EXECUTE format(
+        'UPDATE public.%I SET (%s) = (SELECT %s FROM jsonb_populate_record(NULL::public.%I, $1)) WHERE id = $2',
+        _table, _columns, _columns, _table
+      ) USING _record, _existing;
+      _updated := _updated + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('inserted', _inserted, 'updated', _updated);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.import_network_snapshot(_tables JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+DECLARE
+  _table TEXT;
+  _result JSONB := '{}';
+BEGIN
+  -- Upstream nodes first: distributors reference plants and outlets
+  -- distributors, and routes need all their endpoints
+  FOREACH _table IN ARRAY ARRAY['dairy_farms', 'collection_centers', 'processing_plants', 'distributors', 'retail_outlets', 'transport_routes'] LOOP
+    IF _tables ? _table THEN
+      _result := _result || jsonb_build_object(_table, public.import_network_records(_table, _tables -> _table));
+    END IF;
+  END LOOP;
+
+  RETURN _result;
+END;
+$function$;
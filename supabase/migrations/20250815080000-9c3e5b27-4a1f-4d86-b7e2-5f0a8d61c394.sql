@@ -0,0 +1,23 @@
+-- What retail outlets order and when they take deliveries, for distribution
+-- planning. product_demand maps catalog product ids to liters per day
+-- ({"whole-milk": 800, "paneer": 40}); an outlet without a breakdown orders
+-- its daily_demand_liters as a single product chosen in the planner.
+
+ALTER TABLE public.retail_outlets
+  ADD COLUMN product_demand JSONB NOT NULL DEFAULT '{}' CHECK (jsonb_typeof(product_demand) = 'object'),
+  ADD COLUMN receiving_from TIME NOT NULL DEFAULT '06:00',
+  ADD COLUMN receiving_to TIME NOT NULL DEFAULT '10:00',
+  ADD CONSTRAINT retail_outlets_receiving_hours_check CHECK (receiving_from < receiving_to);
+
+UPDATE public.retail_outlets SET product_demand = d.demand::JSONB, receiving_from = d.receiving_from::TIME, receiving_to = d.receiving_to::TIME
+  FROM (VALUES
+    ('Malleshwaram Milk Parlour', '{"whole-milk": 700, "greek-yogurt": 150, "paneer": 100, "ice-cream": 80, "salted-butter": 20}', '05:30', '08:00'),
+    ('Rajajinagar Provision Store', '{"whole-milk": 220, "skim-milk": 60, "paneer": 20}', '06:00', '09:00'),
+    ('Whitefield Fresh Mart', '{"whole-milk": 1200, "skim-milk": 400, "greek-yogurt": 300, "cheddar-cheese": 150, "paneer": 200, "salted-butter": 100, "ice-cream": 150}', '07:00', '11:00'),
+    ('ITPL Food Court', '{"whole-milk": 450, "paneer": 200, "salted-butter": 50, "ice-cream": 100}', '08:00', '11:00'),
+    ('Jayanagar 4th Block Dairy', '{"whole-milk": 500, "greek-yogurt": 150, "paneer": 120, "ice-cream": 80}', '05:30', '08:00'),
+    ('BTM Layout Kirana', '{"whole-milk": 200, "paneer": 30}', '06:00', '09:00'),
+    ('Hebbal Campus Canteen', '{"whole-milk": 1200, "greek-yogurt": 200, "paneer": 100}', '06:00', '08:30'),
+    ('Yelahanka Super Bazaar', '{"whole-milk": 1000, "skim-milk": 300, "greek-yogurt": 250, "cheddar-cheese": 100, "salted-butter": 100, "ice-cream": 150}', '07:00', '11:00')
+  ) AS d (name, demand, receiving_from, receiving_to)
+ WHERE retail_outlets.name = d.name;
@@ -0,0 +1,69 @@
+-- Plant production lines: which catalog products each plant can make and
+-- how. milk_liters_per_unit is the raw milk one unit (liter or kg) of the
+-- product takes, e.g. about 6 L per kg of paneer. Line capacity is output
+-- units per day, margin the contribution in ₹ per unit after non-milk costs.
+-- The production planner chooses each plant's daily or weekly product mix
+-- from these lines and the plant's forecast milk intake.
+
+CREATE TABLE public.plant_production_lines (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  plant_id UUID NOT NULL REFERENCES public.processing_plants(id) ON DELETE RESTRICT,
+  product_id TEXT NOT NULL REFERENCES public.dairy_products(id) ON DELETE RESTRICT,
+  unit TEXT NOT NULL DEFAULT 'L' CHECK (unit IN ('L', 'kg')),
+  milk_liters_per_unit NUMERIC NOT NULL CHECK (milk_liters_per_unit > 0),
+  line_capacity_per_day NUMERIC NOT NULL CHECK (line_capacity_per_day > 0),
+  margin_per_unit NUMERIC NOT NULL DEFAULT 0,
+  min_units_per_day NUMERIC NOT NULL DEFAULT 0 CHECK (min_units_per_day >= 0),
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  UNIQUE (plant_id, product_id),
+  CHECK (min_units_per_day <= line_capacity_per_day)
+);
+
+CREATE INDEX idx_plant_production_lines_plant ON public.plant_production_lines (plant_id);
+
+ALTER TABLE public.plant_production_lines ENABLE ROW LEVEL SECURITY;
+
+-- Lines follow their plant: the subqueries run under its region policies
+CREATE POLICY "Users can read production lines in their region" ON public.plant_production_lines FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id));
+CREATE POLICY "Admins and planners can insert production lines" ON public.plant_production_lines FOR INSERT TO authenticated
+  WITH CHECK (
+    public.can_manage_network(auth.uid())
+    AND EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id)
+  );
+CREATE POLICY "Admins and planners can update production lines" ON public.plant_production_lines FOR UPDATE TO authenticated
+  USING (public.can_manage_network(auth.uid()))
+  WITH CHECK (
+    public.can_manage_network(auth.uid())
+    AND EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id)
+  );
+CREATE POLICY "Admins and planners can delete production lines" ON public.plant_production_lines FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+CREATE TRIGGER audit_plant_production_lines
+  AFTER INSERT OR UPDATE OR DELETE ON public.plant_production_lines
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- Seed lines for the Bangalore plants from the products they list
+INSERT INTO public.plant_production_lines (plant_id, product_id, unit, milk_liters_per_unit, line_capacity_per_day, margin_per_unit, min_units_per_day)
+SELECT p.id, l.product_id, l.unit, l.milk_per_unit, l.capacity, l.margin, l.minimum
+  FROM (VALUES
+    ('Nandini Dairy Processing Plant', 'whole-milk', 'L', 1.0, 150000, 4, 40000),
+    ('Nandini Dairy Processing Plant', 'skim-milk', 'L', 1.1, 40000, 3, 0),
+    ('Nandini Dairy Processing Plant', 'greek-yogurt', 'kg', 3.0, 8000, 45, 0),
+    ('Heritage Fresh Processing Hub', 'whole-milk', 'L', 1.0, 100000, 5, 20000),
+    ('Heritage Fresh Processing Hub', 'greek-yogurt', 'kg', 3.0, 6000, 45, 0),
+    ('Heritage Fresh Processing Hub', 'ice-cream', 'L', 1.5, 5000, 40, 0),
+    ('Dodla Dairy Yelahanka', 'whole-milk', 'L', 1.0, 120000, 4, 30000),
+    ('Dodla Dairy Yelahanka', 'paneer', 'kg', 6.0, 4000, 60, 0),
+    ('Dodla Dairy Yelahanka', 'salted-butter', 'kg', 22.0, 1500, 120, 0),
+    ('Amul Processing Center', 'skim-milk', 'L', 1.1, 60000, 3, 0),
+    ('Amul Processing Center', 'cheddar-cheese', 'kg', 10.0, 5000, 110, 0),
+    ('Mother Dairy Plant', 'whole-milk', 'L', 1.0, 70000, 4, 15000),
+    ('Mother Dairy Plant', 'greek-yogurt', 'kg', 3.0, 4000, 45, 0),
+    ('Mother Dairy Plant', 'paneer', 'kg', 6.0, 2500, 60, 0)
+  ) AS l (plant_name, product_id, unit, milk_per_unit, capacity, margin, minimum)
+  JOIN public.processing_plants p ON p.name = l.plant_name
+  JOIN public.dairy_products d ON d.id = l.product_id;
@@ -0,0 +1,199 @@
+-- Inventory at collection center tanks and plant silos and cold stores,
+-- kept as a ledger of stock movements. A stock is a node (center or plant)
+-- and a product: raw milk when product_id is NULL, else a catalog product.
+-- Quantities are always positive; the kind gives the direction:
+--   in:  collection (accepted milk at a center), receipt, production
+--   out: dispatch, consumption (milk used by production), loss
+--   count: a physical stock count, which sets the level outright
+-- Movements recorded together (a dispatch and its receipt, a production run
+-- and the milk it used) share a transaction_id. Accepted milk collections
+-- post their movement automatically.
+
+ALTER TABLE public.processing_plants
+  ADD COLUMN silo_capacity_liters NUMERIC NOT NULL DEFAULT 0 CHECK (silo_capacity_liters >= 0),
+  ADD COLUMN finished_goods_capacity NUMERIC NOT NULL DEFAULT 0 CHECK (finished_goods_capacity >= 0);
+
+COMMENT ON COLUMN public.processing_plants.silo_capacity_liters IS 'Raw milk silo capacity; 0 when unknown';
+COMMENT ON COLUMN public.processing_plants.finished_goods_capacity IS 'Cold store capacity for finished products in L or kg; 0 when unknown';
+
+UPDATE public.processing_plants
+   SET silo_capacity_liters = round(processing_capacity_liters_per_day * 0.6),
+       finished_goods_capacity = round(processing_capacity_liters_per_day * 0.15);
+
+CREATE TABLE public.inventory_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transaction_id UUID NOT NULL DEFAULT gen_random_uuid(),
+  center_id UUID REFERENCES public.collection_centers(id) ON DELETE RESTRICT,
+  plant_id UUID REFERENCES public.processing_plants(id) ON DELETE RESTRICT,
+  product_id TEXT REFERENCES public.dairy_products(id) ON DELETE RESTRICT,
+  kind TEXT NOT NULL CHECK (kind IN ('collection', 'receipt', 'production', 'dispatch', 'consumption', 'loss', 'count')),
+  quantity NUMERIC NOT NULL CHECK (quantity >= 0),
+  occurred_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  destination_type TEXT CHECK (destination_type IN ('processing_plant', 'distributor', 'retail')),
+  destination_id UUID,
+  collection_id UUID REFERENCES public.milk_collections(id) ON DELETE RESTRICT,
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (num_nonnulls(center_id, plant_id) = 1),
+  CHECK (center_id IS NULL OR product_id IS NULL), -- centers hold raw milk only
+  CHECK (kind <> 'collection' OR center_id IS NOT NULL),
+  CHECK (kind NOT IN ('production', 'consumption') OR plant_id IS NOT NULL),
+  CHECK (num_nonnulls(destination_type, destination_id) IN (0, 2))
+);
+
+CREATE INDEX idx_inventory_movements_center ON public.inventory_movements (center_id, occurred_at);
+CREATE INDEX idx_inventory_movements_plant ON public.inventory_movements (plant_id, product_id, occurred_at);
+CREATE INDEX idx_inventory_movements_transaction ON public.inventory_movements (transaction_id);
+CREATE UNIQUE INDEX idx_inventory_movements_collection ON public.inventory_movements (collection_id);
+
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+
+-- Movements follow their node: the subqueries run under its region policies.
+-- Depot staff record dispatches and counts as well as planners.
+CREATE POLICY "Users can read inventory in their region" ON public.inventory_movements FOR SELECT TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id)
+  );
+CREATE POLICY "Users can insert inventory in their region" ON public.inventory_movements FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id)
+  );
+CREATE POLICY "Users can update inventory in their region" ON public.inventory_movements FOR UPDATE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id)
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id)
+  );
+CREATE POLICY "Admins and planners can delete inventory" ON public.inventory_movements FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+CREATE TRIGGER audit_inventory_movements
+  AFTER INSERT OR UPDATE OR DELETE ON public.inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- When a shift's milk is in the center tank
+CREATE OR REPLACE FUNCTION public.collection_time(_date DATE, _shift TEXT)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO public
+AS $function$
+  SELECT (_date + CASE _shift WHEN 'morning' THEN TIME '07:00' ELSE TIME '18:00' END) AT TIME ZONE 'Asia/Kolkata';
+$function$;
+
+-- Accepted milk enters the center tank
+CREATE OR REPLACE FUNCTION public.post_collection_inventory()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+BEGIN
+  INSERT INTO public.inventory_movements (center_id, kind, quantity, occurred_at, collection_id)
+  VALUES (NEW.center_id, 'collection', NEW.volume_liters - NEW.rejected_liters,
+          public.collection_time(NEW.collection_date, NEW.shift), NEW.id)
+  ON CONFLICT (collection_id) DO UPDATE
+    SET center_id = EXCLUDED.center_id, quantity = EXCLUDED.quantity, occurred_at = EXCLUDED.occurred_at;
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER post_collection_inventory
+  AFTER INSERT OR UPDATE ON public.milk_collections
+  FOR EACH ROW EXECUTE FUNCTION public.post_collection_inventory();
+
+-- Deleting a log entry corrects the log, so its movement goes with it
+CREATE OR REPLACE FUNCTION public.remove_collection_inventory()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+BEGIN
+  DELETE FROM public.inventory_movements WHERE collection_id = OLD.id;
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER remove_collection_inventory
+  BEFORE DELETE ON public.milk_collections
+  FOR EACH ROW EXECUTE FUNCTION public.remove_collection_inventory();
+
+-- Nodes with stock history are kept: deleting one would take its ledger
+-- along, and undoing the delete in the network editor only restores the
+-- node. A farm's movements hang off its log entries, which the foreign keys
+-- keep already; checking here names the farm in the refusal.
+CREATE OR REPLACE FUNCTION public.protect_inventory_nodes()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.inventory_movements m
+     WHERE m.center_id = OLD.id
+        OR m.plant_id = OLD.id
+        OR m.collection_id IN (SELECT c.id FROM public.milk_collections c WHERE c.farm_id = OLD.id)
+  ) THEN
+    RAISE EXCEPTION '% has inventory movements and cannot be deleted', OLD.name
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER protect_inventory_dairy_farms
+  BEFORE DELETE ON public.dairy_farms
+  FOR EACH ROW EXECUTE FUNCTION public.protect_inventory_nodes();
+CREATE TRIGGER protect_inventory_collection_centers
+  BEFORE DELETE ON public.collection_centers
+  FOR EACH ROW EXECUTE FUNCTION public.protect_inventory_nodes();
+CREATE TRIGGER protect_inventory_processing_plants
+  BEFORE DELETE ON public.processing_plants
+  FOR EACH ROW EXECUTE FUNCTION public.protect_inventory_nodes();
+
+INSERT INTO public.inventory_movements (center_id, kind, quantity, occurred_at, collection_id)
+SELECT center_id, 'collection', volume_liters - rejected_liters, public.collection_time(collection_date, shift), id
+  FROM public.milk_collections;
+
+-- Stock levels at a moment: the latest count of each stock plus the flows
+-- recorded after it. Optimizers take their starting inventory from here.
+CREATE OR REPLACE FUNCTION public.inventory_levels(_at TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS TABLE (center_id UUID, plant_id UUID, product_id TEXT, quantity NUMERIC, counted_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+  WITH recorded AS (
+    SELECT * FROM public.inventory_movements WHERE occurred_at <= _at
+  ), last_count AS (
+    SELECT DISTINCT ON (r.center_id, r.plant_id, r.product_id) r.center_id, r.plant_id, r.product_id, r.quantity, r.occurred_at
+      FROM recorded r
+     WHERE r.kind = 'count'
+     ORDER BY r.center_id, r.plant_id, r.product_id, r.occurred_at DESC, r.created_at DESC
+  )
+  SELECT r.center_id, r.plant_id, r.product_id,
+         COALESCE(MAX(c.quantity), 0) + COALESCE(SUM(
+           CASE
+             WHEN r.kind = 'count' OR r.occurred_at <= c.occurred_at THEN 0
+             WHEN r.kind IN ('collection', 'receipt', 'production') THEN r.quantity
+             ELSE -r.quantity
+           END), 0),
+         MAX(c.occurred_at)
+    FROM recorded r
+    LEFT JOIN last_count c
+      ON c.center_id IS NOT DISTINCT FROM r.center_id
+     AND c.plant_id IS NOT DISTINCT FROM r.plant_id
+     AND c.product_id IS NOT DISTINCT FROM r.product_id
+   GROUP BY r.center_id, r.plant_id, r.product_id;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.inventory_levels(TIMESTAMP WITH TIME ZONE) TO authenticated;
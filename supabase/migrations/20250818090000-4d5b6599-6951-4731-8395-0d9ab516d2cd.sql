@@ -0,0 +1,290 @@
+-- Lot traceability from farm to retail. Every stock movement that creates
+-- product gets a lot:
+--   collection - a farm's accepted milk for a shift at a center
+--   tanker     - milk dispatched from a center to a plant
+--   production - a production run of one product at a plant
+--   dispatch   - finished goods sent from a plant to a distributor or outlet
+-- Lots are linked parent → child with the quantity of the parent that went
+-- into the child. Links are allocated first in, first out: a tanker takes
+-- the oldest collection lots still in the center tank, a production run the
+-- oldest tankers received at the plant (up to the milk it used), a dispatch
+-- the oldest production lots of its product.
+
+CREATE TABLE public.lots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  lot_code TEXT NOT NULL UNIQUE,
+  kind TEXT NOT NULL CHECK (kind IN ('collection', 'tanker', 'production', 'dispatch')),
+  movement_id UUID NOT NULL UNIQUE REFERENCES public.inventory_movements(id) ON DELETE RESTRICT,
+  center_id UUID REFERENCES public.collection_centers(id) ON DELETE RESTRICT,
+  plant_id UUID REFERENCES public.processing_plants(id) ON DELETE RESTRICT,
+  farm_id UUID REFERENCES public.dairy_farms(id) ON DELETE SET NULL, -- collection lots
+  product_id TEXT REFERENCES public.dairy_products(id) ON DELETE RESTRICT, -- NULL = raw milk
+  quantity NUMERIC NOT NULL CHECK (quantity >= 0),
+  produced_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  destination_type TEXT CHECK (destination_type IN ('processing_plant', 'distributor', 'retail')),
+  destination_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  CHECK (num_nonnulls(center_id, plant_id) = 1)
+);
+
+CREATE INDEX idx_lots_farm ON public.lots (farm_id, produced_at);
+CREATE INDEX idx_lots_open ON public.lots (kind, center_id, plant_id, product_id, produced_at);
+
+CREATE TABLE public.lot_links (
+  parent_lot_id UUID NOT NULL REFERENCES public.lots(id) ON DELETE RESTRICT,
+  child_lot_id UUID NOT NULL REFERENCES public.lots(id) ON DELETE CASCADE,
+  quantity NUMERIC NOT NULL CHECK (quantity > 0), -- of the parent, in its unit
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  PRIMARY KEY (parent_lot_id, child_lot_id),
+  CHECK (parent_lot_id <> child_lot_id)
+);
+
+CREATE INDEX idx_lot_links_child ON public.lot_links (child_lot_id);
+
+ALTER TABLE public.lots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.lot_links ENABLE ROW LEVEL SECURITY;
+
+-- Lots follow their node like the movements that create them; links follow
+-- their child lot and are rewritten by the triggers below
+CREATE POLICY "Users can read lots in their region" ON public.lots FOR SELECT TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id)
+  );
+CREATE POLICY "Users can insert lots in their region" ON public.lots FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id)
+  );
+CREATE POLICY "Users can update lots in their region" ON public.lots FOR UPDATE TO authenticated
+  USING (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id)
+  )
+  WITH CHECK (
+    EXISTS (SELECT 1 FROM public.collection_centers c WHERE c.id = center_id)
+    OR EXISTS (SELECT 1 FROM public.processing_plants p WHERE p.id = plant_id)
+  );
+CREATE POLICY "Admins and planners can delete lots" ON public.lots FOR DELETE TO authenticated
+  USING (public.can_manage_network(auth.uid()));
+
+CREATE POLICY "Users can read lot links in their region" ON public.lot_links FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.lots l WHERE l.id = child_lot_id));
+CREATE POLICY "Users can insert lot links in their region" ON public.lot_links FOR INSERT TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM public.lots l WHERE l.id = child_lot_id));
+CREATE POLICY "Users can delete lot links in their region" ON public.lot_links FOR DELETE TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.lots l WHERE l.id = child_lot_id));
+
+CREATE TRIGGER audit_lots
+  AFTER INSERT OR UPDATE OR DELETE ON public.lots
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event();
+
+-- e.g. TNK-250817-3F9A0C21: kind, local production date, start of the movement id
+CREATE OR REPLACE FUNCTION public.lot_code(_kind TEXT, _at TIMESTAMP WITH TIME ZONE, _movement_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path TO public
+AS $function$
+  SELECT CASE _kind WHEN 'collection' THEN 'COL' WHEN 'tanker' THEN 'TNK' WHEN 'production' THEN 'PRD' ELSE 'DSP' END
+    || '-' || to_char(_at AT TIME ZONE 'Asia/Kolkata', 'YYMMDD')
+    || '-' || upper(left(replace(_movement_id::text, '-', ''), 8));
+$function$;
+
+-- Links a new lot to the oldest parents with quantity left, up to _quantity
+CREATE OR REPLACE FUNCTION public.allocate_lot_parents(_child UUID, _parents UUID[], _quantity NUMERIC)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+DECLARE
+  _parent RECORD;
+  _left NUMERIC := _quantity;
+  _take NUMERIC;
+BEGIN
+  FOR _parent IN
+    SELECT l.id, l.quantity - COALESCE((SELECT SUM(k.quantity) FROM public.lot_links k WHERE k.parent_lot_id = l.id), 0) AS remaining
+      FROM public.lots l
+     WHERE l.id = ANY(_parents)
+     ORDER BY l.produced_at, l.created_at
+  LOOP
+    EXIT WHEN _left <= 0;
+    CONTINUE WHEN _parent.remaining <= 0;
+    _take := LEAST(_parent.remaining, _left);
+    INSERT INTO public.lot_links (parent_lot_id, child_lot_id, quantity) VALUES (_parent.id, _child, _take);
+    _left := _left - _take;
+  END LOOP;
+END;
+$function$;
+
+-- Links the lot a movement created to its parents, replacing any links it
+-- had, so that a corrected movement draws on its parents afresh
+CREATE OR REPLACE FUNCTION public.link_movement_lot(_movement public.inventory_movements)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+DECLARE
+  _kind TEXT;
+  _lot UUID;
+  _parents UUID[];
+  _milk NUMERIC;
+BEGIN
+  SELECT id, kind INTO _lot, _kind FROM public.lots WHERE movement_id = _movement.id;
+  IF _lot IS NULL THEN
+    RETURN;
+  END IF;
+  DELETE FROM public.lot_links WHERE child_lot_id = _lot;
+
+  IF _kind = 'tanker' THEN
+    SELECT array_agg(id) INTO _parents FROM public.lots
+     WHERE kind = 'collection' AND center_id = _movement.center_id AND produced_at <= _movement.occurred_at;
+    PERFORM public.allocate_lot_parents(_lot, _parents, _movement.quantity);
+  ELSIF _kind = 'production' THEN
+    -- The milk the run used is recorded alongside it
+    SELECT COALESCE(SUM(quantity), 0) INTO _milk FROM public.inventory_movements
+     WHERE transaction_id = _movement.transaction_id AND kind = 'consumption' AND plant_id = _movement.plant_id;
+    SELECT array_agg(id) INTO _parents FROM public.lots
+     WHERE kind = 'tanker' AND destination_type = 'processing_plant' AND destination_id = _movement.plant_id
+       AND produced_at <= _movement.occurred_at;
+    PERFORM public.allocate_lot_parents(_lot, _parents, _milk);
+  ELSIF _kind = 'dispatch' THEN
+    SELECT array_agg(id) INTO _parents FROM public.lots
+     WHERE kind = 'production' AND plant_id = _movement.plant_id AND product_id = _movement.product_id
+       AND produced_at <= _movement.occurred_at;
+    PERFORM public.allocate_lot_parents(_lot, _parents, _movement.quantity);
+  END IF;
+END;
+$function$;
+
+-- The lot a movement creates, if any, linked to its parents
+CREATE OR REPLACE FUNCTION public.create_movement_lot(_movement public.inventory_movements)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+DECLARE
+  _kind TEXT;
+BEGIN
+  _kind := CASE
+    WHEN _movement.kind = 'collection' THEN 'collection'
+    WHEN _movement.kind = 'dispatch' AND _movement.center_id IS NOT NULL THEN 'tanker'
+    WHEN _movement.kind = 'production' THEN 'production'
+    WHEN _movement.kind = 'dispatch' AND _movement.product_id IS NOT NULL THEN 'dispatch'
+  END;
+  IF _kind IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.lots (lot_code, kind, movement_id, center_id, plant_id, farm_id, product_id, quantity,
+                           produced_at, destination_type, destination_id)
+  VALUES (public.lot_code(_kind, _movement.occurred_at, _movement.id), _kind, _movement.id,
+          _movement.center_id, _movement.plant_id,
+          (SELECT mc.farm_id FROM public.milk_collections mc WHERE mc.id = _movement.collection_id),
+          _movement.product_id, _movement.quantity, _movement.occurred_at,
+          _movement.destination_type, _movement.destination_id);
+
+  PERFORM public.link_movement_lot(_movement);
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.post_movement_lot()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.create_movement_lot(NEW);
+  ELSE
+    -- Corrections (e.g. an edited collection entry) carry over to the lot,
+    -- which then draws on its parents again for the new quantity and time
+    UPDATE public.lots
+       SET quantity = NEW.quantity, produced_at = NEW.occurred_at, center_id = NEW.center_id
+     WHERE movement_id = NEW.id;
+    IF NEW.quantity IS DISTINCT FROM OLD.quantity OR NEW.occurred_at IS DISTINCT FROM OLD.occurred_at
+       OR NEW.center_id IS DISTINCT FROM OLD.center_id THEN
+      PERFORM public.link_movement_lot(NEW);
+      -- A production lot draws the milk recorded as used by its run
+      IF NEW.kind = 'consumption' THEN
+        PERFORM public.link_movement_lot(m) FROM public.inventory_movements m
+         WHERE m.transaction_id = NEW.transaction_id AND m.kind = 'production' AND m.plant_id = NEW.plant_id;
+      END IF;
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$function$;
+
+CREATE TRIGGER post_movement_lot
+  AFTER INSERT OR UPDATE ON public.inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION public.post_movement_lot();
+
+-- A deleted movement takes its lot along, unless later lots were made from
+-- it; the genealogy stays whole, so the movement has to stay as well
+CREATE OR REPLACE FUNCTION public.remove_movement_lot()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+DECLARE
+  _code TEXT;
+BEGIN
+  SELECT l.lot_code INTO _code FROM public.lots l
+   WHERE l.movement_id = OLD.id
+     AND EXISTS (SELECT 1 FROM public.lot_links k WHERE k.parent_lot_id = l.id);
+  IF _code IS NOT NULL THEN
+    RAISE EXCEPTION 'Lot % has gone into later lots and cannot be removed', _code
+      USING ERRCODE = 'foreign_key_violation';
+  END IF;
+  DELETE FROM public.lots WHERE movement_id = OLD.id;
+  RETURN OLD;
+END;
+$function$;
+
+CREATE TRIGGER remove_movement_lot
+  BEFORE DELETE ON public.inventory_movements
+  FOR EACH ROW EXECUTE FUNCTION public.remove_movement_lot();
+
+-- Lots for movements already recorded, oldest first so parents exist
+DO $$
+DECLARE
+  _movement public.inventory_movements;
+BEGIN
+  FOR _movement IN SELECT * FROM public.inventory_movements ORDER BY occurred_at, created_at LOOP
+    PERFORM public.create_movement_lot(_movement);
+  END LOOP;
+END;
+$$;
+
+-- Every lot connected to the given ones: their sources back to the farms
+-- (depth < 0) and everything made or shipped from them (depth > 0)
+CREATE OR REPLACE FUNCTION public.trace_lots(_lot_ids UUID[])
+RETURNS TABLE (lot_id UUID, depth INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path TO public
+AS $function$
+  WITH RECURSIVE
+  sources AS (
+    SELECT unnest(_lot_ids) AS lot_id, 0 AS depth
+    UNION
+    SELECT k.parent_lot_id, s.depth - 1 FROM sources s JOIN public.lot_links k ON k.child_lot_id = s.lot_id
+  ),
+  destinations AS (
+    SELECT unnest(_lot_ids) AS lot_id, 0 AS depth
+    UNION
+    SELECT k.child_lot_id, d.depth + 1 FROM destinations d JOIN public.lot_links k ON k.parent_lot_id = d.lot_id
+  )
+  SELECT lot_id, MIN(depth) FROM sources GROUP BY lot_id
+  UNION ALL
+  SELECT lot_id, MAX(depth) FROM destinations WHERE depth > 0 GROUP BY lot_id;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.trace_lots(UUID[]) TO authenticated;